@@ -1,7 +1,8 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { Search, Loader2, Info, Filter, X, User, Car, CheckCircle, Clock, Plus, MoreVertical, MessageSquare, CreditCard, AlertCircle, CalendarPlus, FileDown, Bell, Tag, Copy, FileText, RefreshCw } from 'lucide-react';
+import { Search, Loader2, Info, Filter, X, User, Car, CheckCircle, Clock, Plus, MoreVertical, MessageSquare, CreditCard, AlertCircle, CalendarPlus, FileDown, Bell, Tag, Copy, FileText, RefreshCw, Zap, Bookmark, Link2, RotateCcw } from 'lucide-react';
+import { useSearchParams } from 'react-router-dom';
 import { supabase } from '../../lib/supabase';
-import { format, addHours, isPast, isFuture, parseISO, formatDistance } from 'date-fns';
+import { format, addHours, parseISO, formatDistance } from 'date-fns';
 import { useToast } from '../ui/use-toast';
 import { useAuth } from '../../contexts/AuthContext';
 import { useError } from '../../contexts/ErrorContext';
@@ -18,8 +19,46 @@ import BookingLogModal from './booking/BookingLogModal';
 import BookingExportModal from './booking/BookingExportModal';
 import BookingReminderModal from './booking/BookingReminderModal';
 import BookingFeesModal from './booking/BookingFeesModal';
+import BookingFlightModal from './booking/BookingFlightModal';
+import BookingBulkActions from './booking/BookingBulkActions';
+import BookingSeriesModal, { type SeriesUpdate } from './booking/BookingSeriesModal';
+import BookingCancelModal from './booking/BookingCancelModal';
+import BookingCreateModal from './booking/BookingCreateModal';
+import BookingViewsMenu from './booking/BookingViewsMenu';
+import CommandPalette from '../ui/CommandPalette';
 import EmptyState from '../EmptyState';
 import { adminApi } from '../../lib/adminApi';
+import { summarizeBookingPrice } from '../../lib/pricing';
+import { exportFileName, type BookingExportFormat, type BookingExportOptions } from '../../lib/bookingExport';
+import {
+  BOOKING_PRIORITY_FILTERS,
+  DEFAULT_BOOKING_VIEW_FILTERS,
+  bookingViewFromSearchParams,
+  bookingViewSearchParams,
+  describeBookingViewFilters,
+  sameBookingViewFilters,
+  type BookingPriorityFilter,
+  type BookingView,
+  type BookingViewFilters
+} from '../../lib/bookingViews';
+import {
+  bookingDateRange,
+  DEFAULT_BOOKINGS_PAGE_SIZE,
+  MAX_BOOKINGS_PAGE_SIZE,
+  type BookingQuery,
+  type BookingSortField,
+  type BookingStatus
+} from '../../lib/bookingFilters';
+import type { ScheduleConflict, ScheduleConflictPolicy } from '../../lib/driverSchedule';
+import { DEFAULT_OFFER_MINUTES, MAX_OFFER_DRIVERS, type TripOfferStatus } from '../../lib/tripOffers';
+import { MAX_BULK_BOOKINGS, type BulkBookingAction, type BulkBookingParams, type BulkBookingResult } from '../../lib/bulkBookings';
+import type { CancellationQuote } from '../../lib/cancellation';
+import { FLIGHT_STATE_LABELS, isFlightState } from '../../lib/flights';
+import type { NewBooking } from '../../lib/newBooking';
+import type { BookingSeries } from '../../lib/recurrence';
+import type { BookingReminders } from '../../lib/reminderSchedule';
+import type { ReminderRequest } from '../../lib/reminderTemplates';
+import { TRIP_STATUS_LABELS, allowedTripTransitions, type TripStatus, type TripStatusTransition } from '../../lib/tripStatus';
 
 interface Driver {
   id: string;
@@ -52,9 +91,20 @@ interface Booking {
   surge_multiplier?: number;
   promo_discount?: number;
   customer_phone?: string;
+  customer_id?: string | null; // Customer directory entry, set from the contact details
   notes?: string; // Admin private notes
   priority?: number; // 0=normal, 1=high, 2=urgent
   last_reminder_sent?: string; // Timestamp of last reminder
+  reminders_opt_out?: boolean; // No automatic reminders for this booking
+  passengers?: number | null;
+  series_id?: string | null; // Recurring series the trip belongs to
+  series_date?: string | null;
+  series_detached?: boolean; // Edited on its own; series changes skip it
+  flight_number?: string | null; // Flight the customer arrives on, for airport pickups
+  flight_scheduled_arrival?: string | null;
+  flight_estimated_arrival?: string | null; // Latest expected landing the pickup follows
+  flight_status?: string | null;
+  flight_checked_at?: string | null;
   custom_fees?: {
     id: string;
     name: string;
@@ -80,14 +130,38 @@ interface Booking {
   };
   payments?: {
     id: string;
-    amount: number;
+    amount: number; // Negative for refunds
     status: 'pending' | 'completed' | 'failed';
+    kind?: 'charge' | 'refund' | 'cancellation_fee';
     payment_method: string;
     paid_at?: string;
   }[];
   estimated_distance_km?: number;
   estimated_duration_min?: number;
   created_at?: string;
+  /** Offers still waiting for a driver, from admin-fetch-bookings */
+  offers?: {
+    id: string;
+    status: TripOfferStatus;
+    position: number;
+    expires_at: string | null;
+    driver?: {
+      user?: { name: string };
+    };
+  }[];
+}
+
+interface BookingStats {
+  total: number;
+  pending: number;
+  accepted: number;
+  in_progress: number;
+  completed: number;
+  cancelled: number;
+  completed_revenue: number;
+  pending_revenue: number;
+  urgent: number;
+  need_attention: number;
 }
 
 interface ActivityLog {
@@ -102,55 +176,132 @@ interface ActivityLog {
   };
 }
 
-const PRIORITY_LEVELS = [
-  { value: 0, label: 'Normal', color: 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300' },
-  { value: 1, label: 'High', color: 'bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-300' },
-  { value: 2, label: 'Urgent', color: 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300' },
-];
+const PAGE_SIZE_OPTIONS = [25, DEFAULT_BOOKINGS_PAGE_SIZE, 100, MAX_BOOKINGS_PAGE_SIZE];
 
 const BookingsManagement = () => {
   const [bookings, setBookings] = useState<Booking[]>([]);
-  const [filteredBookings, setFilteredBookings] = useState<Booking[]>([]);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
-  const [searchQuery, setSearchQuery] = useState('');
-  const [statusFilter, setStatusFilter] = useState('all');
-  const [dateRangeFilter, setDateRangeFilter] = useState('upcoming');
-  const [driverFilter, setDriverFilter] = useState('all'); // 'all', 'assigned', 'unassigned'
-  const [priorityFilter, setPriorityFilter] = useState('all'); // 'all', 'normal', 'high', 'urgent'
+  const [dispatching, setDispatching] = useState(false);
+  // Filters are kept in the URL so a filtered table can be shared as a link
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [initialFilters] = useState(() => bookingViewFromSearchParams(searchParams));
+  const [searchQuery, setSearchQuery] = useState(initialFilters.search);
+  const [debouncedSearch, setDebouncedSearch] = useState(initialFilters.search);
+  const [tagFilter, setTagFilter] = useState<string[]>(initialFilters.tags);
+  const [statusFilter, setStatusFilter] = useState<string>(initialFilters.status);
+  const [dateRangeFilter, setDateRangeFilter] = useState<string>(initialFilters.dateRange);
+  const [driverFilter, setDriverFilter] = useState<string>(initialFilters.driver); // 'all', 'assigned', 'unassigned'
+  const [priorityFilter, setPriorityFilter] = useState<string>(initialFilters.priority); // 'all', 'normal', 'high', 'urgent'
+  // Named views saved by this admin, and the one last picked or saved
+  const [savedViews, setSavedViews] = useState<BookingView[]>([]);
+  const [loadingViews, setLoadingViews] = useState(false);
+  const [currentViewId, setCurrentViewId] = useState<string | null>(null);
+  const [showCommandPalette, setShowCommandPalette] = useState(false);
   const [showAssignModal, setShowAssignModal] = useState(false);
   const [selectedBooking, setSelectedBooking] = useState<Booking | null>(null);
   const [selectedTripId, setSelectedTripId] = useState<string | null>(null);
   const [drivers, setDrivers] = useState<Driver[]>([]);
   const [loadingDrivers, setLoadingDrivers] = useState(false);
   const [driverSearchQuery, setDriverSearchQuery] = useState('');
-  const [driverAvailabilityFilter, setDriverAvailabilityFilter] = useState('all'); // 'all', 'available', 'unavailable'
+  const [driverAvailabilityFilter, setDriverAvailabilityFilter] = useState('all'); // 'all', 'available', 'free', 'unavailable'
   const [assigningDriver, setAssigningDriver] = useState(false);
+  // Overlapping trips of each driver for the booking being assigned, by driver id
+  const [driverConflicts, setDriverConflicts] = useState<Record<string, ScheduleConflict[]>>({});
+  const [conflictPolicy, setConflictPolicy] = useState<ScheduleConflictPolicy>('warn');
+  const [loadingSchedule, setLoadingSchedule] = useState(false);
+  // Drivers picked for an offer, in the order they will be asked
+  const [offerDriverIds, setOfferDriverIds] = useState<string[]>([]);
+  const [offerMinutes, setOfferMinutes] = useState(DEFAULT_OFFER_MINUTES);
+  const [sendingOffer, setSendingOffer] = useState(false);
   const [showDetailModal, setShowDetailModal] = useState(false);
+  // Reminder policies and deliveries of the booking shown in the detail modal
+  const [bookingReminders, setBookingReminders] = useState<BookingReminders | null>(null);
+  const [loadingReminders, setLoadingReminders] = useState(false);
+  // Status changes of the booking shown in the detail modal, oldest first
+  const [bookingTimeline, setBookingTimeline] = useState<TripStatusTransition[] | null>(null);
+  const [loadingTimeline, setLoadingTimeline] = useState(false);
+  // Recurring series of the selected booking, with all of its trips
+  const [seriesInfo, setSeriesInfo] = useState<{ series: BookingSeries | null; occurrences: Booking[]; timeZone: string } | null>(null);
+  const [loadingSeries, setLoadingSeries] = useState(false);
+  const [showSeriesModal, setShowSeriesModal] = useState(false);
+  // Booking being cancelled and the fee the cancellation policy gives it
+  const [cancelTarget, setCancelTarget] = useState<Booking | null>(null);
+  const [cancelQuote, setCancelQuote] = useState<CancellationQuote | null>(null);
+  const [loadingCancelQuote, setLoadingCancelQuote] = useState(false);
   const [showNoteModal, setShowNoteModal] = useState(false);
   const [showLogModal, setShowLogModal] = useState(false);
   const [showExportModal, setShowExportModal] = useState(false);
+  const [showCreateModal, setShowCreateModal] = useState(false);
   const [showReminderModal, setShowReminderModal] = useState(false);
   const [showFeesModal, setShowFeesModal] = useState(false);
+  const [showFlightModal, setShowFlightModal] = useState(false);
+  const [checkingFlight, setCheckingFlight] = useState(false);
   const [activityLogs, setActivityLogs] = useState<ActivityLog[]>([]);
-  const [sortField, setSortField] = useState<'datetime' | 'customer_name' | 'status' | 'priority'>('datetime');
-  const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('desc');
+  const [sortField, setSortField] = useState<BookingSortField>(initialFilters.sort);
+  const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>(initialFilters.order);
+  const [pageSize, setPageSize] = useState(initialFilters.pageSize);
+  // Cursor of every page visited so far; the first page has none
+  const [pageCursors, setPageCursors] = useState<(string | null)[]>([null]);
+  const [pageIndex, setPageIndex] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [totalCount, setTotalCount] = useState(0);
+  const [stats, setStats] = useState<BookingStats | null>(null);
+  // Bookings ticked for a bulk action, by id; kept while paging but cleared when the filters change
+  const [selectedBookings, setSelectedBookings] = useState<Record<string, Booking>>({});
+  const [bulkResult, setBulkResult] = useState<(BulkBookingResult & { canOverride: boolean }) | null>(null);
+  // Set when exporting only the ticked bookings
+  const [exportSelection, setExportSelection] = useState<Booking[] | null>(null);
 
   const { toast } = useToast();
   const { userData, refreshSession, session } = useAuth();
   const { captureError } = useError();
   const modalRef = useRef<HTMLDivElement>(null);
+  // Responses to superseded requests (e.g. while typing a search) are ignored
+  const latestBookingsRequest = useRef(0);
 
   useEffect(() => {
     if (userData?.user_role === 'admin') {
-      refreshData();
+      fetchDrivers();
+      fetchBookingViews();
     }
   }, [userData]);
 
-  // Apply filters and sorting to bookings whenever dependencies change
+  // Open the command palette with Cmd+K or Ctrl+K
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === 'k') {
+        e.preventDefault();
+        setShowCommandPalette(open => !open);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  // Wait for a pause in typing before searching
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedSearch(searchQuery.trim()), 300);
+    return () => clearTimeout(timer);
+  }, [searchQuery]);
+
+  // Filters and sorting run on the server; any change starts again from the first page
+  useEffect(() => {
+    if (userData?.user_role === 'admin') {
+      setPageCursors([null]);
+      setPageIndex(0);
+      setSelectedBookings({});
+      fetchBookings(null);
+    }
+  }, [userData, debouncedSearch, statusFilter, dateRangeFilter, driverFilter, priorityFilter, tagFilter, sortField, sortOrder, pageSize]);
+
+  // Keep the URL in step with the filters, without adding a history entry for each change
   useEffect(() => {
-    applyFiltersAndSort();
-  }, [bookings, searchQuery, statusFilter, dateRangeFilter, driverFilter, priorityFilter, sortField, sortOrder]);
+    const params = bookingViewSearchParams(currentFilters);
+    if (params.toString() !== searchParams.toString()) {
+      setSearchParams(params, { replace: true });
+    }
+  }, [debouncedSearch, statusFilter, dateRangeFilter, driverFilter, priorityFilter, tagFilter, sortField, sortOrder, pageSize]);
 
   // Check for bookings that need attention (pending and close to departure)
   useEffect(() => {
@@ -197,10 +348,178 @@ const BookingsManagement = () => {
   const refreshData = async () => {
     await fetchBookings();
     await fetchDrivers();
-    checkForReminders();
   };
 
-  const fetchBookings = async () => {
+  // The table's filters as a view, for the URL and saved views
+  const currentFilters: BookingViewFilters = {
+    status: statusFilter as BookingViewFilters['status'],
+    dateRange: dateRangeFilter as BookingViewFilters['dateRange'],
+    driver: driverFilter as BookingViewFilters['driver'],
+    priority: priorityFilter as BookingViewFilters['priority'],
+    tags: tagFilter,
+    search: debouncedSearch,
+    sort: sortField,
+    order: sortOrder,
+    pageSize
+  };
+
+  const currentView = savedViews.find(view => view.id === currentViewId) || null;
+  const currentViewModified = !!currentView && !sameBookingViewFilters(currentView.filters, currentFilters);
+
+  const applyViewFilters = (filters: BookingViewFilters) => {
+    setSearchQuery(filters.search);
+    setDebouncedSearch(filters.search);
+    setStatusFilter(filters.status);
+    setDateRangeFilter(filters.dateRange);
+    setDriverFilter(filters.driver);
+    setPriorityFilter(filters.priority);
+    setTagFilter(filters.tags);
+    setSortField(filters.sort);
+    setSortOrder(filters.order);
+    setPageSize(filters.pageSize);
+  };
+
+  const fetchBookingViews = async () => {
+    setLoadingViews(true);
+    try {
+      const { views } = await adminApi.fetchBookingViews();
+      setSavedViews(views);
+    } catch (error: any) {
+      console.error('Error fetching booking views:', error);
+    } finally {
+      setLoadingViews(false);
+    }
+  };
+
+  const handleSelectView = (view: BookingView) => {
+    setCurrentViewId(view.id);
+    applyViewFilters(view.filters);
+  };
+
+  const handleSaveView = async (name: string): Promise<boolean> => {
+    try {
+      const { view } = await adminApi.saveBookingView({ name, filters: currentFilters });
+      setSavedViews([...savedViews, view].sort((a, b) => a.name.localeCompare(b.name)));
+      setCurrentViewId(view.id);
+      toast({
+        title: "View Saved",
+        description: `"${view.name}" is now in your saved views.`,
+      });
+      return true;
+    } catch (error: any) {
+      console.error('Error saving booking view:', error);
+      captureError(error, 'Save Booking View');
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Could not save the view. Please try again.",
+      });
+      return false;
+    }
+  };
+
+  const handleUpdateView = async (view: BookingView) => {
+    try {
+      const { view: saved } = await adminApi.saveBookingView({ id: view.id, name: view.name, filters: currentFilters });
+      setSavedViews(savedViews.map(v => v.id === saved.id ? saved : v));
+      toast({
+        title: "View Updated",
+        description: `"${saved.name}" now uses the current filters.`,
+      });
+    } catch (error: any) {
+      console.error('Error updating booking view:', error);
+      captureError(error, 'Update Booking View');
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Could not update the view. Please try again.",
+      });
+    }
+  };
+
+  const handleDeleteView = async (view: BookingView) => {
+    if (!window.confirm(`Delete the view "${view.name}"?`)) return;
+
+    try {
+      await adminApi.deleteBookingView(view.id);
+      setSavedViews(savedViews.filter(v => v.id !== view.id));
+      if (currentViewId === view.id) setCurrentViewId(null);
+    } catch (error: any) {
+      console.error('Error deleting booking view:', error);
+      captureError(error, 'Delete Booking View');
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Could not delete the view. Please try again.",
+      });
+    }
+  };
+
+  const copyViewLink = async () => {
+    const params = bookingViewSearchParams(currentFilters).toString();
+    const link = `${window.location.origin}${window.location.pathname}${params ? `?${params}` : ''}`;
+    try {
+      await navigator.clipboard.writeText(link);
+      toast({
+        title: "Link Copied",
+        description: "Anyone with admin access can open the bookings with these filters.",
+      });
+    } catch (error) {
+      console.error('Error copying link:', error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Could not copy the link to the clipboard.",
+      });
+    }
+  };
+
+  const resetFilters = () => {
+    setCurrentViewId(null);
+    applyViewFilters(DEFAULT_BOOKING_VIEW_FILTERS);
+  };
+
+  const commandItems = [
+    ...savedViews.map(view => ({
+      id: `view-${view.id}`,
+      title: view.name,
+      description: describeBookingViewFilters(view.filters),
+      icon: <Bookmark className="h-4 w-4" />,
+      category: 'Saved Views',
+      action: () => handleSelectView(view)
+    })),
+    {
+      id: 'copy-link',
+      title: 'Copy link to these filters',
+      icon: <Link2 className="h-4 w-4" />,
+      category: 'Bookings',
+      action: copyViewLink
+    },
+    {
+      id: 'reset-filters',
+      title: 'Reset filters',
+      description: describeBookingViewFilters(DEFAULT_BOOKING_VIEW_FILTERS),
+      icon: <RotateCcw className="h-4 w-4" />,
+      category: 'Bookings',
+      action: resetFilters
+    }
+  ];
+
+  // The current filters in the form admin-fetch-bookings expects. Relative
+  // date ranges are resolved at request time.
+  const buildBookingQuery = (): BookingQuery => ({
+    ...bookingDateRange(dateRangeFilter),
+    status: statusFilter !== 'all' ? [statusFilter as BookingStatus] : undefined,
+    driver: driverFilter !== 'all' ? driverFilter as BookingQuery['driver'] : undefined,
+    priority: priorityFilter !== 'all' ? [BOOKING_PRIORITY_FILTERS[priorityFilter as BookingPriorityFilter]] : undefined,
+    tags: tagFilter.length > 0 ? tagFilter : undefined,
+    search: debouncedSearch || undefined,
+    sort: sortField,
+    order: sortOrder
+  });
+
+  const fetchBookings = async (cursor: string | null = pageCursors[pageIndex]) => {
+    const requestId = ++latestBookingsRequest.current;
     try {
       setRefreshing(true);
       
@@ -209,15 +528,21 @@ const BookingsManagement = () => {
         throw new Error('Admin permissions required');
       }
       
-      // Use adminApi to fetch bookings instead of direct Supabase query
-      const bookingsData = await adminApi.fetchBookings();
+      // Use adminApi to fetch one page of bookings instead of direct Supabase query
+      const page = await adminApi.fetchBookings({
+        ...buildBookingQuery(),
+        limit: pageSize,
+        cursor: cursor || undefined
+      });
+
+      if (requestId !== latestBookingsRequest.current) return;
       
-      if (!bookingsData) {
+      if (!page) {
         throw new Error('Failed to fetch bookings');
       }
       
       // Format the booking data and add any additional fields
-      const formattedBookings: Booking[] = (bookingsData || []).map(booking => ({
+      const formattedBookings: Booking[] = (page.bookings || []).map(booking => ({
         ...booking,
         notes: booking.notes || '',
         priority: booking.priority || 0,
@@ -226,7 +551,13 @@ const BookingsManagement = () => {
       }));
 
       setBookings(formattedBookings);
+      setNextCursor(page.nextCursor);
+      setTotalCount(page.totalCount);
+      if (page.stats) {
+        setStats(page.stats);
+      }
     } catch (error: any) {
+      if (requestId !== latestBookingsRequest.current) return;
       console.error('Error fetching bookings:', error);
       captureError(error, 'Bookings Management');
       toast({
@@ -261,12 +592,30 @@ const BookingsManagement = () => {
       ];
       
       setBookings(mockData);
+      setNextCursor(null);
+      setTotalCount(mockData.length);
     } finally {
-      setLoading(false);
-      setRefreshing(false);
+      if (requestId === latestBookingsRequest.current) {
+        setLoading(false);
+        setRefreshing(false);
+      }
     }
   };
 
+  const goToNextPage = async () => {
+    if (!nextCursor) return;
+    setPageCursors([...pageCursors.slice(0, pageIndex + 1), nextCursor]);
+    setPageIndex(pageIndex + 1);
+    await fetchBookings(nextCursor);
+  };
+
+  const goToPreviousPage = async () => {
+    if (pageIndex === 0) return;
+    setPageIndex(pageIndex - 1);
+    await fetchBookings(pageCursors[pageIndex - 1]);
+  };
+
+  // Every booking matching the current filters, a page at a time
   const fetchDrivers = async () => {
     try {
       setLoadingDrivers(true);
@@ -324,20 +673,25 @@ const BookingsManagement = () => {
   };
 
   const updateBookingStatus = async (bookingId: string, newStatus: string) => {
+    // Cancelling applies the cancellation policy, so it is confirmed with the fee first
+    if (newStatus === 'cancelled') {
+      const booking = bookings.find(b => b.id === bookingId) || (selectedBooking?.id === bookingId ? selectedBooking : null);
+      if (booking) handleOpenCancelModal(booking);
+      return;
+    }
+
     try {
-      // Use adminApi to update booking status
-      await adminApi.updateBookingStatus(bookingId, newStatus);
-      
-      // Log the activity
-      await logBookingActivity(bookingId, 'status_update', {
-        previous_status: bookings.find(b => b.id === bookingId)?.status,
-        new_status: newStatus
-      });
-      
+      // The server checks the change against the trip state machine and logs it
+      await adminApi.updateBookingStatus(bookingId, newStatus as TripStatus);
+
       // Update local state
       setBookings(bookings.map(booking => 
-        booking.id === bookingId ? { ...booking, status: newStatus as any } : booking
+        booking.id === bookingId ? { ...booking, status: newStatus as TripStatus } : booking
       ));
+      if (selectedBooking?.id === bookingId) {
+        setSelectedBooking({ ...selectedBooking, status: newStatus as TripStatus });
+        if (showDetailModal) fetchBookingTimeline(bookingId);
+      }
 
       toast({
         title: "Success",
@@ -351,22 +705,66 @@ const BookingsManagement = () => {
         title: "Error",
         description: error.message || "Could not update booking. Please try again.",
       });
-      
-      // Update UI only as fallback
-      setBookings(bookings.map(booking => 
-        booking.id === bookingId ? { ...booking, status: newStatus as any } : booking
-      ));
     }
   };
 
-  const assignDriver = async (driverId: string) => {
+  const handleOpenCancelModal = async (booking: Booking) => {
+    setCancelTarget(booking);
+    setCancelQuote(null);
+    setShowDetailModal(false);
+    setLoadingCancelQuote(true);
+    try {
+      const { quote } = await adminApi.previewCancellation(booking.id);
+      setCancelQuote(quote);
+    } catch (error: any) {
+      console.error('Error calculating cancellation fee:', error);
+      captureError(error, 'Cancellation Fee');
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Could not calculate the cancellation fee. Please try again.",
+      });
+      setCancelTarget(null);
+    } finally {
+      setLoadingCancelQuote(false);
+    }
+  };
+
+  const handleCancelBooking = async (bookingId: string, feeOverride: number | null, reason: string) => {
+    try {
+      const { quote } = await adminApi.cancelBooking(bookingId, { feeOverride, reason });
+
+      toast({
+        title: "Booking Cancelled",
+        description: quote.outstanding > 0
+          ? `A cancellation fee of €${quote.outstanding.toFixed(2)} is owed by the customer.`
+          : quote.refund > 0
+            ? `A refund of €${quote.refund.toFixed(2)} is pending.`
+            : "No fee or refund was due.",
+        variant: "success"
+      });
+
+      setCancelTarget(null);
+      await fetchBookings();
+    } catch (error: any) {
+      console.error('Error cancelling booking:', error);
+      captureError(error, 'Cancel Booking');
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Could not cancel the booking. Please try again.",
+      });
+    }
+  };
+
+  const assignDriver = async (driverId: string, force = false) => {
     if (!selectedTripId) return;
     
     try {
       setAssigningDriver(true);
       
       // Use adminApi to assign driver
-      const result = await adminApi.assignDriverToBooking(selectedTripId, driverId);
+      const result = await adminApi.assignDriverToBooking(selectedTripId, driverId, force);
       
       if (!result.success) {
         throw new Error(result.message || 'Failed to assign driver');
@@ -397,27 +795,55 @@ const BookingsManagement = () => {
         title: "Error",
         description: error.message || "Could not assign driver. Please try again.",
       });
-      
-      // Update UI only as fallback
-      const driver = drivers.find(d => d.id === driverId);
-      if (driver && selectedTripId) {
-        setBookings(bookings.map(booking => 
-          booking.id === selectedTripId ? { 
-            ...booking, 
-            driver_id: driver.user_id,
-            driver: {
-              name: driver.user?.name || 'Unknown Driver',
-              email: driver.user?.email || '',
-              phone: driver.user?.phone || ''
-            }
-          } : booking
-        ));
-      }
     } finally {
       setAssigningDriver(false);
     }
   };
 
+  const toggleOfferDriver = (driverId: string) => {
+    setOfferDriverIds(prev => prev.includes(driverId)
+      ? prev.filter(id => id !== driverId)
+      : prev.length < MAX_OFFER_DRIVERS ? [...prev, driverId] : prev
+    );
+  };
+
+  const sendOffer = async () => {
+    if (!selectedTripId || offerDriverIds.length === 0) return;
+
+    try {
+      setSendingOffer(true);
+      await adminApi.offerTrip({
+        bookingId: selectedTripId,
+        driverIds: offerDriverIds,
+        responseMinutes: offerMinutes,
+        // Drivers with overlapping trips are marked in the list before they are picked
+        force: offerDriverIds.some(id => driverConflicts[id])
+      });
+
+      const first = drivers.find(d => d.id === offerDriverIds[0]);
+      toast({
+        title: "Offer Sent",
+        description: `${first?.user?.name || 'The driver'} has ${offerMinutes} minutes to respond${
+          offerDriverIds.length > 1 ? `; ${offerDriverIds.length - 1} more driver(s) will be asked in turn` : ''
+        }.`,
+        variant: "success"
+      });
+
+      handleCloseModal();
+      await fetchBookings();
+    } catch (error: any) {
+      console.error('Error offering trip:', error);
+      captureError(error, 'Offer Trip');
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Could not send the offer. Please try again.",
+      });
+    } finally {
+      setSendingOffer(false);
+    }
+  };
+
   const logBookingActivity = async (bookingId: string, action: string, details: any) => {
     try {
       // Use adminApi to log activity
@@ -432,6 +858,25 @@ const BookingsManagement = () => {
     setSelectedTripId(booking.id);
     setSelectedBooking(booking);
     setShowAssignModal(true);
+    fetchDriverSchedule(booking.id);
+  };
+
+  const fetchDriverSchedule = async (bookingId: string) => {
+    setDriverConflicts({});
+    setLoadingSchedule(true);
+    try {
+      const schedule = await adminApi.fetchDriverSchedule(bookingId);
+      setDriverConflicts(schedule.conflicts || {});
+      setConflictPolicy(schedule.policy);
+    } catch (error: any) {
+      console.error('Error checking driver schedules:', error);
+      toast({
+        title: "Schedules Unavailable",
+        description: "Could not check drivers for overlapping trips. Conflicts are still checked on assignment."
+      });
+    } finally {
+      setLoadingSchedule(false);
+    }
   };
 
   const handleCloseModal = () => {
@@ -440,11 +885,156 @@ const BookingsManagement = () => {
     setSelectedBooking(null);
     setDriverSearchQuery('');
     setDriverAvailabilityFilter('all');
+    setOfferDriverIds([]);
   };
 
   const handleOpenDetailModal = (booking: Booking) => {
     setSelectedBooking(booking);
     setShowDetailModal(true);
+    fetchBookingReminders(booking.id);
+    fetchBookingTimeline(booking.id);
+    if (booking.series_id) {
+      fetchBookingSeries(booking.id);
+    } else {
+      setSeriesInfo(null);
+    }
+  };
+
+  const fetchBookingSeries = async (bookingId: string) => {
+    setSeriesInfo(null);
+    setLoadingSeries(true);
+    try {
+      const info = await adminApi.fetchBookingSeries(bookingId);
+      setSeriesInfo(info);
+      return info;
+    } catch (error: any) {
+      console.error('Error fetching recurring series:', error);
+      return null;
+    } finally {
+      setLoadingSeries(false);
+    }
+  };
+
+  const handleOpenSeriesModal = async (booking: Booking) => {
+    const info = await fetchBookingSeries(booking.id);
+    if (!info) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Could not load the recurring series. Please try again.",
+      });
+      return;
+    }
+    setSelectedBooking(booking);
+    setShowDetailModal(false);
+    setShowSeriesModal(true);
+  };
+
+  const handleCreateSeries = async (rrule: string, skipDates: string[]) => {
+    if (!selectedBooking) return;
+    try {
+      const { created } = await adminApi.createBookingSeries(selectedBooking.id, rrule, skipDates);
+
+      toast({
+        title: "Recurring Series Created",
+        description: `${selectedBooking.booking_reference} now repeats; ${created.length} upcoming ${created.length === 1 ? 'trip was' : 'trips were'} created.`,
+        variant: "success"
+      });
+
+      setShowSeriesModal(false);
+      await fetchBookings();
+    } catch (error: any) {
+      console.error('Error creating recurring series:', error);
+      captureError(error, 'Create Booking Series');
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Could not create the recurring series. Please try again.",
+      });
+    }
+  };
+
+  const handleUpdateSeries = async (update: SeriesUpdate) => {
+    if (!selectedBooking) return;
+    try {
+      const result = await adminApi.updateBookingSeries({ bookingId: selectedBooking.id, ...update });
+
+      const summary = [
+        result.updated?.length && `${result.updated.length} updated`,
+        result.created?.length && `${result.created.length} added`,
+        result.cancelled?.length && `${result.cancelled.length} cancelled`
+      ].filter(Boolean).join(', ');
+
+      toast({
+        title: update.scope === 'series' ? "Series Updated" : "Trip Updated",
+        description: update.scope === 'series'
+          ? `Upcoming trips: ${summary || 'no changes needed'}.`
+          : `${selectedBooking.booking_reference} was changed on its own; later series changes will skip it.`,
+        variant: "success"
+      });
+
+      setShowSeriesModal(false);
+      await fetchBookings();
+    } catch (error: any) {
+      console.error('Error updating recurring series:', error);
+      captureError(error, 'Update Booking Series');
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Could not update the recurring series. Please try again.",
+      });
+    }
+  };
+
+  const fetchBookingReminders = async (bookingId: string) => {
+    setBookingReminders(null);
+    setLoadingReminders(true);
+    try {
+      setBookingReminders(await adminApi.fetchBookingReminders(bookingId));
+    } catch (error: any) {
+      console.error('Error fetching booking reminders:', error);
+    } finally {
+      setLoadingReminders(false);
+    }
+  };
+
+  const fetchBookingTimeline = async (bookingId: string) => {
+    setBookingTimeline(null);
+    setLoadingTimeline(true);
+    try {
+      const { transitions } = await adminApi.fetchBookingTimeline(bookingId);
+      setBookingTimeline(transitions);
+    } catch (error: any) {
+      console.error('Error fetching booking timeline:', error);
+    } finally {
+      setLoadingTimeline(false);
+    }
+  };
+
+  const handleToggleRemindersOptOut = async (booking: Booking, optOut: boolean) => {
+    try {
+      await adminApi.updateBooking(booking.id, { reminders_opt_out: optOut });
+
+      setBookings(bookings.map(b =>
+        b.id === booking.id ? { ...b, reminders_opt_out: optOut } : b
+      ));
+      setSelectedBooking({ ...booking, reminders_opt_out: optOut });
+
+      toast({
+        title: "Success",
+        description: optOut
+          ? "Automatic reminders are off for this booking."
+          : "Automatic reminders are back on for this booking.",
+      });
+    } catch (error: any) {
+      console.error('Error updating reminder opt-out:', error);
+      captureError(error, 'Update Reminder Opt-Out');
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Could not update automatic reminders. Please try again.",
+      });
+    }
   };
 
   const handleOpenNoteModal = (booking: Booking) => {
@@ -468,7 +1058,215 @@ const BookingsManagement = () => {
     setShowFeesModal(true);
   };
 
+  const handleOpenFlightModal = (booking: Booking) => {
+    setSelectedBooking(booking);
+    setShowFlightModal(true);
+  };
+
+  const handleUpdateFlight = async (bookingId: string, flightNumber: string | null, scheduledArrival: string | null) => {
+    try {
+      const { data: updated } = await adminApi.updateBooking(bookingId, {
+        flight_number: flightNumber,
+        flight_scheduled_arrival: scheduledArrival
+      });
+      const flight = {
+        flight_number: updated.flight_number,
+        flight_scheduled_arrival: updated.flight_scheduled_arrival,
+        flight_estimated_arrival: updated.flight_estimated_arrival,
+        flight_status: updated.flight_status,
+        flight_checked_at: updated.flight_checked_at
+      };
+
+      setBookings(bookings.map(booking =>
+        booking.id === bookingId ? { ...booking, ...flight } : booking
+      ));
+
+      toast({
+        title: "Success",
+        description: flightNumber ? `Flight ${flightNumber} is now tracked for this booking.` : "Flight removed from this booking.",
+      });
+
+      setShowFlightModal(false);
+    } catch (error: any) {
+      console.error('Error updating flight:', error);
+      captureError(error, 'Update Flight');
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Could not update the flight. Please try again.",
+      });
+    }
+  };
+
+  const handleCheckFlight = async (booking: Booking) => {
+    setCheckingFlight(true);
+    try {
+      const { enabled, results } = await adminApi.trackFlights(booking.id);
+      if (!enabled) {
+        toast({
+          title: "Flight Tracking Disabled",
+          description: "No flight status provider is configured for the track-flights function."
+        });
+        return;
+      }
+
+      const [result] = results;
+      if (!result) {
+        toast({
+          title: "Flight Not Checked",
+          description: "Only flights of pending or accepted bookings that have not landed are tracked."
+        });
+        return;
+      }
+      if (result.error || result.found === false) {
+        toast({
+          variant: "destructive",
+          title: "Flight Not Found",
+          description: result.error || `The flight status provider has no data for ${result.flightNumber}.`
+        });
+        return;
+      }
+
+      const changes = {
+        flight_status: result.flightStatus,
+        flight_estimated_arrival: result.flightEstimatedArrival,
+        flight_checked_at: result.checkedAt,
+        datetime: result.datetime || booking.datetime
+      };
+      setBookings(bookings.map(b => b.id === booking.id ? { ...b, ...changes } : b));
+      setSelectedBooking({ ...booking, ...changes });
+
+      toast({
+        title: result.pickupMoved ? "Pickup Moved" : "Flight Checked",
+        description: result.pickupMoved
+          ? `Flight ${result.flightNumber} is ${result.delayMinutes ? `${result.delayMinutes} min late` : 'back on time'}; pickup moved to ${format(new Date(changes.datetime), 'p')}${result.driverNotified ? ' and the driver notified' : ''}.`
+          : `Flight ${result.flightNumber} is ${isFlightState(result.flightStatus) ? FLIGHT_STATE_LABELS[result.flightStatus].toLowerCase() : 'unchanged'}. The pickup time still fits.`
+      });
+    } catch (error: any) {
+      console.error('Error checking flight:', error);
+      captureError(error, 'Check Flight');
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Could not check the flight. Please try again.",
+      });
+    } finally {
+      setCheckingFlight(false);
+    }
+  };
+
+  const handleAutoDispatch = async () => {
+    setDispatching(true);
+    try {
+      const { enabled, results } = await adminApi.runAutoDispatch();
+      if (!enabled) {
+        toast({
+          title: "Auto-Dispatch Disabled",
+          description: "Enable automatic driver assignment in Platform Settings first."
+        });
+        return;
+      }
+
+      const assigned = results.filter(r => r.outcome === 'assigned').length;
+      const escalated = results.filter(r => r.outcome === 'escalated').length;
+      toast({
+        title: "Auto-Dispatch Complete",
+        description: results.length === 0
+          ? "No pending bookings need a driver."
+          : `${assigned} booking(s) assigned, ${escalated} without a qualifying driver.`
+      });
+      await refreshData();
+    } catch (error: any) {
+      console.error('Error running auto-dispatch:', error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Failed to run auto-dispatch"
+      });
+    } finally {
+      setDispatching(false);
+    }
+  };
+
   const handleOpenExportModal = () => {
+    setExportSelection(null);
+    setShowExportModal(true);
+  };
+
+  const toggleBookingSelection = (booking: Booking) => {
+    const { [booking.id]: removed, ...rest } = selectedBookings;
+    if (removed) {
+      setSelectedBookings(rest);
+    } else if (Object.keys(selectedBookings).length >= MAX_BULK_BOOKINGS) {
+      toast({
+        variant: "destructive",
+        title: "Selection Limit",
+        description: `At most ${MAX_BULK_BOOKINGS} bookings can be changed at once.`
+      });
+    } else {
+      setSelectedBookings({ ...selectedBookings, [booking.id]: booking });
+    }
+  };
+
+  // Ticks every booking on the current page, or unticks them if all are ticked
+  const togglePageSelection = () => {
+    const allSelected = bookings.every(booking => selectedBookings[booking.id]);
+    const next = { ...selectedBookings };
+    bookings.forEach(booking => {
+      if (allSelected) {
+        delete next[booking.id];
+      } else {
+        next[booking.id] = booking;
+      }
+    });
+    setSelectedBookings(
+      Object.keys(next).length > MAX_BULK_BOOKINGS
+        ? Object.fromEntries(Object.entries(next).slice(0, MAX_BULK_BOOKINGS))
+        : next
+    );
+  };
+
+  const handleBulkAction = async (action: BulkBookingAction, params: BulkBookingParams, force = false) => {
+    try {
+      const result = await adminApi.bulkUpdateBookings({
+        bookingIds: Object.keys(selectedBookings),
+        action,
+        params,
+        force
+      });
+
+      if (result.applied) {
+        setBulkResult(null);
+        setSelectedBookings({});
+        toast({
+          title: "Bulk Update Complete",
+          description: result.undelivered
+            ? `${result.results.length} booking(s) updated; ${result.undelivered} reminder(s) could not be delivered.`
+            : `${result.results.length} booking(s) updated.`,
+          variant: result.undelivered ? "destructive" : "success"
+        });
+        await fetchBookings();
+      } else {
+        setBulkResult(result);
+        toast({
+          variant: "destructive",
+          title: "Bulk Update Failed",
+          description: `${result.results.filter(row => !row.success).length} booking(s) could not be updated, so none were changed.`
+        });
+      }
+    } catch (error: any) {
+      console.error('Error applying bulk action:', error);
+      captureError(error, 'Bulk Booking Update');
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Could not update the selected bookings. Please try again.",
+      });
+    }
+  };
+
+  const handleExportSelection = () => {
+    setExportSelection(Object.values(selectedBookings));
     setShowExportModal(true);
   };
 
@@ -585,6 +1383,34 @@ const BookingsManagement = () => {
     }
   };
 
+  // The edge function prices the booking, assigns the driver and logs the activity
+  const createBooking = async (newBooking: NewBooking, driverId: string | null, force: boolean) => {
+    try {
+      const { booking } = await adminApi.createBooking(newBooking, driverId || undefined, force);
+
+      await fetchBookings();
+
+      toast({
+        title: "Booking Created",
+        description: `${booking.booking_reference} was created for ${booking.customer_name}.`,
+        variant: "success"
+      });
+
+      setSelectedBooking(booking);
+      setShowDetailModal(true);
+      return true;
+    } catch (error: any) {
+      console.error('Error creating booking:', error);
+      captureError(error, 'Create Booking');
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Could not create the booking. Please try again.",
+      });
+      return false;
+    }
+  };
+
   const duplicateBooking = async (booking: Booking) => {
     try {
       // Use adminApi to duplicate booking
@@ -642,16 +1468,11 @@ const BookingsManagement = () => {
     }
   };
 
-  const sendReminder = async (booking: Booking) => {
+  const sendReminder = async (booking: Booking, options: Partial<Omit<ReminderRequest, 'bookingId'>> = {}) => {
     try {
-      // Use adminApi to send reminder
-      await adminApi.sendBookingReminder(booking.id);
-      
-      // Log the activity
-      await logBookingActivity(booking.id, 'reminder_sent', {
-        timestamp: new Date().toISOString(),
-        recipient: booking.customer_email
-      });
+      // The edge function delivers the messages and logs the activity
+      const result = await adminApi.sendBookingReminder(booking.id, options);
+      const failed = (result.deliveries || []).filter(delivery => delivery.status === 'failed');
 
       // Update local state
       setBookings(bookings.map(b => 
@@ -663,9 +1484,11 @@ const BookingsManagement = () => {
       ));
       
       toast({
-        title: "Reminder Sent",
-        description: `Reminder has been sent to ${booking.customer_name}.`,
-        variant: "success"
+        title: failed.length > 0 ? "Reminder Partly Sent" : "Reminder Sent",
+        description: failed.length > 0
+          ? `${result.message}. ${failed.map(delivery => delivery.error).join('; ')}`
+          : result.message,
+        variant: failed.length > 0 ? "destructive" : "success"
       });
     } catch (error: any) {
       console.error('Error sending reminder:', error);
@@ -675,74 +1498,37 @@ const BookingsManagement = () => {
         title: "Error",
         description: error.message || "Could not send reminder. Please try again.",
       });
-      
-      // Update local state only as fallback
-      setBookings(bookings.map(b => 
-        b.id === booking.id ? { 
-          ...b, 
-          last_reminder_sent: new Date().toISOString(),
-          priority: Math.max(b.priority || 0, 1)
-        } : b
-      ));
     }
   };
 
-  const exportBookings = (format: 'csv' | 'excel', filters: any) => {
+  // Files are built by the server, so large exports do not have to be loaded into the page
+  const exportBookings = async (fileFormat: BookingExportFormat, options: BookingExportOptions) => {
     try {
-      // Apply filters if needed
-      let dataToExport = [...filteredBookings];
-      
-      // Convert to CSV
-      const headers = [
-        'Booking ID', 
-        'Reference', 
-        'Status', 
-        'Date', 
-        'Time', 
-        'Customer Name', 
-        'Customer Email',
-        'Pickup',
-        'Dropoff',
-        'Driver',
-        'Amount',
-        'Priority',
-        'Notes'
-      ];
-      
-      const csvContent = [
-        headers.join(','),
-        ...dataToExport.map(booking => [
-          booking.id,
-          booking.booking_reference,
-          booking.status,
-          format(new Date(booking.datetime), 'yyyy-MM-dd'),
-          format(new Date(booking.datetime), 'HH:mm'),
-          booking.customer_name,
-          booking.customer_email,
-          booking.pickup_address || 'N/A',
-          booking.dropoff_address || 'N/A',
-          booking.driver?.name || 'Not Assigned',
-          booking.estimated_price || 0,
-          PRIORITY_LEVELS.find(p => p.value === booking.priority)?.label || 'Normal',
-          booking.notes?.replace(/,/g, ';').replace(/\n/g, ' ') || ''
-        ].join(','))
-      ].join('\n');
-      
-      // Create blob and download link
-      const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
+      // Export the ticked bookings, or every booking matching the table filters rather than just the current page
+      const blob = await adminApi.exportBookings({
+        format: fileFormat,
+        options,
+        ...(exportSelection
+          ? { bookingIds: exportSelection.map(booking => booking.id) }
+          : { query: buildBookingQuery() })
+      });
+
+      const fileName = exportFileName(fileFormat);
       const url = URL.createObjectURL(blob);
       const link = document.createElement('a');
       link.setAttribute('href', url);
-      link.setAttribute('download', `bookings-export-${new Date().toISOString().slice(0, 10)}.csv`);
+      link.setAttribute('download', fileName);
       document.body.appendChild(link);
       link.click();
       document.body.removeChild(link);
-      
+      URL.revokeObjectURL(url);
+
       toast({
         title: "Export Complete",
-        description: `Successfully exported ${dataToExport.length} bookings.`,
+        description: `Bookings were exported to ${fileName}.`,
         variant: "success"
       });
+      return true;
     } catch (error: any) {
       console.error('Error exporting bookings:', error);
       captureError(error, 'Export Bookings');
@@ -751,27 +1537,10 @@ const BookingsManagement = () => {
         title: "Export Failed",
         description: error.message || "Could not export bookings. Please try again.",
       });
+      return false;
     }
   };
 
-  const checkForReminders = () => {
-    // Find bookings that might need attention
-    const upcomingBookings = bookings.filter(booking => {
-      if (booking.status !== 'pending') return false;
-      
-      // Check if within 24 hours of departure
-      const bookingDate = new Date(booking.datetime);
-      const now = new Date();
-      const hoursDifference = (bookingDate.getTime() - now.getTime()) / (1000 * 60 * 60);
-      
-      // Return true if booking is pending and within 24 hours
-      return hoursDifference > 0 && hoursDifference < 24;
-    });
-    
-    // We'll just count them for now - UI alerts are handled in the useEffect
-    return upcomingBookings.length;
-  };
-
   // Handle clicks outside the modal to close it
   useEffect(() => {
     const handleOutsideClick = (event: MouseEvent) => {
@@ -789,103 +1558,6 @@ const BookingsManagement = () => {
     };
   }, [showAssignModal]);
 
-  // Apply filters and sorting
-  const applyFiltersAndSort = () => {
-    // Start with all bookings
-    let result = [...bookings];
-    
-    // Apply search filter
-    if (searchQuery) {
-      const query = searchQuery.toLowerCase();
-      result = result.filter(booking => (
-        booking.customer_name?.toLowerCase().includes(query) ||
-        booking.customer_email?.toLowerCase().includes(query) ||
-        booking.booking_reference?.toLowerCase().includes(query) ||
-        booking.id?.toLowerCase().includes(query) ||
-        booking.notes?.toLowerCase().includes(query) ||
-        booking.pickup_address?.toLowerCase().includes(query) ||
-        booking.dropoff_address?.toLowerCase().includes(query)
-      ));
-    }
-    
-    // Apply status filter
-    if (statusFilter !== 'all') {
-      result = result.filter(booking => booking.status === statusFilter);
-    }
-    
-    // Apply date range filter
-    const now = new Date();
-    if (dateRangeFilter === 'upcoming') {
-      result = result.filter(booking => 
-        isFuture(new Date(booking.datetime))
-      );
-    } else if (dateRangeFilter === 'today') {
-      const today = new Date();
-      today.setHours(0, 0, 0, 0);
-      const tomorrow = new Date(today);
-      tomorrow.setDate(tomorrow.getDate() + 1);
-      
-      result = result.filter(booking => {
-        const bookingDate = new Date(booking.datetime);
-        return bookingDate >= today && bookingDate < tomorrow;
-      });
-    } else if (dateRangeFilter === 'past') {
-      result = result.filter(booking => 
-        isPast(new Date(booking.datetime))
-      );
-    }
-    
-    // Apply driver filter
-    if (driverFilter !== 'all') {
-      result = result.filter(booking => 
-        driverFilter === 'assigned' ? booking.driver_id : !booking.driver_id
-      );
-    }
-    
-    // Apply priority filter
-    if (priorityFilter !== 'all') {
-      const priorityValue = priorityFilter === 'urgent' ? 2 : priorityFilter === 'high' ? 1 : 0;
-      result = result.filter(booking => booking.priority === priorityValue);
-    }
-    
-    // Apply sorting
-    result.sort((a, b) => {
-      let valA, valB;
-      
-      switch (sortField) {
-        case 'datetime':
-          valA = new Date(a.datetime).getTime();
-          valB = new Date(b.datetime).getTime();
-          break;
-        case 'customer_name':
-          valA = a.customer_name || '';
-          valB = b.customer_name || '';
-          break;
-        case 'status':
-          valA = a.status;
-          valB = b.status;
-          break;
-        case 'priority':
-          valA = a.priority || 0;
-          valB = b.priority || 0;
-          break;
-        default:
-          valA = new Date(a.datetime).getTime();
-          valB = new Date(b.datetime).getTime();
-      }
-      
-      // Handle string comparisons
-      if (typeof valA === 'string' && typeof valB === 'string') {
-        return sortOrder === 'asc' ? valA.localeCompare(valB) : valB.localeCompare(valA);
-      }
-      
-      // Handle numeric comparisons
-      return sortOrder === 'asc' ? Number(valA) - Number(valB) : Number(valB) - Number(valA);
-    });
-    
-    setFilteredBookings(result);
-  };
-
   // Filter drivers for the assignment modal
   const filteredDrivers = drivers.filter(driver => {
     // Search query filter
@@ -900,37 +1572,30 @@ const BookingsManagement = () => {
     const matchesAvailability = 
       driverAvailabilityFilter === 'all' || 
       (driverAvailabilityFilter === 'available' && driver.is_available) || 
+      (driverAvailabilityFilter === 'free' && driver.is_available && !driverConflicts[driver.id]) ||
       (driverAvailabilityFilter === 'unavailable' && !driver.is_available);
     
     return matchesSearch && matchesAvailability;
   });
 
-  // Stats for the dashboard
+  // Stats for the dashboard, across all bookings regardless of filters
   const bookingStats = {
-    total: bookings.length,
-    pending: bookings.filter(b => b.status === 'pending').length,
-    completed: bookings.filter(b => b.status === 'completed').length,
-    cancelled: bookings.filter(b => b.status === 'cancelled').length,
-    totalRevenue: bookings
-      .filter(b => b.status === 'completed')
-      .reduce((total, booking) => {
-        const basePrice = booking.estimated_price || 0;
-        const customFees = (booking.custom_fees || []).reduce((sum, fee) => sum + fee.amount, 0);
-        return total + basePrice + customFees;
-      }, 0),
-    pendingRevenue: bookings
-      .filter(b => b.status === 'pending' || b.status === 'accepted')
-      .reduce((total, booking) => {
-        const basePrice = booking.estimated_price || 0;
-        const customFees = (booking.custom_fees || []).reduce((sum, fee) => sum + fee.amount, 0);
-        return total + basePrice + customFees;
-      }, 0),
-    urgentCount: bookings.filter(b => b.priority === 2).length,
-    needAttention: checkForReminders(),
+    total: stats?.total || 0,
+    pending: stats?.pending || 0,
+    completed: stats?.completed || 0,
+    cancelled: stats?.cancelled || 0,
+    totalRevenue: Number(stats?.completed_revenue || 0),
+    pendingRevenue: Number(stats?.pending_revenue || 0),
+    urgentCount: stats?.urgent || 0,
+    needAttention: stats?.need_attention || 0,
+  };
+
+  const toggleTagFilter = (tag: string) => {
+    setTagFilter(tagFilter.includes(tag) ? tagFilter.filter(t => t !== tag) : [...tagFilter, tag]);
   };
 
   // Toggle sort order
-  const handleSortChange = (field: 'datetime' | 'customer_name' | 'status' | 'priority') => {
+  const handleSortChange = (field: BookingSortField) => {
     if (sortField === field) {
       // If already sorting by this field, toggle order
       setSortOrder(sortOrder === 'asc' ? 'desc' : 'asc');
@@ -955,6 +1620,14 @@ const BookingsManagement = () => {
         <h2 className="text-xl font-semibold dark:text-white">Bookings Management</h2>
         
         <div className="flex flex-wrap gap-2 mt-3 md:mt-0">
+          <button
+            onClick={() => setShowCreateModal(true)}
+            className="px-3 py-1.5 bg-blue-600 text-white rounded-md hover:bg-blue-700 flex items-center text-sm"
+          >
+            <Plus className="w-4 h-4 mr-1.5" />
+            New Booking
+          </button>
+          
           <button
             onClick={refreshData}
             disabled={refreshing}
@@ -965,6 +1638,20 @@ const BookingsManagement = () => {
             Refresh
           </button>
           
+          <button
+            onClick={handleAutoDispatch}
+            disabled={dispatching}
+            className="px-3 py-1.5 border border-gray-200 dark:border-gray-700 rounded-md bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 flex items-center text-sm"
+            aria-label="Auto-dispatch pending bookings"
+          >
+            {dispatching ? (
+              <Loader2 className="w-4 h-4 mr-1.5 animate-spin" />
+            ) : (
+              <Zap className="w-4 h-4 mr-1.5" />
+            )}
+            Auto-Dispatch
+          </button>
+          
           <button
             onClick={handleOpenExportModal}
             className="px-3 py-1.5 border border-gray-200 dark:border-gray-700 rounded-md bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 flex items-center text-sm"
@@ -1089,6 +1776,7 @@ const BookingsManagement = () => {
             <option value="all">All Dates</option>
             <option value="upcoming">Upcoming</option>
             <option value="today">Today</option>
+            <option value="week">This Week</option>
             <option value="past">Past</option>
           </select>
         </div>
@@ -1119,11 +1807,51 @@ const BookingsManagement = () => {
             <option value="urgent">Urgent</option>
           </select>
         </div>
+
+        <BookingViewsMenu
+          views={savedViews}
+          loading={loadingViews}
+          currentView={currentView}
+          modified={currentViewModified}
+          onSelect={handleSelectView}
+          onSave={handleSaveView}
+          onUpdate={handleUpdateView}
+          onDelete={handleDeleteView}
+          onCopyLink={copyViewLink}
+          onReset={resetFilters}
+        />
       </div>
 
+      {/* Active tag filters; tags are added by clicking them in the table */}
+      {tagFilter.length > 0 && (
+        <div className="mb-4 flex flex-wrap items-center gap-2 text-sm">
+          <span className="text-gray-500 dark:text-gray-400">Tagged:</span>
+          {tagFilter.map(tag => (
+            <button
+              key={tag}
+              onClick={() => toggleTagFilter(tag)}
+              className="inline-flex items-center px-2 py-0.5 text-xs bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-300 rounded"
+            >
+              {tag}
+              <X className="h-3 w-3 ml-1" />
+            </button>
+          ))}
+        </div>
+      )}
+
+      <BookingBulkActions
+        selectedCount={Object.keys(selectedBookings).length}
+        drivers={drivers}
+        result={bulkResult}
+        onApply={handleBulkAction}
+        onExport={handleExportSelection}
+        onClear={() => setSelectedBookings({})}
+        onDismissResult={() => setBulkResult(null)}
+      />
+
       {/* Bookings Table */}
       <div className="bg-white dark:bg-gray-800 rounded-lg shadow overflow-hidden border dark:border-gray-700 mb-6">
-        {filteredBookings.length === 0 ? (
+        {bookings.length === 0 ? (
           <EmptyState 
             title="No bookings found"
             description="No bookings match your current filters. Try changing your search or filter criteria."
@@ -1134,6 +1862,15 @@ const BookingsManagement = () => {
             <table className="min-w-full">
               <thead>
                 <tr className="bg-gray-50 dark:bg-gray-700 border-b dark:border-gray-600">
+                  <th className="pl-4 py-3 text-left">
+                    <input
+                      type="checkbox"
+                      checked={bookings.every(booking => selectedBookings[booking.id])}
+                      onChange={togglePageSelection}
+                      className="rounded border-gray-300 dark:border-gray-600"
+                      aria-label="Select all bookings on this page"
+                    />
+                  </th>
                   <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
                     <button 
                       className="flex items-center focus:outline-none"
@@ -1190,17 +1927,16 @@ const BookingsManagement = () => {
                 </tr>
               </thead>
               <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
-                {filteredBookings.map((booking) => {
+                {bookings.map((booking) => {
                   // Check if booking needs attention (pending and within 24 hours)
                   const bookingDate = new Date(booking.datetime);
                   const now = new Date();
                   const hoursDifference = (bookingDate.getTime() - now.getTime()) / (1000 * 60 * 60);
                   const needsAttention = booking.status === 'pending' && hoursDifference > 0 && hoursDifference < 24;
                   
-                  // Display custom fees total
-                  const customFeesTotal = (booking.custom_fees || []).reduce(
-                    (sum, fee) => sum + (fee.amount || 0), 0
-                  );
+                  // Display fare and custom fees total
+                  const priceSummary = summarizeBookingPrice(booking);
+                  const customFeesTotal = priceSummary.feesTotal;
                   
                   // Set row styles based on priority and needs attention
                   let rowClassName = "hover:bg-gray-50 dark:hover:bg-gray-700 ";
@@ -1212,6 +1948,15 @@ const BookingsManagement = () => {
                   
                   return (
                     <tr key={booking.id} className={rowClassName}>
+                      <td className="pl-4 py-4">
+                        <input
+                          type="checkbox"
+                          checked={!!selectedBookings[booking.id]}
+                          onChange={() => toggleBookingSelection(booking)}
+                          className="rounded border-gray-300 dark:border-gray-600"
+                          aria-label={`Select booking ${booking.booking_reference}`}
+                        />
+                      </td>
                       <td className="px-4 py-4 whitespace-nowrap">
                         <div 
                           className="text-sm font-medium text-gray-900 dark:text-white cursor-pointer"
@@ -1260,9 +2005,9 @@ const BookingsManagement = () => {
                           </span>
                         </div>
                         
-                        {(booking.estimated_price > 0 || customFeesTotal > 0) && (
+                        {(priceSummary.fare > 0 || customFeesTotal > 0) && (
                           <div className="text-xs text-gray-500 dark:text-gray-400 mt-1 font-medium">
-                            €{(booking.estimated_price || 0).toFixed(2)}
+                            €{(priceSummary.fare - priceSummary.discount).toFixed(2)}
                             {customFeesTotal > 0 && (
                               <span className="ml-1 text-green-600 dark:text-green-400">
                                 +€{customFeesTotal.toFixed(2)}
@@ -1282,19 +2027,34 @@ const BookingsManagement = () => {
                             </div>
                           </div>
                         ) : (
-                          <button 
-                            onClick={() => handleOpenAssignModal(booking)}
-                            className="text-sm text-blue-600 dark:text-blue-400 hover:text-blue-800 dark:hover:text-blue-300 flex items-center"
-                          >
-                            <User className="h-4 w-4 mr-1" />
-                            Assign Driver
-                          </button>
+                          <div>
+                            <button 
+                              onClick={() => handleOpenAssignModal(booking)}
+                              className="text-sm text-blue-600 dark:text-blue-400 hover:text-blue-800 dark:hover:text-blue-300 flex items-center"
+                            >
+                              <User className="h-4 w-4 mr-1" />
+                              Assign Driver
+                            </button>
+                            {(() => {
+                              const openOffer = booking.offers?.find(offer => offer.status === 'pending');
+                              if (!openOffer) return null;
+                              const queued = booking.offers!.filter(offer => offer.status === 'queued').length;
+                              return (
+                                <div className="text-xs text-orange-600 dark:text-orange-400 mt-1">
+                                  Offered to {openOffer.driver?.user?.name || 'a driver'}
+                                  {openOffer.expires_at && ` until ${format(new Date(openOffer.expires_at), 'p')}`}
+                                  {queued > 0 && ` · ${queued} queued`}
+                                </div>
+                              );
+                            })()}
+                          </div>
                         )}
                       </td>
                       <td className="px-4 py-4 whitespace-nowrap">
                         <select
                           value={booking.status}
                           onChange={(e) => updateBookingStatus(booking.id, e.target.value)}
+                          disabled={allowedTripTransitions(booking.status, 'admin').length === 0}
                           className={`text-sm px-3 py-1 rounded border ${
                             booking.status === 'pending' 
                               ? 'bg-yellow-50 text-yellow-800 border-yellow-200 dark:bg-yellow-900/20 dark:text-yellow-300 dark:border-yellow-800/30'
@@ -1307,11 +2067,9 @@ const BookingsManagement = () => {
                                     : 'bg-gray-50 text-gray-800 border-gray-200 dark:bg-gray-700 dark:text-gray-300 dark:border-gray-600'
                           }`}
                         >
-                          <option value="pending">Pending</option>
-                          <option value="accepted">Accepted</option>
-                          <option value="in_progress">In Progress</option>
-                          <option value="completed">Completed</option>
-                          <option value="cancelled">Cancelled</option>
+                          {[booking.status, ...allowedTripTransitions(booking.status, 'admin')].map(status => (
+                            <option key={status} value={status}>{TRIP_STATUS_LABELS[status]}</option>
+                          ))}
                         </select>
                         {booking.last_reminder_sent && (
                           <div className="text-xs text-gray-500 dark:text-gray-400 mt-1">
@@ -1347,12 +2105,18 @@ const BookingsManagement = () => {
                         {booking.internal_tags && booking.internal_tags.length > 0 && (
                           <div className="mt-1 flex flex-wrap gap-1">
                             {booking.internal_tags.slice(0, 2).map((tag, i) => (
-                              <span 
+                              <button 
                                 key={i} 
-                                className="inline-block px-2 py-0.5 text-xs bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300 rounded"
+                                onClick={() => toggleTagFilter(tag)}
+                                className={`inline-block px-2 py-0.5 text-xs rounded ${
+                                  tagFilter.includes(tag)
+                                    ? 'bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-300'
+                                    : 'bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'
+                                }`}
+                                title={tagFilter.includes(tag) ? 'Remove tag filter' : 'Show bookings with this tag'}
                               >
                                 {tag}
-                              </span>
+                              </button>
                             ))}
                             {booking.internal_tags.length > 2 && (
                               <span className="inline-block px-1 py-0.5 text-xs text-gray-500 dark:text-gray-400">
@@ -1427,6 +2191,43 @@ const BookingsManagement = () => {
             </table>
           </div>
         )}
+
+        {/* Pagination */}
+        <div className="px-4 py-3 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 border-t dark:border-gray-700 text-sm text-gray-600 dark:text-gray-300">
+          <div className="flex items-center gap-2">
+            <span>
+              {totalCount === 0
+                ? 'No bookings'
+                : `Showing ${pageIndex * pageSize + 1}–${pageIndex * pageSize + bookings.length} of ${totalCount.toLocaleString()}`}
+            </span>
+            <select
+              value={pageSize}
+              onChange={(e) => setPageSize(Number(e.target.value))}
+              className="px-2 py-1 border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-700 dark:text-white rounded-md"
+              aria-label="Bookings per page"
+            >
+              {(PAGE_SIZE_OPTIONS.includes(pageSize) ? PAGE_SIZE_OPTIONS : [...PAGE_SIZE_OPTIONS, pageSize].sort((a, b) => a - b)).map(size => (
+                <option key={size} value={size}>{size} per page</option>
+              ))}
+            </select>
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={goToPreviousPage}
+              disabled={pageIndex === 0 || refreshing}
+              className="px-3 py-1.5 border border-gray-200 dark:border-gray-700 rounded-md bg-white dark:bg-gray-800 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50"
+            >
+              Previous
+            </button>
+            <button
+              onClick={goToNextPage}
+              disabled={!nextCursor || refreshing}
+              className="px-3 py-1.5 border border-gray-200 dark:border-gray-700 rounded-md bg-white dark:bg-gray-800 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50"
+            >
+              Next
+            </button>
+          </div>
+        </div>
       </div>
 
       {/* Driver Assignment Modal */}
@@ -1502,6 +2303,7 @@ const BookingsManagement = () => {
                 >
                   <option value="all">All Drivers</option>
                   <option value="available">Available</option>
+                  <option value="free">Available, No Conflicts</option>
                   <option value="unavailable">Unavailable</option>
                 </select>
               </div>
@@ -1516,6 +2318,7 @@ const BookingsManagement = () => {
                   <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
                     <thead className="bg-gray-50 dark:bg-gray-700">
                       <tr>
+                        <th className="pl-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Offer</th>
                         <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Driver</th>
                         <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Contact</th>
                         <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Status</th>
@@ -1525,6 +2328,23 @@ const BookingsManagement = () => {
                     <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
                       {filteredDrivers.map((driver) => (
                         <tr key={driver.id} className="hover:bg-gray-50 dark:hover:bg-gray-700">
+                          <td className="pl-6 py-4 whitespace-nowrap">
+                            <label className="flex items-center space-x-2">
+                              <input
+                                type="checkbox"
+                                checked={offerDriverIds.includes(driver.id)}
+                                onChange={() => toggleOfferDriver(driver.id)}
+                                disabled={!!driverConflicts[driver.id] && conflictPolicy === 'block'}
+                                className="h-4 w-4 text-blue-600 border-gray-300 dark:border-gray-600 rounded focus:ring-blue-500"
+                                aria-label={`Offer to ${driver.user?.name || 'driver'}`}
+                              />
+                              {offerDriverIds.includes(driver.id) && (
+                                <span className="text-xs font-medium text-blue-600 dark:text-blue-400">
+                                  #{offerDriverIds.indexOf(driver.id) + 1}
+                                </span>
+                              )}
+                            </label>
+                          </td>
                           <td className="px-6 py-4 whitespace-nowrap">
                             <div className="flex items-center">
                               <div className="flex-shrink-0 h-10 w-10 bg-gray-100 dark:bg-gray-600 rounded-full flex items-center justify-center">
@@ -1548,19 +2368,44 @@ const BookingsManagement = () => {
                             }`}>
                               {driver.is_available ? 'Available' : 'Unavailable'}
                             </span>
+                            {driverConflicts[driver.id]?.map(conflict => (
+                              <div key={conflict.id} className="mt-1 flex items-center text-xs text-orange-600 dark:text-orange-400">
+                                <AlertCircle className="h-3 w-3 mr-1 flex-shrink-0" />
+                                Overlaps {conflict.booking_reference || conflict.id.substring(0, 8)}
+                                {' '}({format(new Date(conflict.datetime), 'p')}–{format(new Date(conflict.ends_at), 'p')})
+                              </div>
+                            ))}
                           </td>
                           <td className="px-6 py-4 whitespace-nowrap">
-                            <button
-                              onClick={() => assignDriver(driver.id)}
-                              disabled={assigningDriver}
-                              className="px-3 py-1 bg-blue-600 text-white text-sm rounded hover:bg-blue-700 disabled:bg-blue-300 dark:disabled:bg-blue-800 transition-colors"
-                            >
-                              {assigningDriver ? (
-                                <Loader2 className="h-4 w-4 animate-spin" />
-                              ) : (
-                                'Assign'
-                              )}
-                            </button>
+                            {driverConflicts[driver.id] ? (
+                              <button
+                                onClick={() => assignDriver(driver.id, true)}
+                                disabled={assigningDriver || conflictPolicy === 'block'}
+                                title={conflictPolicy === 'block' ? 'Overlapping trips cannot be assigned' : 'Assign despite the overlapping trip'}
+                                className="px-3 py-1 bg-orange-500 text-white text-sm rounded hover:bg-orange-600 disabled:bg-gray-300 dark:disabled:bg-gray-600 transition-colors"
+                              >
+                                {assigningDriver ? (
+                                  <Loader2 className="h-4 w-4 animate-spin" />
+                                ) : conflictPolicy === 'block' ? (
+                                  'Conflict'
+                                ) : (
+                                  'Assign Anyway'
+                                )}
+                              </button>
+                            ) : (
+                              <button
+                                onClick={() => assignDriver(driver.id)}
+                                disabled={assigningDriver || loadingSchedule}
+                                title="Assign directly without asking the driver"
+                                className="px-3 py-1 bg-blue-600 text-white text-sm rounded hover:bg-blue-700 disabled:bg-blue-300 dark:disabled:bg-blue-800 transition-colors"
+                              >
+                                {assigningDriver ? (
+                                  <Loader2 className="h-4 w-4 animate-spin" />
+                                ) : (
+                                  'Assign'
+                                )}
+                              </button>
+                            )}
                           </td>
                         </tr>
                       ))}
@@ -1582,12 +2427,33 @@ const BookingsManagement = () => {
                 <span className="font-medium text-gray-700 dark:text-gray-200">{drivers.length}</span>
                 <span className="ml-1">drivers</span>
               </div>
-              <button
-                onClick={handleCloseModal}
-                className="px-4 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 rounded-md hover:bg-gray-100 dark:hover:bg-gray-600 transition-colors"
-              >
-                Cancel
-              </button>
+              <div className="flex items-center space-x-2">
+                <select
+                  value={offerMinutes}
+                  onChange={(e) => setOfferMinutes(Number(e.target.value))}
+                  className="px-3 py-2 border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 dark:text-white rounded-md text-sm"
+                  aria-label="Time each driver has to respond"
+                >
+                  {[5, 15, 30, 60, 120].map(minutes => (
+                    <option key={minutes} value={minutes}>{minutes} min to respond</option>
+                  ))}
+                </select>
+                <button
+                  onClick={sendOffer}
+                  disabled={offerDriverIds.length === 0 || sendingOffer || selectedBooking.status !== 'pending' || !!selectedBooking.driver_id}
+                  title={selectedBooking.status !== 'pending' || selectedBooking.driver_id ? 'Only pending bookings without a driver can be offered' : undefined}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-blue-300 dark:disabled:bg-blue-800 transition-colors flex items-center"
+                >
+                  {sendingOffer && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Send Offer{offerDriverIds.length > 0 ? ` (${offerDriverIds.length})` : ''}
+                </button>
+                <button
+                  onClick={handleCloseModal}
+                  className="px-4 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 rounded-md hover:bg-gray-100 dark:hover:bg-gray-600 transition-colors"
+                >
+                  Cancel
+                </button>
+              </div>
             </div>
           </div>
         </div>
@@ -1623,6 +2489,44 @@ const BookingsManagement = () => {
             setShowDetailModal(false);
             handleOpenReminderModal(selectedBooking);
           }}
+          reminders={bookingReminders}
+          loadingReminders={loadingReminders}
+          timeline={bookingTimeline}
+          loadingTimeline={loadingTimeline}
+          onToggleRemindersOptOut={(optOut) => handleToggleRemindersOptOut(selectedBooking, optOut)}
+          seriesInfo={seriesInfo}
+          loadingSeries={loadingSeries}
+          onManageSeries={() => handleOpenSeriesModal(selectedBooking)}
+          onOpenOccurrence={(occurrence) => handleOpenDetailModal(occurrence as Booking)}
+          onManageFlight={() => {
+            setShowDetailModal(false);
+            handleOpenFlightModal(selectedBooking);
+          }}
+          onCheckFlight={() => handleCheckFlight(selectedBooking)}
+          checkingFlight={checkingFlight}
+        />
+      )}
+
+      {/* Recurring Series Modal */}
+      {showSeriesModal && selectedBooking && seriesInfo && (
+        <BookingSeriesModal
+          booking={selectedBooking}
+          series={seriesInfo.series}
+          timeZone={seriesInfo.timeZone}
+          onClose={() => setShowSeriesModal(false)}
+          onCreate={handleCreateSeries}
+          onUpdate={handleUpdateSeries}
+        />
+      )}
+
+      {/* Cancellation Modal */}
+      {cancelTarget && (
+        <BookingCancelModal
+          booking={cancelTarget}
+          quote={cancelQuote}
+          loading={loadingCancelQuote}
+          onClose={() => setCancelTarget(null)}
+          onConfirm={handleCancelBooking}
         />
       )}
 
@@ -1644,10 +2548,19 @@ const BookingsManagement = () => {
         />
       )}
 
+      {/* New Booking Modal */}
+      {showCreateModal && (
+        <BookingCreateModal
+          drivers={drivers}
+          onClose={() => setShowCreateModal(false)}
+          onCreate={createBooking}
+        />
+      )}
+
       {/* Export Modal */}
       {showExportModal && (
         <BookingExportModal 
-          bookings={filteredBookings}
+          bookingCount={exportSelection ? exportSelection.length : totalCount}
           onClose={() => setShowExportModal(false)}
           onExport={exportBookings}
         />
@@ -1671,6 +2584,23 @@ const BookingsManagement = () => {
           onSave={handleUpdateCustomFees}
         />
       )}
+
+      {/* Flight Modal */}
+      {showFlightModal && selectedBooking && (
+        <BookingFlightModal
+          booking={selectedBooking}
+          onClose={() => setShowFlightModal(false)}
+          onSave={handleUpdateFlight}
+        />
+      )}
+
+      {/* Saved views and filter commands, opened with Cmd+K */}
+      <CommandPalette
+        items={commandItems}
+        placeholder="Jump to a saved view..."
+        isOpen={showCommandPalette}
+        onClose={() => setShowCommandPalette(false)}
+      />
     </div>
   );
 };
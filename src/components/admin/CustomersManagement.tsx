@@ -0,0 +1,307 @@
+import React, { useEffect, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { RefreshCw, Loader2, Search, X, Merge, UserCheck } from 'lucide-react';
+import { format } from 'date-fns';
+import { useToast } from '../ui/use-toast';
+import { Button } from '../ui/button';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '../ui/table';
+import { adminApi } from '../../lib/adminApi';
+import {
+  CUSTOMER_SORT_FIELDS,
+  CUSTOMER_SORT_LABELS,
+  DEFAULT_CUSTOMERS_PAGE_SIZE,
+  MAX_MERGED_CUSTOMERS,
+  customerDisplayName,
+  type CustomerSortField,
+  type CustomerSummary
+} from '../../lib/customers';
+import CustomerProfileModal from './customers/CustomerProfileModal';
+import CustomerMergeModal from './customers/CustomerMergeModal';
+
+const CustomersManagement: React.FC = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [customers, setCustomers] = useState<CustomerSummary[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [debouncedSearch, setDebouncedSearch] = useState('');
+  const [sortField, setSortField] = useState<CustomerSortField>('last_booking_at');
+  const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('desc');
+  const [page, setPage] = useState(0);
+  const [selected, setSelected] = useState<Record<string, CustomerSummary>>({});
+  const [merging, setMerging] = useState<{ customers: CustomerSummary[]; targetId?: string } | null>(null);
+  // Bumped after a merge so an open profile loads again
+  const [profileVersion, setProfileVersion] = useState(0);
+  const { toast } = useToast();
+
+  // The open profile is kept in the URL so bookings can link to it
+  const profileId = searchParams.get('customer');
+
+  const openProfile = (customerId: string | null) => {
+    const params = new URLSearchParams(searchParams);
+    if (customerId) params.set('customer', customerId);
+    else params.delete('customer');
+    setSearchParams(params);
+  };
+
+  const fetchCustomers = async () => {
+    setLoading(true);
+    try {
+      const data = await adminApi.fetchCustomers({
+        search: debouncedSearch || undefined,
+        sort: sortField,
+        order: sortOrder,
+        page,
+        pageSize: DEFAULT_CUSTOMERS_PAGE_SIZE
+      });
+      setCustomers(data.customers || []);
+      setTotal(data.total || 0);
+    } catch (error: any) {
+      console.error('Error fetching customers:', error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Failed to load customers"
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Wait for a pause in typing before searching; a new search starts again from the first page
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setDebouncedSearch(searchQuery.trim());
+      setPage(0);
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [searchQuery]);
+
+  useEffect(() => {
+    fetchCustomers();
+  }, [debouncedSearch, sortField, sortOrder, page]);
+
+  const toggleSelected = (customer: CustomerSummary) => {
+    setSelected(prev => {
+      const next = { ...prev };
+      if (next[customer.id]) delete next[customer.id];
+      else next[customer.id] = customer;
+      return next;
+    });
+  };
+
+  const mergeCustomers = async (targetId: string, duplicateIds: string[]) => {
+    try {
+      const result = await adminApi.mergeCustomers(targetId, duplicateIds);
+      toast({
+        title: "Customers Merged",
+        description: `${result.merged} customer${result.merged === 1 ? ' was' : 's were'} merged and ${result.trips_moved} booking${result.trips_moved === 1 ? '' : 's'} moved.`
+      });
+      setMerging(null);
+      setSelected({});
+      if (profileId) {
+        // A merged-away profile now shows the customer it was merged into
+        if (duplicateIds.includes(profileId)) openProfile(targetId);
+        setProfileVersion(version => version + 1);
+      }
+      fetchCustomers();
+    } catch (error: any) {
+      console.error('Error merging customers:', error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Failed to merge customers"
+      });
+    }
+  };
+
+  const selectedCustomers = Object.values(selected);
+  const pageCount = Math.max(1, Math.ceil(total / DEFAULT_CUSTOMERS_PAGE_SIZE));
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-6">
+        <h2 className="text-xl font-semibold dark:text-white">Customers</h2>
+        <div className="flex space-x-2">
+          {selectedCustomers.length >= 2 && (
+            <Button
+              onClick={() => setMerging({ customers: selectedCustomers })}
+              variant="outline"
+              disabled={selectedCustomers.length > MAX_MERGED_CUSTOMERS + 1}
+            >
+              <Merge className="w-4 h-4 mr-2" />
+              Merge {selectedCustomers.length} Selected
+            </Button>
+          )}
+          <Button onClick={fetchCustomers} variant="outline" disabled={loading}>
+            <RefreshCw className={`w-4 h-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+        </div>
+      </div>
+
+      <div className="mb-6 flex flex-col md:flex-row md:items-center gap-3">
+        <div className="relative flex-grow md:max-w-md">
+          <Search className="absolute left-3 top-2.5 h-5 w-5 text-gray-400 dark:text-gray-500" />
+          <input
+            type="text"
+            placeholder="Search by name, email or phone..."
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            className="pl-10 pr-4 py-2 border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-700 dark:text-white rounded-md focus:outline-none focus:ring-2 focus:ring-blue-600 w-full"
+          />
+          {searchQuery && (
+            <button
+              onClick={() => setSearchQuery('')}
+              className="absolute right-3 top-2.5 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+              aria-label="Clear search"
+            >
+              <X className="h-5 w-5" />
+            </button>
+          )}
+        </div>
+        <select
+          value={sortField}
+          onChange={(e) => {
+            setSortField(e.target.value as CustomerSortField);
+            setPage(0);
+          }}
+          className="px-3 py-2 border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-700 dark:text-white rounded-md focus:outline-none focus:ring-2 focus:ring-blue-600"
+          aria-label="Sort customers by"
+        >
+          {CUSTOMER_SORT_FIELDS.map(field => (
+            <option key={field} value={field}>Sort by {CUSTOMER_SORT_LABELS[field].toLowerCase()}</option>
+          ))}
+        </select>
+        <select
+          value={sortOrder}
+          onChange={(e) => {
+            setSortOrder(e.target.value as 'asc' | 'desc');
+            setPage(0);
+          }}
+          className="px-3 py-2 border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-700 dark:text-white rounded-md focus:outline-none focus:ring-2 focus:ring-blue-600"
+          aria-label="Sort order"
+        >
+          <option value="desc">Highest / newest first</option>
+          <option value="asc">Lowest / oldest first</option>
+        </select>
+      </div>
+
+      {loading && customers.length === 0 ? (
+        <div className="flex items-center justify-center h-64">
+          <Loader2 className="w-8 h-8 text-blue-600 dark:text-blue-400 animate-spin" />
+        </div>
+      ) : (
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 border dark:border-gray-700">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-[40px]" />
+                <TableHead>Customer</TableHead>
+                <TableHead>Bookings</TableHead>
+                <TableHead>Cancellations</TableHead>
+                <TableHead>Spend</TableHead>
+                <TableHead>Last Booking</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {customers.map(customer => (
+                <TableRow
+                  key={customer.id}
+                  onClick={() => openProfile(customer.id)}
+                  className="cursor-pointer"
+                >
+                  <TableCell onClick={(e) => e.stopPropagation()}>
+                    <input
+                      type="checkbox"
+                      checked={!!selected[customer.id]}
+                      onChange={() => toggleSelected(customer)}
+                      className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+                      aria-label={`Select ${customerDisplayName(customer)}`}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <div className="font-medium flex items-center">
+                      {customerDisplayName(customer)}
+                      {customer.user_id && (
+                        <UserCheck className="w-4 h-4 ml-1.5 text-green-600 dark:text-green-400" aria-label="Has an account" />
+                      )}
+                    </div>
+                    <div className="text-xs text-gray-500 dark:text-gray-400">
+                      {[customer.email, customer.phone].filter(Boolean).join(' · ')}
+                    </div>
+                    {customer.notes && (
+                      <div className="text-xs text-gray-500 dark:text-gray-400 italic truncate max-w-xs">{customer.notes}</div>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    {customer.bookings}
+                    <div className="text-xs text-gray-500 dark:text-gray-400">{customer.completed_bookings} completed</div>
+                  </TableCell>
+                  <TableCell className={customer.cancellations > 0 ? 'text-red-600 dark:text-red-400' : ''}>
+                    {customer.cancellations}
+                  </TableCell>
+                  <TableCell>€{Number(customer.spend).toFixed(2)}</TableCell>
+                  <TableCell className="text-sm">
+                    {customer.last_booking_at ? format(new Date(customer.last_booking_at), 'PP') : 'Never'}
+                  </TableCell>
+                </TableRow>
+              ))}
+              {customers.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center text-gray-500 dark:text-gray-400">
+                    {debouncedSearch ? 'No customers match your search' : 'No customers yet'}
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+
+          <div className="pt-4 flex items-center justify-between text-sm text-gray-600 dark:text-gray-300">
+            <span>
+              {total === 0
+                ? 'No customers'
+                : `Showing ${page * DEFAULT_CUSTOMERS_PAGE_SIZE + 1}–${page * DEFAULT_CUSTOMERS_PAGE_SIZE + customers.length} of ${total.toLocaleString()}`}
+            </span>
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" onClick={() => setPage(page - 1)} disabled={page === 0 || loading}>
+                Previous
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => setPage(page + 1)} disabled={page + 1 >= pageCount || loading}>
+                Next
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {profileId && (
+        <CustomerProfileModal
+          key={`${profileId}-${profileVersion}`}
+          customerId={profileId}
+          onClose={() => openProfile(null)}
+          onUpdated={fetchCustomers}
+          onMerge={(customer, duplicate) => setMerging({ customers: [customer, duplicate], targetId: customer.id })}
+        />
+      )}
+
+      {merging && (
+        <CustomerMergeModal
+          customers={merging.customers}
+          initialTargetId={merging.targetId}
+          onClose={() => setMerging(null)}
+          onConfirm={mergeCustomers}
+        />
+      )}
+    </div>
+  );
+};
+
+export default CustomersManagement;
\ No newline at end of file
@@ -13,16 +13,26 @@ import {
   Save,
   AlertTriangle,
   Info,
+  XCircle,
+  Plus,
+  Trash2,
   X
 } from 'lucide-react';
+import { DEFAULT_CANCELLATION_POLICY, type CancellationFeeTier, type CancellationPolicy } from '../../lib/cancellation';
+import { DEFAULT_REMINDER_POLICIES, type ReminderPolicy } from '../../lib/reminderSchedule';
+import { REMINDER_TEMPLATES, type ReminderChannel, type ReminderRecipient } from '../../lib/reminderTemplates';
 
 interface SystemSettings {
   id?: string;
   default_currency: string;
   default_timezone: string;
   booking_auto_assign: boolean;
+  schedule_buffer_min: number;
+  schedule_conflict_policy: 'warn' | 'block';
   driver_verification_required: boolean;
   admin_email_notifications: boolean;
+  reminder_policies: ReminderPolicy[];
+  cancellation_policy: CancellationPolicy;
   email_from_name: string;
   email_contact_address: string;
   privacy_policy_url: string;
@@ -41,8 +51,12 @@ const PlatformSettings: React.FC = () => {
     default_currency: 'EUR',
     default_timezone: 'Europe/Berlin',
     booking_auto_assign: false,
+    schedule_buffer_min: 30,
+    schedule_conflict_policy: 'warn',
     driver_verification_required: true,
     admin_email_notifications: true,
+    reminder_policies: DEFAULT_REMINDER_POLICIES,
+    cancellation_policy: DEFAULT_CANCELLATION_POLICY,
     email_from_name: 'Royal Transfer',
     email_contact_address: 'support@royaltransfer.eu',
     privacy_policy_url: 'https://royaltransfer.eu/privacy',
@@ -224,6 +238,104 @@ const PlatformSettings: React.FC = () => {
     }
   };
 
+  const updateReminderPolicy = (index: number, changes: Partial<ReminderPolicy>) => {
+    setSettings(prev => ({
+      ...prev,
+      reminder_policies: prev.reminder_policies.map((policy, i) => i === index ? { ...policy, ...changes } : policy)
+    }));
+  };
+
+  const toggleReminderOption = <T extends string>(values: T[], value: T, checked: boolean): T[] => {
+    return checked ? [...values, value] : values.filter(v => v !== value);
+  };
+
+  const addReminderPolicy = () => {
+    setSettings(prev => ({
+      ...prev,
+      reminder_policies: [
+        ...prev.reminder_policies,
+        {
+          id: crypto.randomUUID(),
+          minutes_before: 60,
+          template: 'trip_reminder',
+          recipients: ['customer'],
+          channels: ['email'],
+          enabled: true
+        }
+      ]
+    }));
+  };
+
+  const removeReminderPolicy = (index: number) => {
+    setSettings(prev => ({
+      ...prev,
+      reminder_policies: prev.reminder_policies.filter((_, i) => i !== index)
+    }));
+  };
+
+  const updateCancellationPolicy = (changes: Partial<CancellationPolicy>) => {
+    setSettings(prev => ({
+      ...prev,
+      cancellation_policy: { ...prev.cancellation_policy, ...changes }
+    }));
+  };
+
+  const updateVehicleException = (index: number, changes: { vehicle_type?: string; tiers?: CancellationFeeTier[] }) => {
+    updateCancellationPolicy({
+      vehicle_exceptions: settings.cancellation_policy.vehicle_exceptions.map((exception, i) =>
+        i === index ? { ...exception, ...changes } : exception
+      )
+    });
+  };
+
+  // Fee tiers of the default policy or of one vehicle exception
+  const renderCancellationTiers = (tiers: CancellationFeeTier[], onChange: (tiers: CancellationFeeTier[]) => void) => (
+    <div className="space-y-2">
+      {tiers.length === 0 && (
+        <p className="text-sm text-gray-400 dark:text-gray-500 italic">No fee; cancellations are always free.</p>
+      )}
+      {tiers.map((tier, index) => (
+        <div key={index} className="flex flex-wrap items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+          <span>Within</span>
+          <input
+            type="number"
+            value={tier.hours_before}
+            onChange={(e) => onChange(tiers.map((t, i) => i === index ? { ...t, hours_before: Number(e.target.value) } : t))}
+            min="0"
+            step="0.5"
+            className="w-20 px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-700 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <span>hours of pickup, charge</span>
+          <input
+            type="number"
+            value={tier.fee_percent}
+            onChange={(e) => onChange(tiers.map((t, i) => i === index ? { ...t, fee_percent: Number(e.target.value) } : t))}
+            min="0"
+            max="100"
+            className="w-20 px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-700 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <span>% of the booking total</span>
+          <button
+            type="button"
+            onClick={() => onChange(tiers.filter((_, i) => i !== index))}
+            className="text-gray-400 hover:text-red-600 dark:hover:text-red-400"
+            title="Remove tier"
+          >
+            <Trash2 className="h-4 w-4" />
+          </button>
+        </div>
+      ))}
+      <button
+        type="button"
+        onClick={() => onChange([...tiers, { hours_before: 0, fee_percent: 100 }])}
+        className="text-sm text-blue-600 dark:text-blue-400 hover:text-blue-800 dark:hover:text-blue-300 flex items-center"
+      >
+        <Plus className="h-4 w-4 mr-1" />
+        Add Tier
+      </button>
+    </div>
+  );
+
   const handleCancel = () => {
     // Reset to original settings
     if (originalSettings) {
@@ -423,7 +535,7 @@ const PlatformSettings: React.FC = () => {
                       </label>
                     </div>
                     <p className="mt-1 text-xs text-gray-500 dark:text-gray-400 ml-6">
-                      When enabled, the system will automatically assign the nearest available driver to new bookings
+                      When enabled, pending bookings are assigned every minute to an available driver with a matching vehicle, no overlapping trips and the lightest recent workload. Bookings no driver qualifies for are marked urgent and tagged "no_driver"
                     </p>
                   </div>
 
@@ -448,6 +560,47 @@ const PlatformSettings: React.FC = () => {
                   </div>
                 </div>
 
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                  {/* Schedule Buffer */}
+                  <div>
+                    <label className="flex items-center text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                      <Clock className="w-4 h-4 mr-2 text-gray-500 dark:text-gray-400" />
+                      Time Between Driver Trips (minutes)
+                    </label>
+                    <input
+                      type="number"
+                      name="schedule_buffer_min"
+                      value={settings.schedule_buffer_min}
+                      onChange={handleChange}
+                      min="0"
+                      className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-700 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                    <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                      Travel time kept free after a trip's estimated end before the driver's next pickup
+                    </p>
+                  </div>
+
+                  {/* Schedule Conflict Policy */}
+                  <div>
+                    <label className="flex items-center text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                      <AlertTriangle className="w-4 h-4 mr-2 text-gray-500 dark:text-gray-400" />
+                      Overlapping Driver Trips
+                    </label>
+                    <select
+                      name="schedule_conflict_policy"
+                      value={settings.schedule_conflict_policy}
+                      onChange={handleChange}
+                      className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-700 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      <option value="warn">Warn, allow assigning anyway</option>
+                      <option value="block">Block the assignment</option>
+                    </select>
+                    <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                      What happens when an admin assigns a driver who already has a trip at that time
+                    </p>
+                  </div>
+                </div>
+
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                   {/* Privacy Policy URL */}
                   <div>
@@ -481,6 +634,66 @@ const PlatformSettings: React.FC = () => {
                     />
                   </div>
                 </div>
+
+                {/* Cancellation Policy */}
+                <div>
+                  <label className="flex items-center text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                    <XCircle className="w-4 h-4 mr-2 text-gray-500 dark:text-gray-400" />
+                    Cancellation Policy
+                  </label>
+                  <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+                    Fee kept when an admin cancels a booking, by how close to pickup it is cancelled; the closest matching tier applies. Whatever the customer paid beyond the fee is recorded as a pending refund, and a fee larger than the payment as a pending charge.
+                  </p>
+
+                  {renderCancellationTiers(
+                    settings.cancellation_policy.tiers,
+                    (tiers) => updateCancellationPolicy({ tiers })
+                  )}
+
+                  <div className="mt-4 space-y-3">
+                    {settings.cancellation_policy.vehicle_exceptions.map((exception, index) => (
+                      <div key={index} className="p-3 border border-gray-200 dark:border-gray-700 rounded-md">
+                        <div className="flex items-center justify-between mb-3">
+                          <div className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                            <span>Instead, for</span>
+                            <input
+                              type="text"
+                              value={exception.vehicle_type}
+                              onChange={(e) => updateVehicleException(index, { vehicle_type: e.target.value })}
+                              placeholder="Vehicle type"
+                              className="w-48 px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-700 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            />
+                            <span>bookings:</span>
+                          </div>
+                          <button
+                            type="button"
+                            onClick={() => updateCancellationPolicy({
+                              vehicle_exceptions: settings.cancellation_policy.vehicle_exceptions.filter((_, i) => i !== index)
+                            })}
+                            className="text-gray-400 hover:text-red-600 dark:hover:text-red-400"
+                            title="Remove exception"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </button>
+                        </div>
+                        {renderCancellationTiers(exception.tiers, (tiers) => updateVehicleException(index, { tiers }))}
+                      </div>
+                    ))}
+                    <button
+                      type="button"
+                      onClick={() => updateCancellationPolicy({
+                        vehicle_exceptions: [
+                          ...settings.cancellation_policy.vehicle_exceptions,
+                          { vehicle_type: '', tiers: settings.cancellation_policy.tiers }
+                        ]
+                      })}
+                      className="text-sm text-blue-600 dark:text-blue-400 hover:text-blue-800 dark:hover:text-blue-300 flex items-center"
+                    >
+                      <Plus className="h-4 w-4 mr-1" />
+                      Add Vehicle Exception
+                    </button>
+                  </div>
+                </div>
               </div>
             )}
             
@@ -594,6 +807,117 @@ const PlatformSettings: React.FC = () => {
                   </div>
                 </div>
 
+                {/* Automatic Reminders */}
+                <div>
+                  <div className="flex items-center justify-between mb-1">
+                    <label className="flex items-center text-sm font-medium text-gray-700 dark:text-gray-300">
+                      <Bell className="w-4 h-4 mr-2 text-gray-500 dark:text-gray-400" />
+                      Automatic Booking Reminders
+                    </label>
+                    <button
+                      type="button"
+                      onClick={addReminderPolicy}
+                      className="text-sm text-blue-600 dark:text-blue-400 hover:text-blue-800 dark:hover:text-blue-300 flex items-center"
+                    >
+                      <Plus className="h-4 w-4 mr-1" />
+                      Add Reminder
+                    </button>
+                  </div>
+                  <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+                    Checked every 5 minutes for pending and accepted bookings. Each reminder is sent once per booking; if a booking is made after several reminder times have passed, only the latest one goes out. Drivers are only reminded once assigned.
+                  </p>
+
+                  {settings.reminder_policies.length === 0 ? (
+                    <p className="text-sm text-gray-400 dark:text-gray-500 italic">No automatic reminders configured.</p>
+                  ) : (
+                    <div className="space-y-3">
+                      {settings.reminder_policies.map((policy, index) => {
+                        const template = REMINDER_TEMPLATES.find(t => t.id === policy.template);
+                        return (
+                          <div key={policy.id} className="grid grid-cols-1 md:grid-cols-12 gap-3 items-center p-3 border border-gray-200 dark:border-gray-700 rounded-md">
+                            <div className="md:col-span-1 flex items-center">
+                              <input
+                                type="checkbox"
+                                checked={policy.enabled}
+                                onChange={(e) => updateReminderPolicy(index, { enabled: e.target.checked })}
+                                title="Enabled"
+                                className="h-4 w-4 text-blue-600 border-gray-300 dark:border-gray-600 rounded focus:ring-blue-500 dark:checked:bg-blue-600"
+                              />
+                            </div>
+                            <div className="md:col-span-3">
+                              <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">Hours before pickup</label>
+                              <input
+                                type="number"
+                                value={policy.minutes_before / 60}
+                                onChange={(e) => updateReminderPolicy(index, { minutes_before: Math.round(Number(e.target.value) * 60) })}
+                                min="0.25"
+                                max="168"
+                                step="0.25"
+                                className="w-full px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-700 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                              />
+                            </div>
+                            <div className="md:col-span-3">
+                              <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">Template</label>
+                              <select
+                                value={policy.template}
+                                onChange={(e) => {
+                                  const next = REMINDER_TEMPLATES.find(t => t.id === e.target.value);
+                                  updateReminderPolicy(index, {
+                                    template: next?.id || policy.template,
+                                    recipients: policy.recipients.filter(r => next?.recipients.includes(r))
+                                  });
+                                }}
+                                className="w-full px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-700 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                              >
+                                {REMINDER_TEMPLATES.map(t => (
+                                  <option key={t.id} value={t.id}>{t.label}</option>
+                                ))}
+                              </select>
+                            </div>
+                            <div className="md:col-span-2 text-sm text-gray-700 dark:text-gray-300">
+                              {(['customer', 'driver'] as ReminderRecipient[]).map(recipient => (
+                                <label key={recipient} className={`flex items-center ${template?.recipients.includes(recipient) ? '' : 'opacity-50'}`}>
+                                  <input
+                                    type="checkbox"
+                                    checked={policy.recipients.includes(recipient)}
+                                    disabled={!template?.recipients.includes(recipient)}
+                                    onChange={(e) => updateReminderPolicy(index, { recipients: toggleReminderOption(policy.recipients, recipient, e.target.checked) })}
+                                    className="h-3.5 w-3.5 mr-1.5 text-blue-600 border-gray-300 dark:border-gray-600 rounded"
+                                  />
+                                  {recipient === 'customer' ? 'Customer' : 'Driver'}
+                                </label>
+                              ))}
+                            </div>
+                            <div className="md:col-span-2 text-sm text-gray-700 dark:text-gray-300">
+                              {(['email', 'sms'] as ReminderChannel[]).map(channel => (
+                                <label key={channel} className="flex items-center">
+                                  <input
+                                    type="checkbox"
+                                    checked={policy.channels.includes(channel)}
+                                    onChange={(e) => updateReminderPolicy(index, { channels: toggleReminderOption(policy.channels, channel, e.target.checked) })}
+                                    className="h-3.5 w-3.5 mr-1.5 text-blue-600 border-gray-300 dark:border-gray-600 rounded"
+                                  />
+                                  {channel === 'email' ? 'Email' : 'SMS'}
+                                </label>
+                              ))}
+                            </div>
+                            <div className="md:col-span-1 flex justify-end">
+                              <button
+                                type="button"
+                                onClick={() => removeReminderPolicy(index)}
+                                className="text-gray-400 hover:text-red-600 dark:hover:text-red-400"
+                                title="Remove reminder"
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </button>
+                            </div>
+                          </div>
+                        );
+                      })}
+                    </div>
+                  )}
+                </div>
+
                 <div className="bg-blue-50 dark:bg-blue-900/20 p-4 rounded-md border border-blue-100 dark:border-blue-800">
                   <div className="flex">
                     <Info className="h-5 w-5 text-blue-500 dark:text-blue-400 flex-shrink-0 mt-0.5" />
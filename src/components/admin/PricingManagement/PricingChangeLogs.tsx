@@ -1,13 +1,25 @@
 import React, { useState, useEffect } from 'react';
-import { Clock, Search } from 'lucide-react';
+import { Clock, Search, RotateCcw, History, Loader2 } from 'lucide-react';
 import { format } from 'date-fns';
 import { supabase } from '../../../lib/supabase';
+import { adminApi } from '../../../lib/adminApi';
+import { isRevertible, type SheetDiffEntry } from '../../../lib/pricingHistory';
 import { useToast } from '../../ui/use-toast';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '../../ui/alert-dialog';
 
 interface PricingChangeLog {
   id: string;
   changed_by: string;
-  change_type: 'base_price' | 'zone_multiplier' | 'fixed_route';
+  change_type: 'base_price' | 'zone_multiplier' | 'fixed_route' | 'pricing_rule' | 'price_sheet' | 'rollback' | 'zone_boundary';
   previous_value: any;
   new_value: any;
   notes: string;
@@ -18,10 +30,39 @@ interface PricingChangeLog {
   };
 }
 
-const PricingChangeLogs: React.FC = () => {
+interface RollbackTarget {
+  logId?: string;
+  timestamp?: string;
+  title: string;
+}
+
+interface PricingChangeLogsProps {
+  onRollback?: () => void;
+}
+
+const TABLE_LABELS: Record<SheetDiffEntry['table'], string> = {
+  vehiclePrices: 'Vehicle Price',
+  zoneMultipliers: 'Zone Multiplier',
+  fixedRoutes: 'Fixed Route',
+  pricingRules: 'Pricing Rule'
+};
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+const PricingChangeLogs: React.FC<PricingChangeLogsProps> = ({ onRollback }) => {
   const [logs, setLogs] = useState<PricingChangeLog[]>([]);
   const [loading, setLoading] = useState(true);
   const [searchQuery, setSearchQuery] = useState('');
+  const [restoreTimestamp, setRestoreTimestamp] = useState('');
+  const [rollbackTarget, setRollbackTarget] = useState<RollbackTarget | null>(null);
+  const [rollbackPreview, setRollbackPreview] = useState<SheetDiffEntry[] | null>(null);
+  const [changesUndone, setChangesUndone] = useState(0);
+  const [previewing, setPreviewing] = useState(false);
+  const [applying, setApplying] = useState(false);
   const { toast } = useToast();
 
   useEffect(() => {
@@ -59,16 +100,44 @@ const PricingChangeLogs: React.FC = () => {
     ).join(' ');
   };
 
-  const renderValueDiff = (prev: any, next: any) => {
+  const renderValueDiff = (log: PricingChangeLog) => {
+    const prev = log.previous_value || {};
+    const next = log.new_value || {};
+
+    // Sheet activations and rollbacks store whole sheets; summarise them instead
+    if (log.change_type === 'price_sheet' || log.change_type === 'rollback') {
+      return (
+        <div className="text-sm text-gray-600 dark:text-gray-300">
+          Full price sheet: {(next.vehiclePrices || []).length} vehicle prices,{' '}
+          {(next.zoneMultipliers || []).length} zone multipliers,{' '}
+          {(next.fixedRoutes || []).length} fixed routes,{' '}
+          {(next.pricingRules || []).length} pricing rules
+        </div>
+      );
+    }
+
+    // Boundaries are long coordinate lists; show the size of the change instead
+    if (log.change_type === 'zone_boundary') {
+      const points = (boundary: any) =>
+        boundary.coordinates.flat(boundary.type === 'Polygon' ? 1 : 2).length;
+      return (
+        <div className="text-sm text-gray-600 dark:text-gray-300">
+          {next.name || prev.name}: {prev.boundary ? `${points(prev.boundary)} points` : 'no boundary'}
+          {' → '}
+          {next.boundary ? `${points(next.boundary)} points` : 'no boundary'}
+        </div>
+      );
+    }
+
     const changes = [];
     for (const key in next) {
       if (JSON.stringify(prev[key]) !== JSON.stringify(next[key])) {
         changes.push(
           <div key={key} className="text-sm">
             <span className="font-medium">{key}:</span>{' '}
-            <span className="text-red-600 dark:text-red-400 line-through">{prev[key]}</span>
+            <span className="text-red-600 dark:text-red-400 line-through">{formatValue(prev[key])}</span>
             {' → '}
-            <span className="text-green-600 dark:text-green-400">{next[key]}</span>
+            <span className="text-green-600 dark:text-green-400">{formatValue(next[key])}</span>
           </div>
         );
       }
@@ -76,6 +145,79 @@ const PricingChangeLogs: React.FC = () => {
     return changes;
   };
 
+  // Ask the server which rows a rollback would change before applying it
+  const previewRollback = async (target: RollbackTarget) => {
+    setRollbackTarget(target);
+    setRollbackPreview(null);
+    setPreviewing(true);
+    try {
+      const result = await adminApi.rollbackPricing({
+        logId: target.logId,
+        timestamp: target.timestamp,
+        dryRun: true
+      });
+      setRollbackPreview(result.diff || []);
+      setChangesUndone(result.changesUndone || 0);
+    } catch (error: any) {
+      console.error('Error previewing rollback:', error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Failed to preview rollback"
+      });
+      setRollbackTarget(null);
+    } finally {
+      setPreviewing(false);
+    }
+  };
+
+  const applyRollback = async () => {
+    if (!rollbackTarget) return;
+
+    setApplying(true);
+    try {
+      await adminApi.rollbackPricing({
+        logId: rollbackTarget.logId,
+        timestamp: rollbackTarget.timestamp,
+        dryRun: false
+      });
+      toast({
+        title: "Success",
+        description: "Pricing rolled back successfully"
+      });
+      setRollbackTarget(null);
+      setRollbackPreview(null);
+      await fetchLogs();
+      onRollback?.();
+    } catch (error: any) {
+      console.error('Error applying rollback:', error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Failed to roll back pricing"
+      });
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  const handleRestoreToTimestamp = () => {
+    if (!restoreTimestamp) {
+      toast({
+        variant: "destructive",
+        title: "Missing Information",
+        description: "Please choose the date and time to restore pricing to"
+      });
+      return;
+    }
+
+    const timestamp = new Date(restoreTimestamp);
+    previewRollback({
+      timestamp: timestamp.toISOString(),
+      title: `Restore pricing to ${format(timestamp, 'PPp')}`
+    });
+  };
+
   const filteredLogs = logs.filter(log => {
     if (!searchQuery) return true;
     
@@ -96,6 +238,23 @@ const PricingChangeLogs: React.FC = () => {
         Pricing Change History
       </h3>
 
+      <div className="mb-4 flex items-center space-x-2">
+        <input
+          type="datetime-local"
+          value={restoreTimestamp}
+          onChange={(e) => setRestoreTimestamp(e.target.value)}
+          className="flex-1 px-3 py-2 border border-gray-200 dark:border-gray-700 rounded-md dark:bg-gray-700 dark:text-white"
+        />
+        <button
+          onClick={handleRestoreToTimestamp}
+          disabled={previewing}
+          className="flex items-center px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md text-sm hover:bg-gray-50 dark:hover:bg-gray-700 dark:text-white disabled:opacity-50"
+        >
+          <History className="w-4 h-4 mr-2" />
+          Restore to...
+        </button>
+      </div>
+
       <div className="mb-4 relative">
         <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
           <Search className="h-5 w-5 text-gray-400" />
@@ -139,14 +298,27 @@ const PricingChangeLogs: React.FC = () => {
                 </span>
               </div>
 
-              <div className="mb-2">
+              <div className="mb-2 flex justify-between items-center">
                 <span className="inline-block px-2 py-1 text-xs rounded-full bg-blue-100 dark:bg-blue-900/30 text-blue-800 dark:text-blue-300">
                   {formatChangeType(log.change_type)}
                 </span>
+                {isRevertible(log) && (
+                  <button
+                    onClick={() => previewRollback({
+                      logId: log.id,
+                      title: `Revert ${formatChangeType(log.change_type).toLowerCase()} change from ${format(new Date(log.created_at), 'PPp')}`
+                    })}
+                    disabled={previewing}
+                    className="flex items-center text-sm text-blue-600 hover:text-blue-700 dark:text-blue-400 dark:hover:text-blue-300 disabled:opacity-50"
+                  >
+                    <RotateCcw className="w-4 h-4 mr-1" />
+                    Revert
+                  </button>
+                )}
               </div>
 
               <div className="bg-gray-50 dark:bg-gray-700/50 rounded p-2 text-sm">
-                {renderValueDiff(log.previous_value, log.new_value)}
+                {renderValueDiff(log)}
               </div>
 
               {log.notes && (
@@ -158,6 +330,80 @@ const PricingChangeLogs: React.FC = () => {
           ))}
         </div>
       )}
+
+      {/* Rollback preview */}
+      <AlertDialog
+        open={!!rollbackTarget}
+        onOpenChange={(open) => {
+          if (!open && !applying) {
+            setRollbackTarget(null);
+            setRollbackPreview(null);
+          }
+        }}
+      >
+        <AlertDialogContent className="max-w-2xl">
+          <AlertDialogHeader>
+            <AlertDialogTitle className="flex items-center">
+              <RotateCcw className="w-5 h-5 text-blue-600 mr-2" />
+              {rollbackTarget?.title}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {previewing
+                ? 'Calculating changes...'
+                : rollbackPreview && rollbackPreview.length > 0
+                  ? `Undoes ${changesUndone} logged change${changesUndone === 1 ? '' : 's'}. The live pricing will change as follows:`
+                  : 'The live pricing already matches this state. Nothing to roll back.'}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+
+          {previewing ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="w-6 h-6 text-blue-600 animate-spin" />
+            </div>
+          ) : rollbackPreview && rollbackPreview.length > 0 && (
+            <div className="max-h-80 overflow-y-auto space-y-2">
+              {rollbackPreview.map((entry, index) => (
+                <div key={index} className="border dark:border-gray-700 rounded p-2 text-sm">
+                  <div className="flex justify-between mb-1">
+                    <span className="font-medium dark:text-white">
+                      {TABLE_LABELS[entry.table]}: {entry.label}
+                    </span>
+                    <span className={`text-xs px-2 py-0.5 rounded-full ${
+                      entry.action === 'added' ? 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300' :
+                      entry.action === 'removed' ? 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300' :
+                      'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-300'
+                    }`}>
+                      {entry.action}
+                    </span>
+                  </div>
+                  {entry.action === 'changed' && entry.changes.map(change => (
+                    <div key={change.field} className="text-gray-600 dark:text-gray-300">
+                      <span className="font-medium">{change.field}:</span>{' '}
+                      <span className="text-red-600 dark:text-red-400 line-through">{formatValue(change.from)}</span>
+                      {' → '}
+                      <span className="text-green-600 dark:text-green-400">{formatValue(change.to)}</span>
+                    </div>
+                  ))}
+                </div>
+              ))}
+            </div>
+          )}
+
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={applying}>Cancel</AlertDialogCancel>
+            {rollbackPreview && rollbackPreview.length > 0 && (
+              <AlertDialogAction onClick={applyRollback} disabled={applying}>
+                {applying ? (
+                  <>
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                    Rolling back...
+                  </>
+                ) : 'Apply Rollback'}
+              </AlertDialogAction>
+            )}
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 };
@@ -0,0 +1,221 @@
+import React, { useState } from 'react';
+import { X, Upload, Loader2, AlertTriangle, CheckCircle } from 'lucide-react';
+import { useToast } from '../../ui/use-toast';
+import { adminApi } from '../../../lib/adminApi';
+import type { PriceSheet } from '../../../lib/pricing';
+import { diffPriceSheets, type SheetDiffEntry } from '../../../lib/pricingHistory';
+import {
+  parsePricingCsv,
+  PRICING_CSV_COLUMNS,
+  type PricingCsvImport as ParsedImport,
+  type PricingCsvTable,
+  type PricingCsvZone
+} from '../../../lib/pricingCsv';
+
+interface PricingCsvImportProps {
+  current: PriceSheet;
+  zones: PricingCsvZone[];
+  onClose: () => void;
+  onImported: () => void;
+}
+
+const TABLE_OPTIONS: { value: PricingCsvTable; label: string }[] = [
+  { value: 'vehiclePrices', label: 'Vehicle Base Prices' },
+  { value: 'zoneMultipliers', label: 'Zone Multipliers' },
+  { value: 'fixedRoutes', label: 'Fixed Routes' }
+];
+
+const PricingCsvImport: React.FC<PricingCsvImportProps> = ({
+  current,
+  zones,
+  onClose,
+  onImported
+}) => {
+  const [table, setTable] = useState<PricingCsvTable>('fixedRoutes');
+  const [fileName, setFileName] = useState('');
+  const [parsed, setParsed] = useState<ParsedImport | null>(null);
+  const [diff, setDiff] = useState<SheetDiffEntry[]>([]);
+  const [applying, setApplying] = useState(false);
+  const { toast } = useToast();
+
+  // Zone names make the diff readable; the sheets only carry zone ids
+  const withZoneNames = (sheet: PriceSheet): PriceSheet => ({
+    ...sheet,
+    zoneMultipliers: sheet.zoneMultipliers.map(m => ({
+      ...m,
+      zone_name: zones.find(z => z.id === m.zone_id)?.name || m.zone_name
+    }))
+  });
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setFileName(file.name);
+    const result = parsePricingCsv(table, await file.text(), current, zones);
+    setParsed(result);
+    setDiff(result.errors.length === 0 ? diffPriceSheets(withZoneNames(current), withZoneNames(result.merged)) : []);
+    e.target.value = '';
+  };
+
+  const handleTableChange = (value: PricingCsvTable) => {
+    setTable(value);
+    setParsed(null);
+    setDiff([]);
+    setFileName('');
+  };
+
+  const handleApply = async () => {
+    if (!parsed || parsed.errors.length > 0 || diff.length === 0) return;
+
+    setApplying(true);
+    try {
+      // Same path as saving the tables by hand, so every row change is logged
+      const result = await adminApi.updatePricingData(parsed.changes);
+
+      if (!result || result.error) {
+        throw new Error(result?.error || 'Failed to import pricing data');
+      }
+
+      const counts = result.results?.[table];
+      toast({
+        title: "Import Complete",
+        description: counts?.error
+          ? `${counts.success} rows imported, ${counts.error} failed`
+          : `${counts?.success ?? diff.length} rows imported`
+      });
+      onImported();
+      onClose();
+    } catch (error: any) {
+      console.error('Error importing pricing CSV:', error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Failed to import pricing data"
+      });
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  const added = diff.filter(entry => entry.action === 'added').length;
+  const changed = diff.filter(entry => entry.action === 'changed').length;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 dark:bg-black/70 flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-2xl">
+        <div className="px-6 py-4 bg-blue-50 dark:bg-blue-900/30 border-b dark:border-gray-700 flex justify-between items-center">
+          <h3 className="text-lg font-medium text-gray-900 dark:text-white flex items-center">
+            <Upload className="h-5 w-5 mr-2" />
+            Import Pricing CSV
+          </h3>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-500 dark:hover:text-gray-300"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Table
+            </label>
+            <select
+              value={table}
+              onChange={e => handleTableChange(e.target.value as PricingCsvTable)}
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700 dark:text-white"
+            >
+              {TABLE_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+              Columns: {PRICING_CSV_COLUMNS[table].join(', ')}. Existing rows are updated and new rows
+              are added; rows not in the file are kept.
+            </p>
+          </div>
+
+          <div>
+            <label className="flex items-center justify-center w-full px-4 py-6 border-2 border-dashed border-gray-300 dark:border-gray-600 rounded-md cursor-pointer hover:border-blue-500 dark:text-gray-300">
+              <Upload className="w-5 h-5 mr-2" />
+              {fileName || 'Choose a CSV file'}
+              <input type="file" accept=".csv,text/csv" onChange={handleFileChange} className="hidden" />
+            </label>
+          </div>
+
+          {parsed && parsed.errors.length > 0 && (
+            <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-md p-3">
+              <h4 className="flex items-center text-sm font-medium text-red-800 dark:text-red-300 mb-2">
+                <AlertTriangle className="w-4 h-4 mr-2" />
+                {parsed.errors.length} problem{parsed.errors.length === 1 ? '' : 's'} found. Fix the file and upload it again.
+              </h4>
+              <ul className="max-h-48 overflow-y-auto text-sm text-red-700 dark:text-red-300 space-y-1">
+                {parsed.errors.map((error, index) => (
+                  <li key={index}>Line {error.line}: {error.message}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {parsed && parsed.errors.length === 0 && (
+            <div>
+              <h4 className="flex items-center text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                <CheckCircle className="w-4 h-4 mr-2 text-green-600" />
+                {parsed.rowCount} rows checked: {added} to add, {changed} to update,{' '}
+                {parsed.rowCount - added - changed} unchanged
+              </h4>
+              {diff.length > 0 && (
+                <div className="max-h-64 overflow-y-auto border dark:border-gray-700 rounded-md divide-y dark:divide-gray-700">
+                  {diff.map((entry, index) => (
+                    <div key={index} className="p-2 text-sm flex justify-between">
+                      <span className="dark:text-white">{entry.label}</span>
+                      <span className="text-gray-600 dark:text-gray-300">
+                        {entry.action === 'added' ? (
+                          <span className="text-green-600 dark:text-green-400">new</span>
+                        ) : entry.changes.map(change => (
+                          <span key={change.field} className="ml-2">
+                            {change.field}:{' '}
+                            <span className="text-red-600 dark:text-red-400 line-through">{String(change.from)}</span>
+                            {' → '}
+                            <span className="text-green-600 dark:text-green-400">{String(change.to)}</span>
+                          </span>
+                        ))}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="px-6 py-4 bg-gray-50 dark:bg-gray-700 border-t dark:border-gray-600 flex justify-end space-x-3">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-md text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-600"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleApply}
+            disabled={applying || !parsed || parsed.errors.length > 0 || diff.length === 0}
+            className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-blue-400 flex items-center"
+          >
+            {applying ? (
+              <>
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                Importing...
+              </>
+            ) : (
+              `Apply ${diff.length} Change${diff.length === 1 ? '' : 's'}`
+            )}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PricingCsvImport;
\ No newline at end of file
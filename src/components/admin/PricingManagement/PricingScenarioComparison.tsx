@@ -0,0 +1,315 @@
+import React, { useState } from 'react';
+import { Loader2, Upload, Download, AlertTriangle } from 'lucide-react';
+import { format } from 'date-fns';
+import { useToast } from '../../ui/use-toast';
+import { adminApi } from '../../../lib/adminApi';
+import type { PriceSheet } from '../../../lib/pricing';
+import {
+  MAX_SCENARIO_TRIPS,
+  type ScenarioSummary,
+  type ScenarioTripResult
+} from '../../../lib/pricingScenario';
+import {
+  downloadCsv,
+  parseScenarioCsv,
+  SCENARIO_CSV_COLUMNS,
+  toCsv,
+  type PricingCsvRowError
+} from '../../../lib/pricingCsv';
+
+interface ScheduledSheet {
+  id: string;
+  name: string;
+  effective_from: string;
+}
+
+interface PricingScenarioComparisonProps {
+  /** Unsaved edits to the pricing tables, or null when there are none */
+  draftSheet: PriceSheet | null;
+  scheduledSheets: ScheduledSheet[];
+}
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700 dark:text-white';
+
+const formatDelta = (value: number, percent?: number | null) =>
+  `${value > 0 ? '+' : ''}€${value.toFixed(2)}${percent != null ? ` (${percent > 0 ? '+' : ''}${percent}%)` : ''}`;
+
+const deltaClassName = (value = 0) =>
+  value > 0
+    ? 'text-green-600 dark:text-green-400'
+    : value < 0
+      ? 'text-red-600 dark:text-red-400'
+      : 'text-gray-600 dark:text-gray-300';
+
+const PricingScenarioComparison: React.FC<PricingScenarioComparisonProps> = ({ draftSheet, scheduledSheets }) => {
+  const [scenario, setScenario] = useState(draftSheet ? 'draft' : scheduledSheets[0]?.id || '');
+  const [source, setSource] = useState<'trips' | 'bookings'>('trips');
+  const [tripsText, setTripsText] = useState('');
+  const [recentBookings, setRecentBookings] = useState(50);
+  const [parseErrors, setParseErrors] = useState<PricingCsvRowError[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [results, setResults] = useState<ScenarioTripResult[] | null>(null);
+  const [summary, setSummary] = useState<ScenarioSummary | null>(null);
+  const { toast } = useToast();
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setTripsText(await file.text());
+    e.target.value = '';
+  };
+
+  const handleCompare = async () => {
+    let trips;
+    if (source === 'trips') {
+      const parsed = parseScenarioCsv(tripsText);
+      setParseErrors(parsed.errors);
+      if (parsed.errors.length > 0) return;
+
+      if (parsed.trips.length === 0 || parsed.trips.length > MAX_SCENARIO_TRIPS) {
+        toast({
+          variant: "destructive",
+          title: "Invalid Trip List",
+          description: `Enter between 1 and ${MAX_SCENARIO_TRIPS} trips`
+        });
+        return;
+      }
+      trips = parsed.trips;
+    }
+
+    setLoading(true);
+    try {
+      const data = await adminApi.simulatePricingBatch({
+        trips,
+        recentBookings: source === 'bookings' ? recentBookings : undefined,
+        draftSheet: scenario === 'draft' && draftSheet ? draftSheet : undefined,
+        compareScheduleId: scenario !== 'draft' ? scenario : undefined
+      });
+      setResults(data.trips);
+      setSummary(data.summary);
+    } catch (error: any) {
+      console.error('Error comparing pricing scenarios:', error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Failed to compare pricing scenarios"
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const exportResults = () => {
+    if (!results) return;
+    const rows = [
+      ['trip', 'booking_reference', 'vehicle_type', 'pickup_time', 'distance_km', 'booked_price', 'current_price', 'draft_price', 'delta', 'delta_percent', 'error'],
+      ...results.map(r => [
+        r.label,
+        r.bookingReference,
+        r.vehicleType,
+        r.pickupTime,
+        r.distanceKm,
+        r.bookedPrice,
+        r.currentPrice,
+        r.draftPrice,
+        r.delta,
+        r.deltaPercent,
+        r.error
+      ])
+    ];
+    downloadCsv(toCsv(rows), `pricing_scenario_${format(new Date(), 'yyyy-MM-dd')}.csv`);
+  };
+
+  const showBookedPrice = results?.some(r => r.bookingReference);
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+          Compare Live Pricing With
+        </label>
+        <select value={scenario} onChange={(e) => setScenario(e.target.value)} className={inputClassName}>
+          <option value="draft" disabled={!draftSheet}>
+            Unsaved changes{draftSheet ? '' : ' (none)'}
+          </option>
+          {scheduledSheets.map(sheet => (
+            <option key={sheet.id} value={sheet.id}>
+              {sheet.name} (from {new Date(sheet.effective_from).toLocaleString()})
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="flex space-x-4 text-sm dark:text-gray-300">
+        <label className="flex items-center">
+          <input
+            type="radio"
+            checked={source === 'trips'}
+            onChange={() => setSource('trips')}
+            className="mr-2"
+          />
+          Trip list
+        </label>
+        <label className="flex items-center">
+          <input
+            type="radio"
+            checked={source === 'bookings'}
+            onChange={() => setSource('bookings')}
+            className="mr-2"
+          />
+          Recent bookings
+        </label>
+      </div>
+
+      {source === 'trips' ? (
+        <div>
+          <textarea
+            value={tripsText}
+            onChange={(e) => setTripsText(e.target.value)}
+            rows={6}
+            className={`${inputClassName} font-mono text-xs`}
+            placeholder={`${SCENARIO_CSV_COLUMNS.join(',')}\nFiumicino Airport,Roma Termini,sedan,2025-07-01 08:30,\nCiampino Airport,Vatican,van,,Colosseum|Trevi Fountain`}
+          />
+          <div className="mt-1 flex justify-between items-center">
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              CSV with a header row. Separate stops with "|". Up to {MAX_SCENARIO_TRIPS} trips.
+            </p>
+            <label className="flex items-center text-sm text-blue-600 dark:text-blue-400 cursor-pointer">
+              <Upload className="w-4 h-4 mr-1" />
+              Upload CSV
+              <input type="file" accept=".csv,text/csv" onChange={handleFileChange} className="hidden" />
+            </label>
+          </div>
+        </div>
+      ) : (
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+            Number of Bookings
+          </label>
+          <input
+            type="number"
+            value={recentBookings}
+            onChange={(e) => setRecentBookings(parseInt(e.target.value, 10) || 0)}
+            min="1"
+            max={MAX_SCENARIO_TRIPS}
+            className={inputClassName}
+          />
+          <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+            The most recent non-cancelled bookings with a known vehicle type and distance, at their original pickup times.
+          </p>
+        </div>
+      )}
+
+      {parseErrors.length > 0 && (
+        <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-md p-3">
+          <ul className="max-h-32 overflow-y-auto text-sm text-red-700 dark:text-red-300 space-y-1">
+            {parseErrors.map((error, index) => (
+              <li key={index} className="flex items-start">
+                <AlertTriangle className="w-4 h-4 mr-2 mt-0.5 flex-shrink-0" />
+                Line {error.line}: {error.message}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <button
+        onClick={handleCompare}
+        disabled={loading || !scenario || (scenario === 'draft' && !draftSheet)}
+        className="w-full bg-blue-600 text-white py-2 rounded-md hover:bg-blue-700 transition-colors flex items-center justify-center disabled:bg-blue-400"
+      >
+        {loading ? (
+          <>
+            <Loader2 className="w-5 h-5 mr-2 animate-spin" />
+            Comparing...
+          </>
+        ) : (
+          'Compare Pricing'
+        )}
+      </button>
+
+      {results && summary && (
+        <div className="mt-6 space-y-4">
+          <div className="bg-gray-50 dark:bg-gray-700 p-4 rounded-lg space-y-2">
+            <div className="flex justify-between items-center">
+              <h4 className="font-medium text-lg dark:text-white">Revenue Impact</h4>
+              <button
+                onClick={exportResults}
+                className="flex items-center text-sm text-blue-600 dark:text-blue-400 hover:underline"
+              >
+                <Download className="w-4 h-4 mr-1" />
+                Export CSV
+              </button>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-600 dark:text-gray-300">Current pricing:</span>
+              <span className="font-medium dark:text-white">€{summary.currentTotal.toFixed(2)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-600 dark:text-gray-300">Draft pricing:</span>
+              <span className="font-medium dark:text-white">€{summary.draftTotal.toFixed(2)}</span>
+            </div>
+            <div className="border-t dark:border-gray-600 pt-2 flex justify-between text-lg font-semibold">
+              <span className="dark:text-white">Difference:</span>
+              <span className={deltaClassName(summary.delta)}>{formatDelta(summary.delta, summary.deltaPercent)}</span>
+            </div>
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              {summary.quoted} of {summary.trips} trips quoted: {summary.increased} up, {summary.decreased} down, {summary.unchanged} unchanged
+              {summary.failed > 0 && `, ${summary.failed} could not be priced`}
+            </p>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b dark:border-gray-600 text-left text-gray-600 dark:text-gray-300">
+                  <th className="py-2 pr-2">Trip</th>
+                  {showBookedPrice && <th className="py-2 pr-2 text-right">Booked</th>}
+                  <th className="py-2 pr-2 text-right">Current</th>
+                  <th className="py-2 pr-2 text-right">Draft</th>
+                  <th className="py-2 text-right">Delta</th>
+                </tr>
+              </thead>
+              <tbody>
+                {results.map(result => (
+                  <tr key={result.index} className="border-b dark:border-gray-700 align-top">
+                    <td className="py-2 pr-2">
+                      <div className="dark:text-white">{result.label}</div>
+                      <div className="text-xs text-gray-500 dark:text-gray-400">
+                        {[
+                          result.bookingReference,
+                          result.vehicleType,
+                          result.distanceKm !== undefined && `${result.distanceKm} km`,
+                          result.pickupTime && new Date(result.pickupTime).toLocaleString()
+                        ].filter(Boolean).join(' · ')}
+                      </div>
+                      {result.error && (
+                        <div className="text-xs text-red-600 dark:text-red-400">{result.error}</div>
+                      )}
+                    </td>
+                    {showBookedPrice && (
+                      <td className="py-2 pr-2 text-right dark:text-gray-300">
+                        {result.bookedPrice != null ? `€${Number(result.bookedPrice).toFixed(2)}` : '—'}
+                      </td>
+                    )}
+                    <td className="py-2 pr-2 text-right dark:text-white">
+                      {result.currentPrice !== undefined ? `€${result.currentPrice.toFixed(2)}` : '—'}
+                    </td>
+                    <td className="py-2 pr-2 text-right dark:text-white">
+                      {result.draftPrice !== undefined ? `€${result.draftPrice.toFixed(2)}` : '—'}
+                    </td>
+                    <td className={`py-2 text-right ${deltaClassName(result.delta)}`}>
+                      {result.delta !== undefined ? formatDelta(result.delta, result.deltaPercent) : '—'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PricingScenarioComparison;
\ No newline at end of file
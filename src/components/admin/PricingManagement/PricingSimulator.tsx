@@ -1,23 +1,90 @@
 import React, { useState } from 'react';
 import { Calculator, RefreshCw, Loader2 } from 'lucide-react';
 import { useToast } from '../../ui/use-toast';
+import { adminApi } from '../../../lib/adminApi';
+import type { PriceSheet } from '../../../lib/pricing';
+import PricingScenarioComparison from './PricingScenarioComparison';
+
+interface ResolvedLocation {
+  lat: number;
+  lng: number;
+  label: string;
+  source: string;
+}
+
+interface ScheduledSheet {
+  id: string;
+  name: string;
+  effective_from: string;
+}
+
+interface BreakdownItem {
+  description: string;
+  amount: number;
+}
+
+interface ScheduledComparison {
+  scheduleId: string;
+  name: string;
+  effectiveFrom: string;
+  finalPrice?: number;
+  difference?: number;
+  breakdown?: BreakdownItem[];
+  error?: string;
+}
 
 interface SimulationResult {
   distance: number;
+  durationMin?: number;
+  routingProvider?: string;
   basePrice: number;
   zoneMultiplier: number;
   finalPrice: number;
-  breakdown: {
-    description: string;
-    amount: number;
+  breakdown: BreakdownItem[];
+  origin?: ResolvedLocation;
+  destination?: ResolvedLocation;
+  pickupZone?: { id: string; name: string } | null;
+  dropoffZone?: { id: string; name: string } | null;
+  stops?: {
+    name: string;
+    point: ResolvedLocation | null;
+    zone: { id: string; name: string } | null;
   }[];
   isFixedRoute: boolean;
+  pickupTime?: string;
+  timeZone?: string;
+  matchedRules?: {
+    id: string;
+    name: string;
+    adjustment_type: 'multiplier' | 'flat';
+    value: number;
+    amount: number;
+  }[];
+  comparison?: ScheduledComparison | null;
+  promo?: {
+    code: string;
+    valid: boolean;
+    reason?: string;
+    message?: string;
+  } | null;
 }
 
-const PricingSimulator: React.FC = () => {
+interface PricingSimulatorProps {
+  scheduledSheets?: ScheduledSheet[];
+  /** Unsaved edits to the pricing tables, for the batch comparison */
+  draftSheet?: PriceSheet | null;
+}
+
+const PricingSimulator: React.FC<PricingSimulatorProps> = ({ scheduledSheets = [], draftSheet = null }) => {
+  const [mode, setMode] = useState<'single' | 'batch'>('single');
   const [origin, setOrigin] = useState('');
   const [destination, setDestination] = useState('');
+  const [stops, setStops] = useState('');
   const [vehicleType, setVehicleType] = useState('');
+  const [pickupTime, setPickupTime] = useState('');
+  const [compareScheduleId, setCompareScheduleId] = useState('');
+  const [promoCode, setPromoCode] = useState('');
+  const [customerEmail, setCustomerEmail] = useState('');
   const [loading, setLoading] = useState(false);
   const [result, setResult] = useState<SimulationResult | null>(null);
   const { toast } = useToast();
@@ -35,31 +102,24 @@ const PricingSimulator: React.FC = () => {
     setLoading(true);
     try {
       // Call the pricing simulation edge function
-      const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/simulate-pricing`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_ANON_KEY}`,
-        },
-        body: JSON.stringify({
-          origin,
-          destination,
-          vehicleType
-        })
-      });
-
-      if (!response.ok) {
-        throw new Error('Failed to simulate pricing');
-      }
-
-      const data = await response.json();
+      // An empty pickup time quotes for the current time
+      const data = await adminApi.simulatePricing(
+        origin,
+        destination,
+        vehicleType,
+        pickupTime ? new Date(pickupTime).toISOString() : undefined,
+        compareScheduleId || undefined,
+        stops.split('\n').map(stop => stop.trim()).filter(Boolean),
+        promoCode.trim() || undefined,
+        customerEmail.trim() || undefined
+      );
       setResult(data);
-    } catch (error) {
+    } catch (error: any) {
       console.error('Error simulating price:', error);
       toast({
         variant: "destructive",
         title: "Error",
-        description: "Failed to simulate pricing. Please try again."
+        description: error.message || "Failed to simulate pricing. Please try again."
       });
     } finally {
       setLoading(false);
@@ -73,120 +133,330 @@ const PricingSimulator: React.FC = () => {
         Price Simulator
       </h3>
 
-      <div className="space-y-4">
-        <div>
-          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-            Origin
-          </label>
-          <input
-            type="text"
-            value={origin}
-            onChange={(e) => setOrigin(e.target.value)}
-            className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700 dark:text-white"
-            placeholder="Enter origin location"
-          />
-        </div>
+      <div className="flex mb-4 border border-gray-300 dark:border-gray-600 rounded-md overflow-hidden text-sm">
+        {(['single', 'batch'] as const).map(value => (
+          <button
+            key={value}
+            onClick={() => setMode(value)}
+            className={`flex-1 py-2 ${
+              mode === value
+                ? 'bg-blue-600 text-white'
+                : 'bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-600'
+            }`}
+          >
+            {value === 'single' ? 'Single Trip' : 'Batch Comparison'}
+          </button>
+        ))}
+      </div>
 
-        <div>
-          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-            Destination
-          </label>
-          <input
-            type="text"
-            value={destination}
-            onChange={(e) => setDestination(e.target.value)}
-            className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700 dark:text-white"
-            placeholder="Enter destination location"
-          />
-        </div>
+      {mode === 'batch' ? (
+        <PricingScenarioComparison draftSheet={draftSheet} scheduledSheets={scheduledSheets} />
+      ) : (
+        <div className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Origin
+            </label>
+            <input
+              type="text"
+              value={origin}
+              onChange={(e) => setOrigin(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700 dark:text-white"
+              placeholder="Address, zone name or lat,lng"
+            />
+          </div>
 
-        <div>
-          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-            Vehicle Type
-          </label>
-          <select
-            value={vehicleType}
-            onChange={(e) => setVehicleType(e.target.value)}
-            className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700 dark:text-white"
-          >
-            <option value="">Select vehicle type</option>
-            <option value="sedan">Sedan</option>
-            <option value="suv">SUV</option>
-            <option value="van">Van</option>
-            <option value="luxury">Luxury</option>
-          </select>
-        </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Destination
+            </label>
+            <input
+              type="text"
+              value={destination}
+              onChange={(e) => setDestination(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700 dark:text-white"
+              placeholder="Address, zone name or lat,lng"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Stops
+            </label>
+            <textarea
+              value={stops}
+              onChange={(e) => setStops(e.target.value)}
+              rows={2}
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700 dark:text-white"
+              placeholder="One stop per line, in travel order"
+            />
+          </div>
 
-        <button
-          onClick={handleSimulate}
-          disabled={loading}
-          className="w-full bg-blue-600 text-white py-2 rounded-md hover:bg-blue-700 transition-colors flex items-center justify-center"
-        >
-          {loading ? (
-            <>
-              <Loader2 className="w-5 h-5 mr-2 animate-spin" />
-              Simulating...
-            </>
-          ) : (
-            'Simulate Price'
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Vehicle Type
+            </label>
+            <select
+              value={vehicleType}
+              onChange={(e) => setVehicleType(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700 dark:text-white"
+            >
+              <option value="">Select vehicle type</option>
+              <option value="sedan">Sedan</option>
+              <option value="suv">SUV</option>
+              <option value="van">Van</option>
+              <option value="luxury">Luxury</option>
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Pickup Time
+            </label>
+            <input
+              type="datetime-local"
+              value={pickupTime}
+              onChange={(e) => setPickupTime(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700 dark:text-white"
+            />
+            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+              Leave empty to quote for now
+            </p>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Promo Code
+              </label>
+              <input
+                type="text"
+                value={promoCode}
+                onChange={(e) => setPromoCode(e.target.value.toUpperCase())}
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700 dark:text-white font-mono"
+                placeholder="Optional"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Customer Email
+              </label>
+              <input
+                type="email"
+                value={customerEmail}
+                onChange={(e) => setCustomerEmail(e.target.value)}
+                disabled={!promoCode}
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700 dark:text-white disabled:opacity-50"
+                placeholder="For per-customer limits"
+              />
+            </div>
+          </div>
+
+          {scheduledSheets.length > 0 && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Compare With
+              </label>
+              <select
+                value={compareScheduleId}
+                onChange={(e) => setCompareScheduleId(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700 dark:text-white"
+              >
+                <option value="">Live pricing only</option>
+                {scheduledSheets.map(sheet => (
+                  <option key={sheet.id} value={sheet.id}>
+                    {sheet.name} (from {new Date(sheet.effective_from).toLocaleString()})
+                  </option>
+                ))}
+              </select>
+            </div>
           )}
-        </button>
-
-        {result && (
-          <div className="mt-6 space-y-4">
-            <div className="bg-gray-50 dark:bg-gray-700 p-4 rounded-lg">
-              <h4 className="font-medium text-lg mb-2 dark:text-white">
-                Simulation Results
-              </h4>
-              
-              <div className="space-y-2">
-                <div className="flex justify-between">
-                  <span className="text-gray-600 dark:text-gray-300">Distance:</span>
-                  <span className="font-medium dark:text-white">{result.distance} km</span>
-                </div>
+
+          <button
+            onClick={handleSimulate}
+            disabled={loading}
+            className="w-full bg-blue-600 text-white py-2 rounded-md hover:bg-blue-700 transition-colors flex items-center justify-center"
+          >
+            {loading ? (
+              <>
+                <Loader2 className="w-5 h-5 mr-2 animate-spin" />
+                Simulating...
+              </>
+            ) : (
+              'Simulate Price'
+            )}
+          </button>
+
+          {result && (
+            <div className="mt-6 space-y-4">
+              <div className="bg-gray-50 dark:bg-gray-700 p-4 rounded-lg">
+                <h4 className="font-medium text-lg mb-2 dark:text-white">
+                  Simulation Results
+                </h4>
                 
-                {result.isFixedRoute ? (
-                  <div className="text-blue-600 dark:text-blue-400 font-medium">
-                    Fixed route price applied
+                <div className="space-y-2">
+                  <div className="flex justify-between">
+                    <span className="text-gray-600 dark:text-gray-300">Distance:</span>
+                    <span className="font-medium dark:text-white">
+                      {result.distance} km
+                      {result.durationMin !== undefined && ` (~${result.durationMin} min)`}
+                    </span>
                   </div>
-                ) : (
-                  <>
-                    <div className="flex justify-between">
-                      <span className="text-gray-600 dark:text-gray-300">Base Price:</span>
-                      <span className="font-medium dark:text-white">€{result.basePrice.toFixed(2)}</span>
+                  {result.routingProvider && (
+                    <div className="flex justify-between text-sm">
+                      <span className="text-gray-600 dark:text-gray-300">Routing:</span>
+                      <span className="dark:text-white">{result.routingProvider.replace('_', ' ')}</span>
                     </div>
-                    <div className="flex justify-between">
-                      <span className="text-gray-600 dark:text-gray-300">Zone Multiplier:</span>
-                      <span className="font-medium dark:text-white">x{result.zoneMultiplier}</span>
+                  )}
+                  {result.origin && result.destination && (
+                    <div className="text-xs text-gray-500 dark:text-gray-400 space-y-1">
+                      <div>
+                        From: {result.origin.label} ({result.origin.lat.toFixed(4)}, {result.origin.lng.toFixed(4)})
+                      </div>
+                      {result.stops?.map((stop, index) => (
+                        <div key={index}>
+                          Stop {index + 1}: {stop.point
+                            ? `${stop.point.label} (${stop.point.lat.toFixed(4)}, ${stop.point.lng.toFixed(4)})`
+                            : stop.name}
+                          {stop.zone && ` - ${stop.zone.name}`}
+                        </div>
+                      ))}
+                      <div>
+                        To: {result.destination.label} ({result.destination.lat.toFixed(4)}, {result.destination.lng.toFixed(4)})
+                      </div>
+                    </div>
+                  )}
+                  {!result.isFixedRoute && (
+                    <div className="flex justify-between text-sm">
+                      <span className="text-gray-600 dark:text-gray-300">Zones:</span>
+                      <span className="dark:text-white">
+                        {result.pickupZone?.name || 'Outside zones'} → {result.dropoffZone?.name || 'Outside zones'}
+                      </span>
+                    </div>
+                  )}
+                  
+                  {result.isFixedRoute ? (
+                    <div className="text-blue-600 dark:text-blue-400 font-medium">
+                      Fixed route price applied
+                    </div>
+                  ) : (
+                    <>
+                      <div className="flex justify-between">
+                        <span className="text-gray-600 dark:text-gray-300">Base Price:</span>
+                        <span className="font-medium dark:text-white">€{result.basePrice.toFixed(2)}</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span className="text-gray-600 dark:text-gray-300">Zone Multiplier:</span>
+                        <span className="font-medium dark:text-white">x{result.zoneMultiplier}</span>
+                      </div>
+                    </>
+                  )}
+
+                  {result.pickupTime && (
+                    <div className="flex justify-between text-sm">
+                      <span className="text-gray-600 dark:text-gray-300">Pickup:</span>
+                      <span className="dark:text-white">
+                        {new Date(result.pickupTime).toLocaleString('en-GB', { timeZone: result.timeZone })}
+                        {result.timeZone && ` (${result.timeZone})`}
+                      </span>
+                    </div>
+                  )}
+                  {result.matchedRules && result.matchedRules.length > 0 && (
+                    <div className="text-sm">
+                      <span className="text-gray-600 dark:text-gray-300">Time-based rules:</span>
+                      <ul className="mt-1 space-y-1">
+                        {result.matchedRules.map(rule => (
+                          <li key={rule.id} className="flex justify-between">
+                            <span className="text-blue-600 dark:text-blue-400">
+                              {rule.name} ({rule.adjustment_type === 'multiplier' ? `x${rule.value}` : `+€${rule.value.toFixed(2)}`})
+                            </span>
+                            <span className="font-medium dark:text-white">€{rule.amount.toFixed(2)}</span>
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+                  {result.promo && (
+                    <div className="flex justify-between text-sm">
+                      <span className="text-gray-600 dark:text-gray-300">Promo code:</span>
+                      <span className={result.promo.valid ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}>
+                        <span className="font-mono">{result.promo.code}</span>
+                        {result.promo.valid ? ' applied' : ` - ${result.promo.message}`}
+                      </span>
+                    </div>
+                  )}
+                  
+                  <div className="border-t dark:border-gray-600 pt-2 mt-2">
+                    <div className="flex justify-between text-lg font-semibold">
+                      <span className="dark:text-white">Final Price:</span>
+                      <span className="text-green-600 dark:text-green-400">
+                        €{result.finalPrice.toFixed(2)}
+                      </span>
                     </div>
-                  </>
-                )}
-                
-                <div className="border-t dark:border-gray-600 pt-2 mt-2">
-                  <div className="flex justify-between text-lg font-semibold">
-                    <span className="dark:text-white">Final Price:</span>
-                    <span className="text-green-600 dark:text-green-400">
-                      €{result.finalPrice.toFixed(2)}
-                    </span>
                   </div>
                 </div>
-              </div>
 
-              <div className="mt-4">
-                <h5 className="font-medium mb-2 dark:text-white">Price Breakdown</h5>
-                <div className="space-y-1">
-                  {result.breakdown.map((item, index) => (
-                    <div key={index} className="flex justify-between text-sm">
-                      <span className="text-gray-600 dark:text-gray-300">{item.description}</span>
-                      <span className="font-medium dark:text-white">€{item.amount.toFixed(2)}</span>
+                <div className={`mt-4 ${result.comparison ? 'grid grid-cols-2 gap-4' : ''}`}>
+                  <div>
+                    <h5 className="font-medium mb-2 dark:text-white">
+                      {result.comparison ? 'Live Pricing' : 'Price Breakdown'}
+                    </h5>
+                    <div className="space-y-1">
+                      {result.breakdown.map((item, index) => (
+                        <div key={index} className="flex justify-between text-sm">
+                          <span className="text-gray-600 dark:text-gray-300">{item.description}</span>
+                          <span className="font-medium dark:text-white">€{item.amount.toFixed(2)}</span>
+                        </div>
+                      ))}
                     </div>
-                  ))}
+                  </div>
+
+                  {result.comparison && (
+                    <div className="border-l dark:border-gray-600 pl-4">
+                      <h5 className="font-medium mb-2 dark:text-white">{result.comparison.name}</h5>
+                      {result.comparison.error ? (
+                        <p className="text-sm text-red-600 dark:text-red-400">{result.comparison.error}</p>
+                      ) : (
+                        <>
+                          <div className="space-y-1">
+                            {result.comparison.breakdown?.map((item, index) => (
+                              <div key={index} className="flex justify-between text-sm">
+                                <span className="text-gray-600 dark:text-gray-300">{item.description}</span>
+                                <span className="font-medium dark:text-white">€{item.amount.toFixed(2)}</span>
+                              </div>
+                            ))}
+                          </div>
+                          <div className="border-t dark:border-gray-600 pt-2 mt-2 space-y-1">
+                            <div className="flex justify-between font-semibold">
+                              <span className="dark:text-white">Scheduled Price:</span>
+                              <span className="text-green-600 dark:text-green-400">
+                                €{result.comparison.finalPrice?.toFixed(2)}
+                              </span>
+                            </div>
+                            <div className="flex justify-between text-sm">
+                              <span className="text-gray-600 dark:text-gray-300">Difference:</span>
+                              <span className={
+                                (result.comparison.difference || 0) > 0
+                                  ? 'text-red-600 dark:text-red-400'
+                                  : 'text-green-600 dark:text-green-400'
+                              }>
+                                {(result.comparison.difference || 0) > 0 ? '+' : ''}€{result.comparison.difference?.toFixed(2)}
+                              </span>
+                            </div>
+                            <div className="text-xs text-gray-500 dark:text-gray-400">
+                              Effective from {new Date(result.comparison.effectiveFrom).toLocaleString()}
+                            </div>
+                          </div>
+                        </>
+                      )}
+                    </div>
+                  )}
                 </div>
               </div>
             </div>
-          </div>
-        )}
-      </div>
+          )}
+        </div>
+      )}
     </div>
   );
 }
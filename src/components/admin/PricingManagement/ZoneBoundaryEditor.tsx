@@ -0,0 +1,616 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  Map as MapIcon, Loader2, Save, Upload, Download, PenTool, Undo2, Check, X, Trash2,
+  ZoomIn, ZoomOut, Maximize, AlertTriangle
+} from 'lucide-react';
+import { useToast } from '../../ui/use-toast';
+import { Button } from '../../ui/button';
+import { Input } from '../../ui/input';
+import { adminApi } from '../../../lib/adminApi';
+import {
+  getZoneCenter,
+  parseLatLng,
+  type GeoJsonPosition,
+  type LatLng,
+  type ZoneBoundary,
+  type ZoneGeometry
+} from '../../../lib/geo';
+import { checkZoneCoverage, type ZoneCoverageIssue } from '../../../lib/zoneCoverage';
+import { buildZonesGeoJson, downloadGeoJson, parseZonesGeoJson } from '../../../lib/zoneGeoJson';
+
+interface ZoneBoundaryEditorProps {
+  onSaved?: () => void;
+}
+
+// Visible area: centre and the latitude span shown over the map height
+interface MapView {
+  lat: number;
+  lng: number;
+  span: number;
+}
+
+const MAP_WIDTH = 800;
+const MAP_HEIGHT = 500;
+const SNAP_DISTANCE = 10;
+const ZONE_COLORS = ['#2563eb', '#16a34a', '#9333ea', '#ea580c', '#0891b2', '#db2777', '#65a30d', '#ca8a04'];
+
+const ringsOf = (boundary: ZoneBoundary): GeoJsonPosition[][] =>
+  boundary.type === 'Polygon' ? boundary.coordinates : boundary.coordinates.flat();
+
+const vertexCount = (boundary: ZoneBoundary) =>
+  ringsOf(boundary).reduce((sum, ring) => sum + Math.max(ring.length - 1, 0), 0);
+
+// Fits the view around a set of positions, with some padding
+const fitView = (positions: GeoJsonPosition[]): MapView | null => {
+  if (positions.length === 0) return null;
+
+  const lngs = positions.map(([lng]) => lng);
+  const lats = positions.map(([, lat]) => lat);
+  const lat = (Math.min(...lats) + Math.max(...lats)) / 2;
+  const lng = (Math.min(...lngs) + Math.max(...lngs)) / 2;
+  const cosLat = Math.cos(lat * Math.PI / 180);
+  const span = Math.max(
+    Math.max(...lats) - Math.min(...lats),
+    (Math.max(...lngs) - Math.min(...lngs)) * cosLat * MAP_HEIGHT / MAP_WIDTH
+  );
+
+  return { lat, lng, span: Math.max(span * 1.15, 0.01) };
+};
+
+const ZoneBoundaryEditor: React.FC<ZoneBoundaryEditorProps> = ({ onSaved }) => {
+  const [zones, setZones] = useState<ZoneGeometry[]>([]);
+  const [savedZones, setSavedZones] = useState<ZoneGeometry[]>([]);
+  const [selectedZoneId, setSelectedZoneId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<GeoJsonPosition[] | null>(null);
+  const [view, setView] = useState<MapView | null>(null);
+  const [cursor, setCursor] = useState<LatLng | null>(null);
+  const [pointInput, setPointInput] = useState('');
+  const [importErrors, setImportErrors] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const svgRef = useRef<SVGSVGElement>(null);
+  const dragRef = useRef<{ x: number; y: number; view: MapView; moved: boolean } | null>(null);
+  const { toast } = useToast();
+
+  const issues = useMemo(() => checkZoneCoverage(zones), [zones]);
+
+  const changedZones = zones.filter(zone => {
+    const saved = savedZones.find(z => z.id === zone.id);
+    return JSON.stringify(saved?.boundary ?? null) !== JSON.stringify(zone.boundary ?? null);
+  });
+
+  const selectedZone = zones.find(zone => zone.id === selectedZoneId) || null;
+  const zoneName = (id: string) => zones.find(zone => zone.id === id)?.name || 'Unknown zone';
+  const zoneColor = (id: string) => ZONE_COLORS[Math.max(zones.findIndex(zone => zone.id === id), 0) % ZONE_COLORS.length];
+
+  const allPositions = (list: ZoneGeometry[]) =>
+    list.flatMap(zone => (zone.boundary ? ringsOf(zone.boundary).flat() : []));
+
+  const fetchZones = async () => {
+    setLoading(true);
+    try {
+      const data = await adminApi.fetchZoneBoundaries();
+      const loaded: ZoneGeometry[] = data.zones || [];
+      setZones(loaded);
+      setSavedZones(loaded);
+      setView(current => current || fitView(allPositions(loaded)));
+      setSelectedZoneId(current => current || loaded[0]?.id || null);
+    } catch (error: any) {
+      console.error('Error fetching zone boundaries:', error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Failed to load zone boundaries"
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchZones();
+  }, []);
+
+  // Map projection: equirectangular around the view centre
+  const scale = view ? MAP_HEIGHT / view.span : 1;
+  const cosLat = view ? Math.cos(view.lat * Math.PI / 180) : 1;
+
+  const toScreen = ([lng, lat]: GeoJsonPosition): [number, number] => view
+    ? [MAP_WIDTH / 2 + (lng - view.lng) * scale * cosLat, MAP_HEIGHT / 2 - (lat - view.lat) * scale]
+    : [0, 0];
+
+  const fromScreen = (x: number, y: number): GeoJsonPosition => view
+    ? [view.lng + (x - MAP_WIDTH / 2) / (scale * cosLat), view.lat - (y - MAP_HEIGHT / 2) / scale]
+    : [0, 0];
+
+  const eventPoint = (e: React.PointerEvent) => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    return {
+      x: (e.clientX - rect.left) * MAP_WIDTH / rect.width,
+      y: (e.clientY - rect.top) * MAP_HEIGHT / rect.height
+    };
+  };
+
+  const ringPath = (ring: GeoJsonPosition[]) =>
+    ring.map((position, index) => {
+      const [x, y] = toScreen(position);
+      return `${index === 0 ? 'M' : 'L'}${x.toFixed(1)},${y.toFixed(1)}`;
+    }).join(' ') + ' Z';
+
+  const boundaryPath = (boundary: ZoneBoundary) => ringsOf(boundary).map(ringPath).join(' ');
+
+  // Snap to an existing vertex nearby so neighbouring zones share their border exactly
+  const snap = (x: number, y: number): GeoJsonPosition => {
+    let nearest: GeoJsonPosition | null = null;
+    let nearestDistance = SNAP_DISTANCE;
+
+    for (const position of allPositions(zones)) {
+      const [px, py] = toScreen(position);
+      const distance = Math.hypot(px - x, py - y);
+      if (distance < nearestDistance) {
+        nearest = position;
+        nearestDistance = distance;
+      }
+    }
+
+    return nearest ? [nearest[0], nearest[1]] : fromScreen(x, y);
+  };
+
+  const updateBoundary = (zoneId: string, boundary: ZoneBoundary | null) => {
+    setZones(prev => prev.map(zone => (zone.id === zoneId ? { ...zone, boundary } : zone)));
+  };
+
+  const addDraftPoint = (position: GeoJsonPosition) => {
+    setDraft(prev => [...(prev || []), position]);
+    if (!view) setView({ lat: position[1], lng: position[0], span: 0.1 });
+  };
+
+  const handleAddPoint = () => {
+    const point = parseLatLng(pointInput);
+    if (!point) {
+      toast({
+        variant: "destructive",
+        title: "Invalid coordinate",
+        description: "Enter a point as lat,lng, e.g. 41.9028, 12.4964"
+      });
+      return;
+    }
+
+    addDraftPoint([point.lng, point.lat]);
+    setPointInput('');
+  };
+
+  const handleFinishDrawing = () => {
+    if (!selectedZoneId || !draft || draft.length < 3) return;
+
+    updateBoundary(selectedZoneId, { type: 'Polygon', coordinates: [[...draft, draft[0]]] });
+    setDraft(null);
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (!view) return;
+    const { x, y } = eventPoint(e);
+    dragRef.current = { x, y, view, moved: false };
+    e.currentTarget.setPointerCapture(e.pointerId);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (!view) return;
+    const { x, y } = eventPoint(e);
+    const [lng, lat] = fromScreen(x, y);
+    setCursor({ lat, lng });
+
+    const drag = dragRef.current;
+    if (!drag) return;
+
+    const dx = x - drag.x;
+    const dy = y - drag.y;
+    if (!drag.moved && Math.hypot(dx, dy) < 3) return;
+
+    // Drag to pan
+    drag.moved = true;
+    const dragScale = MAP_HEIGHT / drag.view.span;
+    setView({
+      ...drag.view,
+      lng: drag.view.lng - dx / (dragScale * Math.cos(drag.view.lat * Math.PI / 180)),
+      lat: drag.view.lat + dy / dragScale
+    });
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<SVGSVGElement>) => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+
+    // A click without dragging adds a point while drawing
+    if (drag && !drag.moved && draft !== null) {
+      const { x, y } = eventPoint(e);
+      addDraftPoint(snap(x, y));
+    }
+  };
+
+  const zoom = (factor: number) => {
+    setView(prev => (prev ? { ...prev, span: prev.span * factor } : prev));
+  };
+
+  const focusIssue = (issue: ZoneCoverageIssue) => {
+    setSelectedZoneId(issue.zoneIds[0] || selectedZoneId);
+    setView(prev => ({
+      lat: issue.point.lat,
+      lng: issue.point.lng,
+      span: Math.min(prev?.span || 0.05, 0.05)
+    }));
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const result = parseZonesGeoJson(await file.text(), zones, selectedZoneId);
+    setImportErrors(result.errors);
+
+    const imported = Object.keys(result.boundaries);
+    if (result.errors.length > 0 || imported.length === 0) return;
+
+    const next = zones.map(zone =>
+      result.boundaries[zone.id] ? { ...zone, boundary: result.boundaries[zone.id] } : zone
+    );
+    setZones(next);
+    setDraft(null);
+    setView(fitView(allPositions(next)));
+    toast({
+      title: "Boundaries Imported",
+      description: `${imported.length} zone boundar${imported.length === 1 ? 'y' : 'ies'} imported. Review and save to apply.`
+    });
+  };
+
+  const handleExport = () => {
+    downloadGeoJson(buildZonesGeoJson(zones), 'zone_boundaries.geojson');
+  };
+
+  const handleSave = async () => {
+    if (changedZones.length === 0) return;
+
+    setSaving(true);
+    try {
+      const result = await adminApi.updateZoneBoundaries(
+        changedZones.map(zone => ({
+          id: zone.id,
+          boundary: zone.boundary as Record<string, unknown> | null
+        }))
+      );
+
+      const gaps = (result.issues || []).filter((issue: ZoneCoverageIssue) => issue.type === 'gap').length;
+      toast({
+        title: "Boundaries Saved",
+        description: gaps > 0
+          ? `${result.updated} zones updated. ${gaps} gap${gaps === 1 ? '' : 's'} between zones remain.`
+          : `${result.updated} zones updated.`
+      });
+
+      await fetchZones();
+      onSaved?.();
+    } catch (error: any) {
+      console.error('Error saving zone boundaries:', error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Failed to save zone boundaries"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center h-64">
+        <Loader2 className="w-8 h-8 animate-spin text-blue-600 dark:text-blue-400" />
+      </div>
+    );
+  }
+
+  const overlaps = issues.filter(issue => issue.type === 'overlap');
+  const gaps = issues.filter(issue => issue.type === 'gap');
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 border dark:border-gray-700">
+      <div className="flex justify-between items-center mb-4">
+        <div>
+          <h3 className="text-lg font-medium flex items-center dark:text-white">
+            <MapIcon className="w-5 h-5 mr-2 text-blue-600 dark:text-blue-400" />
+            Zone Boundaries
+          </h3>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Boundaries decide which zone, and so which multiplier, applies to an address.
+          </p>
+        </div>
+        <div className="flex space-x-2">
+          <label className="inline-flex items-center px-3 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-md cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-700 dark:text-gray-300">
+            <Upload className="w-4 h-4 mr-2" />
+            Import GeoJSON
+            <input
+              type="file"
+              accept=".geojson,.json,application/geo+json,application/json"
+              onChange={handleImport}
+              className="hidden"
+            />
+          </label>
+          <Button onClick={handleExport} variant="outline" size="sm" disabled={!zones.some(zone => zone.boundary)}>
+            <Download className="w-4 h-4 mr-2" />
+            Export GeoJSON
+          </Button>
+          <Button onClick={handleSave} size="sm" disabled={saving || draft !== null || changedZones.length === 0}>
+            {saving ? (
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            ) : (
+              <Save className="w-4 h-4 mr-2" />
+            )}
+            Save {changedZones.length > 0 ? `(${changedZones.length})` : ''}
+          </Button>
+        </div>
+      </div>
+
+      {importErrors.length > 0 && (
+        <div className="mb-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-md p-3">
+          <h4 className="flex items-center text-sm font-medium text-red-800 dark:text-red-300 mb-2">
+            <AlertTriangle className="w-4 h-4 mr-2" />
+            Nothing was imported. Fix the file and import it again.
+          </h4>
+          <ul className="max-h-32 overflow-y-auto text-sm text-red-700 dark:text-red-300 space-y-1">
+            {importErrors.map((error, index) => (
+              <li key={index}>{error}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-4 gap-4">
+        {/* Zone list */}
+        <div className="space-y-1 max-h-[560px] overflow-y-auto">
+          {zones.map(zone => {
+            const zoneIssues = issues.filter(issue => issue.zoneIds.includes(zone.id)).length;
+            const changed = changedZones.some(z => z.id === zone.id);
+
+            return (
+              <button
+                key={zone.id}
+                onClick={() => {
+                  setSelectedZoneId(zone.id);
+                  setDraft(null);
+                }}
+                className={`w-full text-left px-3 py-2 rounded-md text-sm border ${
+                  zone.id === selectedZoneId
+                    ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/30'
+                    : 'border-transparent hover:bg-gray-50 dark:hover:bg-gray-700'
+                }`}
+              >
+                <div className="flex items-center justify-between">
+                  <span className="flex items-center dark:text-white">
+                    <span className="w-3 h-3 rounded-sm mr-2" style={{ backgroundColor: zoneColor(zone.id) }} />
+                    {zone.name}
+                    {changed && <span className="ml-1 text-blue-600 dark:text-blue-400">*</span>}
+                  </span>
+                  {zoneIssues > 0 && (
+                    <AlertTriangle className="w-4 h-4 text-amber-500" />
+                  )}
+                </div>
+                <div className="text-xs text-gray-500 dark:text-gray-400 ml-5">
+                  {zone.boundary ? `${vertexCount(zone.boundary)} points` : 'No boundary'}
+                </div>
+              </button>
+            );
+          })}
+          {zones.length === 0 && (
+            <p className="text-sm text-gray-500 dark:text-gray-400">No zones found.</p>
+          )}
+        </div>
+
+        {/* Map */}
+        <div className="lg:col-span-3 space-y-3">
+          <div className="flex flex-wrap items-center gap-2">
+            {draft === null ? (
+              <>
+                <Button onClick={() => setDraft([])} variant="outline" size="sm" disabled={!selectedZone}>
+                  <PenTool className="w-4 h-4 mr-2" />
+                  {selectedZone?.boundary ? 'Redraw Boundary' : 'Draw Boundary'}
+                </Button>
+                <Button
+                  onClick={() => selectedZone && updateBoundary(selectedZone.id, null)}
+                  variant="outline"
+                  size="sm"
+                  disabled={!selectedZone?.boundary}
+                  className="text-red-600 hover:text-red-700 dark:text-red-400"
+                >
+                  <Trash2 className="w-4 h-4 mr-2" />
+                  Remove Boundary
+                </Button>
+              </>
+            ) : (
+              <>
+                <Button onClick={handleFinishDrawing} size="sm" disabled={draft.length < 3}>
+                  <Check className="w-4 h-4 mr-2" />
+                  Finish ({draft.length} points)
+                </Button>
+                <Button onClick={() => setDraft(prev => (prev || []).slice(0, -1))} variant="outline" size="sm" disabled={draft.length === 0}>
+                  <Undo2 className="w-4 h-4 mr-2" />
+                  Undo Point
+                </Button>
+                <Button onClick={() => setDraft(null)} variant="outline" size="sm">
+                  <X className="w-4 h-4 mr-2" />
+                  Cancel
+                </Button>
+                <div className="flex items-center space-x-2">
+                  <Input
+                    value={pointInput}
+                    onChange={e => setPointInput(e.target.value)}
+                    onKeyDown={e => e.key === 'Enter' && handleAddPoint()}
+                    placeholder="lat, lng"
+                    className="w-44"
+                  />
+                  <Button onClick={handleAddPoint} variant="outline" size="sm">
+                    Add Point
+                  </Button>
+                </div>
+              </>
+            )}
+            <div className="flex items-center space-x-1 ml-auto">
+              <Button onClick={() => zoom(0.5)} variant="ghost" size="sm" disabled={!view} title="Zoom in">
+                <ZoomIn className="w-4 h-4" />
+              </Button>
+              <Button onClick={() => zoom(2)} variant="ghost" size="sm" disabled={!view} title="Zoom out">
+                <ZoomOut className="w-4 h-4" />
+              </Button>
+              <Button
+                onClick={() => setView(fitView(selectedZone?.boundary ? ringsOf(selectedZone.boundary).flat() : allPositions(zones)) || view)}
+                variant="ghost"
+                size="sm"
+                title="Fit selected zone"
+              >
+                <Maximize className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+
+          {draft !== null && (
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              Click the map or enter coordinates to add points to {selectedZone?.name}. Points snap to nearby
+              corners of other zones so shared borders line up. Drag to pan.
+            </p>
+          )}
+
+          <div className="relative border dark:border-gray-700 rounded-md overflow-hidden bg-gray-50 dark:bg-gray-900">
+            {view ? (
+              <svg
+                ref={svgRef}
+                viewBox={`0 0 ${MAP_WIDTH} ${MAP_HEIGHT}`}
+                className={`w-full h-auto select-none ${draft !== null ? 'cursor-crosshair' : 'cursor-move'}`}
+                onPointerDown={handlePointerDown}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                onPointerLeave={() => setCursor(null)}
+              >
+                {zones.map(zone => zone.boundary && (
+                  <path
+                    key={zone.id}
+                    d={boundaryPath(zone.boundary)}
+                    fill={zoneColor(zone.id)}
+                    fillOpacity={zone.id === selectedZoneId ? 0.35 : 0.15}
+                    fillRule="evenodd"
+                    stroke={zoneColor(zone.id)}
+                    strokeWidth={zone.id === selectedZoneId ? 2.5 : 1.5}
+                    strokeDasharray={zone.id === selectedZoneId && draft !== null ? '6 4' : undefined}
+                  />
+                ))}
+
+                {zones.map(zone => {
+                  const center = zone.boundary ? getZoneCenter({ ...zone, center_lat: null, center_lng: null }) : null;
+                  if (!center) return null;
+                  const [x, y] = toScreen([center.lng, center.lat]);
+                  return (
+                    <text
+                      key={`label-${zone.id}`}
+                      x={x}
+                      y={y}
+                      textAnchor="middle"
+                      className="fill-gray-800 dark:fill-gray-200 text-xs pointer-events-none"
+                    >
+                      {zone.name}
+                    </text>
+                  );
+                })}
+
+                {draft && draft.length > 0 && (
+                  <>
+                    <polyline
+                      points={draft.map(position => toScreen(position).join(',')).join(' ')}
+                      fill="none"
+                      stroke="#dc2626"
+                      strokeWidth={2}
+                    />
+                    {draft.map((position, index) => {
+                      const [x, y] = toScreen(position);
+                      return <circle key={index} cx={x} cy={y} r={4} fill="#dc2626" />;
+                    })}
+                  </>
+                )}
+
+                {issues.map((issue, index) => {
+                  const [x, y] = toScreen([issue.point.lng, issue.point.lat]);
+                  return (
+                    <circle
+                      key={`issue-${index}`}
+                      cx={x}
+                      cy={y}
+                      r={6}
+                      fill="none"
+                      stroke={issue.type === 'overlap' ? '#dc2626' : '#f59e0b'}
+                      strokeWidth={2.5}
+                    />
+                  );
+                })}
+              </svg>
+            ) : (
+              <div className="flex flex-col items-center justify-center h-64 text-sm text-gray-500 dark:text-gray-400 p-6 text-center">
+                <MapIcon className="w-8 h-8 mb-2" />
+                No zone has a boundary yet. Import a GeoJSON file, or select a zone, choose Draw Boundary
+                and enter the first point's coordinates.
+              </div>
+            )}
+            {cursor && (
+              <div className="absolute bottom-2 left-2 px-2 py-1 text-xs bg-white/80 dark:bg-gray-800/80 rounded dark:text-gray-300">
+                {cursor.lat.toFixed(5)}, {cursor.lng.toFixed(5)}
+              </div>
+            )}
+          </div>
+
+          {/* Coverage issues */}
+          {issues.length > 0 ? (
+            <div className="border dark:border-gray-700 rounded-md divide-y dark:divide-gray-700">
+              {overlaps.map((issue, index) => (
+                <button
+                  key={`overlap-${index}`}
+                  onClick={() => focusIssue(issue)}
+                  className="w-full text-left p-2 text-sm flex items-center hover:bg-gray-50 dark:hover:bg-gray-700"
+                >
+                  <AlertTriangle className="w-4 h-4 mr-2 text-red-600" />
+                  <span className="dark:text-white">
+                    {issue.zoneIds.map(zoneName).join(' and ')} overlap
+                  </span>
+                </button>
+              ))}
+              {gaps.map((issue, index) => (
+                <button
+                  key={`gap-${index}`}
+                  onClick={() => focusIssue(issue)}
+                  className="w-full text-left p-2 text-sm flex items-center hover:bg-gray-50 dark:hover:bg-gray-700"
+                >
+                  <AlertTriangle className="w-4 h-4 mr-2 text-amber-500" />
+                  <span className="dark:text-white">
+                    {issue.areaKm2 !== undefined
+                      ? `Uncovered area of about ${issue.areaKm2} km² surrounded by ${issue.zoneIds.map(zoneName).join(', ')}`
+                      : `Gap between ${issue.zoneIds.map(zoneName).join(' and ')}`}
+                  </span>
+                </button>
+              ))}
+            </div>
+          ) : (
+            zones.some(zone => zone.boundary) && (
+              <p className="text-sm text-green-600 dark:text-green-400 flex items-center">
+                <Check className="w-4 h-4 mr-2" />
+                No overlaps or gaps between zones
+              </p>
+            )
+          )}
+          {overlaps.length > 0 && (
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              Overlapping boundaries cannot be saved. Gaps are allowed; addresses in them get no zone multiplier.
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ZoneBoundaryEditor;
\ No newline at end of file
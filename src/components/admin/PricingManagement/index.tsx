@@ -1,9 +1,12 @@
 import React, { useState, useEffect } from 'react';
-import { RefreshCw, Loader2, PlusCircle, Trash2, Save, AlertTriangle } from 'lucide-react';
+import { RefreshCw, Loader2, PlusCircle, Trash2, Save, AlertTriangle, CalendarClock, XCircle, Download, Upload, ChevronDown, ChevronRight } from 'lucide-react';
 import { useToast } from '../../ui/use-toast';
 import PricingSimulator from './PricingSimulator';
 import PricingChangeLogs from './PricingChangeLogs';
+import PricingCsvImport from './PricingCsvImport';
+import ZoneBoundaryEditor from './ZoneBoundaryEditor';
 import { adminApi } from '../../../lib/adminApi';
+import { buildPricingCsv, downloadCsv, PRICING_CSV_FILE_NAMES, type PricingCsvTable } from '../../../lib/pricingCsv';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -38,12 +41,47 @@ interface ZoneMultiplier {
   multiplier: number;
 }
 
+interface FixedRouteStop {
+  name?: string;
+  zone_id?: string | null;
+  add_on: number;
+}
+
 interface FixedRoute {
   id: string;
   origin_name: string;
   destination_name: string;
   vehicle_type: string;
   fixed_price: number;
+  origin_zone_id: string | null;
+  destination_zone_id: string | null;
+  is_bidirectional: boolean;
+  stops: FixedRouteStop[];
+}
+
+interface PricingRule {
+  id: string;
+  name: string;
+  adjustment_type: 'multiplier' | 'flat';
+  value: number;
+  start_time: string | null;
+  end_time: string | null;
+  weekdays: number[] | null;
+  start_date: string | null;
+  end_date: string | null;
+  vehicle_type: string | null;
+  zone_id: string | null;
+  is_active: boolean;
+}
+
+interface PricingSchedule {
+  id: string;
+  name: string;
+  effective_from: string;
+  status: 'pending' | 'applied' | 'cancelled' | 'failed';
+  error: string | null;
+  created_at: string;
+  applied_at: string | null;
 }
 
 interface Zone {
@@ -51,12 +89,18 @@ interface Zone {
   name: string;
 }
 
+const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
 const PricingManagement: React.FC = () => {
   // State for data
   const [vehiclePrices, setVehiclePrices] = useState<VehicleBasePrice[]>([]);
   const [zoneMultipliers, setZoneMultipliers] = useState<ZoneMultiplier[]>([]);
   const [fixedRoutes, setFixedRoutes] = useState<FixedRoute[]>([]);
+  const [pricingRules, setPricingRules] = useState<PricingRule[]>([]);
+  const [deletedPricingRuleIds, setDeletedPricingRuleIds] = useState<string[]>([]);
+  const [pricingSchedules, setPricingSchedules] = useState<PricingSchedule[]>([]);
   const [zones, setZones] = useState<Zone[]>([]);
+  const [expandedRouteId, setExpandedRouteId] = useState<string | null>(null);
   
   // State for loading and saving
   const [loading, setLoading] = useState(true);
@@ -67,6 +111,11 @@ const PricingManagement: React.FC = () => {
   
   // State for confirmation dialog
   const [showConfirmation, setShowConfirmation] = useState(false);
+  const [applyMode, setApplyMode] = useState<'now' | 'schedule'>('now');
+  const [scheduleName, setScheduleName] = useState('');
+  const [scheduleEffectiveFrom, setScheduleEffectiveFrom] = useState('');
+  const [cancellingScheduleId, setCancellingScheduleId] = useState<string | null>(null);
+  const [showCsvImport, setShowCsvImport] = useState(false);
   
   // Toast notifications
   const { toast } = useToast();
@@ -90,6 +139,9 @@ const PricingManagement: React.FC = () => {
       setVehiclePrices(pricingData.vehiclePrices || []);
       setZoneMultipliers(pricingData.zoneMultipliers || []);
       setFixedRoutes(pricingData.fixedRoutes || []);
+      setPricingRules(pricingData.pricingRules || []);
+      setDeletedPricingRuleIds([]);
+      setPricingSchedules(pricingData.pricingSchedules || []);
       
       // Fetch zones list
       // Note: Zones are used for dropdowns when selecting zone_id
@@ -143,6 +195,12 @@ const PricingManagement: React.FC = () => {
     }
   };
 
+  // Export one pricing table as it is shown, including unsaved edits
+  const exportTable = (table: PricingCsvTable) => {
+    const csv = buildPricingCsv(table, { vehiclePrices, zoneMultipliers, fixedRoutes }, zones);
+    downloadCsv(csv, `${PRICING_CSV_FILE_NAMES[table]}_${new Date().toISOString().slice(0, 10)}.csv`);
+  };
+
   // Add new vehicle price
   const addVehiclePrice = () => {
     setVehiclePrices(prev => [...prev, {
@@ -189,7 +247,30 @@ const PricingManagement: React.FC = () => {
       origin_name: '',
       destination_name: '',
       vehicle_type: vehiclePrices[0].vehicle_type,
-      fixed_price: 0
+      fixed_price: 0,
+      origin_zone_id: null,
+      destination_zone_id: null,
+      is_bidirectional: false,
+      stops: []
+    }]);
+    setHasChanges(true);
+  };
+
+  // Add new time-based pricing rule
+  const addPricingRule = () => {
+    setPricingRules(prev => [...prev, {
+      id: 'new_' + Date.now(),
+      name: '',
+      adjustment_type: 'multiplier',
+      value: 1.0,
+      start_time: null,
+      end_time: null,
+      weekdays: null,
+      start_date: null,
+      end_date: null,
+      vehicle_type: null,
+      zone_id: null,
+      is_active: true
     }]);
     setHasChanges(true);
   };
@@ -210,6 +291,14 @@ const PricingManagement: React.FC = () => {
     setHasChanges(true);
   };
 
+  const deletePricingRule = (id: string) => {
+    setPricingRules(prev => prev.filter(r => r.id !== id));
+    if (!id.startsWith('new_')) {
+      setDeletedPricingRuleIds(prev => [...prev, id]);
+    }
+    setHasChanges(true);
+  };
+
   // Update handlers
   const updateVehiclePrice = (id: string, field: keyof VehicleBasePrice, value: any) => {
     setVehiclePrices(prev => prev.map(p => 
@@ -243,8 +332,102 @@ const PricingManagement: React.FC = () => {
     setHasChanges(true);
   };
 
+  // Stops are edited as a list on the route row
+  const updateFixedRouteStops = (route: FixedRoute, update: (stops: FixedRouteStop[]) => FixedRouteStop[]) => {
+    updateFixedRoute(route.id, 'stops', update(route.stops || []));
+  };
+
+  const updatePricingRule = (id: string, field: keyof PricingRule, value: any) => {
+    setPricingRules(prev => prev.map(r => 
+      r.id === id ? { ...r, [field]: value } : r
+    ));
+    setHasChanges(true);
+  };
+
+  // Toggle a weekday on a rule; an empty selection means every day
+  const togglePricingRuleWeekday = (rule: PricingRule, day: number) => {
+    const current = rule.weekdays || [];
+    const weekdays = current.includes(day)
+      ? current.filter(d => d !== day)
+      : [...current, day].sort();
+    updatePricingRule(rule.id, 'weekdays', weekdays.length ? weekdays : null);
+  };
+
+  // Stage the edited tables as a full price sheet instead of applying them now
+  const scheduleChanges = async () => {
+    if (!scheduleName.trim() || !scheduleEffectiveFrom) {
+      toast({
+        variant: "destructive",
+        title: "Missing Information",
+        description: "Please enter a name and an effective date for the scheduled changes"
+      });
+      return;
+    }
+
+    try {
+      setSaving(true);
+      
+      await adminApi.schedulePricingChanges(
+        scheduleName.trim(),
+        new Date(scheduleEffectiveFrom).toISOString(),
+        { vehiclePrices, zoneMultipliers, fixedRoutes, pricingRules }
+      );
+      
+      toast({
+        title: "Success",
+        description: `Price sheet scheduled for ${new Date(scheduleEffectiveFrom).toLocaleString()}`
+      });
+      
+      // Reload the live sheet; the staged one goes live automatically
+      await fetchData();
+      setHasChanges(false);
+      setShowConfirmation(false);
+      setApplyMode('now');
+      setScheduleName('');
+      setScheduleEffectiveFrom('');
+      
+    } catch (error: any) {
+      console.error('Error scheduling changes:', error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Failed to schedule changes"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const cancelSchedule = async (scheduleId: string) => {
+    setCancellingScheduleId(scheduleId);
+    try {
+      await adminApi.cancelPricingSchedule(scheduleId);
+      setPricingSchedules(prev => prev.map(s => 
+        s.id === scheduleId ? { ...s, status: 'cancelled' } : s
+      ));
+      toast({
+        title: "Success",
+        description: "Scheduled price sheet cancelled"
+      });
+    } catch (error: any) {
+      console.error('Error cancelling schedule:', error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Failed to cancel scheduled price sheet"
+      });
+    } finally {
+      setCancellingScheduleId(null);
+    }
+  };
+
   // Save all changes
   const saveChanges = async () => {
+    if (applyMode === 'schedule') {
+      await scheduleChanges();
+      return;
+    }
+
     try {
       setSaving(true);
       
@@ -252,7 +435,9 @@ const PricingManagement: React.FC = () => {
       const result = await adminApi.updatePricingData({
         vehiclePrices,
         zoneMultipliers,
-        fixedRoutes
+        fixedRoutes,
+        pricingRules,
+        deletedPricingRuleIds
       });
       
       if (!result || result.error) {
@@ -298,10 +483,16 @@ const PricingManagement: React.FC = () => {
             <div className="flex items-center">
               <h3 className="text-lg font-medium dark:text-white">Vehicle Base Prices</h3>
             </div>
-            <Button onClick={addVehiclePrice} variant="outline" size="sm">
-              <PlusCircle className="w-4 h-4 mr-2" />
-              Add Vehicle
-            </Button>
+            <div className="flex space-x-2">
+              <Button onClick={() => exportTable('vehiclePrices')} variant="outline" size="sm">
+                <Download className="w-4 h-4 mr-2" />
+                Export CSV
+              </Button>
+              <Button onClick={addVehiclePrice} variant="outline" size="sm">
+                <PlusCircle className="w-4 h-4 mr-2" />
+                Add Vehicle
+              </Button>
+            </div>
           </div>
           
           <Table>
@@ -353,10 +544,16 @@ const PricingManagement: React.FC = () => {
             <div className="flex items-center">
               <h3 className="text-lg font-medium dark:text-white">Zone Multipliers</h3>
             </div>
-            <Button onClick={addZoneMultiplier} variant="outline" size="sm">
-              <PlusCircle className="w-4 h-4 mr-2" />
-              Add Multiplier
-            </Button>
+            <div className="flex space-x-2">
+              <Button onClick={() => exportTable('zoneMultipliers')} variant="outline" size="sm">
+                <Download className="w-4 h-4 mr-2" />
+                Export CSV
+              </Button>
+              <Button onClick={addZoneMultiplier} variant="outline" size="sm">
+                <PlusCircle className="w-4 h-4 mr-2" />
+                Add Multiplier
+              </Button>
+            </div>
           </div>
           
           <Table>
@@ -412,66 +609,340 @@ const PricingManagement: React.FC = () => {
             <div className="flex items-center">
               <h3 className="text-lg font-medium dark:text-white">Fixed Routes</h3>
             </div>
-            <Button onClick={addFixedRoute} variant="outline" size="sm">
-              <PlusCircle className="w-4 h-4 mr-2" />
-              Add Route
-            </Button>
+            <div className="flex space-x-2">
+              <Button onClick={() => exportTable('fixedRoutes')} variant="outline" size="sm">
+                <Download className="w-4 h-4 mr-2" />
+                Export CSV
+              </Button>
+              <Button onClick={addFixedRoute} variant="outline" size="sm">
+                <PlusCircle className="w-4 h-4 mr-2" />
+                Add Route
+              </Button>
+            </div>
           </div>
           
           <Table>
             <TableHeader>
               <TableRow>
+                <TableHead className="w-8"></TableHead>
                 <TableHead>Origin</TableHead>
                 <TableHead>Destination</TableHead>
                 <TableHead>Vehicle Type</TableHead>
                 <TableHead>Fixed Price</TableHead>
+                <TableHead>Both Ways</TableHead>
                 <TableHead className="w-20">Actions</TableHead>
               </TableRow>
             </TableHeader>
             <TableBody>
               {fixedRoutes.map(route => (
-                <TableRow key={route.id}>
+                <React.Fragment key={route.id}>
+                  <TableRow>
+                    <TableCell>
+                      <button
+                        onClick={() => setExpandedRouteId(expandedRouteId === route.id ? null : route.id)}
+                        className="text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+                        title="Stops"
+                      >
+                        {expandedRouteId === route.id ? (
+                          <ChevronDown className="w-4 h-4" />
+                        ) : (
+                          <ChevronRight className="w-4 h-4" />
+                        )}
+                      </button>
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        value={route.origin_name}
+                        onChange={e => updateFixedRoute(route.id, 'origin_name', e.target.value)}
+                        placeholder="e.g., Airport"
+                      />
+                      <select
+                        value={route.origin_zone_id || ''}
+                        onChange={e => updateFixedRoute(route.id, 'origin_zone_id', e.target.value || null)}
+                        className="mt-1 w-full px-3 py-1 text-sm rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                      >
+                        <option value="">Match by name</option>
+                        {zones.map(zone => (
+                          <option key={zone.id} value={zone.id}>Zone: {zone.name}</option>
+                        ))}
+                      </select>
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        value={route.destination_name}
+                        onChange={e => updateFixedRoute(route.id, 'destination_name', e.target.value)}
+                        placeholder="e.g., City Center"
+                      />
+                      <select
+                        value={route.destination_zone_id || ''}
+                        onChange={e => updateFixedRoute(route.id, 'destination_zone_id', e.target.value || null)}
+                        className="mt-1 w-full px-3 py-1 text-sm rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                      >
+                        <option value="">Match by name</option>
+                        {zones.map(zone => (
+                          <option key={zone.id} value={zone.id}>Zone: {zone.name}</option>
+                        ))}
+                      </select>
+                    </TableCell>
+                    <TableCell>
+                      <select
+                        value={route.vehicle_type}
+                        onChange={e => updateFixedRoute(route.id, 'vehicle_type', e.target.value)}
+                        className="w-full px-3 py-1 rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                      >
+                        {vehiclePrices.map(vehicle => (
+                          <option key={vehicle.id} value={vehicle.vehicle_type}>
+                            {vehicle.vehicle_type}
+                          </option>
+                        ))}
+                      </select>
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        type="number"
+                        value={route.fixed_price}
+                        onChange={e => updateFixedRoute(route.id, 'fixed_price', parseFloat(e.target.value))}
+                        min="0"
+                        step="0.01"
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <input
+                        type="checkbox"
+                        checked={!!route.is_bidirectional}
+                        onChange={e => updateFixedRoute(route.id, 'is_bidirectional', e.target.checked)}
+                        className="h-4 w-4"
+                        title="Also match trips from the destination to the origin"
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => deleteFixedRoute(route.id)}
+                        className="text-red-600 hover:text-red-700 dark:text-red-400 dark:hover:text-red-300"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                  {expandedRouteId === route.id && (
+                    <TableRow>
+                      <TableCell></TableCell>
+                      <TableCell colSpan={6}>
+                        <div className="space-y-2">
+                          <p className="text-sm text-gray-500 dark:text-gray-400">
+                            Stops allowed on this route. Each stop on a trip must match one of these, and its
+                            add-on is charged on top of the fixed price.
+                          </p>
+                          {(route.stops || []).map((stop, index) => (
+                            <div key={index} className="flex items-center space-x-2">
+                              <Input
+                                value={stop.name || ''}
+                                onChange={e => updateFixedRouteStops(route, stops =>
+                                  stops.map((s, i) => (i === index ? { ...s, name: e.target.value } : s))
+                                )}
+                                placeholder="Stop name"
+                              />
+                              <select
+                                value={stop.zone_id || ''}
+                                onChange={e => updateFixedRouteStops(route, stops =>
+                                  stops.map((s, i) => (i === index ? { ...s, zone_id: e.target.value || null } : s))
+                                )}
+                                className="px-3 py-1 rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                              >
+                                <option value="">Match by name</option>
+                                {zones.map(zone => (
+                                  <option key={zone.id} value={zone.id}>Zone: {zone.name}</option>
+                                ))}
+                              </select>
+                              <Input
+                                type="number"
+                                value={stop.add_on}
+                                onChange={e => updateFixedRouteStops(route, stops =>
+                                  stops.map((s, i) => (i === index ? { ...s, add_on: parseFloat(e.target.value) } : s))
+                                )}
+                                min="0"
+                                step="0.01"
+                                className="w-32"
+                                title="Add-on"
+                              />
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => updateFixedRouteStops(route, stops => stops.filter((_, i) => i !== index))}
+                                className="text-red-600 hover:text-red-700 dark:text-red-400 dark:hover:text-red-300"
+                              >
+                                <Trash2 className="w-4 h-4" />
+                              </Button>
+                            </div>
+                          ))}
+                          <Button
+                            onClick={() => updateFixedRouteStops(route, stops => [...stops, { name: '', zone_id: null, add_on: 0 }])}
+                            variant="outline"
+                            size="sm"
+                          >
+                            <PlusCircle className="w-4 h-4 mr-2" />
+                            Add Stop
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </React.Fragment>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+
+        {/* Time-Based Pricing Rules */}
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 border dark:border-gray-700">
+          <div className="flex justify-between items-center mb-4">
+            <div>
+              <h3 className="text-lg font-medium dark:text-white">Time-Based Rules</h3>
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                Surcharges by pickup time, weekday or date range. Times use the platform timezone;
+                a window ending before it starts runs past midnight.
+              </p>
+            </div>
+            <Button onClick={addPricingRule} variant="outline" size="sm">
+              <PlusCircle className="w-4 h-4 mr-2" />
+              Add Rule
+            </Button>
+          </div>
+          
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Time Window</TableHead>
+                <TableHead>Days</TableHead>
+                <TableHead>Date Range</TableHead>
+                <TableHead>Adjustment</TableHead>
+                <TableHead>Applies To</TableHead>
+                <TableHead>Active</TableHead>
+                <TableHead className="w-20">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {pricingRules.map(rule => (
+                <TableRow key={rule.id}>
                   <TableCell>
                     <Input
-                      value={route.origin_name}
-                      onChange={e => updateFixedRoute(route.id, 'origin_name', e.target.value)}
-                      placeholder="e.g., Airport"
+                      value={rule.name}
+                      onChange={e => updatePricingRule(rule.id, 'name', e.target.value)}
+                      placeholder="e.g., Night surcharge"
                     />
                   </TableCell>
                   <TableCell>
-                    <Input
-                      value={route.destination_name}
-                      onChange={e => updateFixedRoute(route.id, 'destination_name', e.target.value)}
-                      placeholder="e.g., City Center"
-                    />
+                    <div className="flex items-center space-x-1">
+                      <Input
+                        type="time"
+                        value={rule.start_time?.slice(0, 5) || ''}
+                        onChange={e => updatePricingRule(rule.id, 'start_time', e.target.value || null)}
+                      />
+                      <span className="text-gray-500 dark:text-gray-400">-</span>
+                      <Input
+                        type="time"
+                        value={rule.end_time?.slice(0, 5) || ''}
+                        onChange={e => updatePricingRule(rule.id, 'end_time', e.target.value || null)}
+                      />
+                    </div>
                   </TableCell>
                   <TableCell>
-                    <select
-                      value={route.vehicle_type}
-                      onChange={e => updateFixedRoute(route.id, 'vehicle_type', e.target.value)}
-                      className="w-full px-3 py-1 rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
-                    >
-                      {vehiclePrices.map(vehicle => (
-                        <option key={vehicle.id} value={vehicle.vehicle_type}>
-                          {vehicle.vehicle_type}
-                        </option>
-                      ))}
-                    </select>
+                    <div className="flex flex-wrap gap-1">
+                      {WEEKDAY_LABELS.map((label, day) => {
+                        const selected = rule.weekdays?.includes(day);
+                        return (
+                          <button
+                            key={label}
+                            type="button"
+                            onClick={() => togglePricingRuleWeekday(rule, day)}
+                            className={`px-1.5 py-0.5 text-xs rounded ${
+                              selected
+                                ? 'bg-blue-600 text-white'
+                                : 'bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-300'
+                            }`}
+                          >
+                            {label}
+                          </button>
+                        );
+                      })}
+                    </div>
                   </TableCell>
                   <TableCell>
-                    <Input
-                      type="number"
-                      value={route.fixed_price}
-                      onChange={e => updateFixedRoute(route.id, 'fixed_price', parseFloat(e.target.value))}
-                      min="0"
-                      step="0.01"
+                    <div className="flex items-center space-x-1">
+                      <Input
+                        type="date"
+                        value={rule.start_date || ''}
+                        onChange={e => updatePricingRule(rule.id, 'start_date', e.target.value || null)}
+                      />
+                      <span className="text-gray-500 dark:text-gray-400">-</span>
+                      <Input
+                        type="date"
+                        value={rule.end_date || ''}
+                        onChange={e => updatePricingRule(rule.id, 'end_date', e.target.value || null)}
+                      />
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex items-center space-x-1">
+                      <select
+                        value={rule.adjustment_type}
+                        onChange={e => updatePricingRule(rule.id, 'adjustment_type', e.target.value)}
+                        className="px-2 py-1 rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                      >
+                        <option value="multiplier">×</option>
+                        <option value="flat">+ €</option>
+                      </select>
+                      <Input
+                        type="number"
+                        value={rule.value}
+                        onChange={e => updatePricingRule(rule.id, 'value', parseFloat(e.target.value))}
+                        min="0"
+                        step={rule.adjustment_type === 'multiplier' ? '0.05' : '0.01'}
+                      />
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <div className="space-y-1">
+                      <select
+                        value={rule.vehicle_type || ''}
+                        onChange={e => updatePricingRule(rule.id, 'vehicle_type', e.target.value || null)}
+                        className="w-full px-2 py-1 rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                      >
+                        <option value="">All vehicles</option>
+                        {vehiclePrices.map(vehicle => (
+                          <option key={vehicle.id} value={vehicle.vehicle_type}>
+                            {vehicle.vehicle_type}
+                          </option>
+                        ))}
+                      </select>
+                      <select
+                        value={rule.zone_id || ''}
+                        onChange={e => updatePricingRule(rule.id, 'zone_id', e.target.value || null)}
+                        className="w-full px-2 py-1 rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                      >
+                        <option value="">All zones</option>
+                        {zones.map(zone => (
+                          <option key={zone.id} value={zone.id}>{zone.name}</option>
+                        ))}
+                      </select>
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <input
+                      type="checkbox"
+                      checked={rule.is_active}
+                      onChange={e => updatePricingRule(rule.id, 'is_active', e.target.checked)}
+                      className="h-4 w-4 text-blue-600 border-gray-300 rounded"
                     />
                   </TableCell>
                   <TableCell>
                     <Button
                       variant="ghost"
                       size="sm"
-                      onClick={() => deleteFixedRoute(route.id)}
+                      onClick={() => deletePricingRule(rule.id)}
                       className="text-red-600 hover:text-red-700 dark:text-red-400 dark:hover:text-red-300"
                     >
                       <Trash2 className="w-4 h-4" />
@@ -482,6 +953,69 @@ const PricingManagement: React.FC = () => {
             </TableBody>
           </Table>
         </div>
+
+        {/* Scheduled Price Sheets */}
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 border dark:border-gray-700">
+          <div className="flex items-center mb-4">
+            <CalendarClock className="w-5 h-5 mr-2 text-blue-600 dark:text-blue-400" />
+            <h3 className="text-lg font-medium dark:text-white">Scheduled Price Sheets</h3>
+          </div>
+          
+          {pricingSchedules.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              No scheduled changes. Choose "Schedule for later" when saving to stage the tables above.
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Effective From</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="w-20">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {pricingSchedules.map(schedule => (
+                  <TableRow key={schedule.id}>
+                    <TableCell className="dark:text-white">{schedule.name}</TableCell>
+                    <TableCell className="dark:text-white">
+                      {new Date(schedule.effective_from).toLocaleString()}
+                    </TableCell>
+                    <TableCell>
+                      <span className={`px-2 py-1 text-xs rounded-full ${
+                        schedule.status === 'pending' ? 'bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-300' :
+                        schedule.status === 'applied' ? 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300' :
+                        schedule.status === 'failed' ? 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300' :
+                        'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300'
+                      }`} title={schedule.error || undefined}>
+                        {schedule.status.charAt(0).toUpperCase() + schedule.status.slice(1)}
+                      </span>
+                    </TableCell>
+                    <TableCell>
+                      {schedule.status === 'pending' && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => cancelSchedule(schedule.id)}
+                          disabled={cancellingScheduleId === schedule.id}
+                          className="text-red-600 hover:text-red-700 dark:text-red-400 dark:hover:text-red-300"
+                          title="Cancel scheduled changes"
+                        >
+                          {cancellingScheduleId === schedule.id ? (
+                            <Loader2 className="w-4 h-4 animate-spin" />
+                          ) : (
+                            <XCircle className="w-4 h-4" />
+                          )}
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </div>
       </div>
     );
   };
@@ -491,6 +1025,16 @@ const PricingManagement: React.FC = () => {
       <div className="flex justify-between items-center mb-6">
         <h2 className="text-xl font-semibold dark:text-white">Pricing Management</h2>
         <div className="flex space-x-2">
+          <Button
+            onClick={() => setShowCsvImport(true)}
+            variant="outline"
+            disabled={loading || hasChanges}
+            title={hasChanges ? 'Save or discard your changes before importing' : undefined}
+          >
+            <Upload className="w-4 h-4 mr-2" />
+            Import CSV
+          </Button>
+
           <button
             onClick={handleRefreshCache}
             disabled={isRefreshing}
@@ -558,19 +1102,45 @@ const PricingManagement: React.FC = () => {
               Pricing Tools
             </button>
           </li>
+          <li className="mr-2">
+            <button
+              className={`inline-block p-4 border-b-2 rounded-t-lg ${
+                activeTab === 'zones' 
+                  ? 'border-blue-600 dark:border-blue-500 text-blue-600 dark:text-blue-500' 
+                  : 'border-transparent hover:border-gray-300 dark:hover:border-gray-600 hover:text-gray-600 dark:hover:text-gray-300'
+              }`}
+              onClick={() => setActiveTab('zones')}
+            >
+              Zones
+            </button>
+          </li>
         </ul>
       </div>
 
       {/* Tab Content */}
       {activeTab === 'tables' ? (
         renderPricingTables()
+      ) : activeTab === 'zones' ? (
+        <ZoneBoundaryEditor />
       ) : (
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-          <PricingSimulator />
-          <PricingChangeLogs />
+          <PricingSimulator
+            scheduledSheets={pricingSchedules.filter(s => s.status === 'pending')}
+            draftSheet={hasChanges ? { vehiclePrices, zoneMultipliers, fixedRoutes, pricingRules } : null}
+          />
+          <PricingChangeLogs onRollback={fetchData} />
         </div>
       )}
 
+      {showCsvImport && (
+        <PricingCsvImport
+          current={{ vehiclePrices, zoneMultipliers, fixedRoutes }}
+          zones={zones}
+          onClose={() => setShowCsvImport(false)}
+          onImported={fetchData}
+        />
+      )}
+
       {/* Confirmation Dialog */}
       <AlertDialog open={showConfirmation} onOpenChange={setShowConfirmation}>
         <AlertDialogContent>
@@ -580,9 +1150,47 @@ const PricingManagement: React.FC = () => {
               Confirm Changes
             </AlertDialogTitle>
             <AlertDialogDescription>
-              Are you sure you want to save these pricing changes? This will affect all future bookings.
+              {applyMode === 'now'
+                ? 'Are you sure you want to save these pricing changes? This will affect all future bookings.'
+                : 'The current tables will be saved as a price sheet that replaces the live pricing at the chosen time.'}
             </AlertDialogDescription>
           </AlertDialogHeader>
+          <div className="space-y-3">
+            <div className="flex space-x-4 text-sm">
+              <label className="flex items-center dark:text-gray-300">
+                <input
+                  type="radio"
+                  checked={applyMode === 'now'}
+                  onChange={() => setApplyMode('now')}
+                  className="mr-2"
+                />
+                Apply now
+              </label>
+              <label className="flex items-center dark:text-gray-300">
+                <input
+                  type="radio"
+                  checked={applyMode === 'schedule'}
+                  onChange={() => setApplyMode('schedule')}
+                  className="mr-2"
+                />
+                Schedule for later
+              </label>
+            </div>
+            {applyMode === 'schedule' && (
+              <>
+                <Input
+                  value={scheduleName}
+                  onChange={e => setScheduleName(e.target.value)}
+                  placeholder="e.g., Summer 2025 prices"
+                />
+                <Input
+                  type="datetime-local"
+                  value={scheduleEffectiveFrom}
+                  onChange={e => setScheduleEffectiveFrom(e.target.value)}
+                />
+              </>
+            )}
+          </div>
           <AlertDialogFooter>
             <AlertDialogCancel>Cancel</AlertDialogCancel>
             <AlertDialogAction onClick={saveChanges} disabled={saving}>
@@ -591,7 +1199,7 @@ const PricingManagement: React.FC = () => {
                   <Loader2 className="w-4 h-4 mr-2 animate-spin" />
                   Saving...
                 </>
-              ) : 'Save Changes'}
+              ) : applyMode === 'schedule' ? 'Schedule Changes' : 'Save Changes'}
             </AlertDialogAction>
           </AlertDialogFooter>
         </AlertDialogContent>
@@ -0,0 +1,256 @@
+import React, { useEffect, useState } from 'react';
+import { RefreshCw, Loader2, PlusCircle, Edit, Power } from 'lucide-react';
+import { format } from 'date-fns';
+import { useToast } from '../ui/use-toast';
+import { Button } from '../ui/button';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '../ui/table';
+import { adminApi } from '../../lib/adminApi';
+import type { PromoCode } from '../../lib/promo';
+import PromoCodeModal from './promotions/PromoCodeModal';
+import PromoRedemptionReport from './promotions/PromoRedemptionReport';
+
+interface PromoCodeWithUsage extends PromoCode {
+  redemptions: number;
+  total_discount: number;
+}
+
+type PromoStatus = 'active' | 'inactive' | 'scheduled' | 'expired' | 'used_up';
+
+const STATUS_STYLES: Record<PromoStatus, { label: string; className: string }> = {
+  active: { label: 'Active', className: 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300' },
+  inactive: { label: 'Inactive', className: 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300' },
+  scheduled: { label: 'Scheduled', className: 'bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-300' },
+  expired: { label: 'Expired', className: 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300' },
+  used_up: { label: 'Used Up', className: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-300' }
+};
+
+const getStatus = (promo: PromoCodeWithUsage): PromoStatus => {
+  const now = new Date();
+  if (!promo.is_active) return 'inactive';
+  if (promo.valid_until && new Date(promo.valid_until) <= now) return 'expired';
+  if (promo.max_uses != null && promo.redemptions >= promo.max_uses) return 'used_up';
+  if (promo.valid_from && new Date(promo.valid_from) > now) return 'scheduled';
+  return 'active';
+};
+
+const formatDiscount = (promo: PromoCode) =>
+  promo.discount_type === 'percent' ? `${Number(promo.value)}%` : `€${Number(promo.value).toFixed(2)}`;
+
+const formatWindow = (promo: PromoCode) => {
+  if (!promo.valid_from && !promo.valid_until) return 'Always';
+  const from = promo.valid_from ? format(new Date(promo.valid_from), 'PP') : 'Now';
+  const until = promo.valid_until ? format(new Date(promo.valid_until), 'PP') : 'No end';
+  return `${from} – ${until}`;
+};
+
+const PromotionsManagement: React.FC = () => {
+  const [activeTab, setActiveTab] = useState<'codes' | 'report'>('codes');
+  const [promoCodes, setPromoCodes] = useState<PromoCodeWithUsage[]>([]);
+  const [zones, setZones] = useState<{ id: string; name: string }[]>([]);
+  const [vehicleTypes, setVehicleTypes] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editing, setEditing] = useState<PromoCode | null>(null);
+  const [showModal, setShowModal] = useState(false);
+  const [togglingId, setTogglingId] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const fetchPromotions = async () => {
+    setLoading(true);
+    try {
+      const data = await adminApi.fetchPromotions();
+      setPromoCodes(data.promoCodes || []);
+      setZones(data.zones || []);
+      setVehicleTypes(data.vehicleTypes || []);
+    } catch (error: any) {
+      console.error('Error fetching promotions:', error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Failed to load promo codes"
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchPromotions();
+  }, []);
+
+  const openModal = (promo: PromoCode | null) => {
+    setEditing(promo);
+    setShowModal(true);
+  };
+
+  const toggleActive = async (promo: PromoCodeWithUsage) => {
+    setTogglingId(promo.id);
+    try {
+      await adminApi.savePromotion({ ...promo, is_active: !promo.is_active });
+      setPromoCodes(prev => prev.map(p => (p.id === promo.id ? { ...p, is_active: !promo.is_active } : p)));
+      toast({
+        title: promo.is_active ? "Promo Code Deactivated" : "Promo Code Activated",
+        description: `${promo.code} is now ${promo.is_active ? 'inactive' : 'active'}.`
+      });
+    } catch (error: any) {
+      console.error('Error updating promo code:', error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Failed to update promo code"
+      });
+    } finally {
+      setTogglingId(null);
+    }
+  };
+
+  const describeRestrictions = (promo: PromoCode) => {
+    const parts: string[] = [];
+    if (promo.vehicle_types?.length) parts.push(promo.vehicle_types.join(', '));
+    if (promo.zone_ids?.length) {
+      parts.push(promo.zone_ids.map(id => zones.find(z => z.id === id)?.name || 'Unknown zone').join(', '));
+    }
+    return parts.length > 0 ? parts.join(' · ') : 'None';
+  };
+
+  const tabClassName = (tab: 'codes' | 'report') =>
+    `inline-block p-4 border-b-2 rounded-t-lg ${
+      activeTab === tab
+        ? 'border-blue-600 dark:border-blue-500 text-blue-600 dark:text-blue-500'
+        : 'border-transparent hover:border-gray-300 dark:hover:border-gray-600 hover:text-gray-600 dark:hover:text-gray-300'
+    }`;
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-6">
+        <h2 className="text-xl font-semibold dark:text-white">Promotions</h2>
+        <div className="flex space-x-2">
+          <Button onClick={fetchPromotions} variant="outline" disabled={loading}>
+            <RefreshCw className={`w-4 h-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+          <Button onClick={() => openModal(null)} className="bg-blue-600 hover:bg-blue-700">
+            <PlusCircle className="w-4 h-4 mr-2" />
+            New Promo Code
+          </Button>
+        </div>
+      </div>
+
+      <div className="mb-6 border-b border-gray-200 dark:border-gray-700">
+        <ul className="flex flex-wrap -mb-px text-sm font-medium text-center">
+          <li className="mr-2">
+            <button className={tabClassName('codes')} onClick={() => setActiveTab('codes')}>
+              Promo Codes
+            </button>
+          </li>
+          <li className="mr-2">
+            <button className={tabClassName('report')} onClick={() => setActiveTab('report')}>
+              Redemption Report
+            </button>
+          </li>
+        </ul>
+      </div>
+
+      {activeTab === 'report' ? (
+        <PromoRedemptionReport promoCodes={promoCodes} />
+      ) : loading ? (
+        <div className="flex items-center justify-center h-64">
+          <Loader2 className="w-8 h-8 text-blue-600 dark:text-blue-400 animate-spin" />
+        </div>
+      ) : (
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 border dark:border-gray-700">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Code</TableHead>
+                <TableHead>Discount</TableHead>
+                <TableHead>Valid</TableHead>
+                <TableHead>Usage</TableHead>
+                <TableHead>Restrictions</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="w-[100px]">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {promoCodes.map(promo => {
+                const status = STATUS_STYLES[getStatus(promo)];
+                return (
+                  <TableRow key={promo.id}>
+                    <TableCell>
+                      <div className="font-mono font-medium">{promo.code}</div>
+                      {promo.description && (
+                        <div className="text-xs text-gray-500 dark:text-gray-400">{promo.description}</div>
+                      )}
+                    </TableCell>
+                    <TableCell>{formatDiscount(promo)}</TableCell>
+                    <TableCell className="text-sm">{formatWindow(promo)}</TableCell>
+                    <TableCell className="text-sm">
+                      {promo.redemptions}{promo.max_uses != null ? ` / ${promo.max_uses}` : ''}
+                      {promo.max_uses_per_customer != null && (
+                        <div className="text-xs text-gray-500 dark:text-gray-400">
+                          {promo.max_uses_per_customer} per customer
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm">{describeRestrictions(promo)}</TableCell>
+                    <TableCell>
+                      <span className={`px-2 py-1 rounded-full text-xs font-medium ${status.className}`}>
+                        {status.label}
+                      </span>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex space-x-1">
+                        <Button variant="ghost" size="sm" onClick={() => openModal(promo)} title="Edit">
+                          <Edit className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => toggleActive(promo)}
+                          disabled={togglingId === promo.id}
+                          title={promo.is_active ? 'Deactivate' : 'Activate'}
+                          className={promo.is_active ? 'text-red-600 dark:text-red-400' : 'text-green-600 dark:text-green-400'}
+                        >
+                          {togglingId === promo.id ? (
+                            <Loader2 className="w-4 h-4 animate-spin" />
+                          ) : (
+                            <Power className="w-4 h-4" />
+                          )}
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+              {promoCodes.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center text-gray-500 dark:text-gray-400">
+                    No promo codes yet
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      {showModal && (
+        <PromoCodeModal
+          promotion={editing}
+          zones={zones}
+          vehicleTypes={vehicleTypes}
+          onClose={() => setShowModal(false)}
+          onSaved={fetchPromotions}
+        />
+      )}
+    </div>
+  );
+};
+
+export default PromotionsManagement;
\ No newline at end of file
@@ -0,0 +1,224 @@
+import React, { useState } from 'react';
+import { X, Loader2, Car, Bell, Tag, AlertCircle, FileDown, CheckCircle, XCircle } from 'lucide-react';
+import type { BulkBookingAction, BulkBookingParams, BulkBookingResult } from '../../../lib/bulkBookings';
+
+interface Driver {
+  id: string;
+  is_available: boolean;
+  user?: {
+    name: string;
+  };
+}
+
+interface BookingBulkActionsProps {
+  selectedCount: number;
+  drivers: Driver[];
+  /** Outcome of the last batch, shown until dismissed */
+  result: (BulkBookingResult & { canOverride: boolean }) | null;
+  onApply: (action: BulkBookingAction, params: BulkBookingParams, force?: boolean) => Promise<void>;
+  onExport: () => void;
+  onClear: () => void;
+  onDismissResult: () => void;
+}
+
+const ACTION_LABELS: Record<BulkBookingAction, string> = {
+  assign_driver: 'Assign driver',
+  send_reminder: 'Send reminder',
+  set_priority: 'Set priority',
+  add_tags: 'Add tags',
+  cancel: 'Cancel'
+};
+
+const BookingBulkActions: React.FC<BookingBulkActionsProps> = ({
+  selectedCount,
+  drivers,
+  result,
+  onApply,
+  onExport,
+  onClear,
+  onDismissResult
+}) => {
+  const [driverId, setDriverId] = useState('');
+  const [priority, setPriority] = useState(1);
+  const [tagInput, setTagInput] = useState('');
+  const [pending, setPending] = useState<BulkBookingAction | null>(null);
+  // The last action and its parameters, so it can be repeated with conflicts allowed
+  const [lastRequest, setLastRequest] = useState<{ action: BulkBookingAction; params: BulkBookingParams } | null>(null);
+
+  const apply = async (action: BulkBookingAction, params: BulkBookingParams = {}, force = false) => {
+    if (action === 'cancel' && !window.confirm(`Cancel ${selectedCount} booking(s)? Cancellation fees and refunds are applied by the cancellation policy. This cannot be undone.`)) {
+      return;
+    }
+
+    setPending(action);
+    setLastRequest({ action, params });
+    try {
+      await onApply(action, params, force);
+    } finally {
+      setPending(null);
+    }
+  };
+
+  const tags = tagInput.split(',').map(tag => tag.trim()).filter(Boolean);
+  const failures = result?.results.filter(row => !row.success) || [];
+  const buttonClass = "px-3 py-1.5 border border-gray-200 dark:border-gray-700 rounded-md bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 flex items-center text-sm disabled:opacity-50";
+  const inputClass = "px-2 py-1.5 border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-700 dark:text-white rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-600";
+
+  return (
+    <div className="mb-4">
+      {selectedCount > 0 && (
+        <div className="p-3 bg-blue-50 dark:bg-blue-900/30 border border-blue-100 dark:border-blue-800 rounded-lg flex flex-wrap items-center gap-2">
+          <span className="text-sm font-medium text-blue-800 dark:text-blue-300 mr-2">
+            {selectedCount} selected
+          </span>
+
+          <div className="flex items-center gap-1">
+            <select
+              value={driverId}
+              onChange={(e) => setDriverId(e.target.value)}
+              className={inputClass}
+              aria-label="Driver to assign"
+            >
+              <option value="">Choose driver...</option>
+              {drivers.map(driver => (
+                <option key={driver.id} value={driver.id}>
+                  {driver.user?.name || 'Unknown Driver'}{driver.is_available ? '' : ' (unavailable)'}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={() => apply('assign_driver', { driverId })}
+              disabled={!driverId || pending !== null}
+              className={buttonClass}
+            >
+              {pending === 'assign_driver' ? <Loader2 className="w-4 h-4 mr-1.5 animate-spin" /> : <Car className="w-4 h-4 mr-1.5" />}
+              Assign
+            </button>
+          </div>
+
+          <div className="flex items-center gap-1">
+            <select
+              value={priority}
+              onChange={(e) => setPriority(Number(e.target.value))}
+              className={inputClass}
+              aria-label="Priority to set"
+            >
+              <option value={0}>Normal</option>
+              <option value={1}>High</option>
+              <option value={2}>Urgent</option>
+            </select>
+            <button
+              onClick={() => apply('set_priority', { priority })}
+              disabled={pending !== null}
+              className={buttonClass}
+            >
+              {pending === 'set_priority' ? <Loader2 className="w-4 h-4 mr-1.5 animate-spin" /> : <AlertCircle className="w-4 h-4 mr-1.5" />}
+              Set Priority
+            </button>
+          </div>
+
+          <div className="flex items-center gap-1">
+            <input
+              type="text"
+              value={tagInput}
+              onChange={(e) => setTagInput(e.target.value)}
+              placeholder="VIP, Airport"
+              className={`${inputClass} w-36`}
+              aria-label="Tags to add, separated by commas"
+            />
+            <button
+              onClick={() => apply('add_tags', { tags })}
+              disabled={tags.length === 0 || pending !== null}
+              className={buttonClass}
+            >
+              {pending === 'add_tags' ? <Loader2 className="w-4 h-4 mr-1.5 animate-spin" /> : <Tag className="w-4 h-4 mr-1.5" />}
+              Add Tags
+            </button>
+          </div>
+
+          <button
+            onClick={() => apply('send_reminder')}
+            disabled={pending !== null}
+            className={buttonClass}
+          >
+            {pending === 'send_reminder' ? <Loader2 className="w-4 h-4 mr-1.5 animate-spin" /> : <Bell className="w-4 h-4 mr-1.5" />}
+            Send Reminder
+          </button>
+
+          <button
+            onClick={onExport}
+            disabled={pending !== null}
+            className={buttonClass}
+          >
+            <FileDown className="w-4 h-4 mr-1.5" />
+            Export
+          </button>
+
+          <button
+            onClick={() => apply('cancel')}
+            disabled={pending !== null}
+            className="px-3 py-1.5 border border-red-200 dark:border-red-800 rounded-md bg-white dark:bg-gray-800 text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 flex items-center text-sm disabled:opacity-50"
+          >
+            {pending === 'cancel' ? <Loader2 className="w-4 h-4 mr-1.5 animate-spin" /> : <XCircle className="w-4 h-4 mr-1.5" />}
+            Cancel Bookings
+          </button>
+
+          <button
+            onClick={onClear}
+            className="ml-auto text-sm text-blue-700 dark:text-blue-300 hover:underline"
+          >
+            Clear selection
+          </button>
+        </div>
+      )}
+
+      {/* Nothing is changed when a batch has failures, so every failing booking is listed */}
+      {result && !result.applied && (
+        <div className="mt-2 p-3 bg-red-50 dark:bg-red-900/20 border border-red-100 dark:border-red-800 rounded-lg text-sm">
+          <div className="flex justify-between items-start">
+            <div className="font-medium text-red-800 dark:text-red-300 flex items-center">
+              <AlertCircle className="h-4 w-4 mr-1.5" />
+              {lastRequest ? `${ACTION_LABELS[lastRequest.action]}: ` : ''}
+              no bookings were changed because {failures.length} of {result.results.length} failed
+            </div>
+            <button
+              onClick={onDismissResult}
+              className="text-gray-400 hover:text-gray-500 dark:hover:text-gray-300"
+              aria-label="Dismiss"
+            >
+              <X className="h-4 w-4" />
+            </button>
+          </div>
+          <ul className="mt-2 space-y-1 max-h-40 overflow-y-auto">
+            {result.results.map(row => (
+              <li key={row.bookingId} className="flex items-start text-xs">
+                {row.success ? (
+                  <CheckCircle className="h-3.5 w-3.5 mr-1.5 mt-0.5 flex-shrink-0 text-green-500 dark:text-green-400" />
+                ) : (
+                  <XCircle className="h-3.5 w-3.5 mr-1.5 mt-0.5 flex-shrink-0 text-red-500 dark:text-red-400" />
+                )}
+                <span className="font-medium text-gray-900 dark:text-white mr-1">
+                  {row.bookingReference || row.bookingId}
+                </span>
+                <span className="text-gray-600 dark:text-gray-400">
+                  {row.success ? 'ready' : row.error}
+                </span>
+              </li>
+            ))}
+          </ul>
+          {result.canOverride && lastRequest && (
+            <button
+              onClick={() => apply(lastRequest.action, lastRequest.params, true)}
+              disabled={pending !== null}
+              className="mt-2 px-3 py-1 text-xs rounded-md bg-amber-600 hover:bg-amber-700 text-white disabled:opacity-50"
+            >
+              Assign Anyway
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BookingBulkActions;
\ No newline at end of file
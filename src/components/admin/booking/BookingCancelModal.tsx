@@ -0,0 +1,200 @@
+import React, { useState } from 'react';
+import { X, Loader2, XCircle, AlertTriangle } from 'lucide-react';
+import { roundCurrency } from '../../../lib/pricing';
+import type { CancellationQuote } from '../../../lib/cancellation';
+
+interface Booking {
+  id: string;
+  booking_reference: string;
+  customer_name: string;
+  datetime: string;
+  vehicle_type?: string;
+}
+
+interface BookingCancelModalProps {
+  booking: Booking;
+  /** Fee and refund from the cancellation policy, null while loading */
+  quote: CancellationQuote | null;
+  loading: boolean;
+  onClose: () => void;
+  onConfirm: (bookingId: string, feeOverride: number | null, reason: string) => Promise<void>;
+}
+
+const describeWindow = (quote: CancellationQuote) => {
+  if (quote.hoursBeforePickup < 0) return 'after the pickup time';
+  if (quote.hoursBeforePickup < 1) return 'less than an hour before pickup';
+  return `${Math.floor(quote.hoursBeforePickup)} hours before pickup`;
+};
+
+const BookingCancelModal: React.FC<BookingCancelModalProps> = ({
+  booking,
+  quote,
+  loading,
+  onClose,
+  onConfirm
+}) => {
+  const [overrideFee, setOverrideFee] = useState(false);
+  const [feeInput, setFeeInput] = useState('');
+  const [reason, setReason] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const customFee = overrideFee && feeInput !== '' && Number(feeInput) >= 0
+    ? roundCurrency(Math.min(Number(feeInput), quote?.total || 0))
+    : null;
+  const fee = customFee ?? quote?.fee ?? 0;
+  const refund = quote ? roundCurrency(Math.max(quote.paid - fee, 0)) : 0;
+  const outstanding = quote ? roundCurrency(Math.max(fee - quote.paid, 0)) : 0;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      await onConfirm(booking.id, customFee, reason.trim());
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 dark:bg-black/70 flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-lg overflow-hidden">
+        <div className="px-6 py-4 bg-blue-50 dark:bg-blue-900/30 border-b dark:border-gray-700 flex justify-between items-center">
+          <h3 className="text-lg font-medium text-gray-900 dark:text-white flex items-center">
+            <XCircle className="h-5 w-5 mr-2" />
+            Cancel Booking: {booking.booking_reference}
+          </h3>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-500 dark:hover:text-gray-300"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit}>
+          <div className="p-6 space-y-4">
+            {loading || !quote ? (
+              <div className="flex items-center justify-center py-8 text-gray-500 dark:text-gray-400">
+                <Loader2 className="h-5 w-5 mr-2 animate-spin" />
+                Calculating cancellation fee...
+              </div>
+            ) : (
+              <>
+                <p className="text-sm text-gray-600 dark:text-gray-300">
+                  {booking.customer_name}'s booking is being cancelled {describeWindow(quote)}.{' '}
+                  {quote.tier
+                    ? `The policy${quote.vehicleException ? ` for ${quote.vehicleException}` : ''} charges ${quote.tier.fee_percent}% within ${quote.tier.hours_before} hours.`
+                    : 'No cancellation fee applies this early.'}
+                </p>
+
+                <div className="rounded-md border border-gray-200 dark:border-gray-700 divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+                  <div className="flex justify-between px-4 py-2">
+                    <span className="text-gray-500 dark:text-gray-400">Booking total</span>
+                    <span className="text-gray-900 dark:text-white">€{quote.total.toFixed(2)}</span>
+                  </div>
+                  <div className="flex justify-between px-4 py-2">
+                    <span className="text-gray-500 dark:text-gray-400">Paid so far</span>
+                    <span className="text-gray-900 dark:text-white">€{quote.paid.toFixed(2)}</span>
+                  </div>
+                  <div className="flex justify-between px-4 py-2">
+                    <span className="text-gray-500 dark:text-gray-400">Cancellation fee</span>
+                    <span className="font-medium text-gray-900 dark:text-white">€{fee.toFixed(2)}</span>
+                  </div>
+                  <div className="flex justify-between px-4 py-2 bg-gray-50 dark:bg-gray-700/50">
+                    <span className="font-medium text-gray-700 dark:text-gray-300">
+                      {outstanding > 0 ? 'Fee owed by customer' : 'Refund to customer'}
+                    </span>
+                    <span className={`font-semibold ${outstanding > 0 ? 'text-red-600 dark:text-red-400' : 'text-green-600 dark:text-green-400'}`}>
+                      €{(outstanding > 0 ? outstanding : refund).toFixed(2)}
+                    </span>
+                  </div>
+                </div>
+
+                <div>
+                  <label className="flex items-center text-sm text-gray-700 dark:text-gray-300">
+                    <input
+                      type="checkbox"
+                      checked={overrideFee}
+                      onChange={(e) => {
+                        setOverrideFee(e.target.checked);
+                        setFeeInput(quote.fee.toFixed(2));
+                      }}
+                      className="h-4 w-4 text-blue-600 border-gray-300 rounded mr-2"
+                    />
+                    Override the policy fee
+                  </label>
+                  {overrideFee && (
+                    <div className="mt-2 flex items-center">
+                      <span className="text-gray-500 dark:text-gray-400 mr-2">€</span>
+                      <input
+                        type="number"
+                        min="0"
+                        max={quote.total}
+                        step="0.01"
+                        value={feeInput}
+                        onChange={(e) => setFeeInput(e.target.value)}
+                        className="w-32 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                      <span className="ml-3 text-xs text-gray-500 dark:text-gray-400">Set to 0 to waive the fee</span>
+                    </div>
+                  )}
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                    Reason (optional)
+                  </label>
+                  <input
+                    type="text"
+                    value={reason}
+                    onChange={(e) => setReason(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    placeholder="e.g. Customer called to cancel"
+                  />
+                </div>
+
+                {(refund > 0 || outstanding > 0) && (
+                  <div className="flex items-start text-xs text-yellow-700 dark:text-yellow-400">
+                    <AlertTriangle className="h-4 w-4 mr-1.5 flex-shrink-0" />
+                    {refund > 0
+                      ? 'A pending refund will be added to the booking payments.'
+                      : 'A pending cancellation fee will be added to the booking payments.'}
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+
+          <div className="px-6 py-4 bg-gray-50 dark:bg-gray-700/50 border-t dark:border-gray-700 flex justify-end space-x-3">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 rounded-md hover:bg-gray-100 dark:hover:bg-gray-700"
+            >
+              Keep Booking
+            </button>
+            <button
+              type="submit"
+              disabled={saving || loading || !quote}
+              className="px-4 py-2 bg-red-600 text-white rounded-md hover:bg-red-700 flex items-center disabled:opacity-70"
+            >
+              {saving ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Cancelling...
+                </>
+              ) : (
+                <>
+                  <XCircle className="h-4 w-4 mr-2" />
+                  Cancel Booking
+                </>
+              )}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default BookingCancelModal;
\ No newline at end of file
@@ -0,0 +1,484 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { X, Loader2, CalendarPlus, Plus, Trash2, Calculator, AlertTriangle, Eye, EyeOff } from 'lucide-react';
+import { v4 as uuidv4 } from 'uuid';
+import { adminApi } from '../../../lib/adminApi';
+import type { CustomFee } from '../../../lib/pricing';
+import {
+  BOOKING_EXTRA_SUGGESTIONS,
+  MAX_BOOKING_PASSENGERS,
+  validateNewBooking,
+  type NewBooking
+} from '../../../lib/newBooking';
+
+interface Driver {
+  id: string;
+  is_available: boolean;
+  verification_status: string;
+  user?: {
+    name: string;
+  };
+}
+
+interface QuotePreview {
+  distance: number;
+  durationMin?: number;
+  finalPrice: number;
+  isFixedRoute: boolean;
+  breakdown: { description: string; amount: number }[];
+  pickupZone: { name: string } | null;
+  dropoffZone: { name: string } | null;
+}
+
+interface BookingCreateModalProps {
+  drivers: Driver[];
+  onClose: () => void;
+  /** Resolves to true once the booking is saved, closing the modal */
+  onCreate: (booking: NewBooking, driverId: string | null, force: boolean) => Promise<boolean>;
+}
+
+// Used when the price sheet cannot be loaded
+const DEFAULT_VEHICLE_TYPES = ['sedan', 'suv', 'van', 'luxury'];
+
+// Wait for typing to pause before asking the pricing engine for a quote
+const QUOTE_DELAY_MS = 600;
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500';
+const labelClass = 'block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1';
+
+const BookingCreateModal: React.FC<BookingCreateModalProps> = ({
+  drivers,
+  onClose,
+  onCreate
+}) => {
+  const [customerName, setCustomerName] = useState('');
+  const [customerEmail, setCustomerEmail] = useState('');
+  const [customerPhone, setCustomerPhone] = useState('');
+  const [pickupAddress, setPickupAddress] = useState('');
+  const [dropoffAddress, setDropoffAddress] = useState('');
+  const [pickupTime, setPickupTime] = useState('');
+  const [vehicleType, setVehicleType] = useState('');
+  const [vehicleTypes, setVehicleTypes] = useState<string[]>(DEFAULT_VEHICLE_TYPES);
+  const [passengers, setPassengers] = useState('1');
+  const [extras, setExtras] = useState<CustomFee[]>([]);
+  const [priority, setPriority] = useState(0);
+  const [notes, setNotes] = useState('');
+  const [flightNumber, setFlightNumber] = useState('');
+  const [flightArrival, setFlightArrival] = useState('');
+  const [driverId, setDriverId] = useState('');
+  const [force, setForce] = useState(false);
+  const [quote, setQuote] = useState<QuotePreview | null>(null);
+  const [quoteError, setQuoteError] = useState<string | null>(null);
+  const [quoting, setQuoting] = useState(false);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+  // Only the latest quote request may update the preview
+  const quoteRequest = useRef(0);
+
+  useEffect(() => {
+    adminApi.fetchPricingData()
+      .then(data => {
+        const types = [
+          ...(data?.vehiclePrices || []).map((price: { vehicle_type: string }) => price.vehicle_type),
+          ...(data?.fixedRoutes || []).map((route: { vehicle_type: string }) => route.vehicle_type)
+        ];
+        if (types.length > 0) setVehicleTypes([...new Set<string>(types)].sort());
+      })
+      .catch(error => console.error('Error fetching vehicle types:', error));
+  }, []);
+
+  const pickupIso = pickupTime && !Number.isNaN(Date.parse(pickupTime)) ? new Date(pickupTime).toISOString() : '';
+  // Named extras, as a string so editing an unnamed one does not re-quote
+  const pricedExtras = JSON.stringify(extras.filter(extra => extra.name.trim()));
+
+  // Live quote from the pricing engine, the same one the booking is saved with
+  useEffect(() => {
+    if (!pickupAddress.trim() || !dropoffAddress.trim() || !vehicleType) {
+      setQuote(null);
+      setQuoteError(null);
+      return;
+    }
+
+    const request = ++quoteRequest.current;
+    const timer = setTimeout(async () => {
+      setQuoting(true);
+      try {
+        const data = await adminApi.simulatePricing(
+          pickupAddress.trim(),
+          dropoffAddress.trim(),
+          vehicleType,
+          pickupIso || undefined,
+          undefined,
+          [],
+          undefined,
+          undefined,
+          JSON.parse(pricedExtras)
+        );
+        if (request !== quoteRequest.current) return;
+        setQuote(data);
+        setQuoteError(null);
+      } catch (error: any) {
+        if (request !== quoteRequest.current) return;
+        setQuote(null);
+        setQuoteError(error.message || 'Could not price this trip');
+      } finally {
+        if (request === quoteRequest.current) setQuoting(false);
+      }
+    }, QUOTE_DELAY_MS);
+
+    return () => clearTimeout(timer);
+  }, [pickupAddress, dropoffAddress, vehicleType, pickupIso, pricedExtras]);
+
+  const handleAddExtra = () => {
+    setExtras([...extras, { id: uuidv4(), name: '', amount: 0, customer_visible: true }]);
+  };
+
+  const handleExtraChange = (id: string, changes: Partial<CustomFee>) => {
+    setExtras(extras.map(extra => extra.id === id ? { ...extra, ...changes } : extra));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const { booking, errors: problems } = validateNewBooking({
+      customerName,
+      customerEmail,
+      customerPhone,
+      pickupAddress,
+      dropoffAddress,
+      datetime: pickupIso,
+      vehicleType,
+      passengers,
+      extras,
+      notes,
+      priority,
+      flightNumber,
+      flightArrival: flightArrival && !Number.isNaN(Date.parse(flightArrival)) ? new Date(flightArrival).toISOString() : flightArrival
+    });
+    setErrors(problems);
+    if (problems.length > 0) return;
+
+    setSaving(true);
+    try {
+      if (await onCreate(booking, driverId || null, force)) onClose();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const assignableDrivers = drivers.filter(driver => driver.verification_status === 'verified');
+
+  return (
+    <div className="fixed inset-0 bg-black/50 dark:bg-black/70 flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-4xl max-h-[90vh] flex flex-col overflow-hidden">
+        <div className="px-6 py-4 bg-blue-50 dark:bg-blue-900/30 border-b dark:border-gray-700 flex justify-between items-center">
+          <h3 className="text-lg font-medium text-gray-900 dark:text-white flex items-center">
+            <CalendarPlus className="h-5 w-5 mr-2" />
+            New Booking
+          </h3>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-500 dark:hover:text-gray-300"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="flex flex-col min-h-0">
+          <div className="p-6 overflow-y-auto grid grid-cols-1 lg:grid-cols-3 gap-6">
+            <div className="lg:col-span-2 space-y-6">
+              <section>
+                <h4 className="text-sm font-semibold text-gray-900 dark:text-white mb-3">Customer</h4>
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                  <div>
+                    <label className={labelClass}>Name</label>
+                    <input type="text" value={customerName} onChange={(e) => setCustomerName(e.target.value)} className={inputClass} autoFocus />
+                  </div>
+                  <div>
+                    <label className={labelClass}>Email</label>
+                    <input type="email" value={customerEmail} onChange={(e) => setCustomerEmail(e.target.value)} className={inputClass} />
+                  </div>
+                  <div>
+                    <label className={labelClass}>Phone</label>
+                    <input type="tel" value={customerPhone} onChange={(e) => setCustomerPhone(e.target.value)} className={inputClass} />
+                  </div>
+                </div>
+                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                  Bookings are linked to the customer's account when one exists for the email address.
+                </p>
+              </section>
+
+              <section>
+                <h4 className="text-sm font-semibold text-gray-900 dark:text-white mb-3">Trip</h4>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                  <div>
+                    <label className={labelClass}>Pickup</label>
+                    <input
+                      type="text"
+                      value={pickupAddress}
+                      onChange={(e) => setPickupAddress(e.target.value)}
+                      className={inputClass}
+                      placeholder="Address, zone or lat,lng"
+                    />
+                  </div>
+                  <div>
+                    <label className={labelClass}>Dropoff</label>
+                    <input
+                      type="text"
+                      value={dropoffAddress}
+                      onChange={(e) => setDropoffAddress(e.target.value)}
+                      className={inputClass}
+                      placeholder="Address, zone or lat,lng"
+                    />
+                  </div>
+                  <div>
+                    <label className={labelClass}>Pickup Time</label>
+                    <input type="datetime-local" value={pickupTime} onChange={(e) => setPickupTime(e.target.value)} className={inputClass} />
+                  </div>
+                  <div className="grid grid-cols-2 gap-3">
+                    <div>
+                      <label className={labelClass}>Vehicle</label>
+                      <select value={vehicleType} onChange={(e) => setVehicleType(e.target.value)} className={inputClass}>
+                        <option value="">Select</option>
+                        {vehicleTypes.map(type => (
+                          <option key={type} value={type}>{type}</option>
+                        ))}
+                      </select>
+                    </div>
+                    <div>
+                      <label className={labelClass}>Passengers</label>
+                      <input
+                        type="number"
+                        min="1"
+                        max={MAX_BOOKING_PASSENGERS}
+                        value={passengers}
+                        onChange={(e) => setPassengers(e.target.value)}
+                        className={inputClass}
+                      />
+                    </div>
+                  </div>
+                  <div>
+                    <label className={labelClass}>Flight Number</label>
+                    <input
+                      type="text"
+                      value={flightNumber}
+                      onChange={(e) => setFlightNumber(e.target.value)}
+                      className={inputClass}
+                      placeholder="Optional, e.g. BA123"
+                    />
+                  </div>
+                  <div>
+                    <label className={labelClass}>Scheduled Arrival</label>
+                    <input type="datetime-local" value={flightArrival} onChange={(e) => setFlightArrival(e.target.value)} className={inputClass} />
+                  </div>
+                </div>
+                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                  For airport pickups. The flight is tracked and the pickup moves with it when it is delayed.
+                </p>
+              </section>
+
+              <section>
+                <div className="flex justify-between items-center mb-3">
+                  <h4 className="text-sm font-semibold text-gray-900 dark:text-white">Extras</h4>
+                  <button
+                    type="button"
+                    onClick={handleAddExtra}
+                    className="text-sm text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300 flex items-center"
+                  >
+                    <Plus className="h-4 w-4 mr-1" />
+                    Add Extra
+                  </button>
+                </div>
+                {extras.length === 0 ? (
+                  <p className="text-sm text-gray-500 dark:text-gray-400">No extras. Child seats, luggage and the like are charged as custom fees.</p>
+                ) : (
+                  <div className="space-y-2">
+                    {extras.map(extra => (
+                      <div key={extra.id} className="flex items-center gap-2">
+                        <input
+                          type="text"
+                          list="booking-extra-suggestions"
+                          value={extra.name}
+                          onChange={(e) => handleExtraChange(extra.id, { name: e.target.value })}
+                          className={inputClass}
+                          placeholder="e.g. Child seat"
+                        />
+                        <div className="flex items-center">
+                          <span className="text-gray-500 dark:text-gray-400 mr-1">€</span>
+                          <input
+                            type="number"
+                            min="0"
+                            step="0.01"
+                            value={extra.amount === 0 ? '' : extra.amount}
+                            onChange={(e) => handleExtraChange(extra.id, { amount: parseFloat(e.target.value) || 0 })}
+                            className={`${inputClass} w-28`}
+                            placeholder="0.00"
+                          />
+                        </div>
+                        <button
+                          type="button"
+                          onClick={() => handleExtraChange(extra.id, { customer_visible: !extra.customer_visible })}
+                          className="p-2 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+                          title={extra.customer_visible ? 'Shown to the customer' : 'Hidden from the customer'}
+                        >
+                          {extra.customer_visible ? <Eye className="h-4 w-4" /> : <EyeOff className="h-4 w-4" />}
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => setExtras(extras.filter(e => e.id !== extra.id))}
+                          className="p-2 text-red-500 hover:text-red-700 dark:text-red-400 dark:hover:text-red-300"
+                          aria-label="Remove extra"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </button>
+                      </div>
+                    ))}
+                    <datalist id="booking-extra-suggestions">
+                      {BOOKING_EXTRA_SUGGESTIONS.map(name => <option key={name} value={name} />)}
+                    </datalist>
+                  </div>
+                )}
+              </section>
+
+              <section className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                <div>
+                  <label className={labelClass}>Priority</label>
+                  <select value={priority} onChange={(e) => setPriority(Number(e.target.value))} className={inputClass}>
+                    <option value={0}>Normal</option>
+                    <option value={1}>High</option>
+                    <option value={2}>Urgent</option>
+                  </select>
+                </div>
+                <div className="sm:col-span-2">
+                  <label className={labelClass}>Admin Notes</label>
+                  <input
+                    type="text"
+                    value={notes}
+                    onChange={(e) => setNotes(e.target.value)}
+                    className={inputClass}
+                    placeholder="Private, not shown to the customer"
+                  />
+                </div>
+              </section>
+            </div>
+
+            <div className="space-y-6">
+              <section className="rounded-md border border-gray-200 dark:border-gray-700 p-4">
+                <h4 className="text-sm font-semibold text-gray-900 dark:text-white mb-3 flex items-center">
+                  <Calculator className="h-4 w-4 mr-2 text-blue-600 dark:text-blue-400" />
+                  Quote
+                  {quoting && <Loader2 className="h-4 w-4 ml-2 animate-spin text-gray-400" />}
+                </h4>
+                {quoteError ? (
+                  <p className="text-sm text-red-600 dark:text-red-400">{quoteError}</p>
+                ) : !quote ? (
+                  <p className="text-sm text-gray-500 dark:text-gray-400">
+                    Enter the pickup, dropoff and vehicle to get a price.
+                  </p>
+                ) : (
+                  <div className="text-sm space-y-2">
+                    <div className="text-gray-500 dark:text-gray-400">
+                      {quote.isFixedRoute ? 'Fixed route' : `${quote.distance.toFixed(1)} km`}
+                      {quote.durationMin ? ` · ${Math.round(quote.durationMin)} min` : ''}
+                      {quote.pickupZone || quote.dropoffZone
+                        ? ` · ${quote.pickupZone?.name || 'No zone'} → ${quote.dropoffZone?.name || 'No zone'}`
+                        : ''}
+                    </div>
+                    <div className="divide-y divide-gray-100 dark:divide-gray-700">
+                      {quote.breakdown.map((line, index) => (
+                        <div key={index} className="flex justify-between py-1">
+                          <span className="text-gray-600 dark:text-gray-300">{line.description}</span>
+                          <span className="text-gray-900 dark:text-white">€{line.amount.toFixed(2)}</span>
+                        </div>
+                      ))}
+                    </div>
+                    <div className="flex justify-between pt-2 border-t border-gray-200 dark:border-gray-700 font-semibold text-gray-900 dark:text-white">
+                      <span>Total</span>
+                      <span>€{quote.finalPrice.toFixed(2)}</span>
+                    </div>
+                    {!pickupIso && (
+                      <p className="text-xs text-gray-500 dark:text-gray-400">Priced for now until a pickup time is set.</p>
+                    )}
+                  </div>
+                )}
+              </section>
+
+              <section>
+                <label className={labelClass}>Driver</label>
+                <select
+                  value={driverId}
+                  onChange={(e) => {
+                    setDriverId(e.target.value);
+                    setForce(false);
+                  }}
+                  className={inputClass}
+                >
+                  <option value="">No driver yet (pending)</option>
+                  {assignableDrivers.map(driver => (
+                    <option key={driver.id} value={driver.id}>
+                      {driver.user?.name || 'Unnamed driver'}{driver.is_available ? '' : ' (unavailable)'}
+                    </option>
+                  ))}
+                </select>
+                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                  Assigned bookings are created as accepted.
+                </p>
+                {driverId && (
+                  <label className="mt-2 flex items-center text-sm text-gray-700 dark:text-gray-300">
+                    <input
+                      type="checkbox"
+                      checked={force}
+                      onChange={(e) => setForce(e.target.checked)}
+                      className="h-4 w-4 text-blue-600 border-gray-300 rounded mr-2"
+                    />
+                    Assign even if the driver has an overlapping trip
+                  </label>
+                )}
+              </section>
+
+              {errors.length > 0 && (
+                <div className="rounded-md bg-red-50 dark:bg-red-900/20 p-3 text-sm text-red-700 dark:text-red-400">
+                  <div className="flex items-center font-medium mb-1">
+                    <AlertTriangle className="h-4 w-4 mr-1.5" />
+                    Check the booking
+                  </div>
+                  <ul className="list-disc list-inside space-y-0.5">
+                    {errors.map(error => <li key={error}>{error}</li>)}
+                  </ul>
+                </div>
+              )}
+            </div>
+          </div>
+
+          <div className="px-6 py-4 bg-gray-50 dark:bg-gray-700/50 border-t dark:border-gray-700 flex justify-end space-x-3">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 rounded-md hover:bg-gray-100 dark:hover:bg-gray-700"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 flex items-center disabled:opacity-70"
+            >
+              {saving ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Creating...
+                </>
+              ) : (
+                <>
+                  <CalendarPlus className="h-4 w-4 mr-2" />
+                  Create Booking
+                </>
+              )}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default BookingCreateModal;
\ No newline at end of file
@@ -1,6 +1,14 @@
 import React from 'react';
-import { X, Car, User, Calendar, MapPin, CreditCard, Clock, MessageSquare, Copy, History, Plus, Tag, Bell } from 'lucide-react';
-import { format } from 'date-fns';
+import { Link } from 'react-router-dom';
+import { X, Car, User, Calendar, MapPin, CreditCard, Clock, MessageSquare, Copy, History, Plus, Tag, Bell, Repeat, Contact, Plane, RefreshCw } from 'lucide-react';
+import { format, formatDistanceStrict } from 'date-fns';
+import { summarizeBookingPrice } from '../../../lib/pricing';
+import { describeRecurrence, parseRecurrenceRule, type BookingSeries } from '../../../lib/recurrence';
+import { reminderTimeline, type BookingReminders, type ScheduledReminderState } from '../../../lib/reminderSchedule';
+import { findReminderTemplate } from '../../../lib/reminderTemplates';
+import { TRIP_STATUS_LABELS, allowedTripTransitions, type TripStatus, type TripStatusTransition } from '../../../lib/tripStatus';
+import { FLIGHT_STATE_LABELS, flightDelayMinutes, isFlightState, type FlightState } from '../../../lib/flights';
+import { useAuth } from '../../../contexts/AuthContext';
 
 interface Booking {
   id: string;
@@ -9,12 +17,24 @@ interface Booking {
   customer_name: string;
   customer_email: string;
   customer_phone?: string;
+  customer_id?: string | null;
   pickup_address?: string;
   dropoff_address?: string;
-  status: 'pending' | 'accepted' | 'in_progress' | 'completed' | 'cancelled';
+  status: TripStatus;
   estimated_price: number;
+  promo_discount?: number;
   notes?: string;
   priority?: number;
+  last_reminder_sent?: string;
+  reminders_opt_out?: boolean;
+  series_id?: string | null;
+  series_date?: string | null;
+  series_detached?: boolean;
+  flight_number?: string | null;
+  flight_scheduled_arrival?: string | null;
+  flight_estimated_arrival?: string | null;
+  flight_status?: string | null;
+  flight_checked_at?: string | null;
   custom_fees?: {
     id: string;
     name: string;
@@ -51,8 +71,65 @@ interface BookingDetailModalProps {
   onDuplicate: () => void;
   onManageFees: () => void;
   onManagePriority: () => void;
+  reminders: BookingReminders | null;
+  loadingReminders: boolean;
+  onToggleRemindersOptOut: (optOut: boolean) => void;
+  /** Recorded status changes, oldest first */
+  timeline: TripStatusTransition[] | null;
+  loadingTimeline: boolean;
+  /** The series the booking belongs to, with all of its trips */
+  seriesInfo: { series: BookingSeries | null; occurrences: Booking[] } | null;
+  loadingSeries: boolean;
+  onManageSeries: () => void;
+  onOpenOccurrence: (occurrence: Booking) => void;
+  onManageFlight: () => void;
+  /** Looks the flight up now instead of waiting for the scheduled check */
+  onCheckFlight: () => void;
+  checkingFlight: boolean;
 }
 
+const reminderStateStyles: Record<ScheduledReminderState, { label: string; color: string }> = {
+  sent: { label: 'Sent', color: 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300' },
+  scheduled: { label: 'Scheduled', color: 'bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-300' },
+  due: { label: 'Sending soon', color: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-300' },
+  skipped: { label: 'Skipped', color: 'bg-gray-100 text-gray-700 dark:bg-gray-600 dark:text-gray-300' },
+  missed: { label: 'Missed', color: 'bg-gray-100 text-gray-700 dark:bg-gray-600 dark:text-gray-300' }
+};
+
+const timelineDotStyles: Record<TripStatus, string> = {
+  pending: 'bg-yellow-400',
+  accepted: 'bg-blue-500',
+  in_progress: 'bg-purple-500',
+  completed: 'bg-green-500',
+  cancelled: 'bg-gray-400'
+};
+
+const describeTransitionActor = (transition: TripStatusTransition) => {
+  if (transition.actor_role === 'system') return 'by the system';
+  const name = transition.actor?.name || transition.actor?.email;
+  if (name) return `by ${name}${transition.actor_role ? ` (${transition.actor_role})` : ''}`;
+  switch (transition.actor_role) {
+    case 'admin': return 'by an admin';
+    case 'driver': return 'by the driver';
+    case 'customer': return 'by the customer';
+    default: return null;
+  }
+};
+
+const flightStateStyles: Record<FlightState, string> = {
+  scheduled: 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300',
+  delayed: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-300',
+  landed: 'bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-300',
+  cancelled: 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300',
+  diverted: 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300'
+};
+
+const formatLeadTime = (minutes: number) => {
+  if (minutes % (24 * 60) === 0) return `${minutes / (24 * 60)}d before pickup`;
+  if (minutes % 60 === 0) return `${minutes / 60}h before pickup`;
+  return `${minutes}m before pickup`;
+};
+
 const BookingDetailModal: React.FC<BookingDetailModalProps> = ({
   booking,
   onClose,
@@ -62,11 +139,24 @@ const BookingDetailModal: React.FC<BookingDetailModalProps> = ({
   onViewLogs,
   onDuplicate,
   onManageFees,
-  onManagePriority
+  onManagePriority,
+  reminders,
+  loadingReminders,
+  onToggleRemindersOptOut,
+  timeline,
+  loadingTimeline,
+  seriesInfo,
+  loadingSeries,
+  onManageSeries,
+  onOpenOccurrence,
+  onManageFlight,
+  onCheckFlight,
+  checkingFlight
 }) => {
-  // Calculate total amount including custom fees
-  const customFeesTotal = (booking.custom_fees || []).reduce((sum, fee) => sum + fee.amount, 0);
-  const totalAmount = (booking.estimated_price || 0) + customFeesTotal;
+  const { userData } = useAuth();
+
+  // Calculate total amount including promo discount and custom fees
+  const priceSummary = summarizeBookingPrice(booking);
 
   // Format priority level
   const getPriorityLabel = (priority?: number) => {
@@ -79,6 +169,17 @@ const BookingDetailModal: React.FC<BookingDetailModalProps> = ({
   
   const priority = getPriorityLabel(booking.priority);
 
+  const scheduledReminders = reminders
+    ? reminderTimeline(booking, reminders.policies, new Date(), reminders.attemptedPolicyIds)
+    : [];
+  const hasEnabledPolicies = !!reminders?.policies.some(policy => policy.enabled);
+
+  const series = booking.series_id ? seriesInfo?.series : null;
+
+  const nextStatuses = allowedTripTransitions(booking.status, 'admin');
+  // Trips from before status changes were recorded only have their creation
+  const timelineIncomplete = !!timeline?.length && timeline[timeline.length - 1].to_status !== booking.status;
+
   return (
     <div className="fixed inset-0 bg-black/50 dark:bg-black/70 flex items-center justify-center z-50 p-4">
       <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-3xl overflow-hidden">
@@ -116,6 +217,15 @@ const BookingDetailModal: React.FC<BookingDetailModalProps> = ({
                     {booking.customer_phone && (
                       <div className="text-sm text-gray-600 dark:text-gray-300">{booking.customer_phone}</div>
                     )}
+                    {booking.customer_id && userData?.user_role === 'admin' && (
+                      <Link
+                        to={`/admin/customers?customer=${booking.customer_id}`}
+                        className="mt-1 inline-flex items-center text-sm text-blue-600 dark:text-blue-400 hover:underline"
+                      >
+                        <Contact className="h-4 w-4 mr-1" />
+                        View customer profile
+                      </Link>
+                    )}
                   </div>
                 </div>
               </div>
@@ -130,6 +240,57 @@ const BookingDetailModal: React.FC<BookingDetailModalProps> = ({
                     <div className="min-w-[100px] text-sm text-gray-500 dark:text-gray-400">Date & Time:</div>
                     <div className="font-medium dark:text-white">{format(new Date(booking.datetime), 'PPpp')}</div>
                   </div>
+                  <div className="flex items-start">
+                    <div className="min-w-[100px] text-sm text-gray-500 dark:text-gray-400">Flight:</div>
+                    {booking.flight_number && booking.flight_scheduled_arrival ? (
+                      <div>
+                        <div className="flex items-center gap-2 font-medium dark:text-white">
+                          {booking.flight_number}
+                          {isFlightState(booking.flight_status) && (
+                            <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${flightStateStyles[booking.flight_status]}`}>
+                              {FLIGHT_STATE_LABELS[booking.flight_status]}
+                              {flightDelayMinutes(booking) > 0 && ` ${flightDelayMinutes(booking)} min`}
+                            </span>
+                          )}
+                        </div>
+                        <div className="text-sm text-gray-600 dark:text-gray-300">
+                          Scheduled to land {format(new Date(booking.flight_scheduled_arrival), 'PPp')}
+                          {flightDelayMinutes(booking) > 0 && booking.flight_estimated_arrival && (
+                            <>, now expected {format(new Date(booking.flight_estimated_arrival), 'p')}</>
+                          )}
+                        </div>
+                        <div className="mt-1 flex items-center gap-3 text-xs">
+                          <span className="text-gray-500 dark:text-gray-400">
+                            {booking.flight_checked_at
+                              ? `Checked ${formatDistanceStrict(new Date(booking.flight_checked_at), new Date(), { addSuffix: true })}`
+                              : 'Not checked yet'}
+                          </span>
+                          <button
+                            onClick={onCheckFlight}
+                            disabled={checkingFlight}
+                            className="text-blue-600 dark:text-blue-400 hover:text-blue-800 dark:hover:text-blue-300 flex items-center disabled:opacity-50"
+                          >
+                            <RefreshCw className={`h-3 w-3 mr-1 ${checkingFlight ? 'animate-spin' : ''}`} />
+                            Check now
+                          </button>
+                          <button
+                            onClick={onManageFlight}
+                            className="text-blue-600 dark:text-blue-400 hover:text-blue-800 dark:hover:text-blue-300"
+                          >
+                            Edit
+                          </button>
+                        </div>
+                      </div>
+                    ) : (
+                      <button
+                        onClick={onManageFlight}
+                        className="text-sm text-blue-600 dark:text-blue-400 hover:text-blue-800 dark:hover:text-blue-300 flex items-center"
+                      >
+                        <Plane className="h-4 w-4 mr-1" />
+                        Add flight
+                      </button>
+                    )}
+                  </div>
                   <div className="flex items-start">
                     <div className="min-w-[100px] text-sm text-gray-500 dark:text-gray-400">Pickup:</div>
                     <div>
@@ -162,13 +323,12 @@ const BookingDetailModal: React.FC<BookingDetailModalProps> = ({
                       <select
                         value={booking.status}
                         onChange={(e) => onStatusChange(booking.id, e.target.value)}
-                        className="px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 dark:text-white"
+                        disabled={nextStatuses.length === 0}
+                        className="px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 dark:text-white disabled:opacity-70"
                       >
-                        <option value="pending">Pending</option>
-                        <option value="accepted">Accepted</option>
-                        <option value="in_progress">In Progress</option>
-                        <option value="completed">Completed</option>
-                        <option value="cancelled">Cancelled</option>
+                        {[booking.status, ...nextStatuses].map(status => (
+                          <option key={status} value={status}>{TRIP_STATUS_LABELS[status]}</option>
+                        ))}
                       </select>
                     </div>
                   </div>
@@ -202,6 +362,53 @@ const BookingDetailModal: React.FC<BookingDetailModalProps> = ({
                 </div>
               </div>
 
+              {/* Status Timeline Section */}
+              <div>
+                <h4 className="text-sm font-medium text-gray-500 dark:text-gray-400 mb-3 flex items-center">
+                  <Clock className="h-4 w-4 mr-2" />
+                  Status Timeline
+                </h4>
+
+                {loadingTimeline ? (
+                  <p className="text-sm text-gray-400 dark:text-gray-500">Loading timeline...</p>
+                ) : !timeline ? (
+                  <p className="text-sm text-gray-400 dark:text-gray-500 italic">Timeline unavailable.</p>
+                ) : timeline.length === 0 ? (
+                  <p className="text-sm text-gray-400 dark:text-gray-500 italic">No status changes recorded yet.</p>
+                ) : (
+                  <ol className="relative ml-1.5 border-l border-gray-200 dark:border-gray-700 space-y-3">
+                    {timeline.map((transition, index) => {
+                      const actor = describeTransitionActor(transition);
+                      const previous = index > 0 ? timeline[index - 1] : null;
+                      return (
+                        <li key={transition.id} className="ml-4">
+                          <span className={`absolute -left-1.5 mt-1 h-3 w-3 rounded-full border-2 border-white dark:border-gray-800 ${timelineDotStyles[transition.to_status]}`} />
+                          <div className="text-sm font-medium dark:text-white">
+                            {transition.from_status
+                              ? `${TRIP_STATUS_LABELS[transition.from_status]} → ${TRIP_STATUS_LABELS[transition.to_status]}`
+                              : `Booked as ${TRIP_STATUS_LABELS[transition.to_status].toLowerCase()}`}
+                          </div>
+                          <div className="text-xs text-gray-500 dark:text-gray-400">
+                            {format(new Date(transition.created_at), 'PPp')}
+                            {actor && ` · ${actor}`}
+                            {previous && ` · ${formatDistanceStrict(new Date(transition.created_at), new Date(previous.created_at))} later`}
+                          </div>
+                          {transition.reason && (
+                            <div className="text-xs text-gray-600 dark:text-gray-300 italic">{transition.reason}</div>
+                          )}
+                        </li>
+                      );
+                    })}
+                  </ol>
+                )}
+
+                {timelineIncomplete && (
+                  <p className="mt-2 text-xs text-gray-400 dark:text-gray-500 italic">
+                    Changes made before status history was recorded are not shown.
+                  </p>
+                )}
+              </div>
+
               {/* Notes Section */}
               <div>
                 <div className="flex items-center justify-between mb-3">
@@ -225,6 +432,139 @@ const BookingDetailModal: React.FC<BookingDetailModalProps> = ({
                   )}
                 </div>
               </div>
+
+              {/* Recurring Series Section */}
+              {booking.series_id && (
+                <div>
+                  <div className="flex items-center justify-between mb-3">
+                    <h4 className="text-sm font-medium text-gray-500 dark:text-gray-400 flex items-center">
+                      <Repeat className="h-4 w-4 mr-2" />
+                      Recurring Series
+                    </h4>
+                    <button
+                      onClick={onManageSeries}
+                      disabled={!series}
+                      className="text-xs text-blue-600 dark:text-blue-400 hover:text-blue-800 dark:hover:text-blue-300 disabled:opacity-50"
+                    >
+                      Edit Trip or Series
+                    </button>
+                  </div>
+
+                  {loadingSeries ? (
+                    <p className="text-sm text-gray-400 dark:text-gray-500">Loading series...</p>
+                  ) : !series ? (
+                    <p className="text-sm text-gray-400 dark:text-gray-500 italic">Series unavailable.</p>
+                  ) : (
+                    <>
+                      <div className="text-sm dark:text-white mb-1">
+                        {describeRecurrence(parseRecurrenceRule(series.rrule).rule)}
+                        {series.status === 'ended' && (
+                          <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">(all trips created)</span>
+                        )}
+                      </div>
+                      {booking.series_detached && (
+                        <p className="text-xs text-yellow-700 dark:text-yellow-400 mb-1">
+                          This trip was edited on its own; changes to the series no longer apply to it.
+                        </p>
+                      )}
+                      <ul className="max-h-40 overflow-y-auto divide-y divide-gray-100 dark:divide-gray-700 text-sm">
+                        {seriesInfo!.occurrences.map(occurrence => (
+                          <li key={occurrence.id}>
+                            <button
+                              onClick={() => onOpenOccurrence(occurrence)}
+                              disabled={occurrence.id === booking.id}
+                              className={`w-full flex justify-between py-1 text-left ${
+                                occurrence.id === booking.id
+                                  ? 'font-medium text-blue-700 dark:text-blue-300'
+                                  : 'text-gray-700 dark:text-gray-300 hover:text-blue-600 dark:hover:text-blue-400'
+                              }`}
+                            >
+                              <span>
+                                {format(new Date(occurrence.datetime), 'EEE PP p')}
+                                <span className="ml-2 font-mono text-xs text-gray-500 dark:text-gray-400">{occurrence.booking_reference}</span>
+                              </span>
+                              <span className="text-xs capitalize text-gray-500 dark:text-gray-400">
+                                {occurrence.status.replace('_', ' ')}
+                                {occurrence.series_detached && ' · edited'}
+                              </span>
+                            </button>
+                          </li>
+                        ))}
+                      </ul>
+                    </>
+                  )}
+                </div>
+              )}
+
+              {/* Reminders Section */}
+              <div>
+                <div className="flex items-center justify-between mb-3">
+                  <h4 className="text-sm font-medium text-gray-500 dark:text-gray-400 flex items-center">
+                    <Bell className="h-4 w-4 mr-2" />
+                    Automatic Reminders
+                  </h4>
+                  <label className="flex items-center text-xs text-gray-600 dark:text-gray-300">
+                    <input
+                      type="checkbox"
+                      checked={!!booking.reminders_opt_out}
+                      onChange={(e) => onToggleRemindersOptOut(e.target.checked)}
+                      className="h-3.5 w-3.5 mr-1.5 text-blue-600 border-gray-300 dark:border-gray-600 rounded"
+                    />
+                    Don't send automatic reminders
+                  </label>
+                </div>
+
+                {loadingReminders ? (
+                  <p className="text-sm text-gray-400 dark:text-gray-500">Loading reminders...</p>
+                ) : !reminders ? (
+                  <p className="text-sm text-gray-400 dark:text-gray-500 italic">Reminder schedule unavailable.</p>
+                ) : booking.reminders_opt_out ? (
+                  <p className="text-sm text-gray-400 dark:text-gray-500 italic">This booking will not get automatic reminders.</p>
+                ) : !hasEnabledPolicies ? (
+                  <p className="text-sm text-gray-400 dark:text-gray-500 italic">Automatic reminders are turned off in Platform Settings.</p>
+                ) : scheduledReminders.length === 0 ? (
+                  <p className="text-sm text-gray-400 dark:text-gray-500 italic">Only pending and accepted bookings get automatic reminders.</p>
+                ) : (
+                  <div className="space-y-2">
+                    {scheduledReminders.map(({ policy, sendAt, state }) => (
+                      <div key={policy.id} className="flex items-center justify-between text-sm">
+                        <div>
+                          <div className="font-medium dark:text-white">
+                            {findReminderTemplate(policy.template)?.label || policy.template}
+                            <span className="ml-2 text-xs font-normal text-gray-500 dark:text-gray-400">
+                              {formatLeadTime(policy.minutes_before)}, {policy.recipients.join(' & ')} by {policy.channels.join(' & ')}
+                            </span>
+                          </div>
+                          <div className="text-xs text-gray-500 dark:text-gray-400">{format(sendAt, 'PPp')}</div>
+                        </div>
+                        <span className={`px-2 py-0.5 text-xs font-semibold rounded-full ${reminderStateStyles[state].color}`}>
+                          {reminderStateStyles[state].label}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                {reminders && reminders.deliveries.length > 0 && (
+                  <div className="mt-3 pt-3 border-t border-gray-200 dark:border-gray-700">
+                    <div className="text-xs font-medium text-gray-500 dark:text-gray-400 mb-2">Recent messages</div>
+                    <ul className="space-y-1">
+                      {reminders.deliveries.slice(0, 5).map(delivery => (
+                        <li key={delivery.id} className="text-xs text-gray-600 dark:text-gray-300">
+                          <span className={delivery.status === 'failed' ? 'text-red-600 dark:text-red-400' : delivery.status === 'sent' ? 'text-green-600 dark:text-green-400' : ''}>
+                            {delivery.status}
+                          </span>
+                          {' '}{delivery.channel} to {delivery.recipient_type}
+                          {delivery.recipient && ` (${delivery.recipient})`}
+                          {' · '}{format(new Date(delivery.created_at), 'PPp')}
+                          {delivery.policy_id && ' · automatic'}
+                          {delivery.error && <span className="text-red-600 dark:text-red-400"> · {delivery.error}</span>}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+              </div>
             </div>
 
             {/* Payment & Action Sidebar */}
@@ -238,9 +578,16 @@ const BookingDetailModal: React.FC<BookingDetailModalProps> = ({
                 <div className="space-y-2">
                   <div className="flex justify-between text-sm">
                     <span className="text-gray-500 dark:text-gray-400">Base price:</span>
-                    <span className="font-medium dark:text-white">€{(booking.estimated_price || 0).toFixed(2)}</span>
+                    <span className="font-medium dark:text-white">€{priceSummary.fare.toFixed(2)}</span>
                   </div>
 
+                  {priceSummary.discount > 0 && (
+                    <div className="flex justify-between text-sm">
+                      <span className="text-gray-500 dark:text-gray-400">Promo discount:</span>
+                      <span className="font-medium text-green-600 dark:text-green-400">-€{priceSummary.discount.toFixed(2)}</span>
+                    </div>
+                  )}
+
                   {/* Custom Fees */}
                   {booking.custom_fees && booking.custom_fees.length > 0 && (
                     <>
@@ -259,7 +606,7 @@ const BookingDetailModal: React.FC<BookingDetailModalProps> = ({
                   
                   <div className="flex justify-between text-sm">
                     <span className="font-medium text-gray-700 dark:text-gray-300">Total:</span>
-                    <span className="font-bold dark:text-white">€{totalAmount.toFixed(2)}</span>
+                    <span className="font-bold dark:text-white">€{priceSummary.total.toFixed(2)}</span>
                   </div>
                 </div>
                 
@@ -302,6 +649,18 @@ const BookingDetailModal: React.FC<BookingDetailModalProps> = ({
                     </span>
                     <span>→</span>
                   </button>
+                  {!booking.series_id && (
+                    <button
+                      onClick={onManageSeries}
+                      className="w-full flex items-center justify-between px-3 py-2 bg-gray-50 dark:bg-gray-700 text-gray-600 dark:text-gray-300 rounded hover:bg-gray-100 dark:hover:bg-gray-600"
+                    >
+                      <span className="flex items-center">
+                        <Repeat className="h-4 w-4 mr-2" />
+                        Make Recurring
+                      </span>
+                      <span>→</span>
+                    </button>
+                  )}
                   <button
                     onClick={onViewLogs}
                     className="w-full flex items-center justify-between px-3 py-2 bg-gray-50 dark:bg-gray-700 text-gray-600 dark:text-gray-300 rounded hover:bg-gray-100 dark:hover:bg-gray-600"
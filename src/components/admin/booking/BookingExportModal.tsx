@@ -1,43 +1,38 @@
 import React, { useState } from 'react';
 import { X, FileDown, FileText, Calendar, Download, Loader2 } from 'lucide-react';
-
-interface Booking {
-  id: string;
-  booking_reference: string;
-  status: string;
-  customer_name: string;
-  datetime: string;
-  // ... other booking fields
-}
+import {
+  DEFAULT_BOOKING_EXPORT_OPTIONS,
+  type BookingExportDateRange,
+  type BookingExportFormat,
+  type BookingExportOptions
+} from '../../../lib/bookingExport';
 
 interface BookingExportModalProps {
-  bookings: Booking[];
+  /** Number of bookings matching the table filters */
+  bookingCount: number;
   onClose: () => void;
-  onExport: (format: 'csv' | 'excel', filters: any) => void;
+  /** Resolves once the file has been downloaded */
+  onExport: (format: BookingExportFormat, options: BookingExportOptions) => Promise<boolean>;
 }
 
 const BookingExportModal: React.FC<BookingExportModalProps> = ({
-  bookings,
+  bookingCount,
   onClose,
   onExport
 }) => {
-  const [format, setFormat] = useState<'csv' | 'excel'>('csv');
-  const [filters, setFilters] = useState({
-    includeNotes: true,
-    includeCustomerInfo: true,
-    includePayments: true,
-    includeFees: true,
-    dateRange: 'all' // 'all', 'thisMonth', 'lastMonth', 'thisYear'
-  });
+  const [format, setFormat] = useState<BookingExportFormat>('csv');
+  const [filters, setFilters] = useState<BookingExportOptions>(DEFAULT_BOOKING_EXPORT_OPTIONS);
   const [exporting, setExporting] = useState(false);
 
   const handleExport = async () => {
     setExporting(true);
     try {
-      await onExport(format, filters);
-      setTimeout(() => {
-        onClose();
-      }, 1000);
+      // Stays open when the export fails so the options can be changed
+      if (await onExport(format, filters)) {
+        setTimeout(() => {
+          onClose();
+        }, 1000);
+      }
     } finally {
       setExporting(false);
     }
@@ -162,7 +157,7 @@ const BookingExportModal: React.FC<BookingExportModalProps> = ({
             </h4>
             <select
               value={filters.dateRange}
-              onChange={(e) => setFilters({...filters, dateRange: e.target.value})}
+              onChange={(e) => setFilters({...filters, dateRange: e.target.value as BookingExportDateRange})}
               className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
             >
               <option value="all">All dates</option>
@@ -171,6 +166,29 @@ const BookingExportModal: React.FC<BookingExportModalProps> = ({
               <option value="thisYear">This year</option>
               <option value="custom">Custom range</option>
             </select>
+            {filters.dateRange === 'custom' && (
+              <div className="mt-3 grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">From</label>
+                  <input
+                    type="date"
+                    value={filters.from || ''}
+                    onChange={(e) => setFilters({...filters, from: e.target.value || undefined})}
+                    className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">To</label>
+                  <input
+                    type="date"
+                    value={filters.to || ''}
+                    min={filters.from}
+                    onChange={(e) => setFilters({...filters, to: e.target.value || undefined})}
+                    className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                  />
+                </div>
+              </div>
+            )}
           </div>
 
           <div className="mt-6 p-3 bg-blue-50 dark:bg-blue-900/20 rounded-md flex items-start">
@@ -178,7 +196,12 @@ const BookingExportModal: React.FC<BookingExportModalProps> = ({
             <div className="ml-3">
               <p className="text-sm font-medium text-blue-800 dark:text-blue-300">Export Preview</p>
               <p className="text-xs text-blue-600 dark:text-blue-400 mt-1">
-                Your export will include {bookings.length} bookings with the currently applied filters.
+                Your export will include {filters.dateRange === 'all' ? '' : 'up to '}{bookingCount} bookings with the currently applied filters.
+              </p>
+              <p className="text-xs text-blue-600 dark:text-blue-400 mt-1">
+                {format === 'excel'
+                  ? `Excel workbooks get a sheet each for ${['bookings', filters.includePayments && 'payments', filters.includeFees && 'custom fees'].filter(Boolean).join(', ').replace(/, ([^,]*)$/, ' and $1')}, with real dates and amounts.`
+                  : 'CSV files contain the bookings sheet only.'}
               </p>
             </div>
           </div>
@@ -195,7 +218,7 @@ const BookingExportModal: React.FC<BookingExportModalProps> = ({
           <button
             type="button"
             onClick={handleExport}
-            disabled={exporting}
+            disabled={exporting || (filters.dateRange === 'custom' && !filters.from && !filters.to)}
             className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 flex items-center disabled:opacity-70"
           >
             {exporting ? (
@@ -206,7 +229,7 @@ const BookingExportModal: React.FC<BookingExportModalProps> = ({
             ) : (
               <>
                 <Download className="h-4 w-4 mr-2" />
-                Export {format.toUpperCase()}
+                Export {format === 'excel' ? 'XLSX' : 'CSV'}
               </>
             )}
           </button>
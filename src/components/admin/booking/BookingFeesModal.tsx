@@ -1,19 +1,14 @@
 import React, { useState, useEffect } from 'react';
 import { X, Save, Loader2, CreditCard, Plus, Trash2, Eye, EyeOff, DollarSign } from 'lucide-react';
 import { v4 as uuidv4 } from 'uuid';
-
-interface CustomFee {
-  id: string;
-  name: string;
-  amount: number;
-  customer_visible: boolean;
-}
+import { summarizeBookingPrice, type CustomFee } from '../../../lib/pricing';
 
 interface Booking {
   id: string;
   booking_reference: string;
   customer_name: string;
   estimated_price: number;
+  promo_discount?: number;
   custom_fees?: CustomFee[];
 }
 
@@ -31,10 +26,8 @@ const BookingFeesModal: React.FC<BookingFeesModalProps> = ({
   const [fees, setFees] = useState<CustomFee[]>(booking.custom_fees || []);
   const [saving, setSaving] = useState(false);
 
-  // Calculate totals
-  const basePrice = booking.estimated_price || 0;
-  const feesTotal = fees.reduce((sum, fee) => sum + (fee.amount || 0), 0);
-  const grandTotal = basePrice + feesTotal;
+  // Calculate totals with the shared pricing engine
+  const priceSummary = summarizeBookingPrice({ ...booking, custom_fees: fees });
 
   const handleAddFee = () => {
     setFees([
@@ -99,8 +92,14 @@ const BookingFeesModal: React.FC<BookingFeesModalProps> = ({
             </h4>
             <div className="flex items-center justify-between p-3 bg-gray-50 dark:bg-gray-700 rounded-md">
               <span className="text-gray-700 dark:text-gray-300">Base fare</span>
-              <span className="font-medium text-gray-900 dark:text-white">€{basePrice.toFixed(2)}</span>
+              <span className="font-medium text-gray-900 dark:text-white">€{priceSummary.fare.toFixed(2)}</span>
             </div>
+            {priceSummary.discount > 0 && (
+              <div className="flex items-center justify-between p-3 mt-2 bg-gray-50 dark:bg-gray-700 rounded-md">
+                <span className="text-gray-700 dark:text-gray-300">Promo discount</span>
+                <span className="font-medium text-green-600 dark:text-green-400">-€{priceSummary.discount.toFixed(2)}</span>
+              </div>
+            )}
           </div>
 
           {/* Custom Fees */}
@@ -184,7 +183,7 @@ const BookingFeesModal: React.FC<BookingFeesModalProps> = ({
             <div className="flex items-center justify-between p-3 bg-gray-100 dark:bg-gray-700 rounded-md font-medium">
               <span className="text-gray-900 dark:text-white">Total Amount</span>
               <span className="text-lg font-semibold text-gray-900 dark:text-white">
-                €{grandTotal.toFixed(2)}
+                €{priceSummary.total.toFixed(2)}
               </span>
             </div>
             <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
@@ -0,0 +1,154 @@
+import React, { useState } from 'react';
+import { X, Save, Loader2, Plane, Trash2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { validateFlightDetails } from '../../../lib/flights';
+
+interface Booking {
+  id: string;
+  booking_reference: string;
+  flight_number?: string | null;
+  flight_scheduled_arrival?: string | null;
+}
+
+interface BookingFlightModalProps {
+  booking: Booking;
+  onClose: () => void;
+  /** Nulls remove the flight */
+  onSave: (bookingId: string, flightNumber: string | null, scheduledArrival: string | null) => Promise<void>;
+}
+
+// datetime-local inputs work in local time without a timezone suffix
+const toInputValue = (value?: string | null) => (value ? format(new Date(value), "yyyy-MM-dd'T'HH:mm") : '');
+
+const BookingFlightModal: React.FC<BookingFlightModalProps> = ({
+  booking,
+  onClose,
+  onSave
+}) => {
+  const [flightNumber, setFlightNumber] = useState(booking.flight_number || '');
+  const [arrival, setArrival] = useState(toInputValue(booking.flight_scheduled_arrival));
+  const [errors, setErrors] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  const save = async (number: string, scheduledArrival: string) => {
+    const flight = validateFlightDetails(
+      number,
+      scheduledArrival && !Number.isNaN(Date.parse(scheduledArrival)) ? new Date(scheduledArrival).toISOString() : scheduledArrival
+    );
+    setErrors(flight.errors);
+    if (flight.errors.length > 0) return;
+
+    setSaving(true);
+    try {
+      await onSave(booking.id, flight.flightNumber, flight.scheduledArrival);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    save(flightNumber, arrival);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 dark:bg-black/70 flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-md overflow-hidden">
+        <div className="px-6 py-4 bg-blue-50 dark:bg-blue-900/30 border-b dark:border-gray-700 flex justify-between items-center">
+          <h3 className="text-lg font-medium text-gray-900 dark:text-white flex items-center">
+            <Plane className="h-5 w-5 mr-2" />
+            Flight: {booking.booking_reference}
+          </h3>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-500 dark:hover:text-gray-300"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit}>
+          <div className="p-6 space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Flight Number
+              </label>
+              <input
+                type="text"
+                value={flightNumber}
+                onChange={(e) => setFlightNumber(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                placeholder="e.g. BA123"
+                autoFocus
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Scheduled Arrival
+              </label>
+              <input
+                type="datetime-local"
+                value={arrival}
+                onChange={(e) => setArrival(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              Set the pickup time relative to the scheduled arrival. When the flight is delayed, the pickup moves by the same amount and the driver is notified.
+            </p>
+
+            {errors.length > 0 && (
+              <ul className="text-sm text-red-600 dark:text-red-400 list-disc list-inside">
+                {errors.map(error => <li key={error}>{error}</li>)}
+              </ul>
+            )}
+          </div>
+
+          <div className="px-6 py-4 bg-gray-50 dark:bg-gray-700/50 border-t dark:border-gray-700 flex justify-between">
+            <div>
+              {booking.flight_number && (
+                <button
+                  type="button"
+                  onClick={() => save('', '')}
+                  disabled={saving}
+                  className="px-4 py-2 text-red-600 dark:text-red-400 rounded-md hover:bg-red-50 dark:hover:bg-red-900/20 flex items-center disabled:opacity-70"
+                >
+                  <Trash2 className="h-4 w-4 mr-2" />
+                  Remove Flight
+                </button>
+              )}
+            </div>
+            <div className="flex space-x-3">
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-4 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 rounded-md hover:bg-gray-100 dark:hover:bg-gray-700"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={saving}
+                className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 flex items-center disabled:opacity-70"
+              >
+                {saving ? (
+                  <>
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    Saving...
+                  </>
+                ) : (
+                  <>
+                    <Save className="h-4 w-4 mr-2" />
+                    Save Flight
+                  </>
+                )}
+              </button>
+            </div>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default BookingFlightModal;
\ No newline at end of file
@@ -1,5 +1,5 @@
 import React from 'react';
-import { X, Search, Clock, Users, Car, Tag, MessageSquare, CreditCard, Copy, CalendarPlus, AlertCircle } from 'lucide-react';
+import { X, Search, Clock, Users, Car, Tag, MessageSquare, CreditCard, Copy, CalendarPlus, AlertCircle, Repeat, Plane } from 'lucide-react';
 import { format, parseISO } from 'date-fns';
 
 interface ActivityLog {
@@ -39,6 +39,7 @@ const BookingLogModal: React.FC<BookingLogModalProps> = ({
       case 'status_update':
         return <Clock className="h-4 w-4 text-blue-500 dark:text-blue-400" />;
       case 'driver_assignment':
+      case 'driver_assigned':
         return <Car className="h-4 w-4 text-purple-500 dark:text-purple-400" />;
       case 'notes_updated':
         return <MessageSquare className="h-4 w-4 text-gray-500 dark:text-gray-400" />;
@@ -46,10 +47,38 @@ const BookingLogModal: React.FC<BookingLogModalProps> = ({
         return <CreditCard className="h-4 w-4 text-green-500 dark:text-green-400" />;
       case 'priority_changed':
         return <Tag className="h-4 w-4 text-yellow-500 dark:text-yellow-400" />;
+      case 'tags_added':
+        return <Tag className="h-4 w-4 text-blue-500 dark:text-blue-400" />;
       case 'booking_duplicated':
         return <Copy className="h-4 w-4 text-gray-500 dark:text-gray-400" />;
+      case 'auto_dispatched':
+        return <Car className="h-4 w-4 text-purple-500 dark:text-purple-400" />;
+      case 'dispatch_escalated':
+        return <AlertCircle className="h-4 w-4 text-orange-500 dark:text-orange-400" />;
+      case 'offer_sent':
+      case 'offer_accepted':
+        return <Car className="h-4 w-4 text-blue-500 dark:text-blue-400" />;
+      case 'offer_declined':
+      case 'offer_expired':
+      case 'offers_withdrawn':
+        return <X className="h-4 w-4 text-gray-500 dark:text-gray-400" />;
+      case 'offers_exhausted':
+        return <AlertCircle className="h-4 w-4 text-orange-500 dark:text-orange-400" />;
       case 'reminder_sent':
         return <AlertCircle className="h-4 w-4 text-red-500 dark:text-red-400" />;
+      case 'reminder_failed':
+        return <X className="h-4 w-4 text-red-500 dark:text-red-400" />;
+      case 'series_created':
+      case 'series_updated':
+      case 'series_occurrence_created':
+      case 'series_occurrence_edited':
+        return <Repeat className="h-4 w-4 text-blue-500 dark:text-blue-400" />;
+      case 'series_occurrence_removed':
+        return <Repeat className="h-4 w-4 text-gray-500 dark:text-gray-400" />;
+      case 'booking_cancelled':
+        return <CreditCard className="h-4 w-4 text-red-500 dark:text-red-400" />;
+      case 'pickup_rescheduled':
+        return <Plane className="h-4 w-4 text-yellow-500 dark:text-yellow-400" />;
       default:
         return <Clock className="h-4 w-4 text-gray-500 dark:text-gray-400" />;
     }
@@ -62,7 +91,9 @@ const BookingLogModal: React.FC<BookingLogModalProps> = ({
     
     switch (action) {
       case 'created':
-        return `Booking created by ${userName}`;
+        return details?.driver_name
+          ? `Booking created by ${userName} and assigned to ${details.driver_name}`
+          : `Booking created by ${userName}`;
       
       case 'status_update':
         if (details?.previous_status && details?.new_status) {
@@ -71,7 +102,10 @@ const BookingLogModal: React.FC<BookingLogModalProps> = ({
         return `Status updated by ${userName}`;
       
       case 'driver_assignment':
-        return `Driver assigned by ${userName}`;
+      case 'driver_assigned':
+        return details?.driver_name
+          ? `${details.driver_name} assigned by ${userName}`
+          : `Driver assigned by ${userName}`;
       
       case 'notes_updated':
         return `Notes updated by ${userName}`;
@@ -89,6 +123,9 @@ const BookingLogModal: React.FC<BookingLogModalProps> = ({
         }
         return `Priority updated by ${userName}`;
       
+      case 'tags_added':
+        return `Tagged ${(details?.tags || []).join(', ')} by ${userName}`;
+      
       case 'booking_duplicated':
         if (details?.new_booking_reference) {
           return `Booking duplicated by ${userName} as ${details.new_booking_reference}`;
@@ -96,7 +133,80 @@ const BookingLogModal: React.FC<BookingLogModalProps> = ({
         return `Booking duplicated by ${userName}`;
       
       case 'reminder_sent':
-        return `Reminder sent to customer by ${userName}`;
+        if (details?.automatic) {
+          return `Automatic reminder sent to ${details.recipient || 'recipients'}`;
+        }
+        return details?.recipient
+          ? `Reminder sent to ${details.recipient} by ${userName}`
+          : `Reminder sent to customer by ${userName}`;
+      
+      case 'reminder_failed':
+        return details?.automatic
+          ? 'Automatic reminder could not be delivered'
+          : `Reminder by ${userName} could not be delivered`;
+      
+      case 'auto_dispatched':
+        return `Automatically assigned to ${details?.driver_name || 'a driver'}`;
+      
+      case 'dispatch_escalated':
+        return `No driver qualified for automatic assignment; escalated to admins${
+          details?.admins_notified ? ` and ${details.admins_notified} emailed` : ''
+        }`;
+      
+      case 'offer_sent':
+        return `Offered to ${details?.driver_name || 'a driver'}${
+          details?.expires_at ? `, open until ${format(parseISO(details.expires_at), 'p')}` : ''
+        }`;
+      
+      case 'offer_accepted':
+        return `${details?.driver_name || 'Driver'} accepted the offer`;
+      
+      case 'offer_declined':
+        return `${details?.driver_name || 'Driver'} declined the offer${details?.reason ? `: "${details.reason}"` : ''}`;
+      
+      case 'offer_expired':
+        return `Offer to ${details?.driver_name || 'a driver'} expired without a response`;
+      
+      case 'offers_withdrawn':
+        return `${details?.offers || 'Open'} offer(s) withdrawn by ${userName}`;
+      
+      case 'offers_exhausted':
+        return 'Every offered driver declined or did not respond; marked urgent';
+      
+      case 'series_created':
+        return `Made recurring by ${userName}; ${details?.trips_created || 0} upcoming trip(s) created`;
+      
+      case 'series_updated':
+        return `Recurring series updated by ${userName}`;
+      
+      case 'series_occurrence_created':
+        return 'Created from a recurring series';
+      
+      case 'series_occurrence_edited':
+        return `This trip was edited on its own by ${userName}`;
+      
+      case 'series_occurrence_removed':
+        return 'Cancelled by a change to the recurring series';
+      
+      case 'booking_cancelled': {
+        const fee = `€${Number(details?.fee || 0).toFixed(2)} fee${details?.fee_overridden ? ' (overridden)' : ''}`;
+        const settlement = details?.refund
+          ? `, €${Number(details.refund).toFixed(2)} to refund`
+          : details?.outstanding
+            ? `, €${Number(details.outstanding).toFixed(2)} owed`
+            : '';
+        return `Cancelled by ${userName} with a ${fee}${settlement}${details?.reason ? `: "${details.reason}"` : ''}`;
+      }
+      
+      case 'pickup_rescheduled': {
+        const moved = details?.previous_datetime && details?.datetime
+          ? ` from ${format(parseISO(details.previous_datetime), 'p')} to ${format(parseISO(details.datetime), 'p')}`
+          : '';
+        const reason = details?.delay_minutes
+          ? `flight ${details.flight_number} is ${details.delay_minutes} min late`
+          : `flight ${details?.flight_number || ''} is back on time`;
+        return `Pickup moved${moved}: ${reason}`;
+      }
       
       default:
         return `${action.replace(/_/g, ' ')} by ${userName}`;
@@ -151,12 +261,44 @@ const BookingLogModal: React.FC<BookingLogModalProps> = ({
                   <div className="flex-grow">
                     <div className="text-sm font-medium text-gray-900 dark:text-white">
                       {formatAction(log)}
+                      {log.details?.bulk && (
+                        <span className="ml-2 text-xs font-normal text-gray-500 dark:text-gray-400">(bulk update)</span>
+                      )}
                     </div>
                     <div className="text-xs text-gray-500 dark:text-gray-400 mt-1">
                       {format(parseISO(log.created_at), 'PPp')}
                     </div>
                     
                     {/* Show additional details for certain action types */}
+                    {(log.action === 'auto_dispatched' || log.action === 'dispatch_escalated') && log.details?.candidates && (
+                      <div className="mt-2 px-2 py-1 bg-gray-50 dark:bg-gray-700/50 text-xs text-gray-700 dark:text-gray-300 rounded">
+                        <div className="font-medium">{log.details.reason}</div>
+                        <ul className="mt-1 space-y-0.5">
+                          {log.details.candidates.map((candidate: any) => (
+                            <li key={candidate.driver_id}>
+                              {candidate.name || candidate.driver_id}: {candidate.eligible
+                                ? `qualified, ${candidate.recent_trips} recent trip(s)`
+                                : candidate.reasons.join('; ')}
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    )}
+                    
+                    {(log.action === 'reminder_sent' || log.action === 'reminder_failed') && log.details?.deliveries && (
+                      <ul className="mt-2 px-2 py-1 bg-gray-50 dark:bg-gray-700/50 text-xs text-gray-700 dark:text-gray-300 rounded space-y-0.5">
+                        {log.details.deliveries.map((delivery: any) => (
+                          <li key={delivery.id}>
+                            {delivery.channel === 'sms' ? 'SMS' : 'Email'} to {delivery.recipient_type}:{' '}
+                            <span className={delivery.status === 'sent' ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}>
+                              {delivery.status}
+                            </span>
+                            {delivery.error && ` (${delivery.error})`}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                    
                     {log.action === 'fees_updated' && log.details?.fees_total !== undefined && (
                       <div className="mt-2 px-2 py-1 bg-green-50 dark:bg-green-900/20 text-xs text-green-700 dark:text-green-300 rounded">
                         Total fees amount: €{log.details.fees_total.toFixed(2)}
@@ -1,11 +1,30 @@
 import React, { useState } from 'react';
 import { X, Save, Loader2, Bell, AlertCircle, Tag, Plus } from 'lucide-react';
+import {
+  DEFAULT_REMINDER_TEMPLATE,
+  findReminderTemplate,
+  REMINDER_TEMPLATES,
+  renderReminder,
+  type ReminderChannel,
+  type ReminderRecipient,
+  type ReminderRequest,
+  type ReminderTemplateId
+} from '../../../lib/reminderTemplates';
 
 interface Booking {
   id: string;
   booking_reference: string;
   customer_name: string;
   customer_email: string;
+  customer_phone?: string;
+  datetime: string;
+  pickup_address?: string;
+  dropoff_address?: string;
+  driver_id?: string | null;
+  driver?: {
+    name: string;
+    phone?: string;
+  } | null;
   priority?: number;
   internal_tags?: string[];
 }
@@ -14,7 +33,7 @@ interface BookingReminderModalProps {
   booking: Booking;
   onClose: () => void;
   onUpdatePriority: (bookingId: string, priority: number) => void;
-  onSendReminder: (booking: Booking) => void;
+  onSendReminder: (booking: Booking, options: Omit<ReminderRequest, 'bookingId'>) => void;
 }
 
 const PRIORITY_LEVELS = [
@@ -38,6 +57,23 @@ const BookingReminderModal: React.FC<BookingReminderModalProps> = ({
   const [newTag, setNewTag] = useState('');
   const [saving, setSaving] = useState(false);
   const [sending, setSending] = useState(false);
+  const [templateId, setTemplateId] = useState<ReminderTemplateId>(DEFAULT_REMINDER_TEMPLATE);
+  const [recipients, setRecipients] = useState<ReminderRecipient[]>(['customer']);
+  const [channels, setChannels] = useState<ReminderChannel[]>(['email']);
+
+  const template = findReminderTemplate(templateId)!;
+  // Recipients the template is not written for are dropped when switching templates
+  const activeRecipients = recipients.filter(r => template.recipients.includes(r) && (r === 'customer' || booking.driver_id));
+  const preview = renderReminder(
+    template,
+    booking,
+    booking.driver ? { name: booking.driver.name, phone: booking.driver.phone } : null,
+    activeRecipients[0] === 'driver' ? booking.driver?.name || null : booking.customer_name,
+    { timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone }
+  );
+
+  const toggle = <T,>(list: T[], value: T) =>
+    list.includes(value) ? list.filter(item => item !== value) : [...list, value];
 
   const handleUpdatePriority = async () => {
     setSaving(true);
@@ -51,7 +87,7 @@ const BookingReminderModal: React.FC<BookingReminderModalProps> = ({
   const handleSendReminder = async () => {
     setSending(true);
     try {
-      await onSendReminder(booking);
+      await onSendReminder(booking, { template: templateId, recipients: activeRecipients, channels });
     } finally {
       setSending(false);
     }
@@ -192,12 +228,61 @@ const BookingReminderModal: React.FC<BookingReminderModalProps> = ({
               Send Customer Reminder
             </h4>
             <p className="text-xs text-blue-600 dark:text-blue-400 mb-3">
-              Send a reminder email to the customer about this booking.
+              Send a reminder about this booking to the customer, the assigned driver or both.
             </p>
+
+            <select
+              value={templateId}
+              onChange={(e) => setTemplateId(e.target.value as ReminderTemplateId)}
+              className="w-full mb-2 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm"
+              aria-label="Reminder template"
+            >
+              {REMINDER_TEMPLATES.map(t => (
+                <option key={t.id} value={t.id}>{t.label}</option>
+              ))}
+            </select>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">{template.description}</p>
+
+            <div className="flex flex-wrap gap-x-4 gap-y-1 mb-3 text-sm text-gray-700 dark:text-gray-300">
+              {(['customer', 'driver'] as ReminderRecipient[]).map(recipient => {
+                const unavailable = !template.recipients.includes(recipient) || (recipient === 'driver' && !booking.driver_id);
+                return (
+                  <label key={recipient} className={`flex items-center ${unavailable ? 'opacity-50' : ''}`}>
+                    <input
+                      type="checkbox"
+                      checked={activeRecipients.includes(recipient)}
+                      disabled={unavailable}
+                      onChange={() => setRecipients(toggle(recipients, recipient))}
+                      className="mr-1.5 rounded border-gray-300 dark:border-gray-600"
+                    />
+                    {recipient === 'customer' ? 'Customer' : booking.driver_id ? 'Driver' : 'Driver (none assigned)'}
+                  </label>
+                );
+              })}
+              <span className="text-gray-300 dark:text-gray-600">|</span>
+              {(['email', 'sms'] as ReminderChannel[]).map(channel => (
+                <label key={channel} className="flex items-center">
+                  <input
+                    type="checkbox"
+                    checked={channels.includes(channel)}
+                    onChange={() => setChannels(toggle(channels, channel))}
+                    className="mr-1.5 rounded border-gray-300 dark:border-gray-600"
+                  />
+                  {channel === 'email' ? 'Email' : 'SMS'}
+                </label>
+              ))}
+            </div>
+
+            {/* Preview for the first recipient; the message is rendered again on the server */}
+            <div className="mb-3 p-2 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded text-xs text-gray-700 dark:text-gray-300 max-h-40 overflow-y-auto">
+              <div className="font-medium mb-1">{preview.subject}</div>
+              <div className="whitespace-pre-line">{channels.includes('email') ? preview.text : preview.sms}</div>
+            </div>
+
             <button
               onClick={handleSendReminder}
-              disabled={sending}
-              className="w-full py-2 px-3 bg-blue-600 text-white rounded hover:bg-blue-700 flex items-center justify-center"
+              disabled={sending || activeRecipients.length === 0 || channels.length === 0}
+              className="w-full py-2 px-3 bg-blue-600 text-white rounded hover:bg-blue-700 flex items-center justify-center disabled:opacity-70"
             >
               {sending ? (
                 <>
@@ -207,7 +292,7 @@ const BookingReminderModal: React.FC<BookingReminderModalProps> = ({
               ) : (
                 <>
                   <Bell className="h-4 w-4 mr-2" />
-                  Send Reminder to {booking.customer_name}
+                  Send Reminder
                 </>
               )}
             </button>
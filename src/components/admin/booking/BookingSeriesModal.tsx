@@ -0,0 +1,476 @@
+import React, { useState } from 'react';
+import { X, Save, Loader2, Repeat, Plus, AlertCircle } from 'lucide-react';
+import { getLocalTimeParts } from '../../../lib/pricing';
+import {
+  describeRecurrence,
+  formatRecurrenceRule,
+  parsePickupTime,
+  parseRecurrenceRule,
+  RECURRENCE_WEEKDAYS,
+  SERIES_GENERATE_DAYS,
+  seriesOccurrences,
+  WORKING_WEEKDAYS,
+  zonedDateTime,
+  type BookingSeries,
+  type RecurrenceWeekday,
+  type SeriesChanges,
+  type SeriesEditableField
+} from '../../../lib/recurrence';
+
+interface Booking {
+  id: string;
+  booking_reference: string;
+  datetime: string;
+  customer_name: string;
+  customer_email: string;
+  customer_phone?: string;
+  pickup_address?: string;
+  dropoff_address?: string;
+  passengers?: number | null;
+  notes?: string;
+  series_date?: string | null;
+}
+
+export interface SeriesUpdate {
+  scope: 'occurrence' | 'series';
+  changes: SeriesChanges;
+  pickupTime?: string;
+  rrule?: string;
+  skipDates?: string[];
+}
+
+interface BookingSeriesModalProps {
+  booking: Booking;
+  /** The booking's series; null to make the booking recurring */
+  series: BookingSeries | null;
+  timeZone: string;
+  onClose: () => void;
+  onCreate: (rrule: string, skipDates: string[]) => Promise<void>;
+  onUpdate: (update: SeriesUpdate) => Promise<void>;
+}
+
+type RepeatMode = 'daily' | 'weekly' | 'custom';
+
+// Monday first, as shown in the weekday picker
+const WEEKDAY_OPTIONS: { value: RecurrenceWeekday; label: string }[] = [
+  { value: 'MO', label: 'Mon' },
+  { value: 'TU', label: 'Tue' },
+  { value: 'WE', label: 'Wed' },
+  { value: 'TH', label: 'Thu' },
+  { value: 'FR', label: 'Fri' },
+  { value: 'SA', label: 'Sat' },
+  { value: 'SU', label: 'Sun' }
+];
+
+const FIELD_LABELS: Record<SeriesEditableField, string> = {
+  pickup_address: 'Pickup address',
+  dropoff_address: 'Dropoff address',
+  customer_name: 'Customer name',
+  customer_email: 'Customer email',
+  customer_phone: 'Customer phone',
+  passengers: 'Passengers',
+  notes: 'Notes'
+};
+
+const PREVIEW_TRIPS = 8;
+
+const formatMinutes = (minutes: number) =>
+  `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+
+const inputClass = 'w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-1 focus:ring-blue-500';
+
+const BookingSeriesModal: React.FC<BookingSeriesModalProps> = ({
+  booking,
+  series,
+  timeZone,
+  onClose,
+  onCreate,
+  onUpdate
+}) => {
+  const isEditing = !!series;
+  const initialRule = series ? parseRecurrenceRule(series.rrule).rule : null;
+  const start = getLocalTimeParts(series?.starts_at || booking.datetime, timeZone);
+  const bookingTime = formatMinutes(getLocalTimeParts(booking.datetime, timeZone).minutes);
+
+  const [scope, setScope] = useState<'occurrence' | 'series'>('series');
+  const [mode, setMode] = useState<RepeatMode>(initialRule?.freq === 'DAILY' ? 'daily' : 'weekly');
+  const [repeatInterval, setRepeatInterval] = useState(initialRule?.interval || 1);
+  const [byDay, setByDay] = useState<RecurrenceWeekday[]>(initialRule ? initialRule.byDay : WORKING_WEEKDAYS);
+  const [endType, setEndType] = useState<'until' | 'count'>(initialRule?.count ? 'count' : 'until');
+  const [until, setUntil] = useState(initialRule?.until || '');
+  const [count, setCount] = useState(initialRule?.count || 10);
+  const [customRule, setCustomRule] = useState(series?.rrule || '');
+  const [skipDates, setSkipDates] = useState<string[]>(series?.skip_dates || []);
+  const [newSkipDate, setNewSkipDate] = useState('');
+  const [pickupTime, setPickupTime] = useState(bookingTime);
+  const [fields, setFields] = useState<Record<SeriesEditableField, string>>({
+    pickup_address: booking.pickup_address || '',
+    dropoff_address: booking.dropoff_address || '',
+    customer_name: booking.customer_name || '',
+    customer_email: booking.customer_email || '',
+    customer_phone: booking.customer_phone || '',
+    passengers: booking.passengers ? String(booking.passengers) : '',
+    notes: booking.notes || ''
+  });
+  const [saving, setSaving] = useState(false);
+
+  const rrule = mode === 'custom'
+    ? customRule
+    : formatRecurrenceRule({
+      freq: mode === 'daily' ? 'DAILY' : 'WEEKLY',
+      interval: repeatInterval,
+      byDay: mode === 'weekly' ? byDay : [],
+      count: endType === 'count' ? count : null,
+      until: endType === 'until' ? until || null : null
+    });
+  const { rule, errors } = parseRecurrenceRule(rrule);
+
+  const pickupMinutes = parsePickupTime(pickupTime);
+  // The series' pickup time follows the edited time when the whole series changes
+  const startsAt = isEditing && scope === 'series' && pickupMinutes !== null
+    ? zonedDateTime(start.date, pickupMinutes, timeZone).toISOString()
+    : series?.starts_at || booking.datetime;
+  const trips = errors.length === 0
+    ? seriesOccurrences({ rule, startsAt, timeZone, skipDates }, rule.until || '9999-12-31')
+    : [];
+
+  const changes: SeriesChanges = {};
+  for (const field of Object.keys(fields) as SeriesEditableField[]) {
+    const original = field === 'passengers'
+      ? (booking.passengers ? String(booking.passengers) : '')
+      : (booking[field] || '');
+    if (fields[field] !== original) changes[field] = fields[field];
+  }
+
+  const recurrenceChanged = !series || rrule !== series.rrule ||
+    JSON.stringify([...skipDates].sort()) !== JSON.stringify([...series.skip_dates].sort());
+  const showRecurrence = !isEditing || scope === 'series';
+  const invalid = (showRecurrence && errors.length > 0) || pickupMinutes === null;
+
+  const toggleDay = (day: RecurrenceWeekday) => {
+    setByDay(byDay.includes(day) ? byDay.filter(d => d !== day) : [...byDay, day]);
+  };
+
+  const addSkipDate = () => {
+    if (newSkipDate && !skipDates.includes(newSkipDate)) {
+      setSkipDates([...skipDates, newSkipDate].sort());
+    }
+    setNewSkipDate('');
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      if (!isEditing) {
+        await onCreate(rrule, skipDates);
+      } else {
+        await onUpdate({
+          scope,
+          changes,
+          pickupTime: pickupTime !== bookingTime ? pickupTime : undefined,
+          ...(scope === 'series' && recurrenceChanged ? { rrule, skipDates } : {})
+        });
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const formatTrip = (datetime: string) =>
+    new Date(datetime).toLocaleString('en-GB', {
+      timeZone,
+      weekday: 'short',
+      day: 'numeric',
+      month: 'short',
+      year: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+
+  return (
+    <div className="fixed inset-0 bg-black/50 dark:bg-black/70 flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-2xl max-h-[90vh] flex flex-col">
+        <div className="px-6 py-4 bg-blue-50 dark:bg-blue-900/30 border-b dark:border-gray-700 flex justify-between items-center">
+          <h3 className="text-lg font-medium text-gray-900 dark:text-white flex items-center">
+            <Repeat className="h-5 w-5 mr-2" />
+            {isEditing ? 'Edit Recurring Booking' : 'Make Recurring'}: {booking.booking_reference}
+          </h3>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-500 dark:hover:text-gray-300"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6 overflow-y-auto">
+          {isEditing && (
+            <div>
+              <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Apply changes to</h4>
+              <div className="flex flex-col space-y-1 text-sm text-gray-700 dark:text-gray-300">
+                <label className="flex items-center">
+                  <input
+                    type="radio"
+                    checked={scope === 'occurrence'}
+                    onChange={() => setScope('occurrence')}
+                    className="mr-2"
+                  />
+                  Only this trip ({booking.series_date || booking.datetime.slice(0, 10)})
+                </label>
+                <label className="flex items-center">
+                  <input
+                    type="radio"
+                    checked={scope === 'series'}
+                    onChange={() => setScope('series')}
+                    className="mr-2"
+                  />
+                  The whole series: all upcoming trips not edited on their own
+                </label>
+              </div>
+            </div>
+          )}
+
+          {isEditing && (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">Pickup time ({timeZone})</label>
+                <input
+                  type="time"
+                  value={pickupTime}
+                  onChange={(e) => setPickupTime(e.target.value)}
+                  className={inputClass}
+                />
+              </div>
+              {(Object.keys(FIELD_LABELS) as SeriesEditableField[]).map(field => (
+                <div key={field} className={field === 'notes' ? 'md:col-span-2' : ''}>
+                  <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">{FIELD_LABELS[field]}</label>
+                  {field === 'notes' ? (
+                    <textarea
+                      value={fields.notes}
+                      onChange={(e) => setFields({ ...fields, notes: e.target.value })}
+                      rows={2}
+                      className={inputClass}
+                    />
+                  ) : (
+                    <input
+                      type={field === 'passengers' ? 'number' : field === 'customer_email' ? 'email' : 'text'}
+                      min={field === 'passengers' ? 1 : undefined}
+                      value={fields[field]}
+                      onChange={(e) => setFields({ ...fields, [field]: e.target.value })}
+                      className={inputClass}
+                    />
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+
+          {showRecurrence && (
+            <div className="space-y-4">
+              <div>
+                <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Repeat</h4>
+                <div className="grid grid-cols-3 gap-2">
+                  {(['daily', 'weekly', 'custom'] as RepeatMode[]).map(option => (
+                    <button
+                      key={option}
+                      type="button"
+                      onClick={() => {
+                        if (option === 'custom' && mode !== 'custom') setCustomRule(rrule);
+                        setMode(option);
+                      }}
+                      className={`py-2 px-3 rounded-md text-sm ${
+                        mode === option
+                          ? 'bg-blue-600 text-white'
+                          : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'
+                      }`}
+                    >
+                      {option === 'daily' ? 'Daily' : option === 'weekly' ? 'Weekly' : 'Custom rule'}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              {mode === 'custom' ? (
+                <div>
+                  <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">RRULE</label>
+                  <input
+                    type="text"
+                    value={customRule}
+                    onChange={(e) => setCustomRule(e.target.value)}
+                    placeholder="FREQ=WEEKLY;BYDAY=MO,WE,FR;COUNT=12"
+                    className={`${inputClass} font-mono`}
+                  />
+                  <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                    Daily or weekly rules with INTERVAL, BYDAY and either COUNT or UNTIL.
+                  </p>
+                </div>
+              ) : (
+                <>
+                  <div className="flex items-center text-sm text-gray-700 dark:text-gray-300">
+                    Every
+                    <input
+                      type="number"
+                      min="1"
+                      value={repeatInterval}
+                      onChange={(e) => setRepeatInterval(Math.max(1, parseInt(e.target.value, 10) || 1))}
+                      className="mx-2 w-16 px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                    />
+                    {mode === 'daily' ? (repeatInterval === 1 ? 'day' : 'days') : (repeatInterval === 1 ? 'week' : 'weeks')}
+                  </div>
+
+                  {mode === 'weekly' && (
+                    <div className="flex flex-wrap gap-1">
+                      {WEEKDAY_OPTIONS.map(day => (
+                        <button
+                          key={day.value}
+                          type="button"
+                          onClick={() => toggleDay(day.value)}
+                          className={`px-2.5 py-1 rounded text-xs ${
+                            byDay.includes(day.value)
+                              ? 'bg-blue-600 text-white'
+                              : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300'
+                          }`}
+                        >
+                          {day.label}
+                        </button>
+                      ))}
+                      {byDay.length === 0 && (
+                        <span className="text-xs text-gray-500 dark:text-gray-400 self-center ml-2">
+                          On {WEEKDAY_OPTIONS.find(d => d.value === RECURRENCE_WEEKDAYS[start.weekday])?.label}, like the first trip
+                        </span>
+                      )}
+                    </div>
+                  )}
+
+                  <div className="flex flex-col space-y-2 text-sm text-gray-700 dark:text-gray-300">
+                    <label className="flex items-center">
+                      <input
+                        type="radio"
+                        checked={endType === 'until'}
+                        onChange={() => setEndType('until')}
+                        className="mr-2"
+                      />
+                      Ends on
+                      <input
+                        type="date"
+                        value={until}
+                        min={start.date}
+                        onChange={(e) => { setUntil(e.target.value); setEndType('until'); }}
+                        className="ml-2 px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                      />
+                    </label>
+                    <label className="flex items-center">
+                      <input
+                        type="radio"
+                        checked={endType === 'count'}
+                        onChange={() => setEndType('count')}
+                        className="mr-2"
+                      />
+                      Ends after
+                      <input
+                        type="number"
+                        min="1"
+                        value={count}
+                        onChange={(e) => { setCount(Math.max(1, parseInt(e.target.value, 10) || 1)); setEndType('count'); }}
+                        className="mx-2 w-20 px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                      />
+                      dates, the first trip and skipped dates included
+                    </label>
+                  </div>
+                </>
+              )}
+
+              <div>
+                <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Skip dates</h4>
+                <div className="flex flex-wrap gap-2 mb-2">
+                  {skipDates.map(date => (
+                    <div key={date} className="bg-gray-100 dark:bg-gray-700 px-2 py-1 rounded flex items-center">
+                      <span className="text-sm text-gray-800 dark:text-gray-200">{date}</span>
+                      <button
+                        onClick={() => setSkipDates(skipDates.filter(d => d !== date))}
+                        className="ml-1 text-gray-500 hover:text-gray-700 dark:hover:text-gray-300"
+                      >
+                        <X className="h-3 w-3" />
+                      </button>
+                    </div>
+                  ))}
+                  {skipDates.length === 0 && (
+                    <div className="text-sm text-gray-500 dark:text-gray-400">No dates skipped</div>
+                  )}
+                </div>
+                <div className="flex">
+                  <input
+                    type="date"
+                    value={newSkipDate}
+                    onChange={(e) => setNewSkipDate(e.target.value)}
+                    className="px-3 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-l-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                  />
+                  <button
+                    type="button"
+                    onClick={addSkipDate}
+                    disabled={!newSkipDate}
+                    className="px-3 py-1.5 bg-blue-600 text-white rounded-r-md hover:bg-blue-700 disabled:opacity-70"
+                  >
+                    <Plus className="h-4 w-4" />
+                  </button>
+                </div>
+              </div>
+
+              {errors.length > 0 ? (
+                <div className="p-3 bg-red-50 dark:bg-red-900/20 rounded-md text-sm text-red-700 dark:text-red-300 flex">
+                  <AlertCircle className="h-4 w-4 mr-2 flex-shrink-0 mt-0.5" />
+                  <div>{errors.join('. ')}</div>
+                </div>
+              ) : (
+                <div className="p-3 bg-blue-50 dark:bg-blue-900/20 rounded-md border border-blue-100 dark:border-blue-900/30 text-sm">
+                  <div className="font-medium text-blue-800 dark:text-blue-300">
+                    {describeRecurrence(rule)}: {trips.length} {trips.length === 1 ? 'trip' : 'trips'}
+                  </div>
+                  <p className="text-xs text-blue-600 dark:text-blue-400 mb-2">
+                    Trips are created {SERIES_GENERATE_DAYS} days ahead of their pickup. Times are in {timeZone}.
+                  </p>
+                  <ul className="text-xs text-gray-700 dark:text-gray-300 space-y-0.5">
+                    {trips.slice(0, PREVIEW_TRIPS).map(trip => (
+                      <li key={trip.date}>{formatTrip(trip.datetime)}</li>
+                    ))}
+                    {trips.length > PREVIEW_TRIPS && (
+                      <li className="text-gray-500 dark:text-gray-400">and {trips.length - PREVIEW_TRIPS} more</li>
+                    )}
+                  </ul>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="px-6 py-4 bg-gray-50 dark:bg-gray-700 border-t dark:border-gray-600 flex justify-end space-x-3">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 rounded-md hover:bg-gray-100 dark:hover:bg-gray-600 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={saving || invalid}
+            className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 flex items-center disabled:opacity-70"
+          >
+            {saving ? (
+              <>
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                Saving...
+              </>
+            ) : (
+              <>
+                <Save className="h-4 w-4 mr-2" />
+                {isEditing ? 'Save Changes' : 'Create Series'}
+              </>
+            )}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BookingSeriesModal;
\ No newline at end of file
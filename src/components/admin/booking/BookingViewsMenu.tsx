@@ -0,0 +1,160 @@
+import React, { useState } from 'react';
+import { Bookmark, Check, ChevronDown, Link2, Loader2, Plus, RotateCcw, Save, Trash2, X } from 'lucide-react';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from '../../ui/dropdown-menu';
+import { MAX_BOOKING_VIEW_NAME_LENGTH, describeBookingViewFilters, type BookingView } from '../../../lib/bookingViews';
+
+interface BookingViewsMenuProps {
+  views: BookingView[];
+  loading: boolean;
+  /** The view last picked or saved, if any */
+  currentView: BookingView | null;
+  /** Set when the filters were changed after picking the current view */
+  modified: boolean;
+  onSelect: (view: BookingView) => void;
+  onSave: (name: string) => Promise<boolean>;
+  onUpdate: (view: BookingView) => Promise<void>;
+  onDelete: (view: BookingView) => Promise<void>;
+  onCopyLink: () => void;
+  onReset: () => void;
+}
+
+const BookingViewsMenu: React.FC<BookingViewsMenuProps> = ({
+  views,
+  loading,
+  currentView,
+  modified,
+  onSelect,
+  onSave,
+  onUpdate,
+  onDelete,
+  onCopyLink,
+  onReset
+}) => {
+  const [naming, setNaming] = useState(false);
+  const [name, setName] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    setSaving(true);
+    try {
+      if (await onSave(name.trim())) {
+        setNaming(false);
+        setName('');
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (naming) {
+    return (
+      <form onSubmit={handleSave} className="flex items-center gap-2">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          maxLength={MAX_BOOKING_VIEW_NAME_LENGTH}
+          placeholder="e.g. Unassigned airport runs this week"
+          className="w-64 px-3 py-2 border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-700 dark:text-white rounded-md focus:outline-none focus:ring-2 focus:ring-blue-600"
+          autoFocus
+        />
+        <button
+          type="submit"
+          disabled={saving || !name.trim()}
+          className="px-3 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 flex items-center disabled:opacity-70"
+        >
+          {saving ? <Loader2 className="h-4 w-4 mr-1.5 animate-spin" /> : <Save className="h-4 w-4 mr-1.5" />}
+          Save View
+        </button>
+        <button
+          type="button"
+          onClick={() => {
+            setNaming(false);
+            setName('');
+          }}
+          className="p-2 text-gray-400 hover:text-gray-600 dark:text-gray-500 dark:hover:text-gray-300"
+          aria-label="Cancel"
+        >
+          <X className="h-5 w-5" />
+        </button>
+      </form>
+    );
+  }
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <button className="px-3 py-2 border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-700 dark:text-white rounded-md flex items-center hover:bg-gray-50 dark:hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-blue-600">
+          <Bookmark className="h-4 w-4 mr-2" />
+          <span className="max-w-[12rem] truncate">{currentView ? currentView.name : 'Saved Views'}</span>
+          {currentView && modified && <span className="ml-1 text-gray-400 dark:text-gray-500">(edited)</span>}
+          <ChevronDown className="h-4 w-4 ml-2 text-gray-400" />
+        </button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start" className="w-72">
+        <DropdownMenuLabel>Saved views</DropdownMenuLabel>
+        {loading ? (
+          <div className="px-2 py-1.5 text-sm text-gray-500 dark:text-gray-400 flex items-center">
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            Loading views...
+          </div>
+        ) : views.length === 0 ? (
+          <div className="px-2 py-1.5 text-sm text-gray-500 dark:text-gray-400">
+            No saved views yet.
+          </div>
+        ) : (
+          views.map(view => (
+            <DropdownMenuItem key={view.id} onClick={() => onSelect(view)}>
+              <Check className={`w-4 h-4 mr-2 flex-shrink-0 ${view.id === currentView?.id && !modified ? '' : 'invisible'}`} />
+              <div className="min-w-0">
+                <div className="truncate">{view.name}</div>
+                <div className="text-xs text-gray-500 dark:text-gray-400 truncate">{describeBookingViewFilters(view.filters)}</div>
+              </div>
+            </DropdownMenuItem>
+          ))
+        )}
+
+        <DropdownMenuSeparator />
+
+        <DropdownMenuItem onClick={() => setNaming(true)}>
+          <Plus className="w-4 h-4 mr-2" />
+          Save Current Filters as View
+        </DropdownMenuItem>
+        {currentView && modified && (
+          <DropdownMenuItem onClick={() => onUpdate(currentView)}>
+            <Save className="w-4 h-4 mr-2" />
+            Update "{currentView.name}"
+          </DropdownMenuItem>
+        )}
+        {currentView && (
+          <DropdownMenuItem onClick={() => onDelete(currentView)} className="text-red-600 dark:text-red-400">
+            <Trash2 className="w-4 h-4 mr-2" />
+            Delete "{currentView.name}"
+          </DropdownMenuItem>
+        )}
+
+        <DropdownMenuSeparator />
+
+        <DropdownMenuItem onClick={onCopyLink}>
+          <Link2 className="w-4 h-4 mr-2" />
+          Copy Link to These Filters
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={onReset}>
+          <RotateCcw className="w-4 h-4 mr-2" />
+          Reset Filters
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default BookingViewsMenu;
\ No newline at end of file
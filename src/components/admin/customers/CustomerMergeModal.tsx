@@ -0,0 +1,131 @@
+import React, { useState } from 'react';
+import { X, Loader2, Merge, AlertTriangle } from 'lucide-react';
+import { format } from 'date-fns';
+import { MAX_CUSTOMER_NOTES_LENGTH, customerDisplayName, type CustomerSummary } from '../../../lib/customers';
+
+interface CustomerMergeModalProps {
+  /** The customers to merge into one, at least two */
+  customers: CustomerSummary[];
+  /** Preselected customer to keep; defaults to the one with the most bookings */
+  initialTargetId?: string;
+  onClose: () => void;
+  onConfirm: (targetId: string, duplicateIds: string[]) => Promise<void>;
+}
+
+const CustomerMergeModal: React.FC<CustomerMergeModalProps> = ({
+  customers,
+  initialTargetId,
+  onClose,
+  onConfirm
+}) => {
+  const [targetId, setTargetId] = useState(
+    initialTargetId || [...customers].sort((a, b) => b.bookings - a.bookings)[0]?.id || ''
+  );
+  const [saving, setSaving] = useState(false);
+
+  const duplicates = customers.filter(customer => customer.id !== targetId);
+  const movedBookings = duplicates.reduce((sum, customer) => sum + customer.bookings, 0);
+  const target = customers.find(customer => customer.id === targetId);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      await onConfirm(targetId, duplicates.map(customer => customer.id));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 dark:bg-black/70 flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-2xl overflow-hidden">
+        <div className="px-6 py-4 bg-blue-50 dark:bg-blue-900/30 border-b dark:border-gray-700 flex justify-between items-center">
+          <h3 className="text-lg font-medium text-gray-900 dark:text-white flex items-center">
+            <Merge className="h-5 w-5 mr-2" />
+            Merge {customers.length} Customers
+          </h3>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-500 dark:hover:text-gray-300"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit}>
+          <div className="p-6 space-y-4">
+            <p className="text-sm text-gray-600 dark:text-gray-300">
+              Choose the customer to keep. The others' bookings move to them, and future bookings with the others' email or phone number are added to them too.
+            </p>
+
+            <div className="rounded-md border border-gray-200 dark:border-gray-700 divide-y divide-gray-200 dark:divide-gray-700">
+              {customers.map(customer => (
+                <label
+                  key={customer.id}
+                  className={`flex items-start px-4 py-3 cursor-pointer ${customer.id === targetId ? 'bg-blue-50 dark:bg-blue-900/20' : 'hover:bg-gray-50 dark:hover:bg-gray-700/50'}`}
+                >
+                  <input
+                    type="radio"
+                    name="merge-target"
+                    checked={customer.id === targetId}
+                    onChange={() => setTargetId(customer.id)}
+                    className="mt-1 h-4 w-4 text-blue-600 border-gray-300 mr-3"
+                  />
+                  <div className="flex-1 min-w-0">
+                    <div className="font-medium text-gray-900 dark:text-white">{customerDisplayName(customer)}</div>
+                    <div className="text-sm text-gray-500 dark:text-gray-400 truncate">
+                      {[customer.email, customer.phone].filter(Boolean).join(' · ') || 'No contact details'}
+                    </div>
+                  </div>
+                  <div className="text-right text-sm text-gray-500 dark:text-gray-400 ml-4 whitespace-nowrap">
+                    <div>{customer.bookings} booking{customer.bookings === 1 ? '' : 's'}</div>
+                    {customer.last_booking_at && (
+                      <div className="text-xs">Last {format(new Date(customer.last_booking_at), 'PP')}</div>
+                    )}
+                  </div>
+                </label>
+              ))}
+            </div>
+
+            {target && (
+              <div className="flex items-start text-xs text-yellow-700 dark:text-yellow-400">
+                <AlertTriangle className="h-4 w-4 mr-1.5 flex-shrink-0" />
+                {movedBookings} booking{movedBookings === 1 ? '' : 's'} will move to {customerDisplayName(target)}. Notes are combined, up to {MAX_CUSTOMER_NOTES_LENGTH} characters. Merges cannot be undone.
+              </div>
+            )}
+          </div>
+
+          <div className="px-6 py-4 bg-gray-50 dark:bg-gray-700/50 border-t dark:border-gray-700 flex justify-end space-x-3">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 rounded-md hover:bg-gray-100 dark:hover:bg-gray-700"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving || !target || duplicates.length === 0}
+              className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 flex items-center disabled:opacity-70"
+            >
+              {saving ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Merging...
+                </>
+              ) : (
+                <>
+                  <Merge className="h-4 w-4 mr-2" />
+                  Merge Customers
+                </>
+              )}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default CustomerMergeModal;
\ No newline at end of file
@@ -0,0 +1,328 @@
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { X, Loader2, Contact, Save, Merge, Calendar, Edit, UserCheck } from 'lucide-react';
+import { format } from 'date-fns';
+import { useToast } from '../../ui/use-toast';
+import { adminApi } from '../../../lib/adminApi';
+import { summarizeBookingPrice } from '../../../lib/pricing';
+import { TRIP_STATUS_LABELS, isTripStatus } from '../../../lib/tripStatus';
+import { DEFAULT_BOOKING_VIEW_FILTERS, bookingViewSearchParams } from '../../../lib/bookingViews';
+import {
+  MAX_CUSTOMER_NOTES_LENGTH,
+  customerDisplayName,
+  type CustomerBooking,
+  type CustomerSummary,
+  type MergedCustomer
+} from '../../../lib/customers';
+
+interface CustomerProfileModalProps {
+  customerId: string;
+  onClose: () => void;
+  /** Called after the customer was renamed or their notes changed */
+  onUpdated: () => void;
+  /** Opens the merge dialog for the customer and a likely duplicate */
+  onMerge: (customer: CustomerSummary, duplicate: CustomerSummary) => void;
+}
+
+const STATUS_STYLES: Record<string, string> = {
+  pending: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-300',
+  accepted: 'bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-300',
+  in_progress: 'bg-purple-100 text-purple-800 dark:bg-purple-900/30 dark:text-purple-300',
+  completed: 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300',
+  cancelled: 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300'
+};
+
+const CustomerProfileModal: React.FC<CustomerProfileModalProps> = ({
+  customerId,
+  onClose,
+  onUpdated,
+  onMerge
+}) => {
+  const [customer, setCustomer] = useState<CustomerSummary | null>(null);
+  const [bookings, setBookings] = useState<CustomerBooking[]>([]);
+  const [merged, setMerged] = useState<MergedCustomer[]>([]);
+  const [possibleDuplicates, setPossibleDuplicates] = useState<CustomerSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [notes, setNotes] = useState('');
+  const [name, setName] = useState('');
+  const [editingName, setEditingName] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setLoadError(null);
+    adminApi.fetchCustomer(customerId)
+      .then(data => {
+        if (cancelled) return;
+        setCustomer(data.customer);
+        setBookings(data.bookings || []);
+        setMerged(data.merged || []);
+        setPossibleDuplicates(data.possibleDuplicates || []);
+        setNotes(data.customer.notes || '');
+        setName(data.customer.name);
+      })
+      .catch((error: any) => {
+        if (cancelled) return;
+        console.error('Error fetching customer:', error);
+        setLoadError(error.message || 'Failed to load the customer');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [customerId]);
+
+  const saveChanges = async (changes: { name?: string; notes?: string }) => {
+    if (!customer) return;
+    setSaving(true);
+    try {
+      const { customer: updated } = await adminApi.updateCustomer(customer.id, changes);
+      setCustomer({ ...customer, ...updated });
+      setEditingName(false);
+      onUpdated();
+      toast({
+        title: "Customer Updated",
+        description: `${customerDisplayName(updated)} was saved.`
+      });
+    } catch (error: any) {
+      console.error('Error updating customer:', error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Failed to update the customer"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const averageSpend = customer && customer.completed_bookings > 0
+    ? Number(customer.spend) / customer.completed_bookings
+    : null;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 dark:bg-black/70 flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-4xl max-h-[90vh] flex flex-col overflow-hidden">
+        <div className="px-6 py-4 bg-blue-50 dark:bg-blue-900/30 border-b dark:border-gray-700 flex justify-between items-center">
+          <h3 className="text-lg font-medium text-gray-900 dark:text-white flex items-center min-w-0">
+            <Contact className="h-5 w-5 mr-2 flex-shrink-0" />
+            {customer && editingName ? (
+              <form
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  if (name.trim()) saveChanges({ name: name.trim() });
+                }}
+                className="flex items-center gap-2"
+              >
+                <input
+                  type="text"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  className="px-2 py-1 text-base border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  autoFocus
+                />
+                <button type="submit" disabled={saving || !name.trim()} className="p-1 text-blue-600 dark:text-blue-400 disabled:opacity-50" aria-label="Save name">
+                  {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+                </button>
+              </form>
+            ) : (
+              <>
+                <span className="truncate">{customer ? customerDisplayName(customer) : 'Customer'}</span>
+                {customer && (
+                  <button
+                    onClick={() => setEditingName(true)}
+                    className="ml-2 p-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+                    aria-label="Rename customer"
+                  >
+                    <Edit className="h-4 w-4" />
+                  </button>
+                )}
+              </>
+            )}
+          </h3>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-500 dark:hover:text-gray-300"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        {loadError ? (
+          <div className="py-16 text-center text-red-600 dark:text-red-400">
+            {loadError}
+          </div>
+        ) : loading || !customer ? (
+          <div className="flex items-center justify-center py-16 text-gray-500 dark:text-gray-400">
+            <Loader2 className="h-5 w-5 mr-2 animate-spin" />
+            Loading customer...
+          </div>
+        ) : (
+          <div className="p-6 overflow-y-auto space-y-6">
+            <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-sm text-gray-600 dark:text-gray-300">
+              {customer.email && <span>{customer.email}</span>}
+              {customer.phone && <span>{customer.phone}</span>}
+              {customer.user_id && (
+                <span className="flex items-center text-green-700 dark:text-green-400">
+                  <UserCheck className="h-4 w-4 mr-1" />
+                  Has an account
+                </span>
+              )}
+              <span className="text-gray-400 dark:text-gray-500">
+                Customer since {format(new Date(customer.first_booking_at || customer.created_at), 'PP')}
+              </span>
+            </div>
+
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              {[
+                { label: 'Bookings', value: String(customer.bookings) },
+                { label: 'Completed', value: String(customer.completed_bookings) },
+                { label: 'Cancellations', value: String(customer.cancellations) },
+                {
+                  label: 'Lifetime Spend',
+                  value: `€${Number(customer.spend).toFixed(2)}`,
+                  hint: averageSpend !== null ? `€${averageSpend.toFixed(2)} per completed trip` : undefined
+                }
+              ].map(stat => (
+                <div key={stat.label} className="rounded-md border border-gray-200 dark:border-gray-700 p-3">
+                  <div className="text-xs text-gray-500 dark:text-gray-400">{stat.label}</div>
+                  <div className="text-xl font-semibold text-gray-900 dark:text-white">{stat.value}</div>
+                  {stat.hint && <div className="text-xs text-gray-500 dark:text-gray-400">{stat.hint}</div>}
+                </div>
+              ))}
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Notes
+              </label>
+              <textarea
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                rows={3}
+                maxLength={MAX_CUSTOMER_NOTES_LENGTH}
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                placeholder="Preferences, accessibility needs, billing arrangements..."
+              />
+              <div className="mt-2 flex justify-end">
+                <button
+                  onClick={() => saveChanges({ notes })}
+                  disabled={saving || notes.trim() === (customer.notes || '')}
+                  className="px-3 py-1.5 bg-blue-600 text-white rounded-md hover:bg-blue-700 flex items-center text-sm disabled:opacity-50"
+                >
+                  {saving ? <Loader2 className="h-4 w-4 mr-1.5 animate-spin" /> : <Save className="h-4 w-4 mr-1.5" />}
+                  Save Notes
+                </button>
+              </div>
+            </div>
+
+            {possibleDuplicates.length > 0 && (
+              <div>
+                <h4 className="text-sm font-medium text-gray-500 dark:text-gray-400 mb-2">Possible Duplicates</h4>
+                <div className="rounded-md border border-yellow-200 dark:border-yellow-800 divide-y divide-yellow-100 dark:divide-yellow-900/50">
+                  {possibleDuplicates.map(duplicate => (
+                    <div key={duplicate.id} className="flex items-center justify-between px-4 py-2 text-sm">
+                      <div className="min-w-0">
+                        <div className="font-medium text-gray-900 dark:text-white">{customerDisplayName(duplicate)}</div>
+                        <div className="text-gray-500 dark:text-gray-400 truncate">
+                          {[duplicate.email, duplicate.phone].filter(Boolean).join(' · ')} · {duplicate.bookings} booking{duplicate.bookings === 1 ? '' : 's'}
+                        </div>
+                      </div>
+                      <button
+                        onClick={() => onMerge(customer, duplicate)}
+                        className="ml-4 px-3 py-1 border border-gray-200 dark:border-gray-700 rounded-md text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 flex items-center"
+                      >
+                        <Merge className="h-4 w-4 mr-1.5" />
+                        Merge
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {merged.length > 0 && (
+              <div>
+                <h4 className="text-sm font-medium text-gray-500 dark:text-gray-400 mb-2">Merged Records</h4>
+                <ul className="text-sm text-gray-600 dark:text-gray-300 space-y-1">
+                  {merged.map(record => (
+                    <li key={record.id}>
+                      {customerDisplayName(record)}
+                      {[record.email, record.phone].filter(Boolean).length > 0 && (
+                        <span className="text-gray-500 dark:text-gray-400"> · {[record.email, record.phone].filter(Boolean).join(' · ')}</span>
+                      )}
+                      {record.merged_at && (
+                        <span className="text-xs text-gray-400 dark:text-gray-500"> · merged {format(new Date(record.merged_at), 'PP')}</span>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            <div>
+              <h4 className="text-sm font-medium text-gray-500 dark:text-gray-400 mb-2 flex items-center">
+                <Calendar className="h-4 w-4 mr-2" />
+                Booking History
+              </h4>
+              {bookings.length === 0 ? (
+                <p className="text-sm text-gray-500 dark:text-gray-400">No bookings.</p>
+              ) : (
+                <div className="rounded-md border border-gray-200 dark:border-gray-700 overflow-x-auto">
+                  <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+                    <thead className="bg-gray-50 dark:bg-gray-700/50">
+                      <tr>
+                        <th className="px-4 py-2 text-left font-medium text-gray-500 dark:text-gray-400">Booking</th>
+                        <th className="px-4 py-2 text-left font-medium text-gray-500 dark:text-gray-400">Pickup</th>
+                        <th className="px-4 py-2 text-left font-medium text-gray-500 dark:text-gray-400">Route</th>
+                        <th className="px-4 py-2 text-left font-medium text-gray-500 dark:text-gray-400">Status</th>
+                        <th className="px-4 py-2 text-right font-medium text-gray-500 dark:text-gray-400">Total</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                      {bookings.map(booking => (
+                        <tr key={booking.id}>
+                          <td className="px-4 py-2 whitespace-nowrap">
+                            <Link
+                              to={`/admin/bookings?${bookingViewSearchParams({ ...DEFAULT_BOOKING_VIEW_FILTERS, dateRange: 'all', search: booking.booking_reference })}`}
+                              className="font-medium text-blue-600 dark:text-blue-400 hover:underline"
+                            >
+                              {booking.booking_reference}
+                            </Link>
+                          </td>
+                          <td className="px-4 py-2 whitespace-nowrap text-gray-600 dark:text-gray-300">
+                            {format(new Date(booking.datetime), 'PP p')}
+                          </td>
+                          <td className="px-4 py-2 text-gray-600 dark:text-gray-300">
+                            <div className="max-w-xs truncate">
+                              {booking.pickup_address || 'Unknown'} → {booking.dropoff_address || 'Unknown'}
+                            </div>
+                          </td>
+                          <td className="px-4 py-2">
+                            <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[booking.status] || STATUS_STYLES.pending}`}>
+                              {isTripStatus(booking.status) ? TRIP_STATUS_LABELS[booking.status] : booking.status}
+                            </span>
+                          </td>
+                          <td className="px-4 py-2 text-right whitespace-nowrap text-gray-900 dark:text-white">
+                            €{summarizeBookingPrice(booking).total.toFixed(2)}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CustomerProfileModal;
\ No newline at end of file
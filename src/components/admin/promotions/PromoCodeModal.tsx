@@ -0,0 +1,291 @@
+import React, { useState } from 'react';
+import { X, Tag, Loader2, AlertTriangle } from 'lucide-react';
+import { format } from 'date-fns';
+import { useToast } from '../../ui/use-toast';
+import { adminApi } from '../../../lib/adminApi';
+import { normalizePromoCode, validatePromoCode, type PromoCode } from '../../../lib/promo';
+
+interface PromoCodeModalProps {
+  promotion: PromoCode | null;
+  zones: { id: string; name: string }[];
+  vehicleTypes: string[];
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+// datetime-local inputs work in local time without a timezone suffix
+const toInputValue = (value: string | null) => (value ? format(new Date(value), "yyyy-MM-dd'T'HH:mm") : '');
+const fromInputValue = (value: string) => (value ? new Date(value).toISOString() : null);
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700 dark:text-white';
+
+const PromoCodeModal: React.FC<PromoCodeModalProps> = ({
+  promotion,
+  zones,
+  vehicleTypes,
+  onClose,
+  onSaved
+}) => {
+  const [form, setForm] = useState<PromoCode>(promotion || {
+    id: 'new_' + Date.now(),
+    code: '',
+    description: '',
+    discount_type: 'percent',
+    value: 10,
+    max_uses: null,
+    max_uses_per_customer: null,
+    valid_from: null,
+    valid_until: null,
+    vehicle_types: null,
+    zone_ids: null,
+    is_active: true
+  });
+  const [errors, setErrors] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  const update = <K extends keyof PromoCode>(field: K, value: PromoCode[K]) => {
+    setForm(prev => ({ ...prev, [field]: value }));
+  };
+
+  const toggleListValue = (field: 'vehicle_types' | 'zone_ids', value: string) => {
+    const current = form[field] || [];
+    const next = current.includes(value) ? current.filter(v => v !== value) : [...current, value];
+    update(field, next.length > 0 ? next : null);
+  };
+
+  const handleSave = async () => {
+    const problems = validatePromoCode(form);
+    setErrors(problems);
+    if (problems.length > 0) return;
+
+    setSaving(true);
+    try {
+      await adminApi.savePromotion({ ...form, code: normalizePromoCode(form.code) });
+      toast({
+        title: promotion ? "Promo Code Updated" : "Promo Code Created",
+        description: `${normalizePromoCode(form.code)} has been saved.`
+      });
+      onSaved();
+      onClose();
+    } catch (error: any) {
+      console.error('Error saving promo code:', error);
+      setErrors([error.message || 'Failed to save promo code']);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 dark:bg-black/70 flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-2xl max-h-[90vh] flex flex-col">
+        <div className="px-6 py-4 bg-blue-50 dark:bg-blue-900/30 border-b dark:border-gray-700 flex justify-between items-center">
+          <h3 className="text-lg font-medium text-gray-900 dark:text-white flex items-center">
+            <Tag className="h-5 w-5 mr-2" />
+            {promotion ? `Edit ${promotion.code}` : 'New Promo Code'}
+          </h3>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-500 dark:hover:text-gray-300"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4 overflow-y-auto">
+          {errors.length > 0 && (
+            <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-md p-3">
+              <ul className="text-sm text-red-700 dark:text-red-300 space-y-1">
+                {errors.map((error, index) => (
+                  <li key={index} className="flex items-start">
+                    <AlertTriangle className="w-4 h-4 mr-2 mt-0.5 flex-shrink-0" />
+                    {error}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Code
+              </label>
+              <input
+                type="text"
+                value={form.code}
+                onChange={e => update('code', e.target.value.toUpperCase())}
+                className={`${inputClassName} font-mono`}
+                placeholder="e.g. SUMMER25"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Description
+              </label>
+              <input
+                type="text"
+                value={form.description || ''}
+                onChange={e => update('description', e.target.value)}
+                className={inputClassName}
+                placeholder="Internal note"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Discount Type
+              </label>
+              <select
+                value={form.discount_type}
+                onChange={e => update('discount_type', e.target.value as PromoCode['discount_type'])}
+                className={inputClassName}
+              >
+                <option value="percent">Percentage of fare</option>
+                <option value="fixed">Fixed amount (€)</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                {form.discount_type === 'percent' ? 'Discount (%)' : 'Discount (€)'}
+              </label>
+              <input
+                type="number"
+                value={form.value}
+                onChange={e => update('value', parseFloat(e.target.value))}
+                min="0"
+                max={form.discount_type === 'percent' ? 100 : undefined}
+                step={form.discount_type === 'percent' ? 1 : 0.01}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Total Uses
+              </label>
+              <input
+                type="number"
+                value={form.max_uses ?? ''}
+                onChange={e => update('max_uses', e.target.value ? parseInt(e.target.value, 10) : null)}
+                min="1"
+                className={inputClassName}
+                placeholder="Unlimited"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Uses per Customer
+              </label>
+              <input
+                type="number"
+                value={form.max_uses_per_customer ?? ''}
+                onChange={e => update('max_uses_per_customer', e.target.value ? parseInt(e.target.value, 10) : null)}
+                min="1"
+                className={inputClassName}
+                placeholder="Unlimited"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Valid From
+              </label>
+              <input
+                type="datetime-local"
+                value={toInputValue(form.valid_from)}
+                onChange={e => update('valid_from', fromInputValue(e.target.value))}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Valid Until
+              </label>
+              <input
+                type="datetime-local"
+                value={toInputValue(form.valid_until)}
+                onChange={e => update('valid_until', fromInputValue(e.target.value))}
+                className={inputClassName}
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Vehicle Types
+            </label>
+            <div className="flex flex-wrap gap-2">
+              {vehicleTypes.map(vehicleType => (
+                <label key={vehicleType} className="flex items-center text-sm dark:text-gray-300">
+                  <input
+                    type="checkbox"
+                    checked={form.vehicle_types?.includes(vehicleType) || false}
+                    onChange={() => toggleListValue('vehicle_types', vehicleType)}
+                    className="mr-1"
+                  />
+                  {vehicleType}
+                </label>
+              ))}
+            </div>
+            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">None selected means every vehicle type.</p>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Zones
+            </label>
+            <div className="flex flex-wrap gap-2 max-h-32 overflow-y-auto">
+              {zones.map(zone => (
+                <label key={zone.id} className="flex items-center text-sm dark:text-gray-300">
+                  <input
+                    type="checkbox"
+                    checked={form.zone_ids?.includes(zone.id) || false}
+                    onChange={() => toggleListValue('zone_ids', zone.id)}
+                    className="mr-1"
+                  />
+                  {zone.name}
+                </label>
+              ))}
+            </div>
+            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+              The pickup or dropoff must be in one of the selected zones. None selected means every zone.
+            </p>
+          </div>
+
+          <label className="flex items-center text-sm dark:text-gray-300">
+            <input
+              type="checkbox"
+              checked={form.is_active}
+              onChange={e => update('is_active', e.target.checked)}
+              className="mr-2"
+            />
+            Active
+          </label>
+        </div>
+
+        <div className="px-6 py-4 bg-gray-50 dark:bg-gray-700 border-t dark:border-gray-600 flex justify-end space-x-3">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-md text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-600"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={saving}
+            className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-blue-400 flex items-center"
+          >
+            {saving ? (
+              <>
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                Saving...
+              </>
+            ) : (
+              'Save Promo Code'
+            )}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PromoCodeModal;
\ No newline at end of file
@@ -0,0 +1,248 @@
+import React, { useEffect, useState } from 'react';
+import { Loader2, Download, RefreshCw } from 'lucide-react';
+import { format } from 'date-fns';
+import { useToast } from '../../ui/use-toast';
+import { Button } from '../../ui/button';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '../../ui/table';
+import { adminApi } from '../../../lib/adminApi';
+import { downloadCsv, toCsv } from '../../../lib/pricingCsv';
+
+interface PromoRedemption {
+  id: string;
+  promo_code_id: string;
+  trip_id: string | null;
+  user_id: string | null;
+  customer_email: string | null;
+  fare_amount: number;
+  discount_amount: number;
+  redeemed_at: string;
+  promo_code?: { code: string } | null;
+  trip?: {
+    booking_reference: string;
+    status: string;
+    datetime: string;
+    customer_name: string;
+  } | null;
+}
+
+interface PromoSummary {
+  promo_code_id: string;
+  code: string;
+  redemptions: number;
+  unique_customers: number;
+  total_fare: number;
+  total_discount: number;
+}
+
+interface PromoRedemptionReportProps {
+  promoCodes: { id: string; code: string }[];
+}
+
+const PromoRedemptionReport: React.FC<PromoRedemptionReportProps> = ({ promoCodes }) => {
+  const [promoCodeId, setPromoCodeId] = useState('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [redemptions, setRedemptions] = useState<PromoRedemption[]>([]);
+  const [summary, setSummary] = useState<PromoSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+
+  const fetchReport = async () => {
+    setLoading(true);
+    try {
+      // The end date is inclusive, so query up to the start of the next day
+      const data = await adminApi.fetchPromoReport({
+        promoCodeId: promoCodeId || undefined,
+        from: from ? new Date(from).toISOString() : undefined,
+        to: to ? new Date(new Date(to).getTime() + 24 * 60 * 60 * 1000).toISOString() : undefined
+      });
+      setRedemptions(data.redemptions || []);
+      setSummary(data.summary || []);
+    } catch (error: any) {
+      console.error('Error fetching promo report:', error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Failed to load the redemption report"
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchReport();
+  }, [promoCodeId, from, to]);
+
+  const exportReport = () => {
+    const rows = [
+      ['redeemed_at', 'code', 'booking_reference', 'customer', 'fare', 'discount', 'booking_status'],
+      ...redemptions.map(r => [
+        r.redeemed_at,
+        r.promo_code?.code || '',
+        r.trip?.booking_reference || '',
+        r.trip?.customer_name || r.customer_email || '',
+        r.fare_amount,
+        r.discount_amount,
+        r.trip?.status || ''
+      ])
+    ];
+
+    downloadCsv(toCsv(rows), `promo_redemptions_${format(new Date(), 'yyyy-MM-dd')}.csv`);
+  };
+
+  const totalDiscount = summary.reduce((sum, s) => sum + s.total_discount, 0);
+  const totalFare = summary.reduce((sum, s) => sum + s.total_fare, 0);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-end gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Code</label>
+          <select
+            value={promoCodeId}
+            onChange={e => setPromoCodeId(e.target.value)}
+            className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700 dark:text-white"
+          >
+            <option value="">All codes</option>
+            {promoCodes.map(promo => (
+              <option key={promo.id} value={promo.id}>{promo.code}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">From</label>
+          <input
+            type="date"
+            value={from}
+            onChange={e => setFrom(e.target.value)}
+            className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700 dark:text-white"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">To</label>
+          <input
+            type="date"
+            value={to}
+            onChange={e => setTo(e.target.value)}
+            className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700 dark:text-white"
+          />
+        </div>
+        <div className="flex space-x-2 ml-auto">
+          <Button onClick={fetchReport} variant="outline" size="sm" disabled={loading}>
+            <RefreshCw className={`w-4 h-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+          <Button onClick={exportReport} variant="outline" size="sm" disabled={redemptions.length === 0}>
+            <Download className="w-4 h-4 mr-2" />
+            Export CSV
+          </Button>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center h-32">
+          <Loader2 className="w-8 h-8 text-blue-600 dark:text-blue-400 animate-spin" />
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-4 border dark:border-gray-700">
+              <p className="text-sm text-gray-500 dark:text-gray-400">Redemptions</p>
+              <p className="text-2xl font-semibold dark:text-white">{redemptions.length}</p>
+            </div>
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-4 border dark:border-gray-700">
+              <p className="text-sm text-gray-500 dark:text-gray-400">Discount Granted</p>
+              <p className="text-2xl font-semibold dark:text-white">€{totalDiscount.toFixed(2)}</p>
+            </div>
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-4 border dark:border-gray-700">
+              <p className="text-sm text-gray-500 dark:text-gray-400">Fares Before Discount</p>
+              <p className="text-2xl font-semibold dark:text-white">€{totalFare.toFixed(2)}</p>
+            </div>
+          </div>
+
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 border dark:border-gray-700">
+            <h3 className="text-lg font-medium mb-4 dark:text-white">By Code</h3>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Code</TableHead>
+                  <TableHead>Redemptions</TableHead>
+                  <TableHead>Customers</TableHead>
+                  <TableHead>Fares</TableHead>
+                  <TableHead>Discount</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {summary.map(row => (
+                  <TableRow key={row.promo_code_id}>
+                    <TableCell className="font-mono">{row.code}</TableCell>
+                    <TableCell>{row.redemptions}</TableCell>
+                    <TableCell>{row.unique_customers}</TableCell>
+                    <TableCell>€{row.total_fare.toFixed(2)}</TableCell>
+                    <TableCell>€{row.total_discount.toFixed(2)}</TableCell>
+                  </TableRow>
+                ))}
+                {summary.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={5} className="text-center text-gray-500 dark:text-gray-400">
+                      No redemptions in this period
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </div>
+
+          {redemptions.length > 0 && (
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 border dark:border-gray-700">
+              <h3 className="text-lg font-medium mb-4 dark:text-white">Redemptions</h3>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Code</TableHead>
+                    <TableHead>Booking</TableHead>
+                    <TableHead>Customer</TableHead>
+                    <TableHead>Fare</TableHead>
+                    <TableHead>Discount</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {redemptions.map(redemption => (
+                    <TableRow key={redemption.id}>
+                      <TableCell>{format(new Date(redemption.redeemed_at), 'PPp')}</TableCell>
+                      <TableCell className="font-mono">{redemption.promo_code?.code}</TableCell>
+                      <TableCell>
+                        {redemption.trip ? (
+                          <>
+                            {redemption.trip.booking_reference}
+                            {redemption.trip.status === 'cancelled' && (
+                              <span className="ml-2 text-xs text-red-600 dark:text-red-400">cancelled</span>
+                            )}
+                          </>
+                        ) : '—'}
+                      </TableCell>
+                      <TableCell>{redemption.trip?.customer_name || redemption.customer_email || '—'}</TableCell>
+                      <TableCell>€{Number(redemption.fare_amount).toFixed(2)}</TableCell>
+                      <TableCell>€{Number(redemption.discount_amount).toFixed(2)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default PromoRedemptionReport;
\ No newline at end of file
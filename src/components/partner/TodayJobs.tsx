@@ -2,7 +2,7 @@ import React, { useState, useEffect } from 'react';
 import { supabase } from '../../lib/supabase';
 import { useToast } from '../ui/use-toast';
 import { useAuth } from '../../contexts/AuthContext';
-import { format, isToday, parseISO, addDays } from 'date-fns';
+import { format, isToday, parseISO, addDays, formatDistanceToNow } from 'date-fns';
 import { Link } from 'react-router-dom';
 import { 
   Calendar, 
@@ -17,9 +17,13 @@ import {
   MessageSquare, 
   AlertTriangle,
   FileSearch,
-  CheckCircle
+  CheckCircle,
+  X,
+  Plane,
+  BellRing
 } from 'lucide-react';
 import IncidentReportForm from './IncidentReportForm';
+import { FLIGHT_STATE_LABELS, flightDelayMinutes, isFlightState, type DriverNotification } from '../../lib/flights';
 
 interface Trip {
   id: string;
@@ -40,6 +44,27 @@ interface Trip {
     phone: string;
   };
   driver_acknowledged: boolean;
+  flight_number?: string | null;
+  flight_scheduled_arrival?: string | null;
+  flight_estimated_arrival?: string | null;
+  flight_status?: string | null;
+}
+
+// An open offer of a trip waiting for this driver's answer
+interface TripOffer {
+  id: string;
+  expires_at: string;
+  trip: {
+    id: string;
+    datetime: string;
+    pickup_address?: string;
+    dropoff_address?: string;
+    estimated_distance_km: number | null;
+    estimated_duration_min: number | null;
+    estimated_price: number | null;
+    vehicle_type?: string | null;
+    passengers?: number | null;
+  } | null;
 }
 
 const TodayJobs = () => {
@@ -54,11 +79,18 @@ const TodayJobs = () => {
   const [selectedTripId, setSelectedTripId] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [driverProfileCreated, setDriverProfileCreated] = useState<boolean>(true); // Assume true initially
+  const [offers, setOffers] = useState<TripOffer[]>([]);
+  const [respondingOffer, setRespondingOffer] = useState<string | null>(null);
+  const [decliningOffer, setDecliningOffer] = useState<string | null>(null);
+  const [declineReason, setDeclineReason] = useState('');
+  const [notifications, setNotifications] = useState<DriverNotification[]>([]);
   const { toast } = useToast();
   const { userData } = useAuth();
 
   useEffect(() => {
     fetchTrips();
+    fetchOffers();
+    fetchNotifications();
 
     // Set up a real-time subscription for new or updated trips
     const tripsSubscription = supabase
@@ -73,11 +105,149 @@ const TodayJobs = () => {
       })
       .subscribe();
 
+    // New offers, and offers withdrawn or passed on to another driver
+    const offersSubscription = supabase
+      .channel('partner-offers-changes')
+      .on('postgres_changes', {
+        event: '*',
+        schema: 'public',
+        table: 'trip_offers',
+        filter: `driver_user_id=eq.${userData?.id}`
+      }, () => {
+        fetchOffers();
+      })
+      .subscribe();
+
+    // Pickups moved for flight delays and other changes dispatch tells the driver about
+    const notificationsSubscription = supabase
+      .channel('partner-notifications-changes')
+      .on('postgres_changes', {
+        event: 'INSERT',
+        schema: 'public',
+        table: 'driver_notifications',
+        filter: `driver_user_id=eq.${userData?.id}`
+      }, (payload) => {
+        const notification = payload.new as DriverNotification;
+        toast({
+          title: notification.title,
+          description: notification.body,
+        });
+        fetchNotifications();
+      })
+      .subscribe();
+
+    // Drop offers as they expire and keep the time left current
+    const expiryTimer = setInterval(() => {
+      setOffers(prev => prev.filter(offer => new Date(offer.expires_at) > new Date()));
+    }, 30000);
+
     return () => {
       supabase.removeChannel(tripsSubscription);
+      supabase.removeChannel(offersSubscription);
+      supabase.removeChannel(notificationsSubscription);
+      clearInterval(expiryTimer);
     };
   }, [userData]);
 
+  const fetchOffers = async () => {
+    const { data, error } = await supabase
+      .from('trip_offers')
+      .select(`
+        id,
+        expires_at,
+        trip:trips(id, datetime, pickup_address, dropoff_address, estimated_distance_km, estimated_duration_min, estimated_price, vehicle_type, passengers)
+      `)
+      .eq('driver_user_id', userData?.id)
+      .eq('status', 'pending')
+      .gt('expires_at', new Date().toISOString())
+      .order('expires_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching trip offers:', error);
+      return;
+    }
+
+    setOffers((data || []) as unknown as TripOffer[]);
+  };
+
+  const fetchNotifications = async () => {
+    const { data, error } = await supabase
+      .from('driver_notifications')
+      .select('*')
+      .eq('driver_user_id', userData?.id)
+      .is('read_at', null)
+      .order('created_at', { ascending: false })
+      .limit(20);
+
+    if (error) {
+      console.error('Error fetching notifications:', error);
+      return;
+    }
+
+    setNotifications((data || []) as DriverNotification[]);
+  };
+
+  const dismissNotifications = async (ids: string[]) => {
+    setNotifications(prev => prev.filter(notification => !ids.includes(notification.id)));
+
+    const { error } = await supabase
+      .from('driver_notifications')
+      .update({ read_at: new Date().toISOString() })
+      .in('id', ids);
+
+    if (error) {
+      console.error('Error dismissing notifications:', error);
+      fetchNotifications();
+    }
+  };
+
+  const respondToOffer = async (offerId: string, accept: boolean) => {
+    try {
+      setRespondingOffer(offerId);
+
+      const { data: outcome, error } = await supabase.rpc('respond_to_trip_offer', {
+        p_offer_id: offerId,
+        p_accept: accept,
+        p_reason: accept ? null : declineReason
+      });
+
+      if (error) throw error;
+
+      setOffers(prev => prev.filter(offer => offer.id !== offerId));
+      setDecliningOffer(null);
+      setDeclineReason('');
+
+      if (outcome === 'accepted') {
+        toast({
+          title: "Trip Accepted",
+          description: "The trip has been added to your jobs.",
+        });
+        fetchTrips();
+      } else if (outcome === 'cancelled') {
+        toast({
+          variant: "destructive",
+          title: "Trip No Longer Available",
+          description: "This trip was assigned or cancelled before you accepted it.",
+        });
+      } else {
+        toast({
+          title: "Offer Declined",
+          description: "The trip will be offered to another driver.",
+        });
+      }
+    } catch (error: any) {
+      console.error('Error responding to offer:', error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Failed to respond to the offer.",
+      });
+      fetchOffers();
+    } finally {
+      setRespondingOffer(null);
+    }
+  };
+
   const createDriverProfile = async (): Promise<string | null> => {
     try {
       setError(null);
@@ -227,21 +397,35 @@ const TodayJobs = () => {
     }
   };
 
+  // Status changes go through the trip state machine, which records when they happened
+  const updateTripStatus = async (tripId: string, status: Trip['status']) => {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      throw new Error('Authentication required');
+    }
+
+    const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
+    const response = await fetch(`${supabaseUrl}/functions/v1/update-trip-status`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${session.access_token}`
+      },
+      body: JSON.stringify({ tripId, status })
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || `HTTP error ${response.status}`);
+    }
+  };
+
   const startTrip = async (tripId: string) => {
     try {
       setStartingTrip(tripId);
       setError(null);
       
-      // Update trip status to in_progress
-      const { error } = await supabase
-        .from('trips')
-        .update({ 
-          status: 'in_progress',
-          started_at: new Date().toISOString()
-        })
-        .eq('id', tripId);
-
-      if (error) throw error;
+      await updateTripStatus(tripId, 'in_progress');
 
       // Update local state
       setTrips(trips.map(trip => 
@@ -269,16 +453,7 @@ const TodayJobs = () => {
       setCompletingTrip(tripId);
       setError(null);
       
-      // Update trip status to completed
-      const { error } = await supabase
-        .from('trips')
-        .update({ 
-          status: 'completed',
-          completed_at: new Date().toISOString()
-        })
-        .eq('id', tripId);
-
-      if (error) throw error;
+      await updateTripStatus(tripId, 'completed');
 
       // Update local state
       setTrips(trips.map(trip => 
@@ -435,7 +610,11 @@ const TodayJobs = () => {
           
           {/* Refresh button */}
           <button 
-            onClick={fetchTrips}
+            onClick={() => {
+              fetchTrips();
+              fetchOffers();
+              fetchNotifications();
+            }}
             disabled={refreshing}
             className="inline-flex items-center px-4 py-2 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-md text-gray-600 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700"
           >
@@ -445,6 +624,157 @@ const TodayJobs = () => {
         </div>
       </div>
 
+      {notifications.length > 0 && (
+        <div className="mb-6 space-y-3">
+          <div className="flex items-center justify-between">
+            <h2 className="text-lg font-medium dark:text-white flex items-center">
+              <BellRing className="h-5 w-5 mr-2 text-yellow-500 dark:text-yellow-400" />
+              Updates
+            </h2>
+            {notifications.length > 1 && (
+              <button
+                onClick={() => dismissNotifications(notifications.map(notification => notification.id))}
+                className="text-sm text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-300"
+              >
+                Dismiss all
+              </button>
+            )}
+          </div>
+          {notifications.map(notification => (
+            <div
+              key={notification.id}
+              className="flex items-start px-4 py-3 rounded-lg border border-yellow-300 dark:border-yellow-700 bg-yellow-50 dark:bg-yellow-900/20"
+            >
+              <Plane className="h-5 w-5 text-yellow-600 dark:text-yellow-400 mt-0.5 mr-3 flex-shrink-0" />
+              <div className="flex-1 text-sm">
+                <p className="font-medium text-gray-900 dark:text-white">{notification.title}</p>
+                <p className="text-gray-700 dark:text-gray-300">{notification.body}</p>
+                {notification.kind === 'pickup_moved' && notification.details?.datetime && (
+                  <p className="mt-1 text-gray-700 dark:text-gray-300">
+                    New pickup: <span className="font-medium">{format(parseISO(notification.details.datetime), 'EEE, MMM d · h:mm a')}</span>
+                    {notification.details.previous_datetime && (
+                      <span className="text-gray-500 dark:text-gray-400"> (was {format(parseISO(notification.details.previous_datetime), 'h:mm a')})</span>
+                    )}
+                  </p>
+                )}
+                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                  {formatDistanceToNow(parseISO(notification.created_at), { addSuffix: true })}
+                </p>
+              </div>
+              <button
+                onClick={() => dismissNotifications([notification.id])}
+                className="ml-3 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+                aria-label="Dismiss"
+              >
+                <X className="h-4 w-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {offers.length > 0 && (
+        <div className="mb-6 space-y-4">
+          <h2 className="text-lg font-medium dark:text-white">Trip Offers</h2>
+          {offers.map(offer => offer.trip && (
+            <div
+              key={offer.id}
+              className="bg-white dark:bg-gray-800 rounded-lg shadow-md overflow-hidden border-2 border-yellow-300 dark:border-yellow-700"
+            >
+              <div className="px-6 py-4 bg-yellow-50 dark:bg-yellow-900/20 flex justify-between items-center">
+                <div className="flex items-center text-gray-900 dark:text-white">
+                  <Calendar className="h-4 w-4 text-gray-500 dark:text-gray-400 mr-1" />
+                  <span className="font-medium">{format(parseISO(offer.trip.datetime), 'EEE, MMM d · h:mm a')}</span>
+                </div>
+                <span className="text-sm text-yellow-800 dark:text-yellow-300">
+                  Respond {formatDistanceToNow(parseISO(offer.expires_at), { addSuffix: true })}
+                </span>
+              </div>
+
+              <div className="px-6 py-4 space-y-2 text-sm">
+                <p className="text-gray-900 dark:text-white">
+                  <span className="text-gray-500 dark:text-gray-400">Pickup: </span>
+                  {offer.trip.pickup_address || 'Unknown location'}
+                </p>
+                {offer.trip.dropoff_address && (
+                  <p className="text-gray-900 dark:text-white">
+                    <span className="text-gray-500 dark:text-gray-400">Drop-off: </span>
+                    {offer.trip.dropoff_address}
+                  </p>
+                )}
+                <p className="text-gray-500 dark:text-gray-400">
+                  {[
+                    offer.trip.vehicle_type,
+                    offer.trip.passengers && `${offer.trip.passengers} passengers`,
+                    offer.trip.estimated_distance_km && `${Math.round(offer.trip.estimated_distance_km)} km`,
+                    offer.trip.estimated_duration_min && `${Math.round(offer.trip.estimated_duration_min)} min`,
+                    offer.trip.estimated_price && `€${Number(offer.trip.estimated_price).toFixed(2)}`
+                  ].filter(Boolean).join(' · ')}
+                </p>
+              </div>
+
+              <div className="px-6 py-3 bg-gray-50 dark:bg-gray-700 flex items-center flex-wrap gap-2">
+                {decliningOffer === offer.id ? (
+                  <>
+                    <input
+                      type="text"
+                      value={declineReason}
+                      onChange={(e) => setDeclineReason(e.target.value)}
+                      placeholder="Reason (optional)"
+                      className="flex-grow px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 text-sm text-gray-700 dark:text-white"
+                    />
+                    <button
+                      onClick={() => respondToOffer(offer.id, false)}
+                      disabled={!!respondingOffer}
+                      className="bg-red-600 hover:bg-red-700 text-white py-2 px-4 rounded-md text-sm font-medium"
+                    >
+                      {respondingOffer === offer.id ? 'Declining...' : 'Confirm Decline'}
+                    </button>
+                    <button
+                      onClick={() => {
+                        setDecliningOffer(null);
+                        setDeclineReason('');
+                      }}
+                      className="py-2 px-4 rounded-md text-sm text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-600"
+                    >
+                      Back
+                    </button>
+                  </>
+                ) : (
+                  <>
+                    <button
+                      onClick={() => respondToOffer(offer.id, true)}
+                      disabled={!!respondingOffer}
+                      className="bg-green-600 hover:bg-green-700 dark:bg-green-700 dark:hover:bg-green-600 text-white py-2 px-4 rounded-md flex items-center text-sm font-medium"
+                    >
+                      {respondingOffer === offer.id ? (
+                        <>
+                          <div className="w-4 h-4 mr-1 border-2 border-white border-t-transparent animate-spin rounded-full"></div>
+                          Accepting...
+                        </>
+                      ) : (
+                        <>
+                          <CheckCircle className="h-4 w-4 mr-2" />
+                          Accept
+                        </>
+                      )}
+                    </button>
+                    <button
+                      onClick={() => setDecliningOffer(offer.id)}
+                      disabled={!!respondingOffer}
+                      className="border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-600 py-2 px-4 rounded-md flex items-center text-sm font-medium"
+                    >
+                      <X className="h-4 w-4 mr-2" />
+                      Decline
+                    </button>
+                  </>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
       {Object.keys(tripsByDate).length === 0 ? (
         <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 text-center border dark:border-gray-700">
           <div className="inline-flex items-center justify-center p-3 bg-blue-100 dark:bg-blue-900/30 rounded-full mb-4">
@@ -491,6 +821,23 @@ const TodayJobs = () => {
                             New Assignment
                           </span>
                         )}
+
+                        {trip.flight_number && (
+                          <span
+                            className={`px-2 py-1 text-xs font-medium rounded-full flex items-center ${
+                              trip.flight_status === 'delayed' || trip.flight_status === 'cancelled' || trip.flight_status === 'diverted'
+                                ? 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-300'
+                                : 'bg-gray-100 text-gray-700 dark:bg-gray-600 dark:text-gray-200'
+                            }`}
+                          >
+                            <Plane className="h-3 w-3 mr-1" />
+                            {trip.flight_number}
+                            {isFlightState(trip.flight_status) && ` · ${FLIGHT_STATE_LABELS[trip.flight_status]}`}
+                            {flightDelayMinutes(trip) > 0 && trip.flight_estimated_arrival && (
+                              ` · lands ${format(parseISO(trip.flight_estimated_arrival), 'h:mm a')}`
+                            )}
+                          </span>
+                        )}
                       </div>
                       
                       <div>
@@ -1,4 +1,21 @@
 import { supabase } from './supabase';
+import type { BookingExportFormat, BookingExportOptions } from './bookingExport';
+import type { BookingQuery } from './bookingFilters';
+import type { BookingView, BookingViewFilters } from './bookingViews';
+import type { BulkBookingRequest, BulkBookingResult } from './bulkBookings';
+import type { CancellationQuote } from './cancellation';
+import type { Customer, CustomerBooking, CustomerQuery, CustomerSummary, MergedCustomer } from './customers';
+import type { DispatchResult } from './dispatch';
+import type { FlightCheckResult } from './flights';
+import type { ScheduleConflict, ScheduleConflictPolicy } from './driverSchedule';
+import type { NewBooking } from './newBooking';
+import type { CustomFee, PriceQuote, PriceSheet } from './pricing';
+import type { BookingSeries, SeriesChanges } from './recurrence';
+import type { ScenarioTrip } from './pricingScenario';
+import type { BookingReminders } from './reminderSchedule';
+import type { ReminderDelivery, ReminderRequest } from './reminderTemplates';
+import type { OfferRequest } from './tripOffers';
+import type { TripStatus, TripStatusTransition } from './tripStatus';
 
 async function refreshSession() {
   try {
@@ -11,7 +28,7 @@ async function refreshSession() {
   }
 }
 
-const callEdgeFunction = async (functionName, payload = {}, method = 'POST') => {
+const callEdgeFunction = async (functionName, payload = {}, method = 'POST', responseType: 'json' | 'blob' = 'json') => {
   try {
     // Explicitly refresh the session before every call to ensure token validity
     await refreshSession();
@@ -50,7 +67,7 @@ const callEdgeFunction = async (functionName, payload = {}, method = 'POST') =>
       throw new Error(errorData.error || `HTTP error ${response.status}`);
     }
     
-    return await response.json();
+    return responseType === 'blob' ? await response.blob() : await response.json();
   } catch (error) {
     console.error(`Calling Supabase Edge Function failed:`, error);
     throw error;
@@ -79,9 +96,34 @@ export const adminApi = {
     return callEdgeFunction('admin-fetch-logs', { driverId, type: 'driver' });
   },
   
-  // Fetch bookings
-  fetchBookings: async () => {
-    return callEdgeFunction('admin-fetch-bookings', {});
+  // Fetch one page of bookings matching the filters, with the total count;
+  // pass the returned nextCursor to fetch the following page
+  fetchBookings: async (query: BookingQuery = {}) => {
+    return callEdgeFunction('admin-fetch-bookings', query);
+  },
+  
+  // Build an export file of the bookings matching the filters, or of the selected bookings
+  exportBookings: async (request: {
+    format: BookingExportFormat;
+    options: BookingExportOptions;
+    query?: BookingQuery;
+    bookingIds?: string[];
+  }): Promise<Blob> => {
+    return callEdgeFunction('admin-export-bookings', request, 'POST', 'blob');
+  },
+  
+  // Fetch the bookings table views saved by the signed-in admin
+  fetchBookingViews: async (): Promise<{ views: BookingView[] }> => {
+    return callEdgeFunction('admin-fetch-booking-views');
+  },
+  
+  // Save a named view of the bookings table; views with an id are renamed or overwritten
+  saveBookingView: async (view: { id?: string; name: string; filters: BookingViewFilters }): Promise<{ view: BookingView }> => {
+    return callEdgeFunction('admin-save-booking-view', { view });
+  },
+  
+  deleteBookingView: async (viewId: string) => {
+    return callEdgeFunction('admin-delete-booking-view', { viewId });
   },
   
   // Fetch booking logs
@@ -94,9 +136,61 @@ export const adminApi = {
     return callEdgeFunction('admin-update-booking', { bookingId, data });
   },
   
+  // Move a booking to another status; cancelling goes through cancelBooking
+  updateBookingStatus: async (bookingId: string, status: TripStatus, reason?: string) => {
+    return callEdgeFunction('update-trip-status', { tripId: bookingId, status, reason });
+  },
+  
+  // Fetch the status changes of a booking, oldest first
+  fetchBookingTimeline: async (bookingId: string): Promise<{ transitions: TripStatusTransition[] }> => {
+    return callEdgeFunction('admin-fetch-booking-timeline', { bookingId });
+  },
+  
   // Assign driver to booking
-  assignDriverToBooking: async (bookingId, driverId) => {
-    return callEdgeFunction('admin-assign-driver', { bookingId, driverId });
+  assignDriverToBooking: async (bookingId, driverId, force = false) => {
+    return callEdgeFunction('admin-assign-driver', { bookingId, driverId, force });
+  },
+  
+  // Offer a booking to drivers one at a time, in order
+  offerTrip: async (params: OfferRequest) => {
+    return callEdgeFunction('admin-offer-trip', params);
+  },
+  
+  // Find drivers whose committed trips overlap a booking
+  fetchDriverSchedule: async (bookingId: string): Promise<{
+    bufferMin: number;
+    policy: ScheduleConflictPolicy;
+    conflicts: Record<string, ScheduleConflict[]>;
+  }> => {
+    return callEdgeFunction('admin-fetch-driver-schedule', { bookingId });
+  },
+  
+  // Assign drivers to pending bookings now instead of waiting for the scheduled run
+  runAutoDispatch: async (bookingId?: string): Promise<{ enabled: boolean; results: DispatchResult[] }> => {
+    return callEdgeFunction('auto-dispatch-trips', { bookingId });
+  },
+  
+  // Look up tracked flights now and move pickups for delays; enabled is false when no flight status provider is configured
+  trackFlights: async (bookingId?: string): Promise<{ enabled: boolean; provider?: string; results: FlightCheckResult[] }> => {
+    return callEdgeFunction('track-flights', { bookingId });
+  },
+  
+  // Apply one action to several bookings; nothing changes unless every booking succeeds
+  bulkUpdateBookings: async (request: BulkBookingRequest): Promise<BulkBookingResult & { canOverride: boolean }> => {
+    return callEdgeFunction('admin-bulk-update-bookings', request);
+  },
+  
+  // Fee and refund the cancellation policy gives for cancelling a booking now
+  previewCancellation: async (bookingId: string, feeOverride?: number | null): Promise<{ quote: CancellationQuote }> => {
+    return callEdgeFunction('admin-cancel-booking', { bookingId, feeOverride, preview: true });
+  },
+  
+  // Cancel a booking, recording its refund or cancellation fee in payments
+  cancelBooking: async (bookingId: string, options: { feeOverride?: number | null; reason?: string } = {}): Promise<{
+    success: boolean;
+    quote: CancellationQuote;
+  }> => {
+    return callEdgeFunction('admin-cancel-booking', { bookingId, ...options });
   },
   
   // Log booking activity
@@ -104,9 +198,52 @@ export const adminApi = {
     return callEdgeFunction('admin-log-activity', { bookingId, action, details });
   },
   
-  // Send booking reminder
-  sendBookingReminder: async (bookingId) => {
-    return callEdgeFunction('admin-send-reminder', { bookingId });
+  // Send booking reminder; without options the default template is emailed to the customer
+  sendBookingReminder: async (
+    bookingId: string,
+    options: Partial<Omit<ReminderRequest, 'bookingId'>> = {}
+  ): Promise<{ success: boolean; message: string; deliveries: ReminderDelivery[] }> => {
+    return callEdgeFunction('admin-send-reminder', { bookingId, ...options });
+  },
+  
+  // Recurring series a booking belongs to, with all of its trips
+  fetchBookingSeries: async (bookingId: string): Promise<{
+    series: BookingSeries | null;
+    occurrences: any[];
+    timeZone: string;
+  }> => {
+    return callEdgeFunction('admin-fetch-booking-series', { bookingId });
+  },
+  
+  // Repeat a booking on the dates of a recurrence rule; the booking becomes the first trip
+  createBookingSeries: async (bookingId: string, rrule: string, skipDates: string[]): Promise<{
+    series: BookingSeries;
+    created: { id: string; booking_reference: string; datetime: string }[];
+  }> => {
+    return callEdgeFunction('admin-create-booking-series', { bookingId, rrule, skipDates });
+  },
+  
+  // Edit one trip of a series, or the series and all of its upcoming trips
+  updateBookingSeries: async (params: {
+    bookingId: string;
+    scope: 'occurrence' | 'series';
+    changes?: SeriesChanges;
+    pickupTime?: string;
+    rrule?: string;
+    skipDates?: string[];
+  }): Promise<{ scope: 'occurrence' | 'series'; updated?: string[]; cancelled?: string[]; created?: string[] }> => {
+    return callEdgeFunction('admin-update-booking-series', params);
+  },
+  
+  // Automatic reminder policies and the reminders already sent for a booking
+  fetchBookingReminders: async (bookingId: string): Promise<BookingReminders> => {
+    return callEdgeFunction('admin-fetch-booking-reminders', { bookingId });
+  },
+  
+  // Create a booking entered by an admin, priced with the live price sheet and
+  // optionally assigned to a driver
+  createBooking: async (booking: NewBooking, driverId?: string, force = false): Promise<{ booking: any; quote: PriceQuote }> => {
+    return callEdgeFunction('admin-create-booking', { booking, driverId, force });
   },
   
   // Duplicate booking
@@ -150,6 +287,40 @@ export const adminApi = {
     return callEdgeFunction('admin-update-settings', { settings });
   },
   
+  // Customers de-duplicated across trips, with their lifetime totals
+  fetchCustomers: async (query: Partial<CustomerQuery> = {}): Promise<{
+    customers: CustomerSummary[];
+    total: number;
+    page: number;
+    pageSize: number;
+  }> => {
+    return callEdgeFunction('admin-fetch-customers', query);
+  },
+  
+  // A customer's profile: totals, booking history, merged duplicates and likely duplicates
+  fetchCustomer: async (customerId: string): Promise<{
+    customer: CustomerSummary;
+    bookings: CustomerBooking[];
+    merged: MergedCustomer[];
+    possibleDuplicates: CustomerSummary[];
+  }> => {
+    return callEdgeFunction('admin-fetch-customer', { customerId });
+  },
+  
+  // Rename a customer or change their notes
+  updateCustomer: async (customerId: string, changes: { name?: string; notes?: string }): Promise<{ customer: Customer }> => {
+    return callEdgeFunction('admin-update-customer', { customerId, ...changes });
+  },
+  
+  // Move the bookings of duplicates to the customer being kept
+  mergeCustomers: async (targetId: string, duplicateIds: string[]): Promise<{
+    customer_id: string;
+    merged: number;
+    trips_moved: number;
+  }> => {
+    return callEdgeFunction('admin-merge-customers', { targetId, duplicateIds });
+  },
+  
   // Fetch payments
   fetchPayments: async (sinceDate, status) => {
     return callEdgeFunction('admin-fetch-payments', { 
@@ -179,16 +350,108 @@ export const adminApi = {
   },
   
   // Simulate pricing
-  simulatePricing: async (origin, destination, vehicleType) => {
+  simulatePricing: async (
+    origin,
+    destination,
+    vehicleType,
+    pickupTime?: string,
+    compareScheduleId?: string,
+    stops: string[] = [],
+    promoCode?: string,
+    customerEmail?: string,
+    customFees?: CustomFee[]
+  ) => {
     return callEdgeFunction('simulate-pricing', {
       origin,
       destination,
-      vehicleType
+      vehicleType,
+      pickupTime,
+      compareScheduleId,
+      stops,
+      promoCode,
+      customerEmail,
+      customFees
+    });
+  },
+  
+  // Quote a batch of trips, or the most recent bookings, under live pricing
+  // and a draft sheet (unsaved edits or a scheduled sheet)
+  simulatePricingBatch: async (params: {
+    trips?: ScenarioTrip[];
+    recentBookings?: number;
+    draftSheet?: PriceSheet;
+    compareScheduleId?: string;
+  }) => {
+    return callEdgeFunction('simulate-pricing-batch', params);
+  },
+  
+  // Stage a full price sheet to go live at effectiveFrom
+  schedulePricingChanges: async (name: string, effectiveFrom: string, sheet: Record<string, unknown>) => {
+    return callEdgeFunction('admin-schedule-pricing', {
+      name,
+      effectiveFrom,
+      sheet
     });
   },
   
+  // Revert a single pricing change (logId) or restore pricing to a point in time (timestamp).
+  // With dryRun the changes are only previewed.
+  rollbackPricing: async (options: { logId?: string; timestamp?: string; dryRun: boolean }) => {
+    return callEdgeFunction('admin-rollback-pricing', options);
+  },
+  
+  // Cancel a scheduled price sheet that has not been activated yet
+  cancelPricingSchedule: async (scheduleId: string) => {
+    return callEdgeFunction('admin-cancel-pricing-schedule', { scheduleId });
+  },
+  
   // Refresh pricing cache
   refreshPricingCache: async () => {
     return callEdgeFunction('refresh-pricing-cache', {});
+  },
+  
+  // Zones with their boundaries and any overlaps or gaps between them
+  fetchZoneBoundaries: async () => {
+    return callEdgeFunction('admin-fetch-zones', {}, 'GET');
+  },
+  
+  // Save zone boundaries; a null boundary removes it
+  updateZoneBoundaries: async (zones: { id: string; boundary: Record<string, unknown> | null }[]) => {
+    return callEdgeFunction('admin-update-zone-boundaries', { zones });
+  },
+  
+  // Find the zone containing a coordinate
+  getZoneForCoordinate: async (lat: number, lng: number) => {
+    return callEdgeFunction('zone-for-coordinate', { lat, lng }, 'GET');
+  },
+  
+  // Promo codes with their usage, plus the zones and vehicle types they can be restricted to
+  fetchPromotions: async () => {
+    return callEdgeFunction('admin-fetch-promotions', {}, 'GET');
+  },
+  
+  // Create a promo code (id missing or "new_") or update an existing one
+  savePromotion: async (promotion: Record<string, unknown>) => {
+    return callEdgeFunction('admin-update-promotion', { promotion });
+  },
+  
+  // Redemptions and per-code totals, optionally for one code and a date range
+  fetchPromoReport: async (filters: { promoCodeId?: string; from?: string; to?: string } = {}) => {
+    return callEdgeFunction('admin-fetch-promo-report', filters, 'GET');
+  },
+  
+  // Check a promo code against a trip; with redeem and tripId it is also applied to the booking
+  validatePromoCode: async (params: {
+    code: string;
+    vehicleType?: string;
+    pickupZoneId?: string;
+    dropoffZoneId?: string;
+    pickupTime?: string;
+    fare?: number;
+    customerEmail?: string;
+    tripId?: string;
+    redeem?: boolean;
+  }) => {
+    return callEdgeFunction('validate-promo-code', params);
   }
 };
\ No newline at end of file
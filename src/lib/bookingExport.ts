@@ -0,0 +1,3 @@
+// Frontend entry point for the shared booking export options.
+// Shared with the admin-export-bookings edge function.
+export * from '../../supabase/functions/_shared/bookingExport.ts';
\ No newline at end of file
@@ -0,0 +1,3 @@
+// Frontend entry point for the shared booking filters and cursor helpers.
+// Shared with the admin-fetch-bookings edge function.
+export * from '../../supabase/functions/_shared/bookingFilters.ts';
\ No newline at end of file
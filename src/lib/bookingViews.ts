@@ -0,0 +1,3 @@
+// Frontend entry point for saved and linked views of the bookings table.
+// Shared with the booking view edge functions.
+export * from '../../supabase/functions/_shared/bookingViews.ts';
\ No newline at end of file
@@ -0,0 +1,3 @@
+// Frontend entry point for the shared bulk booking action types.
+// Shared with the admin-bulk-update-bookings edge function.
+export * from '../../supabase/functions/_shared/bulkBookings.ts';
\ No newline at end of file
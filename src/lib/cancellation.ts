@@ -0,0 +1,3 @@
+// Frontend entry point for the shared cancellation policy.
+// Shared with the booking cancellation edge functions.
+export * from '../../supabase/functions/_shared/cancellation.ts';
\ No newline at end of file
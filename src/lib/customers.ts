@@ -0,0 +1,3 @@
+// Frontend entry point for the customer directory.
+// Shared with the customer edge functions.
+export * from '../../supabase/functions/_shared/customers.ts';
\ No newline at end of file
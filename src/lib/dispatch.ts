@@ -0,0 +1,3 @@
+// Frontend entry point for the shared auto-dispatch types.
+// Shared with the auto-dispatch-trips edge function.
+export * from '../../supabase/functions/_shared/dispatch.ts';
\ No newline at end of file
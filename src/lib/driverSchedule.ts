@@ -0,0 +1,3 @@
+// Frontend entry point for the shared driver schedule helpers.
+// Shared with the admin-assign-driver and admin-fetch-driver-schedule edge functions.
+export * from '../../supabase/functions/_shared/driverSchedule.ts';
\ No newline at end of file
@@ -0,0 +1,3 @@
+// Frontend entry point for the shared flight tracking rules.
+// Shared with the track-flights, admin-create-booking and admin-update-booking edge functions.
+export * from '../../supabase/functions/_shared/flights.ts';
\ No newline at end of file
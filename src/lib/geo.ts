@@ -0,0 +1,3 @@
+// Frontend entry point for the shared geometry helpers.
+// Shared with the pricing and zone edge functions.
+export * from '../../supabase/functions/_shared/geo.ts';
\ No newline at end of file
@@ -0,0 +1,3 @@
+// Frontend entry point for the admin new booking form.
+// Shared with the admin-create-booking edge function.
+export * from '../../supabase/functions/_shared/newBooking.ts';
\ No newline at end of file
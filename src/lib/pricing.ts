@@ -0,0 +1,3 @@
+// Frontend entry point for the shared pricing engine.
+// The implementation lives with the edge functions so both runtimes use the same code.
+export * from '../../supabase/functions/_shared/pricing.ts';
\ No newline at end of file
@@ -0,0 +1,332 @@
+// CSV export and import of the pricing tables.
+// Imports are matched against the live tables by their natural key (vehicle
+// type, zone, or origin/destination/vehicle), so existing rows are updated and
+// the rest are added. Rows missing from the file are left untouched.
+
+import type { FixedRoute, PriceSheet, VehicleBasePrice, ZoneMultiplier } from './pricing';
+import type { ScenarioTrip } from './pricingScenario';
+
+export type PricingCsvTable = 'vehiclePrices' | 'zoneMultipliers' | 'fixedRoutes';
+
+export interface PricingCsvZone {
+  id: string;
+  name: string;
+}
+
+export interface PricingCsvRowError {
+  line: number;
+  message: string;
+}
+
+export interface PricingCsvImport {
+  table: PricingCsvTable;
+  rowCount: number;
+  errors: PricingCsvRowError[];
+  /** Rows to send to admin-update-pricing: existing ids for updates, "new_" ids for inserts */
+  changes: PriceSheet;
+  /** The live sheet with the import applied, for the dry-run diff */
+  merged: PriceSheet;
+}
+
+export const PRICING_CSV_COLUMNS: Record<PricingCsvTable, string[]> = {
+  vehiclePrices: ['vehicle_type', 'base_price_per_km'],
+  zoneMultipliers: ['zone', 'multiplier'],
+  fixedRoutes: ['origin_name', 'destination_name', 'vehicle_type', 'fixed_price']
+};
+
+export const PRICING_CSV_FILE_NAMES: Record<PricingCsvTable, string> = {
+  vehiclePrices: 'vehicle_base_prices',
+  zoneMultipliers: 'zone_multipliers',
+  fixedRoutes: 'fixed_routes'
+};
+
+const escapeCell = (value: unknown) => {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Joins rows of cells into CSV text, quoting cells where needed.
+ */
+export function toCsv(rows: unknown[][]): string {
+  return rows.map(row => row.map(escapeCell).join(',')).join('\n');
+}
+
+/**
+ * Parses CSV text into rows of cells. Handles quoted cells containing
+ * commas, quotes and line breaks.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  // Drop blank lines
+  return rows.filter(r => r.some(value => value.trim() !== ''));
+}
+
+/**
+ * Builds the CSV export of one pricing table. Zones are exported by name.
+ */
+export function buildPricingCsv(table: PricingCsvTable, sheet: PriceSheet, zones: PricingCsvZone[]): string {
+  const columns = PRICING_CSV_COLUMNS[table];
+  let rows: unknown[][];
+
+  if (table === 'vehiclePrices') {
+    rows = sheet.vehiclePrices.map(p => [p.vehicle_type, p.base_price_per_km]);
+  } else if (table === 'zoneMultipliers') {
+    rows = sheet.zoneMultipliers.map(m => [
+      zones.find(z => z.id === m.zone_id)?.name || m.zone_id,
+      m.multiplier
+    ]);
+  } else {
+    rows = sheet.fixedRoutes.map(r => [r.origin_name, r.destination_name, r.vehicle_type, r.fixed_price]);
+  }
+
+  return toCsv([columns, ...rows]);
+}
+
+const parsePrice = (value: string) => (value.trim() === '' ? NaN : Number(value.trim()));
+
+const routeKey = (origin: string, destination: string, vehicleType: string) =>
+  `${origin.trim().toLowerCase()}|${destination.trim().toLowerCase()}|${vehicleType}`;
+
+/**
+ * Parses and validates an imported CSV against the live sheet. Errors carry
+ * the line number in the file (the header is line 1).
+ */
+export function parsePricingCsv(
+  table: PricingCsvTable,
+  text: string,
+  current: PriceSheet,
+  zones: PricingCsvZone[]
+): PricingCsvImport {
+  const errors: PricingCsvRowError[] = [];
+  const changes: PriceSheet = { vehiclePrices: [], zoneMultipliers: [], fixedRoutes: [] };
+  const merged: PriceSheet = {
+    ...current,
+    vehiclePrices: [...current.vehiclePrices],
+    zoneMultipliers: [...current.zoneMultipliers],
+    fixedRoutes: [...current.fixedRoutes]
+  };
+
+  const [header = [], ...rows] = parseCsv(text);
+  const columns = header.map(h => h.trim().toLowerCase());
+  const expected = PRICING_CSV_COLUMNS[table];
+  const missing = expected.filter(column => !columns.includes(column));
+
+  if (missing.length > 0) {
+    errors.push({ line: 1, message: `Missing column${missing.length > 1 ? 's' : ''}: ${missing.join(', ')}` });
+    return { table, rowCount: rows.length, errors, changes, merged };
+  }
+
+  const get = (row: string[], column: string) => (row[columns.indexOf(column)] || '').trim();
+  const seen = new Set<string>();
+  const newId = (index: number) => `new_${Date.now()}_${index}`;
+  // Fixed routes may only use vehicle types that already have a base price
+  const knownVehicleTypes = new Set(current.vehiclePrices.map(p => p.vehicle_type));
+
+  rows.forEach((row, index) => {
+    const line = index + 2;
+    const rowErrors: string[] = [];
+
+    if (table === 'vehiclePrices') {
+      const vehicleType = get(row, 'vehicle_type');
+      const price = parsePrice(get(row, 'base_price_per_km'));
+
+      if (!vehicleType) rowErrors.push('vehicle type is required');
+      else if (seen.has(vehicleType)) rowErrors.push(`duplicate vehicle type "${vehicleType}"`);
+      if (Number.isNaN(price)) rowErrors.push('base price per km must be a number');
+      else if (price < 0) rowErrors.push('base price per km cannot be negative');
+
+      if (rowErrors.length === 0) {
+        seen.add(vehicleType);
+        const existing = current.vehiclePrices.find(p => p.vehicle_type === vehicleType);
+        const updated: VehicleBasePrice = {
+          id: existing?.id || newId(index),
+          vehicle_type: vehicleType,
+          base_price_per_km: price
+        };
+
+        if (!existing || Number(existing.base_price_per_km) !== price) {
+          changes.vehiclePrices.push(updated);
+        }
+        merged.vehiclePrices = existing
+          ? merged.vehiclePrices.map(p => (p.id === existing.id ? updated : p))
+          : [...merged.vehiclePrices, updated];
+      }
+    } else if (table === 'zoneMultipliers') {
+      const zoneValue = get(row, 'zone');
+      const multiplier = parsePrice(get(row, 'multiplier'));
+      const zone = zones.find(z => z.id === zoneValue || z.name.toLowerCase() === zoneValue.toLowerCase());
+
+      if (!zoneValue) rowErrors.push('zone is required');
+      else if (!zone) rowErrors.push(`unknown zone "${zoneValue}"`);
+      else if (seen.has(zone.id)) rowErrors.push(`duplicate zone "${zone.name}"`);
+      if (Number.isNaN(multiplier)) rowErrors.push('multiplier must be a number');
+      else if (multiplier <= 0) rowErrors.push('multiplier must be greater than 0');
+
+      if (rowErrors.length === 0 && zone) {
+        seen.add(zone.id);
+        const existing = current.zoneMultipliers.find(m => m.zone_id === zone.id);
+        const updated: ZoneMultiplier = {
+          id: existing?.id || newId(index),
+          zone_id: zone.id,
+          multiplier
+        };
+
+        if (!existing || Number(existing.multiplier) !== multiplier) {
+          changes.zoneMultipliers.push(updated);
+        }
+        merged.zoneMultipliers = existing
+          ? merged.zoneMultipliers.map(m => (m.id === existing.id ? updated : m))
+          : [...merged.zoneMultipliers, updated];
+      }
+    } else {
+      const origin = get(row, 'origin_name');
+      const destination = get(row, 'destination_name');
+      const vehicleType = get(row, 'vehicle_type');
+      const price = parsePrice(get(row, 'fixed_price'));
+      const key = routeKey(origin, destination, vehicleType);
+
+      if (!origin || !destination) rowErrors.push('origin and destination are required');
+      if (!vehicleType) rowErrors.push('vehicle type is required');
+      else if (!knownVehicleTypes.has(vehicleType)) rowErrors.push(`unknown vehicle type "${vehicleType}"`);
+      if (origin && destination && seen.has(key)) {
+        rowErrors.push(`duplicate route ${origin} → ${destination} for ${vehicleType}`);
+      }
+      if (Number.isNaN(price)) rowErrors.push('fixed price must be a number');
+      else if (price < 0) rowErrors.push('fixed price cannot be negative');
+
+      if (rowErrors.length === 0) {
+        seen.add(key);
+        const existing = current.fixedRoutes.find(r =>
+          routeKey(r.origin_name, r.destination_name, r.vehicle_type) === key
+        );
+        // Zones, direction and stops are edited in the app and kept as they are
+        const updated: FixedRoute = {
+          ...existing,
+          id: existing?.id || newId(index),
+          origin_name: origin,
+          destination_name: destination,
+          vehicle_type: vehicleType,
+          fixed_price: price
+        };
+
+        if (!existing || Number(existing.fixed_price) !== price) {
+          changes.fixedRoutes.push(updated);
+        }
+        merged.fixedRoutes = existing
+          ? merged.fixedRoutes.map(r => (r.id === existing.id ? updated : r))
+          : [...merged.fixedRoutes, updated];
+      }
+    }
+
+    rowErrors.forEach(message => errors.push({ line, message }));
+  });
+
+  return { table, rowCount: rows.length, errors, changes, merged };
+}
+
+/** Columns of a trip list for the scenario comparison; pickup_time and stops are optional */
+export const SCENARIO_CSV_COLUMNS = ['origin', 'destination', 'vehicle_type', 'pickup_time', 'stops'];
+
+/**
+ * Parses a trip list for the scenario comparison. Stops are separated by "|"
+ * within their cell. Blank lines are skipped.
+ */
+export function parseScenarioCsv(text: string): { trips: ScenarioTrip[]; errors: PricingCsvRowError[] } {
+  const trips: ScenarioTrip[] = [];
+  const errors: PricingCsvRowError[] = [];
+
+  const [header = [], ...rows] = parseCsv(text);
+  const columns = header.map(h => h.trim().toLowerCase());
+  const missing = SCENARIO_CSV_COLUMNS.slice(0, 3).filter(column => !columns.includes(column));
+
+  if (missing.length > 0) {
+    errors.push({ line: 1, message: `Missing column${missing.length > 1 ? 's' : ''}: ${missing.join(', ')}` });
+    return { trips, errors };
+  }
+
+  const get = (row: string[], column: string) =>
+    columns.includes(column) ? (row[columns.indexOf(column)] || '').trim() : '';
+
+  rows.forEach((row, index) => {
+    const line = index + 2;
+    if (row.every(cell => !cell.trim())) return;
+
+    const trip: ScenarioTrip = {
+      origin: get(row, 'origin'),
+      destination: get(row, 'destination'),
+      vehicleType: get(row, 'vehicle_type'),
+      pickupTime: get(row, 'pickup_time') || null,
+      stops: get(row, 'stops').split('|').map(stop => stop.trim()).filter(Boolean)
+    };
+
+    if (!trip.origin || !trip.destination) errors.push({ line, message: 'origin and destination are required' });
+    if (!trip.vehicleType) errors.push({ line, message: 'vehicle type is required' });
+    if (trip.pickupTime && Number.isNaN(new Date(trip.pickupTime).getTime())) {
+      errors.push({ line, message: `invalid pickup time "${trip.pickupTime}"` });
+    }
+
+    trips.push({
+      ...trip,
+      // Times without an offset are read in the browser's timezone
+      pickupTime: trip.pickupTime && !Number.isNaN(new Date(trip.pickupTime).getTime())
+        ? new Date(trip.pickupTime).toISOString()
+        : trip.pickupTime
+    });
+  });
+
+  return { trips, errors };
+}
+
+/**
+ * Starts a browser download of CSV content.
+ */
+export function downloadCsv(content: string, fileName: string) {
+  const blob = new Blob([content], { type: 'text/csv;charset=utf-8;' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.setAttribute('href', url);
+  link.setAttribute('download', fileName);
+  link.style.visibility = 'hidden';
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
\ No newline at end of file
@@ -0,0 +1,3 @@
+// Frontend entry point for pricing change history helpers.
+// Shared with the admin-rollback-pricing edge function.
+export * from '../../supabase/functions/_shared/pricingHistory.ts';
\ No newline at end of file
@@ -0,0 +1,3 @@
+// Frontend entry point for the pricing scenario comparison.
+// Shared with the simulate-pricing-batch edge function.
+export * from '../../supabase/functions/_shared/pricingScenario.ts';
\ No newline at end of file
@@ -0,0 +1,3 @@
+// Frontend entry point for the shared promo code rules.
+// Shared with the validate-promo-code and admin promotion edge functions.
+export * from '../../supabase/functions/_shared/promo.ts';
\ No newline at end of file
@@ -0,0 +1,3 @@
+// Frontend entry point for the shared recurring booking rules.
+// Shared with the booking series edge functions.
+export * from '../../supabase/functions/_shared/recurrence.ts';
\ No newline at end of file
@@ -0,0 +1,3 @@
+// Frontend entry point for the shared reminder schedule.
+// Shared with the send-scheduled-reminders and admin-fetch-booking-reminders edge functions.
+export * from '../../supabase/functions/_shared/reminderSchedule.ts';
\ No newline at end of file
@@ -0,0 +1,3 @@
+// Frontend entry point for the shared reminder templates.
+// Shared with the admin-send-reminder and admin-bulk-update-bookings edge functions.
+export * from '../../supabase/functions/_shared/reminderTemplates.ts';
\ No newline at end of file
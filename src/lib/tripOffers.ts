@@ -0,0 +1,3 @@
+// Frontend entry point for the shared trip offer types.
+// Shared with the admin-offer-trip edge function.
+export * from '../../supabase/functions/_shared/tripOffers.ts';
\ No newline at end of file
@@ -0,0 +1,3 @@
+// Frontend entry point for the trip status state machine.
+// Shared with the update-trip-status edge function and the database rules.
+export * from '../../supabase/functions/_shared/tripStatus.ts';
\ No newline at end of file
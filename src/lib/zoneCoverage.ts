@@ -0,0 +1,3 @@
+// Frontend entry point for zone boundary validation.
+// Shared with the admin-update-zone-boundaries edge function, which enforces it on save.
+export * from '../../supabase/functions/_shared/zoneCoverage.ts';
\ No newline at end of file
@@ -0,0 +1,119 @@
+// GeoJSON import and export of zone boundaries.
+// Exports are a FeatureCollection with one feature per zone. Imported
+// features are matched to zones by the id or name in their properties; a
+// bare geometry, or a single feature that matches no zone, goes to the zone
+// selected in the editor.
+
+import type { ZoneBoundary, ZoneGeometry } from './geo';
+import { validateZoneBoundary } from './zoneCoverage';
+
+export interface ZoneGeoJsonImport {
+  /** New boundaries by zone id */
+  boundaries: Record<string, ZoneBoundary>;
+  errors: string[];
+}
+
+interface GeoJsonFeature {
+  type: 'Feature';
+  properties?: Record<string, unknown> | null;
+  geometry: unknown;
+}
+
+/**
+ * Builds a FeatureCollection of every zone that has a boundary.
+ */
+export function buildZonesGeoJson(zones: ZoneGeometry[]): string {
+  return JSON.stringify({
+    type: 'FeatureCollection',
+    features: zones
+      .filter(zone => zone.boundary)
+      .map(zone => ({
+        type: 'Feature',
+        properties: { id: zone.id, name: zone.name },
+        geometry: zone.boundary
+      }))
+  }, null, 2);
+}
+
+/**
+ * Parses an imported GeoJSON file and validates every geometry in it.
+ */
+export function parseZonesGeoJson(
+  text: string,
+  zones: ZoneGeometry[],
+  selectedZoneId: string | null
+): ZoneGeoJsonImport {
+  const boundaries: Record<string, ZoneBoundary> = {};
+  const errors: string[] = [];
+
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { boundaries, errors: ['The file is not valid JSON'] };
+  }
+
+  let features: GeoJsonFeature[];
+  if (data?.type === 'FeatureCollection' && Array.isArray(data.features)) {
+    features = data.features;
+  } else if (data?.type === 'Feature') {
+    features = [data];
+  } else if (data?.type === 'Polygon' || data?.type === 'MultiPolygon') {
+    features = [{ type: 'Feature', properties: null, geometry: data }];
+  } else {
+    return { boundaries, errors: ['Expected a GeoJSON FeatureCollection, Feature, Polygon or MultiPolygon'] };
+  }
+
+  features.forEach((feature, index) => {
+    const label = features.length > 1 ? `Feature ${index + 1}` : 'Geometry';
+    const properties = feature?.properties || {};
+    const key = String(properties.id ?? properties.zone_id ?? properties.name ?? '').trim();
+
+    let zone = zones.find(z =>
+      z.id === key || (key !== '' && z.name.toLowerCase() === key.toLowerCase()) ||
+      (typeof properties.name === 'string' && z.name.toLowerCase() === properties.name.trim().toLowerCase())
+    );
+
+    if (!zone && features.length === 1 && selectedZoneId) {
+      zone = zones.find(z => z.id === selectedZoneId);
+    }
+
+    if (!zone) {
+      errors.push(key
+        ? `${label}: no zone matches "${key}"`
+        : `${label}: select a zone to import a geometry without a zone name`);
+      return;
+    }
+
+    if (boundaries[zone.id]) {
+      errors.push(`${label}: ${zone.name} appears more than once`);
+      return;
+    }
+
+    const problems = validateZoneBoundary(feature?.geometry);
+    if (problems.length > 0) {
+      errors.push(`${label} (${zone.name}): ${problems.join('; ')}`);
+      return;
+    }
+
+    boundaries[zone.id] = feature.geometry as ZoneBoundary;
+  });
+
+  return { boundaries, errors };
+}
+
+/**
+ * Starts a browser download of GeoJSON content.
+ */
+export function downloadGeoJson(content: string, fileName: string) {
+  const blob = new Blob([content], { type: 'application/geo+json;charset=utf-8;' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.setAttribute('href', url);
+  link.setAttribute('download', fileName);
+  link.style.visibility = 'hidden';
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
\ No newline at end of file
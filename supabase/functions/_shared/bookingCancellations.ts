@@ -0,0 +1,66 @@
+// Works out cancellation fees for stored bookings, for the admin-cancel-booking,
+// admin-bulk-update-bookings and admin-update-booking-series edge functions.
+// The cancellation itself is applied by the apply_booking_cancellation
+// database function.
+
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2.39.0";
+import {
+  DEFAULT_CANCELLATION_POLICY,
+  normalizeCancellationPolicy,
+  quoteCancellation,
+  type CancellationPayment,
+  type CancellationPolicy,
+  type CancellationQuote
+} from "./cancellation.ts";
+
+/** What apply_booking_cancellation expects for each booking */
+export interface BookingCancellation extends CancellationQuote {
+  reason?: string;
+}
+
+/** The saved cancellation policy, or the default one when none is usable */
+export async function fetchCancellationPolicy(supabaseClient: SupabaseClient): Promise<CancellationPolicy> {
+  const { data, error } = await supabaseClient
+    .from("platform_settings")
+    .select("cancellation_policy")
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data?.cancellation_policy) return DEFAULT_CANCELLATION_POLICY;
+
+  const { policy, errors } = normalizeCancellationPolicy(data.cancellation_policy);
+  return errors.length > 0 ? DEFAULT_CANCELLATION_POLICY : policy;
+}
+
+/**
+ * Quotes the cancellation of each booking by its id. Bookings that do not
+ * exist are left out. `feeOverride` replaces the policy fee of every booking.
+ */
+export async function quoteBookingCancellations(
+  supabaseClient: SupabaseClient,
+  bookingIds: string[],
+  options: { feeOverride?: number | null; reason?: string; now?: Date } = {}
+): Promise<Record<string, BookingCancellation>> {
+  const policy = await fetchCancellationPolicy(supabaseClient);
+
+  const { data: bookings, error } = await supabaseClient
+    .from("trips")
+    .select("id, datetime, vehicle_type, estimated_price, promo_discount, custom_fees, payments:payments!payments_trip_id_fkey(amount, status, kind)")
+    .in("id", bookingIds);
+
+  if (error) throw error;
+
+  const quotes: Record<string, BookingCancellation> = {};
+  for (const booking of bookings || []) {
+    quotes[booking.id] = {
+      ...quoteCancellation(policy, booking, (booking.payments || []) as CancellationPayment[], {
+        now: options.now,
+        feeOverride: options.feeOverride
+      }),
+      reason: options.reason || undefined
+    };
+  }
+
+  return quotes;
+}
\ No newline at end of file
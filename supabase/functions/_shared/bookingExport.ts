@@ -0,0 +1,327 @@
+// Booking exports from the admin bookings page, built by the
+// admin-export-bookings edge function. Excel files get a bookings sheet plus
+// separate payments and custom fees sheets with real dates and amounts; CSV
+// files hold the bookings sheet only.
+
+import { getLocalTimeParts, summarizeBookingPrice, type CustomFee } from "./pricing.ts";
+import { localToday, shiftLocalDate, zonedDateTime } from "./recurrence.ts";
+import { buildWorkbook, excelSerialDate, type CellValue, type Worksheet } from "./xlsx.ts";
+
+export type BookingExportFormat = "csv" | "excel";
+
+export type BookingExportDateRange = "all" | "thisMonth" | "lastMonth" | "thisYear" | "custom";
+
+export const BOOKING_EXPORT_DATE_RANGES: BookingExportDateRange[] = ["all", "thisMonth", "lastMonth", "thisYear", "custom"];
+
+export interface BookingExportOptions {
+  includeNotes: boolean;
+  includeCustomerInfo: boolean;
+  includePayments: boolean;
+  includeFees: boolean;
+  /** Pickup dates to export, on top of the table filters */
+  dateRange: BookingExportDateRange;
+  /** First and last pickup date of a custom range, YYYY-MM-DD */
+  from?: string;
+  to?: string;
+}
+
+export const DEFAULT_BOOKING_EXPORT_OPTIONS: BookingExportOptions = {
+  includeNotes: true,
+  includeCustomerInfo: true,
+  includePayments: true,
+  includeFees: true,
+  dateRange: "all"
+};
+
+/** Most bookings written to one file */
+export const MAX_EXPORT_BOOKINGS = 10000;
+
+export interface ExportBooking {
+  id: string;
+  booking_reference: string;
+  status: string;
+  datetime: string;
+  created_at?: string | null;
+  customer_name?: string | null;
+  customer_email?: string | null;
+  customer_phone?: string | null;
+  pickup_address?: string | null;
+  dropoff_address?: string | null;
+  vehicle_type?: string | null;
+  passengers?: number | null;
+  priority?: number | null;
+  estimated_price?: number | string | null;
+  promo_discount?: number | string | null;
+  custom_fees?: CustomFee[] | null;
+  internal_tags?: string[] | null;
+  notes?: string | null;
+  driver?: { name?: string | null } | null;
+  payments?: {
+    id: string;
+    amount: number | string;
+    status: string;
+    kind?: string | null;
+    payment_method?: string | null;
+    paid_at?: string | null;
+    created_at?: string | null;
+    reason?: string | null;
+  }[] | null;
+}
+
+export type ExportColumnType = "text" | "number" | "currency" | "datetime";
+
+export interface ExportColumn {
+  header: string;
+  type: ExportColumnType;
+  width?: number;
+}
+
+/** One sheet of an export; datetime cells hold ISO timestamps */
+export interface ExportTable {
+  name: string;
+  columns: ExportColumn[];
+  rows: (string | number | null | undefined)[][];
+}
+
+const PRIORITY_LABELS = ["Normal", "High", "Urgent"];
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Checks the export options, returning the problems found alongside the
+ * normalized options. Unset flags keep their defaults.
+ */
+export function normalizeExportOptions(raw: unknown): { options: BookingExportOptions; errors: string[] } {
+  const errors: string[] = [];
+  const input = (raw && typeof raw === "object" ? raw : {}) as Record<string, unknown>;
+  const options: BookingExportOptions = { ...DEFAULT_BOOKING_EXPORT_OPTIONS };
+
+  for (const flag of ["includeNotes", "includeCustomerInfo", "includePayments", "includeFees"] as const) {
+    if (input[flag] !== undefined) options[flag] = input[flag] === true;
+  }
+
+  if (input.dateRange !== undefined) {
+    if (!BOOKING_EXPORT_DATE_RANGES.includes(input.dateRange as BookingExportDateRange)) {
+      errors.push(`Unknown date range: ${String(input.dateRange)}`);
+    } else {
+      options.dateRange = input.dateRange as BookingExportDateRange;
+    }
+  }
+
+  if (options.dateRange === "custom") {
+    for (const field of ["from", "to"] as const) {
+      const value = input[field];
+      if (value === undefined || value === null || value === "") continue;
+      if (typeof value !== "string" || !DATE_PATTERN.test(value)) errors.push(`The "${field}" date must be YYYY-MM-DD`);
+      else options[field] = value;
+    }
+    if (!options.from && !options.to) errors.push("Choose the first or last date of the custom range");
+    if (options.from && options.to && options.from > options.to) errors.push("The custom range ends before it starts");
+  }
+
+  return { options, errors };
+}
+
+/**
+ * Pickup time bounds of the export's date range, as ISO timestamps; from is
+ * inclusive, to is exclusive. Months and years follow the platform time zone.
+ */
+export function exportDateRange(options: BookingExportOptions, timeZone: string, now = new Date()): { from?: string; to?: string } {
+  const today = localToday(timeZone, now);
+  const startOf = (date: string) => zonedDateTime(date, 0, timeZone).toISOString();
+  const monthStart = `${today.slice(0, 7)}-01`;
+  const nextMonth = (date: string) => {
+    const [year, month] = date.split("-").map(Number);
+    return month === 12 ? `${year + 1}-01-01` : `${year}-${String(month + 1).padStart(2, "0")}-01`;
+  };
+
+  switch (options.dateRange) {
+    case "thisMonth":
+      return { from: startOf(monthStart), to: startOf(nextMonth(monthStart)) };
+    case "lastMonth": {
+      const lastMonthStart = `${shiftLocalDate(monthStart, -1).slice(0, 7)}-01`;
+      return { from: startOf(lastMonthStart), to: startOf(monthStart) };
+    }
+    case "thisYear":
+      return { from: startOf(`${today.slice(0, 4)}-01-01`), to: startOf(`${Number(today.slice(0, 4)) + 1}-01-01`) };
+    case "custom":
+      return {
+        from: options.from ? startOf(options.from) : undefined,
+        to: options.to ? startOf(shiftLocalDate(options.to, 1)) : undefined
+      };
+    default:
+      return {};
+  }
+}
+
+/** The bookings sheet, plus payments and custom fees sheets when included */
+export function bookingExportTables(bookings: ExportBooking[], options: BookingExportOptions): ExportTable[] {
+  const columns: ExportColumn[] = [
+    { header: "Reference", type: "text", width: 14 },
+    { header: "Booking ID", type: "text", width: 38 },
+    { header: "Status", type: "text", width: 12 },
+    { header: "Pickup Time", type: "datetime", width: 18 },
+    { header: "Booked At", type: "datetime", width: 18 }
+  ];
+  if (options.includeCustomerInfo) {
+    columns.push(
+      { header: "Customer Name", type: "text", width: 24 },
+      { header: "Customer Email", type: "text", width: 30 },
+      { header: "Customer Phone", type: "text", width: 18 }
+    );
+  }
+  columns.push(
+    { header: "Pickup", type: "text", width: 40 },
+    { header: "Dropoff", type: "text", width: 40 },
+    { header: "Vehicle", type: "text", width: 14 },
+    { header: "Passengers", type: "number" },
+    { header: "Driver", type: "text", width: 22 },
+    { header: "Priority", type: "text" },
+    { header: "Fare", type: "currency", width: 12 },
+    { header: "Discount", type: "currency", width: 12 }
+  );
+  if (options.includeFees) columns.push({ header: "Fees", type: "currency", width: 12 });
+  columns.push({ header: "Total", type: "currency", width: 12 });
+  if (options.includePayments) columns.push({ header: "Paid", type: "currency", width: 12 });
+  columns.push({ header: "Tags", type: "text", width: 20 });
+  if (options.includeNotes) columns.push({ header: "Notes", type: "text", width: 50 });
+
+  const rows = bookings.map(booking => {
+    const price = summarizeBookingPrice(booking);
+    // Settled payments of any kind; refunds are negative
+    const paid = (booking.payments || [])
+      .filter(payment => payment.status === "completed")
+      .reduce((sum, payment) => sum + (Number(payment.amount) || 0), 0);
+
+    return [
+      booking.booking_reference,
+      booking.id,
+      booking.status,
+      booking.datetime,
+      booking.created_at,
+      ...(options.includeCustomerInfo ? [booking.customer_name, booking.customer_email, booking.customer_phone] : []),
+      booking.pickup_address,
+      booking.dropoff_address,
+      booking.vehicle_type,
+      booking.passengers,
+      booking.driver?.name || "Not Assigned",
+      PRIORITY_LABELS[booking.priority || 0] || "Normal",
+      price.fare,
+      price.discount,
+      ...(options.includeFees ? [price.feesTotal] : []),
+      price.total,
+      ...(options.includePayments ? [Math.round(paid * 100) / 100] : []),
+      (booking.internal_tags || []).join(", "),
+      ...(options.includeNotes ? [booking.notes] : [])
+    ];
+  });
+
+  const tables: ExportTable[] = [{ name: "Bookings", columns, rows }];
+
+  if (options.includePayments) {
+    tables.push({
+      name: "Payments",
+      columns: [
+        { header: "Reference", type: "text", width: 14 },
+        { header: "Payment ID", type: "text", width: 38 },
+        { header: "Kind", type: "text", width: 16 },
+        { header: "Status", type: "text", width: 12 },
+        { header: "Method", type: "text", width: 14 },
+        { header: "Amount", type: "currency", width: 12 },
+        { header: "Paid At", type: "datetime", width: 18 },
+        { header: "Created At", type: "datetime", width: 18 },
+        { header: "Reason", type: "text", width: 40 }
+      ],
+      rows: bookings.flatMap(booking => (booking.payments || []).map(payment => [
+        booking.booking_reference,
+        payment.id,
+        (payment.kind || "charge").replace(/_/g, " "),
+        payment.status,
+        payment.payment_method,
+        Number(payment.amount) || 0,
+        payment.paid_at,
+        payment.created_at,
+        payment.reason
+      ]))
+    });
+  }
+
+  if (options.includeFees) {
+    tables.push({
+      name: "Custom Fees",
+      columns: [
+        { header: "Reference", type: "text", width: 14 },
+        { header: "Fee", type: "text", width: 30 },
+        { header: "Amount", type: "currency", width: 12 },
+        { header: "Shown to Customer", type: "text", width: 18 }
+      ],
+      rows: bookings.flatMap(booking => (booking.custom_fees || []).map(fee => [
+        booking.booking_reference,
+        fee.name,
+        Number(fee.amount) || 0,
+        fee.customer_visible ? "Yes" : "No"
+      ]))
+    });
+  }
+
+  return tables;
+}
+
+const CURRENCY_SYMBOLS: Record<string, string> = { EUR: "€", USD: "$", GBP: "£" };
+
+/** Excel number format showing amounts in the platform currency */
+export function currencyNumberFormat(currency: string): string {
+  const symbol = CURRENCY_SYMBOLS[currency];
+  return symbol ? `"${symbol}"#,##0.00` : `#,##0.00 "${currency}"`;
+}
+
+const formatLocal = (value: string, timeZone: string) => {
+  const { date, minutes } = getLocalTimeParts(value, timeZone);
+  return `${date} ${String(Math.floor(minutes / 60)).padStart(2, "0")}:${String(minutes % 60).padStart(2, "0")}`;
+};
+
+/** An .xlsx workbook of the tables; times are shown in the platform time zone */
+export function exportWorkbook(tables: ExportTable[], settings: { timeZone: string; currency: string }): Uint8Array {
+  const sheets: Worksheet[] = tables.map(table => ({
+    name: table.name,
+    columns: table.columns.map(column => ({
+      header: column.header,
+      width: column.width,
+      numFmt: column.type === "currency"
+        ? currencyNumberFormat(settings.currency)
+        : column.type === "datetime" ? "yyyy-mm-dd hh:mm" : undefined
+    })),
+    rows: table.rows.map(row => table.columns.map((column, c): CellValue => {
+      const value = row[c];
+      if (value === null || value === undefined || value === "") return null;
+      if (column.type === "datetime") {
+        const { date, minutes } = getLocalTimeParts(String(value), settings.timeZone);
+        return excelSerialDate(date, minutes);
+      }
+      return value;
+    }))
+  }));
+
+  return buildWorkbook(sheets);
+}
+
+const csvCell = (value: string) => /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+/** A CSV file of one table, starting with a byte order mark so Excel reads it as UTF-8 */
+export function exportCsv(table: ExportTable, timeZone: string): string {
+  const lines = [
+    table.columns.map(column => csvCell(column.header)).join(","),
+    ...table.rows.map(row => table.columns.map((column, c) => {
+      const value = row[c];
+      if (value === null || value === undefined || value === "") return "";
+      if (column.type === "datetime") return formatLocal(String(value), timeZone);
+      if (column.type === "currency") return Number(value).toFixed(2);
+      return csvCell(String(value));
+    }).join(","))
+  ];
+  return `\uFEFF${lines.join("\r\n")}`;
+}
+
+export function exportFileName(format: BookingExportFormat, now = new Date()): string {
+  return `bookings-export-${now.toISOString().slice(0, 10)}.${format === "excel" ? "xlsx" : "csv"}`;
+}
\ No newline at end of file
@@ -0,0 +1,210 @@
+// Filtering, sorting and cursor pagination of bookings, shared by the
+// admin-fetch-bookings edge function and the admin bookings table.
+// Filters are turned into PostgREST filter strings so they run in the database.
+
+export type BookingStatus = "pending" | "accepted" | "in_progress" | "completed" | "cancelled";
+
+export type BookingSortField = "datetime" | "customer_name" | "status" | "priority" | "created_at";
+
+export const BOOKING_SORT_FIELDS: BookingSortField[] = ["datetime", "customer_name", "status", "priority", "created_at"];
+
+export const BOOKING_STATUSES: BookingStatus[] = ["pending", "accepted", "in_progress", "completed", "cancelled"];
+
+export const DEFAULT_BOOKINGS_PAGE_SIZE = 50;
+export const MAX_BOOKINGS_PAGE_SIZE = 200;
+
+export interface BookingQuery {
+  status?: BookingStatus[];
+  /** Pickup time range; from is inclusive, to is exclusive */
+  from?: string;
+  to?: string;
+  driver?: "assigned" | "unassigned";
+  priority?: number[];
+  /** Bookings carrying any of these internal tags */
+  tags?: string[];
+  search?: string;
+  sort?: BookingSortField;
+  order?: "asc" | "desc";
+  limit?: number;
+  /** Opaque position returned as nextCursor by the previous page */
+  cursor?: string;
+}
+
+/** Position of the last row of a page: its sort value and id as a tie-breaker */
+export interface BookingCursor {
+  value: string | number | null;
+  id: string;
+}
+
+const toList = (value: unknown): string[] => {
+  if (value === undefined || value === null || value === "") return [];
+  const list = Array.isArray(value) ? value : String(value).split(",");
+  return list.map(item => String(item).trim()).filter(Boolean);
+};
+
+/**
+ * Reads query parameters from a request body or query string. Lists may be
+ * arrays or comma-separated strings. Returns the problems found alongside
+ * the normalized query.
+ */
+export function normalizeBookingQuery(raw: Record<string, unknown>): { query: BookingQuery; errors: string[] } {
+  const errors: string[] = [];
+  const query: BookingQuery = {};
+
+  const status = toList(raw.status).filter(s => s !== "all");
+  const unknownStatus = status.filter(s => !BOOKING_STATUSES.includes(s as BookingStatus));
+  if (unknownStatus.length > 0) errors.push(`Unknown status: ${unknownStatus.join(", ")}`);
+  if (status.length > 0) query.status = status as BookingStatus[];
+
+  for (const field of ["from", "to"] as const) {
+    const value = raw[field];
+    if (value) {
+      if (Number.isNaN(Date.parse(String(value)))) errors.push(`Invalid "${field}" date`);
+      else query[field] = new Date(String(value)).toISOString();
+    }
+  }
+
+  if (raw.driver && raw.driver !== "all") {
+    if (raw.driver !== "assigned" && raw.driver !== "unassigned") errors.push('Driver must be "assigned" or "unassigned"');
+    else query.driver = raw.driver;
+  }
+
+  const priority = toList(raw.priority).filter(p => p !== "all").map(Number);
+  if (priority.some(p => !Number.isInteger(p))) errors.push("Priority must be a whole number");
+  else if (priority.length > 0) query.priority = priority;
+
+  const tags = toList(raw.tags);
+  if (tags.length > 0) query.tags = tags;
+
+  if (raw.search && String(raw.search).trim()) query.search = String(raw.search).trim();
+
+  const sort = (raw.sort || "datetime") as BookingSortField;
+  if (!BOOKING_SORT_FIELDS.includes(sort)) errors.push(`Cannot sort by "${raw.sort}"`);
+  query.sort = sort;
+
+  const order = raw.order || "desc";
+  if (order !== "asc" && order !== "desc") errors.push('Order must be "asc" or "desc"');
+  query.order = order === "asc" ? "asc" : "desc";
+
+  const limit = raw.limit === undefined || raw.limit === "" ? DEFAULT_BOOKINGS_PAGE_SIZE : Number(raw.limit);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_BOOKINGS_PAGE_SIZE) {
+    errors.push(`Limit must be between 1 and ${MAX_BOOKINGS_PAGE_SIZE}`);
+  }
+  query.limit = limit;
+
+  if (raw.cursor) {
+    if (!decodeBookingCursor(String(raw.cursor))) errors.push("Invalid cursor");
+    else query.cursor = String(raw.cursor);
+  }
+
+  return { query, errors };
+}
+
+/**
+ * Cursors are base64-encoded JSON so they survive query strings.
+ */
+export function encodeBookingCursor(cursor: BookingCursor): string {
+  const bytes = new TextEncoder().encode(JSON.stringify(cursor));
+  return btoa(String.fromCharCode(...bytes));
+}
+
+export function decodeBookingCursor(value: string): BookingCursor | null {
+  try {
+    const binary = atob(value);
+    const parsed = JSON.parse(new TextDecoder().decode(Uint8Array.from(binary, char => char.charCodeAt(0))));
+    return parsed && typeof parsed.id === "string" && "value" in parsed ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Quotes a value for a PostgREST filter so commas, parentheses and quotes in
+ * user input cannot change the filter's meaning.
+ */
+export function quoteFilterValue(value: string | number): string {
+  return `"${String(value).replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+}
+
+const SEARCH_COLUMNS = ["customer_name", "customer_email", "booking_reference", "notes", "pickup_address", "dropoff_address"];
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export function isUuid(value: unknown): value is string {
+  return typeof value === "string" && UUID_PATTERN.test(value);
+}
+
+/**
+ * An `or` filter matching the search text anywhere in the customer,
+ * reference, notes and address columns, or the booking id exactly.
+ */
+export function buildSearchFilter(search: string): string {
+  // LIKE wildcards in the input are matched literally
+  const pattern = quoteFilterValue(`%${search.replace(/[\\%_]/g, char => `\\${char}`)}%`);
+  const filters = SEARCH_COLUMNS.map(column => `${column}.ilike.${pattern}`);
+  if (isUuid(search)) filters.push(`id.eq.${search}`);
+  return filters.join(",");
+}
+
+/**
+ * Adds the query's filters to a PostgREST request on trips. Sorting and
+ * paging are left to the caller.
+ */
+export function applyBookingFilters(request: any, query: BookingQuery): any {
+  if (query.status) request = request.in("status", query.status);
+  if (query.from) request = request.gte("datetime", query.from);
+  if (query.to) request = request.lt("datetime", query.to);
+  if (query.driver === "assigned") request = request.not("driver_id", "is", null);
+  if (query.driver === "unassigned") request = request.is("driver_id", null);
+  if (query.priority) {
+    // Bookings without a priority count as normal
+    request = query.priority.includes(0)
+      ? request.or(`priority.in.(${query.priority.join(",")}),priority.is.null`)
+      : request.in("priority", query.priority);
+  }
+  if (query.tags) request = request.overlaps("internal_tags", query.tags);
+  if (query.search) request = request.or(buildSearchFilter(query.search));
+  return request;
+}
+
+/**
+ * An `or` filter selecting the rows after the cursor in the given order.
+ * Rows are ordered by the sort column with nulls last, then by id.
+ */
+export function buildCursorFilter(sort: BookingSortField, order: "asc" | "desc", cursor: BookingCursor): string {
+  const op = order === "asc" ? "gt" : "lt";
+  const id = quoteFilterValue(cursor.id);
+
+  if (cursor.value === null) {
+    return `and(${sort}.is.null,id.${op}.${id})`;
+  }
+
+  const value = quoteFilterValue(cursor.value);
+  return `${sort}.${op}.${value},and(${sort}.eq.${value},id.${op}.${id}),${sort}.is.null`;
+}
+
+/**
+ * Pickup time bounds for the table's quick date filters, in the caller's
+ * local time.
+ */
+export function bookingDateRange(range: string, now = new Date()): { from?: string; to?: string } {
+  if (range === "upcoming") return { from: now.toISOString() };
+  if (range === "past") return { to: now.toISOString() };
+  if (range === "today") {
+    const start = new Date(now);
+    start.setHours(0, 0, 0, 0);
+    const end = new Date(start);
+    end.setDate(end.getDate() + 1);
+    return { from: start.toISOString(), to: end.toISOString() };
+  }
+  if (range === "week") {
+    // Monday to Sunday
+    const start = new Date(now);
+    start.setHours(0, 0, 0, 0);
+    start.setDate(start.getDate() - (start.getDay() + 6) % 7);
+    const end = new Date(start);
+    end.setDate(end.getDate() + 7);
+    return { from: start.toISOString(), to: end.toISOString() };
+  }
+  return {};
+}
\ No newline at end of file
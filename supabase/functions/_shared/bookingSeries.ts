@@ -0,0 +1,91 @@
+// Creates the trips of recurring booking series ahead of time. Used when a
+// series is created or changed and by the daily generate-recurring-bookings
+// job; each date of a series gets at most one trip, so running it twice is
+// harmless.
+
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2.39.0";
+import {
+  localToday,
+  SERIES_GENERATE_DAYS,
+  seriesLastDate,
+  seriesOccurrences,
+  seriesSchedule,
+  shiftLocalDate,
+  type BookingSeries
+} from "./recurrence.ts";
+
+/** Trip statuses of series trips that later series changes still apply to */
+export const OPEN_SERIES_TRIP_STATUSES = ["pending", "accepted"];
+
+export function seriesBookingReference(): string {
+  return `REC-${Math.floor(100000 + Math.random() * 900000)}`;
+}
+
+/**
+ * Creates the series' trips from `fromDate` (by default the day after the
+ * last generated date) up to SERIES_GENERATE_DAYS ahead, and marks the
+ * series ended once its last trip exists. Pickups already in the past are
+ * not created. Expects a service-role client. Returns the trips created.
+ */
+export async function generateSeriesTrips(
+  supabaseClient: SupabaseClient,
+  series: BookingSeries,
+  actorId: string | null,
+  options: { fromDate?: string; now?: Date } = {}
+): Promise<{ id: string; booking_reference: string; datetime: string }[]> {
+  const now = options.now || new Date();
+  const schedule = seriesSchedule(series);
+  const horizon = shiftLocalDate(localToday(series.time_zone, now), SERIES_GENERATE_DAYS);
+  const fromDate = options.fromDate || (series.generated_through ? shiftLocalDate(series.generated_through, 1) : "0000-01-01");
+
+  const occurrences = seriesOccurrences(schedule, horizon)
+    .filter(occurrence => occurrence.date >= fromDate && new Date(occurrence.datetime) > now);
+
+  let created: { id: string; booking_reference: string; datetime: string }[] = [];
+
+  if (occurrences.length > 0) {
+    const timestamp = now.toISOString();
+    const { data, error } = await supabaseClient
+      .from("trips")
+      .upsert(
+        occurrences.map(occurrence => ({
+          ...series.template,
+          status: "pending",
+          priority: 0,
+          datetime: occurrence.datetime,
+          booking_reference: seriesBookingReference(),
+          series_id: series.id,
+          series_date: occurrence.date,
+          created_at: timestamp
+        })),
+        { onConflict: "series_id,series_date", ignoreDuplicates: true }
+      )
+      .select("id, booking_reference, datetime");
+
+    if (error) throw error;
+    created = data || [];
+
+    if (created.length > 0) {
+      await supabaseClient.from("booking_activity_logs").insert(created.map(trip => ({
+        booking_id: trip.id,
+        user_id: actorId,
+        action: "series_occurrence_created",
+        details: { series_id: series.id, timestamp },
+        created_at: timestamp
+      })));
+    }
+  }
+
+  const lastDate = seriesLastDate(schedule);
+  const { error: updateError } = await supabaseClient
+    .from("booking_series")
+    .update({
+      generated_through: lastDate && lastDate < horizon ? lastDate : horizon,
+      status: !lastDate || lastDate <= horizon ? "ended" : "active"
+    })
+    .eq("id", series.id);
+
+  if (updateError) throw updateError;
+
+  return created;
+}
\ No newline at end of file
@@ -0,0 +1,199 @@
+// Views of the admin bookings table: its filters as kept in the page URL, so a
+// filtered table can be shared as a link, and as saved by name for each admin
+// in `booking_views`. Date ranges stay relative, so a view of this week's
+// bookings always shows the current week.
+
+import {
+  BOOKING_SORT_FIELDS,
+  BOOKING_STATUSES,
+  DEFAULT_BOOKINGS_PAGE_SIZE,
+  MAX_BOOKINGS_PAGE_SIZE,
+  type BookingSortField,
+  type BookingStatus
+} from "./bookingFilters.ts";
+
+/** Quick date filters, resolved by `bookingDateRange` when bookings are fetched */
+export type BookingDateRange = "all" | "upcoming" | "today" | "week" | "past";
+
+export const BOOKING_DATE_RANGES: BookingDateRange[] = ["all", "upcoming", "today", "week", "past"];
+
+export const BOOKING_DATE_RANGE_LABELS: Record<BookingDateRange, string> = {
+  all: "All dates",
+  upcoming: "Upcoming",
+  today: "Today",
+  week: "This week",
+  past: "Past"
+};
+
+export type BookingPriorityFilter = "normal" | "high" | "urgent";
+
+/** `trips.priority` of each priority filter */
+export const BOOKING_PRIORITY_FILTERS: Record<BookingPriorityFilter, number> = { normal: 0, high: 1, urgent: 2 };
+
+export interface BookingViewFilters {
+  status: BookingStatus | "all";
+  dateRange: BookingDateRange;
+  driver: "all" | "assigned" | "unassigned";
+  priority: BookingPriorityFilter | "all";
+  tags: string[];
+  search: string;
+  sort: BookingSortField;
+  order: "asc" | "desc";
+  pageSize: number;
+}
+
+export const DEFAULT_BOOKING_VIEW_FILTERS: BookingViewFilters = {
+  status: "all",
+  dateRange: "upcoming",
+  driver: "all",
+  priority: "all",
+  tags: [],
+  search: "",
+  sort: "datetime",
+  order: "desc",
+  pageSize: DEFAULT_BOOKINGS_PAGE_SIZE
+};
+
+export interface BookingView {
+  id: string;
+  user_id: string;
+  name: string;
+  filters: BookingViewFilters;
+  created_at: string;
+  updated_at: string;
+}
+
+export const MAX_BOOKING_VIEWS = 50;
+export const MAX_BOOKING_VIEW_NAME_LENGTH = 80;
+
+/** URL query parameter of each filter */
+const SEARCH_PARAMS: Record<keyof BookingViewFilters, string> = {
+  status: "status",
+  dateRange: "range",
+  driver: "driver",
+  priority: "priority",
+  tags: "tags",
+  search: "q",
+  sort: "sort",
+  order: "order",
+  pageSize: "size"
+};
+
+const oneOf = <T extends string>(value: unknown, allowed: readonly T[]): value is T =>
+  typeof value === "string" && (allowed as readonly string[]).includes(value);
+
+/**
+ * Checks saved or linked filters, returning the problems found alongside the
+ * normalized filters. Missing filters and ones with problems get their
+ * default, so the result is always usable.
+ */
+export function normalizeBookingViewFilters(raw: unknown): { filters: BookingViewFilters; errors: string[] } {
+  const errors: string[] = [];
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    return { filters: { ...DEFAULT_BOOKING_VIEW_FILTERS }, errors: ["Filters must be an object"] };
+  }
+
+  const input = raw as Record<string, unknown>;
+  const filters: BookingViewFilters = { ...DEFAULT_BOOKING_VIEW_FILTERS, tags: [] };
+  const given = (key: keyof BookingViewFilters) => input[key] !== undefined && input[key] !== null && input[key] !== "";
+
+  if (given("status")) {
+    if (input.status === "all" || oneOf(input.status, BOOKING_STATUSES)) filters.status = input.status as BookingViewFilters["status"];
+    else errors.push(`Unknown status: ${input.status}`);
+  }
+
+  if (given("dateRange")) {
+    if (oneOf(input.dateRange, BOOKING_DATE_RANGES)) filters.dateRange = input.dateRange;
+    else errors.push(`Unknown date range: ${input.dateRange}`);
+  }
+
+  if (given("driver")) {
+    if (oneOf(input.driver, ["all", "assigned", "unassigned"] as const)) filters.driver = input.driver;
+    else errors.push('Driver must be "all", "assigned" or "unassigned"');
+  }
+
+  if (given("priority")) {
+    if (input.priority === "all" || oneOf(input.priority, Object.keys(BOOKING_PRIORITY_FILTERS) as BookingPriorityFilter[])) {
+      filters.priority = input.priority as BookingViewFilters["priority"];
+    } else {
+      errors.push(`Unknown priority: ${input.priority}`);
+    }
+  }
+
+  if (given("tags")) {
+    const tags = Array.isArray(input.tags) ? input.tags : String(input.tags).split(",");
+    filters.tags = [...new Set(tags.map(tag => String(tag).trim()).filter(Boolean))];
+  }
+
+  if (given("search")) filters.search = String(input.search).trim();
+
+  if (given("sort")) {
+    if (oneOf(input.sort, BOOKING_SORT_FIELDS)) filters.sort = input.sort;
+    else errors.push(`Cannot sort by "${input.sort}"`);
+  }
+
+  if (given("order")) {
+    if (input.order === "asc" || input.order === "desc") filters.order = input.order;
+    else errors.push('Order must be "asc" or "desc"');
+  }
+
+  if (given("pageSize")) {
+    const pageSize = Number(input.pageSize);
+    if (Number.isInteger(pageSize) && pageSize >= 1 && pageSize <= MAX_BOOKINGS_PAGE_SIZE) filters.pageSize = pageSize;
+    else errors.push(`Page size must be between 1 and ${MAX_BOOKINGS_PAGE_SIZE}`);
+  }
+
+  return { filters, errors };
+}
+
+/** Query parameters for the filters; filters left at their default are omitted */
+export function bookingViewSearchParams(filters: BookingViewFilters): URLSearchParams {
+  const params = new URLSearchParams();
+  for (const key of Object.keys(SEARCH_PARAMS) as (keyof BookingViewFilters)[]) {
+    const value = key === "tags" ? filters.tags.join(",") : String(filters[key]);
+    const fallback = key === "tags" ? "" : String(DEFAULT_BOOKING_VIEW_FILTERS[key]);
+    if (value !== fallback) params.set(SEARCH_PARAMS[key], value);
+  }
+  return params;
+}
+
+/** Filters from a page URL's query parameters; values that cannot be used are ignored */
+export function bookingViewFromSearchParams(params: URLSearchParams): BookingViewFilters {
+  const raw: Record<string, string> = {};
+  for (const [key, param] of Object.entries(SEARCH_PARAMS)) {
+    const value = params.get(param);
+    if (value !== null) raw[key] = value;
+  }
+  return normalizeBookingViewFilters(raw).filters;
+}
+
+export function sameBookingViewFilters(a: BookingViewFilters, b: BookingViewFilters): boolean {
+  return bookingViewSearchParams(a).toString() === bookingViewSearchParams(b).toString();
+}
+
+/** A short summary of the filters that are set, e.g. "Pending · This week · Unassigned" */
+export function describeBookingViewFilters(filters: BookingViewFilters): string {
+  const parts: string[] = [];
+  if (filters.status !== "all") parts.push(filters.status.replace("_", " ").replace(/^./, c => c.toUpperCase()));
+  if (filters.dateRange !== "all") parts.push(BOOKING_DATE_RANGE_LABELS[filters.dateRange]);
+  if (filters.driver !== "all") parts.push(filters.driver === "assigned" ? "Assigned" : "Unassigned");
+  if (filters.priority !== "all") parts.push(`${filters.priority.replace(/^./, c => c.toUpperCase())} priority`);
+  if (filters.tags.length > 0) parts.push(`Tagged ${filters.tags.join(", ")}`);
+  if (filters.search) parts.push(`"${filters.search}"`);
+  return parts.join(" · ") || "All bookings";
+}
+
+/** Checks a view an admin is saving; the name is trimmed */
+export function validateBookingView(view: { name?: unknown; filters?: unknown }): {
+  name: string;
+  filters: BookingViewFilters;
+  errors: string[];
+} {
+  const name = typeof view.name === "string" ? view.name.trim() : "";
+  const { filters, errors } = normalizeBookingViewFilters(view.filters);
+
+  if (!name) errors.unshift("Name the view");
+  else if (name.length > MAX_BOOKING_VIEW_NAME_LENGTH) errors.unshift(`View names are at most ${MAX_BOOKING_VIEW_NAME_LENGTH} characters`);
+
+  return { name, filters, errors };
+}
\ No newline at end of file
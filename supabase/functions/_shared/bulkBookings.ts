@@ -0,0 +1,92 @@
+// Actions applied to several bookings at once from the admin bookings page.
+// The changes themselves are made by the admin_bulk_update_bookings database
+// function so a batch is applied in a single transaction: either every
+// booking is updated or, when any of them fails, none are.
+
+export type BulkBookingAction = "assign_driver" | "send_reminder" | "set_priority" | "add_tags" | "cancel";
+
+export const BULK_BOOKING_ACTIONS: BulkBookingAction[] = [
+  "assign_driver",
+  "send_reminder",
+  "set_priority",
+  "add_tags",
+  "cancel"
+];
+
+/** Most bookings changed in one batch, matching the largest bookings page */
+export const MAX_BULK_BOOKINGS = 200;
+
+export interface BulkBookingParams {
+  /** Driver to assign, as `drivers.id` */
+  driverId?: string;
+  /** 0=normal, 1=high, 2=urgent */
+  priority?: number;
+  /** Internal tags added to each booking alongside its existing ones */
+  tags?: string[];
+}
+
+export interface BulkBookingRequest {
+  bookingIds: string[];
+  action: BulkBookingAction;
+  params: BulkBookingParams;
+  /** Assign drivers with overlapping trips when the conflict policy only warns */
+  force?: boolean;
+}
+
+/** Outcome for one booking of a batch */
+export interface BulkBookingRowResult {
+  bookingId: string;
+  bookingReference: string | null;
+  success: boolean;
+  error?: string;
+}
+
+export interface BulkBookingResult {
+  /** False when any booking failed, in which case no booking was changed */
+  applied: boolean;
+  results: BulkBookingRowResult[];
+  /** Reminder messages that could not be delivered after the batch was applied */
+  undelivered?: number;
+}
+
+/**
+ * Checks a bulk request, returning the problems found alongside the
+ * normalized request. Repeated bookings are only changed once.
+ */
+export function normalizeBulkRequest(raw: Record<string, unknown>): { request: BulkBookingRequest; errors: string[] } {
+  const errors: string[] = [];
+
+  const bookingIds = Array.isArray(raw.bookingIds)
+    ? [...new Set(raw.bookingIds.filter((id): id is string => typeof id === "string" && id !== ""))]
+    : [];
+  if (bookingIds.length === 0) errors.push("Select at least one booking");
+  if (bookingIds.length > MAX_BULK_BOOKINGS) errors.push(`At most ${MAX_BULK_BOOKINGS} bookings can be changed at once`);
+
+  const action = BULK_BOOKING_ACTIONS.includes(raw.action as BulkBookingAction) ? raw.action as BulkBookingAction : null;
+  if (!action) errors.push(`Unknown action: ${String(raw.action)}`);
+
+  const rawParams = (raw.params && typeof raw.params === "object" ? raw.params : {}) as Record<string, unknown>;
+  const params: BulkBookingParams = {};
+
+  if (action === "assign_driver") {
+    params.driverId = typeof rawParams.driverId === "string" ? rawParams.driverId : "";
+    if (!params.driverId) errors.push("Choose a driver to assign");
+  }
+
+  if (action === "set_priority") {
+    params.priority = Number(rawParams.priority);
+    if (![0, 1, 2].includes(params.priority)) errors.push("Priority must be 0 (normal), 1 (high) or 2 (urgent)");
+  }
+
+  if (action === "add_tags") {
+    params.tags = Array.isArray(rawParams.tags)
+      ? [...new Set(rawParams.tags.filter((tag): tag is string => typeof tag === "string").map(tag => tag.trim()).filter(Boolean))]
+      : [];
+    if (params.tags.length === 0) errors.push("Enter at least one tag");
+  }
+
+  return {
+    request: { bookingIds, action: action || "send_reminder", params, force: raw.force === true },
+    errors
+  };
+}
\ No newline at end of file
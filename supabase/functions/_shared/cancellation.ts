@@ -0,0 +1,187 @@
+// Cancellation fees and refunds, shared by the booking cancellation edge
+// functions and the admin bookings page. The policy is kept in
+// `platform_settings.cancellation_policy`: fee tiers by how close to pickup a
+// booking is cancelled, with different tiers for some vehicle types.
+
+import { roundCurrency, summarizeBookingPrice, type BookingPriceInput } from "./pricing.ts";
+
+export interface CancellationFeeTier {
+  /** The tier applies to bookings cancelled less than this many hours before pickup */
+  hours_before: number;
+  /** Share of the booking total kept as the fee */
+  fee_percent: number;
+}
+
+export interface CancellationVehicleException {
+  vehicle_type: string;
+  tiers: CancellationFeeTier[];
+}
+
+export interface CancellationPolicy {
+  tiers: CancellationFeeTier[];
+  /** Vehicle types charged by their own tiers instead of the default ones */
+  vehicle_exceptions: CancellationVehicleException[];
+}
+
+export const DEFAULT_CANCELLATION_POLICY: CancellationPolicy = {
+  tiers: [
+    { hours_before: 24, fee_percent: 50 },
+    { hours_before: 2, fee_percent: 100 }
+  ],
+  vehicle_exceptions: []
+};
+
+/** Payment kinds recorded in `payments.kind`; refunds have negative amounts */
+export type PaymentKind = "charge" | "refund" | "cancellation_fee";
+
+export interface CancellationBooking extends BookingPriceInput {
+  datetime: string;
+  vehicle_type?: string | null;
+}
+
+export interface CancellationPayment {
+  amount: number | string;
+  status: string;
+  kind?: PaymentKind | null;
+}
+
+export interface CancellationQuote {
+  /** Negative once pickup has passed */
+  hoursBeforePickup: number;
+  tier: CancellationFeeTier | null;
+  /** Vehicle type whose own tiers were used */
+  vehicleException: string | null;
+  total: number;
+  feePercent: number;
+  fee: number;
+  /** What the customer has paid, less earlier refunds */
+  paid: number;
+  refund: number;
+  /** Fee not covered by what was paid */
+  outstanding: number;
+  /** Set when an admin replaced the policy fee */
+  feeOverridden: boolean;
+}
+
+const sameVehicle = (a?: string | null, b?: string | null) =>
+  (a || "").trim().toLowerCase() === (b || "").trim().toLowerCase();
+
+/** The tiers a booking is charged by */
+export function cancellationTiersFor(
+  policy: CancellationPolicy,
+  vehicleType?: string | null
+): { tiers: CancellationFeeTier[]; vehicleException: string | null } {
+  const exception = vehicleType
+    ? policy.vehicle_exceptions.find(e => sameVehicle(e.vehicle_type, vehicleType))
+    : undefined;
+  return exception
+    ? { tiers: exception.tiers, vehicleException: exception.vehicle_type }
+    : { tiers: policy.tiers, vehicleException: null };
+}
+
+/**
+ * The tier for a cancellation this many hours before pickup: the narrowest
+ * window the cancellation falls in, or null when it is early enough to be free.
+ */
+export function matchCancellationTier(tiers: CancellationFeeTier[], hoursBeforePickup: number): CancellationFeeTier | null {
+  return [...tiers]
+    .sort((a, b) => a.hours_before - b.hours_before)
+    .find(tier => hoursBeforePickup < tier.hours_before) || null;
+}
+
+/** Completed charges less refunds that have not failed */
+export function paidAmount(payments: CancellationPayment[]): number {
+  return roundCurrency(payments.reduce((sum, payment) => {
+    const amount = Number(payment.amount) || 0;
+    const kind = payment.kind || "charge";
+    if (kind === "charge" && payment.status === "completed") return sum + amount;
+    if (kind === "refund" && payment.status !== "failed") return sum + amount;
+    return sum;
+  }, 0));
+}
+
+/**
+ * The fee and refund for cancelling a booking now. The fee is kept from what
+ * the customer paid; the rest is refunded, and a fee larger than the payment
+ * is left outstanding. `feeOverride` replaces the policy fee, e.g. to waive it.
+ */
+export function quoteCancellation(
+  policy: CancellationPolicy,
+  booking: CancellationBooking,
+  payments: CancellationPayment[],
+  options: { now?: Date; feeOverride?: number | null } = {}
+): CancellationQuote {
+  const now = options.now || new Date();
+  const hoursBeforePickup = (new Date(booking.datetime).getTime() - now.getTime()) / 3_600_000;
+  const { tiers, vehicleException } = cancellationTiersFor(policy, booking.vehicle_type);
+  const tier = matchCancellationTier(tiers, hoursBeforePickup);
+  const total = Math.max(summarizeBookingPrice(booking).total, 0);
+
+  const feeOverridden = options.feeOverride !== undefined && options.feeOverride !== null;
+  const fee = feeOverridden
+    ? roundCurrency(Math.min(Math.max(options.feeOverride!, 0), total))
+    : roundCurrency(total * (tier?.fee_percent || 0) / 100);
+  const paid = Math.max(paidAmount(payments), 0);
+
+  return {
+    hoursBeforePickup: Math.round(hoursBeforePickup * 10) / 10,
+    tier,
+    vehicleException,
+    total,
+    feePercent: total > 0 ? Math.round(fee / total * 1000) / 10 : 0,
+    fee,
+    paid,
+    refund: roundCurrency(Math.max(paid - fee, 0)),
+    outstanding: roundCurrency(Math.max(fee - paid, 0)),
+    feeOverridden
+  };
+}
+
+const normalizeTiers = (raw: unknown, label: string, errors: string[]): CancellationFeeTier[] => {
+  if (!Array.isArray(raw)) {
+    errors.push(`${label}: fee tiers must be a list`);
+    return [];
+  }
+
+  const tiers = raw.map((item: Record<string, unknown>, index) => {
+    const hours = Number(item?.hours_before);
+    const percent = Number(item?.fee_percent);
+    if (!Number.isFinite(hours) || hours < 0) errors.push(`${label}, tier ${index + 1}: hours before pickup cannot be negative`);
+    if (!Number.isFinite(percent) || percent < 0 || percent > 100) errors.push(`${label}, tier ${index + 1}: the fee must be between 0% and 100%`);
+    return { hours_before: hours, fee_percent: percent };
+  });
+
+  const hours = tiers.map(tier => tier.hours_before);
+  if (new Set(hours).size !== hours.length) errors.push(`${label}: two tiers start at the same number of hours`);
+
+  return tiers.sort((a, b) => b.hours_before - a.hours_before);
+};
+
+/**
+ * Checks the policy an admin saved, returning the problems found alongside
+ * the normalized policy. Tiers are kept widest window first.
+ */
+export function normalizeCancellationPolicy(raw: unknown): { policy: CancellationPolicy; errors: string[] } {
+  const errors: string[] = [];
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    return { policy: DEFAULT_CANCELLATION_POLICY, errors: ["Cancellation policy must be an object"] };
+  }
+
+  const input = raw as Record<string, unknown>;
+  const tiers = normalizeTiers(input.tiers, "Default fees", errors);
+
+  const exceptions = Array.isArray(input.vehicle_exceptions) ? input.vehicle_exceptions : [];
+  const vehicle_exceptions = exceptions.map((item: Record<string, unknown>, index) => {
+    const vehicleType = typeof item?.vehicle_type === "string" ? item.vehicle_type.trim() : "";
+    if (!vehicleType) errors.push(`Vehicle exception ${index + 1}: choose a vehicle type`);
+    return {
+      vehicle_type: vehicleType,
+      tiers: normalizeTiers(item?.tiers, vehicleType || `Vehicle exception ${index + 1}`, errors)
+    };
+  });
+
+  const vehicleTypes = vehicle_exceptions.map(e => e.vehicle_type.toLowerCase()).filter(Boolean);
+  if (new Set(vehicleTypes).size !== vehicleTypes.length) errors.push("Each vehicle type can only have one exception");
+
+  return { policy: { tiers, vehicle_exceptions }, errors };
+}
\ No newline at end of file
@@ -0,0 +1,157 @@
+// The customer directory: customers de-duplicated from the contact details
+// copied onto trips, as kept in `customers` by the trips trigger. Shared by
+// the customer edge functions and the admin Customers section.
+
+import { quoteFilterValue } from "./bookingFilters.ts";
+
+export interface Customer {
+  id: string;
+  name: string;
+  email: string | null;
+  phone: string | null;
+  /** Account the customer books with, if any */
+  user_id: string | null;
+  notes: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/** A customer with their lifetime totals, from the `customer_summaries` view */
+export interface CustomerSummary extends Customer {
+  /** Digits of the phone number, as customers are matched by */
+  phone_key: string | null;
+  bookings: number;
+  completed_bookings: number;
+  cancellations: number;
+  /** Completed payments less refunds */
+  spend: number;
+  first_booking_at: string | null;
+  last_booking_at: string | null;
+}
+
+/** A duplicate merged into a customer, whose details still lead to them */
+export interface MergedCustomer {
+  id: string;
+  name: string;
+  email: string | null;
+  phone: string | null;
+  merged_at: string | null;
+}
+
+export interface CustomerBooking {
+  id: string;
+  booking_reference: string;
+  datetime: string;
+  status: string;
+  pickup_address: string | null;
+  dropoff_address: string | null;
+  vehicle_type: string | null;
+  estimated_price: number | null;
+  promo_discount?: number | null;
+  custom_fees?: { id: string; name: string; amount: number; customer_visible: boolean }[] | null;
+}
+
+export type CustomerSortField = "last_booking_at" | "name" | "bookings" | "spend" | "cancellations" | "created_at";
+
+export const CUSTOMER_SORT_FIELDS: CustomerSortField[] = ["last_booking_at", "name", "bookings", "spend", "cancellations", "created_at"];
+
+export const CUSTOMER_SORT_LABELS: Record<CustomerSortField, string> = {
+  last_booking_at: "Last booking",
+  name: "Name",
+  bookings: "Bookings",
+  spend: "Spend",
+  cancellations: "Cancellations",
+  created_at: "First seen"
+};
+
+export const DEFAULT_CUSTOMERS_PAGE_SIZE = 50;
+export const MAX_CUSTOMERS_PAGE_SIZE = 200;
+export const MAX_CUSTOMER_NOTES_LENGTH = 2000;
+/** Most duplicates merged into a customer at once */
+export const MAX_MERGED_CUSTOMERS = 20;
+
+export interface CustomerQuery {
+  search?: string;
+  sort: CustomerSortField;
+  order: "asc" | "desc";
+  /** Zero-based */
+  page: number;
+  pageSize: number;
+}
+
+/** Reads the directory's query from a request, returning the problems found alongside it */
+export function normalizeCustomerQuery(raw: Record<string, unknown>): { query: CustomerQuery; errors: string[] } {
+  const errors: string[] = [];
+
+  const sort = (raw.sort || "last_booking_at") as CustomerSortField;
+  if (!CUSTOMER_SORT_FIELDS.includes(sort)) errors.push(`Cannot sort by "${raw.sort}"`);
+
+  const order = raw.order || "desc";
+  if (order !== "asc" && order !== "desc") errors.push('Order must be "asc" or "desc"');
+
+  const page = raw.page === undefined || raw.page === "" ? 0 : Number(raw.page);
+  if (!Number.isInteger(page) || page < 0) errors.push("Page must be zero or more");
+
+  const pageSize = raw.pageSize === undefined || raw.pageSize === "" ? DEFAULT_CUSTOMERS_PAGE_SIZE : Number(raw.pageSize);
+  if (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > MAX_CUSTOMERS_PAGE_SIZE) {
+    errors.push(`Page size must be between 1 and ${MAX_CUSTOMERS_PAGE_SIZE}`);
+  }
+
+  const search = typeof raw.search === "string" ? raw.search.trim() : "";
+
+  return {
+    query: {
+      search: search || undefined,
+      sort: CUSTOMER_SORT_FIELDS.includes(sort) ? sort : "last_booking_at",
+      order: order === "asc" ? "asc" : "desc",
+      page: Number.isInteger(page) && page >= 0 ? page : 0,
+      pageSize: Number.isInteger(pageSize) && pageSize >= 1 && pageSize <= MAX_CUSTOMERS_PAGE_SIZE ? pageSize : DEFAULT_CUSTOMERS_PAGE_SIZE
+    },
+    errors
+  };
+}
+
+// LIKE wildcards in the input are matched literally
+const likePattern = (value: string) => value.replace(/[\\%_]/g, char => `\\${char}`);
+
+/** An `or` filter matching the search text in a customer's name, email or phone */
+export function buildCustomerSearchFilter(search: string): string {
+  const pattern = quoteFilterValue(`%${likePattern(search)}%`);
+  return ["name", "email", "phone"].map(column => `${column}.ilike.${pattern}`).join(",");
+}
+
+/**
+ * An `or` filter for other customers that are likely the same person: the
+ * same name ignoring case, or the same phone number digits. Null when the
+ * customer has neither.
+ */
+export function buildPossibleDuplicateFilter(customer: { name: string; phone_key: string | null }): string | null {
+  const filters = [
+    customer.name.trim() ? `name.ilike.${quoteFilterValue(likePattern(customer.name.trim()))}` : null,
+    customer.phone_key ? `phone_key.eq.${quoteFilterValue(customer.phone_key)}` : null
+  ].filter(Boolean);
+  return filters.length > 0 ? filters.join(",") : null;
+}
+
+/** Checks a merge request; duplicates are listed once each */
+export function validateCustomerMerge(targetId: unknown, duplicateIds: unknown): {
+  targetId: string;
+  duplicateIds: string[];
+  errors: string[];
+} {
+  const errors: string[] = [];
+  const target = typeof targetId === "string" ? targetId : "";
+  const duplicates = [...new Set((Array.isArray(duplicateIds) ? duplicateIds : []).filter(id => typeof id === "string" && id))] as string[];
+
+  if (!target) errors.push("Choose the customer to keep");
+  if (duplicates.length === 0) errors.push("Choose at least one duplicate to merge");
+  else if (duplicates.length > MAX_MERGED_CUSTOMERS) errors.push(`Merge at most ${MAX_MERGED_CUSTOMERS} customers at once`);
+  if (target && duplicates.includes(target)) errors.push("A customer cannot be merged into itself");
+
+  return { targetId: target, duplicateIds: duplicates, errors };
+}
+
+/** How a customer is shown when they have no name */
+export function customerDisplayName(customer: { name?: string | null; email?: string | null; phone?: string | null }): string {
+  return customer.name?.trim() || customer.email || customer.phone || "Unnamed customer";
+}
\ No newline at end of file
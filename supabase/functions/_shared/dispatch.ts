@@ -0,0 +1,194 @@
+// Chooses a driver for a pending trip when automatic assignment is enabled.
+// Every driver is evaluated against the same checks so the reasons a driver
+// was passed over can be recorded in the booking's activity log.
+
+import {
+  COMMITTED_TRIP_STATUSES,
+  DEFAULT_SCHEDULE_BUFFER_MIN,
+  findScheduleConflicts,
+  type ScheduledTrip
+} from "./driverSchedule.ts";
+
+/** Period over which drivers' workloads are compared */
+export const DISPATCH_WORKLOAD_DAYS = 7;
+
+/** Internal tag marking trips escalated because no driver qualified */
+export const NO_DRIVER_TAG = "no_driver";
+
+export interface DispatchTrip extends ScheduledTrip {
+  vehicle_type?: string | null;
+  passengers?: number | null;
+}
+
+export interface DispatchDriver {
+  id: string;
+  user_id: string;
+  name?: string | null;
+  is_available: boolean | null;
+  verification_status?: string | null;
+  vehicle?: {
+    vehicle_type?: string | null;
+    capacity?: number | null;
+  } | null;
+}
+
+/** A trip already given to a driver; driver_id is the driver's user id as on `trips` */
+export interface DriverTrip extends ScheduledTrip {
+  driver_id: string;
+  status: string;
+}
+
+export interface DispatchOptions {
+  requireVerification: boolean;
+  bufferMin?: number;
+  now?: Date;
+}
+
+export interface CandidateEvaluation {
+  driverId: string;
+  driverUserId: string;
+  name: string | null;
+  eligible: boolean;
+  /** Why the driver cannot take the trip; empty when eligible */
+  reasons: string[];
+  /** Trips in the workload period, including upcoming ones */
+  recentTrips: number;
+}
+
+export interface DispatchDecision {
+  selected: CandidateEvaluation | null;
+  candidates: CandidateEvaluation[];
+}
+
+/** What happened to one trip in a dispatch run */
+export interface DispatchResult {
+  bookingId: string;
+  bookingReference: string | null;
+  outcome: "assigned" | "escalated" | "skipped";
+  driverId?: string;
+  driverName?: string | null;
+  reason: string;
+}
+
+const normalizeType = (value?: string | null) => (value || "").trim().toLowerCase().replace(/[\s_-]+/g, " ");
+
+/**
+ * Evaluates every driver for the trip and picks the eligible driver with the
+ * fewest trips in the workload period. Ties go to the driver whose latest
+ * trip is furthest in the past, then to the lowest driver id so the result
+ * is stable.
+ */
+export function chooseDriver(
+  trip: DispatchTrip,
+  drivers: DispatchDriver[],
+  driverTrips: DriverTrip[],
+  options: DispatchOptions
+): DispatchDecision {
+  const now = options.now || new Date();
+  const bufferMin = options.bufferMin ?? DEFAULT_SCHEDULE_BUFFER_MIN;
+  const workloadStart = now.getTime() - DISPATCH_WORKLOAD_DAYS * 24 * 60 * 60 * 1000;
+
+  const lastTripAt = new Map<string, number>();
+
+  const candidates = drivers.map(driver => {
+    const reasons: string[] = [];
+    const assigned = driverTrips.filter(t => t.driver_id === driver.user_id && t.id !== trip.id);
+
+    if (!driver.is_available) reasons.push("Not available");
+
+    if (options.requireVerification && driver.verification_status !== "verified") {
+      reasons.push(`Verification ${driver.verification_status || "missing"}`);
+    }
+
+    if (trip.vehicle_type) {
+      if (!driver.vehicle) {
+        reasons.push("No vehicle registered");
+      } else if (normalizeType(driver.vehicle.vehicle_type) !== normalizeType(trip.vehicle_type)) {
+        reasons.push(`Drives a ${driver.vehicle.vehicle_type || "vehicle of unknown type"}, trip needs a ${trip.vehicle_type}`);
+      }
+    }
+
+    if (trip.passengers && driver.vehicle?.capacity != null && driver.vehicle.capacity < trip.passengers) {
+      reasons.push(`Seats ${driver.vehicle.capacity}, trip has ${trip.passengers} passengers`);
+    }
+
+    const committed = assigned.filter(t => COMMITTED_TRIP_STATUSES.includes(t.status));
+    const conflicts = findScheduleConflicts(trip, committed, bufferMin);
+    if (conflicts.length > 0) {
+      reasons.push(`Schedule conflict with ${conflicts.map(t => t.booking_reference || t.id).join(", ")}`);
+    }
+
+    const recent = assigned.filter(t => t.status !== "cancelled" && new Date(t.datetime).getTime() >= workloadStart);
+    lastTripAt.set(driver.id, Math.max(0, ...recent.map(t => new Date(t.datetime).getTime())));
+
+    return {
+      driverId: driver.id,
+      driverUserId: driver.user_id,
+      name: driver.name || null,
+      eligible: reasons.length === 0,
+      reasons,
+      recentTrips: recent.length
+    };
+  });
+
+  const eligible = candidates
+    .filter(c => c.eligible)
+    .sort((a, b) =>
+      a.recentTrips - b.recentTrips ||
+      lastTripAt.get(a.driverId)! - lastTripAt.get(b.driverId)! ||
+      a.driverId.localeCompare(b.driverId)
+    );
+
+  return { selected: eligible[0] || null, candidates };
+}
+
+/**
+ * One-line explanation of a decision for the activity log.
+ */
+export function describeDecision(decision: DispatchDecision): string {
+  const { selected, candidates } = decision;
+  if (!selected) {
+    return candidates.length === 0
+      ? "No drivers registered"
+      : `None of ${candidates.length} drivers qualified`;
+  }
+
+  const eligible = candidates.filter(c => c.eligible).length;
+  const name = selected.name || selected.driverId;
+  return eligible === 1
+    ? `${name} was the only qualifying driver of ${candidates.length}`
+    : `${name} had the lightest recent workload (${selected.recentTrips} trips in ${DISPATCH_WORKLOAD_DAYS} days) of ${eligible} qualifying drivers`;
+}
+/**
+ * The email telling admins that no driver qualified for a trip, so it needs
+ * assigning by hand. Times are shown in the platform's timezone.
+ */
+export function escalationEmail(
+  trip: { booking_reference?: string | null; datetime: string },
+  decision: DispatchDecision,
+  options: { timeZone?: string } = {}
+): { subject: string; text: string } {
+  const reference = trip.booking_reference || "a booking";
+  const pickup = new Date(trip.datetime).toLocaleString("en-GB", {
+    timeZone: options.timeZone || "UTC",
+    day: "numeric",
+    month: "short",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit"
+  });
+  const passedOver = decision.candidates
+    .filter(c => !c.eligible)
+    .map(c => `- ${c.name || c.driverId}: ${c.reasons.join("; ")}`);
+
+  return {
+    subject: `Booking ${reference} needs a driver`,
+    text: [
+      `Automatic dispatch could not find a driver for booking ${reference}, picking up ${pickup}.`,
+      describeDecision(decision) + ".",
+      ...(passedOver.length > 0 ? ["", "Drivers passed over:", ...passedOver] : []),
+      "",
+      "The booking has been raised to urgent priority. Assign a driver from the bookings page."
+    ].join("\n")
+  };
+}
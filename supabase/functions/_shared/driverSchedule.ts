@@ -0,0 +1,100 @@
+// Time windows drivers are committed to, used to keep a driver from being
+// given two trips that overlap.
+
+/** Assumed length of a trip whose duration has not been estimated */
+export const DEFAULT_TRIP_DURATION_MIN = 60;
+
+/** Default gap kept between a driver's trips for travel to the next pickup */
+export const DEFAULT_SCHEDULE_BUFFER_MIN = 30;
+
+/** Statuses that commit a driver to a trip's time window */
+export const COMMITTED_TRIP_STATUSES = ["accepted", "in_progress"];
+
+export interface ScheduledTrip {
+  id: string;
+  datetime: string;
+  estimated_duration_min?: number | null;
+  booking_reference?: string | null;
+}
+
+/**
+ * What happens when an admin assigns a driver with an overlapping trip:
+ * `warn` lets the admin assign anyway, `block` refuses the assignment.
+ */
+export type ScheduleConflictPolicy = "warn" | "block";
+
+export interface ScheduleSettings {
+  bufferMin: number;
+  policy: ScheduleConflictPolicy;
+}
+
+/** A driver's trip that overlaps the one being assigned */
+export interface ScheduleConflict {
+  id: string;
+  booking_reference: string | null;
+  datetime: string;
+  /** End of the trip, without the buffer */
+  ends_at: string;
+}
+
+/**
+ * Reads the schedule settings from a `platform_settings` row, falling back
+ * to the defaults for missing or invalid values.
+ */
+export function scheduleSettingsFrom(row?: Record<string, unknown> | null): ScheduleSettings {
+  const bufferMin = Number(row?.schedule_buffer_min);
+  return {
+    bufferMin: Number.isFinite(bufferMin) && bufferMin >= 0 ? bufferMin : DEFAULT_SCHEDULE_BUFFER_MIN,
+    policy: row?.schedule_conflict_policy === "block" ? "block" : "warn"
+  };
+}
+
+export interface TripWindow {
+  start: number;
+  end: number;
+}
+
+/**
+ * The time a trip occupies, from pickup until the estimated drop-off plus
+ * a buffer for getting to the next pickup. Times are epoch milliseconds.
+ */
+export function tripWindow(trip: ScheduledTrip, bufferMin = 0): TripWindow {
+  const start = new Date(trip.datetime).getTime();
+  const duration = trip.estimated_duration_min && trip.estimated_duration_min > 0
+    ? trip.estimated_duration_min
+    : DEFAULT_TRIP_DURATION_MIN;
+  return { start, end: start + (duration + bufferMin) * 60_000 };
+}
+
+/**
+ * The trips that overlap the given trip once each is padded with the buffer.
+ * The trip itself is ignored if it appears in the list.
+ */
+export function findScheduleConflicts<T extends ScheduledTrip>(trip: ScheduledTrip, others: T[], bufferMin = 0): T[] {
+  const window = tripWindow(trip, bufferMin);
+  return others.filter(other => {
+    if (other.id === trip.id) return false;
+    const otherWindow = tripWindow(other, bufferMin);
+    return otherWindow.start < window.end && window.start < otherWindow.end;
+  });
+}
+
+export function toScheduleConflict(trip: ScheduledTrip): ScheduleConflict {
+  return {
+    id: trip.id,
+    booking_reference: trip.booking_reference || null,
+    datetime: trip.datetime,
+    ends_at: new Date(tripWindow(trip).end).toISOString()
+  };
+}
+
+/**
+ * Describes conflicts for an error message, e.g.
+ * "RT-1234 (2025-07-01 10:00–11:00 UTC)".
+ */
+export function describeConflicts(conflicts: ScheduleConflict[]): string {
+  const iso = (value: string) => new Date(value).toISOString();
+  return conflicts
+    .map(c => `${c.booking_reference || c.id} (${iso(c.datetime).slice(0, 16).replace("T", " ")}–${iso(c.ends_at).slice(11, 16)} UTC)`)
+    .join(", ");
+}
\ No newline at end of file
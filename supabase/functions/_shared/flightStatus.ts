@@ -0,0 +1,134 @@
+// Flight status providers for the track-flights job.
+// The provider is chosen with FLIGHT_STATUS_PROVIDER: "aviationstack" looks
+// flights up with the key in AVIATIONSTACK_API_KEY, and "fixture" answers
+// from the JSON file in FLIGHT_STATUS_FIXTURES so local development and
+// staging can play out delays without a flight data subscription. Unset
+// turns flight tracking off.
+
+import { normalizeFlightNumber, type FlightState, type FlightStatus } from "./flights.ts";
+
+export interface FlightStatusProvider {
+  name: string;
+  /**
+   * Looks up the flight scheduled to land at the given time. Returns null
+   * when the provider does not know the flight.
+   */
+  lookup(flightNumber: string, scheduledArrival: string): Promise<FlightStatus | null>;
+}
+
+/**
+ * A flight in the fixture file. The expected landing is given either as a
+ * time or as minutes after the booking's scheduled arrival, so a fixture
+ * keeps working whatever day the booking is for.
+ */
+export interface FlightFixture {
+  flight_number: string;
+  state: FlightState;
+  delay_minutes?: number;
+  estimated_arrival?: string;
+}
+
+/**
+ * Answers from a fixed list of flights, e.g.
+ * `[{ "flight_number": "BA123", "state": "delayed", "delay_minutes": 45 }]`.
+ */
+export class FixtureFlightStatusProvider implements FlightStatusProvider {
+  name = "fixture";
+
+  constructor(private fixtures: FlightFixture[]) {}
+
+  lookup(flightNumber: string, scheduledArrival: string): Promise<FlightStatus | null> {
+    const fixture = this.fixtures.find(f => normalizeFlightNumber(f.flight_number) === flightNumber);
+    if (!fixture) return Promise.resolve(null);
+
+    const estimatedArrival = fixture.estimated_arrival
+      ? new Date(fixture.estimated_arrival).toISOString()
+      : new Date(Date.parse(scheduledArrival) + (fixture.delay_minutes || 0) * 60_000).toISOString();
+
+    return Promise.resolve({ flightNumber, state: fixture.state, estimatedArrival, source: this.name });
+  }
+
+  /** Reads the fixtures from a JSON file; a missing file means no known flights */
+  static async fromFile(path: string): Promise<FixtureFlightStatusProvider> {
+    try {
+      return new FixtureFlightStatusProvider(JSON.parse(await Deno.readTextFile(path)));
+    } catch (error) {
+      if (error instanceof Deno.errors.NotFound) return new FixtureFlightStatusProvider([]);
+      throw error;
+    }
+  }
+}
+
+// Their flight_status values; "active" is in the air
+const AVIATIONSTACK_STATES: Record<string, FlightState> = {
+  scheduled: "scheduled",
+  active: "scheduled",
+  landed: "landed",
+  cancelled: "cancelled",
+  incident: "cancelled",
+  diverted: "diverted"
+};
+
+/**
+ * Looks flights up in the aviationstack real-time flights API.
+ */
+export class AviationstackProvider implements FlightStatusProvider {
+  name = "aviationstack";
+
+  constructor(private apiKey: string, private baseUrl = "https://api.aviationstack.com/v1") {}
+
+  async lookup(flightNumber: string, scheduledArrival: string): Promise<FlightStatus | null> {
+    const url = `${this.baseUrl.replace(/\/$/, "")}/flights?access_key=${encodeURIComponent(this.apiKey)}&flight_iata=${encodeURIComponent(flightNumber)}`;
+    const response = await fetch(url);
+
+    if (!response.ok) {
+      throw new Error(`Flight status request failed with status ${response.status}`);
+    }
+
+    const body = await response.json();
+    if (body.error) {
+      throw new Error(body.error.message || "Flight status request failed");
+    }
+
+    // The same flight number flies every day; take the flight landing closest to the booked arrival
+    const target = Date.parse(scheduledArrival);
+    const flight = ((body.data || []) as Record<string, any>[])
+      .filter(f => f.arrival?.scheduled)
+      .sort((a, b) =>
+        Math.abs(Date.parse(a.arrival.scheduled) - target) - Math.abs(Date.parse(b.arrival.scheduled) - target)
+      )[0];
+
+    if (!flight || Math.abs(Date.parse(flight.arrival.scheduled) - target) > 12 * 60 * 60_000) return null;
+
+    const arrival = flight.arrival;
+    const estimated = arrival.actual || arrival.estimated ||
+      (arrival.delay ? new Date(Date.parse(arrival.scheduled) + arrival.delay * 60_000).toISOString() : arrival.scheduled);
+    const state = AVIATIONSTACK_STATES[flight.flight_status] || "scheduled";
+    const late = Date.parse(estimated) - Date.parse(arrival.scheduled) > 0;
+
+    return {
+      flightNumber,
+      state: state === "scheduled" && late ? "delayed" : state,
+      estimatedArrival: new Date(estimated).toISOString(),
+      source: this.name
+    };
+  }
+}
+
+/**
+ * Builds the provider configured for this environment, or null when flight
+ * tracking is off.
+ */
+export async function createFlightStatusProvider(): Promise<FlightStatusProvider | null> {
+  switch (Deno.env.get("FLIGHT_STATUS_PROVIDER")) {
+    case "aviationstack": {
+      const apiKey = Deno.env.get("AVIATIONSTACK_API_KEY");
+      if (!apiKey) throw new Error("AVIATIONSTACK_API_KEY is required for the aviationstack flight status provider");
+      return new AviationstackProvider(apiKey, Deno.env.get("AVIATIONSTACK_URL") || undefined);
+    }
+    case "fixture":
+      return await FixtureFlightStatusProvider.fromFile(Deno.env.get("FLIGHT_STATUS_FIXTURES") || "/tmp/flight-status.json");
+    default:
+      return null;
+  }
+}
\ No newline at end of file
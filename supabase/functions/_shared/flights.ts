@@ -0,0 +1,208 @@
+// Flight tracking for airport pickups. A booking can carry the flight the
+// customer arrives on; the track-flights job looks up its status and moves the
+// pickup when the flight runs late, and the admin booking details and the
+// driver's jobs show the same status.
+
+export type FlightState = "scheduled" | "delayed" | "landed" | "cancelled" | "diverted";
+
+export const FLIGHT_STATES: FlightState[] = ["scheduled", "delayed", "landed", "cancelled", "diverted"];
+
+export const FLIGHT_STATE_LABELS: Record<FlightState, string> = {
+  scheduled: "On time",
+  delayed: "Delayed",
+  landed: "Landed",
+  cancelled: "Cancelled",
+  diverted: "Diverted"
+};
+
+/** A flight's status as reported by a flight status provider */
+export interface FlightStatus {
+  flightNumber: string;
+  state: FlightState;
+  /** When the flight is expected to land, or landed; null when unknown */
+  estimatedArrival: string | null;
+  /** Provider the status came from */
+  source: string;
+}
+
+/** Bookings in these statuses have their flights tracked */
+export const FLIGHT_TRACKING_STATUSES = ["pending", "accepted"];
+
+/** How far ahead of the scheduled arrival flights are checked */
+export const FLIGHT_TRACKING_HOURS_AHEAD = 24;
+
+/** How long after the scheduled arrival flights are still checked, for long delays */
+export const FLIGHT_TRACKING_HOURS_AFTER = 12;
+
+/** Smaller changes to the expected arrival leave the pickup where it is */
+export const MIN_PICKUP_ADJUSTMENT_MINUTES = 10;
+
+/** The flight columns of a trip */
+export interface FlightBooking {
+  datetime: string;
+  flight_number?: string | null;
+  flight_scheduled_arrival?: string | null;
+  flight_estimated_arrival?: string | null;
+  flight_status?: string | null;
+  flight_checked_at?: string | null;
+}
+
+// IATA airline code (two letters or digits, or three ICAO letters) and a flight number of up to four digits
+const FLIGHT_NUMBER_PATTERN = /^([A-Z0-9]{2}|[A-Z]{3})(\d{1,4})([A-Z]?)$/;
+
+/** Upper-cases a flight number and drops spaces and dashes, e.g. "ba 0123" becomes "BA123" */
+export function normalizeFlightNumber(value: string): string {
+  const compact = value.toUpperCase().replace(/[\s-]/g, "");
+  const match = compact.match(FLIGHT_NUMBER_PATTERN);
+  return match ? `${match[1]}${String(Number(match[2]))}${match[3]}` : compact;
+}
+
+export function isFlightState(value: unknown): value is FlightState {
+  return typeof value === "string" && (FLIGHT_STATES as string[]).includes(value);
+}
+
+/**
+ * Checks the flight entered for a booking. Both fields are optional but go
+ * together: a flight needs its scheduled arrival to be tracked. Returns the
+ * flight number normalized and the arrival as ISO 8601, or nulls for no flight.
+ */
+export function validateFlightDetails(flightNumber: unknown, scheduledArrival: unknown): {
+  flightNumber: string | null;
+  scheduledArrival: string | null;
+  errors: string[];
+} {
+  const errors: string[] = [];
+  const number = typeof flightNumber === "string" && flightNumber.trim() ? normalizeFlightNumber(flightNumber) : null;
+  const arrivalText = typeof scheduledArrival === "string" ? scheduledArrival.trim() : "";
+  const arrival = arrivalText ? Date.parse(arrivalText) : NaN;
+
+  if (number && !FLIGHT_NUMBER_PATTERN.test(number)) {
+    errors.push(`"${flightNumber}" is not a flight number, e.g. BA123`);
+  }
+  if (number && !arrivalText) errors.push("Enter the flight's scheduled arrival");
+  if (arrivalText && Number.isNaN(arrival)) errors.push("Enter a valid scheduled arrival");
+  if (!number && arrivalText) errors.push("Enter the flight number for the scheduled arrival");
+
+  return {
+    flightNumber: number,
+    scheduledArrival: number && !Number.isNaN(arrival) ? new Date(arrival).toISOString() : null,
+    errors
+  };
+}
+
+/** Minutes the flight is expected to land after its scheduled arrival; never negative */
+export function flightDelayMinutes(booking: FlightBooking): number {
+  if (!booking.flight_scheduled_arrival || !booking.flight_estimated_arrival) return 0;
+  const delay = Date.parse(booking.flight_estimated_arrival) - Date.parse(booking.flight_scheduled_arrival);
+  return Math.max(0, Math.round(delay / 60_000));
+}
+
+/** The outcome of a track-flights run for one booking */
+export interface FlightCheckResult {
+  bookingId: string;
+  bookingReference?: string;
+  flightNumber: string;
+  flightStatus?: FlightState;
+  /** The booking's flight columns and pickup after the check */
+  flightEstimatedArrival?: string | null;
+  checkedAt?: string;
+  datetime?: string;
+  delayMinutes?: number | null;
+  pickupMoved?: boolean;
+  driverNotified?: boolean;
+  /** False when the provider does not know the flight */
+  found?: boolean;
+  error?: string;
+}
+
+export interface PickupAdjustment {
+  /** The new pickup time, or null when the pickup stays where it is */
+  datetime: string | null;
+  /** Arrival the pickup now follows */
+  expectedArrival: string;
+  delayMinutes: number;
+}
+
+/**
+ * Works out where the pickup goes for a flight's latest status. The pickup
+ * keeps the gap it had to the arrival it was last planned for, so a pickup
+ * booked 30 minutes after landing is still 30 minutes after the new landing
+ * time. Flights landing early keep their original pickup, since the driver
+ * planned around it, and changes under MIN_PICKUP_ADJUSTMENT_MINUTES are
+ * ignored. Cancelled and diverted flights leave the pickup to an admin.
+ */
+export function planPickupForFlight(booking: FlightBooking, status: FlightStatus): PickupAdjustment | null {
+  if (!booking.flight_scheduled_arrival || !status.estimatedArrival) return null;
+  if (status.state === "cancelled" || status.state === "diverted") return null;
+
+  const scheduled = Date.parse(booking.flight_scheduled_arrival);
+  const plannedFor = Date.parse(booking.flight_estimated_arrival || booking.flight_scheduled_arrival);
+  const expected = Math.max(Date.parse(status.estimatedArrival), scheduled);
+  if (Number.isNaN(expected) || Number.isNaN(plannedFor)) return null;
+
+  const delayMinutes = Math.round((expected - scheduled) / 60_000);
+  const shift = expected - plannedFor;
+  const moved = Math.abs(shift) >= MIN_PICKUP_ADJUSTMENT_MINUTES * 60_000;
+
+  return {
+    datetime: moved ? new Date(Date.parse(booking.datetime) + shift).toISOString() : null,
+    // Small changes are not followed, so the next check still measures from the planned arrival
+    expectedArrival: new Date(moved ? expected : plannedFor).toISOString(),
+    delayMinutes
+  };
+}
+
+export type DriverNotificationKind = "pickup_moved" | "flight_disrupted";
+
+/** A message for a driver about one of their trips, from `driver_notifications` */
+export interface DriverNotification {
+  id: string;
+  driver_user_id: string;
+  trip_id: string | null;
+  kind: DriverNotificationKind;
+  title: string;
+  body: string;
+  /** For flight changes: flight_number, flight_status, delay_minutes, previous_datetime and datetime */
+  details: Record<string, any>;
+  read_at: string | null;
+  created_at: string;
+}
+
+const formatMinutes = (minutes: number) => {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return hours > 0 ? `${hours} h${rest > 0 ? ` ${rest} min` : ""}` : `${rest} min`;
+};
+
+/**
+ * The notification for the assigned driver after a flight check, or null
+ * when nothing they need to know changed: the pickup moved, or the flight
+ * was newly cancelled or diverted. Times are left to the details so the
+ * driver's app shows them in local time.
+ */
+export function flightNotification(
+  booking: FlightBooking & { booking_reference?: string | null },
+  status: FlightStatus,
+  adjustment: PickupAdjustment | null
+): { kind: DriverNotificationKind; title: string; body: string } | null {
+  const reference = booking.booking_reference ? ` ${booking.booking_reference}` : "";
+
+  if ((status.state === "cancelled" || status.state === "diverted") && booking.flight_status !== status.state) {
+    return {
+      kind: "flight_disrupted",
+      title: `Flight ${status.flightNumber} ${FLIGHT_STATE_LABELS[status.state].toLowerCase()}`,
+      body: `The flight for booking${reference} was ${status.state}. Dispatch will confirm whether the pickup goes ahead.`
+    };
+  }
+
+  if (!adjustment?.datetime) return null;
+
+  const shift = Math.round((Date.parse(adjustment.datetime) - Date.parse(booking.datetime)) / 60_000);
+  return {
+    kind: "pickup_moved",
+    title: adjustment.delayMinutes > 0
+      ? `Flight ${status.flightNumber} delayed ${formatMinutes(adjustment.delayMinutes)}`
+      : `Flight ${status.flightNumber} back on time`,
+    body: `Pickup for booking${reference} moved ${formatMinutes(Math.abs(shift))} ${shift > 0 ? "later" : "earlier"}.`
+  };
+}
\ No newline at end of file
@@ -0,0 +1,132 @@
+// Geometry helpers shared by the pricing edge functions.
+// Coordinates are plain latitude/longitude pairs; zone boundaries are GeoJSON
+// geometries, which store positions in [lng, lat] order.
+
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+export type GeoJsonPosition = [number, number];
+
+export interface GeoJsonPolygon {
+  type: "Polygon";
+  coordinates: GeoJsonPosition[][];
+}
+
+export interface GeoJsonMultiPolygon {
+  type: "MultiPolygon";
+  coordinates: GeoJsonPosition[][][];
+}
+
+export type ZoneBoundary = GeoJsonPolygon | GeoJsonMultiPolygon;
+
+export interface ZoneGeometry {
+  id: string;
+  name: string;
+  boundary: ZoneBoundary | null;
+  center_lat?: number | null;
+  center_lng?: number | null;
+}
+
+const EARTH_RADIUS_KM = 6371;
+
+const toRadians = (degrees: number) => degrees * Math.PI / 180;
+
+/**
+ * Parses "lat,lng" strings such as "41.9028, 12.4964".
+ * Returns null when the input is not a valid coordinate pair.
+ */
+export function parseLatLng(value: string): LatLng | null {
+  const match = value.trim().match(/^(-?\d+(?:\.\d+)?)\s*[,;\s]\s*(-?\d+(?:\.\d+)?)$/);
+  if (!match) return null;
+
+  const lat = parseFloat(match[1]);
+  const lng = parseFloat(match[2]);
+
+  if (Math.abs(lat) > 90 || Math.abs(lng) > 180) return null;
+  return { lat, lng };
+}
+
+/**
+ * Great-circle distance between two points in kilometres (haversine formula).
+ */
+export function haversineDistanceKm(from: LatLng, to: LatLng): number {
+  const dLat = toRadians(to.lat - from.lat);
+  const dLng = toRadians(to.lng - from.lng);
+
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.lat)) * Math.cos(toRadians(to.lat)) * Math.sin(dLng / 2) ** 2;
+
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a));
+}
+
+// Ray casting against a single linear ring
+function isPointInRing(point: LatLng, ring: GeoJsonPosition[]): boolean {
+  let inside = false;
+
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+
+    const intersects =
+      (yi > point.lat) !== (yj > point.lat) &&
+      point.lng < ((xj - xi) * (point.lat - yi)) / (yj - yi) + xi;
+
+    if (intersects) inside = !inside;
+  }
+
+  return inside;
+}
+
+// A polygon contains the point when its outer ring does and none of its holes do
+function isPointInPolygonRings(point: LatLng, rings: GeoJsonPosition[][]): boolean {
+  if (!rings.length || !isPointInRing(point, rings[0])) return false;
+  return !rings.slice(1).some(hole => isPointInRing(point, hole));
+}
+
+/**
+ * Checks whether a point lies inside a GeoJSON Polygon or MultiPolygon.
+ */
+export function isPointInBoundary(point: LatLng, boundary: ZoneBoundary): boolean {
+  if (boundary.type === "Polygon") {
+    return isPointInPolygonRings(point, boundary.coordinates);
+  }
+
+  return boundary.coordinates.some(polygon => isPointInPolygonRings(point, polygon));
+}
+
+/**
+ * Returns the first zone whose boundary contains the point, or null.
+ */
+export function findZoneForPoint<T extends ZoneGeometry>(zones: T[], point: LatLng): T | null {
+  return zones.find(zone => zone.boundary && isPointInBoundary(point, zone.boundary)) || null;
+}
+
+/**
+ * Reference point for a zone: its configured centre, or the average of the
+ * outer ring vertices of its boundary.
+ */
+export function getZoneCenter(zone: ZoneGeometry): LatLng | null {
+  if (zone.center_lat != null && zone.center_lng != null) {
+    return { lat: Number(zone.center_lat), lng: Number(zone.center_lng) };
+  }
+
+  if (!zone.boundary) return null;
+
+  const ring = zone.boundary.type === "Polygon"
+    ? zone.boundary.coordinates[0]
+    : zone.boundary.coordinates[0]?.[0];
+
+  if (!ring || ring.length === 0) return null;
+
+  // Skip the closing vertex, which repeats the first one
+  const vertices = ring.length > 1 ? ring.slice(0, -1) : ring;
+  const sum = vertices.reduce(
+    (acc, [lng, lat]) => ({ lat: acc.lat + lat, lng: acc.lng + lng }),
+    { lat: 0, lng: 0 }
+  );
+
+  return { lat: sum.lat / vertices.length, lng: sum.lng / vertices.length };
+}
\ No newline at end of file
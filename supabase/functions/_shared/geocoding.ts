@@ -0,0 +1,111 @@
+// Address resolution for the pricing edge functions.
+// Lookups run in order: literal "lat,lng" coordinates, the remote geocoder
+// configured with GEOCODING_URL (Nominatim compatible), then zone names.
+
+import { getZoneCenter, parseLatLng, type LatLng, type ZoneGeometry } from "./geo.ts";
+
+export interface GeocodeResult extends LatLng {
+  label: string;
+  source: string;
+}
+
+export interface GeocodingProvider {
+  name: string;
+  geocode(query: string): Promise<GeocodeResult | null>;
+}
+
+/**
+ * Accepts coordinates typed directly, e.g. "41.8003, 12.2389".
+ */
+export class CoordinateGeocoder implements GeocodingProvider {
+  name = "coordinates";
+
+  geocode(query: string): Promise<GeocodeResult | null> {
+    const point = parseLatLng(query);
+    return Promise.resolve(point ? { ...point, label: query.trim(), source: this.name } : null);
+  }
+}
+
+/**
+ * Resolves free-text addresses through a Nominatim search endpoint.
+ */
+export class NominatimGeocoder implements GeocodingProvider {
+  name = "nominatim";
+
+  constructor(private baseUrl: string) {}
+
+  async geocode(query: string): Promise<GeocodeResult | null> {
+    const url = `${this.baseUrl.replace(/\/$/, "")}/search?format=json&limit=1&q=${encodeURIComponent(query)}`;
+    const response = await fetch(url, {
+      headers: { "User-Agent": "royaltransfer-admin/1.0" }
+    });
+
+    if (!response.ok) {
+      throw new Error(`Geocoding request failed with status ${response.status}`);
+    }
+
+    const [match] = await response.json();
+    if (!match) return null;
+
+    return {
+      lat: parseFloat(match.lat),
+      lng: parseFloat(match.lon),
+      label: match.display_name || query,
+      source: this.name
+    };
+  }
+}
+
+/**
+ * Offline fallback: matches the query against zone names and uses the zone centre.
+ */
+export class ZoneNameGeocoder implements GeocodingProvider {
+  name = "zone";
+
+  constructor(private zones: ZoneGeometry[]) {}
+
+  geocode(query: string): Promise<GeocodeResult | null> {
+    const normalized = query.trim().toLowerCase();
+    const zone =
+      this.zones.find(z => z.name.toLowerCase() === normalized) ||
+      this.zones.find(z => normalized.includes(z.name.toLowerCase()));
+
+    const center = zone ? getZoneCenter(zone) : null;
+    return Promise.resolve(center && zone ? { ...center, label: zone.name, source: this.name } : null);
+  }
+}
+
+/**
+ * Returns the first successful lookup from the given providers.
+ * Provider errors are logged and skipped so a remote outage does not block quoting.
+ */
+export async function geocodeWithProviders(
+  query: string,
+  providers: GeocodingProvider[]
+): Promise<GeocodeResult | null> {
+  for (const provider of providers) {
+    try {
+      const result = await provider.geocode(query);
+      if (result) return result;
+    } catch (error) {
+      console.warn(`Geocoding provider ${provider.name} failed for "${query}":`, error);
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Builds the geocoder chain configured for this environment.
+ */
+export function createGeocodingProviders(zones: ZoneGeometry[]): GeocodingProvider[] {
+  const providers: GeocodingProvider[] = [new CoordinateGeocoder()];
+
+  const geocodingUrl = Deno.env.get("GEOCODING_URL");
+  if (geocodingUrl) {
+    providers.push(new NominatimGeocoder(geocodingUrl));
+  }
+
+  providers.push(new ZoneNameGeocoder(zones));
+  return providers;
+}
\ No newline at end of file
@@ -0,0 +1,118 @@
+// Bookings entered by admins, such as ones taken over the phone: the fields of
+// the new booking form and their checks. The admin-create-booking function
+// prices the trip again with the live price sheet before saving it, so the
+// quote shown in the form is only a preview.
+
+import { validateFlightDetails } from "./flights.ts";
+import type { CustomFee } from "./pricing.ts";
+
+export interface NewBooking {
+  customerName: string;
+  customerEmail: string;
+  customerPhone: string;
+  pickupAddress: string;
+  dropoffAddress: string;
+  /** Pickup date and time, ISO 8601 */
+  datetime: string;
+  vehicleType: string;
+  passengers: number;
+  /** Extras such as child seats, charged as custom fees */
+  extras: CustomFee[];
+  notes: string;
+  /** 0 normal, 1 high, 2 urgent */
+  priority: number;
+  /** Flight the customer arrives on, for airport pickups */
+  flightNumber: string;
+  /** The flight's scheduled landing, ISO 8601 */
+  flightArrival: string;
+}
+
+export const MAX_BOOKING_PASSENGERS = 16;
+
+/** Extras offered in the form; admins can also name their own */
+export const BOOKING_EXTRA_SUGGESTIONS = ["Child seat", "Booster seat", "Extra luggage", "Meet & greet", "Pet transport"];
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const text = (value: unknown) => typeof value === "string" ? value.trim() : "";
+
+export function adminBookingReference(): string {
+  return `ADM-${Math.floor(100000 + Math.random() * 900000)}`;
+}
+
+/**
+ * Checks a booking entered in the form, returning the problems found
+ * alongside the booking with its text trimmed and its extras cleaned up.
+ * Extras without a name are dropped. Pickups must be in the future. A
+ * flight is optional, but needs both its number and scheduled arrival.
+ */
+export function validateNewBooking(raw: unknown, now = new Date()): { booking: NewBooking; errors: string[] } {
+  const input = raw && typeof raw === "object" && !Array.isArray(raw) ? raw as Record<string, unknown> : {};
+  const errors: string[] = [];
+
+  const booking: NewBooking = {
+    customerName: text(input.customerName),
+    customerEmail: text(input.customerEmail).toLowerCase(),
+    customerPhone: text(input.customerPhone),
+    pickupAddress: text(input.pickupAddress),
+    dropoffAddress: text(input.dropoffAddress),
+    datetime: "",
+    vehicleType: text(input.vehicleType),
+    passengers: Number(input.passengers ?? 1),
+    extras: [],
+    notes: text(input.notes),
+    priority: Number(input.priority ?? 0),
+    flightNumber: "",
+    flightArrival: ""
+  };
+
+  if (!booking.customerName) errors.push("Enter the customer's name");
+  if (!booking.customerEmail && !booking.customerPhone) {
+    errors.push("Enter an email address or phone number for the customer");
+  } else if (booking.customerEmail && !EMAIL_PATTERN.test(booking.customerEmail)) {
+    errors.push("Enter a valid email address");
+  }
+
+  if (!booking.pickupAddress) errors.push("Enter a pickup address");
+  if (!booking.dropoffAddress) errors.push("Enter a dropoff address");
+
+  const pickup = typeof input.datetime === "string" ? Date.parse(input.datetime) : NaN;
+  if (Number.isNaN(pickup)) {
+    errors.push("Enter a pickup date and time");
+  } else if (pickup <= now.getTime()) {
+    errors.push("Pickup time must be in the future");
+  } else {
+    booking.datetime = new Date(pickup).toISOString();
+  }
+
+  if (!booking.vehicleType) errors.push("Choose a vehicle type");
+
+  if (!Number.isInteger(booking.passengers) || booking.passengers < 1 || booking.passengers > MAX_BOOKING_PASSENGERS) {
+    errors.push(`Passengers must be between 1 and ${MAX_BOOKING_PASSENGERS}`);
+  }
+
+  if (![0, 1, 2].includes(booking.priority)) errors.push("Unknown priority");
+
+  const flight = validateFlightDetails(input.flightNumber, input.flightArrival);
+  errors.push(...flight.errors);
+  booking.flightNumber = flight.flightNumber || "";
+  booking.flightArrival = flight.scheduledArrival || "";
+
+  for (const extra of Array.isArray(input.extras) ? input.extras : []) {
+    const name = text(extra?.name);
+    if (!name) continue;
+    const amount = Number(extra.amount);
+    if (!Number.isFinite(amount) || amount < 0) {
+      errors.push(`Enter a price of zero or more for ${name}`);
+      continue;
+    }
+    booking.extras.push({
+      id: text(extra.id) || crypto.randomUUID(),
+      name,
+      amount,
+      customer_visible: extra.customer_visible !== false
+    });
+  }
+
+  return { booking, errors };
+}
\ No newline at end of file
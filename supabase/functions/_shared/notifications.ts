@@ -0,0 +1,111 @@
+// Delivery providers for customer and driver notifications.
+// The email provider is chosen with NOTIFY_EMAIL_PROVIDER ("smtp" or "file")
+// and the SMS provider with NOTIFY_SMS_PROVIDER ("file", or unset to turn SMS
+// off). The file sink appends every message to NOTIFY_FILE_SINK so local
+// development and staging never reach real inboxes.
+
+import nodemailer from "npm:nodemailer@6.9.13";
+import type { ReminderChannel } from "./reminderTemplates.ts";
+
+export interface NotificationMessage {
+  channel: ReminderChannel;
+  /** Email address or phone number */
+  to: string;
+  subject?: string;
+  text: string;
+}
+
+export interface DeliveryReceipt {
+  provider: string;
+  providerMessageId: string | null;
+}
+
+export interface NotificationProvider {
+  name: string;
+  channel: ReminderChannel;
+  send(message: NotificationMessage): Promise<DeliveryReceipt>;
+}
+
+/**
+ * Sends email through an SMTP server, e.g. the Inbucket server of the local
+ * Supabase stack or a transactional email service.
+ */
+export class SmtpEmailProvider implements NotificationProvider {
+  name = "smtp";
+  channel: ReminderChannel = "email";
+  private transport: ReturnType<typeof nodemailer.createTransport>;
+
+  constructor(
+    options: { host: string; port: number; secure: boolean; user?: string; password?: string },
+    private from: string
+  ) {
+    this.transport = nodemailer.createTransport({
+      host: options.host,
+      port: options.port,
+      secure: options.secure,
+      auth: options.user ? { user: options.user, pass: options.password } : undefined
+    });
+  }
+
+  async send(message: NotificationMessage): Promise<DeliveryReceipt> {
+    const info = await this.transport.sendMail({
+      from: this.from,
+      to: message.to,
+      subject: message.subject,
+      text: message.text
+    });
+
+    return { provider: this.name, providerMessageId: info.messageId || null };
+  }
+}
+
+/**
+ * Appends each message as a line of JSON to a file instead of delivering it.
+ */
+export class FileSinkProvider implements NotificationProvider {
+  name = "file";
+
+  constructor(
+    public channel: ReminderChannel,
+    private path: string
+  ) {}
+
+  async send(message: NotificationMessage): Promise<DeliveryReceipt> {
+    const id = crypto.randomUUID();
+    const line = JSON.stringify({ id, sent_at: new Date().toISOString(), ...message });
+    await Deno.writeTextFile(this.path, line + "\n", { append: true });
+    return { provider: this.name, providerMessageId: id };
+  }
+}
+
+/**
+ * Builds the providers configured for this environment, by channel. A
+ * channel without a provider cannot be delivered.
+ */
+export function createNotificationProviders(): Partial<Record<ReminderChannel, NotificationProvider>> {
+  const sinkPath = Deno.env.get("NOTIFY_FILE_SINK") || "/tmp/notifications.jsonl";
+  const providers: Partial<Record<ReminderChannel, NotificationProvider>> = {};
+
+  const smtpHost = Deno.env.get("SMTP_HOST");
+  if (Deno.env.get("NOTIFY_EMAIL_PROVIDER") === "smtp" && smtpHost) {
+    const port = parseInt(Deno.env.get("SMTP_PORT") || "", 10) || 587;
+    providers.email = new SmtpEmailProvider(
+      {
+        host: smtpHost,
+        port,
+        secure: Deno.env.get("SMTP_SECURE") === "true" || port === 465,
+        user: Deno.env.get("SMTP_USER") || undefined,
+        password: Deno.env.get("SMTP_PASSWORD") || undefined
+      },
+      Deno.env.get("NOTIFY_FROM_EMAIL") || "Royal Transfer EU <no-reply@royaltransfer.eu>"
+    );
+  } else {
+    providers.email = new FileSinkProvider("email", sinkPath);
+  }
+
+  if (Deno.env.get("NOTIFY_SMS_PROVIDER") === "file") {
+    providers.sms = new FileSinkProvider("sms", sinkPath);
+  }
+
+  return providers;
+}
\ No newline at end of file
@@ -0,0 +1,564 @@
+/**
+ * Shared pricing engine.
+ *
+ * Used by the pricing edge functions (Deno) and by the admin frontend through
+ * src/lib/pricing.ts, so every quote, stored price and export is computed the
+ * same way. Keep this module free of runtime-specific imports.
+ */
+
+export type DiscountType = "percent" | "fixed";
+
+export interface VehicleBasePrice {
+  id?: string;
+  vehicle_type: string;
+  base_price_per_km: number | string;
+}
+
+export interface ZoneMultiplier {
+  id?: string;
+  zone_id: string;
+  zone_name?: string;
+  multiplier: number | string;
+}
+
+export interface FixedRouteStop {
+  name?: string | null;
+  zone_id?: string | null;
+  add_on: number | string;
+}
+
+export interface FixedRoute {
+  id?: string;
+  origin_name: string;
+  destination_name: string;
+  vehicle_type: string;
+  fixed_price: number | string;
+  /** When set, pickups anywhere in this zone match instead of origin_name */
+  origin_zone_id?: string | null;
+  /** When set, dropoffs anywhere in this zone match instead of destination_name */
+  destination_zone_id?: string | null;
+  /** Also applies from destination to origin */
+  is_bidirectional?: boolean;
+  /** Intermediate stops allowed on the route, each with its own add-on */
+  stops?: FixedRouteStop[] | null;
+}
+
+export type PricingRuleAdjustment = "multiplier" | "flat";
+
+export interface PricingRule {
+  id?: string;
+  name: string;
+  adjustment_type: PricingRuleAdjustment;
+  value: number | string;
+  /** Daily window start, "HH:MM" or "HH:MM:SS" in the pricing timezone */
+  start_time?: string | null;
+  /** Daily window end; earlier than start_time means the window runs past midnight */
+  end_time?: string | null;
+  /** Days the window starts on, 0 = Sunday ... 6 = Saturday */
+  weekdays?: number[] | null;
+  /** Inclusive validity range, "YYYY-MM-DD" */
+  start_date?: string | null;
+  end_date?: string | null;
+  vehicle_type?: string | null;
+  zone_id?: string | null;
+  is_active?: boolean;
+}
+
+export interface PricingConfig {
+  vehiclePrices: VehicleBasePrice[];
+  zoneMultipliers: ZoneMultiplier[];
+  fixedRoutes: FixedRoute[];
+  pricingRules?: PricingRule[];
+  /** IANA timezone used to evaluate pricing rule windows, defaults to UTC */
+  timeZone?: string;
+}
+
+/**
+ * A complete set of pricing tables, as staged in `pricing_schedules.sheet`
+ * and returned by the `current_pricing_sheet` database function.
+ */
+export interface PriceSheet {
+  vehiclePrices: VehicleBasePrice[];
+  zoneMultipliers: ZoneMultiplier[];
+  fixedRoutes: FixedRoute[];
+  pricingRules?: PricingRule[];
+}
+
+export interface QuoteZone {
+  id: string;
+  name?: string;
+}
+
+export interface PromoInput {
+  code?: string;
+  discount_type: DiscountType;
+  value: number;
+}
+
+export interface CustomFee {
+  id: string;
+  name: string;
+  amount: number;
+  customer_visible: boolean;
+}
+
+export interface QuoteStop {
+  name?: string;
+  zone?: QuoteZone | null;
+}
+
+export interface QuoteRequest {
+  vehicleType: string;
+  distanceKm: number;
+  originName?: string;
+  destinationName?: string;
+  pickupZone?: QuoteZone | null;
+  dropoffZone?: QuoteZone | null;
+  /** Intermediate stops in travel order */
+  stops?: QuoteStop[];
+  /** Pickup date and time; time-based pricing rules only apply when set */
+  pickupTime?: string | Date | null;
+  surgeMultiplier?: number;
+  promo?: PromoInput | null;
+  customFees?: CustomFee[];
+}
+
+export type QuoteLineItemType =
+  | "fixed_route"
+  | "stop_addon"
+  | "base_fare"
+  | "zone_multiplier"
+  | "pricing_rule"
+  | "surge"
+  | "promo"
+  | "custom_fee";
+
+export interface QuoteLineItem {
+  type: QuoteLineItemType;
+  description: string;
+  amount: number;
+  customerVisible: boolean;
+}
+
+export interface AppliedPricingRule {
+  id: string | null;
+  name: string;
+  adjustment_type: PricingRuleAdjustment;
+  value: number;
+  amount: number;
+}
+
+export interface PriceQuote {
+  vehicleType: string;
+  distanceKm: number;
+  isFixedRoute: boolean;
+  fixedRouteId: string | null;
+  pricePerKm: number;
+  zoneMultiplier: number;
+  surgeMultiplier: number;
+  appliedRules: AppliedPricingRule[];
+  /** Price of the ride itself: base fare with zone and surge adjustments, or the fixed route price */
+  fare: number;
+  discount: number;
+  feesTotal: number;
+  total: number;
+  lineItems: QuoteLineItem[];
+}
+
+export class PricingError extends Error {
+  code: string;
+
+  constructor(message: string, code = "pricing_error") {
+    super(message);
+    this.name = "PricingError";
+    this.code = code;
+    Object.setPrototypeOf(this, PricingError.prototype);
+  }
+}
+
+/**
+ * Rounds a currency amount to cents.
+ */
+export function roundCurrency(value: number): number {
+  return Math.round((value + Number.EPSILON) * 100) / 100;
+}
+
+const toNumber = (value: number | string | null | undefined, fallback = 0) => {
+  const parsed = typeof value === "string" ? parseFloat(value) : value;
+  return parsed === undefined || parsed === null || Number.isNaN(parsed) ? fallback : parsed;
+};
+
+const normalizeName = (value?: string) => (value || "").trim().toLowerCase();
+
+const formatMultiplier = (value: number) => `×${Number(value.toFixed(3))}`;
+
+export interface FixedRouteMatch {
+  route: FixedRoute;
+  /** The trip runs from the route's destination to its origin */
+  reversed: boolean;
+  /** The route stop matched by each trip stop, in trip order */
+  stops: FixedRouteStop[];
+}
+
+type FixedRouteRequest = Pick<
+  QuoteRequest,
+  "vehicleType" | "originName" | "destinationName" | "pickupZone" | "dropoffZone" | "stops"
+>;
+
+// A route endpoint with a zone matches by zone only; otherwise by name
+const matchesEndpoint = (
+  zoneId: string | null | undefined,
+  name: string,
+  placeName?: string,
+  placeZone?: QuoteZone | null
+) => zoneId
+  ? placeZone?.id === zoneId
+  : !!placeName && normalizeName(name) === normalizeName(placeName);
+
+const matchesStop = (stop: FixedRouteStop, tripStop: QuoteStop) => stop.zone_id
+  ? tripStop.zone?.id === stop.zone_id
+  : !!stop.name && !!tripStop.name && normalizeName(stop.name) === normalizeName(tripStop.name);
+
+/**
+ * Finds the fixed route for a trip, if any. Routes match by zone where one
+ * is configured and by place name otherwise; bidirectional routes also
+ * match in reverse. Every stop on the trip must be one of the route's
+ * stops. Forward matches win over reverse ones.
+ */
+export function matchFixedRoute(config: PricingConfig, request: FixedRouteRequest): FixedRouteMatch | null {
+  const tripStops = request.stops || [];
+  const candidates = config.fixedRoutes.filter(route => route.vehicle_type === request.vehicleType);
+
+  for (const reversed of [false, true]) {
+    for (const route of candidates) {
+      if (reversed && !route.is_bidirectional) continue;
+
+      const [from, to] = reversed
+        ? [{ zone: route.destination_zone_id, name: route.destination_name }, { zone: route.origin_zone_id, name: route.origin_name }]
+        : [{ zone: route.origin_zone_id, name: route.origin_name }, { zone: route.destination_zone_id, name: route.destination_name }];
+
+      if (!matchesEndpoint(from.zone, from.name, request.originName, request.pickupZone)) continue;
+      if (!matchesEndpoint(to.zone, to.name, request.destinationName, request.dropoffZone)) continue;
+
+      const routeStops = route.stops || [];
+      const stops = tripStops.map(tripStop => routeStops.find(stop => matchesStop(stop, tripStop)));
+      if (stops.some(stop => !stop)) continue;
+
+      return { route, reversed, stops: stops as FixedRouteStop[] };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Finds the fixed route for a trip, if any. See matchFixedRoute.
+ */
+export function findFixedRoute(config: PricingConfig, request: FixedRouteRequest): FixedRoute | null {
+  return matchFixedRoute(config, request)?.route || null;
+}
+
+/**
+ * Returns the configured multiplier for a zone, defaulting to 1.
+ */
+export function getZoneMultiplier(config: PricingConfig, zoneId?: string | null): number {
+  if (!zoneId) return 1;
+  const row = config.zoneMultipliers.find(m => m.zone_id === zoneId);
+  return row ? toNumber(row.multiplier, 1) : 1;
+}
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+interface LocalTimeParts {
+  date: string;
+  weekday: number;
+  minutes: number;
+}
+
+/**
+ * Calendar date, weekday and minutes after midnight of an instant in a timezone.
+ */
+export function getLocalTimeParts(value: string | Date, timeZone = "UTC"): LocalTimeParts {
+  const date = typeof value === "string" ? new Date(value) : value;
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    weekday: "short",
+    hourCycle: "h23"
+  }).formatToParts(date);
+
+  const get = (type: string) => parts.find(part => part.type === type)?.value || "";
+
+  return {
+    date: `${get("year")}-${get("month")}-${get("day")}`,
+    weekday: WEEKDAYS.indexOf(get("weekday")),
+    minutes: parseInt(get("hour"), 10) * 60 + parseInt(get("minute"), 10)
+  };
+}
+
+const parseTimeOfDay = (value: string) => {
+  const [hours, minutes] = value.split(":").map(part => parseInt(part, 10));
+  return hours * 60 + (minutes || 0);
+};
+
+const shiftDate = (date: string, days: number) => {
+  const shifted = new Date(`${date}T00:00:00Z`);
+  shifted.setUTCDate(shifted.getUTCDate() + days);
+  return shifted.toISOString().slice(0, 10);
+};
+
+/**
+ * Checks whether a rule is active at the given local time. For windows that
+ * run past midnight, the early-morning part belongs to the previous day, so a
+ * Friday 22:00-06:00 rule also matches Saturday at 02:00.
+ */
+export function isRuleActiveAt(rule: PricingRule, local: LocalTimeParts): boolean {
+  if (rule.is_active === false) return false;
+
+  let { date, weekday } = local;
+
+  if (rule.start_time && rule.end_time) {
+    const start = parseTimeOfDay(rule.start_time);
+    const end = parseTimeOfDay(rule.end_time);
+
+    if (start <= end) {
+      if (local.minutes < start || local.minutes >= end) return false;
+    } else if (local.minutes < end) {
+      date = shiftDate(local.date, -1);
+      weekday = (local.weekday + 6) % 7;
+    } else if (local.minutes < start) {
+      return false;
+    }
+  }
+
+  if (rule.weekdays && rule.weekdays.length > 0 && !rule.weekdays.includes(weekday)) return false;
+  if (rule.start_date && date < rule.start_date) return false;
+  if (rule.end_date && date > rule.end_date) return false;
+
+  return true;
+}
+
+/**
+ * Pricing rules that apply to a trip, in configuration order.
+ */
+export function findMatchingRules(
+  config: PricingConfig,
+  request: Pick<QuoteRequest, "vehicleType" | "pickupZone" | "pickupTime">
+): PricingRule[] {
+  if (!request.pickupTime || !config.pricingRules?.length) return [];
+
+  const local = getLocalTimeParts(request.pickupTime, config.timeZone || "UTC");
+
+  return config.pricingRules.filter(rule =>
+    (!rule.vehicle_type || rule.vehicle_type === request.vehicleType) &&
+    (!rule.zone_id || rule.zone_id === request.pickupZone?.id) &&
+    isRuleActiveAt(rule, local)
+  );
+}
+
+/**
+ * Discount granted by a promo on the given amount. Never exceeds the amount.
+ */
+export function calculatePromoDiscount(promo: PromoInput | null | undefined, amount: number): number {
+  if (!promo || amount <= 0) return 0;
+
+  const discount = promo.discount_type === "percent"
+    ? amount * (toNumber(promo.value) / 100)
+    : toNumber(promo.value);
+
+  return roundCurrency(Math.min(Math.max(discount, 0), amount));
+}
+
+function buildFeeLineItems(customFees: CustomFee[] = []): QuoteLineItem[] {
+  return customFees
+    .filter(fee => fee.name?.trim() !== "")
+    .map(fee => ({
+      type: "custom_fee" as const,
+      description: fee.name,
+      amount: roundCurrency(toNumber(fee.amount)),
+      customerVisible: fee.customer_visible !== false
+    }));
+}
+
+const sumAmounts = (items: QuoteLineItem[]) =>
+  roundCurrency(items.reduce((sum, item) => sum + item.amount, 0));
+
+/**
+ * Calculates an itemised quote. Each line item is rounded to cents and the
+ * total is the exact sum of the line items, so the same inputs always give
+ * the same breakdown.
+ *
+ * Order of application: fixed route with its stop add-ons or base fare,
+ * pickup zone multiplier, time-based pricing rules, surge, promo discount,
+ * then custom fees. Fixed routes are not affected by zone or surge
+ * multipliers, but pricing rules such as night surcharges do apply to them.
+ */
+export function calculateQuote(config: PricingConfig, request: QuoteRequest): PriceQuote {
+  const vehiclePrice = config.vehiclePrices.find(p => p.vehicle_type === request.vehicleType);
+  const fixedRouteMatch = matchFixedRoute(config, request);
+  const fixedRoute = fixedRouteMatch?.route;
+
+  if (!vehiclePrice && !fixedRoute) {
+    throw new PricingError(`No base price configured for vehicle type "${request.vehicleType}"`, "unknown_vehicle_type");
+  }
+
+  const distanceKm = Math.max(toNumber(request.distanceKm), 0);
+  const pricePerKm = toNumber(vehiclePrice?.base_price_per_km);
+  const fareItems: QuoteLineItem[] = [];
+  let zoneMultiplier = 1;
+  let surgeMultiplier = 1;
+
+  if (fixedRouteMatch && fixedRoute) {
+    const [from, to] = fixedRouteMatch.reversed
+      ? [fixedRoute.destination_name, fixedRoute.origin_name]
+      : [fixedRoute.origin_name, fixedRoute.destination_name];
+
+    fareItems.push({
+      type: "fixed_route",
+      description: `Fixed Route Price (${from} → ${to})`,
+      amount: roundCurrency(toNumber(fixedRoute.fixed_price)),
+      customerVisible: true
+    });
+
+    fixedRouteMatch.stops.forEach((stop, index) => {
+      fareItems.push({
+        type: "stop_addon",
+        description: `Stop: ${stop.name || request.stops?.[index]?.zone?.name || request.stops?.[index]?.name || `Stop ${index + 1}`}`,
+        amount: roundCurrency(toNumber(stop.add_on)),
+        customerVisible: true
+      });
+    });
+  } else {
+    const baseFare = roundCurrency(distanceKm * pricePerKm);
+    fareItems.push({
+      type: "base_fare",
+      description: `Base Rate (${distanceKm}km × €${pricePerKm}/km)`,
+      amount: baseFare,
+      customerVisible: true
+    });
+
+    zoneMultiplier = getZoneMultiplier(config, request.pickupZone?.id);
+    fareItems.push({
+      type: "zone_multiplier",
+      description: request.pickupZone
+        ? `Zone Multiplier (${request.pickupZone.name || "pickup zone"} ${formatMultiplier(zoneMultiplier)})`
+        : `Zone Multiplier (pickup outside all zones ${formatMultiplier(zoneMultiplier)})`,
+      amount: roundCurrency(baseFare * (zoneMultiplier - 1)),
+      customerVisible: true
+    });
+
+  }
+
+  // Time-based rules: multipliers apply to the fare so far, so several
+  // matching rules add up instead of compounding
+  const ruleBase = sumAmounts(fareItems);
+  const appliedRules: AppliedPricingRule[] = findMatchingRules(config, request).map(rule => {
+    const value = toNumber(rule.value);
+    const amount = rule.adjustment_type === "flat"
+      ? roundCurrency(value)
+      : roundCurrency(ruleBase * (value - 1));
+
+    return { id: rule.id || null, name: rule.name, adjustment_type: rule.adjustment_type, value, amount };
+  });
+
+  fareItems.push(...appliedRules.map(rule => ({
+    type: "pricing_rule" as const,
+    description: rule.adjustment_type === "flat"
+      ? `${rule.name} (+€${rule.value.toFixed(2)})`
+      : `${rule.name} (${formatMultiplier(rule.value)})`,
+    amount: rule.amount,
+    customerVisible: true
+  })));
+
+  if (!fixedRoute) {
+    surgeMultiplier = toNumber(request.surgeMultiplier, 1);
+    if (surgeMultiplier !== 1) {
+      fareItems.push({
+        type: "surge",
+        description: `Surge ${formatMultiplier(surgeMultiplier)}`,
+        amount: roundCurrency(sumAmounts(fareItems) * (surgeMultiplier - 1)),
+        customerVisible: true
+      });
+    }
+  }
+
+  const fare = sumAmounts(fareItems);
+  const discount = calculatePromoDiscount(request.promo, fare);
+  const lineItems = [...fareItems];
+
+  if (discount > 0 && request.promo) {
+    lineItems.push({
+      type: "promo",
+      description: request.promo.code ? `Promo ${request.promo.code}` : "Promo discount",
+      amount: -discount,
+      customerVisible: true
+    });
+  }
+
+  const feeItems = buildFeeLineItems(request.customFees);
+  lineItems.push(...feeItems);
+
+  return {
+    vehicleType: request.vehicleType,
+    distanceKm,
+    isFixedRoute: !!fixedRoute,
+    fixedRouteId: fixedRoute?.id || null,
+    pricePerKm,
+    zoneMultiplier,
+    surgeMultiplier,
+    appliedRules,
+    fare,
+    discount,
+    feesTotal: sumAmounts(feeItems),
+    total: sumAmounts(lineItems),
+    lineItems
+  };
+}
+
+export interface BookingPriceInput {
+  estimated_price?: number | string | null;
+  promo_discount?: number | string | null;
+  custom_fees?: CustomFee[] | null;
+}
+
+export interface BookingPriceSummary {
+  fare: number;
+  discount: number;
+  feesTotal: number;
+  visibleFeesTotal: number;
+  total: number;
+  lineItems: QuoteLineItem[];
+}
+
+/**
+ * Totals for a stored booking: the fare saved when the booking was quoted,
+ * less any promo discount, plus the custom fees added by admins.
+ */
+export function summarizeBookingPrice(booking: BookingPriceInput): BookingPriceSummary {
+  const fare = roundCurrency(toNumber(booking.estimated_price));
+  const discount = roundCurrency(Math.min(Math.max(toNumber(booking.promo_discount), 0), fare));
+  const feeItems = buildFeeLineItems(booking.custom_fees || []);
+
+  const lineItems: QuoteLineItem[] = [
+    { type: "base_fare", description: "Base fare", amount: fare, customerVisible: true }
+  ];
+
+  if (discount > 0) {
+    lineItems.push({ type: "promo", description: "Promo discount", amount: -discount, customerVisible: true });
+  }
+
+  lineItems.push(...feeItems);
+
+  return {
+    fare,
+    discount,
+    feesTotal: sumAmounts(feeItems),
+    visibleFeesTotal: sumAmounts(feeItems.filter(item => item.customerVisible)),
+    total: sumAmounts(lineItems),
+    lineItems
+  };
+}
\ No newline at end of file
@@ -0,0 +1,142 @@
+// Loads the live price sheet for the shared pricing engine.
+
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2.39.0";
+import type { PriceSheet, PricingConfig } from "./pricing.ts";
+
+/**
+ * Fetches vehicle base prices, zone multipliers, fixed routes, active pricing
+ * rules and the platform timezone used to evaluate them.
+ * Expects a service-role client so RLS does not hide rows.
+ */
+export async function loadPricingConfig(supabaseClient: SupabaseClient): Promise<PricingConfig> {
+  // Activate any scheduled sheet that is due so quotes never lag behind the cron job
+  const { error: activationError } = await supabaseClient.rpc("activate_due_pricing_schedules");
+  if (activationError) {
+    console.warn("Could not activate scheduled price sheets:", activationError);
+  }
+
+  const [
+    { data: vehiclePrices, error: vehicleError },
+    { data: zoneMultipliers, error: zoneError },
+    { data: fixedRoutes, error: routeError },
+    { data: pricingRules, error: ruleError },
+    { data: settings }
+  ] = await Promise.all([
+    supabaseClient.from("vehicle_base_prices").select("*"),
+    supabaseClient.from("zone_multipliers").select("id, zone_id, multiplier"),
+    supabaseClient.from("fixed_routes").select("*"),
+    supabaseClient.from("pricing_rules").select("*").eq("is_active", true).order("created_at"),
+    supabaseClient.from("platform_settings").select("default_timezone").limit(1).maybeSingle()
+  ]);
+
+  if (vehicleError) throw vehicleError;
+  if (zoneError) throw zoneError;
+  if (routeError) throw routeError;
+  if (ruleError) throw ruleError;
+
+  return {
+    vehiclePrices: vehiclePrices || [],
+    zoneMultipliers: zoneMultipliers || [],
+    fixedRoutes: fixedRoutes || [],
+    pricingRules: pricingRules || [],
+    timeZone: settings?.default_timezone || "UTC"
+  };
+}
+
+/**
+ * Builds an engine config from a staged price sheet. Inactive rules are
+ * dropped the same way loadPricingConfig only loads active ones.
+ */
+export function pricingConfigFromSheet(sheet: PriceSheet, timeZone = "UTC"): PricingConfig {
+  return {
+    vehiclePrices: sheet.vehiclePrices || [],
+    zoneMultipliers: sheet.zoneMultipliers || [],
+    fixedRoutes: sheet.fixedRoutes || [],
+    pricingRules: (sheet.pricingRules || []).filter(rule => rule.is_active !== false),
+    timeZone
+  };
+}
+
+const isNonNegativeNumber = (value: unknown) =>
+  value !== null && value !== "" && !Number.isNaN(Number(value)) && Number(value) >= 0;
+
+/**
+ * Checks a price sheet before it is staged. Returns one message per problem,
+ * or an empty array when the sheet is valid.
+ */
+export function validatePriceSheet(sheet: PriceSheet): string[] {
+  const errors: string[] = [];
+
+  if (!sheet || !Array.isArray(sheet.vehiclePrices) || !Array.isArray(sheet.zoneMultipliers) || !Array.isArray(sheet.fixedRoutes)) {
+    return ["Price sheet must include vehiclePrices, zoneMultipliers and fixedRoutes arrays"];
+  }
+
+  const vehicleTypes = new Set<string>();
+  sheet.vehiclePrices.forEach((price, index) => {
+    if (!price.vehicle_type?.trim()) {
+      errors.push(`Vehicle price ${index + 1}: vehicle type is required`);
+    } else if (vehicleTypes.has(price.vehicle_type)) {
+      errors.push(`Vehicle price ${index + 1}: duplicate vehicle type "${price.vehicle_type}"`);
+    }
+    vehicleTypes.add(price.vehicle_type);
+
+    if (!isNonNegativeNumber(price.base_price_per_km)) {
+      errors.push(`Vehicle price ${index + 1}: base price per km must be a non-negative number`);
+    }
+  });
+
+  const zoneIds = new Set<string>();
+  sheet.zoneMultipliers.forEach((multiplier, index) => {
+    if (!multiplier.zone_id) {
+      errors.push(`Zone multiplier ${index + 1}: zone is required`);
+    } else if (zoneIds.has(multiplier.zone_id)) {
+      errors.push(`Zone multiplier ${index + 1}: zone has more than one multiplier`);
+    }
+    zoneIds.add(multiplier.zone_id);
+
+    if (!isNonNegativeNumber(multiplier.multiplier) || Number(multiplier.multiplier) === 0) {
+      errors.push(`Zone multiplier ${index + 1}: multiplier must be greater than 0`);
+    }
+  });
+
+  sheet.fixedRoutes.forEach((route, index) => {
+    if (!route.origin_name?.trim() || !route.destination_name?.trim()) {
+      errors.push(`Fixed route ${index + 1}: origin and destination are required`);
+    }
+    if (!vehicleTypes.has(route.vehicle_type)) {
+      errors.push(`Fixed route ${index + 1}: unknown vehicle type "${route.vehicle_type}"`);
+    }
+    if (!isNonNegativeNumber(route.fixed_price)) {
+      errors.push(`Fixed route ${index + 1}: fixed price must be a non-negative number`);
+    }
+    if (route.stops !== undefined && !Array.isArray(route.stops)) {
+      errors.push(`Fixed route ${index + 1}: stops must be a list`);
+    }
+    (Array.isArray(route.stops) ? route.stops : []).forEach((stop, stopIndex) => {
+      if (!stop?.name?.trim() && !stop?.zone_id) {
+        errors.push(`Fixed route ${index + 1}, stop ${stopIndex + 1}: a name or zone is required`);
+      }
+      if (!isNonNegativeNumber(stop?.add_on)) {
+        errors.push(`Fixed route ${index + 1}, stop ${stopIndex + 1}: add-on must be a non-negative number`);
+      }
+    });
+  });
+
+  (sheet.pricingRules || []).forEach((rule, index) => {
+    if (!rule.name?.trim()) {
+      errors.push(`Pricing rule ${index + 1}: name is required`);
+    }
+    if (rule.adjustment_type !== "multiplier" && rule.adjustment_type !== "flat") {
+      errors.push(`Pricing rule ${index + 1}: adjustment type must be "multiplier" or "flat"`);
+    } else if (rule.adjustment_type === "multiplier" && !(Number(rule.value) > 0)) {
+      errors.push(`Pricing rule ${index + 1}: multiplier must be greater than 0`);
+    } else if (Number.isNaN(Number(rule.value))) {
+      errors.push(`Pricing rule ${index + 1}: value must be a number`);
+    }
+    if (rule.start_date && rule.end_date && rule.start_date > rule.end_date) {
+      errors.push(`Pricing rule ${index + 1}: start date is after end date`);
+    }
+  });
+
+  return errors;
+}
@@ -0,0 +1,210 @@
+// Rebuilds earlier price sheets from pricing_change_logs and compares sheets.
+// Row changes store the row before and after the change; price sheet
+// activations and rollbacks store the full sheet before and after.
+
+import type { PriceSheet } from "./pricing.ts";
+
+export type SheetTable = "vehiclePrices" | "zoneMultipliers" | "fixedRoutes" | "pricingRules";
+
+type SheetRow = Record<string, any>;
+
+export interface PricingChangeLogEntry {
+  id: string;
+  change_type: string;
+  previous_value: SheetRow | null;
+  new_value: SheetRow | null;
+  created_at: string;
+}
+
+export interface FieldChange {
+  field: string;
+  from: unknown;
+  to: unknown;
+}
+
+export interface SheetDiffEntry {
+  table: SheetTable;
+  action: "added" | "removed" | "changed";
+  label: string;
+  changes: FieldChange[];
+}
+
+const ROW_CHANGE_TABLES: Record<string, SheetTable> = {
+  base_price: "vehiclePrices",
+  zone_multiplier: "zoneMultipliers",
+  fixed_route: "fixedRoutes",
+  pricing_rule: "pricingRules"
+};
+
+const SHEET_CHANGE_TYPES = ["price_sheet", "rollback"];
+
+// Fields that define a row's price; timestamps and joined names are ignored
+const TABLE_FIELDS: Record<SheetTable, string[]> = {
+  vehiclePrices: ["vehicle_type", "base_price_per_km"],
+  zoneMultipliers: ["zone_id", "multiplier"],
+  fixedRoutes: [
+    "origin_name", "destination_name", "vehicle_type", "fixed_price",
+    "origin_zone_id", "destination_zone_id", "is_bidirectional", "stops"
+  ],
+  pricingRules: [
+    "name", "adjustment_type", "value", "start_time", "end_time", "weekdays",
+    "start_date", "end_date", "vehicle_type", "zone_id", "is_active"
+  ]
+};
+
+const TABLES = Object.keys(TABLE_FIELDS) as SheetTable[];
+
+// Identifies rows logged without an id (inserts made before ids were logged)
+const naturalKey = (table: SheetTable, row: SheetRow): string => {
+  switch (table) {
+    case "vehiclePrices":
+      return row.vehicle_type;
+    case "zoneMultipliers":
+      return row.zone_id;
+    case "fixedRoutes":
+      return `${row.origin_name}|${row.destination_name}|${row.vehicle_type}`.toLowerCase();
+    case "pricingRules":
+      return row.name;
+  }
+};
+
+const rowLabel = (table: SheetTable, row: SheetRow): string => {
+  switch (table) {
+    case "vehiclePrices":
+      return row.vehicle_type;
+    case "zoneMultipliers":
+      return row.zone_name || row.zone_id;
+    case "fixedRoutes":
+      return `${row.origin_name} → ${row.destination_name} (${row.vehicle_type})`;
+    case "pricingRules":
+      return row.name;
+  }
+};
+
+const isEmptyValue = (value: SheetRow | null) => !value || Object.keys(value).length === 0;
+
+// Numbers come back from Postgres as strings, so compare loosely
+const normalizeField = (value: unknown) => {
+  if (value === null || value === undefined || value === "") return null;
+  if (typeof value === "number" || (typeof value === "string" && value.trim() !== "" && !Number.isNaN(Number(value)))) {
+    return Number(value);
+  }
+  return JSON.stringify(value);
+};
+
+const findRow = (table: SheetTable, rows: SheetRow[], target: SheetRow) =>
+  target.id
+    ? rows.findIndex(row => row.id === target.id)
+    : rows.findIndex(row => naturalKey(table, row) === naturalKey(table, target));
+
+/**
+ * Whether a log entry can be reverted. Entries without before/after values,
+ * such as manual cache refreshes, cannot.
+ */
+export function isRevertible(log: PricingChangeLogEntry): boolean {
+  if (SHEET_CHANGE_TYPES.includes(log.change_type)) {
+    return Array.isArray(log.previous_value?.vehiclePrices);
+  }
+
+  return log.change_type in ROW_CHANGE_TABLES &&
+    (!isEmptyValue(log.previous_value) || !isEmptyValue(log.new_value));
+}
+
+/**
+ * Returns the sheet as it would be with a single logged change undone.
+ * Updated or deleted rows are put back to their previous value; inserted
+ * rows are removed.
+ */
+export function revertChange(sheet: PriceSheet, log: PricingChangeLogEntry): PriceSheet {
+  if (!isRevertible(log)) return sheet;
+
+  if (SHEET_CHANGE_TYPES.includes(log.change_type)) {
+    const previous = log.previous_value as SheetRow;
+    return {
+      vehiclePrices: previous.vehiclePrices,
+      zoneMultipliers: previous.zoneMultipliers,
+      fixedRoutes: previous.fixedRoutes,
+      pricingRules: previous.pricingRules || sheet.pricingRules
+    };
+  }
+
+  const table = ROW_CHANGE_TABLES[log.change_type];
+  const rows: SheetRow[] = [...(sheet[table] || [])];
+  const previous = log.previous_value;
+  const next = log.new_value;
+
+  if (previous?.id) {
+    // Update or delete: restore the row as it was
+    const index = findRow(table, rows, previous);
+    if (index >= 0) {
+      rows[index] = { ...rows[index], ...previous };
+    } else {
+      rows.push(previous);
+    }
+  } else if (next && !isEmptyValue(next)) {
+    // Insert: remove the row that was added
+    const index = findRow(table, rows, next);
+    if (index >= 0) rows.splice(index, 1);
+  }
+
+  return { ...sheet, [table]: rows };
+}
+
+/**
+ * Rebuilds the sheet as it was before the given changes, undoing them
+ * newest first. Pass every change made after the point to restore.
+ */
+export function sheetBeforeChanges(sheet: PriceSheet, logs: PricingChangeLogEntry[]): PriceSheet {
+  return [...logs]
+    .sort((a, b) => b.created_at.localeCompare(a.created_at))
+    .reduce((current, log) => revertChange(current, log), sheet);
+}
+
+/**
+ * Lists the row-level differences between two sheets.
+ */
+export function diffPriceSheets(from: PriceSheet, to: PriceSheet): SheetDiffEntry[] {
+  const entries: SheetDiffEntry[] = [];
+
+  for (const table of TABLES) {
+    const fields = TABLE_FIELDS[table];
+    const fromRows: SheetRow[] = from[table] || [];
+    const toRows: SheetRow[] = to[table] || [];
+    const matched = new Set<number>();
+
+    for (const row of toRows) {
+      const index = findRow(table, fromRows, row);
+
+      if (index < 0 || matched.has(index)) {
+        entries.push({
+          table,
+          action: "added",
+          label: rowLabel(table, row),
+          changes: fields.map(field => ({ field, from: null, to: row[field] ?? null }))
+        });
+        continue;
+      }
+
+      matched.add(index);
+      const changes = fields
+        .filter(field => normalizeField(fromRows[index][field]) !== normalizeField(row[field]))
+        .map(field => ({ field, from: fromRows[index][field] ?? null, to: row[field] ?? null }));
+
+      if (changes.length > 0) {
+        entries.push({ table, action: "changed", label: rowLabel(table, row), changes });
+      }
+    }
+
+    fromRows.forEach((row, index) => {
+      if (matched.has(index)) return;
+      entries.push({
+        table,
+        action: "removed",
+        label: rowLabel(table, row),
+        changes: fields.map(field => ({ field, from: row[field] ?? null, to: null }))
+      });
+    });
+  }
+
+  return entries;
+}
\ No newline at end of file
@@ -0,0 +1,105 @@
+// Quotes a batch of trips under the live pricing and a draft price sheet so
+// the revenue impact of a change can be reviewed before it is saved.
+
+import { calculateQuote, PricingError, roundCurrency, type PricingConfig, type QuoteRequest } from "./pricing.ts";
+
+/** Largest batch quoted in one request, to bound geocoding and routing calls */
+export const MAX_SCENARIO_TRIPS = 100;
+
+/** A trip to quote, pasted or uploaded by an admin */
+export interface ScenarioTrip {
+  origin: string;
+  destination: string;
+  vehicleType: string;
+  pickupTime?: string | null;
+  stops?: string[];
+}
+
+export interface ScenarioTripResult {
+  index: number;
+  label: string;
+  vehicleType: string;
+  pickupTime: string | null;
+  /** Booking the trip was taken from, when quoting recent bookings */
+  bookingReference?: string;
+  /** What the booking was actually charged */
+  bookedPrice?: number | null;
+  distanceKm?: number;
+  currentPrice?: number;
+  draftPrice?: number;
+  delta?: number;
+  /** Change relative to the current price, in percent; null when the current price is 0 */
+  deltaPercent?: number | null;
+  error?: string;
+}
+
+export interface ScenarioSummary {
+  trips: number;
+  quoted: number;
+  failed: number;
+  currentTotal: number;
+  draftTotal: number;
+  delta: number;
+  deltaPercent: number | null;
+  increased: number;
+  decreased: number;
+  unchanged: number;
+}
+
+const percentChange = (from: number, to: number) =>
+  from === 0 ? null : Math.round(((to - from) / from) * 10000) / 100;
+
+/**
+ * Quotes one trip under both configurations. A trip that cannot be priced
+ * under either one (e.g. a vehicle type the draft removes) is reported with
+ * an error instead of failing the batch.
+ */
+export function quoteScenarioTrip(
+  current: PricingConfig,
+  draft: PricingConfig,
+  request: QuoteRequest
+): Pick<ScenarioTripResult, "currentPrice" | "draftPrice" | "delta" | "deltaPercent" | "error"> {
+  let currentPrice: number;
+  try {
+    currentPrice = calculateQuote(current, request).total;
+  } catch (error) {
+    if (!(error instanceof PricingError)) throw error;
+    return { error: `Current pricing: ${error.message}` };
+  }
+
+  try {
+    const draftPrice = calculateQuote(draft, request).total;
+    return {
+      currentPrice,
+      draftPrice,
+      delta: roundCurrency(draftPrice - currentPrice),
+      deltaPercent: percentChange(currentPrice, draftPrice)
+    };
+  } catch (error) {
+    if (!(error instanceof PricingError)) throw error;
+    return { currentPrice, error: `Draft pricing: ${error.message}` };
+  }
+}
+
+/**
+ * Totals a batch. Only trips priced under both configurations count towards
+ * the revenue totals.
+ */
+export function summarizeScenario(results: ScenarioTripResult[]): ScenarioSummary {
+  const quoted = results.filter(r => r.currentPrice !== undefined && r.draftPrice !== undefined && !r.error);
+  const currentTotal = roundCurrency(quoted.reduce((sum, r) => sum + r.currentPrice!, 0));
+  const draftTotal = roundCurrency(quoted.reduce((sum, r) => sum + r.draftPrice!, 0));
+
+  return {
+    trips: results.length,
+    quoted: quoted.length,
+    failed: results.length - quoted.length,
+    currentTotal,
+    draftTotal,
+    delta: roundCurrency(draftTotal - currentTotal),
+    deltaPercent: percentChange(currentTotal, draftTotal),
+    increased: quoted.filter(r => r.delta! > 0).length,
+    decreased: quoted.filter(r => r.delta! < 0).length,
+    unchanged: quoted.filter(r => r.delta === 0).length
+  };
+}
\ No newline at end of file
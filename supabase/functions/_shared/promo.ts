@@ -0,0 +1,150 @@
+// Promo code rules shared by the validate-promo-code endpoint, the pricing
+// simulator and the admin Promotions section. Database lookups live in
+// promoCodes.ts so this module stays usable from the frontend.
+
+import type { DiscountType, PromoInput } from "./pricing.ts";
+
+export interface PromoCode {
+  id: string;
+  code: string;
+  description?: string | null;
+  discount_type: DiscountType;
+  value: number;
+  max_uses: number | null;
+  max_uses_per_customer: number | null;
+  valid_from: string | null;
+  valid_until: string | null;
+  vehicle_types: string[] | null;
+  zone_ids: string[] | null;
+  is_active: boolean;
+}
+
+export type PromoRejection =
+  | "not_found"
+  | "inactive"
+  | "not_started"
+  | "expired"
+  | "usage_limit"
+  | "customer_limit"
+  | "vehicle_type"
+  | "zone";
+
+/** Redemptions so far, overall and by the customer using the code */
+export interface PromoUsage {
+  total: number;
+  customer: number;
+}
+
+/** The trip a code is applied to; omitted details fail any restriction on them */
+export interface PromoTrip {
+  at?: string | Date;
+  vehicleType?: string | null;
+  zoneIds?: (string | null | undefined)[];
+}
+
+export interface PromoCheck {
+  valid: boolean;
+  reason?: PromoRejection;
+  message?: string;
+}
+
+export const PROMO_REJECTION_MESSAGES: Record<PromoRejection, string> = {
+  not_found: "Promo code not found",
+  inactive: "This promo code is no longer active",
+  not_started: "This promo code is not valid yet",
+  expired: "This promo code has expired",
+  usage_limit: "This promo code has reached its usage limit",
+  customer_limit: "This promo code has already been used the maximum number of times by this customer",
+  vehicle_type: "This promo code is not valid for the selected vehicle",
+  zone: "This promo code is not valid for this pickup or dropoff area"
+};
+
+const reject = (reason: PromoRejection): PromoCheck => ({
+  valid: false,
+  reason,
+  message: PROMO_REJECTION_MESSAGES[reason]
+});
+
+/**
+ * Codes are matched without regard to case or surrounding spaces.
+ */
+export function normalizePromoCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+/**
+ * Checks whether a code can be applied to a trip.
+ */
+export function checkPromoCode(promo: PromoCode, trip: PromoTrip, usage: PromoUsage): PromoCheck {
+  const at = trip.at ? new Date(trip.at) : new Date();
+
+  if (!promo.is_active) return reject("inactive");
+  if (promo.valid_from && at < new Date(promo.valid_from)) return reject("not_started");
+  if (promo.valid_until && at >= new Date(promo.valid_until)) return reject("expired");
+  if (promo.max_uses != null && usage.total >= promo.max_uses) return reject("usage_limit");
+  if (promo.max_uses_per_customer != null && usage.customer >= promo.max_uses_per_customer) {
+    return reject("customer_limit");
+  }
+
+  if (promo.vehicle_types?.length && !(trip.vehicleType && promo.vehicle_types.includes(trip.vehicleType))) {
+    return reject("vehicle_type");
+  }
+
+  const zoneIds = promo.zone_ids;
+  if (zoneIds?.length && !(trip.zoneIds || []).some(id => !!id && zoneIds.includes(id))) {
+    return reject("zone");
+  }
+
+  return { valid: true };
+}
+
+/**
+ * The promo in the shape the pricing engine applies.
+ */
+export function toPromoInput(promo: PromoCode): PromoInput {
+  return {
+    code: promo.code,
+    discount_type: promo.discount_type,
+    value: Number(promo.value)
+  };
+}
+
+const isPositiveInteger = (value: unknown) =>
+  value === null || value === undefined || (Number.isInteger(Number(value)) && Number(value) > 0);
+
+/**
+ * Checks a code before it is saved. Returns the problems found; an empty
+ * list means valid.
+ */
+export function validatePromoCode(promo: Partial<PromoCode>): string[] {
+  const errors: string[] = [];
+  const value = Number(promo.value);
+
+  if (!promo.code || !/^[A-Z0-9_-]{3,32}$/.test(normalizePromoCode(promo.code))) {
+    errors.push("Code must be 3-32 letters, digits, dashes or underscores");
+  }
+  if (promo.discount_type !== "percent" && promo.discount_type !== "fixed") {
+    errors.push('Discount type must be "percent" or "fixed"');
+  } else if (!(value > 0)) {
+    errors.push("Discount value must be greater than 0");
+  } else if (promo.discount_type === "percent" && value > 100) {
+    errors.push("A percentage discount cannot exceed 100");
+  }
+  if (!isPositiveInteger(promo.max_uses)) {
+    errors.push("Usage limit must be a whole number greater than 0");
+  }
+  if (!isPositiveInteger(promo.max_uses_per_customer)) {
+    errors.push("Per-customer limit must be a whole number greater than 0");
+  }
+  if (promo.valid_from && Number.isNaN(new Date(promo.valid_from).getTime())) {
+    errors.push("Valid from is not a valid date");
+  }
+  if (promo.valid_until && Number.isNaN(new Date(promo.valid_until).getTime())) {
+    errors.push("Valid until is not a valid date");
+  }
+  if (promo.valid_from && promo.valid_until && new Date(promo.valid_from) >= new Date(promo.valid_until)) {
+    errors.push("Valid until must be after valid from");
+  }
+
+  return errors;
+}
\ No newline at end of file
@@ -0,0 +1,60 @@
+// Loads promo codes and their usage for the edge functions.
+
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2.39.0";
+import { quoteFilterValue } from "./bookingFilters.ts";
+import { normalizePromoCode, type PromoCode, type PromoUsage } from "./promo.ts";
+
+export interface PromoCustomer {
+  userId?: string | null;
+  email?: string | null;
+}
+
+/**
+ * Finds a code and counts its redemptions, overall and by the customer.
+ * Returns null when the code does not exist.
+ * Expects a service-role client so RLS does not hide rows.
+ */
+export async function lookupPromoCode(
+  supabaseClient: SupabaseClient,
+  code: string,
+  customer: PromoCustomer
+): Promise<{ promo: PromoCode; usage: PromoUsage } | null> {
+  const { data: promo, error } = await supabaseClient
+    .from("promo_codes")
+    .select("*")
+    .eq("code", normalizePromoCode(code))
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!promo) return null;
+
+  const { count: total, error: totalError } = await supabaseClient
+    .from("promo_redemptions")
+    .select("id", { count: "exact", head: true })
+    .eq("promo_code_id", promo.id);
+
+  if (totalError) throw totalError;
+
+  // A customer is identified by their account, or by email for guest bookings
+  const filters = [
+    customer.userId ? `user_id.eq.${quoteFilterValue(customer.userId)}` : null,
+    customer.email ? `customer_email.eq.${quoteFilterValue(customer.email.trim().toLowerCase())}` : null
+  ].filter(Boolean);
+
+  let customerCount = 0;
+  if (filters.length > 0) {
+    const { count, error: customerError } = await supabaseClient
+      .from("promo_redemptions")
+      .select("id", { count: "exact", head: true })
+      .eq("promo_code_id", promo.id)
+      .or(filters.join(","));
+
+    if (customerError) throw customerError;
+    customerCount = count || 0;
+  }
+
+  return {
+    promo: promo as PromoCode,
+    usage: { total: total || 0, customer: customerCount }
+  };
+}
\ No newline at end of file
@@ -0,0 +1,22 @@
+import { deepStrictEqual, strictEqual } from "node:assert/strict";
+import { parseRecurrenceRule } from "./recurrence.ts";
+
+Deno.test("daily and weekly rules are read", () => {
+  const { rule, errors } = parseRecurrenceRule("RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,FR;UNTIL=20251231");
+
+  deepStrictEqual(errors, []);
+  deepStrictEqual(rule, { freq: "WEEKLY", interval: 2, byDay: ["MO", "FR"], count: null, until: "2025-12-31" });
+});
+
+Deno.test("other frequencies are rejected", () => {
+  const { errors } = parseRecurrenceRule("FREQ=MONTHLY;COUNT=6");
+
+  deepStrictEqual(errors, ["Only daily and weekly series are supported, not FREQ=MONTHLY"]);
+});
+
+Deno.test("unsupported rule parts are rejected", () => {
+  const { errors } = parseRecurrenceRule("FREQ=WEEKLY;BYMONTHDAY=15;COUNT=6");
+
+  strictEqual(errors.length, 1);
+  strictEqual(errors[0].startsWith("BYMONTHDAY is not supported"), true);
+});
\ No newline at end of file
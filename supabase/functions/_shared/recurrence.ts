@@ -0,0 +1,343 @@
+// Recurring booking series, shared by the booking series edge functions and
+// the admin bookings page. A series repeats a template trip on the dates of a
+// recurrence rule (a daily or weekly RRULE as in RFC 5545) at the same local
+// pickup time, in the time zone the series was created in.
+//
+// Custom rules are limited to the RRULE parts listed in RECURRENCE_RULE_PARTS;
+// other frequencies (MONTHLY, YEARLY, ...) and parts (BYMONTHDAY, BYSETPOS,
+// ...) are rejected, and the series endpoints answer them with a 400.
+
+import { getLocalTimeParts } from "./pricing.ts";
+
+export type RecurrenceFrequency = "DAILY" | "WEEKLY";
+export type RecurrenceWeekday = "MO" | "TU" | "WE" | "TH" | "FR" | "SA" | "SU";
+
+/** In `Date.getDay()` order, Sunday first */
+export const RECURRENCE_WEEKDAYS: RecurrenceWeekday[] = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+
+export const WORKING_WEEKDAYS: RecurrenceWeekday[] = ["MO", "TU", "WE", "TH", "FR"];
+
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number;
+  /** Weekdays of a weekly rule; empty repeats on the first trip's weekday */
+  byDay: RecurrenceWeekday[];
+  /** Number of dates in the series, the first trip and skipped dates included */
+  count: number | null;
+  /** Last date of the series, YYYY-MM-DD in the series' time zone */
+  until: string | null;
+}
+
+/** The RRULE parts a series accepts */
+export const RECURRENCE_RULE_PARTS = ["FREQ", "INTERVAL", "BYDAY", "COUNT", "UNTIL"];
+
+export const MAX_SERIES_OCCURRENCES = 366;
+export const MAX_SERIES_INTERVAL = 52;
+
+/** How many days ahead the trips of a series are created */
+export const SERIES_GENERATE_DAYS = 30;
+
+/** Trip fields copied from the first booking onto every trip of a series */
+export const SERIES_TEMPLATE_FIELDS = [
+  "user_id",
+  "pickup_zone_id",
+  "dropoff_zone_id",
+  "pickup_address",
+  "dropoff_address",
+  "estimated_distance_km",
+  "estimated_duration_min",
+  "estimated_price",
+  "vehicle_type",
+  "passengers",
+  "custom_fees",
+  "price_breakdown",
+  "customer_name",
+  "customer_email",
+  "customer_phone",
+  "notes",
+  "internal_tags",
+  "reminders_opt_out"
+];
+
+/** Trip fields an admin can change for one trip or the whole series */
+export const SERIES_EDITABLE_FIELDS = [
+  "pickup_address",
+  "dropoff_address",
+  "customer_name",
+  "customer_email",
+  "customer_phone",
+  "passengers",
+  "notes"
+] as const;
+
+export type SeriesEditableField = typeof SERIES_EDITABLE_FIELDS[number];
+export type SeriesChanges = Partial<Record<SeriesEditableField, string | number | null>>;
+
+export type BookingSeriesStatus = "active" | "ended";
+
+export interface BookingSeries {
+  id: string;
+  rrule: string;
+  /** First pickup; its local time of day is the pickup time of every trip */
+  starts_at: string;
+  time_zone: string;
+  skip_dates: string[];
+  template: Record<string, unknown>;
+  status: BookingSeriesStatus;
+  /** Last date trips have been created for */
+  generated_through: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+/**
+ * Reads a recurrence rule such as `FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR;UNTIL=20251231`,
+ * returning the problems found alongside the rule. A series needs an end,
+ * either COUNT or UNTIL.
+ */
+export function parseRecurrenceRule(text: string): { rule: RecurrenceRule; errors: string[] } {
+  const errors: string[] = [];
+  const rule: RecurrenceRule = { freq: "DAILY", interval: 1, byDay: [], count: null, until: null };
+
+  const body = String(text || "").trim().replace(/^RRULE:/i, "");
+  if (!body) return { rule, errors: ["Recurrence rule is empty"] };
+
+  let hasFreq = false;
+  for (const part of body.split(";").filter(Boolean)) {
+    const [key, value = ""] = part.split("=").map(piece => piece.trim().toUpperCase());
+
+    switch (key) {
+      case "FREQ":
+        hasFreq = true;
+        if (value === "DAILY" || value === "WEEKLY") rule.freq = value;
+        else errors.push(`Only daily and weekly series are supported, not FREQ=${value}`);
+        break;
+      case "INTERVAL": {
+        const interval = Number(value);
+        if (!Number.isInteger(interval) || interval < 1 || interval > MAX_SERIES_INTERVAL) {
+          errors.push(`INTERVAL must be between 1 and ${MAX_SERIES_INTERVAL}`);
+        } else {
+          rule.interval = interval;
+        }
+        break;
+      }
+      case "BYDAY": {
+        const days = value.split(",").filter(Boolean);
+        const unknown = days.filter(day => !RECURRENCE_WEEKDAYS.includes(day as RecurrenceWeekday));
+        if (unknown.length > 0) errors.push(`Unknown BYDAY value ${unknown.join(", ")}`);
+        rule.byDay = [...new Set(days.filter((day): day is RecurrenceWeekday => RECURRENCE_WEEKDAYS.includes(day as RecurrenceWeekday)))];
+        break;
+      }
+      case "COUNT": {
+        const count = Number(value);
+        if (!Number.isInteger(count) || count < 1 || count > MAX_SERIES_OCCURRENCES) {
+          errors.push(`COUNT must be between 1 and ${MAX_SERIES_OCCURRENCES}`);
+        } else {
+          rule.count = count;
+        }
+        break;
+      }
+      case "UNTIL": {
+        const match = value.match(/^(\d{4})(\d{2})(\d{2})(T\d{6}Z?)?$/);
+        if (match) rule.until = `${match[1]}-${match[2]}-${match[3]}`;
+        else errors.push("UNTIL must be a date such as 20251231");
+        break;
+      }
+      default:
+        errors.push(`${key} is not supported; rules can use ${RECURRENCE_RULE_PARTS.join(", ")}`);
+    }
+  }
+
+  if (!hasFreq) errors.push("The rule needs a FREQ of DAILY or WEEKLY");
+  if (rule.freq === "DAILY" && rule.byDay.length > 0) errors.push("BYDAY can only be used with FREQ=WEEKLY");
+  if (rule.count !== null && rule.until) errors.push("Use either COUNT or UNTIL, not both");
+  if (rule.count === null && !rule.until) errors.push("Choose an end date or a number of trips");
+
+  return { rule, errors };
+}
+
+/** Writes a rule back as RRULE text; weekdays are listed Monday first */
+export function formatRecurrenceRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byDay.length > 0) parts.push(`BYDAY=${sortWeekdays(rule.byDay).join(",")}`);
+  if (rule.count !== null) parts.push(`COUNT=${rule.count}`);
+  if (rule.until) parts.push(`UNTIL=${rule.until.replace(/-/g, "")}`);
+  return parts.join(";");
+}
+
+const WEEKDAY_LABELS: Record<RecurrenceWeekday, string> = {
+  MO: "Mon", TU: "Tue", WE: "Wed", TH: "Thu", FR: "Fri", SA: "Sat", SU: "Sun"
+};
+
+const sortWeekdays = (days: RecurrenceWeekday[]) =>
+  [...days].sort((a, b) => (RECURRENCE_WEEKDAYS.indexOf(a) + 6) % 7 - (RECURRENCE_WEEKDAYS.indexOf(b) + 6) % 7);
+
+/** A short description, e.g. "Every weekday until 2025-12-31" */
+export function describeRecurrence(rule: RecurrenceRule): string {
+  let text: string;
+  if (rule.freq === "DAILY") {
+    text = rule.interval === 1 ? "Every day" : `Every ${rule.interval} days`;
+  } else {
+    const days = sortWeekdays(rule.byDay);
+    const isWorkingWeek = days.length === WORKING_WEEKDAYS.length && days.every((day, i) => day === WORKING_WEEKDAYS[i]);
+    if (isWorkingWeek && rule.interval === 1) {
+      text = "Every weekday";
+    } else {
+      text = rule.interval === 1 ? "Every week" : `Every ${rule.interval} weeks`;
+      if (days.length > 0) text += ` on ${days.map(day => WEEKDAY_LABELS[day]).join(", ")}`;
+    }
+  }
+
+  if (rule.count !== null) text += `, ${rule.count} ${rule.count === 1 ? "time" : "times"}`;
+  if (rule.until) text += ` until ${rule.until}`;
+  return text;
+}
+
+/** Moves a YYYY-MM-DD date by a number of days */
+export function shiftLocalDate(date: string, days: number): string {
+  const shifted = new Date(`${date}T00:00:00Z`);
+  shifted.setUTCDate(shifted.getUTCDate() + days);
+  return shifted.toISOString().slice(0, 10);
+}
+
+const daysBetween = (from: string, to: string) =>
+  Math.round((new Date(`${to}T00:00:00Z`).getTime() - new Date(`${from}T00:00:00Z`).getTime()) / 86_400_000);
+
+/**
+ * The instant a local date and time of day falls on in a time zone. On days
+ * the clocks change, the offset after the change is used.
+ */
+export function zonedDateTime(date: string, minutes: number, timeZone: string): Date {
+  const [year, month, day] = date.split("-").map(Number);
+  const wall = Date.UTC(year, month - 1, day, 0, minutes);
+
+  // Correct by the zone's offset; the second pass settles days the offset changes
+  let instant = wall;
+  for (let pass = 0; pass < 2; pass++) {
+    const local = getLocalTimeParts(new Date(instant), timeZone);
+    const [localYear, localMonth, localDay] = local.date.split("-").map(Number);
+    instant += wall - Date.UTC(localYear, localMonth - 1, localDay, 0, local.minutes);
+  }
+
+  return new Date(instant);
+}
+
+export interface SeriesSchedule {
+  rule: RecurrenceRule;
+  startsAt: string;
+  timeZone: string;
+  /** Dates left without a trip; they still count towards COUNT */
+  skipDates: string[];
+}
+
+export interface SeriesOccurrence {
+  /** Local date of the trip, YYYY-MM-DD */
+  date: string;
+  /** Pickup time as an ISO timestamp */
+  datetime: string;
+}
+
+export function seriesSchedule(series: Pick<BookingSeries, "rrule" | "starts_at" | "time_zone" | "skip_dates">): SeriesSchedule {
+  return {
+    rule: parseRecurrenceRule(series.rrule).rule,
+    startsAt: series.starts_at,
+    timeZone: series.time_zone,
+    skipDates: series.skip_dates || []
+  };
+}
+
+/**
+ * The trips of a series up to and including `throughDate`, earliest first.
+ * The first trip always belongs to the series, even on a day the rule would
+ * not pick; weekly intervals count weeks from the Monday of that trip.
+ */
+export function seriesOccurrences(schedule: SeriesSchedule, throughDate: string): SeriesOccurrence[] {
+  const { rule, timeZone } = schedule;
+  const start = getLocalTimeParts(schedule.startsAt, timeZone);
+  const skipDates = new Set(schedule.skipDates);
+  const weekdays = rule.byDay.length > 0
+    ? rule.byDay.map(day => RECURRENCE_WEEKDAYS.indexOf(day))
+    : [start.weekday];
+  const firstMonday = shiftLocalDate(start.date, -((start.weekday + 6) % 7));
+  const lastDate = rule.until && rule.until < throughDate ? rule.until : throughDate;
+
+  const occurrences: SeriesOccurrence[] = [];
+  let matched = 0;
+
+  for (let offset = 0; matched < MAX_SERIES_OCCURRENCES; offset++) {
+    const date = shiftLocalDate(start.date, offset);
+    if (date > lastDate) break;
+
+    const weekday = (start.weekday + offset) % 7;
+    const matches = offset === 0 || (rule.freq === "DAILY"
+      ? offset % rule.interval === 0
+      : Math.floor(daysBetween(firstMonday, date) / 7) % rule.interval === 0 && weekdays.includes(weekday));
+    if (!matches) continue;
+
+    matched++;
+    if (!skipDates.has(date)) {
+      occurrences.push({ date, datetime: zonedDateTime(date, start.minutes, timeZone).toISOString() });
+    }
+    if (rule.count !== null && matched >= rule.count) break;
+  }
+
+  return occurrences;
+}
+
+/** The date of the series' last trip; undefined when every date is skipped */
+export function seriesLastDate(schedule: SeriesSchedule): string | undefined {
+  const occurrences = seriesOccurrences(schedule, schedule.rule.until || "9999-12-31");
+  return occurrences[occurrences.length - 1]?.date;
+}
+
+/** Today's date in a time zone, YYYY-MM-DD */
+export function localToday(timeZone: string, now = new Date()): string {
+  return getLocalTimeParts(now, timeZone).date;
+}
+
+/** Checks a list of skip dates, returning them sorted without repeats */
+export function normalizeSkipDates(raw: unknown): { skipDates: string[]; errors: string[] } {
+  if (raw === undefined || raw === null) return { skipDates: [], errors: [] };
+  if (!Array.isArray(raw)) return { skipDates: [], errors: ["Skip dates must be a list"] };
+
+  const invalid = raw.filter(date => typeof date !== "string" || !DATE_PATTERN.test(date));
+  return {
+    skipDates: [...new Set(raw.filter((date): date is string => typeof date === "string" && DATE_PATTERN.test(date)))].sort(),
+    errors: invalid.length > 0 ? [`Skip dates must be written as YYYY-MM-DD: ${invalid.join(", ")}`] : []
+  };
+}
+
+/** Minutes after midnight of an `HH:mm` pickup time, or null when invalid */
+export function parsePickupTime(value: unknown): number | null {
+  const match = typeof value === "string" ? value.match(TIME_PATTERN) : null;
+  return match ? parseInt(match[1], 10) * 60 + parseInt(match[2], 10) : null;
+}
+
+/** Keeps only the editable fields of a change set */
+export function normalizeSeriesChanges(raw: unknown): { changes: SeriesChanges; errors: string[] } {
+  const errors: string[] = [];
+  const changes: SeriesChanges = {};
+  if (raw === undefined || raw === null) return { changes, errors };
+  if (typeof raw !== "object" || Array.isArray(raw)) return { changes, errors: ["Changes must be an object"] };
+
+  for (const [field, value] of Object.entries(raw as Record<string, unknown>)) {
+    if (!(SERIES_EDITABLE_FIELDS as readonly string[]).includes(field)) {
+      errors.push(`${field} cannot be changed here`);
+    } else if (field === "passengers") {
+      const passengers = value === null || value === "" ? null : Number(value);
+      if (passengers !== null && (!Number.isInteger(passengers) || passengers < 1)) errors.push("Passengers must be a whole number above 0");
+      else changes.passengers = passengers;
+    } else {
+      changes[field as SeriesEditableField] = value === null || value === undefined ? null : String(value).trim() || null;
+    }
+  }
+
+  if (changes.customer_name === null) errors.push("Customer name cannot be empty");
+
+  return { changes, errors };
+}
\ No newline at end of file
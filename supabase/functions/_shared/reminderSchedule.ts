@@ -0,0 +1,188 @@
+// Automatic booking reminders. Policies are kept in
+// `platform_settings.reminder_policies` and evaluated by the
+// send-scheduled-reminders job; the admin booking details use the same rules
+// to show which reminders a booking still has ahead of it.
+
+import {
+  findReminderTemplate,
+  type ReminderChannel,
+  type ReminderDelivery,
+  type ReminderRecipient,
+  type ReminderTemplateId
+} from "./reminderTemplates.ts";
+
+export interface ReminderPolicy {
+  /** Stable key recorded with each delivery so a policy fires once per booking */
+  id: string;
+  /** How long before pickup the reminder goes out */
+  minutes_before: number;
+  template: ReminderTemplateId;
+  recipients: ReminderRecipient[];
+  channels: ReminderChannel[];
+  enabled: boolean;
+}
+
+/** Policies a new platform starts with; off until an admin enables them */
+export const DEFAULT_REMINDER_POLICIES: ReminderPolicy[] = [
+  { id: "24h", minutes_before: 24 * 60, template: "trip_reminder", recipients: ["customer", "driver"], channels: ["email"], enabled: false },
+  { id: "2h", minutes_before: 2 * 60, template: "trip_reminder", recipients: ["customer", "driver"], channels: ["email"], enabled: false }
+];
+
+/** Bookings in these statuses get automatic reminders */
+export const REMINDER_BOOKING_STATUSES = ["pending", "accepted"];
+
+export const MAX_REMINDER_MINUTES = 7 * 24 * 60;
+
+export interface ReminderScheduleBooking {
+  datetime: string;
+  status: string;
+  last_reminder_sent?: string | null;
+  reminders_opt_out?: boolean | null;
+  driver_id?: string | null;
+}
+
+/**
+ * - `sent`: a reminder went out after the policy's time, or the policy already ran
+ * - `scheduled`: the policy's time has not come yet
+ * - `due`: the job will send it on its next run
+ * - `skipped`: a later policy's time has also passed, so only that one is sent
+ * - `missed`: pickup passed before the reminder could go out
+ */
+export type ScheduledReminderState = "sent" | "scheduled" | "due" | "skipped" | "missed";
+
+export interface ScheduledReminder {
+  policy: ReminderPolicy;
+  sendAt: Date;
+  state: ScheduledReminderState;
+}
+
+/** A delivery row as listed in the booking details */
+export interface RecordedReminderDelivery extends ReminderDelivery {
+  template: ReminderTemplateId;
+  policy_id: string | null;
+  created_at: string;
+  sent_at: string | null;
+}
+
+/** What the booking details need to show a booking's reminders */
+export interface BookingReminders {
+  policies: ReminderPolicy[];
+  attemptedPolicyIds: string[];
+  /** Most recent first */
+  deliveries: RecordedReminderDelivery[];
+}
+
+export function reminderSendAt(booking: ReminderScheduleBooking, policy: ReminderPolicy): Date {
+  return new Date(new Date(booking.datetime).getTime() - policy.minutes_before * 60_000);
+}
+
+/**
+ * Where each enabled policy stands for a booking, earliest first.
+ * `attemptedPolicyIds` are the policies the job already ran for the booking,
+ * whether or not delivery succeeded. Bookings that opted out or are no
+ * longer active have no reminders.
+ */
+export function reminderTimeline(
+  booking: ReminderScheduleBooking,
+  policies: ReminderPolicy[],
+  now = new Date(),
+  attemptedPolicyIds: string[] = []
+): ScheduledReminder[] {
+  if (booking.reminders_opt_out || !REMINDER_BOOKING_STATUSES.includes(booking.status)) return [];
+
+  const pickup = new Date(booking.datetime).getTime();
+  const lastSent = booking.last_reminder_sent ? new Date(booking.last_reminder_sent).getTime() : 0;
+  const timeline = policies
+    .filter(policy => policy.enabled)
+    .sort((a, b) => b.minutes_before - a.minutes_before)
+    .map(policy => ({ policy, sendAt: reminderSendAt(booking, policy) }));
+
+  // The latest window that has opened; earlier unsent windows are superseded by it
+  const latestOpen = [...timeline].reverse().find(r => r.sendAt.getTime() <= now.getTime());
+
+  return timeline.map(({ policy, sendAt }) => {
+    let state: ScheduledReminderState;
+    if (lastSent >= sendAt.getTime() || attemptedPolicyIds.includes(policy.id)) {
+      state = "sent";
+    } else if (sendAt.getTime() > now.getTime()) {
+      state = "scheduled";
+    } else if (pickup <= now.getTime()) {
+      state = "missed";
+    } else {
+      state = latestOpen?.policy.id === policy.id ? "due" : "skipped";
+    }
+    return { policy, sendAt, state };
+  });
+}
+
+/**
+ * The policy to send for a booking now, if any.
+ */
+export function dueReminderPolicy(
+  booking: ReminderScheduleBooking,
+  policies: ReminderPolicy[],
+  now = new Date(),
+  attemptedPolicyIds: string[] = []
+): ReminderPolicy | null {
+  return reminderTimeline(booking, policies, now, attemptedPolicyIds).find(r => r.state === "due")?.policy || null;
+}
+
+/**
+ * The policy's recipients the booking can be sent to: drivers only once
+ * one is assigned, and only recipients the template is written for.
+ */
+export function policyRecipients(policy: ReminderPolicy, booking: ReminderScheduleBooking): ReminderRecipient[] {
+  const template = findReminderTemplate(policy.template);
+  return policy.recipients.filter(recipient =>
+    template?.recipients.includes(recipient) && (recipient === "customer" || !!booking.driver_id)
+  );
+}
+
+/**
+ * Checks the policies an admin saved, returning the problems found
+ * alongside the normalized policies.
+ */
+export function normalizeReminderPolicies(raw: unknown): { policies: ReminderPolicy[]; errors: string[] } {
+  const errors: string[] = [];
+  if (!Array.isArray(raw)) {
+    return { policies: [], errors: ["Reminder policies must be a list"] };
+  }
+
+  const policies = raw.map((item: Record<string, unknown>, index) => {
+    const label = `Reminder ${index + 1}`;
+    const minutes = Number(item?.minutes_before);
+    if (!Number.isInteger(minutes) || minutes < 1 || minutes > MAX_REMINDER_MINUTES) {
+      errors.push(`${label}: time before pickup must be between 1 minute and ${MAX_REMINDER_MINUTES / (24 * 60)} days`);
+    }
+
+    const template = findReminderTemplate(String(item?.template));
+    if (!template) errors.push(`${label}: unknown template ${String(item?.template)}`);
+
+    const recipients = Array.isArray(item?.recipients)
+      ? [...new Set(item.recipients.filter((r): r is ReminderRecipient => r === "customer" || r === "driver"))]
+      : [];
+    if (recipients.length === 0) errors.push(`${label}: choose at least one recipient`);
+    if (template && recipients.some(r => !template.recipients.includes(r))) {
+      errors.push(`${label}: the "${template.label}" template cannot be sent to every chosen recipient`);
+    }
+
+    const channels = Array.isArray(item?.channels)
+      ? [...new Set(item.channels.filter((c): c is ReminderChannel => c === "email" || c === "sms"))]
+      : [];
+    if (channels.length === 0) errors.push(`${label}: choose email, SMS or both`);
+
+    return {
+      id: typeof item?.id === "string" && item.id ? item.id : `${minutes}m`,
+      minutes_before: minutes,
+      template: template?.id || "trip_reminder",
+      recipients,
+      channels,
+      enabled: item?.enabled !== false
+    };
+  });
+
+  const ids = policies.map(policy => policy.id);
+  if (new Set(ids).size !== ids.length) errors.push("Each reminder needs its own id");
+
+  return { policies, errors };
+}
\ No newline at end of file
@@ -0,0 +1,217 @@
+// Booking reminder templates, shared by the reminder edge functions and the
+// reminder modal on the admin bookings page. Templates are plain text with
+// {{placeholders}}; the SMS text is kept short enough for a single message.
+
+export type ReminderRecipient = "customer" | "driver";
+export type ReminderChannel = "email" | "sms";
+export type DeliveryStatus = "pending" | "sent" | "failed";
+
+export type ReminderTemplateId = "trip_reminder" | "awaiting_confirmation" | "driver_details" | "driver_briefing";
+
+export interface ReminderTemplate {
+  id: ReminderTemplateId;
+  label: string;
+  description: string;
+  /** Who the template is written for */
+  recipients: ReminderRecipient[];
+  subject: string;
+  body: string;
+  sms: string;
+}
+
+export const DEFAULT_REMINDER_TEMPLATE: ReminderTemplateId = "trip_reminder";
+
+export const REMINDER_TEMPLATES: ReminderTemplate[] = [
+  {
+    id: "trip_reminder",
+    label: "Upcoming trip",
+    description: "Pickup time and route of the upcoming transfer",
+    recipients: ["customer", "driver"],
+    subject: "Reminder: transfer {{booking_reference}} on {{pickup_date}}",
+    body: [
+      "Hello {{recipient_name}},",
+      "",
+      "This is a reminder of transfer {{booking_reference}} on {{pickup_date}} at {{pickup_time}}.",
+      "",
+      "Pickup: {{pickup_address}}",
+      "Drop-off: {{dropoff_address}}",
+      "Passenger: {{customer_name}}",
+      "Driver: {{driver_name}}",
+      "",
+      "If anything has changed, please reply to this email or contact {{support_email}}.",
+      "",
+      "Royal Transfer EU"
+    ].join("\n"),
+    sms: "Royal Transfer EU: transfer {{booking_reference}} on {{pickup_date}} at {{pickup_time}} from {{pickup_address}}."
+  },
+  {
+    id: "awaiting_confirmation",
+    label: "Awaiting confirmation",
+    description: "Asks the customer to confirm a booking that is still pending",
+    recipients: ["customer"],
+    subject: "Please confirm your transfer {{booking_reference}}",
+    body: [
+      "Hello {{recipient_name}},",
+      "",
+      "Your transfer {{booking_reference}} on {{pickup_date}} at {{pickup_time}} is still awaiting confirmation.",
+      "",
+      "Pickup: {{pickup_address}}",
+      "Drop-off: {{dropoff_address}}",
+      "",
+      "Please reply to this email or contact {{support_email}} to confirm the details.",
+      "",
+      "Royal Transfer EU"
+    ].join("\n"),
+    sms: "Royal Transfer EU: please confirm transfer {{booking_reference}} on {{pickup_date}} at {{pickup_time}}. Questions: {{support_email}}"
+  },
+  {
+    id: "driver_details",
+    label: "Driver details",
+    description: "Tells the customer who will pick them up",
+    recipients: ["customer"],
+    subject: "Your driver for transfer {{booking_reference}}",
+    body: [
+      "Hello {{recipient_name}},",
+      "",
+      "{{driver_name}} will pick you up on {{pickup_date}} at {{pickup_time}} at {{pickup_address}}.",
+      "You can reach your driver on {{driver_phone}}.",
+      "",
+      "Royal Transfer EU"
+    ].join("\n"),
+    sms: "Royal Transfer EU: {{driver_name}} ({{driver_phone}}) picks you up {{pickup_date}} {{pickup_time}}, {{pickup_address}}."
+  },
+  {
+    id: "driver_briefing",
+    label: "Driver briefing",
+    description: "Trip and passenger contact details for the assigned driver",
+    recipients: ["driver"],
+    subject: "Trip {{booking_reference}} on {{pickup_date}} at {{pickup_time}}",
+    body: [
+      "Hello {{recipient_name}},",
+      "",
+      "You are assigned to trip {{booking_reference}} on {{pickup_date}} at {{pickup_time}}.",
+      "",
+      "Pickup: {{pickup_address}}",
+      "Drop-off: {{dropoff_address}}",
+      "Passenger: {{customer_name}} ({{customer_phone}})",
+      "",
+      "Royal Transfer EU Dispatch"
+    ].join("\n"),
+    sms: "Trip {{booking_reference}} {{pickup_date}} {{pickup_time}}: {{pickup_address}} -> {{dropoff_address}}, {{customer_name}} {{customer_phone}}"
+  }
+];
+
+export function findReminderTemplate(id: string): ReminderTemplate | undefined {
+  return REMINDER_TEMPLATES.find(template => template.id === id);
+}
+
+/** The booking fields a reminder can mention */
+export interface ReminderBooking {
+  booking_reference: string | null;
+  datetime: string;
+  customer_name: string | null;
+  customer_phone?: string | null;
+  pickup_address?: string | null;
+  dropoff_address?: string | null;
+}
+
+export interface ReminderDriver {
+  name: string | null;
+  phone?: string | null;
+}
+
+export interface RenderedReminder {
+  subject: string;
+  text: string;
+  sms: string;
+}
+
+/**
+ * Fills a template for one recipient. Dates are written in the platform's
+ * time zone; missing values read "not specified" rather than leaving a gap.
+ */
+export function renderReminder(
+  template: ReminderTemplate,
+  booking: ReminderBooking,
+  driver: ReminderDriver | null,
+  recipientName: string | null,
+  options: { timeZone?: string; supportEmail?: string } = {}
+): RenderedReminder {
+  const pickup = new Date(booking.datetime);
+  const timeZone = options.timeZone || "UTC";
+
+  const values: Record<string, string | null | undefined> = {
+    recipient_name: recipientName,
+    booking_reference: booking.booking_reference,
+    pickup_date: pickup.toLocaleDateString("en-GB", { timeZone, day: "numeric", month: "short", year: "numeric" }),
+    pickup_time: pickup.toLocaleTimeString("en-GB", { timeZone, hour: "2-digit", minute: "2-digit" }),
+    pickup_address: booking.pickup_address,
+    dropoff_address: booking.dropoff_address,
+    customer_name: booking.customer_name,
+    customer_phone: booking.customer_phone,
+    driver_name: driver?.name || "to be assigned",
+    driver_phone: driver?.phone,
+    support_email: options.supportEmail || "support@royaltransfer.eu"
+  };
+
+  const fill = (text: string) => text.replace(/\{\{(\w+)\}\}/g, (_, key: string) => values[key] || "not specified");
+
+  return {
+    subject: fill(template.subject),
+    text: fill(template.body),
+    sms: fill(template.sms)
+  };
+}
+
+export interface ReminderRequest {
+  bookingId: string;
+  template: ReminderTemplateId;
+  recipients: ReminderRecipient[];
+  channels: ReminderChannel[];
+}
+
+/**
+ * Checks a reminder request, returning the problems found alongside the
+ * normalized request. Older callers that only send a booking id get the
+ * default template by email to the customer.
+ */
+export function normalizeReminderRequest(raw: Record<string, unknown>): { request: ReminderRequest; errors: string[] } {
+  const errors: string[] = [];
+
+  const bookingId = typeof raw.bookingId === "string" ? raw.bookingId : "";
+  if (!bookingId) errors.push("Missing required parameter: bookingId");
+
+  const templateId = raw.template === undefined ? DEFAULT_REMINDER_TEMPLATE : String(raw.template);
+  const template = findReminderTemplate(templateId);
+  if (!template) errors.push(`Unknown reminder template: ${templateId}`);
+
+  const recipients = Array.isArray(raw.recipients)
+    ? [...new Set(raw.recipients.filter((r): r is ReminderRecipient => r === "customer" || r === "driver"))]
+    : ["customer" as ReminderRecipient];
+  if (recipients.length === 0) errors.push("Choose at least one recipient");
+  if (template) {
+    const unsupported = recipients.filter(r => !template.recipients.includes(r));
+    if (unsupported.length > 0) errors.push(`The "${template.label}" template cannot be sent to the ${unsupported.join(" or ")}`);
+  }
+
+  const channels = Array.isArray(raw.channels)
+    ? [...new Set(raw.channels.filter((c): c is ReminderChannel => c === "email" || c === "sms"))]
+    : ["email" as ReminderChannel];
+  if (channels.length === 0) errors.push("Choose email, SMS or both");
+
+  return {
+    request: { bookingId, template: template?.id || DEFAULT_REMINDER_TEMPLATE, recipients, channels },
+    errors
+  };
+}
+
+/** One message of a reminder, as recorded in `notification_deliveries` */
+export interface ReminderDelivery {
+  id: string;
+  recipient_type: ReminderRecipient;
+  channel: ReminderChannel;
+  recipient: string | null;
+  status: DeliveryStatus;
+  provider: string | null;
+  error: string | null;
+}
\ No newline at end of file
@@ -0,0 +1,144 @@
+// Sends booking reminders through the configured notification providers and
+// records every message in `notification_deliveries`, so the outcome of each
+// email or SMS can be followed up after the request returns.
+
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2.39.0";
+import { createNotificationProviders, type NotificationProvider } from "./notifications.ts";
+import {
+  findReminderTemplate,
+  renderReminder,
+  type ReminderChannel,
+  type ReminderDelivery,
+  type ReminderRecipient,
+  type ReminderRequest
+} from "./reminderTemplates.ts";
+
+interface Recipient {
+  type: ReminderRecipient;
+  name: string | null;
+  email: string | null;
+  phone: string | null;
+}
+
+export interface DeliverReminderOptions {
+  providers?: Partial<Record<ReminderChannel, NotificationProvider>>;
+  /** Automatic reminder policy the messages are sent for */
+  policyId?: string;
+}
+
+/**
+ * Renders and sends a reminder to each requested recipient on each requested
+ * channel. A message that cannot be sent (no address, no provider, provider
+ * error) is recorded as failed; the others still go out.
+ * Expects a service-role client so RLS does not hide rows.
+ */
+export async function deliverReminder(
+  supabaseClient: SupabaseClient,
+  request: ReminderRequest,
+  sentBy: string | null,
+  options: DeliverReminderOptions = {}
+): Promise<ReminderDelivery[]> {
+  const providers = options.providers || createNotificationProviders();
+  const template = findReminderTemplate(request.template);
+  if (!template) {
+    throw new Error(`Unknown reminder template: ${request.template}`);
+  }
+
+  const [{ data: booking, error: bookingError }, { data: settings }] = await Promise.all([
+    supabaseClient
+      .from("trips")
+      .select("id, booking_reference, datetime, customer_name, customer_email, customer_phone, pickup_address, dropoff_address, driver_id")
+      .eq("id", request.bookingId)
+      .single(),
+    supabaseClient
+      .from("platform_settings")
+      .select("default_timezone, email_contact_address")
+      .limit(1)
+      .maybeSingle()
+  ]);
+
+  if (bookingError || !booking) {
+    throw new Error("Booking not found");
+  }
+
+  let driver: Record<string, any> | null = null;
+  if (booking.driver_id) {
+    const { data } = await supabaseClient
+      .from("users")
+      .select("name, email, phone")
+      .eq("id", booking.driver_id)
+      .maybeSingle();
+    driver = data;
+  }
+
+  const recipients: Recipient[] = request.recipients.map(type => type === "customer"
+    ? { type, name: booking.customer_name, email: booking.customer_email, phone: booking.customer_phone }
+    : { type, name: driver?.name || null, email: driver?.email || null, phone: driver?.phone || null }
+  );
+
+  const deliveries: ReminderDelivery[] = [];
+
+  for (const recipient of recipients) {
+    const rendered = renderReminder(
+      template,
+      booking,
+      driver ? { name: driver.name, phone: driver.phone } : null,
+      recipient.name,
+      { timeZone: settings?.default_timezone, supportEmail: settings?.email_contact_address }
+    );
+
+    for (const channel of request.channels) {
+      const address = channel === "email" ? recipient.email : recipient.phone;
+      const provider = providers[channel];
+
+      const { data: row, error: insertError } = await supabaseClient
+        .from("notification_deliveries")
+        .insert({
+          booking_id: booking.id,
+          template: template.id,
+          recipient_type: recipient.type,
+          channel,
+          recipient: address,
+          subject: channel === "email" ? rendered.subject : null,
+          body: channel === "email" ? rendered.text : rendered.sms,
+          status: "pending",
+          provider: provider?.name || null,
+          policy_id: options.policyId || null,
+          sent_by: sentBy
+        })
+        .select("id")
+        .single();
+
+      if (insertError) throw insertError;
+
+      let update: Record<string, unknown>;
+      if (!address) {
+        update = { status: "failed", error: `No ${channel === "email" ? "email address" : "phone number"} for the ${recipient.type}` };
+      } else if (!provider) {
+        update = { status: "failed", error: `${channel.toUpperCase()} delivery is not configured` };
+      } else {
+        try {
+          const receipt = await provider.send({ channel, to: address, subject: rendered.subject, text: channel === "email" ? rendered.text : rendered.sms });
+          update = { status: "sent", provider_message_id: receipt.providerMessageId, sent_at: new Date().toISOString() };
+        } catch (error) {
+          console.error(`Reminder ${channel} to ${recipient.type} failed:`, error);
+          update = { status: "failed", error: error.message || String(error) };
+        }
+      }
+
+      await supabaseClient.from("notification_deliveries").update(update).eq("id", row.id);
+
+      deliveries.push({
+        id: row.id,
+        recipient_type: recipient.type,
+        channel,
+        recipient: address,
+        status: update.status as ReminderDelivery["status"],
+        provider: provider?.name || null,
+        error: (update.error as string) || null
+      });
+    }
+  }
+
+  return deliveries;
+}
\ No newline at end of file
@@ -0,0 +1,135 @@
+// Route distance providers for the pricing edge functions.
+// The provider is chosen with the ROUTING_PROVIDER environment variable
+// ("osrm" or "great_circle"). Remote providers always fall back to the local
+// great-circle estimate so quotes keep working offline.
+
+import { haversineDistanceKm, type LatLng } from "./geo.ts";
+
+export interface RouteResult {
+  distanceKm: number;
+  durationMin: number;
+  provider: string;
+}
+
+export interface RoutingProvider {
+  name: string;
+  route(from: LatLng, to: LatLng): Promise<RouteResult>;
+}
+
+const round = (value: number, decimals = 1) => {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+};
+
+/**
+ * Offline estimate: straight-line distance scaled by a road factor, with the
+ * duration derived from an average driving speed.
+ */
+export class GreatCircleRoutingProvider implements RoutingProvider {
+  name = "great_circle";
+
+  constructor(
+    private roadFactor = 1.3,
+    private averageSpeedKmh = 45
+  ) {}
+
+  route(from: LatLng, to: LatLng): Promise<RouteResult> {
+    const distanceKm = haversineDistanceKm(from, to) * this.roadFactor;
+
+    return Promise.resolve({
+      distanceKm: round(distanceKm),
+      durationMin: Math.round((distanceKm / this.averageSpeedKmh) * 60),
+      provider: this.name
+    });
+  }
+}
+
+/**
+ * Driving distance from an OSRM server (https://project-osrm.org).
+ */
+export class OsrmRoutingProvider implements RoutingProvider {
+  name = "osrm";
+
+  constructor(private baseUrl: string) {}
+
+  async route(from: LatLng, to: LatLng): Promise<RouteResult> {
+    const coordinates = `${from.lng},${from.lat};${to.lng},${to.lat}`;
+    const response = await fetch(
+      `${this.baseUrl.replace(/\/$/, "")}/route/v1/driving/${coordinates}?overview=false`
+    );
+
+    if (!response.ok) {
+      throw new Error(`OSRM request failed with status ${response.status}`);
+    }
+
+    const data = await response.json();
+    const route = data.routes?.[0];
+
+    if (data.code !== "Ok" || !route) {
+      throw new Error(`OSRM returned no route (${data.code})`);
+    }
+
+    return {
+      distanceKm: round(route.distance / 1000),
+      durationMin: Math.round(route.duration / 60),
+      provider: this.name
+    };
+  }
+}
+
+/**
+ * Wraps a provider so any failure is answered by the fallback instead.
+ */
+export class FallbackRoutingProvider implements RoutingProvider {
+  name: string;
+
+  constructor(
+    private primary: RoutingProvider,
+    private fallback: RoutingProvider
+  ) {
+    this.name = primary.name;
+  }
+
+  async route(from: LatLng, to: LatLng): Promise<RouteResult> {
+    try {
+      return await this.primary.route(from, to);
+    } catch (error) {
+      console.warn(`Routing provider ${this.primary.name} failed, using ${this.fallback.name}:`, error);
+      return this.fallback.route(from, to);
+    }
+  }
+}
+
+/**
+ * Builds the routing provider configured for this environment.
+ */
+export function createRoutingProvider(): RoutingProvider {
+  const roadFactor = parseFloat(Deno.env.get("ROUTING_ROAD_FACTOR") || "") || 1.3;
+  const averageSpeed = parseFloat(Deno.env.get("ROUTING_AVERAGE_SPEED_KMH") || "") || 45;
+  const greatCircle = new GreatCircleRoutingProvider(roadFactor, averageSpeed);
+
+  const providerName = Deno.env.get("ROUTING_PROVIDER") || "great_circle";
+  const osrmUrl = Deno.env.get("OSRM_URL");
+
+  if (providerName === "osrm" && osrmUrl) {
+    return new FallbackRoutingProvider(new OsrmRoutingProvider(osrmUrl), greatCircle);
+  }
+
+  return greatCircle;
+}
+
+/**
+ * Routes through several points in order (origin, stops, destination) and
+ * adds up the legs.
+ */
+export async function routeVia(provider: RoutingProvider, points: LatLng[]): Promise<RouteResult> {
+  const legs = await Promise.all(
+    points.slice(1).map((point, index) => provider.route(points[index], point))
+  );
+
+  return {
+    distanceKm: round(legs.reduce((sum, leg) => sum + leg.distanceKm, 0)),
+    durationMin: legs.reduce((sum, leg) => sum + leg.durationMin, 0),
+    provider: [...new Set(legs.map(leg => leg.provider))].join(", ") || provider.name
+  };
+}
@@ -0,0 +1,67 @@
+// Offers of a trip to drivers, shared by the admin-offer-trip edge function,
+// the admin bookings page and the partner portal. Offers go to one driver at
+// a time; the cascade itself runs in the database (see the trip_offers
+// migration) so declines and timeouts are handled in a single transaction.
+
+export type TripOfferStatus = "queued" | "pending" | "accepted" | "declined" | "expired" | "cancelled";
+
+/** Statuses of offers that may still be accepted */
+export const OPEN_OFFER_STATUSES: TripOfferStatus[] = ["queued", "pending"];
+
+export const DEFAULT_OFFER_MINUTES = 15;
+export const MAX_OFFER_MINUTES = 24 * 60;
+
+/** Most drivers a trip can be offered to in one round */
+export const MAX_OFFER_DRIVERS = 10;
+
+export interface TripOffer {
+  id: string;
+  trip_id: string;
+  driver_id: string;
+  driver_user_id: string;
+  position: number;
+  status: TripOfferStatus;
+  response_minutes: number;
+  offered_at: string | null;
+  expires_at: string | null;
+  responded_at: string | null;
+  decline_reason: string | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+export interface OfferRequest {
+  bookingId: string;
+  /** Drivers in the order they are asked */
+  driverIds: string[];
+  responseMinutes: number;
+  /** Offer to drivers with overlapping trips when the conflict policy only warns */
+  force?: boolean;
+}
+
+/**
+ * Checks an offer request, returning the problems found alongside the
+ * normalized request. Repeated drivers are only asked once.
+ */
+export function normalizeOfferRequest(raw: Record<string, unknown>): { request: OfferRequest; errors: string[] } {
+  const errors: string[] = [];
+
+  const bookingId = typeof raw.bookingId === "string" ? raw.bookingId : "";
+  if (!bookingId) errors.push("Missing required parameter: bookingId");
+
+  const driverIds = Array.isArray(raw.driverIds)
+    ? [...new Set(raw.driverIds.filter((id): id is string => typeof id === "string" && id !== ""))]
+    : [];
+  if (driverIds.length === 0) errors.push("Choose at least one driver");
+  if (driverIds.length > MAX_OFFER_DRIVERS) errors.push(`A trip can be offered to at most ${MAX_OFFER_DRIVERS} drivers at once`);
+
+  const responseMinutes = raw.responseMinutes === undefined ? DEFAULT_OFFER_MINUTES : Number(raw.responseMinutes);
+  if (!Number.isInteger(responseMinutes) || responseMinutes < 1 || responseMinutes > MAX_OFFER_MINUTES) {
+    errors.push(`Response time must be between 1 and ${MAX_OFFER_MINUTES} minutes`);
+  }
+
+  return {
+    request: { bookingId, driverIds, responseMinutes, force: raw.force === true },
+    errors
+  };
+}
\ No newline at end of file
@@ -0,0 +1,98 @@
+// The trip status state machine: which status changes are allowed and who may
+// make them. The database enforces the same rules in the
+// `trip_status_transition_allowed` function, so the two must be kept in step.
+
+export type TripStatus = "pending" | "accepted" | "in_progress" | "completed" | "cancelled";
+
+/**
+ * Who changes a status: admins, the driver assigned to the trip, the
+ * customer who booked it, or the platform itself (dispatch and scheduled jobs)
+ */
+export type TripStatusActor = "admin" | "driver" | "customer" | "system";
+
+export const TRIP_STATUSES: TripStatus[] = ["pending", "accepted", "in_progress", "completed", "cancelled"];
+
+export const TRIP_STATUS_LABELS: Record<TripStatus, string> = {
+  pending: "Pending",
+  accepted: "Accepted",
+  in_progress: "In Progress",
+  completed: "Completed",
+  cancelled: "Cancelled"
+};
+
+/** Allowed changes by the status a trip is in; completed and cancelled trips are final */
+export const TRIP_TRANSITIONS: Record<TripStatus, Partial<Record<TripStatus, TripStatusActor[]>>> = {
+  pending: {
+    accepted: ["admin", "driver", "system"],
+    cancelled: ["admin", "customer", "system"]
+  },
+  accepted: {
+    pending: ["admin", "system"],
+    in_progress: ["admin", "driver"],
+    cancelled: ["admin", "customer", "system"]
+  },
+  in_progress: {
+    completed: ["admin", "driver"],
+    cancelled: ["admin"]
+  },
+  completed: {},
+  cancelled: {}
+};
+
+/** Statuses a driver can be assigned in; assigning a pending trip accepts it */
+export const DRIVER_ASSIGNABLE_STATUSES: TripStatus[] = ["pending", "accepted"];
+
+/** The actor a `users.user_role` changes statuses as; drivers are partners */
+export function tripStatusActorFor(userRole?: string | null): TripStatusActor | null {
+  switch (userRole) {
+    case "admin": return "admin";
+    case "partner": return "driver";
+    case "customer": return "customer";
+    default: return null;
+  }
+}
+
+export function isTripStatus(value: unknown): value is TripStatus {
+  return typeof value === "string" && (TRIP_STATUSES as string[]).includes(value);
+}
+
+export function canTransitionTrip(from: TripStatus, to: TripStatus, actor: TripStatusActor): boolean {
+  return !!TRIP_TRANSITIONS[from]?.[to]?.includes(actor);
+}
+
+/** The statuses an actor can move a trip to from its current status */
+export function allowedTripTransitions(from: TripStatus, actor: TripStatusActor): TripStatus[] {
+  return TRIP_STATUSES.filter(to => canTransitionTrip(from, to, actor));
+}
+
+const ACTOR_LABELS: Record<TripStatusActor, string> = {
+  admin: "an admin",
+  driver: "the driver",
+  customer: "the customer",
+  system: "the system"
+};
+
+/** Why a change is refused, or null when it is allowed */
+export function tripTransitionError(from: TripStatus, to: TripStatus, actor: TripStatusActor): string | null {
+  if (from === to) return `Booking is already ${TRIP_STATUS_LABELS[to].toLowerCase()}`;
+  if (canTransitionTrip(from, to, actor)) return null;
+
+  const change = `from ${TRIP_STATUS_LABELS[from].toLowerCase()} to ${TRIP_STATUS_LABELS[to].toLowerCase()}`;
+  return TRIP_TRANSITIONS[from]?.[to]
+    ? `A booking cannot be moved ${change} by ${ACTOR_LABELS[actor]}`
+    : `A booking cannot be moved ${change}`;
+}
+
+/** A recorded status change, from `trip_status_transitions` */
+export interface TripStatusTransition {
+  id: string;
+  trip_id: string;
+  /** Null for the status the trip was created with */
+  from_status: TripStatus | null;
+  to_status: TripStatus;
+  changed_by: string | null;
+  actor_role: TripStatusActor | null;
+  reason: string | null;
+  created_at: string;
+  actor?: { name: string | null; email: string | null } | null;
+}
\ No newline at end of file
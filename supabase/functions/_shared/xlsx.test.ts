@@ -0,0 +1,46 @@
+import { strictEqual } from "node:assert/strict";
+import { buildWorkbook } from "./xlsx.ts";
+
+// Entries are stored without compression, so each part can be read straight from the file
+const readPart = (workbook: Uint8Array, name: string) => {
+  const text = new TextDecoder().decode(workbook);
+  // The file name in the entry's header is followed directly by its content
+  const start = text.indexOf(`${name}<?xml`) + name.length;
+  return text.slice(start, text.indexOf("PK", start));
+};
+
+Deno.test("header cells use the bold header style", () => {
+  const workbook = buildWorkbook([{
+    name: "Bookings",
+    columns: [{ header: "Reference" }, { header: "Amount", numFmt: "#,##0.00" }],
+    rows: [["RT-1001", 42.5]]
+  }]);
+  const sheet = readPart(workbook, "xl/worksheets/sheet1.xml");
+  const header = sheet.match(/<row r="1">(.*?)<\/row>/)?.[1] || "";
+
+  strictEqual(header.match(/<c /g)?.length, 2);
+  strictEqual(header.match(/<c [^>]*s="1"/g)?.length, 2);
+});
+
+Deno.test("string and boolean cells keep their column's style", () => {
+  const workbook = buildWorkbook([{
+    name: "Bookings",
+    columns: [{ header: "Note", numFmt: "@" }, { header: "Paid", numFmt: "@" }],
+    rows: [["Late flight", true]]
+  }]);
+  const sheet = readPart(workbook, "xl/worksheets/sheet1.xml");
+
+  strictEqual(sheet.includes('<c r="A2" s="2" t="inlineStr">'), true);
+  strictEqual(sheet.includes('<c r="B2" s="2" t="b">'), true);
+});
+
+Deno.test("characters XML does not allow are dropped from text", () => {
+  const workbook = buildWorkbook([{
+    name: "Bookings",
+    columns: [{ header: "Note" }],
+    rows: [["Bell\u0007 tab\t line\nbreak \uFFFE emoji \u{1F695} & done"]]
+  }]);
+  const sheet = readPart(workbook, "xl/worksheets/sheet1.xml");
+
+  strictEqual(sheet.includes("Bell tab\t line\nbreak  emoji \u{1F695} &amp; done"), true);
+});
\ No newline at end of file
@@ -0,0 +1,233 @@
+// A small XLSX (Office Open XML spreadsheet) writer with no dependencies, so
+// workbooks can be built in edge functions. Covers what exports need: several
+// sheets, a bold frozen header row with filters, column widths and number
+// formats for dates and amounts. Files are zipped without compression.
+
+export type CellValue = string | number | boolean | null | undefined;
+
+export interface WorksheetColumn {
+  header: string;
+  /** Width in characters */
+  width?: number;
+  /** Excel number format for numeric cells, e.g. `yyyy-mm-dd hh:mm` */
+  numFmt?: string;
+}
+
+export interface Worksheet {
+  name: string;
+  columns: WorksheetColumn[];
+  rows: CellValue[][];
+}
+
+export const XLSX_MIME_TYPE = "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+
+/** Days between Excel's epoch (1899-12-30) and 1970-01-01 */
+const EXCEL_EPOCH_OFFSET = 25569;
+
+/**
+ * Excel serial number for a wall-clock date and time, which Excel stores
+ * without a time zone. `date` is YYYY-MM-DD, `minutes` past midnight.
+ */
+export function excelSerialDate(date: string, minutes = 0): number {
+  const [year, month, day] = date.split("-").map(Number);
+  return Date.UTC(year, month - 1, day) / 86_400_000 + EXCEL_EPOCH_OFFSET + minutes / 1440;
+}
+
+// Characters XML 1.0 does not allow, even escaped: anything outside its Char
+// production, i.e. control characters other than tab and line breaks, and U+FFFE and U+FFFF
+const INVALID_XML_CHARS = /[^\t\n\r\u0020-\uFFFD\u{10000}-\u{10FFFF}]/gu;
+
+const escapeXml = (value: string) =>
+  value
+    .replace(INVALID_XML_CHARS, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+/** Column letters for a zero-based index: 0 → A, 26 → AA */
+export function columnName(index: number): string {
+  let name = "";
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + (n - 1) % 26) + name;
+  }
+  return name;
+}
+
+/** Sheet names are at most 31 characters, unique and without []:*?/\ */
+const sheetNames = (sheets: Worksheet[]) => {
+  const used = new Set<string>();
+  return sheets.map((sheet, index) => {
+    const base = sheet.name.replace(/[[\]:*?/\\]/g, " ").trim().slice(0, 31) || `Sheet${index + 1}`;
+    let name = base;
+    for (let n = 2; used.has(name.toLowerCase()); n++) {
+      name = `${base.slice(0, 31 - String(n).length - 1)} ${n}`;
+    }
+    used.add(name.toLowerCase());
+    return name;
+  });
+};
+
+// Style 0 is the default, 1 the header; each number format gets its own style after that
+const buildStyles = (numFmts: string[]) => `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">${
+  numFmts.length > 0
+    ? `<numFmts count="${numFmts.length}">${numFmts.map((fmt, i) => `<numFmt numFmtId="${164 + i}" formatCode="${escapeXml(fmt)}"/>`).join("")}</numFmts>`
+    : ""
+}<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>
+<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>
+<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>
+<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>
+<cellXfs count="${2 + numFmts.length}"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>${
+  numFmts.map((_, i) => `<xf numFmtId="${164 + i}" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>`).join("")
+}</cellXfs>
+</styleSheet>`;
+
+const buildCell = (ref: string, value: CellValue, style: number) => {
+  if (value === null || value === undefined || value === "") return "";
+  const s = style ? ` s="${style}"` : "";
+  if (typeof value === "number") {
+    return Number.isFinite(value) ? `<c r="${ref}"${s}><v>${value}</v></c>` : "";
+  }
+  if (typeof value === "boolean") {
+    return `<c r="${ref}"${s} t="b"><v>${value ? 1 : 0}</v></c>`;
+  }
+  return `<c r="${ref}"${s} t="inlineStr"><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`;
+};
+
+const buildSheet = (sheet: Worksheet, styleOf: (numFmt?: string) => number) => {
+  const lastColumn = columnName(Math.max(sheet.columns.length - 1, 0));
+  const styles = sheet.columns.map(column => styleOf(column.numFmt));
+
+  const header = `<row r="1">${sheet.columns.map((column, c) => buildCell(`${columnName(c)}1`, column.header, 1)).join("")}</row>`;
+  const rows = sheet.rows.map((row, r) =>
+    `<row r="${r + 2}">${sheet.columns.map((_, c) => buildCell(`${columnName(c)}${r + 2}`, row[c], styles[c])).join("")}</row>`
+  );
+
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+<dimension ref="A1:${lastColumn}${sheet.rows.length + 1}"/>
+<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>
+<cols>${sheet.columns.map((column, c) => `<col min="${c + 1}" max="${c + 1}" width="${column.width || Math.max(column.header.length + 2, 10)}" customWidth="1"/>`).join("")}</cols>
+<sheetData>${header}${rows.join("")}</sheetData>
+<autoFilter ref="A1:${lastColumn}${sheet.rows.length + 1}"/>
+</worksheet>`;
+};
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (data: Uint8Array) => {
+  let crc = 0xFFFFFFFF;
+  for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xFF] ^ (crc >>> 8);
+  return (crc ^ 0xFFFFFFFF) >>> 0;
+};
+
+/** A zip archive of the given files, stored without compression */
+const zipStored = (files: { name: string; data: Uint8Array }[]): Uint8Array => {
+  const encoder = new TextEncoder();
+  const chunks: Uint8Array[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const file of files) {
+    const name = encoder.encode(file.name);
+    const crc = crc32(file.data);
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034B50, true);
+    local.setUint16(4, 20, true);
+    local.setUint16(8, 0, true); // stored
+    local.setUint32(14, crc, true);
+    local.setUint32(18, file.data.length, true);
+    local.setUint32(22, file.data.length, true);
+    local.setUint16(26, name.length, true);
+    chunks.push(new Uint8Array(local.buffer), name, file.data);
+
+    const entry = new DataView(new ArrayBuffer(46));
+    entry.setUint32(0, 0x02014B50, true);
+    entry.setUint16(4, 20, true);
+    entry.setUint16(6, 20, true);
+    entry.setUint32(16, crc, true);
+    entry.setUint32(20, file.data.length, true);
+    entry.setUint32(24, file.data.length, true);
+    entry.setUint16(28, name.length, true);
+    entry.setUint32(42, offset, true);
+    central.push(new Uint8Array(entry.buffer), name);
+
+    offset += 30 + name.length + file.data.length;
+  }
+
+  const centralSize = central.reduce((sum, chunk) => sum + chunk.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054B50, true);
+  end.setUint16(8, files.length, true);
+  end.setUint16(10, files.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  const parts = [...chunks, ...central, new Uint8Array(end.buffer)];
+  const output = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let position = 0;
+  for (const part of parts) {
+    output.set(part, position);
+    position += part.length;
+  }
+  return output;
+};
+
+/** Builds an .xlsx file with one worksheet per sheet, in order */
+export function buildWorkbook(sheets: Worksheet[]): Uint8Array {
+  const encoder = new TextEncoder();
+  const names = sheetNames(sheets);
+
+  const numFmts: string[] = [];
+  const styleOf = (numFmt?: string) => {
+    if (!numFmt) return 0;
+    if (!numFmts.includes(numFmt)) numFmts.push(numFmt);
+    return 2 + numFmts.indexOf(numFmt);
+  };
+
+  // Sheets are built first so every number format is known for the styles
+  const worksheets = sheets.map(sheet => buildSheet(sheet, styleOf));
+
+  const files: { name: string; content: string }[] = [
+    {
+      name: "[Content_Types].xml",
+      content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/><Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>${
+  worksheets.map((_, i) => `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`).join("")
+}</Types>`
+    },
+    {
+      name: "_rels/.rels",
+      content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/></Relationships>`
+    },
+    {
+      name: "xl/workbook.xml",
+      content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets>${
+  names.map((name, i) => `<sheet name="${escapeXml(name)}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`).join("")
+}</sheets></workbook>`
+    },
+    {
+      name: "xl/_rels/workbook.xml.rels",
+      content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">${
+  worksheets.map((_, i) => `<Relationship Id="rId${i + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`).join("")
+}<Relationship Id="rId${worksheets.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/></Relationships>`
+    },
+    { name: "xl/styles.xml", content: buildStyles(numFmts) },
+    ...worksheets.map((content, i) => ({ name: `xl/worksheets/sheet${i + 1}.xml`, content }))
+  ];
+
+  return zipStored(files.map(file => ({ name: file.name, data: encoder.encode(file.content) })));
+}
\ No newline at end of file
@@ -0,0 +1,374 @@
+// Validation of zone boundaries and of how the zones cover the service area.
+// Overlapping zones make the zone of an address ambiguous (the first match
+// wins) and gaps leave addresses outside every zone, so both are reported
+// before boundaries are saved.
+
+import { isPointInBoundary, type GeoJsonPosition, type LatLng, type ZoneBoundary, type ZoneGeometry } from "./geo.ts";
+
+export interface ZoneCoverageIssue {
+  type: "overlap" | "gap";
+  /** The zones involved: the overlapping pair, or the zones around a gap */
+  zoneIds: string[];
+  /** A location in or next to the problem area */
+  point: LatLng;
+  /** Approximate size of a gap enclosed by zones */
+  areaKm2?: number;
+}
+
+export interface ZoneCoverageOptions {
+  /** Borders closer than this without touching are reported as gaps, in km */
+  gapToleranceKm?: number;
+  /** Grid cells along the longer side when sampling for enclosed gaps */
+  gridSize?: number;
+}
+
+// Positions projected onto a local plane, in km
+type Point = [number, number];
+type Segment = [Point, Point];
+
+interface ProjectedZone {
+  zone: ZoneGeometry & { boundary: ZoneBoundary };
+  polygons: Point[][][];
+  edges: Segment[];
+  bbox: [number, number, number, number];
+}
+
+const KM_PER_DEGREE_LAT = 110.574;
+const KM_PER_DEGREE_LNG = 111.32;
+// Distances below this count as touching (1 m)
+const TOUCH_KM = 0.001;
+const EPSILON = 1e-12;
+
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+
+const isValidPosition = (position: unknown): position is GeoJsonPosition =>
+  Array.isArray(position) &&
+  position.length >= 2 &&
+  Number.isFinite(position[0]) &&
+  Number.isFinite(position[1]) &&
+  Math.abs(position[0]) <= 180 &&
+  Math.abs(position[1]) <= 90;
+
+const polygonsOf = (boundary: ZoneBoundary): GeoJsonPosition[][][] =>
+  boundary.type === "Polygon" ? [boundary.coordinates] : boundary.coordinates;
+
+const cross = (o: Point, a: Point, b: Point) =>
+  (a[0] - o[0]) * (b[1] - o[1]) - (a[1] - o[1]) * (b[0] - o[0]);
+
+// Where two segments cross each other; touching or collinear segments do not count
+function properIntersection([p1, p2]: Segment, [q1, q2]: Segment): Point | null {
+  const d1 = cross(q1, q2, p1);
+  const d2 = cross(q1, q2, p2);
+  const d3 = cross(p1, p2, q1);
+  const d4 = cross(p1, p2, q2);
+
+  const straddles = (a: number, b: number) => (a > EPSILON && b < -EPSILON) || (a < -EPSILON && b > EPSILON);
+  if (!straddles(d1, d2) || !straddles(d3, d4)) return null;
+
+  const t = d1 / (d1 - d2);
+  return [p1[0] + t * (p2[0] - p1[0]), p1[1] + t * (p2[1] - p1[1])];
+}
+
+function distanceToSegment(point: Point, [a, b]: Segment): number {
+  const dx = b[0] - a[0];
+  const dy = b[1] - a[1];
+  const lengthSquared = dx * dx + dy * dy;
+  const t = lengthSquared === 0
+    ? 0
+    : Math.max(0, Math.min(1, ((point[0] - a[0]) * dx + (point[1] - a[1]) * dy) / lengthSquared));
+
+  return Math.hypot(point[0] - (a[0] + t * dx), point[1] - (a[1] + t * dy));
+}
+
+const ringSegments = <T>(ring: T[]): [T, T][] =>
+  ring.slice(0, -1).map((position, index) => [position, ring[index + 1]]);
+
+function isSelfIntersecting(ring: GeoJsonPosition[]): boolean {
+  const segments = ringSegments(ring.map(([lng, lat]) => [lng, lat] as Point));
+
+  for (let i = 0; i < segments.length; i++) {
+    for (let j = i + 2; j < segments.length; j++) {
+      // The first and last segments share the closing vertex
+      if (i === 0 && j === segments.length - 1) continue;
+      if (properIntersection(segments[i], segments[j])) return true;
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Checks that a boundary is a well-formed GeoJSON Polygon or MultiPolygon:
+ * closed rings of at least three points, valid coordinates and no ring
+ * crossing itself. Returns the problems found; an empty list means valid.
+ */
+export function validateZoneBoundary(boundary: unknown): string[] {
+  const geometry = boundary as ZoneBoundary | null;
+
+  if (!geometry || typeof geometry !== "object" || (geometry.type !== "Polygon" && geometry.type !== "MultiPolygon")) {
+    return ["Boundary must be a GeoJSON Polygon or MultiPolygon"];
+  }
+  if (!Array.isArray(geometry.coordinates) || geometry.coordinates.length === 0) {
+    return ["Boundary has no coordinates"];
+  }
+
+  const errors: string[] = [];
+  const polygons = polygonsOf(geometry);
+
+  polygons.forEach((rings, polygonIndex) => {
+    const prefix = polygons.length > 1 ? `polygon ${polygonIndex + 1}, ` : "";
+
+    if (!Array.isArray(rings) || rings.length === 0) {
+      errors.push(capitalize(`${prefix}no rings`));
+      return;
+    }
+
+    rings.forEach((ring, ringIndex) => {
+      const label = capitalize(`${prefix}${ringIndex === 0 ? "outer ring" : `hole ${ringIndex}`}`);
+
+      if (!Array.isArray(ring) || ring.length < 4) {
+        errors.push(`${label} needs at least 3 points`);
+      } else if (!ring.every(isValidPosition)) {
+        errors.push(`${label} has invalid coordinates`);
+      } else if (ring[0][0] !== ring[ring.length - 1][0] || ring[0][1] !== ring[ring.length - 1][1]) {
+        errors.push(`${label} is not closed`);
+      } else if (isSelfIntersecting(ring)) {
+        errors.push(`${label} crosses itself`);
+      }
+    });
+  });
+
+  return errors;
+}
+
+// Equirectangular projection around the middle of the zones, accurate enough
+// for distances within a city or region
+function createProjection(zones: ZoneGeometry[]) {
+  const latitudes = zones.flatMap(zone =>
+    zone.boundary ? polygonsOf(zone.boundary).flat(2).map(([, lat]) => lat) : []
+  );
+  const referenceLat = latitudes.length
+    ? (Math.min(...latitudes) + Math.max(...latitudes)) / 2
+    : 0;
+  const kmPerDegreeLng = KM_PER_DEGREE_LNG * Math.cos(referenceLat * Math.PI / 180);
+
+  return {
+    project: ([lng, lat]: GeoJsonPosition): Point => [lng * kmPerDegreeLng, lat * KM_PER_DEGREE_LAT],
+    unproject: ([x, y]: Point): LatLng => ({ lat: y / KM_PER_DEGREE_LAT, lng: x / kmPerDegreeLng })
+  };
+}
+
+/**
+ * Finds overlapping zones and gaps between them. Zones without a valid
+ * boundary are skipped.
+ *
+ * Overlaps are found exactly. Gaps are found in two ways: borders that come
+ * closer than the tolerance without touching (slivers left when drawing
+ * neighbouring zones), and uncovered areas fully enclosed by zones, which
+ * are sampled on a grid and so may miss very small holes.
+ */
+export function checkZoneCoverage(zones: ZoneGeometry[], options: ZoneCoverageOptions = {}): ZoneCoverageIssue[] {
+  const { gapToleranceKm = 0.2, gridSize = 80 } = options;
+
+  const drawn = zones.filter(
+    (zone): zone is ZoneGeometry & { boundary: ZoneBoundary } =>
+      !!zone.boundary && validateZoneBoundary(zone.boundary).length === 0
+  );
+  if (drawn.length === 0) return [];
+
+  const { project, unproject } = createProjection(drawn);
+
+  const projected: ProjectedZone[] = drawn.map(zone => {
+    const polygons = polygonsOf(zone.boundary).map(rings => rings.map(ring => ring.map(project)));
+    const points = polygons.flat(2);
+
+    return {
+      zone,
+      polygons,
+      edges: polygons.flatMap(rings => rings.flatMap(ring => ringSegments(ring))),
+      bbox: [
+        Math.min(...points.map(p => p[0])),
+        Math.min(...points.map(p => p[1])),
+        Math.max(...points.map(p => p[0])),
+        Math.max(...points.map(p => p[1]))
+      ]
+    };
+  });
+
+  const distanceToBoundary = (zone: ProjectedZone, point: Point) =>
+    Math.min(...zone.edges.map(edge => distanceToSegment(point, edge)));
+
+  const contains = (zone: ProjectedZone, point: Point) =>
+    point[0] >= zone.bbox[0] && point[0] <= zone.bbox[2] &&
+    point[1] >= zone.bbox[1] && point[1] <= zone.bbox[3] &&
+    isPointInBoundary(unproject(point), zone.zone.boundary);
+
+  const containsStrictly = (zone: ProjectedZone, point: Point) =>
+    contains(zone, point) && distanceToBoundary(zone, point) > TOUCH_KM;
+
+  // Points well inside a zone: the vertex average and the centroids of a
+  // triangle fan over each outer ring
+  const interiorSamples = (zone: ProjectedZone): Point[] =>
+    zone.polygons.flatMap(([outer]) => {
+      const vertices = outer.slice(0, -1);
+      const average: Point = [
+        vertices.reduce((sum, p) => sum + p[0], 0) / vertices.length,
+        vertices.reduce((sum, p) => sum + p[1], 0) / vertices.length
+      ];
+      const fan = vertices.slice(1, -1).map((p, index): Point => [
+        (vertices[0][0] + p[0] + vertices[index + 2][0]) / 3,
+        (vertices[0][1] + p[1] + vertices[index + 2][1]) / 3
+      ]);
+      return [average, ...fan];
+    }).filter(point => containsStrictly(zone, point));
+
+  const findOverlap = (a: ProjectedZone, b: ProjectedZone): Point | null => {
+    for (const edgeA of a.edges) {
+      for (const edgeB of b.edges) {
+        const crossing = properIntersection(edgeA, edgeB);
+        if (crossing) return crossing;
+      }
+    }
+
+    // No crossing borders: one zone may still lie inside the other
+    return interiorSamples(a).find(point => containsStrictly(b, point)) ||
+      interiorSamples(b).find(point => containsStrictly(a, point)) ||
+      null;
+  };
+
+  // The vertex of either zone closest to the other without touching it
+  const findSliver = (a: ProjectedZone, b: ProjectedZone): Point | null => {
+    let closest: { distance: number; point: Point } | null = null;
+
+    for (const [from, to] of [[a, b], [b, a]]) {
+      for (const point of from.polygons.flat(2)) {
+        const distance = distanceToBoundary(to, point);
+        if (distance <= TOUCH_KM || distance >= gapToleranceKm || contains(to, point)) continue;
+        if (!closest || distance < closest.distance) closest = { distance, point };
+      }
+    }
+
+    return closest?.point || null;
+  };
+
+  const issues: ZoneCoverageIssue[] = [];
+
+  for (let i = 0; i < projected.length; i++) {
+    for (let j = i + 1; j < projected.length; j++) {
+      const a = projected[i];
+      const b = projected[j];
+
+      const apart =
+        a.bbox[0] > b.bbox[2] + gapToleranceKm || b.bbox[0] > a.bbox[2] + gapToleranceKm ||
+        a.bbox[1] > b.bbox[3] + gapToleranceKm || b.bbox[1] > a.bbox[3] + gapToleranceKm;
+      if (apart) continue;
+
+      const overlap = findOverlap(a, b);
+      if (overlap) {
+        issues.push({ type: "overlap", zoneIds: [a.zone.id, b.zone.id], point: unproject(overlap) });
+        continue;
+      }
+
+      const sliver = findSliver(a, b);
+      if (sliver) {
+        issues.push({ type: "gap", zoneIds: [a.zone.id, b.zone.id], point: unproject(sliver) });
+      }
+    }
+  }
+
+  issues.push(...findEnclosedGaps(projected, contains, unproject, gridSize));
+
+  return issues;
+}
+
+// Samples the area covered by the zones on a grid. Uncovered cells that do
+// not connect to the edge of the grid are holes enclosed by zones.
+function findEnclosedGaps(
+  zones: ProjectedZone[],
+  contains: (zone: ProjectedZone, point: Point) => boolean,
+  unproject: (point: Point) => LatLng,
+  gridSize: number
+): ZoneCoverageIssue[] {
+  const minX = Math.min(...zones.map(zone => zone.bbox[0]));
+  const minY = Math.min(...zones.map(zone => zone.bbox[1]));
+  const maxX = Math.max(...zones.map(zone => zone.bbox[2]));
+  const maxY = Math.max(...zones.map(zone => zone.bbox[3]));
+
+  const cellSize = Math.max(maxX - minX, maxY - minY) / gridSize;
+  if (!(cellSize > 0)) return [];
+
+  const columns = Math.max(1, Math.ceil((maxX - minX) / cellSize));
+  const rows = Math.max(1, Math.ceil((maxY - minY) / cellSize));
+  const center = (row: number, column: number): Point => [
+    minX + (column + 0.5) * cellSize,
+    minY + (row + 0.5) * cellSize
+  ];
+
+  // Index of the zone covering each cell, or -1
+  const cover: number[] = [];
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      const point = center(row, column);
+      cover.push(zones.findIndex(zone => contains(zone, point)));
+    }
+  }
+
+  const visited = new Set<number>();
+  const gaps: ZoneCoverageIssue[] = [];
+
+  for (let start = 0; start < cover.length; start++) {
+    if (cover[start] >= 0 || visited.has(start)) continue;
+
+    // Flood fill the uncovered area containing this cell
+    const cells: number[] = [];
+    const neighbours = new Set<number>();
+    let enclosed = true;
+    const stack = [start];
+    visited.add(start);
+
+    while (stack.length > 0) {
+      const cell = stack.pop()!;
+      const row = Math.floor(cell / columns);
+      const column = cell % columns;
+      cells.push(cell);
+
+      if (row === 0 || column === 0 || row === rows - 1 || column === columns - 1) enclosed = false;
+
+      const adjacent = [
+        row > 0 ? cell - columns : -1,
+        row < rows - 1 ? cell + columns : -1,
+        column > 0 ? cell - 1 : -1,
+        column < columns - 1 ? cell + 1 : -1
+      ];
+
+      for (const next of adjacent) {
+        if (next < 0) continue;
+        if (cover[next] >= 0) {
+          neighbours.add(cover[next]);
+        } else if (!visited.has(next)) {
+          visited.add(next);
+          stack.push(next);
+        }
+      }
+    }
+
+    if (!enclosed) continue;
+
+    // Report the cell nearest the middle of the gap
+    const meanRow = cells.reduce((sum, cell) => sum + Math.floor(cell / columns), 0) / cells.length;
+    const meanColumn = cells.reduce((sum, cell) => sum + cell % columns, 0) / cells.length;
+    const middle = cells.reduce((best, cell) =>
+      Math.hypot(Math.floor(cell / columns) - meanRow, cell % columns - meanColumn) <
+      Math.hypot(Math.floor(best / columns) - meanRow, best % columns - meanColumn) ? cell : best
+    );
+
+    gaps.push({
+      type: "gap",
+      zoneIds: [...neighbours].map(index => zones[index].zone.id),
+      point: unproject(center(Math.floor(middle / columns), middle % columns)),
+      areaKm2: Math.round(cells.length * cellSize * cellSize * 1000) / 1000
+    });
+  }
+
+  return gaps;
+}
\ No newline at end of file
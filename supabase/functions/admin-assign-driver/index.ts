@@ -3,6 +3,16 @@
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "npm:@supabase/supabase-js@2.38.4";
+import {
+  COMMITTED_TRIP_STATUSES,
+  describeConflicts,
+  findScheduleConflicts,
+  scheduleSettingsFrom,
+  toScheduleConflict,
+  tripWindow
+} from "../_shared/driverSchedule.ts";
+import { OPEN_OFFER_STATUSES } from "../_shared/tripOffers.ts";
+import { DRIVER_ASSIGNABLE_STATUSES, type TripStatus } from "../_shared/tripStatus.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -75,7 +85,8 @@ serve(async (req) => {
     }
 
     // Parse request body
-    const { bookingId, driverId } = await req.json();
+    // force assigns despite overlapping trips when the conflict policy only warns
+    const { bookingId, driverId, force } = await req.json();
 
     if (!bookingId || !driverId) {
       return new Response(
@@ -104,21 +115,135 @@ serve(async (req) => {
       );
     }
 
-    // Update the booking with the driver's user ID
-    const { data: updatedBooking, error } = await supabaseClient
+    // Check the driver's other trips for overlaps
+    const { data: booking, error: bookingError } = await supabaseClient
       .from("trips")
-      .update({ 
-        driver_id: driverData.user_id,
-        status: "accepted" // Optionally change status
-      })
+      .select("id, booking_reference, status, datetime, estimated_duration_min")
       .eq("id", bookingId)
-      .select()
       .single();
 
+    if (bookingError || !booking) {
+      return new Response(
+        JSON.stringify({ error: "Booking not found" }),
+        {
+          status: 404,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    if (!DRIVER_ASSIGNABLE_STATUSES.includes(booking.status as TripStatus)) {
+      return new Response(
+        JSON.stringify({ error: `Cannot assign a driver to a ${booking.status.replace("_", " ")} booking` }),
+        {
+          status: 409,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const { data: settingsRow } = await supabaseClient
+      .from("platform_settings")
+      .select("schedule_buffer_min, schedule_conflict_policy")
+      .limit(1)
+      .maybeSingle();
+
+    const schedule = scheduleSettingsFrom(settingsRow);
+    const bookingWindow = tripWindow(booking, schedule.bufferMin);
+
+    // Trips starting up to a day earlier can still be running at pickup
+    const { data: driverTrips, error: driverTripsError } = await supabaseClient
+      .from("trips")
+      .select("id, booking_reference, datetime, estimated_duration_min")
+      .eq("driver_id", driverData.user_id)
+      .in("status", COMMITTED_TRIP_STATUSES)
+      .neq("id", bookingId)
+      .gte("datetime", new Date(bookingWindow.start - 24 * 60 * 60 * 1000).toISOString())
+      .lt("datetime", new Date(bookingWindow.end).toISOString());
+
+    if (driverTripsError) {
+      throw driverTripsError;
+    }
+
+    const conflicts = findScheduleConflicts(booking, driverTrips || [], schedule.bufferMin).map(toScheduleConflict);
+
+    if (conflicts.length > 0 && (schedule.policy === "block" || !force)) {
+      return new Response(
+        JSON.stringify({
+          error: `Driver has an overlapping trip: ${describeConflicts(conflicts)}`,
+          conflicts,
+          canOverride: schedule.policy === "warn"
+        }),
+        {
+          status: 409,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // Update the booking with the driver's user ID, unless its status changed since it was read
+    const { data: assigned, error } = await supabaseClient
+      .from("trips")
+      .update({ driver_id: driverData.user_id })
+      .eq("id", bookingId)
+      .in("status", DRIVER_ASSIGNABLE_STATUSES)
+      .select("id");
+
     if (error) {
       throw error;
     }
 
+    if (!assigned || assigned.length === 0) {
+      return new Response(
+        JSON.stringify({ error: "Booking status changed; it can no longer be assigned" }),
+        {
+          status: 409,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // Accepting goes through the state machine so the status history names the admin
+    if (booking.status === "pending") {
+      const { error: statusError } = await supabaseClient.rpc("transition_trip_status", {
+        p_trip_id: bookingId,
+        p_status: "accepted",
+        p_actor: userData.user.id,
+        p_role: "admin"
+      });
+
+      if (statusError) {
+        // Raised for transitions the state machine does not allow
+        if (statusError.code === "P0001") {
+          return new Response(
+            JSON.stringify({ error: statusError.message }),
+            {
+              status: 409,
+              headers: { ...corsHeaders, "Content-Type": "application/json" },
+            }
+          );
+        }
+        throw statusError;
+      }
+    }
+
+    const { data: updatedBooking, error: fetchError } = await supabaseClient
+      .from("trips")
+      .select()
+      .eq("id", bookingId)
+      .single();
+
+    if (fetchError) {
+      throw fetchError;
+    }
+
+    // Offers still open for the trip are withdrawn
+    await supabaseClient
+      .from("trip_offers")
+      .update({ status: "cancelled", responded_at: new Date().toISOString() })
+      .eq("trip_id", bookingId)
+      .in("status", OPEN_OFFER_STATUSES);
+
     // Log the activity
     await supabaseClient.from("booking_activity_logs").insert({
       booking_id: bookingId,
@@ -127,6 +252,7 @@ serve(async (req) => {
       details: { 
         driver_id: driverId,
         driver_user_id: driverData.user_id,
+        schedule_conflicts: conflicts.length > 0 ? conflicts : undefined,
         timestamp: new Date().toISOString()
       },
       created_at: new Date().toISOString()
@@ -0,0 +1,229 @@
+import { createClient } from "npm:@supabase/supabase-js@2.39.0";
+import {
+  COMMITTED_TRIP_STATUSES,
+  describeConflicts,
+  findScheduleConflicts,
+  scheduleSettingsFrom,
+  toScheduleConflict,
+  tripWindow,
+  type ScheduleConflict,
+  type ScheduledTrip
+} from "../_shared/driverSchedule.ts";
+import { quoteBookingCancellations } from "../_shared/bookingCancellations.ts";
+import { normalizeBulkRequest, type BulkBookingResult } from "../_shared/bulkBookings.ts";
+import { createNotificationProviders } from "../_shared/notifications.ts";
+import { deliverReminder } from "../_shared/reminders.ts";
+import { DEFAULT_REMINDER_TEMPLATE, type ReminderDelivery } from "../_shared/reminderTemplates.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization",
+};
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 204,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    // Get authorization header
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: "Authorization header required" }),
+        {
+          status: 401,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const token = authHeader.replace("Bearer ", "");
+    
+    // Create Supabase admin client
+    const supabaseAdmin = createClient(
+      Deno.env.get("SUPABASE_URL") || "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") || "",
+      {
+        auth: {
+          persistSession: false,
+        }
+      }
+    );
+
+    // Verify the JWT token
+    const { data: { user }, error: authError } = await supabaseAdmin.auth.getUser(token);
+    
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({ error: "Invalid or expired token", details: authError }),
+        {
+          status: 401,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // Check if user is admin
+    const { data: userData, error: userError } = await supabaseAdmin
+      .from("users")
+      .select("user_role")
+      .eq("id", user.id)
+      .single();
+      
+    if (userError || userData?.user_role !== "admin") {
+      return new Response(
+        JSON.stringify({ error: "Admin permissions required" }),
+        {
+          status: 403,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const { request, errors } = normalizeBulkRequest(await req.json());
+
+    if (errors.length > 0) {
+      return new Response(
+        JSON.stringify({ error: errors.join("; ") }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const params: Record<string, unknown> = {};
+    let canOverride = false;
+
+    if (request.action === "assign_driver") {
+      const { data: driver, error: driverError } = await supabaseAdmin
+        .from("drivers")
+        .select("id, user_id")
+        .eq("id", request.params.driverId)
+        .single();
+
+      if (driverError || !driver?.user_id) {
+        return new Response(
+          JSON.stringify({ error: "Driver not found" }),
+          {
+            status: 404,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          }
+        );
+      }
+
+      const { data: selected, error: selectedError } = await supabaseAdmin
+        .from("trips")
+        .select("id, booking_reference, datetime, estimated_duration_min")
+        .in("id", request.bookingIds);
+
+      if (selectedError) throw selectedError;
+
+      const { data: settingsRow } = await supabaseAdmin
+        .from("platform_settings")
+        .select("schedule_buffer_min, schedule_conflict_policy")
+        .limit(1)
+        .maybeSingle();
+
+      const schedule = scheduleSettingsFrom(settingsRow);
+      const bookings = (selected || []) as Record<string, any>[];
+      const scheduleConflicts: Record<string, { description: string; trips: ScheduleConflict[] }> = {};
+
+      if (bookings.length > 0) {
+        const windows = bookings.map(booking => tripWindow(booking as ScheduledTrip, schedule.bufferMin));
+
+        // Trips starting up to a day before the earliest booking can still be running
+        const { data: driverTrips, error: driverTripsError } = await supabaseAdmin
+          .from("trips")
+          .select("id, booking_reference, datetime, estimated_duration_min")
+          .eq("driver_id", driver.user_id)
+          .in("status", COMMITTED_TRIP_STATUSES)
+          .gte("datetime", new Date(Math.min(...windows.map(w => w.start)) - 24 * 60 * 60 * 1000).toISOString())
+          .lt("datetime", new Date(Math.max(...windows.map(w => w.end))).toISOString());
+
+        if (driverTripsError) throw driverTripsError;
+
+        // The selected bookings will all belong to the driver, so they must not overlap each other either
+        const selectedIds = new Set(bookings.map(booking => booking.id));
+        const committed = [
+          ...((driverTrips || []) as ScheduledTrip[]).filter(trip => !selectedIds.has(trip.id)),
+          ...(bookings as ScheduledTrip[])
+        ];
+
+        for (const booking of bookings) {
+          const overlapping = findScheduleConflicts(booking as ScheduledTrip, committed, schedule.bufferMin).map(toScheduleConflict);
+          if (overlapping.length > 0) {
+            scheduleConflicts[booking.id] = { description: describeConflicts(overlapping), trips: overlapping };
+          }
+        }
+      }
+
+      canOverride = schedule.policy === "warn" && Object.keys(scheduleConflicts).length > 0;
+      params.driver_id = driver.id;
+      params.schedule_conflicts = scheduleConflicts;
+      params.allow_conflicts = schedule.policy === "warn" && request.force === true;
+    } else if (request.action === "set_priority") {
+      params.priority = request.params.priority;
+    } else if (request.action === "add_tags") {
+      params.tags = request.params.tags;
+    } else if (request.action === "cancel") {
+      // Each booking is charged by the cancellation policy, as when cancelled on its own
+      params.cancellations = await quoteBookingCancellations(supabaseAdmin, request.bookingIds);
+    }
+
+    // Applies the whole batch or, if any booking fails, none of it
+    const { data: result, error: bulkError } = await supabaseAdmin.rpc("admin_bulk_update_bookings", {
+      p_booking_ids: request.bookingIds,
+      p_action: request.action,
+      p_params: params,
+      p_actor: user.id
+    });
+
+    if (bulkError) throw bulkError;
+
+    const outcome = result as BulkBookingResult;
+
+    // Reminders go out once the batch is committed; delivery failures are tracked per message
+    let deliveries: ReminderDelivery[] = [];
+    if (outcome.applied && request.action === "send_reminder") {
+      const providers = createNotificationProviders();
+      for (const row of outcome.results) {
+        deliveries = deliveries.concat(await deliverReminder(
+          supabaseAdmin,
+          { bookingId: row.bookingId, template: DEFAULT_REMINDER_TEMPLATE, recipients: ["customer"], channels: ["email"] },
+          user.id,
+          { providers }
+        ));
+      }
+    }
+
+    // Failed rows are reported in the results rather than as an error status
+    return new Response(
+      JSON.stringify({
+        ...outcome,
+        canOverride: canOverride && !outcome.applied,
+        undelivered: deliveries.filter(delivery => delivery.status === "failed").length
+      }),
+      {
+        status: 200,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  } catch (error) {
+    console.error("Error in admin-bulk-update-bookings:", error);
+
+    return new Response(
+      JSON.stringify({ error: "Failed to update bookings", details: error.message }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  }
+});
\ No newline at end of file
@@ -0,0 +1,162 @@
+import { createClient } from "npm:@supabase/supabase-js@2.39.0";
+import { quoteBookingCancellations } from "../_shared/bookingCancellations.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization",
+};
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 204,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    // Get authorization header
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: "Authorization header required" }),
+        {
+          status: 401,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const token = authHeader.replace("Bearer ", "");
+    
+    // Create Supabase admin client
+    const supabaseAdmin = createClient(
+      Deno.env.get("SUPABASE_URL") || "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") || "",
+      {
+        auth: {
+          persistSession: false,
+        }
+      }
+    );
+
+    // Verify the JWT token
+    const { data: { user }, error: authError } = await supabaseAdmin.auth.getUser(token);
+    
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({ error: "Invalid or expired token", details: authError }),
+        {
+          status: 401,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // Check if user is admin
+    const { data: userData, error: userError } = await supabaseAdmin
+      .from("users")
+      .select("user_role")
+      .eq("id", user.id)
+      .single();
+      
+    if (userError || userData?.user_role !== "admin") {
+      return new Response(
+        JSON.stringify({ error: "Admin permissions required" }),
+        {
+          status: 403,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const { bookingId, preview, feeOverride: rawFeeOverride, reason } = await req.json();
+
+    const errors: string[] = [];
+    if (!bookingId) errors.push("Missing required parameter: bookingId");
+
+    const feeOverride = rawFeeOverride === undefined || rawFeeOverride === null || rawFeeOverride === ""
+      ? null
+      : Number(rawFeeOverride);
+    if (feeOverride !== null && (!Number.isFinite(feeOverride) || feeOverride < 0)) {
+      errors.push("The cancellation fee cannot be negative");
+    }
+
+    if (errors.length > 0) {
+      return new Response(
+        JSON.stringify({ error: errors.join("; ") }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const quotes = await quoteBookingCancellations(supabaseAdmin, [bookingId], {
+      feeOverride,
+      reason: typeof reason === "string" ? reason.trim() : undefined
+    });
+    const cancellation = quotes[bookingId];
+
+    if (!cancellation) {
+      return new Response(
+        JSON.stringify({ error: "Booking not found" }),
+        {
+          status: 404,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // Lets the admin see the fee and refund before confirming
+    if (preview) {
+      return new Response(
+        JSON.stringify({ quote: cancellation }),
+        {
+          status: 200,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const { data: details, error: cancelError } = await supabaseAdmin.rpc("apply_booking_cancellation", {
+      p_trip_id: bookingId,
+      p_cancellation: cancellation,
+      p_actor: user.id
+    });
+
+    if (cancelError) {
+      // Raised for bookings that are already completed or cancelled
+      if (cancelError.code === "P0001") {
+        return new Response(
+          JSON.stringify({ error: cancelError.message }),
+          {
+            status: 409,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          }
+        );
+      }
+      throw cancelError;
+    }
+
+    return new Response(
+      JSON.stringify({ success: true, quote: cancellation, details }),
+      {
+        status: 200,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  } catch (error) {
+    console.error("Error in admin-cancel-booking:", error);
+
+    return new Response(
+      JSON.stringify({ error: "Failed to cancel booking", details: error.message }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  }
+});
\ No newline at end of file
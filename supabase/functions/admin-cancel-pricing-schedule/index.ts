@@ -0,0 +1,129 @@
+import { createClient } from "npm:@supabase/supabase-js@2.39.0";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization",
+};
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 204,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    // Get authorization header
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: "Authorization header required" }),
+        {
+          status: 401,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const token = authHeader.replace("Bearer ", "");
+    
+    // Create Supabase admin client
+    const supabaseAdmin = createClient(
+      Deno.env.get("SUPABASE_URL") || "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") || "",
+      {
+        auth: {
+          persistSession: false,
+        }
+      }
+    );
+
+    // Verify the JWT token
+    const { data: { user }, error: authError } = await supabaseAdmin.auth.getUser(token);
+    
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({ error: "Invalid or expired token", details: authError }),
+        {
+          status: 401,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // Check if user is admin
+    const { data: userData, error: userError } = await supabaseAdmin
+      .from("users")
+      .select("user_role")
+      .eq("id", user.id)
+      .single();
+      
+    if (userError || userData?.user_role !== "admin") {
+      return new Response(
+        JSON.stringify({ error: "Admin permissions required" }),
+        {
+          status: 403,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // Parse request body
+    const { scheduleId } = await req.json();
+
+    if (!scheduleId) {
+      return new Response(
+        JSON.stringify({ error: "Schedule ID is required" }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // Only sheets that have not been activated yet can be cancelled
+    const { data: schedule, error: updateError } = await supabaseAdmin
+      .from("pricing_schedules")
+      .update({ status: "cancelled" })
+      .eq("id", scheduleId)
+      .eq("status", "pending")
+      .select()
+      .maybeSingle();
+
+    if (updateError) {
+      throw updateError;
+    }
+
+    if (!schedule) {
+      return new Response(
+        JSON.stringify({ error: "Scheduled price sheet not found or already processed" }),
+        {
+          status: 404,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    return new Response(
+      JSON.stringify({ success: true, schedule }),
+      {
+        status: 200,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+
+  } catch (error) {
+    console.error("Error cancelling price sheet:", error);
+    
+    return new Response(
+      JSON.stringify({ error: "Failed to cancel price sheet", details: error.message }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  }
+});
\ No newline at end of file
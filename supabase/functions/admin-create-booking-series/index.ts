@@ -0,0 +1,208 @@
+import { createClient } from "npm:@supabase/supabase-js@2.39.0";
+import { generateSeriesTrips } from "../_shared/bookingSeries.ts";
+import { getLocalTimeParts } from "../_shared/pricing.ts";
+import {
+  formatRecurrenceRule,
+  normalizeSkipDates,
+  parseRecurrenceRule,
+  SERIES_TEMPLATE_FIELDS,
+  type BookingSeries
+} from "../_shared/recurrence.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization",
+};
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 204,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    // Get authorization header
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: "Authorization header required" }),
+        {
+          status: 401,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const token = authHeader.replace("Bearer ", "");
+    
+    // Create Supabase admin client
+    const supabaseAdmin = createClient(
+      Deno.env.get("SUPABASE_URL") || "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") || "",
+      {
+        auth: {
+          persistSession: false,
+        }
+      }
+    );
+
+    // Verify the JWT token
+    const { data: { user }, error: authError } = await supabaseAdmin.auth.getUser(token);
+    
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({ error: "Invalid or expired token", details: authError }),
+        {
+          status: 401,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // Check if user is admin
+    const { data: userData, error: userError } = await supabaseAdmin
+      .from("users")
+      .select("user_role")
+      .eq("id", user.id)
+      .single();
+      
+    if (userError || userData?.user_role !== "admin") {
+      return new Response(
+        JSON.stringify({ error: "Admin permissions required" }),
+        {
+          status: 403,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+
+    const { bookingId, rrule, skipDates: rawSkipDates } = await req.json();
+
+    const { rule, errors } = parseRecurrenceRule(rrule);
+    const { skipDates, errors: skipErrors } = normalizeSkipDates(rawSkipDates);
+    if (!bookingId) errors.unshift("Missing required parameter: bookingId");
+    errors.push(...skipErrors);
+
+    if (errors.length > 0) {
+      return new Response(
+        JSON.stringify({ error: errors.join("; ") }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const { data: booking, error: bookingError } = await supabaseAdmin
+      .from("trips")
+      .select("*")
+      .eq("id", bookingId)
+      .single();
+
+    if (bookingError || !booking) {
+      return new Response(
+        JSON.stringify({ error: "Booking not found" }),
+        {
+          status: 404,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    if (booking.series_id) {
+      return new Response(
+        JSON.stringify({ error: `Booking ${booking.booking_reference} already belongs to a recurring series` }),
+        {
+          status: 409,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    if (booking.status === "cancelled" || booking.status === "completed") {
+      return new Response(
+        JSON.stringify({ error: `A ${booking.status} booking cannot start a recurring series` }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const { data: settings } = await supabaseAdmin
+      .from("platform_settings")
+      .select("default_timezone")
+      .limit(1)
+      .maybeSingle();
+
+    const template: Record<string, unknown> = {};
+    for (const field of SERIES_TEMPLATE_FIELDS) {
+      if (booking[field] !== undefined) template[field] = booking[field];
+    }
+
+    const { data: series, error: seriesError } = await supabaseAdmin
+      .from("booking_series")
+      .insert({
+        rrule: formatRecurrenceRule(rule),
+        starts_at: booking.datetime,
+        time_zone: settings?.default_timezone || "UTC",
+        skip_dates: skipDates,
+        template,
+        created_by: user.id
+      })
+      .select()
+      .single();
+
+    if (seriesError) throw seriesError;
+
+    // The booking is the first trip of the series
+    const startDate = getLocalTimeParts(booking.datetime, series.time_zone).date;
+    const { error: linkError } = await supabaseAdmin
+      .from("trips")
+      .update({ series_id: series.id, series_date: startDate })
+      .eq("id", booking.id);
+
+    if (linkError) throw linkError;
+
+    const created = await generateSeriesTrips(supabaseAdmin, series as BookingSeries, user.id, {
+      fromDate: startDate
+    });
+
+    await supabaseAdmin.from("booking_activity_logs").insert({
+      booking_id: booking.id,
+      user_id: user.id,
+      action: "series_created",
+      details: {
+        series_id: series.id,
+        rrule: series.rrule,
+        skip_dates: skipDates,
+        trips_created: created.length,
+        timestamp: new Date().toISOString()
+      },
+      created_at: new Date().toISOString()
+    });
+
+    return new Response(
+      JSON.stringify({ series, created }),
+      {
+        status: 200,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  } catch (error) {
+    console.error("Error in admin-create-booking-series:", error);
+
+    return new Response(
+      JSON.stringify({ error: "Failed to create recurring series", details: error.message }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  }
+});
\ No newline at end of file
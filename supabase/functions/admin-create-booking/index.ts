@@ -0,0 +1,358 @@
+import { createClient } from "npm:@supabase/supabase-js@2.39.0";
+import {
+  COMMITTED_TRIP_STATUSES,
+  describeConflicts,
+  findScheduleConflicts,
+  scheduleSettingsFrom,
+  toScheduleConflict,
+  tripWindow
+} from "../_shared/driverSchedule.ts";
+import { findZoneForPoint } from "../_shared/geo.ts";
+import { createGeocodingProviders, geocodeWithProviders } from "../_shared/geocoding.ts";
+import { adminBookingReference, validateNewBooking } from "../_shared/newBooking.ts";
+import { calculateQuote, findFixedRoute, PricingError } from "../_shared/pricing.ts";
+import { loadPricingConfig } from "../_shared/pricingConfig.ts";
+import { createRoutingProvider, routeVia } from "../_shared/routing.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization",
+};
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 204,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    // Get authorization header
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: "Authorization header required" }),
+        {
+          status: 401,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const token = authHeader.replace("Bearer ", "");
+    
+    // Create Supabase admin client
+    const supabaseAdmin = createClient(
+      Deno.env.get("SUPABASE_URL") || "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") || "",
+      {
+        auth: {
+          persistSession: false,
+        }
+      }
+    );
+
+    // Verify the JWT token
+    const { data: { user }, error: authError } = await supabaseAdmin.auth.getUser(token);
+    
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({ error: "Invalid or expired token", details: authError }),
+        {
+          status: 401,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // Check if user is admin
+    const { data: userData, error: userError } = await supabaseAdmin
+      .from("users")
+      .select("user_role")
+      .eq("id", user.id)
+      .single();
+      
+    if (userError || userData?.user_role !== "admin") {
+      return new Response(
+        JSON.stringify({ error: "Admin permissions required" }),
+        {
+          status: 403,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // force assigns the driver despite overlapping trips when the conflict policy only warns
+    const { booking: input, driverId, force } = await req.json();
+
+    const { booking, errors } = validateNewBooking(input);
+    if (errors.length > 0) {
+      return new Response(
+        JSON.stringify({ error: errors.join("; "), errors }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const config = await loadPricingConfig(supabaseAdmin);
+
+    if (
+      !config.vehiclePrices.some(p => p.vehicle_type === booking.vehicleType) &&
+      !config.fixedRoutes.some(r => r.vehicle_type === booking.vehicleType)
+    ) {
+      return new Response(
+        JSON.stringify({ error: `Vehicle type "${booking.vehicleType}" has no prices` }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // Price the trip the same way simulate-pricing quotes it for the form
+    const namedFixedRoute = findFixedRoute(config, {
+      vehicleType: booking.vehicleType,
+      originName: booking.pickupAddress,
+      destinationName: booking.dropoffAddress
+    });
+
+    const { data: zones, error: zonesError } = await supabaseAdmin
+      .from("zones")
+      .select("id, name, boundary, center_lat, center_lng");
+
+    if (zonesError) {
+      throw zonesError;
+    }
+
+    const geocoders = createGeocodingProviders(zones || []);
+    const [pickupPoint, dropoffPoint] = await Promise.all([
+      geocodeWithProviders(booking.pickupAddress, geocoders),
+      geocodeWithProviders(booking.dropoffAddress, geocoders)
+    ]);
+
+    const unresolved = !pickupPoint ? "pickup" : !dropoffPoint ? "dropoff" : null;
+    if (!namedFixedRoute && unresolved) {
+      return new Response(
+        JSON.stringify({
+          error: `Could not resolve the ${unresolved} address`,
+          details: "Enter an address, a zone name or coordinates as \"lat,lng\""
+        }),
+        {
+          status: 422,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const route = pickupPoint && dropoffPoint
+      ? await routeVia(createRoutingProvider(), [pickupPoint, dropoffPoint])
+      : null;
+    const pickupZone = pickupPoint ? findZoneForPoint(zones || [], pickupPoint) : null;
+    const dropoffZone = dropoffPoint ? findZoneForPoint(zones || [], dropoffPoint) : null;
+
+    let quote;
+    try {
+      quote = calculateQuote(config, {
+        vehicleType: booking.vehicleType,
+        distanceKm: route?.distanceKm || 0,
+        originName: booking.pickupAddress,
+        destinationName: booking.dropoffAddress,
+        pickupZone: pickupZone ? { id: pickupZone.id, name: pickupZone.name } : null,
+        dropoffZone: dropoffZone ? { id: dropoffZone.id, name: dropoffZone.name } : null,
+        pickupTime: booking.datetime,
+        customFees: booking.extras
+      });
+    } catch (error) {
+      if (!(error instanceof PricingError)) throw error;
+      return new Response(
+        JSON.stringify({ error: error.message }),
+        {
+          status: 422,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const durationMin = route?.durationMin ? Math.max(1, Math.round(route.durationMin)) : null;
+
+    // Check the driver before saving so a refused assignment leaves no booking behind
+    let driver: { id: string; user_id: string; user?: { name: string } | null } | null = null;
+    let conflicts: ReturnType<typeof toScheduleConflict>[] = [];
+
+    if (driverId) {
+      const { data: driverData, error: driverError } = await supabaseAdmin
+        .from("drivers")
+        .select("id, user_id, user:users!drivers_user_id_fkey(name)")
+        .eq("id", driverId)
+        .single();
+
+      if (driverError || !driverData?.user_id) {
+        return new Response(
+          JSON.stringify({ error: "Driver not found" }),
+          {
+            status: 404,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          }
+        );
+      }
+      driver = driverData;
+
+      const { data: settingsRow } = await supabaseAdmin
+        .from("platform_settings")
+        .select("schedule_buffer_min, schedule_conflict_policy")
+        .limit(1)
+        .maybeSingle();
+
+      const schedule = scheduleSettingsFrom(settingsRow);
+      const newTrip = { id: "", datetime: booking.datetime, estimated_duration_min: durationMin };
+      const bookingWindow = tripWindow(newTrip, schedule.bufferMin);
+
+      // Trips starting up to a day earlier can still be running at pickup
+      const { data: driverTrips, error: driverTripsError } = await supabaseAdmin
+        .from("trips")
+        .select("id, booking_reference, datetime, estimated_duration_min")
+        .eq("driver_id", driverData.user_id)
+        .in("status", COMMITTED_TRIP_STATUSES)
+        .gte("datetime", new Date(bookingWindow.start - 24 * 60 * 60 * 1000).toISOString())
+        .lt("datetime", new Date(bookingWindow.end).toISOString());
+
+      if (driverTripsError) {
+        throw driverTripsError;
+      }
+
+      conflicts = findScheduleConflicts(newTrip, driverTrips || [], schedule.bufferMin).map(toScheduleConflict);
+
+      if (conflicts.length > 0 && (schedule.policy === "block" || !force)) {
+        return new Response(
+          JSON.stringify({
+            error: `Driver has an overlapping trip: ${describeConflicts(conflicts)}`,
+            conflicts,
+            canOverride: schedule.policy === "warn"
+          }),
+          {
+            status: 409,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          }
+        );
+      }
+    }
+
+    // Bookings for customers with an account are linked to it
+    let customerId: string | null = null;
+    if (booking.customerEmail) {
+      const { data: customer } = await supabaseAdmin
+        .from("users")
+        .select("id")
+        .ilike("email", booking.customerEmail)
+        .eq("user_role", "customer")
+        .limit(1)
+        .maybeSingle();
+      customerId = customer?.id || null;
+    }
+
+    const now = new Date().toISOString();
+    const { data: trip, error: insertError } = await supabaseAdmin
+      .from("trips")
+      .insert({
+        user_id: customerId,
+        driver_id: driver?.user_id || null,
+        pickup_zone_id: pickupZone?.id || null,
+        dropoff_zone_id: dropoffZone?.id || null,
+        pickup_address: booking.pickupAddress,
+        dropoff_address: booking.dropoffAddress,
+        estimated_distance_km: quote.distanceKm,
+        estimated_duration_min: durationMin,
+        estimated_price: quote.fare,
+        vehicle_type: booking.vehicleType,
+        passengers: booking.passengers,
+        custom_fees: booking.extras,
+        price_breakdown: quote,
+        status: "pending",
+        datetime: booking.datetime,
+        booking_reference: adminBookingReference(),
+        customer_name: booking.customerName,
+        customer_email: booking.customerEmail || null,
+        customer_phone: booking.customerPhone || null,
+        notes: booking.notes || null,
+        priority: booking.priority,
+        flight_number: booking.flightNumber || null,
+        flight_scheduled_arrival: booking.flightArrival || null,
+        created_at: now
+      })
+      .select()
+      .single();
+
+    if (insertError) {
+      throw insertError;
+    }
+
+    // The insert is recorded as made by the platform; the admin entered it
+    await supabaseAdmin
+      .from("trip_status_transitions")
+      .update({ changed_by: user.id, actor_role: "admin" })
+      .eq("trip_id", trip.id)
+      .is("from_status", null);
+
+    let created = trip;
+    if (driver) {
+      const { error: transitionError } = await supabaseAdmin.rpc("transition_trip_status", {
+        p_trip_id: trip.id,
+        p_status: "accepted",
+        p_actor: user.id,
+        p_role: "admin",
+        p_reason: "Driver assigned when the booking was created"
+      });
+
+      if (transitionError) {
+        throw transitionError;
+      }
+
+      const { data: accepted } = await supabaseAdmin
+        .from("trips")
+        .select()
+        .eq("id", trip.id)
+        .single();
+      created = accepted || { ...trip, status: "accepted" };
+    }
+
+    await supabaseAdmin.from("booking_activity_logs").insert({
+      booking_id: trip.id,
+      user_id: user.id,
+      action: "created",
+      details: {
+        booking_reference: trip.booking_reference,
+        quoted_total: quote.total,
+        extras: booking.extras.map(extra => extra.name),
+        flight_number: booking.flightNumber || undefined,
+        driver_id: driver?.id,
+        driver_name: driver?.user?.name,
+        schedule_conflicts: conflicts.length > 0 ? conflicts : undefined,
+        timestamp: now
+      },
+      created_at: now
+    });
+
+    return new Response(
+      JSON.stringify({ booking: created, quote }),
+      {
+        status: 200,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  } catch (error) {
+    console.error("Error in admin-create-booking:", error);
+
+    return new Response(
+      JSON.stringify({ error: "Failed to create booking", details: error.message }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  }
+});
\ No newline at end of file
@@ -3,6 +3,8 @@
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "npm:@supabase/supabase-js@2.38.4";
+import { calculateQuote, summarizeBookingPrice } from "../_shared/pricing.ts";
+import { loadPricingConfig } from "../_shared/pricingConfig.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -104,6 +106,36 @@ serve(async (req) => {
       );
     }
 
+    // Price the copy with the shared pricing engine. Trips quoted for a known
+    // vehicle type and distance are re-quoted against the live price sheet,
+    // with the same route and pickup time so fixed routes and time-based
+    // rules apply as they did to the original; older trips keep their
+    // original fare.
+    let estimatedPrice = originalBooking.estimated_price;
+    let priceBreakdown;
+
+    if (originalBooking.vehicle_type && originalBooking.estimated_distance_km) {
+      const config = await loadPricingConfig(supabaseClient);
+      const quote = calculateQuote(config, {
+        vehicleType: originalBooking.vehicle_type,
+        distanceKm: originalBooking.estimated_distance_km,
+        originName: originalBooking.pickup_address,
+        destinationName: originalBooking.dropoff_address,
+        pickupZone: originalBooking.pickup_zone_id ? { id: originalBooking.pickup_zone_id } : null,
+        dropoffZone: originalBooking.dropoff_zone_id ? { id: originalBooking.dropoff_zone_id } : null,
+        pickupTime: originalBooking.datetime,
+        customFees: originalBooking.custom_fees || []
+      });
+
+      estimatedPrice = quote.fare;
+      priceBreakdown = quote;
+    } else {
+      priceBreakdown = summarizeBookingPrice({
+        estimated_price: originalBooking.estimated_price,
+        custom_fees: originalBooking.custom_fees || []
+      });
+    }
+
     // Create a new booking reference
     const newBookingReference = `DUP-${Math.floor(100000 + Math.random() * 900000)}`;
     
@@ -116,7 +148,10 @@ serve(async (req) => {
       dropoff_address: originalBooking.dropoff_address,
       estimated_distance_km: originalBooking.estimated_distance_km,
       estimated_duration_min: originalBooking.estimated_duration_min,
-      estimated_price: originalBooking.estimated_price,
+      estimated_price: estimatedPrice,
+      vehicle_type: originalBooking.vehicle_type,
+      custom_fees: originalBooking.custom_fees || [],
+      price_breakdown: priceBreakdown,
       status: 'pending',
       datetime: new Date().toISOString(), // Default to current time
       booking_reference: newBookingReference,
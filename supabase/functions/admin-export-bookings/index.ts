@@ -0,0 +1,194 @@
+import { createClient } from "npm:@supabase/supabase-js@2.39.0";
+import { applyBookingFilters, normalizeBookingQuery } from "../_shared/bookingFilters.ts";
+import {
+  bookingExportTables,
+  exportCsv,
+  exportDateRange,
+  exportWorkbook,
+  MAX_EXPORT_BOOKINGS,
+  normalizeExportOptions,
+  type ExportBooking
+} from "../_shared/bookingExport.ts";
+import { XLSX_MIME_TYPE } from "../_shared/xlsx.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization",
+};
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 204,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    // Get authorization header
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: "Authorization header required" }),
+        {
+          status: 401,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const token = authHeader.replace("Bearer ", "");
+    
+    // Create Supabase admin client
+    const supabaseAdmin = createClient(
+      Deno.env.get("SUPABASE_URL") || "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") || "",
+      {
+        auth: {
+          persistSession: false,
+        }
+      }
+    );
+
+    // Verify the JWT token
+    const { data: { user }, error: authError } = await supabaseAdmin.auth.getUser(token);
+    
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({ error: "Invalid or expired token", details: authError }),
+        {
+          status: 401,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // Check if user is admin
+    const { data: userData, error: userError } = await supabaseAdmin
+      .from("users")
+      .select("user_role")
+      .eq("id", user.id)
+      .single();
+      
+    if (userError || userData?.user_role !== "admin") {
+      return new Response(
+        JSON.stringify({ error: "Admin permissions required" }),
+        {
+          status: 403,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const body = await req.json();
+    const format = body.format === "excel" ? "excel" : "csv";
+    const { options, errors } = normalizeExportOptions(body.options);
+    const { query, errors: queryErrors } = normalizeBookingQuery({ ...(body.query || {}), limit: undefined, cursor: undefined });
+    errors.push(...queryErrors);
+
+    // A selection of bookings is exported instead of the table filters
+    const bookingIds = Array.isArray(body.bookingIds)
+      ? body.bookingIds.filter((id: unknown): id is string => typeof id === "string" && id !== "")
+      : null;
+    if (bookingIds && bookingIds.length === 0) errors.push("Select at least one booking to export");
+
+    if (errors.length > 0) {
+      return new Response(
+        JSON.stringify({ error: errors.join("; ") }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const { data: settings } = await supabaseAdmin
+      .from("platform_settings")
+      .select("default_timezone, default_currency")
+      .limit(1)
+      .maybeSingle();
+
+    const timeZone = settings?.default_timezone || "UTC";
+    const currency = settings?.default_currency || "EUR";
+
+    // The export's date range narrows the table's own pickup time filter
+    const range = exportDateRange(options, timeZone);
+    if (range.from && (!query.from || range.from > query.from)) query.from = range.from;
+    if (range.to && (!query.to || range.to < query.to)) query.to = range.to;
+
+    const applyFilters = (request: any) => {
+      request = applyBookingFilters(request, query);
+      return bookingIds ? request.in("id", bookingIds) : request;
+    };
+
+    const { count, error: countError } = await applyFilters(
+      supabaseAdmin.from("trips").select("id", { count: "exact", head: true })
+    );
+
+    if (countError) throw countError;
+
+    if ((count || 0) > MAX_EXPORT_BOOKINGS) {
+      return new Response(
+        JSON.stringify({ error: `${count} bookings match; narrow the filters to export at most ${MAX_EXPORT_BOOKINGS} at once` }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // Read in batches in the table's order; the id keeps the order stable between batches
+    const batchSize = 1000;
+    const bookings: ExportBooking[] = [];
+    for (let offset = 0; offset < (count || 0); offset += batchSize) {
+      const { data: batch, error: batchError } = await applyFilters(
+        supabaseAdmin
+          .from("trips")
+          .select(`
+            *,
+            driver:users!trips_driver_id_fkey(name),
+            payments:payments!payments_trip_id_fkey(id, amount, status, kind, payment_method, paid_at, created_at, reason)
+          `)
+      )
+        .order(query.sort!, { ascending: query.order === "asc", nullsFirst: false })
+        .order("id", { ascending: query.order === "asc" })
+        .range(offset, offset + batchSize - 1);
+
+      if (batchError) throw batchError;
+      bookings.push(...(batch || []));
+      if ((batch || []).length < batchSize) break;
+    }
+
+    const tables = bookingExportTables(bookings, options);
+
+    if (format === "excel") {
+      return new Response(
+        exportWorkbook(tables, { timeZone, currency }),
+        {
+          status: 200,
+          headers: { ...corsHeaders, "Content-Type": XLSX_MIME_TYPE },
+        }
+      );
+    }
+
+    return new Response(
+      exportCsv(tables[0], timeZone),
+      {
+        status: 200,
+        headers: { ...corsHeaders, "Content-Type": "text/csv; charset=utf-8" },
+      }
+    );
+  } catch (error) {
+    console.error("Error in admin-export-bookings:", error);
+
+    return new Response(
+      JSON.stringify({ error: "Failed to export bookings", details: error.message }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  }
+});
\ No newline at end of file
@@ -0,0 +1,139 @@
+import { createClient } from "npm:@supabase/supabase-js@2.39.0";
+import { DEFAULT_REMINDER_POLICIES } from "../_shared/reminderSchedule.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization",
+};
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 204,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    // Get authorization header
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: "Authorization header required" }),
+        {
+          status: 401,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const token = authHeader.replace("Bearer ", "");
+    
+    // Create Supabase admin client
+    const supabaseAdmin = createClient(
+      Deno.env.get("SUPABASE_URL") || "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") || "",
+      {
+        auth: {
+          persistSession: false,
+        }
+      }
+    );
+
+    // Verify the JWT token
+    const { data: { user }, error: authError } = await supabaseAdmin.auth.getUser(token);
+    
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({ error: "Invalid or expired token", details: authError }),
+        {
+          status: 401,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // Check if user is admin
+    const { data: userData, error: userError } = await supabaseAdmin
+      .from("users")
+      .select("user_role")
+      .eq("id", user.id)
+      .single();
+      
+    if (userError || userData?.user_role !== "admin") {
+      return new Response(
+        JSON.stringify({ error: "Admin permissions required" }),
+        {
+          status: 403,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+
+    const { bookingId } = await req.json();
+
+    if (!bookingId) {
+      return new Response(
+        JSON.stringify({ error: "Missing required parameter: bookingId" }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const [{ data: settingsRow }, { data: deliveries, error: deliveriesError }, { data: attempts, error: attemptsError }] = await Promise.all([
+      supabaseAdmin
+        .from("platform_settings")
+        .select("reminder_policies")
+        .limit(1)
+        .maybeSingle(),
+      supabaseAdmin
+        .from("notification_deliveries")
+        .select("id, template, recipient_type, channel, recipient, status, provider, error, policy_id, created_at, sent_at")
+        .eq("booking_id", bookingId)
+        .order("created_at", { ascending: false })
+        .limit(20),
+      supabaseAdmin
+        .from("notification_deliveries")
+        .select("policy_id")
+        .eq("booking_id", bookingId)
+        .not("policy_id", "is", null)
+    ]);
+
+    if (deliveriesError) throw deliveriesError;
+    if (attemptsError) throw attemptsError;
+
+    // A policy counts as run once the job has attempted it, even if delivery failed
+    const attemptedPolicyIds = [...new Set(
+      (attempts || [])
+        .map((delivery: Record<string, any>) => delivery.policy_id)
+        .filter(Boolean)
+    )];
+
+    return new Response(
+      JSON.stringify({
+        policies: settingsRow?.reminder_policies || DEFAULT_REMINDER_POLICIES,
+        attemptedPolicyIds,
+        deliveries: deliveries || []
+      }),
+      {
+        status: 200,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  } catch (error) {
+    console.error("Error in admin-fetch-booking-reminders:", error);
+
+    return new Response(
+      JSON.stringify({ error: "Failed to fetch booking reminders", details: error.message }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  }
+});
\ No newline at end of file
@@ -0,0 +1,162 @@
+import { createClient } from "npm:@supabase/supabase-js@2.39.0";
+import type { BookingSeries } from "../_shared/recurrence.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization",
+};
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 204,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    // Get authorization header
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: "Authorization header required" }),
+        {
+          status: 401,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const token = authHeader.replace("Bearer ", "");
+    
+    // Create Supabase admin client
+    const supabaseAdmin = createClient(
+      Deno.env.get("SUPABASE_URL") || "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") || "",
+      {
+        auth: {
+          persistSession: false,
+        }
+      }
+    );
+
+    // Verify the JWT token
+    const { data: { user }, error: authError } = await supabaseAdmin.auth.getUser(token);
+    
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({ error: "Invalid or expired token", details: authError }),
+        {
+          status: 401,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // Check if user is admin
+    const { data: userData, error: userError } = await supabaseAdmin
+      .from("users")
+      .select("user_role")
+      .eq("id", user.id)
+      .single();
+      
+    if (userError || userData?.user_role !== "admin") {
+      return new Response(
+        JSON.stringify({ error: "Admin permissions required" }),
+        {
+          status: 403,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+
+    const { bookingId } = await req.json();
+
+    if (!bookingId) {
+      return new Response(
+        JSON.stringify({ error: "Missing required parameter: bookingId" }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const [{ data: booking, error: bookingError }, { data: settings }] = await Promise.all([
+      supabaseAdmin
+        .from("trips")
+        .select("id, series_id")
+        .eq("id", bookingId)
+        .single(),
+      supabaseAdmin
+        .from("platform_settings")
+        .select("default_timezone")
+        .limit(1)
+        .maybeSingle()
+    ]);
+
+    if (bookingError || !booking) {
+      return new Response(
+        JSON.stringify({ error: "Booking not found" }),
+        {
+          status: 404,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    let series: BookingSeries | null = null;
+    let occurrences: Record<string, unknown>[] = [];
+
+    if (booking.series_id) {
+      // Trips carry the same joins as the bookings list so each one can be opened from the series
+      const [{ data: seriesRow, error: seriesError }, { data: trips, error: tripsError }] = await Promise.all([
+        supabaseAdmin
+          .from("booking_series")
+          .select("*")
+          .eq("id", booking.series_id)
+          .single(),
+        supabaseAdmin
+          .from("trips")
+          .select(`
+            *,
+            user:users!trips_user_id_fkey(name, email, phone),
+            driver:users!trips_driver_id_fkey(name, email, phone)
+          `)
+          .eq("series_id", booking.series_id)
+          .order("series_date", { ascending: true })
+      ]);
+
+      if (seriesError) throw seriesError;
+      if (tripsError) throw tripsError;
+
+      series = seriesRow;
+      occurrences = trips || [];
+    }
+
+    return new Response(
+      JSON.stringify({
+        series,
+        occurrences,
+        timeZone: series?.time_zone || settings?.default_timezone || "UTC"
+      }),
+      {
+        status: 200,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  } catch (error) {
+    console.error("Error in admin-fetch-booking-series:", error);
+
+    return new Response(
+      JSON.stringify({ error: "Failed to fetch recurring series", details: error.message }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  }
+});
\ No newline at end of file
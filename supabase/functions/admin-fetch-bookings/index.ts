@@ -3,6 +3,14 @@
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "npm:@supabase/supabase-js@2.38.4";
+import {
+  applyBookingFilters,
+  buildCursorFilter,
+  decodeBookingCursor,
+  encodeBookingCursor,
+  normalizeBookingQuery
+} from "../_shared/bookingFilters.ts";
+import { OPEN_OFFER_STATUSES } from "../_shared/tripOffers.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -75,22 +83,84 @@ serve(async (req) => {
       );
     }
 
-    // Fetch bookings with joins to related tables
-    const { data: bookings, error } = await supabaseClient
-      .from("trips")
-      .select(`
-        *,
-        user:users!trips_user_id_fkey(name, email, phone),
-        driver:users!trips_driver_id_fkey(name, email, phone)
-      `)
-      .order("datetime", { ascending: false });
+    // Filters come from the query string on GET and from the body on POST
+    const raw = req.method === "GET"
+      ? Object.fromEntries(new URL(req.url).searchParams)
+      : await req.json().catch(() => ({}));
+
+    const { query, errors } = normalizeBookingQuery(raw);
+    if (errors.length > 0) {
+      return new Response(
+        JSON.stringify({ error: errors.join("; "), details: errors }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const sort = query.sort!;
+    const ascending = query.order === "asc";
+    const limit = query.limit!;
+
+    const applyFilters = (request: any) => applyBookingFilters(request, query);
+
+    // Fetch one page with joins to related tables; one extra row tells whether another page follows
+    let pageRequest = applyFilters(
+      supabaseClient
+        .from("trips")
+        .select(`
+          *,
+          user:users!trips_user_id_fkey(name, email, phone),
+          driver:users!trips_driver_id_fkey(name, email, phone),
+          offers:trip_offers(id, status, position, expires_at, driver:drivers(user:users!drivers_user_id_fkey(name)))
+        `)
+        // Only offers still waiting for a driver
+        .in("offers.status", OPEN_OFFER_STATUSES)
+    );
+
+    const cursor = query.cursor ? decodeBookingCursor(query.cursor) : null;
+    if (cursor) {
+      pageRequest = pageRequest.or(buildCursorFilter(sort, query.order!, cursor));
+    }
+
+    const [
+      { data: rows, error },
+      { count: totalCount, error: countError },
+      { data: stats, error: statsError }
+    ] = await Promise.all([
+      pageRequest
+        .order(sort, { ascending, nullsFirst: false })
+        .order("id", { ascending })
+        .limit(limit + 1),
+      applyFilters(supabaseClient.from("trips").select("id", { count: "exact", head: true })),
+      // Summary cards only need refreshing with the first page
+      cursor ? Promise.resolve({ data: null, error: null }) : supabaseClient.rpc("admin_booking_stats")
+    ]);
 
     if (error) {
       throw error;
     }
+    if (countError) {
+      throw countError;
+    }
+    if (statsError) {
+      throw statsError;
+    }
+
+    const bookings = (rows || []).slice(0, limit);
+    const last = bookings[bookings.length - 1];
+    const nextCursor = (rows || []).length > limit && last
+      ? encodeBookingCursor({ value: last[sort] ?? null, id: last.id })
+      : null;
 
     return new Response(
-      JSON.stringify(bookings),
+      JSON.stringify({
+        bookings,
+        nextCursor,
+        totalCount: totalCount || 0,
+        stats
+      }),
       {
         status: 200,
         headers: { ...corsHeaders, "Content-Type": "application/json" },
@@ -0,0 +1,170 @@
+import { createClient } from "npm:@supabase/supabase-js@2.39.0";
+import { buildPossibleDuplicateFilter } from "../_shared/customers.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization",
+};
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 204,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    // Get authorization header
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: "Authorization header required" }),
+        {
+          status: 401,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const token = authHeader.replace("Bearer ", "");
+    
+    // Create Supabase admin client
+    const supabaseAdmin = createClient(
+      Deno.env.get("SUPABASE_URL") || "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") || "",
+      {
+        auth: {
+          persistSession: false,
+        }
+      }
+    );
+
+    // Verify the JWT token
+    const { data: { user }, error: authError } = await supabaseAdmin.auth.getUser(token);
+    
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({ error: "Invalid or expired token", details: authError }),
+        {
+          status: 401,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // Check if user is admin
+    const { data: userData, error: userError } = await supabaseAdmin
+      .from("users")
+      .select("user_role")
+      .eq("id", user.id)
+      .single();
+      
+    if (userError || userData?.user_role !== "admin") {
+      return new Response(
+        JSON.stringify({ error: "Admin permissions required" }),
+        {
+          status: 403,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const { customerId } = await req.json();
+
+    if (!customerId) {
+      return new Response(
+        JSON.stringify({ error: "Missing required parameter: customerId" }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // Links to a customer merged away since lead to the one they were merged into
+    const { data: record, error: recordError } = await supabaseAdmin
+      .from("customers")
+      .select("id, merged_into_id")
+      .eq("id", customerId)
+      .maybeSingle();
+
+    if (recordError) throw recordError;
+
+    if (!record) {
+      return new Response(
+        JSON.stringify({ error: "Customer not found" }),
+        {
+          status: 404,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const id = record.merged_into_id || record.id;
+
+    const [
+      { data: customer, error: customerError },
+      { data: bookings, error: bookingsError },
+      { data: merged, error: mergedError }
+    ] = await Promise.all([
+      supabaseAdmin.from("customer_summaries").select("*").eq("id", id).single(),
+      supabaseAdmin
+        .from("trips")
+        .select("id, booking_reference, datetime, status, pickup_address, dropoff_address, vehicle_type, estimated_price, promo_discount, custom_fees")
+        .eq("customer_id", id)
+        .order("datetime", { ascending: false }),
+      supabaseAdmin
+        .from("customers")
+        .select("id, name, email, phone, merged_at")
+        .eq("merged_into_id", id)
+        .order("merged_at", { ascending: false })
+    ]);
+
+    if (customerError) throw customerError;
+    if (bookingsError) throw bookingsError;
+    if (mergedError) throw mergedError;
+
+    // Offered for merging on the customer's profile
+    const duplicateFilter = buildPossibleDuplicateFilter(customer);
+
+    let possibleDuplicates: unknown[] = [];
+    if (duplicateFilter) {
+      const { data: duplicates, error: duplicatesError } = await supabaseAdmin
+        .from("customer_summaries")
+        .select("*")
+        .or(duplicateFilter)
+        .neq("id", id)
+        .order("last_booking_at", { ascending: false, nullsFirst: false })
+        .limit(10);
+
+      if (duplicatesError) throw duplicatesError;
+      possibleDuplicates = duplicates || [];
+    }
+
+    return new Response(
+      JSON.stringify({
+        customer,
+        bookings: bookings || [],
+        merged: merged || [],
+        possibleDuplicates
+      }),
+      {
+        status: 200,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  } catch (error) {
+    console.error("Error in admin-fetch-customer:", error);
+
+    return new Response(
+      JSON.stringify({ error: "Failed to fetch customer", details: error.message }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  }
+});
\ No newline at end of file
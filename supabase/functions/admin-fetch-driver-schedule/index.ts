@@ -0,0 +1,168 @@
+import { createClient } from "npm:@supabase/supabase-js@2.39.0";
+import {
+  COMMITTED_TRIP_STATUSES,
+  findScheduleConflicts,
+  scheduleSettingsFrom,
+  toScheduleConflict,
+  tripWindow,
+  type ScheduleConflict
+} from "../_shared/driverSchedule.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization",
+};
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 204,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    // Get authorization header
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: "Authorization header required" }),
+        {
+          status: 401,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const token = authHeader.replace("Bearer ", "");
+    
+    // Create Supabase admin client
+    const supabaseAdmin = createClient(
+      Deno.env.get("SUPABASE_URL") || "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") || "",
+      {
+        auth: {
+          persistSession: false,
+        }
+      }
+    );
+
+    // Verify the JWT token
+    const { data: { user }, error: authError } = await supabaseAdmin.auth.getUser(token);
+    
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({ error: "Invalid or expired token", details: authError }),
+        {
+          status: 401,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // Check if user is admin
+    const { data: userData, error: userError } = await supabaseAdmin
+      .from("users")
+      .select("user_role")
+      .eq("id", user.id)
+      .single();
+      
+    if (userError || userData?.user_role !== "admin") {
+      return new Response(
+        JSON.stringify({ error: "Admin permissions required" }),
+        {
+          status: 403,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const { bookingId } = await req.json();
+
+    if (!bookingId) {
+      return new Response(
+        JSON.stringify({ error: "Missing required parameter: bookingId" }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const { data: booking, error: bookingError } = await supabaseAdmin
+      .from("trips")
+      .select("id, booking_reference, datetime, estimated_duration_min")
+      .eq("id", bookingId)
+      .single();
+
+    if (bookingError || !booking) {
+      return new Response(
+        JSON.stringify({ error: "Booking not found" }),
+        {
+          status: 404,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const { data: settingsRow } = await supabaseAdmin
+      .from("platform_settings")
+      .select("schedule_buffer_min, schedule_conflict_policy")
+      .limit(1)
+      .maybeSingle();
+
+    const schedule = scheduleSettingsFrom(settingsRow);
+    const bookingWindow = tripWindow(booking, schedule.bufferMin);
+
+    // Every driver's committed trips around the pickup; trips starting up to
+    // a day earlier can still be running
+    const [{ data: trips, error: tripsError }, { data: drivers, error: driversError }] = await Promise.all([
+      supabaseAdmin
+        .from("trips")
+        .select("id, booking_reference, datetime, estimated_duration_min, driver_id")
+        .not("driver_id", "is", null)
+        .in("status", COMMITTED_TRIP_STATUSES)
+        .neq("id", bookingId)
+        .gte("datetime", new Date(bookingWindow.start - 24 * 60 * 60 * 1000).toISOString())
+        .lt("datetime", new Date(bookingWindow.end).toISOString()),
+      supabaseAdmin.from("drivers").select("id, user_id")
+    ]);
+
+    if (tripsError) throw tripsError;
+    if (driversError) throw driversError;
+
+    // Conflicting trips keyed by driver id; trips store the driver's user id
+    const conflicts: Record<string, ScheduleConflict[]> = {};
+    for (const driver of drivers || []) {
+      const driverTrips = (trips || []).filter((trip: Record<string, any>) => trip.driver_id === driver.user_id);
+      const overlapping = findScheduleConflicts(booking, driverTrips, schedule.bufferMin);
+      if (overlapping.length > 0) {
+        conflicts[driver.id] = overlapping.map(toScheduleConflict);
+      }
+    }
+
+    return new Response(
+      JSON.stringify({
+        bufferMin: schedule.bufferMin,
+        policy: schedule.policy,
+        conflicts
+      }),
+      {
+        status: 200,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  } catch (error) {
+    console.error("Error in admin-fetch-driver-schedule:", error);
+
+    return new Response(
+      JSON.stringify({ error: "Failed to check driver schedules", details: error.message }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  }
+});
\ No newline at end of file
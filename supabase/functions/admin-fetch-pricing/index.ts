@@ -81,11 +81,15 @@ Deno.serve(async (req) => {
     const [
       { data: vehiclePrices, error: vehicleError },
       { data: zoneMultipliers, error: zoneError },
-      { data: fixedRoutes, error: routeError }
+      { data: fixedRoutes, error: routeError },
+      { data: pricingRules, error: ruleError },
+      { data: pricingSchedules, error: scheduleError }
     ] = await Promise.all([
       supabase.from('vehicle_base_prices').select('*'),
       supabase.from('zone_multipliers').select('zone_multipliers.id, zone_id, multiplier'),
-      supabase.from('fixed_routes').select('*')
+      supabase.from('fixed_routes').select('*'),
+      supabase.from('pricing_rules').select('*').order('created_at'),
+      supabase.from('pricing_schedules').select('*').order('effective_from', { ascending: false }).limit(20)
     ]);
 
     if (vehicleError) {
@@ -121,11 +125,35 @@ Deno.serve(async (req) => {
       );
     }
 
+    if (ruleError) {
+      console.error('Error fetching pricing rules:', ruleError);
+      return new Response(
+        JSON.stringify({ error: "Failed to fetch pricing rules", details: ruleError }),
+        {
+          status: 500,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    if (scheduleError) {
+      console.error('Error fetching pricing schedules:', scheduleError);
+      return new Response(
+        JSON.stringify({ error: "Failed to fetch pricing schedules", details: scheduleError }),
+        {
+          status: 500,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
     return new Response(
       JSON.stringify({
         vehiclePrices: vehiclePrices || [],
         zoneMultipliers: zoneMultipliers || [],
-        fixedRoutes: fixedRoutes || []
+        fixedRoutes: fixedRoutes || [],
+        pricingRules: pricingRules || [],
+        pricingSchedules: pricingSchedules || []
       }),
       {
         status: 200,
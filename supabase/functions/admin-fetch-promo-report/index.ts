@@ -0,0 +1,155 @@
+import { createClient } from "npm:@supabase/supabase-js@2.39.0";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization",
+};
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 204,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    // Get authorization header
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: "Authorization header required" }),
+        {
+          status: 401,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const token = authHeader.replace("Bearer ", "");
+    
+    // Create Supabase admin client
+    const supabaseAdmin = createClient(
+      Deno.env.get("SUPABASE_URL") || "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") || "",
+      {
+        auth: {
+          persistSession: false,
+        }
+      }
+    );
+
+    // Verify the JWT token
+    const { data: { user }, error: authError } = await supabaseAdmin.auth.getUser(token);
+    
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({ error: "Invalid or expired token", details: authError }),
+        {
+          status: 401,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // Check if user is admin
+    const { data: userData, error: userError } = await supabaseAdmin
+      .from("users")
+      .select("user_role")
+      .eq("id", user.id)
+      .single();
+      
+    if (userError || userData?.user_role !== "admin") {
+      return new Response(
+        JSON.stringify({ error: "Admin permissions required" }),
+        {
+          status: 403,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // Filters come from the query string
+    const url = new URL(req.url);
+    const promoCodeId = url.searchParams.get("promoCodeId");
+    const from = url.searchParams.get("from");
+    const to = url.searchParams.get("to");
+
+    let query = supabaseAdmin
+      .from("promo_redemptions")
+      .select(`
+        *,
+        promo_code:promo_codes(code, discount_type, value),
+        trip:trips(booking_reference, status, datetime, customer_name)
+      `)
+      .order("redeemed_at", { ascending: false });
+
+    if (promoCodeId) query = query.eq("promo_code_id", promoCodeId);
+    if (from) query = query.gte("redeemed_at", from);
+    if (to) query = query.lt("redeemed_at", to);
+
+    const { data: redemptions, error: redemptionError } = await query;
+
+    if (redemptionError) throw redemptionError;
+
+    // Totals per code for the selected period
+    const summary = new Map<string, {
+      promo_code_id: string;
+      code: string;
+      redemptions: number;
+      customers: Set<string>;
+      total_fare: number;
+      total_discount: number;
+    }>();
+
+    for (const redemption of redemptions || []) {
+      const current = summary.get(redemption.promo_code_id) || {
+        promo_code_id: redemption.promo_code_id,
+        code: redemption.promo_code?.code || "",
+        redemptions: 0,
+        customers: new Set<string>(),
+        total_fare: 0,
+        total_discount: 0
+      };
+
+      current.redemptions++;
+      current.customers.add(redemption.user_id || redemption.customer_email || redemption.id);
+      current.total_fare += Number(redemption.fare_amount) || 0;
+      current.total_discount += Number(redemption.discount_amount) || 0;
+      summary.set(redemption.promo_code_id, current);
+    }
+
+    const round = (value: number) => Math.round(value * 100) / 100;
+
+    return new Response(
+      JSON.stringify({
+        redemptions: redemptions || [],
+        summary: [...summary.values()]
+          .map(({ customers, ...totals }) => ({
+            ...totals,
+            unique_customers: customers.size,
+            total_fare: round(totals.total_fare),
+            total_discount: round(totals.total_discount)
+          }))
+          .sort((a, b) => b.total_discount - a.total_discount)
+      }),
+      {
+        status: 200,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+
+  } catch (error) {
+    console.error("Error fetching promo redemption report:", error);
+    
+    return new Response(
+      JSON.stringify({ error: "Failed to fetch promo redemption report", details: error.message }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  }
+});
\ No newline at end of file
@@ -0,0 +1,127 @@
+import { createClient } from "npm:@supabase/supabase-js@2.39.0";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization",
+};
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 204,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    // Get authorization header
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: "Authorization header required" }),
+        {
+          status: 401,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const token = authHeader.replace("Bearer ", "");
+    
+    // Create Supabase admin client
+    const supabaseAdmin = createClient(
+      Deno.env.get("SUPABASE_URL") || "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") || "",
+      {
+        auth: {
+          persistSession: false,
+        }
+      }
+    );
+
+    // Verify the JWT token
+    const { data: { user }, error: authError } = await supabaseAdmin.auth.getUser(token);
+    
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({ error: "Invalid or expired token", details: authError }),
+        {
+          status: 401,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // Check if user is admin
+    const { data: userData, error: userError } = await supabaseAdmin
+      .from("users")
+      .select("user_role")
+      .eq("id", user.id)
+      .single();
+      
+    if (userError || userData?.user_role !== "admin") {
+      return new Response(
+        JSON.stringify({ error: "Admin permissions required" }),
+        {
+          status: 403,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const [
+      { data: promoCodes, error: promoError },
+      { data: redemptions, error: redemptionError },
+      { data: zones, error: zoneError },
+      { data: vehiclePrices, error: vehicleError }
+    ] = await Promise.all([
+      supabaseAdmin.from("promo_codes").select("*").order("created_at", { ascending: false }),
+      supabaseAdmin.from("promo_redemptions").select("promo_code_id, discount_amount"),
+      supabaseAdmin.from("zones").select("id, name").order("name"),
+      supabaseAdmin.from("vehicle_base_prices").select("vehicle_type").order("vehicle_type")
+    ]);
+
+    if (promoError) throw promoError;
+    if (redemptionError) throw redemptionError;
+    if (zoneError) throw zoneError;
+    if (vehicleError) throw vehicleError;
+
+    // Usage per code for the list view
+    const usage = new Map<string, { redemptions: number; totalDiscount: number }>();
+    for (const redemption of redemptions || []) {
+      const current = usage.get(redemption.promo_code_id) || { redemptions: 0, totalDiscount: 0 };
+      current.redemptions++;
+      current.totalDiscount += Number(redemption.discount_amount) || 0;
+      usage.set(redemption.promo_code_id, current);
+    }
+
+    return new Response(
+      JSON.stringify({
+        promoCodes: (promoCodes || []).map(promo => ({
+          ...promo,
+          redemptions: usage.get(promo.id)?.redemptions || 0,
+          total_discount: Math.round((usage.get(promo.id)?.totalDiscount || 0) * 100) / 100
+        })),
+        zones: zones || [],
+        vehicleTypes: (vehiclePrices || []).map(price => price.vehicle_type)
+      }),
+      {
+        status: 200,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+
+  } catch (error) {
+    console.error("Error fetching promotions:", error);
+    
+    return new Response(
+      JSON.stringify({ error: "Failed to fetch promotions", details: error.message }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  }
+});
\ No newline at end of file
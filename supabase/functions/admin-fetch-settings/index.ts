@@ -1,4 +1,6 @@
 import { createClient } from "npm:@supabase/supabase-js@2.39.0";
+import { DEFAULT_CANCELLATION_POLICY } from "../_shared/cancellation.ts";
+import { DEFAULT_REMINDER_POLICIES } from "../_shared/reminderSchedule.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -112,6 +114,10 @@ Deno.serve(async (req) => {
         default_currency: "EUR",
         default_timezone: "Europe/Berlin",
         booking_auto_assign: false,
+        schedule_buffer_min: 30,
+        schedule_conflict_policy: "warn",
+        reminder_policies: DEFAULT_REMINDER_POLICIES,
+        cancellation_policy: DEFAULT_CANCELLATION_POLICY,
         driver_verification_required: true,
         admin_email_notifications: true,
         email_from_name: "Royal Transfer",
@@ -0,0 +1,249 @@
+import { createClient } from "npm:@supabase/supabase-js@2.39.0";
+import {
+  COMMITTED_TRIP_STATUSES,
+  describeConflicts,
+  findScheduleConflicts,
+  scheduleSettingsFrom,
+  toScheduleConflict,
+  tripWindow,
+  type ScheduleConflict
+} from "../_shared/driverSchedule.ts";
+import { normalizeOfferRequest, OPEN_OFFER_STATUSES } from "../_shared/tripOffers.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization",
+};
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 204,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    // Get authorization header
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: "Authorization header required" }),
+        {
+          status: 401,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const token = authHeader.replace("Bearer ", "");
+    
+    // Create Supabase admin client
+    const supabaseAdmin = createClient(
+      Deno.env.get("SUPABASE_URL") || "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") || "",
+      {
+        auth: {
+          persistSession: false,
+        }
+      }
+    );
+
+    // Verify the JWT token
+    const { data: { user }, error: authError } = await supabaseAdmin.auth.getUser(token);
+    
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({ error: "Invalid or expired token", details: authError }),
+        {
+          status: 401,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // Check if user is admin
+    const { data: userData, error: userError } = await supabaseAdmin
+      .from("users")
+      .select("user_role")
+      .eq("id", user.id)
+      .single();
+      
+    if (userError || userData?.user_role !== "admin") {
+      return new Response(
+        JSON.stringify({ error: "Admin permissions required" }),
+        {
+          status: 403,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const { request, errors } = normalizeOfferRequest(await req.json());
+
+    if (errors.length > 0) {
+      return new Response(
+        JSON.stringify({ error: errors.join("; ") }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const { data: booking, error: bookingError } = await supabaseAdmin
+      .from("trips")
+      .select("id, booking_reference, status, driver_id, datetime, estimated_duration_min")
+      .eq("id", request.bookingId)
+      .single();
+
+    if (bookingError || !booking) {
+      return new Response(
+        JSON.stringify({ error: "Booking not found" }),
+        {
+          status: 404,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    if (booking.status !== "pending" || booking.driver_id) {
+      return new Response(
+        JSON.stringify({ error: "Only pending bookings without a driver can be offered" }),
+        {
+          status: 409,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const { data: drivers, error: driversError } = await supabaseAdmin
+      .from("drivers")
+      .select("id, user_id")
+      .in("id", request.driverIds);
+
+    if (driversError) throw driversError;
+
+    const driverUserIds = new Map((drivers || []).map((driver: Record<string, any>) => [driver.id, driver.user_id]));
+    const missing = request.driverIds.filter(id => !driverUserIds.get(id));
+
+    if (missing.length > 0) {
+      return new Response(
+        JSON.stringify({ error: `Driver not found: ${missing.join(", ")}` }),
+        {
+          status: 404,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // Offered drivers must not have overlapping trips, as for a direct assignment
+    const { data: settingsRow } = await supabaseAdmin
+      .from("platform_settings")
+      .select("schedule_buffer_min, schedule_conflict_policy")
+      .limit(1)
+      .maybeSingle();
+
+    const schedule = scheduleSettingsFrom(settingsRow);
+    const bookingWindow = tripWindow(booking, schedule.bufferMin);
+
+    const { data: driverTrips, error: driverTripsError } = await supabaseAdmin
+      .from("trips")
+      .select("id, booking_reference, datetime, estimated_duration_min, driver_id")
+      .in("driver_id", [...driverUserIds.values()])
+      .in("status", COMMITTED_TRIP_STATUSES)
+      .neq("id", booking.id)
+      .gte("datetime", new Date(bookingWindow.start - 24 * 60 * 60 * 1000).toISOString())
+      .lt("datetime", new Date(bookingWindow.end).toISOString());
+
+    if (driverTripsError) throw driverTripsError;
+
+    const conflicts: Record<string, ScheduleConflict[]> = {};
+    for (const driverId of request.driverIds) {
+      const overlapping = findScheduleConflicts(
+        booking,
+        (driverTrips || []).filter((trip: Record<string, any>) => trip.driver_id === driverUserIds.get(driverId)),
+        schedule.bufferMin
+      );
+      if (overlapping.length > 0) conflicts[driverId] = overlapping.map(toScheduleConflict);
+    }
+
+    if (Object.keys(conflicts).length > 0 && (schedule.policy === "block" || !request.force)) {
+      return new Response(
+        JSON.stringify({
+          error: `Drivers have overlapping trips: ${describeConflicts(Object.values(conflicts).flat())}`,
+          conflicts,
+          canOverride: schedule.policy === "warn"
+        }),
+        {
+          status: 409,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // A new round replaces any offers still open
+    const { data: withdrawn, error: withdrawError } = await supabaseAdmin
+      .from("trip_offers")
+      .update({ status: "cancelled", responded_at: new Date().toISOString() })
+      .eq("trip_id", booking.id)
+      .in("status", OPEN_OFFER_STATUSES)
+      .select("id");
+
+    if (withdrawError) throw withdrawError;
+
+    const { data: offers, error: insertError } = await supabaseAdmin
+      .from("trip_offers")
+      .insert(request.driverIds.map((driverId, index) => ({
+        trip_id: booking.id,
+        driver_id: driverId,
+        driver_user_id: driverUserIds.get(driverId),
+        position: index + 1,
+        response_minutes: request.responseMinutes,
+        created_by: user.id
+      })))
+      .select();
+
+    if (insertError) throw insertError;
+
+    if (withdrawn && withdrawn.length > 0) {
+      await supabaseAdmin.from("booking_activity_logs").insert({
+        booking_id: booking.id,
+        user_id: user.id,
+        action: "offers_withdrawn",
+        details: {
+          offers: withdrawn.length,
+          timestamp: new Date().toISOString()
+        },
+        created_at: new Date().toISOString()
+      });
+    }
+
+    // Sends the first offer and logs it
+    const { data: outcome, error: advanceError } = await supabaseAdmin.rpc("advance_trip_offers", {
+      p_trip_id: booking.id
+    });
+
+    if (advanceError) throw advanceError;
+
+    return new Response(
+      JSON.stringify({ success: true, outcome, offers }),
+      {
+        status: 200,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  } catch (error) {
+    console.error("Error in admin-offer-trip:", error);
+
+    return new Response(
+      JSON.stringify({ error: "Failed to offer trip", details: error.message }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  }
+});
\ No newline at end of file
@@ -0,0 +1,221 @@
+import { createClient } from "npm:@supabase/supabase-js@2.39.0";
+import type { PriceSheet } from "../_shared/pricing.ts";
+import {
+  diffPriceSheets,
+  isRevertible,
+  revertChange,
+  sheetBeforeChanges
+} from "../_shared/pricingHistory.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization",
+};
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 204,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    // Get authorization header
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: "Authorization header required" }),
+        {
+          status: 401,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const token = authHeader.replace("Bearer ", "");
+    
+    // Create Supabase admin client
+    const supabaseAdmin = createClient(
+      Deno.env.get("SUPABASE_URL") || "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") || "",
+      {
+        auth: {
+          persistSession: false,
+        }
+      }
+    );
+
+    // Verify the JWT token
+    const { data: { user }, error: authError } = await supabaseAdmin.auth.getUser(token);
+    
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({ error: "Invalid or expired token", details: authError }),
+        {
+          status: 401,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // Check if user is admin
+    const { data: userData, error: userError } = await supabaseAdmin
+      .from("users")
+      .select("user_role")
+      .eq("id", user.id)
+      .single();
+      
+    if (userError || userData?.user_role !== "admin") {
+      return new Response(
+        JSON.stringify({ error: "Admin permissions required" }),
+        {
+          status: 403,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // Parse request body
+    const { logId, timestamp, dryRun = true } = await req.json();
+
+    if (!logId && !timestamp) {
+      return new Response(
+        JSON.stringify({ error: "Either logId or timestamp is required" }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    if (timestamp && Number.isNaN(Date.parse(timestamp))) {
+      return new Response(
+        JSON.stringify({ error: "Invalid timestamp" }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // Start from the live pricing tables
+    const { data: currentSheet, error: sheetError } = await supabaseAdmin.rpc("current_pricing_sheet");
+
+    if (sheetError) {
+      throw sheetError;
+    }
+
+    let targetSheet: PriceSheet;
+    let changesUndone: number;
+    let notes: string;
+
+    if (logId) {
+      const { data: log, error: logError } = await supabaseAdmin
+        .from("pricing_change_logs")
+        .select("id, change_type, previous_value, new_value, created_at")
+        .eq("id", logId)
+        .single();
+
+      if (logError || !log) {
+        return new Response(
+          JSON.stringify({ error: "Pricing change not found" }),
+          {
+            status: 404,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          }
+        );
+      }
+
+      if (!isRevertible(log)) {
+        return new Response(
+          JSON.stringify({ error: "This change has no recorded values and cannot be reverted" }),
+          {
+            status: 422,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          }
+        );
+      }
+
+      targetSheet = revertChange(currentSheet, log);
+      changesUndone = 1;
+      notes = `Reverted ${log.change_type.replace("_", " ")} change from ${log.created_at}`;
+    } else {
+      // Undo every change made after the chosen point in time
+      const restoreTo = new Date(timestamp).toISOString();
+      const { data: laterLogs, error: logsError } = await supabaseAdmin
+        .from("pricing_change_logs")
+        .select("id, change_type, previous_value, new_value, created_at")
+        .gt("created_at", restoreTo)
+        .order("created_at", { ascending: false });
+
+      if (logsError) {
+        throw logsError;
+      }
+
+      targetSheet = sheetBeforeChanges(currentSheet, laterLogs || []);
+      changesUndone = (laterLogs || []).filter(isRevertible).length;
+      notes = `Restored pricing to ${restoreTo}`;
+    }
+
+    // Add zone names so the preview is readable
+    const { data: zones } = await supabaseAdmin.from("zones").select("id, name");
+    const zoneNames = new Map<string, string>((zones || []).map(zone => [zone.id, zone.name]));
+    const withZoneNames = (sheet: PriceSheet): PriceSheet => ({
+      ...sheet,
+      zoneMultipliers: sheet.zoneMultipliers.map(m => ({ ...m, zone_name: zoneNames.get(m.zone_id) || m.zone_name }))
+    });
+
+    const diff = diffPriceSheets(withZoneNames(currentSheet), withZoneNames(targetSheet));
+
+    if (dryRun || diff.length === 0) {
+      return new Response(
+        JSON.stringify({ dryRun: true, changesUndone, diff }),
+        {
+          status: 200,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const { error: applyError } = await supabaseAdmin.rpc("apply_pricing_sheet", { sheet: targetSheet });
+
+    if (applyError) {
+      throw applyError;
+    }
+
+    // Log the rollback with both full sheets so it can be reverted too
+    await supabaseAdmin
+      .from("pricing_change_logs")
+      .insert({
+        changed_by: user.id,
+        change_type: "rollback",
+        previous_value: currentSheet,
+        new_value: logId
+          ? { ...targetSheet, rollback_of: logId }
+          : { ...targetSheet, restored_to: timestamp },
+        notes
+      });
+
+    return new Response(
+      JSON.stringify({ success: true, changesUndone, diff }),
+      {
+        status: 200,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+
+  } catch (error) {
+    console.error("Error rolling back pricing:", error);
+    
+    return new Response(
+      JSON.stringify({ error: "Failed to roll back pricing", details: error.message }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  }
+});
\ No newline at end of file
@@ -0,0 +1,174 @@
+import { createClient } from "npm:@supabase/supabase-js@2.39.0";
+import { MAX_BOOKING_VIEWS, validateBookingView } from "../_shared/bookingViews.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization",
+};
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 204,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    // Get authorization header
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: "Authorization header required" }),
+        {
+          status: 401,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const token = authHeader.replace("Bearer ", "");
+    
+    // Create Supabase admin client
+    const supabaseAdmin = createClient(
+      Deno.env.get("SUPABASE_URL") || "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") || "",
+      {
+        auth: {
+          persistSession: false,
+        }
+      }
+    );
+
+    // Verify the JWT token
+    const { data: { user }, error: authError } = await supabaseAdmin.auth.getUser(token);
+    
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({ error: "Invalid or expired token", details: authError }),
+        {
+          status: 401,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // Check if user is admin
+    const { data: userData, error: userError } = await supabaseAdmin
+      .from("users")
+      .select("user_role")
+      .eq("id", user.id)
+      .single();
+      
+    if (userError || userData?.user_role !== "admin") {
+      return new Response(
+        JSON.stringify({ error: "Admin permissions required" }),
+        {
+          status: 403,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const { view } = await req.json();
+
+    if (!view || typeof view !== "object") {
+      return new Response(
+        JSON.stringify({ error: "A view is required" }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const { name, filters, errors } = validateBookingView(view);
+    if (errors.length > 0) {
+      return new Response(
+        JSON.stringify({ error: `Invalid view: ${errors.join("; ")}` }),
+        {
+          status: 422,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    if (!view.id) {
+      const { count, error: countError } = await supabaseAdmin
+        .from("booking_views")
+        .select("id", { count: "exact", head: true })
+        .eq("user_id", user.id);
+
+      if (countError) throw countError;
+
+      if ((count || 0) >= MAX_BOOKING_VIEWS) {
+        return new Response(
+          JSON.stringify({ error: `You can save up to ${MAX_BOOKING_VIEWS} views; delete one first` }),
+          {
+            status: 422,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          }
+        );
+      }
+    }
+
+    // Admins can only change their own views
+    const { data: saved, error: saveError } = view.id
+      ? await supabaseAdmin
+        .from("booking_views")
+        .update({ name, filters, updated_at: new Date().toISOString() })
+        .eq("id", view.id)
+        .eq("user_id", user.id)
+        .select()
+        .maybeSingle()
+      : await supabaseAdmin
+        .from("booking_views")
+        .insert({ user_id: user.id, name, filters })
+        .select()
+        .single();
+
+    if (saveError) {
+      // Unique violation on the name
+      if (saveError.code === "23505") {
+        return new Response(
+          JSON.stringify({ error: `You already have a view called "${name}"` }),
+          {
+            status: 409,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          }
+        );
+      }
+      throw saveError;
+    }
+
+    if (!saved) {
+      return new Response(
+        JSON.stringify({ error: "View not found" }),
+        {
+          status: 404,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    return new Response(
+      JSON.stringify({ success: true, view: saved }),
+      {
+        status: 200,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  } catch (error) {
+    console.error("Error in admin-save-booking-view:", error);
+
+    return new Response(
+      JSON.stringify({ error: "Failed to save booking view", details: error.message }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  }
+});
\ No newline at end of file
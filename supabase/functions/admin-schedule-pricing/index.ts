@@ -0,0 +1,150 @@
+import { createClient } from "npm:@supabase/supabase-js@2.39.0";
+import { validatePriceSheet } from "../_shared/pricingConfig.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization",
+};
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 204,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    // Get authorization header
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: "Authorization header required" }),
+        {
+          status: 401,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const token = authHeader.replace("Bearer ", "");
+    
+    // Create Supabase admin client
+    const supabaseAdmin = createClient(
+      Deno.env.get("SUPABASE_URL") || "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") || "",
+      {
+        auth: {
+          persistSession: false,
+        }
+      }
+    );
+
+    // Verify the JWT token
+    const { data: { user }, error: authError } = await supabaseAdmin.auth.getUser(token);
+    
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({ error: "Invalid or expired token", details: authError }),
+        {
+          status: 401,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // Check if user is admin
+    const { data: userData, error: userError } = await supabaseAdmin
+      .from("users")
+      .select("user_role")
+      .eq("id", user.id)
+      .single();
+      
+    if (userError || userData?.user_role !== "admin") {
+      return new Response(
+        JSON.stringify({ error: "Admin permissions required" }),
+        {
+          status: 403,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // Parse request body
+    const { name, effectiveFrom, sheet } = await req.json();
+
+    if (!name?.trim() || !effectiveFrom || !sheet) {
+      return new Response(
+        JSON.stringify({ error: "Missing required parameters" }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const effectiveDate = new Date(effectiveFrom);
+    if (Number.isNaN(effectiveDate.getTime()) || effectiveDate.getTime() <= Date.now()) {
+      return new Response(
+        JSON.stringify({ error: "Effective date must be a valid date in the future" }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const validationErrors = validatePriceSheet(sheet);
+    if (validationErrors.length > 0) {
+      return new Response(
+        JSON.stringify({ error: `Invalid price sheet: ${validationErrors.join("; ")}`, details: validationErrors }),
+        {
+          status: 422,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // Stage the sheet; activate_due_pricing_schedules applies it once effective_from passes
+    const { data: schedule, error: insertError } = await supabaseAdmin
+      .from("pricing_schedules")
+      .insert({
+        name: name.trim(),
+        effective_from: effectiveDate.toISOString(),
+        sheet: {
+          vehiclePrices: sheet.vehiclePrices,
+          zoneMultipliers: sheet.zoneMultipliers,
+          fixedRoutes: sheet.fixedRoutes,
+          pricingRules: sheet.pricingRules || []
+        },
+        created_by: user.id
+      })
+      .select()
+      .single();
+
+    if (insertError) {
+      throw insertError;
+    }
+
+    return new Response(
+      JSON.stringify({ success: true, schedule }),
+      {
+        status: 200,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+
+  } catch (error) {
+    console.error("Error scheduling price sheet:", error);
+    
+    return new Response(
+      JSON.stringify({ error: "Failed to schedule price sheet", details: error.message }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  }
+});
\ No newline at end of file
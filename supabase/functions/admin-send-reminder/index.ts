@@ -3,6 +3,8 @@
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "npm:@supabase/supabase-js@2.38.4";
+import { deliverReminder } from "../_shared/reminders.ts";
+import { normalizeReminderRequest } from "../_shared/reminderTemplates.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -74,12 +76,12 @@ serve(async (req) => {
       );
     }
 
-    // Parse request body
-    const { bookingId } = await req.json();
+    // Parse request body; a bare bookingId sends the default template by email to the customer
+    const { request, errors } = normalizeReminderRequest(await req.json());
 
-    if (!bookingId) {
+    if (errors.length > 0) {
       return new Response(
-        JSON.stringify({ error: "Missing required parameter: bookingId" }),
+        JSON.stringify({ error: errors.join("; ") }),
         {
           status: 400,
           headers: { ...corsHeaders, "Content-Type": "application/json" },
@@ -91,7 +93,7 @@ serve(async (req) => {
     const { data: booking, error: bookingError } = await supabaseClient
       .from("trips")
       .select("*")
-      .eq("id", bookingId)
+      .eq("id", request.bookingId)
       .single();
 
     if (bookingError || !booking) {
@@ -104,8 +106,38 @@ serve(async (req) => {
       );
     }
 
-    // Update the booking to record the reminder
+    const deliveries = await deliverReminder(supabaseClient, request, userData.user.id);
+    const delivered = deliveries.filter(delivery => delivery.status === "sent");
     const now = new Date().toISOString();
+    const logDetails = {
+      timestamp: now,
+      template: request.template,
+      recipient: delivered.map(delivery => delivery.recipient).join(", ") || undefined,
+      deliveries: deliveries.map(({ id, recipient_type, channel, status, error }) => ({ id, recipient_type, channel, status, error }))
+    };
+
+    if (delivered.length === 0) {
+      await supabaseClient.from("booking_activity_logs").insert({
+        booking_id: request.bookingId,
+        user_id: userData.user.id,
+        action: "reminder_failed",
+        details: logDetails,
+        created_at: now
+      });
+
+      return new Response(
+        JSON.stringify({
+          error: `Reminder could not be delivered: ${deliveries.map(delivery => delivery.error).join("; ")}`,
+          deliveries
+        }),
+        {
+          status: 502,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // Update the booking to record the reminder
     const { data: updatedBooking, error } = await supabaseClient
       .from("trips")
       .update({ 
@@ -113,7 +145,7 @@ serve(async (req) => {
         // Increase priority level if not already urgent
         priority: booking.priority < 2 ? Math.max(booking.priority || 0, 1) : booking.priority
       })
-      .eq("id", bookingId)
+      .eq("id", request.bookingId)
       .select()
       .single();
 
@@ -123,24 +155,20 @@ serve(async (req) => {
 
     // Log the activity
     await supabaseClient.from("booking_activity_logs").insert({
-      booking_id: bookingId,
+      booking_id: request.bookingId,
       user_id: userData.user.id,
       action: "reminder_sent",
-      details: { 
-        timestamp: now,
-        recipient: booking.customer_email
-      },
+      details: logDetails,
       created_at: now
     });
 
-    // In a real scenario, you would send an actual email here
-    // This is a placeholder for that logic
-    console.log(`Reminder would be sent to ${booking.customer_email} for booking ${booking.booking_reference}`);
+    const failed = deliveries.length - delivered.length;
 
     return new Response(
       JSON.stringify({ 
         success: true, 
-        message: `Reminder sent to ${booking.customer_email}`,
+        message: `Reminder sent to ${logDetails.recipient}${failed > 0 ? ` (${failed} message(s) failed)` : ""}`,
+        deliveries,
         data: updatedBooking
       }),
       {
@@ -0,0 +1,338 @@
+import { createClient } from "npm:@supabase/supabase-js@2.39.0";
+import { quoteBookingCancellations } from "../_shared/bookingCancellations.ts";
+import { generateSeriesTrips, OPEN_SERIES_TRIP_STATUSES } from "../_shared/bookingSeries.ts";
+import { getLocalTimeParts } from "../_shared/pricing.ts";
+import {
+  formatRecurrenceRule,
+  localToday,
+  normalizeSeriesChanges,
+  normalizeSkipDates,
+  parsePickupTime,
+  parseRecurrenceRule,
+  SERIES_GENERATE_DAYS,
+  seriesOccurrences,
+  seriesSchedule,
+  shiftLocalDate,
+  zonedDateTime,
+  type BookingSeries
+} from "../_shared/recurrence.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization",
+};
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 204,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    // Get authorization header
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: "Authorization header required" }),
+        {
+          status: 401,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const token = authHeader.replace("Bearer ", "");
+    
+    // Create Supabase admin client
+    const supabaseAdmin = createClient(
+      Deno.env.get("SUPABASE_URL") || "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") || "",
+      {
+        auth: {
+          persistSession: false,
+        }
+      }
+    );
+
+    // Verify the JWT token
+    const { data: { user }, error: authError } = await supabaseAdmin.auth.getUser(token);
+    
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({ error: "Invalid or expired token", details: authError }),
+        {
+          status: 401,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // Check if user is admin
+    const { data: userData, error: userError } = await supabaseAdmin
+      .from("users")
+      .select("user_role")
+      .eq("id", user.id)
+      .single();
+      
+    if (userError || userData?.user_role !== "admin") {
+      return new Response(
+        JSON.stringify({ error: "Admin permissions required" }),
+        {
+          status: 403,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+
+    const body = await req.json();
+    const { bookingId, scope } = body;
+
+    const errors: string[] = [];
+    if (!bookingId) errors.push("Missing required parameter: bookingId");
+    if (scope !== "occurrence" && scope !== "series") errors.push("scope must be \"occurrence\" or \"series\"");
+
+    const { changes, errors: changeErrors } = normalizeSeriesChanges(body.changes);
+    errors.push(...changeErrors);
+
+    const pickupMinutes = body.pickupTime === undefined ? null : parsePickupTime(body.pickupTime);
+    if (body.pickupTime !== undefined && pickupMinutes === null) errors.push("Pickup time must be written as HH:mm");
+
+    const parsedRule = body.rrule === undefined ? null : parseRecurrenceRule(body.rrule);
+    const parsedSkipDates = body.skipDates === undefined ? null : normalizeSkipDates(body.skipDates);
+    if (scope === "occurrence" && (parsedRule || parsedSkipDates)) {
+      errors.push("The recurrence can only be changed for the whole series");
+    }
+    errors.push(...(parsedRule?.errors || []), ...(parsedSkipDates?.errors || []));
+
+    if (errors.length > 0) {
+      return new Response(
+        JSON.stringify({ error: errors.join("; ") }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const { data: booking, error: bookingError } = await supabaseAdmin
+      .from("trips")
+      .select("id, booking_reference, status, datetime, series_id, series_date, series:booking_series(*)")
+      .eq("id", bookingId)
+      .single();
+
+    if (bookingError || !booking) {
+      return new Response(
+        JSON.stringify({ error: "Booking not found" }),
+        {
+          status: 404,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const series = booking.series as unknown as BookingSeries | null;
+    if (!series) {
+      return new Response(
+        JSON.stringify({ error: `Booking ${booking.booking_reference} is not part of a recurring series` }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const now = new Date();
+    const timestamp = now.toISOString();
+
+    if (scope === "occurrence") {
+      if (!OPEN_SERIES_TRIP_STATUSES.includes(booking.status)) {
+        return new Response(
+          JSON.stringify({ error: `Booking ${booking.booking_reference} is ${booking.status} and can no longer be edited` }),
+          {
+            status: 400,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          }
+        );
+      }
+
+      const update: Record<string, unknown> = { ...changes, series_detached: true };
+      if (pickupMinutes !== null) {
+        const date = booking.series_date || getLocalTimeParts(booking.datetime, series.time_zone).date;
+        update.datetime = zonedDateTime(date, pickupMinutes, series.time_zone).toISOString();
+      }
+
+      const { data: updatedBooking, error: updateError } = await supabaseAdmin
+        .from("trips")
+        .update(update)
+        .eq("id", booking.id)
+        .select()
+        .single();
+
+      if (updateError) throw updateError;
+
+      await supabaseAdmin.from("booking_activity_logs").insert({
+        booking_id: booking.id,
+        user_id: user.id,
+        action: "series_occurrence_edited",
+        details: {
+          series_id: series.id,
+          fields_updated: Object.keys(changes),
+          pickup_time: body.pickupTime,
+          timestamp
+        },
+        created_at: timestamp
+      });
+
+      return new Response(
+        JSON.stringify({ scope, booking: updatedBooking }),
+        {
+          status: 200,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // Whole series: the series itself, then every upcoming trip not edited on its own
+    const startDate = getLocalTimeParts(series.starts_at, series.time_zone).date;
+    const updatedSeries: BookingSeries = {
+      ...series,
+      rrule: parsedRule ? formatRecurrenceRule(parsedRule.rule) : series.rrule,
+      skip_dates: parsedSkipDates ? parsedSkipDates.skipDates : series.skip_dates,
+      starts_at: pickupMinutes !== null
+        ? zonedDateTime(startDate, pickupMinutes, series.time_zone).toISOString()
+        : series.starts_at,
+      template: { ...series.template, ...changes },
+      status: "active"
+    };
+
+    const { error: seriesError } = await supabaseAdmin
+      .from("booking_series")
+      .update({
+        rrule: updatedSeries.rrule,
+        skip_dates: updatedSeries.skip_dates,
+        starts_at: updatedSeries.starts_at,
+        template: updatedSeries.template,
+        status: updatedSeries.status,
+        updated_at: timestamp
+      })
+      .eq("id", series.id);
+
+    if (seriesError) throw seriesError;
+
+    const today = localToday(series.time_zone, now);
+    const horizon = shiftLocalDate(today, SERIES_GENERATE_DAYS);
+    const throughDate = series.generated_through && series.generated_through > horizon ? series.generated_through : horizon;
+    const expected = new Map(
+      seriesOccurrences(seriesSchedule(updatedSeries), throughDate).map(occurrence => [occurrence.date, occurrence.datetime])
+    );
+
+    const { data: upcoming, error: upcomingError } = await supabaseAdmin
+      .from("trips")
+      .select("id, booking_reference, datetime, series_date")
+      .eq("series_id", series.id)
+      .eq("series_detached", false)
+      .in("status", OPEN_SERIES_TRIP_STATUSES)
+      .gt("datetime", timestamp);
+
+    if (upcomingError) throw upcomingError;
+
+    // Trips whose date left the series, e.g. a new skip date or an earlier end,
+    // are cancelled as any other booking is, under the cancellation policy
+    const removedIds = (upcoming || [])
+      .filter(trip => !expected.has(trip.series_date))
+      .map(trip => trip.id);
+    const cancellations = removedIds.length > 0
+      ? await quoteBookingCancellations(supabaseAdmin, removedIds, { reason: "Removed from the recurring series", now })
+      : {};
+
+    const updated: string[] = [];
+    const cancelled: string[] = [];
+
+    for (const trip of upcoming || []) {
+      const datetime = expected.get(trip.series_date);
+
+      if (!datetime) {
+        const { error } = await supabaseAdmin.rpc("apply_booking_cancellation", {
+          p_trip_id: trip.id,
+          p_cancellation: cancellations[trip.id],
+          p_actor: user.id
+        });
+
+        if (error) {
+          // Completed or cancelled since it was read
+          if (error.code === "P0001") continue;
+          throw error;
+        }
+
+        await supabaseAdmin.from("booking_activity_logs").insert({
+          booking_id: trip.id,
+          user_id: user.id,
+          action: "series_occurrence_removed",
+          details: { series_id: series.id, timestamp },
+          created_at: timestamp
+        });
+        cancelled.push(trip.booking_reference);
+        continue;
+      }
+
+      const moved = new Date(datetime).getTime() !== new Date(trip.datetime).getTime();
+      if (!moved && Object.keys(changes).length === 0) continue;
+
+      const { error } = await supabaseAdmin
+        .from("trips")
+        .update({ ...changes, datetime })
+        .eq("id", trip.id);
+      if (error) throw error;
+      updated.push(trip.booking_reference);
+    }
+
+    // Dates the series gained, from today on
+    const created = await generateSeriesTrips(supabaseAdmin, updatedSeries, user.id, { fromDate: today, now });
+
+    await supabaseAdmin.from("booking_activity_logs").insert({
+      booking_id: booking.id,
+      user_id: user.id,
+      action: "series_updated",
+      details: {
+        series_id: series.id,
+        rrule: updatedSeries.rrule,
+        skip_dates: updatedSeries.skip_dates,
+        fields_updated: Object.keys(changes),
+        pickup_time: body.pickupTime,
+        trips_updated: updated.length,
+        trips_cancelled: cancelled,
+        trips_created: created.length,
+        timestamp
+      },
+      created_at: timestamp
+    });
+
+    return new Response(
+      JSON.stringify({
+        scope,
+        updated,
+        cancelled,
+        created: created.map(trip => trip.booking_reference)
+      }),
+      {
+        status: 200,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  } catch (error) {
+    console.error("Error in admin-update-booking-series:", error);
+
+    return new Response(
+      JSON.stringify({ error: "Failed to update recurring series", details: error.message }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  }
+});
\ No newline at end of file
@@ -3,6 +3,7 @@
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "npm:@supabase/supabase-js@2.38.4";
+import { validateFlightDetails } from "../_shared/flights.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -87,13 +88,79 @@ serve(async (req) => {
       );
     }
 
+    // Status changes go through the trip state machine, and cancelling has its own
+    // function because it applies the cancellation policy
+    const { status, ...fields } = data;
+
+    if (status === "cancelled") {
+      return new Response(
+        JSON.stringify({ error: "Bookings are cancelled through admin-cancel-booking" }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // A flight is set or cleared as a whole; a different flight is tracked from scratch
+    if ("flight_number" in fields || "flight_scheduled_arrival" in fields) {
+      const flight = validateFlightDetails(fields.flight_number, fields.flight_scheduled_arrival);
+      if (flight.errors.length > 0) {
+        return new Response(
+          JSON.stringify({ error: flight.errors.join(". ") }),
+          {
+            status: 400,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          }
+        );
+      }
+
+      const { data: current, error: currentError } = await supabaseClient
+        .from("trips")
+        .select("flight_number, flight_scheduled_arrival")
+        .eq("id", bookingId)
+        .single();
+
+      if (currentError) throw currentError;
+
+      const unchanged = current.flight_number === flight.flightNumber &&
+        (current.flight_scheduled_arrival ? new Date(current.flight_scheduled_arrival).toISOString() : null) === flight.scheduledArrival;
+
+      Object.assign(fields, {
+        flight_number: flight.flightNumber,
+        flight_scheduled_arrival: flight.scheduledArrival,
+        // Re-saving the same flight keeps its tracking, which the pickup may already follow
+        ...(unchanged ? {} : { flight_estimated_arrival: null, flight_status: null, flight_checked_at: null })
+      });
+    }
+
+    if (status !== undefined) {
+      const { error: statusError } = await supabaseClient.rpc("transition_trip_status", {
+        p_trip_id: bookingId,
+        p_status: status,
+        p_actor: userData.user.id,
+        p_role: "admin"
+      });
+
+      if (statusError) {
+        // Raised for transitions the state machine does not allow
+        if (statusError.code === "P0001") {
+          return new Response(
+            JSON.stringify({ error: statusError.message }),
+            {
+              status: 409,
+              headers: { ...corsHeaders, "Content-Type": "application/json" },
+            }
+          );
+        }
+        throw statusError;
+      }
+    }
+
     // Update the booking
-    const { data: updatedBooking, error } = await supabaseClient
-      .from("trips")
-      .update(data)
-      .eq("id", bookingId)
-      .select()
-      .single();
+    const { data: updatedBooking, error } = Object.keys(fields).length > 0
+      ? await supabaseClient.from("trips").update(fields).eq("id", bookingId).select().single()
+      : await supabaseClient.from("trips").select().eq("id", bookingId).single();
 
     if (error) {
       throw error;
@@ -0,0 +1,143 @@
+import { createClient } from "npm:@supabase/supabase-js@2.39.0";
+import { MAX_CUSTOMER_NOTES_LENGTH } from "../_shared/customers.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization",
+};
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 204,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    // Get authorization header
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: "Authorization header required" }),
+        {
+          status: 401,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const token = authHeader.replace("Bearer ", "");
+    
+    // Create Supabase admin client
+    const supabaseAdmin = createClient(
+      Deno.env.get("SUPABASE_URL") || "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") || "",
+      {
+        auth: {
+          persistSession: false,
+        }
+      }
+    );
+
+    // Verify the JWT token
+    const { data: { user }, error: authError } = await supabaseAdmin.auth.getUser(token);
+    
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({ error: "Invalid or expired token", details: authError }),
+        {
+          status: 401,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // Check if user is admin
+    const { data: userData, error: userError } = await supabaseAdmin
+      .from("users")
+      .select("user_role")
+      .eq("id", user.id)
+      .single();
+      
+    if (userError || userData?.user_role !== "admin") {
+      return new Response(
+        JSON.stringify({ error: "Admin permissions required" }),
+        {
+          status: 403,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const { customerId, name, notes } = await req.json();
+
+    const changes: Record<string, unknown> = {};
+    const errors: string[] = [];
+
+    if (!customerId) errors.push("Missing required parameter: customerId");
+
+    if (name !== undefined) {
+      if (typeof name !== "string" || !name.trim()) errors.push("Enter the customer's name");
+      else changes.name = name.trim();
+    }
+
+    if (notes !== undefined) {
+      const text = typeof notes === "string" ? notes.trim() : "";
+      if (text.length > MAX_CUSTOMER_NOTES_LENGTH) errors.push(`Notes are at most ${MAX_CUSTOMER_NOTES_LENGTH} characters`);
+      else changes.notes = text || null;
+    }
+
+    if (errors.length === 0 && Object.keys(changes).length === 0) errors.push("Nothing to update");
+
+    if (errors.length > 0) {
+      return new Response(
+        JSON.stringify({ error: errors.join("; ") }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const { data: customer, error: updateError } = await supabaseAdmin
+      .from("customers")
+      .update({ ...changes, updated_at: new Date().toISOString() })
+      .eq("id", customerId)
+      .is("merged_into_id", null)
+      .select("id, name, email, phone, user_id, notes, created_at, updated_at")
+      .maybeSingle();
+
+    if (updateError) throw updateError;
+
+    if (!customer) {
+      return new Response(
+        JSON.stringify({ error: "Customer not found" }),
+        {
+          status: 404,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    return new Response(
+      JSON.stringify({ customer }),
+      {
+        status: 200,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  } catch (error) {
+    console.error("Error in admin-update-customer:", error);
+
+    return new Response(
+      JSON.stringify({ error: "Failed to update customer", details: error.message }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  }
+});
\ No newline at end of file
@@ -76,8 +76,13 @@ Deno.serve(async (req) => {
     const vehiclePrices = Array.isArray(requestData.vehiclePrices) ? requestData.vehiclePrices : [];
     const zoneMultipliers = Array.isArray(requestData.zoneMultipliers) ? requestData.zoneMultipliers : [];
     const fixedRoutes = Array.isArray(requestData.fixedRoutes) ? requestData.fixedRoutes : [];
+    const pricingRules = Array.isArray(requestData.pricingRules) ? requestData.pricingRules : [];
+    const deletedPricingRuleIds = Array.isArray(requestData.deletedPricingRuleIds) ? requestData.deletedPricingRuleIds : [];
     
-    if (!vehiclePrices.length && !zoneMultipliers.length && !fixedRoutes.length) {
+    if (
+      !vehiclePrices.length && !zoneMultipliers.length && !fixedRoutes.length &&
+      !pricingRules.length && !deletedPricingRuleIds.length
+    ) {
       return new Response(
         JSON.stringify({ error: "Missing required pricing data" }),
         {
@@ -90,7 +95,8 @@ Deno.serve(async (req) => {
     const successResults = {
       vehiclePrices: { success: 0, error: 0 },
       zoneMultipliers: { success: 0, error: 0 },
-      fixedRoutes: { success: 0, error: 0 }
+      fixedRoutes: { success: 0, error: 0 },
+      pricingRules: { success: 0, error: 0 }
     };
 
     // Process vehicle base prices
@@ -105,9 +111,11 @@ Deno.serve(async (req) => {
           // Store the previous state for logging
           const previousValue = { vehicle_type: '', base_price_per_km: 0 };
           
-          const { error: insertError } = await supabaseAdmin
+          const { data: insertedPrice, error: insertError } = await supabaseAdmin
             .from("vehicle_base_prices")
-            .insert(newPrice);
+            .insert(newPrice)
+            .select()
+            .single();
             
           if (insertError) throw insertError;
           
@@ -116,7 +124,7 @@ Deno.serve(async (req) => {
             changed_by: user.id,
             change_type: 'base_price',
             previous_value: previousValue,
-            new_value: newPrice,
+            new_value: insertedPrice,
             notes: 'New vehicle base price added'
           });
           
@@ -180,9 +188,11 @@ Deno.serve(async (req) => {
           // Store previous value for logging
           const previousValue = { zone_id: multiplier.zone_id, multiplier: 1.0 };
           
-          const { error: insertError } = await supabaseAdmin
+          const { data: insertedMultiplier, error: insertError } = await supabaseAdmin
             .from("zone_multipliers")
-            .insert(newMultiplier);
+            .insert(newMultiplier)
+            .select()
+            .single();
             
           if (insertError) throw insertError;
           
@@ -191,7 +201,7 @@ Deno.serve(async (req) => {
             changed_by: user.id,
             change_type: 'zone_multiplier',
             previous_value: previousValue,
-            new_value: newMultiplier,
+            new_value: insertedMultiplier,
             notes: 'New zone multiplier added'
           });
           
@@ -255,9 +265,11 @@ Deno.serve(async (req) => {
           // Store previous value for logging
           const previousValue = { origin_name: '', destination_name: '', vehicle_type: '', fixed_price: 0 };
           
-          const { error: insertError } = await supabaseAdmin
+          const { data: insertedRoute, error: insertError } = await supabaseAdmin
             .from("fixed_routes")
-            .insert(newRoute);
+            .insert(newRoute)
+            .select()
+            .single();
             
           if (insertError) throw insertError;
           
@@ -266,7 +278,7 @@ Deno.serve(async (req) => {
             changed_by: user.id,
             change_type: 'fixed_route',
             previous_value: previousValue,
-            new_value: newRoute,
+            new_value: insertedRoute,
             notes: 'New fixed route added'
           });
           
@@ -300,7 +312,11 @@ Deno.serve(async (req) => {
             currentRoute.origin_name !== route.origin_name ||
             currentRoute.destination_name !== route.destination_name ||
             currentRoute.vehicle_type !== route.vehicle_type ||
-            parseFloat(currentRoute.fixed_price) !== parseFloat(route.fixed_price)
+            parseFloat(currentRoute.fixed_price) !== parseFloat(route.fixed_price) ||
+            (currentRoute.origin_zone_id || null) !== (route.origin_zone_id || null) ||
+            (currentRoute.destination_zone_id || null) !== (route.destination_zone_id || null) ||
+            Boolean(currentRoute.is_bidirectional) !== Boolean(route.is_bidirectional) ||
+            JSON.stringify(currentRoute.stops || []) !== JSON.stringify(route.stops || [])
           ) {
             await supabaseAdmin.from("pricing_change_logs").insert({
               changed_by: user.id,
@@ -320,6 +336,120 @@ Deno.serve(async (req) => {
       }
     }
 
+    // Process pricing rules
+    for (const rule of pricingRules) {
+      try {
+        if (!rule) continue;
+        
+        if (rule.id && rule.id.startsWith('new_')) {
+          // It's a new record, insert it; the database assigns the id
+          const newRule = {
+            name: rule.name,
+            adjustment_type: rule.adjustment_type,
+            value: rule.value,
+            start_time: rule.start_time,
+            end_time: rule.end_time,
+            weekdays: rule.weekdays,
+            start_date: rule.start_date,
+            end_date: rule.end_date,
+            vehicle_type: rule.vehicle_type,
+            zone_id: rule.zone_id,
+            is_active: rule.is_active
+          };
+          
+          const { data: insertedRule, error: insertError } = await supabaseAdmin
+            .from("pricing_rules")
+            .insert(newRule)
+            .select()
+            .single();
+            
+          if (insertError) throw insertError;
+          
+          // Log the pricing change
+          await supabaseAdmin.from("pricing_change_logs").insert({
+            changed_by: user.id,
+            change_type: 'pricing_rule',
+            previous_value: {},
+            new_value: insertedRule,
+            notes: 'New pricing rule added'
+          });
+          
+          successResults.pricingRules.success++;
+        } else if (rule.id) {
+          // Get current value for logging
+          const { data: currentRule, error: fetchError } = await supabaseAdmin
+            .from("pricing_rules")
+            .select('*')
+            .eq('id', rule.id)
+            .single();
+            
+          if (fetchError) {
+            console.error(`Error fetching current pricing rule for ${rule.id}:`, fetchError);
+            successResults.pricingRules.error++;
+            continue;
+          }
+          
+          // Extract ID and update
+          const { id, ...updateRule } = rule;
+          
+          const { error: updateError } = await supabaseAdmin
+            .from("pricing_rules")
+            .update({ ...updateRule, updated_at: new Date().toISOString() })
+            .eq("id", id);
+            
+          if (updateError) throw updateError;
+          
+          // Log the change if any rule field changed
+          const changed = Object.keys(updateRule).some(key =>
+            JSON.stringify(currentRule[key]) !== JSON.stringify(updateRule[key])
+          );
+          
+          if (changed) {
+            await supabaseAdmin.from("pricing_change_logs").insert({
+              changed_by: user.id,
+              change_type: 'pricing_rule',
+              previous_value: currentRule,
+              new_value: updateRule,
+              notes: 'Pricing rule updated'
+            });
+          }
+          
+          successResults.pricingRules.success++;
+        }
+      } catch (error) {
+        console.error('Error processing pricing rule:', error);
+        successResults.pricingRules.error++;
+        // Continue with other items
+      }
+    }
+
+    // Remove deleted pricing rules
+    for (const ruleId of deletedPricingRuleIds) {
+      try {
+        const { data: deletedRule, error: deleteError } = await supabaseAdmin
+          .from("pricing_rules")
+          .delete()
+          .eq("id", ruleId)
+          .select()
+          .single();
+          
+        if (deleteError) throw deleteError;
+        
+        await supabaseAdmin.from("pricing_change_logs").insert({
+          changed_by: user.id,
+          change_type: 'pricing_rule',
+          previous_value: deletedRule,
+          new_value: {},
+          notes: 'Pricing rule deleted'
+        });
+        
+        successResults.pricingRules.success++;
+      } catch (error) {
+        console.error('Error deleting pricing rule:', error);
+        successResults.pricingRules.error++;
+      }
+    }
+
     // Refresh the pricing cache by calling the refresh endpoint
     try {
       await fetch(`${Deno.env.get("SUPABASE_URL")}/functions/v1/refresh-pricing-cache`, {
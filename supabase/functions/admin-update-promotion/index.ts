@@ -0,0 +1,170 @@
+import { createClient } from "npm:@supabase/supabase-js@2.39.0";
+import { normalizePromoCode, validatePromoCode } from "../_shared/promo.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization",
+};
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 204,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    // Get authorization header
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: "Authorization header required" }),
+        {
+          status: 401,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const token = authHeader.replace("Bearer ", "");
+    
+    // Create Supabase admin client
+    const supabaseAdmin = createClient(
+      Deno.env.get("SUPABASE_URL") || "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") || "",
+      {
+        auth: {
+          persistSession: false,
+        }
+      }
+    );
+
+    // Verify the JWT token
+    const { data: { user }, error: authError } = await supabaseAdmin.auth.getUser(token);
+    
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({ error: "Invalid or expired token", details: authError }),
+        {
+          status: 401,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // Check if user is admin
+    const { data: userData, error: userError } = await supabaseAdmin
+      .from("users")
+      .select("user_role")
+      .eq("id", user.id)
+      .single();
+      
+    if (userError || userData?.user_role !== "admin") {
+      return new Response(
+        JSON.stringify({ error: "Admin permissions required" }),
+        {
+          status: 403,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const { promotion } = await req.json();
+
+    if (!promotion || typeof promotion !== "object") {
+      return new Response(
+        JSON.stringify({ error: "A promotion is required" }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const errors = validatePromoCode(promotion);
+    if (errors.length > 0) {
+      return new Response(
+        JSON.stringify({ error: `Invalid promotion: ${errors.join("; ")}` }),
+        {
+          status: 422,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // Empty restrictions and limits are stored as null, meaning unrestricted
+    const values = {
+      code: normalizePromoCode(promotion.code),
+      description: promotion.description?.trim() || null,
+      discount_type: promotion.discount_type,
+      value: Number(promotion.value),
+      max_uses: promotion.max_uses ? Number(promotion.max_uses) : null,
+      max_uses_per_customer: promotion.max_uses_per_customer ? Number(promotion.max_uses_per_customer) : null,
+      valid_from: promotion.valid_from || null,
+      valid_until: promotion.valid_until || null,
+      vehicle_types: promotion.vehicle_types?.length ? promotion.vehicle_types : null,
+      zone_ids: promotion.zone_ids?.length ? promotion.zone_ids : null,
+      is_active: promotion.is_active !== false
+    };
+
+    const isNew = !promotion.id || String(promotion.id).startsWith("new_");
+    const { data: saved, error: saveError } = isNew
+      ? await supabaseAdmin
+        .from("promo_codes")
+        .insert({ ...values, created_by: user.id })
+        .select()
+        .single()
+      : await supabaseAdmin
+        .from("promo_codes")
+        .update({ ...values, updated_at: new Date().toISOString() })
+        .eq("id", promotion.id)
+        .select()
+        .maybeSingle();
+
+    if (saveError) {
+      // Unique violation on the code
+      if (saveError.code === "23505") {
+        return new Response(
+          JSON.stringify({ error: `Promo code ${values.code} already exists` }),
+          {
+            status: 409,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          }
+        );
+      }
+      throw saveError;
+    }
+
+    if (!saved) {
+      return new Response(
+        JSON.stringify({ error: "Promotion not found" }),
+        {
+          status: 404,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    return new Response(
+      JSON.stringify({ success: true, promotion: saved }),
+      {
+        status: 200,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+
+  } catch (error) {
+    console.error("Error saving promotion:", error);
+    
+    return new Response(
+      JSON.stringify({ error: "Failed to save promotion", details: error.message }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  }
+});
\ No newline at end of file
@@ -1,4 +1,6 @@
 import { createClient } from "npm:@supabase/supabase-js@2.39.0";
+import { normalizeCancellationPolicy } from "../_shared/cancellation.ts";
+import { normalizeReminderPolicies } from "../_shared/reminderSchedule.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -43,6 +45,40 @@ Deno.serve(async (req) => {
       );
     }
 
+    // Automatic reminders are only sent for policies that pass validation
+    if (settings.reminder_policies !== undefined) {
+      const { policies, errors } = normalizeReminderPolicies(settings.reminder_policies);
+
+      if (errors.length > 0) {
+        return new Response(
+          JSON.stringify({ error: errors.join("; ") }),
+          {
+            status: 400,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          }
+        );
+      }
+
+      settings.reminder_policies = policies;
+    }
+
+    // Cancellation fees are computed from the saved policy, so it must be complete
+    if (settings.cancellation_policy !== undefined) {
+      const { policy, errors } = normalizeCancellationPolicy(settings.cancellation_policy);
+
+      if (errors.length > 0) {
+        return new Response(
+          JSON.stringify({ error: errors.join("; ") }),
+          {
+            status: 400,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          }
+        );
+      }
+
+      settings.cancellation_policy = policy;
+    }
+
     // Initialize Supabase client with token
     const supabase = createClient(
       Deno.env.get("SUPABASE_URL") || "",
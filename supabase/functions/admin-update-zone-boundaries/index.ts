@@ -0,0 +1,202 @@
+import { createClient } from "npm:@supabase/supabase-js@2.39.0";
+import { checkZoneCoverage, validateZoneBoundary } from "../_shared/zoneCoverage.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization",
+};
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 204,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    // Get authorization header
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: "Authorization header required" }),
+        {
+          status: 401,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const token = authHeader.replace("Bearer ", "");
+    
+    // Create Supabase admin client
+    const supabaseAdmin = createClient(
+      Deno.env.get("SUPABASE_URL") || "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") || "",
+      {
+        auth: {
+          persistSession: false,
+        }
+      }
+    );
+
+    // Verify the JWT token
+    const { data: { user }, error: authError } = await supabaseAdmin.auth.getUser(token);
+    
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({ error: "Invalid or expired token", details: authError }),
+        {
+          status: 401,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // Check if user is admin
+    const { data: userData, error: userError } = await supabaseAdmin
+      .from("users")
+      .select("user_role")
+      .eq("id", user.id)
+      .single();
+      
+    if (userError || userData?.user_role !== "admin") {
+      return new Response(
+        JSON.stringify({ error: "Admin permissions required" }),
+        {
+          status: 403,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const { zones: updates } = await req.json();
+
+    if (!Array.isArray(updates) || updates.length === 0) {
+      return new Response(
+        JSON.stringify({ error: "At least one zone is required" }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const { data: zones, error: zonesError } = await supabaseAdmin
+      .from("zones")
+      .select("id, name, boundary, center_lat, center_lng");
+
+    if (zonesError) throw zonesError;
+
+    const currentZones = new Map<string, Record<string, any>>((zones || []).map(zone => [zone.id, zone]));
+
+    // Validate every boundary before saving any of them; null clears a boundary
+    for (const update of updates) {
+      const zone = currentZones.get(update?.id);
+
+      if (!zone) {
+        return new Response(
+          JSON.stringify({ error: `Zone ${update?.id} not found` }),
+          {
+            status: 404,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          }
+        );
+      }
+
+      const errors = update.boundary === null ? [] : validateZoneBoundary(update.boundary);
+      if (errors.length > 0) {
+        return new Response(
+          JSON.stringify({ error: `Invalid boundary for ${zone.name}: ${errors.join("; ")}` }),
+          {
+            status: 422,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          }
+        );
+      }
+    }
+
+    // Check coverage with the new boundaries in place
+    const updatedIds = new Set(updates.map(update => update.id));
+    const mergedZones = (zones || []).map(zone => {
+      const update = updates.find(u => u.id === zone.id);
+      return update ? { ...zone, boundary: update.boundary } : zone;
+    });
+    const issues = checkZoneCoverage(mergedZones);
+
+    // Overlaps already present between untouched zones do not block the save
+    const overlaps = issues.filter(issue =>
+      issue.type === "overlap" && issue.zoneIds.some(id => updatedIds.has(id))
+    );
+
+    if (overlaps.length > 0) {
+      const names = overlaps
+        .map(issue => issue.zoneIds.map(id => currentZones.get(id)?.name).join(" and "))
+        .join("; ");
+
+      return new Response(
+        JSON.stringify({ error: `Zone boundaries overlap: ${names}`, issues: overlaps }),
+        {
+          status: 422,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    let updated = 0;
+
+    for (const update of updates) {
+      const previous = currentZones.get(update.id)!;
+      const values = {
+        boundary: update.boundary,
+        center_lat: update.center_lat ?? previous.center_lat,
+        center_lng: update.center_lng ?? previous.center_lng
+      };
+
+      const { error: updateError } = await supabaseAdmin
+        .from("zones")
+        .update(values)
+        .eq("id", update.id);
+
+      if (updateError) throw updateError;
+
+      if (JSON.stringify(previous.boundary) !== JSON.stringify(values.boundary)) {
+        await supabaseAdmin.from("pricing_change_logs").insert({
+          changed_by: user.id,
+          change_type: "zone_boundary",
+          previous_value: previous,
+          new_value: { ...previous, ...values },
+          notes: values.boundary ? `Boundary of ${previous.name} updated` : `Boundary of ${previous.name} removed`
+        });
+      }
+
+      updated++;
+    }
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        updated,
+        // Remaining gaps and untouched overlaps are returned as warnings
+        issues
+      }),
+      {
+        status: 200,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+
+  } catch (error) {
+    console.error("Error updating zone boundaries:", error);
+    
+    return new Response(
+      JSON.stringify({ error: "Failed to update zone boundaries", details: error.message }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  }
+});
\ No newline at end of file
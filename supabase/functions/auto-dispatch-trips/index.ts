@@ -0,0 +1,387 @@
+import { createClient } from "npm:@supabase/supabase-js@2.39.0";
+import {
+  chooseDriver,
+  describeDecision,
+  DISPATCH_WORKLOAD_DAYS,
+  escalationEmail,
+  NO_DRIVER_TAG,
+  type DispatchDriver,
+  type DispatchResult,
+  type DriverTrip
+} from "../_shared/dispatch.ts";
+import { scheduleSettingsFrom } from "../_shared/driverSchedule.ts";
+import { createNotificationProviders } from "../_shared/notifications.ts";
+import { OPEN_OFFER_STATUSES } from "../_shared/tripOffers.ts";
+
+/** Trips read at a time in a dispatch run */
+const MAX_DISPATCH_BATCH = 50;
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization",
+};
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 204,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    // Get authorization header
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: "Authorization header required" }),
+        {
+          status: 401,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const token = authHeader.replace("Bearer ", "");
+    
+    
+    // Create Supabase admin client
+    const supabaseAdmin = createClient(
+      Deno.env.get("SUPABASE_URL") || "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") || "",
+      {
+        auth: {
+          persistSession: false,
+        }
+      }
+    );
+
+    // The scheduled run authenticates with the service role key; anyone else
+    // must be an admin
+    let actorId: string | null = null;
+    if (token !== Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")) {
+      const { data: { user }, error: authError } = await supabaseAdmin.auth.getUser(token);
+
+      if (authError || !user) {
+        return new Response(
+          JSON.stringify({ error: "Invalid or expired token", details: authError }),
+          {
+            status: 401,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          }
+        );
+      }
+
+      const { data: userData, error: userError } = await supabaseAdmin
+        .from("users")
+        .select("user_role")
+        .eq("id", user.id)
+        .single();
+
+      if (userError || userData?.user_role !== "admin") {
+        return new Response(
+          JSON.stringify({ error: "Admin permissions required" }),
+          {
+            status: 403,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          }
+        );
+      }
+      actorId = user.id;
+    }
+
+    const { bookingId } = await req.json().catch(() => ({}));
+
+    const { data: settings, error: settingsError } = await supabaseAdmin
+      .from("platform_settings")
+      .select("booking_auto_assign, driver_verification_required, admin_email_notifications, schedule_buffer_min, default_timezone")
+      .limit(1)
+      .maybeSingle();
+
+    if (settingsError) throw settingsError;
+
+    if (!settings?.booking_auto_assign) {
+      return new Response(
+        JSON.stringify({ enabled: false, results: [] }),
+        {
+          status: 200,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const now = new Date();
+
+    // Pending trips without a driver, soonest first. Escalated trips stay
+    // pending until a driver qualifies, so a run pages through all of them
+    // rather than taking a fixed batch that they could fill
+    const fetchPendingTrips = async (after?: Record<string, any>) => {
+      let tripsQuery = supabaseAdmin
+        .from("trips")
+        .select("id, booking_reference, datetime, vehicle_type, passengers, estimated_duration_min, priority, internal_tags")
+        .eq("status", "pending")
+        .is("driver_id", null);
+
+      if (bookingId) {
+        tripsQuery = tripsQuery.eq("id", bookingId);
+      } else {
+        tripsQuery = tripsQuery.gt("datetime", now.toISOString());
+        if (after) {
+          tripsQuery = tripsQuery.or(`datetime.gt."${after.datetime}",and(datetime.eq."${after.datetime}",id.gt.${after.id})`);
+        }
+        tripsQuery = tripsQuery
+          .order("datetime", { ascending: true })
+          .order("id", { ascending: true })
+          .limit(MAX_DISPATCH_BATCH);
+      }
+
+      const { data: trips, error: tripsError } = await tripsQuery;
+      if (tripsError) throw tripsError;
+
+      const rows = trips || [];
+      if (rows.length === 0) return { trips: rows, last: null, more: false };
+
+      // Trips being offered to drivers are left to the offer round
+      const { data: openOffers, error: offersError } = await supabaseAdmin
+        .from("trip_offers")
+        .select("trip_id")
+        .in("trip_id", rows.map((trip: Record<string, any>) => trip.id))
+        .in("status", OPEN_OFFER_STATUSES);
+
+      if (offersError) throw offersError;
+
+      const offered = new Set((openOffers || []).map((offer: Record<string, any>) => offer.trip_id));
+      return {
+        trips: rows.filter((trip: Record<string, any>) => !offered.has(trip.id)),
+        last: rows[rows.length - 1],
+        more: !bookingId && rows.length === MAX_DISPATCH_BATCH
+      };
+    };
+
+    let page: Awaited<ReturnType<typeof fetchPendingTrips>> | null = await fetchPendingTrips();
+
+    if (bookingId && page.trips.length === 0) {
+      return new Response(
+        JSON.stringify({ error: "Booking is not a pending trip without a driver or open offers" }),
+        {
+          status: 409,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    if (page.trips.length === 0 && !page.more) {
+      return new Response(
+        JSON.stringify({ enabled: true, results: [] }),
+        {
+          status: 200,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const { data: driverRows, error: driversError } = await supabaseAdmin
+      .from("drivers")
+      .select(`
+        id, user_id, is_available, verification_status,
+        user:users!drivers_user_id_fkey(name),
+        vehicle:vehicles(vehicle_type, capacity)
+      `);
+
+    if (driversError) throw driversError;
+
+    const drivers: DispatchDriver[] = (driverRows || []).map((driver: Record<string, any>) => ({
+      id: driver.id,
+      user_id: driver.user_id,
+      name: driver.user?.name || null,
+      is_available: driver.is_available,
+      verification_status: driver.verification_status,
+      vehicle: Array.isArray(driver.vehicle) ? driver.vehicle[0] || null : driver.vehicle
+    }));
+
+    // Trips drivers already have, for conflicts and recent workload
+    const workloadStart = new Date(now.getTime() - DISPATCH_WORKLOAD_DAYS * 24 * 60 * 60 * 1000);
+    const { data: assignedRows, error: assignedError } = await supabaseAdmin
+      .from("trips")
+      .select("id, booking_reference, driver_id, status, datetime, estimated_duration_min")
+      .not("driver_id", "is", null)
+      .in("status", ["accepted", "in_progress", "completed"])
+      .gte("datetime", workloadStart.toISOString());
+
+    if (assignedError) throw assignedError;
+
+    const driverTrips: DriverTrip[] = assignedRows || [];
+    const { bufferMin } = scheduleSettingsFrom(settings);
+    const results: DispatchResult[] = [];
+
+    // Admins are emailed about escalations; looked up on the first one
+    const emailProvider = settings.admin_email_notifications ? createNotificationProviders().email : undefined;
+    let adminEmails: string[] | null = null;
+
+    const fetchAdminEmails = async (): Promise<string[]> => {
+      const { data: admins, error: adminsError } = await supabaseAdmin
+        .from("users")
+        .select("email")
+        .eq("user_role", "admin");
+
+      if (adminsError) throw adminsError;
+      return (admins || []).map((admin: Record<string, any>) => admin.email).filter(Boolean);
+    };
+
+    const notifyAdmins = async (subject: string, text: string): Promise<number> => {
+      if (!emailProvider) return 0;
+
+      const recipients = adminEmails || await fetchAdminEmails();
+      adminEmails = recipients;
+
+      // A failed email does not stop the run; the escalation is in the activity log either way
+      let sent = 0;
+      for (const to of recipients) {
+        try {
+          await emailProvider.send({ channel: "email", to, subject, text });
+          sent++;
+        } catch (error) {
+          console.error(`Escalation email to ${to} failed:`, error);
+        }
+      }
+      return sent;
+    };
+
+    // Trips are dispatched one at a time so each assignment counts towards
+    // the conflicts and workload of the next
+    while (page) {
+      for (const trip of page.trips) {
+        const decision = chooseDriver(trip, drivers, driverTrips, {
+          requireVerification: settings.driver_verification_required !== false,
+          bufferMin,
+          now
+        });
+        const reason = describeDecision(decision);
+        const candidates = decision.candidates.map(c => ({
+          driver_id: c.driverId,
+          name: c.name,
+          eligible: c.eligible,
+          reasons: c.reasons,
+          recent_trips: c.recentTrips
+        }));
+        const timestamp = new Date().toISOString();
+        const tags: string[] = trip.internal_tags || [];
+
+        if (decision.selected) {
+          const { data: updated, error: updateError } = await supabaseAdmin
+            .from("trips")
+            .update({
+              driver_id: decision.selected.driverUserId,
+              status: "accepted",
+              internal_tags: tags.filter(tag => tag !== NO_DRIVER_TAG)
+            })
+            .eq("id", trip.id)
+            .eq("status", "pending")
+            .is("driver_id", null)
+            .select("id");
+
+          if (updateError) throw updateError;
+
+          // Someone assigned the trip since it was read
+          if (!updated || updated.length === 0) {
+            results.push({ bookingId: trip.id, bookingReference: trip.booking_reference, outcome: "skipped", reason: "Trip was updated by someone else" });
+            continue;
+          }
+
+          driverTrips.push({
+            id: trip.id,
+            booking_reference: trip.booking_reference,
+            driver_id: decision.selected.driverUserId,
+            status: "accepted",
+            datetime: trip.datetime,
+            estimated_duration_min: trip.estimated_duration_min
+          });
+
+          await supabaseAdmin.from("booking_activity_logs").insert({
+            booking_id: trip.id,
+            user_id: actorId,
+            action: "auto_dispatched",
+            details: {
+              driver_id: decision.selected.driverId,
+              driver_user_id: decision.selected.driverUserId,
+              driver_name: decision.selected.name,
+              reason,
+              candidates,
+              timestamp
+            },
+            created_at: timestamp
+          });
+
+          results.push({
+            bookingId: trip.id,
+            bookingReference: trip.booking_reference,
+            outcome: "assigned",
+            driverId: decision.selected.driverId,
+            driverName: decision.selected.name,
+            reason
+          });
+          continue;
+        }
+
+        // Escalate once; later runs keep retrying quietly until a driver qualifies
+        if (!tags.includes(NO_DRIVER_TAG)) {
+          const { error: escalateError } = await supabaseAdmin
+            .from("trips")
+            .update({
+              priority: 2,
+              internal_tags: [...tags, NO_DRIVER_TAG]
+            })
+            .eq("id", trip.id);
+
+          if (escalateError) throw escalateError;
+
+          const email = escalationEmail(trip, decision, { timeZone: settings.default_timezone || undefined });
+          const adminsNotified = await notifyAdmins(email.subject, email.text);
+
+          await supabaseAdmin.from("booking_activity_logs").insert({
+            booking_id: trip.id,
+            user_id: actorId,
+            action: "dispatch_escalated",
+            details: {
+              previous_priority: trip.priority ?? 0,
+              reason,
+              candidates,
+              admins_notified: adminsNotified,
+              timestamp
+            },
+            created_at: timestamp
+          });
+        }
+
+        results.push({
+          bookingId: trip.id,
+          bookingReference: trip.booking_reference,
+          outcome: "escalated",
+          reason
+        });
+      }
+
+      page = page.more ? await fetchPendingTrips(page.last!) : null;
+    }
+
+    return new Response(
+      JSON.stringify({ enabled: true, results }),
+      {
+        status: 200,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  } catch (error) {
+    console.error("Error in auto-dispatch-trips:", error);
+
+    return new Response(
+      JSON.stringify({ error: "Failed to dispatch trips", details: error.message }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  }
+});
\ No newline at end of file
@@ -0,0 +1,126 @@
+import { createClient } from "npm:@supabase/supabase-js@2.39.0";
+import { generateSeriesTrips } from "../_shared/bookingSeries.ts";
+import type { BookingSeries } from "../_shared/recurrence.ts";
+
+/** Most series handled in one run; the rest follow on the next run */
+const MAX_SERIES_BATCH = 200;
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization",
+};
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 204,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    // Get authorization header
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: "Authorization header required" }),
+        {
+          status: 401,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const token = authHeader.replace("Bearer ", "");
+    
+    // Create Supabase admin client
+    const supabaseAdmin = createClient(
+      Deno.env.get("SUPABASE_URL") || "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") || "",
+      {
+        auth: {
+          persistSession: false,
+        }
+      }
+    );
+
+    // The scheduled run authenticates with the service role key; anyone else
+    // must be an admin
+    let actorId: string | null = null;
+    if (token !== Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")) {
+      const { data: { user }, error: authError } = await supabaseAdmin.auth.getUser(token);
+
+      if (authError || !user) {
+        return new Response(
+          JSON.stringify({ error: "Invalid or expired token", details: authError }),
+          {
+            status: 401,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          }
+        );
+      }
+
+      const { data: userData, error: userError } = await supabaseAdmin
+        .from("users")
+        .select("user_role")
+        .eq("id", user.id)
+        .single();
+
+      if (userError || userData?.user_role !== "admin") {
+        return new Response(
+          JSON.stringify({ error: "Admin permissions required" }),
+          {
+            status: 403,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          }
+        );
+      }
+      actorId = user.id;
+    }
+
+    const now = new Date();
+
+    // Active series whose trips have not been created far enough ahead, least recently generated first
+    const { data: seriesRows, error: seriesError } = await supabaseAdmin
+      .from("booking_series")
+      .select("*")
+      .eq("status", "active")
+      .order("generated_through", { ascending: true, nullsFirst: true })
+      .limit(MAX_SERIES_BATCH);
+
+    if (seriesError) throw seriesError;
+
+    const results: { seriesId: string; created: string[]; error?: string }[] = [];
+
+    for (const series of (seriesRows || []) as BookingSeries[]) {
+      try {
+        const created = await generateSeriesTrips(supabaseAdmin, series, actorId, { now });
+        results.push({ seriesId: series.id, created: created.map(trip => trip.booking_reference) });
+      } catch (error) {
+        // One broken series should not hold up the others
+        console.error(`Generating trips for series ${series.id} failed:`, error);
+        results.push({ seriesId: series.id, created: [], error: error.message || String(error) });
+      }
+    }
+
+    return new Response(
+      JSON.stringify({ results }),
+      {
+        status: 200,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  } catch (error) {
+    console.error("Error in generate-recurring-bookings:", error);
+
+    return new Response(
+      JSON.stringify({ error: "Failed to generate recurring bookings", details: error.message }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  }
+});
\ No newline at end of file
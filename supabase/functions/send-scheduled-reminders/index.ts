@@ -0,0 +1,244 @@
+import { createClient } from "npm:@supabase/supabase-js@2.39.0";
+import { createNotificationProviders } from "../_shared/notifications.ts";
+import {
+  dueReminderPolicy,
+  policyRecipients,
+  REMINDER_BOOKING_STATUSES,
+  type ReminderPolicy,
+  type ReminderScheduleBooking
+} from "../_shared/reminderSchedule.ts";
+import { deliverReminder } from "../_shared/reminders.ts";
+
+/** Bookings read at a time in a reminder run */
+const MAX_REMINDER_BATCH = 100;
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization",
+};
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 204,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    // Get authorization header
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: "Authorization header required" }),
+        {
+          status: 401,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const token = authHeader.replace("Bearer ", "");
+
+    // Create Supabase admin client
+    const supabaseAdmin = createClient(
+      Deno.env.get("SUPABASE_URL") || "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") || "",
+      {
+        auth: {
+          persistSession: false,
+        }
+      }
+    );
+
+    // The scheduled run authenticates with the service role key; anyone else
+    // must be an admin
+    let actorId: string | null = null;
+    if (token !== Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")) {
+      const { data: { user }, error: authError } = await supabaseAdmin.auth.getUser(token);
+
+      if (authError || !user) {
+        return new Response(
+          JSON.stringify({ error: "Invalid or expired token", details: authError }),
+          {
+            status: 401,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          }
+        );
+      }
+
+      const { data: userData, error: userError } = await supabaseAdmin
+        .from("users")
+        .select("user_role")
+        .eq("id", user.id)
+        .single();
+
+      if (userError || userData?.user_role !== "admin") {
+        return new Response(
+          JSON.stringify({ error: "Admin permissions required" }),
+          {
+            status: 403,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          }
+        );
+      }
+      actorId = user.id;
+    }
+
+    const { bookingId } = await req.json().catch(() => ({}));
+
+    const { data: settings, error: settingsError } = await supabaseAdmin
+      .from("platform_settings")
+      .select("reminder_policies")
+      .limit(1)
+      .maybeSingle();
+
+    if (settingsError) throw settingsError;
+
+    const policies = ((settings?.reminder_policies || []) as ReminderPolicy[]).filter(policy => policy.enabled);
+
+    if (policies.length === 0) {
+      return new Response(
+        JSON.stringify({ enabled: false, results: [] }),
+        {
+          status: 200,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const now = new Date();
+    const horizon = Math.max(...policies.map(policy => policy.minutes_before));
+
+    // Upcoming bookings close enough to pickup for at least one policy, soonest
+    // first. Most bookings in the window have no reminder due yet or already
+    // had it, so a run pages through the whole window rather than a fixed batch
+    const fetchTrips = async (after?: Record<string, any>) => {
+      let tripsQuery = supabaseAdmin
+        .from("trips")
+        .select("id, booking_reference, datetime, status, driver_id, last_reminder_sent, reminders_opt_out")
+        .in("status", REMINDER_BOOKING_STATUSES)
+        .eq("reminders_opt_out", false)
+        .gt("datetime", now.toISOString());
+
+      if (bookingId) {
+        tripsQuery = tripsQuery.eq("id", bookingId);
+      } else {
+        tripsQuery = tripsQuery.lte("datetime", new Date(now.getTime() + horizon * 60_000).toISOString());
+        if (after) {
+          tripsQuery = tripsQuery.or(`datetime.gt."${after.datetime}",and(datetime.eq."${after.datetime}",id.gt.${after.id})`);
+        }
+        tripsQuery = tripsQuery
+          .order("datetime", { ascending: true })
+          .order("id", { ascending: true })
+          .limit(MAX_REMINDER_BATCH);
+      }
+
+      const { data: trips, error: tripsError } = await tripsQuery;
+      if (tripsError) throw tripsError;
+
+      const rows = (trips || []) as (ReminderScheduleBooking & Record<string, any>)[];
+      if (rows.length === 0) return { trips: rows, attempted: new Map<string, string[]>(), last: null, more: false };
+
+      // Policies already run for these bookings, delivered or not
+      const { data: previous, error: previousError } = await supabaseAdmin
+        .from("notification_deliveries")
+        .select("booking_id, policy_id")
+        .in("booking_id", rows.map(trip => trip.id))
+        .not("policy_id", "is", null);
+
+      if (previousError) throw previousError;
+
+      const attempted = new Map<string, string[]>();
+      for (const row of (previous || []) as Record<string, any>[]) {
+        attempted.set(row.booking_id, [...(attempted.get(row.booking_id) || []), row.policy_id]);
+      }
+
+      return {
+        trips: rows,
+        attempted,
+        last: rows[rows.length - 1],
+        more: !bookingId && rows.length === MAX_REMINDER_BATCH
+      };
+    };
+
+    const providers = createNotificationProviders();
+    const results: Record<string, unknown>[] = [];
+    let page: Awaited<ReturnType<typeof fetchTrips>> | null = await fetchTrips();
+
+    while (page) {
+      for (const trip of page.trips) {
+        const policy = dueReminderPolicy(trip, policies, now, page.attempted.get(trip.id));
+        if (!policy) continue;
+
+        // e.g. a driver-only reminder before a driver is assigned; tried again on the next run
+        const recipients = policyRecipients(policy, trip);
+        if (recipients.length === 0) continue;
+
+        const deliveries = await deliverReminder(
+          supabaseAdmin,
+          { bookingId: trip.id, template: policy.template, recipients, channels: policy.channels },
+          actorId,
+          { providers, policyId: policy.id }
+        );
+        const delivered = deliveries.filter(delivery => delivery.status === "sent");
+        const timestamp = new Date().toISOString();
+
+        if (delivered.length > 0) {
+          const { error: updateError } = await supabaseAdmin
+            .from("trips")
+            .update({ last_reminder_sent: timestamp })
+            .eq("id", trip.id);
+
+          if (updateError) throw updateError;
+        }
+
+        await supabaseAdmin.from("booking_activity_logs").insert({
+          booking_id: trip.id,
+          user_id: actorId,
+          action: delivered.length > 0 ? "reminder_sent" : "reminder_failed",
+          details: {
+            timestamp,
+            template: policy.template,
+            policy_id: policy.id,
+            minutes_before: policy.minutes_before,
+            automatic: true,
+            recipient: delivered.map(delivery => delivery.recipient).join(", ") || undefined,
+            deliveries: deliveries.map(({ id, recipient_type, channel, status, error }) => ({ id, recipient_type, channel, status, error }))
+          },
+          created_at: timestamp
+        });
+
+        results.push({
+          bookingId: trip.id,
+          bookingReference: trip.booking_reference,
+          policyId: policy.id,
+          sent: delivered.length,
+          failed: deliveries.length - delivered.length
+        });
+      }
+
+      page = page.more ? await fetchTrips(page.last!) : null;
+    }
+
+    return new Response(
+      JSON.stringify({ enabled: true, results }),
+      {
+        status: 200,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  } catch (error) {
+    console.error("Error in send-scheduled-reminders:", error);
+
+    return new Response(
+      JSON.stringify({ error: "Failed to send scheduled reminders", details: error.message }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  }
+});
\ No newline at end of file
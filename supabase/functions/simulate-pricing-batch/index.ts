@@ -0,0 +1,320 @@
+import { createClient } from "npm:@supabase/supabase-js@2.39.0";
+import { findZoneForPoint, type LatLng } from "../_shared/geo.ts";
+import { createGeocodingProviders, geocodeWithProviders, type GeocodeResult } from "../_shared/geocoding.ts";
+import type { PriceSheet, QuoteRequest } from "../_shared/pricing.ts";
+import { loadPricingConfig, pricingConfigFromSheet, validatePriceSheet } from "../_shared/pricingConfig.ts";
+import {
+  MAX_SCENARIO_TRIPS,
+  quoteScenarioTrip,
+  summarizeScenario,
+  type ScenarioTrip,
+  type ScenarioTripResult
+} from "../_shared/pricingScenario.ts";
+import { createRoutingProvider, routeVia } from "../_shared/routing.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization",
+};
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 204,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    // Get authorization header
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: "Authorization header required" }),
+        {
+          status: 401,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const token = authHeader.replace("Bearer ", "");
+    
+    // Create Supabase admin client
+    const supabaseAdmin = createClient(
+      Deno.env.get("SUPABASE_URL") || "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") || "",
+      {
+        auth: {
+          persistSession: false,
+        }
+      }
+    );
+
+    // Verify the JWT token
+    const { data: { user }, error: authError } = await supabaseAdmin.auth.getUser(token);
+    
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({ error: "Invalid or expired token", details: authError }),
+        {
+          status: 401,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // Check if user is admin
+    const { data: userData, error: userError } = await supabaseAdmin
+      .from("users")
+      .select("user_role")
+      .eq("id", user.id)
+      .single();
+      
+    if (userError || userData?.user_role !== "admin") {
+      return new Response(
+        JSON.stringify({ error: "Admin permissions required" }),
+        {
+          status: 403,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // Parse request body
+    const { trips, recentBookings, draftSheet, compareScheduleId } = await req.json();
+
+    const pastedTrips: ScenarioTrip[] = Array.isArray(trips) ? trips : [];
+    const bookingCount = recentBookings ? Number(recentBookings) : 0;
+
+    if (pastedTrips.length === 0 && !bookingCount) {
+      return new Response(
+        JSON.stringify({ error: "Provide trips to quote or a number of recent bookings" }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    if (
+      pastedTrips.length > MAX_SCENARIO_TRIPS ||
+      (bookingCount && !(Number.isInteger(bookingCount) && bookingCount > 0 && bookingCount <= MAX_SCENARIO_TRIPS))
+    ) {
+      return new Response(
+        JSON.stringify({ error: `A batch can contain between 1 and ${MAX_SCENARIO_TRIPS} trips` }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    if (!draftSheet && !compareScheduleId) {
+      return new Response(
+        JSON.stringify({ error: "A draft price sheet or a scheduled sheet to compare with is required" }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const config = await loadPricingConfig(supabaseAdmin);
+
+    // The draft is either the admin's unsaved edits or a staged price sheet
+    let sheet: PriceSheet = draftSheet;
+    if (!sheet) {
+      const { data: schedule, error: scheduleError } = await supabaseAdmin
+        .from("pricing_schedules")
+        .select("sheet")
+        .eq("id", compareScheduleId)
+        .single();
+
+      if (scheduleError || !schedule) {
+        return new Response(
+          JSON.stringify({ error: "Scheduled price sheet not found" }),
+          {
+            status: 404,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          }
+        );
+      }
+      sheet = schedule.sheet;
+    }
+
+    const validationErrors = validatePriceSheet(sheet);
+    if (validationErrors.length > 0) {
+      return new Response(
+        JSON.stringify({ error: `Invalid draft price sheet: ${validationErrors.join("; ")}`, details: validationErrors }),
+        {
+          status: 422,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const draftConfig = pricingConfigFromSheet(sheet, config.timeZone);
+    const results: ScenarioTripResult[] = [];
+
+    if (bookingCount) {
+      // Recent bookings already carry their distance and zones, so they are
+      // re-quoted without geocoding. Custom fees are left out as pricing
+      // changes do not affect them.
+      const { data: bookings, error: bookingsError } = await supabaseAdmin
+        .from("trips")
+        .select("booking_reference, datetime, pickup_address, dropoff_address, vehicle_type, estimated_distance_km, estimated_price, pickup_zone_id, dropoff_zone_id, surge_multiplier")
+        .neq("status", "cancelled")
+        .not("vehicle_type", "is", null)
+        .not("estimated_distance_km", "is", null)
+        .order("datetime", { ascending: false })
+        .limit(bookingCount);
+
+      if (bookingsError) {
+        throw bookingsError;
+      }
+
+      (bookings || []).forEach((booking: Record<string, any>) => {
+        const request: QuoteRequest = {
+          vehicleType: booking.vehicle_type,
+          distanceKm: Number(booking.estimated_distance_km),
+          originName: booking.pickup_address || undefined,
+          destinationName: booking.dropoff_address || undefined,
+          pickupZone: booking.pickup_zone_id ? { id: booking.pickup_zone_id } : null,
+          dropoffZone: booking.dropoff_zone_id ? { id: booking.dropoff_zone_id } : null,
+          pickupTime: booking.datetime,
+          surgeMultiplier: booking.surge_multiplier || undefined
+        };
+
+        results.push({
+          index: results.length,
+          label: `${booking.pickup_address || "Unknown pickup"} → ${booking.dropoff_address || "Unknown dropoff"}`,
+          vehicleType: booking.vehicle_type,
+          pickupTime: booking.datetime,
+          bookingReference: booking.booking_reference,
+          bookedPrice: booking.estimated_price,
+          distanceKm: request.distanceKm,
+          ...quoteScenarioTrip(config, draftConfig, request)
+        });
+      });
+    }
+
+    if (pastedTrips.length > 0) {
+      const { data: zones, error: zonesError } = await supabaseAdmin
+        .from("zones")
+        .select("id, name, boundary, center_lat, center_lng");
+
+      if (zonesError) {
+        throw zonesError;
+      }
+
+      const geocoders = createGeocodingProviders(zones || []);
+      const routingProvider = createRoutingProvider();
+
+      // Batches tend to repeat the same airports and hotels, so each address is looked up once
+      const geocodeCache = new Map<string, Promise<GeocodeResult | null>>();
+      const geocode = (query: string) => {
+        const key = query.trim().toLowerCase();
+        if (!geocodeCache.has(key)) {
+          geocodeCache.set(key, geocodeWithProviders(query, geocoders));
+        }
+        return geocodeCache.get(key)!;
+      };
+
+      // Trips are resolved one at a time to stay within geocoding rate limits
+      for (const trip of pastedTrips) {
+        const origin = String(trip?.origin || "").trim();
+        const destination = String(trip?.destination || "").trim();
+        const vehicleType = String(trip?.vehicleType || "").trim();
+        const stopNames = (Array.isArray(trip?.stops) ? trip.stops : [])
+          .map(stop => String(stop || "").trim())
+          .filter(Boolean);
+        const base = {
+          index: results.length,
+          label: `${origin || "?"} → ${destination || "?"}`,
+          vehicleType,
+          pickupTime: trip?.pickupTime || null
+        };
+
+        if (!origin || !destination || !vehicleType) {
+          results.push({ ...base, error: "Origin, destination and vehicle type are required" });
+          continue;
+        }
+        if (trip.pickupTime && Number.isNaN(Date.parse(trip.pickupTime))) {
+          results.push({ ...base, error: "Invalid pickup time" });
+          continue;
+        }
+
+        const [originPoint, destinationPoint, ...stopPoints] = await Promise.all([
+          geocode(origin),
+          geocode(destination),
+          ...stopNames.map(geocode)
+        ]);
+
+        const unresolvedStop = stopPoints.findIndex(point => !point);
+        const unresolved = !originPoint
+          ? "origin"
+          : !destinationPoint
+            ? "destination"
+            : unresolvedStop >= 0 ? `stop ${unresolvedStop + 1}` : null;
+
+        if (unresolved) {
+          results.push({ ...base, error: `Could not resolve ${unresolved} location` });
+          continue;
+        }
+
+        const points = [originPoint, ...stopPoints, destinationPoint] as LatLng[];
+        const route = await routeVia(routingProvider, points);
+        const pickupZone = findZoneForPoint(zones || [], originPoint!);
+        const dropoffZone = findZoneForPoint(zones || [], destinationPoint!);
+
+        const request: QuoteRequest = {
+          vehicleType,
+          distanceKm: route.distanceKm,
+          originName: origin,
+          destinationName: destination,
+          pickupZone: pickupZone ? { id: pickupZone.id, name: pickupZone.name } : null,
+          dropoffZone: dropoffZone ? { id: dropoffZone.id, name: dropoffZone.name } : null,
+          stops: stopNames.map((name, index) => {
+            const zone = findZoneForPoint(zones || [], stopPoints[index]!);
+            return { name, zone: zone ? { id: zone.id, name: zone.name } : null };
+          }),
+          // Time-based rules are evaluated for the given pickup, or for now
+          pickupTime: trip.pickupTime ? new Date(trip.pickupTime).toISOString() : new Date().toISOString()
+        };
+
+        results.push({
+          ...base,
+          pickupTime: request.pickupTime as string,
+          distanceKm: route.distanceKm,
+          ...quoteScenarioTrip(config, draftConfig, request)
+        });
+      }
+    }
+
+    return new Response(
+      JSON.stringify({
+        trips: results,
+        summary: summarizeScenario(results),
+        timeZone: config.timeZone
+      }),
+      {
+        status: 200,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+
+  } catch (error) {
+    console.error("Unexpected error:", error);
+
+    return new Response(
+      JSON.stringify({ error: "Failed to compare pricing scenarios", details: error.message }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  }
+});
\ No newline at end of file
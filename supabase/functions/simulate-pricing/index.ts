@@ -1,4 +1,11 @@
 import { createClient } from "npm:@supabase/supabase-js@2.39.0";
+import { findZoneForPoint } from "../_shared/geo.ts";
+import { createGeocodingProviders, geocodeWithProviders } from "../_shared/geocoding.ts";
+import { calculateQuote, findFixedRoute, PricingError, roundCurrency, type PromoInput } from "../_shared/pricing.ts";
+import { loadPricingConfig, pricingConfigFromSheet } from "../_shared/pricingConfig.ts";
+import { checkPromoCode, PROMO_REJECTION_MESSAGES, toPromoInput } from "../_shared/promo.ts";
+import { lookupPromoCode } from "../_shared/promoCodes.ts";
+import { createRoutingProvider, routeVia } from "../_shared/routing.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -72,7 +79,18 @@ Deno.serve(async (req) => {
     }
 
     // Parse request body
-    const { origin, destination, vehicleType } = await req.json();
+    const {
+      origin,
+      destination,
+      vehicleType,
+      pickupTime,
+      surgeMultiplier,
+      customFees,
+      compareScheduleId,
+      stops = [],
+      promoCode,
+      customerEmail
+    } = await req.json();
     
     if (!origin || !destination || !vehicleType) {
       return new Response(
@@ -84,80 +102,214 @@ Deno.serve(async (req) => {
       );
     }
 
-    // Check for fixed route first
-    const { data: fixedRoute } = await supabaseAdmin
-      .from("fixed_routes")
-      .select("*")
-      .eq("origin_name", origin)
-      .eq("destination_name", destination)
-      .eq("vehicle_type", vehicleType)
-      .maybeSingle();
+    if (pickupTime && Number.isNaN(Date.parse(pickupTime))) {
+      return new Response(
+        JSON.stringify({ error: "Invalid pickup time" }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // Intermediate stops, in travel order
+    const stopNames: string[] = (Array.isArray(stops) ? stops : [])
+      .map((stop: unknown) => String(stop || "").trim())
+      .filter(Boolean);
+
+    const config = await loadPricingConfig(supabaseAdmin);
 
-    if (fixedRoute) {
+    // Routes matched by place name can be priced without geocoding
+    const namedFixedRoute = findFixedRoute(config, {
+      vehicleType,
+      originName: origin,
+      destinationName: destination,
+      stops: stopNames.map(name => ({ name }))
+    });
+
+    if (
+      !config.vehiclePrices.some(p => p.vehicle_type === vehicleType) &&
+      !config.fixedRoutes.some(r => r.vehicle_type === vehicleType)
+    ) {
+      return new Response(
+        JSON.stringify({ error: "Vehicle type not found" }),
+        {
+          status: 404,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // Load zones with their geometry for geocoding fallback and zone detection
+    const { data: zones, error: zonesError } = await supabaseAdmin
+      .from("zones")
+      .select("id, name, boundary, center_lat, center_lng");
+
+    if (zonesError) {
+      throw zonesError;
+    }
+
+    // Resolve origin, stops and destination into coordinates
+    const geocoders = createGeocodingProviders(zones || []);
+    const [originPoint, destinationPoint, ...stopPoints] = await Promise.all([
+      geocodeWithProviders(origin, geocoders),
+      geocodeWithProviders(destination, geocoders),
+      ...stopNames.map(name => geocodeWithProviders(name, geocoders))
+    ]);
+
+    // Coordinates are only optional when a fixed route matched by name
+    const unresolvedStop = stopPoints.findIndex(point => !point);
+    const unresolved = !originPoint
+      ? "origin"
+      : !destinationPoint
+        ? "destination"
+        : unresolvedStop >= 0 ? `stop ${unresolvedStop + 1}` : null;
+
+    if (!namedFixedRoute && unresolved) {
       return new Response(
         JSON.stringify({
-          distance: 0, // Not applicable for fixed routes
-          basePrice: fixedRoute.fixed_price,
-          zoneMultiplier: 1,
-          finalPrice: fixedRoute.fixed_price,
-          breakdown: [
-            {
-              description: "Fixed Route Price",
-              amount: fixedRoute.fixed_price
-            }
-          ],
-          isFixedRoute: true
+          error: `Could not resolve ${unresolved} location`,
+          details: "Enter an address, a zone name or coordinates as \"lat,lng\""
         }),
         {
-          status: 200,
+          status: 422,
           headers: { ...corsHeaders, "Content-Type": "application/json" },
         }
       );
     }
 
-    // Get base price for vehicle type
-    const { data: vehiclePrice } = await supabaseAdmin
-      .from("vehicle_base_prices")
-      .select("base_price_per_km")
-      .eq("vehicle_type", vehicleType)
-      .single();
+    // Calculate route distance through every stop
+    const route = !unresolved && originPoint && destinationPoint
+      ? await routeVia(createRoutingProvider(), [originPoint, ...stopPoints.map(point => point!), destinationPoint])
+      : null;
+
+    // Detect the pickup, stop and dropoff zones; the pickup zone drives the multiplier
+    const pickupZone = originPoint ? findZoneForPoint(zones || [], originPoint) : null;
+    const dropoffZone = destinationPoint ? findZoneForPoint(zones || [], destinationPoint) : null;
+    const resolvedStops = stopNames.map((name, index) => {
+      const point = stopPoints[index];
+      const zone = point ? findZoneForPoint(zones || [], point) : null;
+      return { name, point, zone: zone ? { id: zone.id, name: zone.name } : null };
+    });
+
+    // Time-based rules are evaluated for the requested pickup, or for now
+    const quotedPickupTime = pickupTime ? new Date(pickupTime).toISOString() : new Date().toISOString();
 
-    if (!vehiclePrice) {
+    // Apply a promo code the same way the validate-promo-code endpoint checks it
+    let promoResult: Record<string, unknown> | null = null;
+    let promo: PromoInput | null = null;
+    if (promoCode) {
+      const found = await lookupPromoCode(supabaseAdmin, promoCode, { email: customerEmail || null });
+      const check = found
+        ? checkPromoCode(
+          found.promo,
+          { at: quotedPickupTime, vehicleType, zoneIds: [pickupZone?.id, dropoffZone?.id] },
+          found.usage
+        )
+        : { valid: false, reason: "not_found", message: PROMO_REJECTION_MESSAGES.not_found };
+
+      promo = found && check.valid ? toPromoInput(found.promo) : null;
+      promoResult = { code: found?.promo.code || promoCode, ...check };
+    }
+
+    const quoteRequest = {
+      vehicleType,
+      distanceKm: route?.distanceKm || 0,
+      originName: origin,
+      destinationName: destination,
+      pickupZone: pickupZone ? { id: pickupZone.id, name: pickupZone.name } : null,
+      dropoffZone: dropoffZone ? { id: dropoffZone.id, name: dropoffZone.name } : null,
+      stops: resolvedStops.map(stop => ({ name: stop.name, zone: stop.zone })),
+      pickupTime: quotedPickupTime,
+      surgeMultiplier,
+      customFees,
+      promo
+    };
+
+    let quote;
+    try {
+      quote = calculateQuote(config, quoteRequest);
+    } catch (error) {
+      if (!(error instanceof PricingError)) throw error;
       return new Response(
-        JSON.stringify({ error: "Vehicle type not found" }),
+        JSON.stringify({ error: error.message }),
         {
-          status: 404,
+          status: 422,
           headers: { ...corsHeaders, "Content-Type": "application/json" },
         }
       );
     }
 
-    // Simulate distance calculation (in a real app, use Google Maps API)
-    const simulatedDistance = Math.floor(Math.random() * 50) + 10; // 10-60km
-    const basePrice = vehiclePrice.base_price_per_km * simulatedDistance;
+    // Quote the same trip against a scheduled price sheet for side-by-side preview
+    let comparison: Record<string, unknown> | null = null;
+    if (compareScheduleId) {
+      const { data: schedule, error: scheduleError } = await supabaseAdmin
+        .from("pricing_schedules")
+        .select("id, name, effective_from, status, sheet")
+        .eq("id", compareScheduleId)
+        .single();
 
-    // Get zone multiplier (simplified - in reality, would need proper zone detection)
-    const zoneMultiplier = 1.2; // Example multiplier
+      if (scheduleError || !schedule) {
+        return new Response(
+          JSON.stringify({ error: "Scheduled price sheet not found" }),
+          {
+            status: 404,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          }
+        );
+      }
 
-    const finalPrice = basePrice * zoneMultiplier;
+      const scheduleInfo = {
+        scheduleId: schedule.id,
+        name: schedule.name,
+        effectiveFrom: schedule.effective_from,
+        status: schedule.status
+      };
+
+      try {
+        const scheduledQuote = calculateQuote(pricingConfigFromSheet(schedule.sheet, config.timeZone), quoteRequest);
+        comparison = {
+          ...scheduleInfo,
+          finalPrice: scheduledQuote.total,
+          difference: roundCurrency(scheduledQuote.total - quote.total),
+          breakdown: scheduledQuote.lineItems.map(item => ({
+            description: item.description,
+            amount: item.amount
+          })),
+          quote: scheduledQuote
+        };
+      } catch (error) {
+        if (!(error instanceof PricingError)) throw error;
+        comparison = { ...scheduleInfo, error: error.message };
+      }
+    }
+
+    const baseLine = quote.lineItems.find(item => item.type === "base_fare" || item.type === "fixed_route");
 
     return new Response(
       JSON.stringify({
-        distance: simulatedDistance,
-        basePrice,
-        zoneMultiplier,
-        finalPrice,
-        breakdown: [
-          {
-            description: `Base Rate (${simulatedDistance}km × €${vehiclePrice.base_price_per_km}/km)`,
-            amount: basePrice
-          },
-          {
-            description: "Zone Multiplier Adjustment",
-            amount: basePrice * (zoneMultiplier - 1)
-          }
-        ],
-        isFixedRoute: false
+        distance: quote.distanceKm,
+        durationMin: route?.durationMin,
+        routingProvider: route?.provider,
+        basePrice: baseLine?.amount || 0,
+        zoneMultiplier: quote.zoneMultiplier,
+        finalPrice: quote.total,
+        breakdown: quote.lineItems.map(item => ({
+          description: item.description,
+          amount: item.amount
+        })),
+        quote,
+        pickupTime: quotedPickupTime,
+        timeZone: config.timeZone,
+        matchedRules: quote.appliedRules,
+        origin: originPoint,
+        destination: destinationPoint,
+        pickupZone: pickupZone ? { id: pickupZone.id, name: pickupZone.name } : null,
+        dropoffZone: dropoffZone ? { id: dropoffZone.id, name: dropoffZone.name } : null,
+        stops: resolvedStops,
+        isFixedRoute: quote.isFixedRoute,
+        promo: promoResult,
+        comparison
       }),
       {
         status: 200,
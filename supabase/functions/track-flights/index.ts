@@ -0,0 +1,231 @@
+import { createClient } from "npm:@supabase/supabase-js@2.39.0";
+import { createFlightStatusProvider } from "../_shared/flightStatus.ts";
+import {
+  FLIGHT_TRACKING_HOURS_AFTER,
+  FLIGHT_TRACKING_HOURS_AHEAD,
+  FLIGHT_TRACKING_STATUSES,
+  flightNotification,
+  planPickupForFlight,
+  type FlightBooking,
+  type FlightCheckResult
+} from "../_shared/flights.ts";
+
+/** Most flights checked in one run; the rest are picked up by the next run */
+const MAX_FLIGHT_BATCH = 100;
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization",
+};
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 204,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    // Get authorization header
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: "Authorization header required" }),
+        {
+          status: 401,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const token = authHeader.replace("Bearer ", "");
+
+    // Create Supabase admin client
+    const supabaseAdmin = createClient(
+      Deno.env.get("SUPABASE_URL") || "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") || "",
+      {
+        auth: {
+          persistSession: false,
+        }
+      }
+    );
+
+    // The scheduled run authenticates with the service role key; anyone else
+    // must be an admin
+    let actorId: string | null = null;
+    if (token !== Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")) {
+      const { data: { user }, error: authError } = await supabaseAdmin.auth.getUser(token);
+
+      if (authError || !user) {
+        return new Response(
+          JSON.stringify({ error: "Invalid or expired token", details: authError }),
+          {
+            status: 401,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          }
+        );
+      }
+
+      const { data: userData, error: userError } = await supabaseAdmin
+        .from("users")
+        .select("user_role")
+        .eq("id", user.id)
+        .single();
+
+      if (userError || userData?.user_role !== "admin") {
+        return new Response(
+          JSON.stringify({ error: "Admin permissions required" }),
+          {
+            status: 403,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          }
+        );
+      }
+      actorId = user.id;
+    }
+
+
+    const { bookingId } = await req.json().catch(() => ({}));
+
+    const provider = await createFlightStatusProvider();
+
+    if (!provider) {
+      return new Response(
+        JSON.stringify({ enabled: false, results: [] }),
+        {
+          status: 200,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const now = new Date();
+
+    // Open bookings whose flight lands soon or landed late, soonest first. Landed flights are done
+    let tripsQuery = supabaseAdmin
+      .from("trips")
+      .select("id, booking_reference, datetime, status, driver_id, flight_number, flight_scheduled_arrival, flight_estimated_arrival, flight_status")
+      .not("flight_number", "is", null)
+      .in("status", FLIGHT_TRACKING_STATUSES)
+      .or("flight_status.is.null,flight_status.neq.landed");
+
+    tripsQuery = bookingId
+      ? tripsQuery.eq("id", bookingId)
+      : tripsQuery
+        .gte("flight_scheduled_arrival", new Date(now.getTime() - FLIGHT_TRACKING_HOURS_AFTER * 60 * 60_000).toISOString())
+        .lte("flight_scheduled_arrival", new Date(now.getTime() + FLIGHT_TRACKING_HOURS_AHEAD * 60 * 60_000).toISOString())
+        .order("flight_scheduled_arrival", { ascending: true })
+        .limit(MAX_FLIGHT_BATCH);
+
+    const { data: trips, error: tripsError } = await tripsQuery;
+    if (tripsError) throw tripsError;
+
+    const results: FlightCheckResult[] = [];
+
+    // Trips with a flight always have its scheduled arrival
+    for (const trip of (trips || []) as (FlightBooking & { flight_number: string; flight_scheduled_arrival: string } & Record<string, any>)[]) {
+      const timestamp = new Date().toISOString();
+
+      let status;
+      try {
+        status = await provider.lookup(trip.flight_number, trip.flight_scheduled_arrival);
+      } catch (error) {
+        // One failed lookup should not hold up the other flights
+        console.error(`Error looking up flight ${trip.flight_number}:`, error);
+        results.push({ bookingId: trip.id, flightNumber: trip.flight_number, error: error.message });
+        continue;
+      }
+
+      if (!status) {
+        await supabaseAdmin.from("trips").update({ flight_checked_at: timestamp }).eq("id", trip.id);
+        results.push({ bookingId: trip.id, flightNumber: trip.flight_number, found: false });
+        continue;
+      }
+
+      const adjustment = planPickupForFlight(trip, status);
+
+      // Guarded on the pickup read above so a change an admin made meanwhile is not overwritten
+      const { data: updated, error: updateError } = await supabaseAdmin
+        .from("trips")
+        .update({
+          flight_status: status.state,
+          flight_estimated_arrival: adjustment?.expectedArrival || trip.flight_estimated_arrival,
+          flight_checked_at: timestamp,
+          ...(adjustment?.datetime ? { datetime: adjustment.datetime } : {})
+        })
+        .eq("id", trip.id)
+        .eq("datetime", trip.datetime)
+        .select("id");
+
+      if (updateError) throw updateError;
+      if (!updated || updated.length === 0) continue;
+
+      const details = {
+        flight_number: trip.flight_number,
+        flight_status: status.state,
+        delay_minutes: adjustment?.delayMinutes ?? null,
+        previous_datetime: trip.datetime,
+        datetime: adjustment?.datetime || trip.datetime,
+        source: status.source
+      };
+
+      if (adjustment?.datetime) {
+        await supabaseAdmin.from("booking_activity_logs").insert({
+          booking_id: trip.id,
+          user_id: actorId,
+          action: "pickup_rescheduled",
+          details: { ...details, timestamp, automatic: true },
+          created_at: timestamp
+        });
+      }
+
+      const notification = trip.driver_id ? flightNotification(trip, status, adjustment) : null;
+
+      if (notification) {
+        const { error: notifyError } = await supabaseAdmin.from("driver_notifications").insert({
+          driver_user_id: trip.driver_id,
+          trip_id: trip.id,
+          ...notification,
+          details
+        });
+
+        if (notifyError) throw notifyError;
+      }
+
+      results.push({
+        bookingId: trip.id,
+        bookingReference: trip.booking_reference,
+        flightNumber: trip.flight_number,
+        flightStatus: status.state,
+        flightEstimatedArrival: adjustment?.expectedArrival || trip.flight_estimated_arrival || null,
+        checkedAt: timestamp,
+        datetime: details.datetime,
+        delayMinutes: adjustment?.delayMinutes ?? null,
+        pickupMoved: !!adjustment?.datetime,
+        driverNotified: !!notification
+      });
+    }
+
+    return new Response(
+      JSON.stringify({ enabled: true, provider: provider.name, results }),
+      {
+        status: 200,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  } catch (error) {
+    console.error("Error in track-flights:", error);
+
+    return new Response(
+      JSON.stringify({ error: "Failed to track flights", details: error.message }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  }
+});
\ No newline at end of file
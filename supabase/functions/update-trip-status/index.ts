@@ -0,0 +1,202 @@
+import { createClient } from "npm:@supabase/supabase-js@2.39.0";
+import { isTripStatus, tripStatusActorFor, tripTransitionError } from "../_shared/tripStatus.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization",
+};
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 204,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    // Get authorization header
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: "Authorization header required" }),
+        {
+          status: 401,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const token = authHeader.replace("Bearer ", "");
+    
+    // Create Supabase admin client
+    const supabaseAdmin = createClient(
+      Deno.env.get("SUPABASE_URL") || "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") || "",
+      {
+        auth: {
+          persistSession: false,
+        }
+      }
+    );
+
+    // Verify the JWT token
+    const { data: { user }, error: authError } = await supabaseAdmin.auth.getUser(token);
+    
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({ error: "Invalid or expired token", details: authError }),
+        {
+          status: 401,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // Admins can change any booking, drivers only the ones assigned to them
+    const { data: userData, error: userError } = await supabaseAdmin
+      .from("users")
+      .select("user_role")
+      .eq("id", user.id)
+      .single();
+
+    const actor = tripStatusActorFor(userData?.user_role);
+
+    if (userError || (actor !== "admin" && actor !== "driver")) {
+      return new Response(
+        JSON.stringify({ error: "Admin or driver permissions required" }),
+        {
+          status: 403,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const { tripId, status, reason } = await req.json();
+
+    if (!tripId || !isTripStatus(status)) {
+      return new Response(
+        JSON.stringify({ error: "Missing required parameters: tripId and a valid status" }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // Cancelling applies the cancellation policy, so it has its own function
+    if (status === "cancelled") {
+      return new Response(
+        JSON.stringify({ error: "Bookings are cancelled through admin-cancel-booking" }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const { data: trip, error: tripError } = await supabaseAdmin
+      .from("trips")
+      .select("id, status, driver_id")
+      .eq("id", tripId)
+      .maybeSingle();
+
+    if (tripError) throw tripError;
+
+    if (!trip) {
+      return new Response(
+        JSON.stringify({ error: "Booking not found" }),
+        {
+          status: 404,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    if (actor === "driver" && trip.driver_id !== user.id) {
+      return new Response(
+        JSON.stringify({ error: "Only the driver assigned to this booking can change its status" }),
+        {
+          status: 403,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const note = typeof reason === "string" ? reason.trim() : "";
+
+    const refused = tripTransitionError(trip.status, status, actor);
+    if (refused) {
+      return new Response(
+        JSON.stringify({ error: refused }),
+        {
+          status: 409,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // The database checks the transition again and records it with its timestamps
+    const { error: transitionError } = await supabaseAdmin.rpc("transition_trip_status", {
+      p_trip_id: tripId,
+      p_status: status,
+      p_actor: user.id,
+      p_role: actor,
+      p_reason: note || null
+    });
+
+    if (transitionError) {
+      // Raised when another change got there first
+      if (transitionError.code === "P0001") {
+        return new Response(
+          JSON.stringify({ error: transitionError.message }),
+          {
+            status: 409,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          }
+        );
+      }
+      throw transitionError;
+    }
+
+    await supabaseAdmin.from("booking_activity_logs").insert({
+      booking_id: tripId,
+      user_id: user.id,
+      action: "status_update",
+      details: {
+        previous_status: trip.status,
+        new_status: status,
+        reason: note || undefined
+      },
+      created_at: new Date().toISOString()
+    });
+
+    const { data: booking, error: bookingError } = await supabaseAdmin
+      .from("trips")
+      .select("id, status, accepted_at, started_at, completed_at, cancelled_at")
+      .eq("id", tripId)
+      .single();
+
+    if (bookingError) throw bookingError;
+
+    return new Response(
+      JSON.stringify({ success: true, previousStatus: trip.status, booking }),
+      {
+        status: 200,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  } catch (error) {
+    console.error("Error in update-trip-status:", error);
+
+    return new Response(
+      JSON.stringify({ error: "Failed to update trip status", details: error.message }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  }
+});
\ No newline at end of file
@@ -0,0 +1,242 @@
+import { createClient } from "npm:@supabase/supabase-js@2.39.0";
+import { isUuid } from "../_shared/bookingFilters.ts";
+import { calculatePromoDiscount, roundCurrency } from "../_shared/pricing.ts";
+import { checkPromoCode, PROMO_REJECTION_MESSAGES, toPromoInput } from "../_shared/promo.ts";
+import { lookupPromoCode } from "../_shared/promoCodes.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization",
+};
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 204,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    // Get authorization header
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: "Authorization header required" }),
+        {
+          status: 401,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const token = authHeader.replace("Bearer ", "");
+    
+    // Create Supabase admin client
+    const supabaseAdmin = createClient(
+      Deno.env.get("SUPABASE_URL") || "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") || "",
+      {
+        auth: {
+          persistSession: false,
+        }
+      }
+    );
+
+    // Verify the JWT token
+    const { data: { user }, error: authError } = await supabaseAdmin.auth.getUser(token);
+    
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({ error: "Invalid or expired token", details: authError }),
+        {
+          status: 401,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const { data: userData, error: userError } = await supabaseAdmin
+      .from("users")
+      .select("user_role, email")
+      .eq("id", user.id)
+      .single();
+
+    if (userError) {
+      return new Response(
+        JSON.stringify({ error: "Failed to verify user role" }),
+        {
+          status: 500,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const isAdmin = userData.user_role === "admin";
+
+    const {
+      code,
+      vehicleType,
+      pickupZoneId,
+      dropoffZoneId,
+      pickupTime,
+      fare,
+      customerEmail,
+      userId,
+      tripId,
+      redeem = false
+    } = await req.json();
+
+    if (!code || typeof code !== "string") {
+      return new Response(
+        JSON.stringify({ error: "A promo code is required" }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    if (userId && !isUuid(userId)) {
+      return new Response(
+        JSON.stringify({ error: "userId must be a user id" }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // Redeeming applies the code to a booking, so the booking must exist
+    let trip: Record<string, any> | null = null;
+    if (redeem) {
+      if (!tripId) {
+        return new Response(
+          JSON.stringify({ error: "tripId is required to redeem a promo code" }),
+          {
+            status: 400,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          }
+        );
+      }
+
+      const { data: tripData, error: tripError } = await supabaseAdmin
+        .from("trips")
+        .select("id, user_id, customer_email, datetime, pickup_zone_id, dropoff_zone_id, estimated_price")
+        .eq("id", tripId)
+        .maybeSingle();
+
+      if (tripError) throw tripError;
+
+      if (!tripData || (!isAdmin && tripData.user_id !== user.id)) {
+        return new Response(
+          JSON.stringify({ error: "Booking not found" }),
+          {
+            status: 404,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          }
+        );
+      }
+
+      trip = tripData;
+    }
+
+    // Only admins may check a code on behalf of another customer
+    const customer = isAdmin
+      ? {
+        userId: userId || trip?.user_id || null,
+        email: customerEmail || trip?.customer_email || null
+      }
+      : { userId: user.id, email: userData.email || user.email || null };
+
+    const found = await lookupPromoCode(supabaseAdmin, code, customer);
+
+    if (!found) {
+      return new Response(
+        JSON.stringify({ valid: false, reason: "not_found", message: PROMO_REJECTION_MESSAGES.not_found }),
+        {
+          status: 200,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const { promo, usage } = found;
+    const check = checkPromoCode(
+      promo,
+      {
+        at: pickupTime || trip?.datetime || undefined,
+        vehicleType,
+        zoneIds: [pickupZoneId || trip?.pickup_zone_id, dropoffZoneId || trip?.dropoff_zone_id]
+      },
+      usage
+    );
+
+    const fareAmount = fare ?? trip?.estimated_price;
+    const discount = check.valid && fareAmount != null
+      ? calculatePromoDiscount(toPromoInput(promo), roundCurrency(Number(fareAmount)))
+      : null;
+
+    let redemptionId = null;
+    if (redeem && check.valid) {
+      const { data, error: redeemError } = await supabaseAdmin.rpc("redeem_promo_code", {
+        p_promo_code_id: promo.id,
+        p_trip_id: trip!.id,
+        p_user_id: customer.userId,
+        p_customer_email: customer.email,
+        p_fare: fareAmount ?? 0,
+        p_discount: discount ?? 0
+      });
+
+      if (redeemError) {
+        // Limits are re-checked under a lock; another booking may have used the last redemption
+        const reason = redeemError.message?.replace("promo_", "");
+        const known = reason in PROMO_REJECTION_MESSAGES;
+        return new Response(
+          JSON.stringify({
+            error: known ? PROMO_REJECTION_MESSAGES[reason as keyof typeof PROMO_REJECTION_MESSAGES] : "Failed to redeem promo code",
+            reason: known ? reason : undefined
+          }),
+          {
+            status: known ? 409 : 500,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          }
+        );
+      }
+
+      redemptionId = data;
+    }
+
+    return new Response(
+      JSON.stringify({
+        ...check,
+        promo: {
+          id: promo.id,
+          code: promo.code,
+          description: promo.description,
+          discount_type: promo.discount_type,
+          value: Number(promo.value)
+        },
+        discount,
+        redemptionId
+      }),
+      {
+        status: 200,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+
+  } catch (error) {
+    console.error("Error validating promo code:", error);
+    
+    return new Response(
+      JSON.stringify({ error: "Failed to validate promo code", details: error.message }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  }
+});
\ No newline at end of file
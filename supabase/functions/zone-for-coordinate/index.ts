@@ -0,0 +1,114 @@
+import { createClient } from "npm:@supabase/supabase-js@2.39.0";
+import { findZoneForPoint, parseLatLng } from "../_shared/geo.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization",
+};
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 204,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    // Get authorization header
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: "Authorization header required" }),
+        {
+          status: 401,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const token = authHeader.replace("Bearer ", "");
+    
+    // Create Supabase admin client
+    const supabaseAdmin = createClient(
+      Deno.env.get("SUPABASE_URL") || "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") || "",
+      {
+        auth: {
+          persistSession: false,
+        }
+      }
+    );
+
+    // Verify the JWT token
+    const { data: { user }, error: authError } = await supabaseAdmin.auth.getUser(token);
+    
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({ error: "Invalid or expired token", details: authError }),
+        {
+          status: 401,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // Coordinates come from the query string on GET and the body on POST
+    let lat: unknown;
+    let lng: unknown;
+
+    if (req.method === "GET") {
+      const url = new URL(req.url);
+      lat = url.searchParams.get("lat");
+      lng = url.searchParams.get("lng");
+    } else {
+      ({ lat, lng } = await req.json());
+    }
+
+    const point = parseLatLng(`${lat ?? ""},${lng ?? ""}`);
+
+    if (!point) {
+      return new Response(
+        JSON.stringify({ error: "Valid lat and lng are required" }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const { data: zones, error: zonesError } = await supabaseAdmin
+      .from("zones")
+      .select("id, name, boundary")
+      .not("boundary", "is", null)
+      .order("name");
+
+    if (zonesError) throw zonesError;
+
+    const zone = findZoneForPoint(zones || [], point);
+
+    return new Response(
+      JSON.stringify({
+        point,
+        zone: zone ? { id: zone.id, name: zone.name } : null
+      }),
+      {
+        status: 200,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+
+  } catch (error) {
+    console.error("Error finding zone for coordinate:", error);
+    
+    return new Response(
+      JSON.stringify({ error: "Failed to find zone", details: error.message }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  }
+});
\ No newline at end of file
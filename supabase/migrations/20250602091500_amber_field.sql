@@ -0,0 +1,27 @@
+/*
+  # Add zone geometry for pricing zone detection
+
+  1. Changes
+    - `zones.boundary` - GeoJSON Polygon or MultiPolygon geometry (lng/lat order) describing the zone
+    - `zones.center_lat` / `zones.center_lng` - Optional reference point used when an address
+      resolves to the zone by name only
+
+  2. Notes
+    - Zones without a boundary are ignored by point-in-polygon detection and fall back to a
+      multiplier of 1.0 in the pricing simulation
+*/
+
+ALTER TABLE zones ADD COLUMN IF NOT EXISTS boundary jsonb;
+ALTER TABLE zones ADD COLUMN IF NOT EXISTS center_lat numeric;
+ALTER TABLE zones ADD COLUMN IF NOT EXISTS center_lng numeric;
+
+-- Only accept GeoJSON polygon geometries
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'zones_boundary_geojson_check'
+  ) THEN
+    ALTER TABLE zones ADD CONSTRAINT zones_boundary_geojson_check
+      CHECK (boundary IS NULL OR boundary->>'type' IN ('Polygon', 'MultiPolygon'));
+  END IF;
+END $$;
\ No newline at end of file
@@ -0,0 +1,14 @@
+/*
+  # Store itemised quotes on trips
+
+  1. Changes
+    - `trips.vehicle_type` - Vehicle type the trip was quoted for
+    - `trips.price_breakdown` - Itemised quote produced by the shared pricing engine
+      (line items, fare, discount, fees and total) at the time the price was stored
+
+  2. Notes
+    - `estimated_price` keeps holding the fare so existing reports are unaffected
+*/
+
+ALTER TABLE trips ADD COLUMN IF NOT EXISTS vehicle_type text;
+ALTER TABLE trips ADD COLUMN IF NOT EXISTS price_breakdown jsonb;
\ No newline at end of file
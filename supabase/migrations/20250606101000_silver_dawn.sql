@@ -0,0 +1,52 @@
+/*
+  # Create time-based pricing rules
+
+  1. New Tables
+    - `pricing_rules` - Time-of-day, day-of-week and date-range price adjustments
+      - `adjustment_type` - `multiplier` (e.g. 1.25 for +25%) or `flat` (fixed add-on in EUR)
+      - `start_time` / `end_time` - Daily window in the platform timezone; a window that
+        ends before it starts runs past midnight (e.g. 22:00-06:00)
+      - `weekdays` - Days the window starts on (0 = Sunday ... 6 = Saturday), NULL for every day
+      - `start_date` / `end_date` - Inclusive validity range, NULL for open ended
+      - `vehicle_type` / `zone_id` - Optional scope, NULL applies to all vehicles / zones
+
+  2. Changes
+    - Adds `pricing_rule` to the `pricing_change_type` enum so rule changes are logged
+
+  3. Security
+    - RLS enabled; only admins can read or modify rules
+*/
+
+ALTER TYPE pricing_change_type ADD VALUE IF NOT EXISTS 'pricing_rule';
+
+CREATE TABLE IF NOT EXISTS pricing_rules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  adjustment_type text NOT NULL DEFAULT 'multiplier' CHECK (adjustment_type IN ('multiplier', 'flat')),
+  value numeric NOT NULL,
+  start_time time,
+  end_time time,
+  weekdays smallint[],
+  start_date date,
+  end_date date,
+  vehicle_type text,
+  zone_id uuid REFERENCES zones(id) ON DELETE CASCADE,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT pricing_rules_value_check CHECK (
+    (adjustment_type = 'multiplier' AND value > 0) OR (adjustment_type = 'flat')
+  ),
+  CONSTRAINT pricing_rules_date_range_check CHECK (
+    start_date IS NULL OR end_date IS NULL OR start_date <= end_date
+  )
+);
+
+ALTER TABLE pricing_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage pricing rules"
+  ON pricing_rules
+  FOR ALL
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND user_role = 'admin'))
+  WITH CHECK (EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND user_role = 'admin'));
\ No newline at end of file
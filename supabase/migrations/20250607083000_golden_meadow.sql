@@ -0,0 +1,254 @@
+/*
+  # Scheduled price sheets
+
+  1. New Tables
+    - `pricing_schedules` - Full price sheets staged to go live at `effective_from`
+      - `sheet` - JSON snapshot with `vehiclePrices`, `zoneMultipliers`, `fixedRoutes` and
+        `pricingRules` arrays, in the same shape the pricing tables are edited in the admin UI
+      - `status` - `pending` until activated, then `applied`; `cancelled` or `failed` otherwise
+
+  2. New Functions
+    - `current_pricing_sheet` - Returns the live pricing tables as a sheet
+    - `apply_pricing_sheet` - Replaces the live pricing tables with a sheet
+    - `activate_due_pricing_schedules` - Replaces the live tables with every pending sheet whose
+      `effective_from` has passed (oldest first) and logs the activation in `pricing_change_logs`
+
+  3. Changes
+    - Adds `price_sheet` to the `pricing_change_type` enum
+    - Schedules `activate_due_pricing_schedules` every minute with pg_cron when available
+
+  4. Security
+    - RLS enabled; only admins can read or modify schedules
+    - The activation function is only executable by the service role
+*/
+
+ALTER TYPE pricing_change_type ADD VALUE IF NOT EXISTS 'price_sheet';
+
+CREATE TABLE IF NOT EXISTS pricing_schedules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  effective_from timestamptz NOT NULL,
+  sheet jsonb NOT NULL,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'applied', 'cancelled', 'failed')),
+  error text,
+  created_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  applied_at timestamptz,
+  CONSTRAINT pricing_schedules_sheet_check CHECK (
+    jsonb_typeof(sheet->'vehiclePrices') = 'array' AND
+    jsonb_typeof(sheet->'zoneMultipliers') = 'array' AND
+    jsonb_typeof(sheet->'fixedRoutes') = 'array'
+  )
+);
+
+CREATE INDEX IF NOT EXISTS pricing_schedules_pending_idx
+  ON pricing_schedules (effective_from)
+  WHERE status = 'pending';
+
+ALTER TABLE pricing_schedules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage pricing schedules"
+  ON pricing_schedules
+  FOR ALL
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND user_role = 'admin'))
+  WITH CHECK (EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND user_role = 'admin'));
+
+-- Live pricing tables in the sheet format
+CREATE OR REPLACE FUNCTION public.current_pricing_sheet()
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT jsonb_build_object(
+    'vehiclePrices', COALESCE((SELECT jsonb_agg(to_jsonb(v)) FROM vehicle_base_prices v), '[]'::jsonb),
+    'zoneMultipliers', COALESCE((SELECT jsonb_agg(to_jsonb(m)) FROM zone_multipliers m), '[]'::jsonb),
+    'fixedRoutes', COALESCE((SELECT jsonb_agg(to_jsonb(r)) FROM fixed_routes r), '[]'::jsonb),
+    'pricingRules', COALESCE((SELECT jsonb_agg(to_jsonb(p) ORDER BY p.created_at) FROM pricing_rules p), '[]'::jsonb)
+  );
+$$;
+
+-- Replaces the live pricing tables with a sheet. Rows keep their id when the
+-- sheet references an existing row, rows missing from the sheet are removed
+-- and rows with a "new_" id are inserted.
+CREATE OR REPLACE FUNCTION public.apply_pricing_sheet(sheet JSONB)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Vehicle base prices
+  DELETE FROM vehicle_base_prices
+  WHERE id::text NOT IN (
+    SELECT e->>'id' FROM jsonb_array_elements(sheet->'vehiclePrices') e WHERE e->>'id' IS NOT NULL
+  );
+
+  UPDATE vehicle_base_prices v
+  SET vehicle_type = e->>'vehicle_type',
+      base_price_per_km = (e->>'base_price_per_km')::numeric
+  FROM jsonb_array_elements(sheet->'vehiclePrices') e
+  WHERE v.id::text = e->>'id';
+
+  INSERT INTO vehicle_base_prices (vehicle_type, base_price_per_km)
+  SELECT e->>'vehicle_type', (e->>'base_price_per_km')::numeric
+  FROM jsonb_array_elements(sheet->'vehiclePrices') e
+  WHERE e->>'id' IS NULL OR e->>'id' LIKE 'new_%';
+
+  -- Zone multipliers
+  DELETE FROM zone_multipliers
+  WHERE id::text NOT IN (
+    SELECT e->>'id' FROM jsonb_array_elements(sheet->'zoneMultipliers') e WHERE e->>'id' IS NOT NULL
+  );
+
+  UPDATE zone_multipliers m
+  SET zone_id = (e->>'zone_id')::uuid,
+      multiplier = (e->>'multiplier')::numeric
+  FROM jsonb_array_elements(sheet->'zoneMultipliers') e
+  WHERE m.id::text = e->>'id';
+
+  INSERT INTO zone_multipliers (zone_id, multiplier)
+  SELECT (e->>'zone_id')::uuid, (e->>'multiplier')::numeric
+  FROM jsonb_array_elements(sheet->'zoneMultipliers') e
+  WHERE e->>'id' IS NULL OR e->>'id' LIKE 'new_%';
+
+  -- Fixed routes
+  DELETE FROM fixed_routes
+  WHERE id::text NOT IN (
+    SELECT e->>'id' FROM jsonb_array_elements(sheet->'fixedRoutes') e WHERE e->>'id' IS NOT NULL
+  );
+
+  UPDATE fixed_routes r
+  SET origin_name = e->>'origin_name',
+      destination_name = e->>'destination_name',
+      vehicle_type = e->>'vehicle_type',
+      fixed_price = (e->>'fixed_price')::numeric
+  FROM jsonb_array_elements(sheet->'fixedRoutes') e
+  WHERE r.id::text = e->>'id';
+
+  INSERT INTO fixed_routes (origin_name, destination_name, vehicle_type, fixed_price)
+  SELECT e->>'origin_name', e->>'destination_name', e->>'vehicle_type', (e->>'fixed_price')::numeric
+  FROM jsonb_array_elements(sheet->'fixedRoutes') e
+  WHERE e->>'id' IS NULL OR e->>'id' LIKE 'new_%';
+
+  -- Time-based pricing rules (sheets created before rules existed leave them untouched)
+  IF jsonb_typeof(sheet->'pricingRules') = 'array' THEN
+    DELETE FROM pricing_rules
+    WHERE id::text NOT IN (
+      SELECT e->>'id' FROM jsonb_array_elements(sheet->'pricingRules') e WHERE e->>'id' IS NOT NULL
+    );
+
+    UPDATE pricing_rules p
+    SET name = e->>'name',
+        adjustment_type = e->>'adjustment_type',
+        value = (e->>'value')::numeric,
+        start_time = NULLIF(e->>'start_time', '')::time,
+        end_time = NULLIF(e->>'end_time', '')::time,
+        weekdays = CASE WHEN jsonb_typeof(e->'weekdays') = 'array'
+          THEN ARRAY(SELECT jsonb_array_elements_text(e->'weekdays')::smallint) END,
+        start_date = NULLIF(e->>'start_date', '')::date,
+        end_date = NULLIF(e->>'end_date', '')::date,
+        vehicle_type = NULLIF(e->>'vehicle_type', ''),
+        zone_id = NULLIF(e->>'zone_id', '')::uuid,
+        is_active = COALESCE((e->>'is_active')::boolean, true),
+        updated_at = now()
+    FROM jsonb_array_elements(sheet->'pricingRules') e
+    WHERE p.id::text = e->>'id';
+
+    INSERT INTO pricing_rules (
+      name, adjustment_type, value, start_time, end_time, weekdays,
+      start_date, end_date, vehicle_type, zone_id, is_active
+    )
+    SELECT
+      e->>'name',
+      e->>'adjustment_type',
+      (e->>'value')::numeric,
+      NULLIF(e->>'start_time', '')::time,
+      NULLIF(e->>'end_time', '')::time,
+      CASE WHEN jsonb_typeof(e->'weekdays') = 'array'
+        THEN ARRAY(SELECT jsonb_array_elements_text(e->'weekdays')::smallint) END,
+      NULLIF(e->>'start_date', '')::date,
+      NULLIF(e->>'end_date', '')::date,
+      NULLIF(e->>'vehicle_type', ''),
+      NULLIF(e->>'zone_id', '')::uuid,
+      COALESCE((e->>'is_active')::boolean, true)
+    FROM jsonb_array_elements(sheet->'pricingRules') e
+    WHERE e->>'id' IS NULL OR e->>'id' LIKE 'new_%';
+  END IF;
+END;
+$$;
+
+-- Activates every pending sheet that is due. Each sheet is applied in its own
+-- subtransaction so one invalid sheet is marked failed without blocking the rest.
+CREATE OR REPLACE FUNCTION public.activate_due_pricing_schedules()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  schedule RECORD;
+  previous_sheet JSONB;
+  activated INTEGER := 0;
+BEGIN
+  FOR schedule IN
+    SELECT * FROM pricing_schedules
+    WHERE status = 'pending' AND effective_from <= now()
+    ORDER BY effective_from
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    BEGIN
+      previous_sheet := current_pricing_sheet();
+
+      PERFORM apply_pricing_sheet(schedule.sheet);
+
+      UPDATE pricing_schedules
+      SET status = 'applied', applied_at = now(), error = NULL
+      WHERE id = schedule.id;
+
+      INSERT INTO pricing_change_logs (
+        changed_by,
+        change_type,
+        previous_value,
+        new_value,
+        notes
+      ) VALUES (
+        schedule.created_by,
+        'price_sheet',
+        previous_sheet,
+        schedule.sheet || jsonb_build_object('schedule_id', schedule.id, 'effective_from', schedule.effective_from),
+        'Scheduled price sheet "' || schedule.name || '" activated'
+      );
+
+      activated := activated + 1;
+    EXCEPTION WHEN OTHERS THEN
+      UPDATE pricing_schedules
+      SET status = 'failed', error = SQLERRM
+      WHERE id = schedule.id;
+    END;
+  END LOOP;
+
+  RETURN activated;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.current_pricing_sheet() FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.apply_pricing_sheet(JSONB) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.activate_due_pricing_schedules() FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.current_pricing_sheet() TO service_role;
+GRANT EXECUTE ON FUNCTION public.apply_pricing_sheet(JSONB) TO service_role;
+GRANT EXECUTE ON FUNCTION public.activate_due_pricing_schedules() TO service_role;
+
+-- Activate due sheets every minute
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule(
+      'activate-pricing-schedules',
+      '* * * * *',
+      'SELECT public.activate_due_pricing_schedules()'
+    );
+  END IF;
+END $$;
\ No newline at end of file
@@ -0,0 +1,133 @@
+/*
+  # Pricing rollback support
+
+  1. Changes
+    - Adds `rollback` to the `pricing_change_type` enum; rollbacks are logged with the full
+      sheet before and after, so a rollback can itself be reverted
+    - `apply_pricing_sheet` now recreates rows that were deleted since the sheet was taken,
+      keeping their original ids
+
+  2. Notes
+    - Rollbacks are computed by the `admin-rollback-pricing` edge function from
+      `pricing_change_logs` and applied through `apply_pricing_sheet`
+*/
+
+ALTER TYPE pricing_change_type ADD VALUE IF NOT EXISTS 'rollback';
+
+-- Replaces the live pricing tables with a sheet. Rows keep their id when the
+-- sheet references an existing row, rows missing from the sheet are removed,
+-- rows with a "new_" id are inserted and rows whose id no longer exists are
+-- recreated with that id, so older snapshots can be restored.
+CREATE OR REPLACE FUNCTION public.apply_pricing_sheet(sheet JSONB)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Vehicle base prices
+  DELETE FROM vehicle_base_prices
+  WHERE id::text NOT IN (
+    SELECT e->>'id' FROM jsonb_array_elements(sheet->'vehiclePrices') e WHERE e->>'id' IS NOT NULL
+  );
+
+  UPDATE vehicle_base_prices v
+  SET vehicle_type = e->>'vehicle_type',
+      base_price_per_km = (e->>'base_price_per_km')::numeric
+  FROM jsonb_array_elements(sheet->'vehiclePrices') e
+  WHERE v.id::text = e->>'id';
+
+  INSERT INTO vehicle_base_prices (id, vehicle_type, base_price_per_km)
+  SELECT
+    CASE WHEN e->>'id' IS NULL OR e->>'id' LIKE 'new_%' THEN gen_random_uuid() ELSE (e->>'id')::uuid END,
+    e->>'vehicle_type', (e->>'base_price_per_km')::numeric
+  FROM jsonb_array_elements(sheet->'vehiclePrices') e
+  WHERE NOT EXISTS (SELECT 1 FROM vehicle_base_prices t WHERE t.id::text = e->>'id');
+
+  -- Zone multipliers
+  DELETE FROM zone_multipliers
+  WHERE id::text NOT IN (
+    SELECT e->>'id' FROM jsonb_array_elements(sheet->'zoneMultipliers') e WHERE e->>'id' IS NOT NULL
+  );
+
+  UPDATE zone_multipliers m
+  SET zone_id = (e->>'zone_id')::uuid,
+      multiplier = (e->>'multiplier')::numeric
+  FROM jsonb_array_elements(sheet->'zoneMultipliers') e
+  WHERE m.id::text = e->>'id';
+
+  INSERT INTO zone_multipliers (id, zone_id, multiplier)
+  SELECT
+    CASE WHEN e->>'id' IS NULL OR e->>'id' LIKE 'new_%' THEN gen_random_uuid() ELSE (e->>'id')::uuid END,
+    (e->>'zone_id')::uuid, (e->>'multiplier')::numeric
+  FROM jsonb_array_elements(sheet->'zoneMultipliers') e
+  WHERE NOT EXISTS (SELECT 1 FROM zone_multipliers t WHERE t.id::text = e->>'id');
+
+  -- Fixed routes
+  DELETE FROM fixed_routes
+  WHERE id::text NOT IN (
+    SELECT e->>'id' FROM jsonb_array_elements(sheet->'fixedRoutes') e WHERE e->>'id' IS NOT NULL
+  );
+
+  UPDATE fixed_routes r
+  SET origin_name = e->>'origin_name',
+      destination_name = e->>'destination_name',
+      vehicle_type = e->>'vehicle_type',
+      fixed_price = (e->>'fixed_price')::numeric
+  FROM jsonb_array_elements(sheet->'fixedRoutes') e
+  WHERE r.id::text = e->>'id';
+
+  INSERT INTO fixed_routes (id, origin_name, destination_name, vehicle_type, fixed_price)
+  SELECT
+    CASE WHEN e->>'id' IS NULL OR e->>'id' LIKE 'new_%' THEN gen_random_uuid() ELSE (e->>'id')::uuid END,
+    e->>'origin_name', e->>'destination_name', e->>'vehicle_type', (e->>'fixed_price')::numeric
+  FROM jsonb_array_elements(sheet->'fixedRoutes') e
+  WHERE NOT EXISTS (SELECT 1 FROM fixed_routes t WHERE t.id::text = e->>'id');
+
+  -- Time-based pricing rules (sheets created before rules existed leave them untouched)
+  IF jsonb_typeof(sheet->'pricingRules') = 'array' THEN
+    DELETE FROM pricing_rules
+    WHERE id::text NOT IN (
+      SELECT e->>'id' FROM jsonb_array_elements(sheet->'pricingRules') e WHERE e->>'id' IS NOT NULL
+    );
+
+    UPDATE pricing_rules p
+    SET name = e->>'name',
+        adjustment_type = e->>'adjustment_type',
+        value = (e->>'value')::numeric,
+        start_time = NULLIF(e->>'start_time', '')::time,
+        end_time = NULLIF(e->>'end_time', '')::time,
+        weekdays = CASE WHEN jsonb_typeof(e->'weekdays') = 'array'
+          THEN ARRAY(SELECT jsonb_array_elements_text(e->'weekdays')::smallint) END,
+        start_date = NULLIF(e->>'start_date', '')::date,
+        end_date = NULLIF(e->>'end_date', '')::date,
+        vehicle_type = NULLIF(e->>'vehicle_type', ''),
+        zone_id = NULLIF(e->>'zone_id', '')::uuid,
+        is_active = COALESCE((e->>'is_active')::boolean, true),
+        updated_at = now()
+    FROM jsonb_array_elements(sheet->'pricingRules') e
+    WHERE p.id::text = e->>'id';
+
+    INSERT INTO pricing_rules (
+      id, name, adjustment_type, value, start_time, end_time, weekdays,
+      start_date, end_date, vehicle_type, zone_id, is_active
+    )
+    SELECT
+      CASE WHEN e->>'id' IS NULL OR e->>'id' LIKE 'new_%' THEN gen_random_uuid() ELSE (e->>'id')::uuid END,
+      e->>'name',
+      e->>'adjustment_type',
+      (e->>'value')::numeric,
+      NULLIF(e->>'start_time', '')::time,
+      NULLIF(e->>'end_time', '')::time,
+      CASE WHEN jsonb_typeof(e->'weekdays') = 'array'
+        THEN ARRAY(SELECT jsonb_array_elements_text(e->'weekdays')::smallint) END,
+      NULLIF(e->>'start_date', '')::date,
+      NULLIF(e->>'end_date', '')::date,
+      NULLIF(e->>'vehicle_type', ''),
+      NULLIF(e->>'zone_id', '')::uuid,
+      COALESCE((e->>'is_active')::boolean, true)
+    FROM jsonb_array_elements(sheet->'pricingRules') e
+    WHERE NOT EXISTS (SELECT 1 FROM pricing_rules t WHERE t.id::text = e->>'id');
+  END IF;
+END;
+$$;
\ No newline at end of file
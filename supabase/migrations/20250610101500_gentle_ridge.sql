@@ -0,0 +1,14 @@
+/*
+  # Zone boundary change logging
+
+  1. Changes
+    - Adds `zone_boundary` to the `pricing_change_type` enum; boundary edits made in the zone
+      editor are logged in `pricing_change_logs` with the zone before and after, since the
+      boundary decides which zone multiplier applies to an address
+
+  2. Notes
+    - Boundaries are validated by the `admin-update-zone-boundaries` edge function, which rejects
+      invalid polygons and overlaps with other zones
+*/
+
+ALTER TYPE pricing_change_type ADD VALUE IF NOT EXISTS 'zone_boundary';
\ No newline at end of file
@@ -0,0 +1,141 @@
+/*
+  # Promo codes and redemptions
+
+  1. New Tables
+    - `promo_codes` - Discount codes managed from the admin Promotions section
+      - `code` - Unique regardless of case; stored upper case
+      - `discount_type` / `value` - Percentage (0-100) or fixed amount off the fare
+      - `max_uses` / `max_uses_per_customer` - Optional usage limits
+      - `valid_from` / `valid_until` - Optional validity window
+      - `vehicle_types` / `zone_ids` - Optional restrictions; a trip qualifies when its vehicle
+        type is listed and its pickup or dropoff zone is listed
+    - `promo_redemptions` - One row per use of a code, with the fare and discount granted
+
+  2. Changes
+    - `trips.promo_discount` - Discount granted by a redeemed promo code
+
+  3. New Functions
+    - `redeem_promo_code` - Records a redemption after re-checking the usage limits while holding
+      a lock on the code, so concurrent bookings cannot exceed them, and stores the discount on
+      the trip
+
+  4. Security
+    - RLS enabled; only admins can read or manage codes and redemptions
+    - Redemption is only executable by the service role (through the `validate-promo-code` edge function)
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'discount_type') THEN
+    CREATE TYPE discount_type AS ENUM ('percent', 'fixed');
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS promo_codes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  code text NOT NULL CHECK (code = upper(code) AND length(code) > 0),
+  description text,
+  discount_type discount_type NOT NULL,
+  value numeric NOT NULL CHECK (value > 0),
+  max_uses integer CHECK (max_uses IS NULL OR max_uses > 0),
+  max_uses_per_customer integer CHECK (max_uses_per_customer IS NULL OR max_uses_per_customer > 0),
+  valid_from timestamptz,
+  valid_until timestamptz,
+  vehicle_types text[],
+  zone_ids uuid[],
+  is_active boolean NOT NULL DEFAULT true,
+  created_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT promo_codes_percent_check CHECK (discount_type <> 'percent' OR value <= 100),
+  CONSTRAINT promo_codes_window_check CHECK (valid_from IS NULL OR valid_until IS NULL OR valid_from < valid_until)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS promo_codes_code_key ON promo_codes (code);
+
+CREATE TABLE IF NOT EXISTS promo_redemptions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  promo_code_id uuid NOT NULL REFERENCES promo_codes(id) ON DELETE CASCADE,
+  trip_id uuid REFERENCES trips(id) ON DELETE SET NULL,
+  user_id uuid REFERENCES users(id) ON DELETE SET NULL,
+  customer_email text,
+  fare_amount numeric NOT NULL DEFAULT 0,
+  discount_amount numeric NOT NULL DEFAULT 0,
+  redeemed_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE trips ADD COLUMN IF NOT EXISTS promo_discount numeric NOT NULL DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS promo_redemptions_promo_code_idx ON promo_redemptions (promo_code_id, redeemed_at);
+CREATE UNIQUE INDEX IF NOT EXISTS promo_redemptions_trip_key ON promo_redemptions (promo_code_id, trip_id) WHERE trip_id IS NOT NULL;
+
+ALTER TABLE promo_codes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE promo_redemptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage promo codes"
+  ON promo_codes
+  FOR ALL
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND user_role = 'admin'))
+  WITH CHECK (EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND user_role = 'admin'));
+
+CREATE POLICY "Admins can read promo redemptions"
+  ON promo_redemptions
+  FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND user_role = 'admin'));
+
+-- Records a redemption. The validity window and trip restrictions are checked
+-- by the caller; the usage limits are checked here under a row lock.
+CREATE OR REPLACE FUNCTION public.redeem_promo_code(
+  p_promo_code_id UUID,
+  p_trip_id UUID,
+  p_user_id UUID,
+  p_customer_email TEXT,
+  p_fare NUMERIC,
+  p_discount NUMERIC
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  promo promo_codes%ROWTYPE;
+  redemption_id UUID;
+BEGIN
+  SELECT * INTO promo FROM promo_codes WHERE id = p_promo_code_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT promo.is_active THEN
+    RAISE EXCEPTION 'promo_inactive';
+  END IF;
+
+  IF promo.max_uses IS NOT NULL AND (
+    SELECT count(*) FROM promo_redemptions WHERE promo_code_id = promo.id
+  ) >= promo.max_uses THEN
+    RAISE EXCEPTION 'promo_usage_limit';
+  END IF;
+
+  IF promo.max_uses_per_customer IS NOT NULL AND (
+    SELECT count(*) FROM promo_redemptions
+    WHERE promo_code_id = promo.id
+      AND ((p_user_id IS NOT NULL AND user_id = p_user_id)
+        OR (p_customer_email IS NOT NULL AND lower(customer_email) = lower(p_customer_email)))
+  ) >= promo.max_uses_per_customer THEN
+    RAISE EXCEPTION 'promo_customer_limit';
+  END IF;
+
+  INSERT INTO promo_redemptions (promo_code_id, trip_id, user_id, customer_email, fare_amount, discount_amount)
+  VALUES (promo.id, p_trip_id, p_user_id, lower(p_customer_email), COALESCE(p_fare, 0), COALESCE(p_discount, 0))
+  RETURNING id INTO redemption_id;
+
+  IF p_trip_id IS NOT NULL THEN
+    UPDATE trips SET promo_discount = COALESCE(p_discount, 0) WHERE id = p_trip_id;
+  END IF;
+
+  RETURN redemption_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.redeem_promo_code(UUID, UUID, UUID, TEXT, NUMERIC, NUMERIC) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.redeem_promo_code(UUID, UUID, UUID, TEXT, NUMERIC, NUMERIC) TO service_role;
\ No newline at end of file
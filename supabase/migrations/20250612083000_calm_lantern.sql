@@ -0,0 +1,62 @@
+/*
+  # Booking list indexes and statistics
+
+  1. New Functions
+    - `admin_booking_stats` - Booking counts by status, completed and open revenue, urgent bookings
+      and pending bookings due within 24 hours, computed in the database so the admin bookings page
+      no longer needs every trip to show its summary cards. Revenue follows the shared pricing
+      engine's booking total: fare less promo discount (never below zero) plus custom fees
+
+  2. Indexes
+    - `trips (datetime, id)` and `trips (status, datetime)` for the sorted, cursor-paginated list
+    - `trips (driver_id)` for the assigned/unassigned filter
+    - GIN index on `trips.internal_tags` for the tag filter
+
+  3. Security
+    - `admin_booking_stats` is only executable by the service role (through the
+      `admin-fetch-bookings` edge function)
+*/
+
+CREATE INDEX IF NOT EXISTS trips_datetime_id_idx ON trips (datetime, id);
+CREATE INDEX IF NOT EXISTS trips_status_datetime_idx ON trips (status, datetime);
+CREATE INDEX IF NOT EXISTS trips_driver_id_idx ON trips (driver_id);
+CREATE INDEX IF NOT EXISTS trips_internal_tags_idx ON trips USING gin (internal_tags);
+
+CREATE OR REPLACE FUNCTION public.admin_booking_stats()
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH priced AS (
+    SELECT
+      status,
+      priority,
+      datetime,
+      GREATEST(COALESCE(estimated_price, 0), 0)
+        - LEAST(GREATEST(COALESCE(promo_discount, 0), 0), GREATEST(COALESCE(estimated_price, 0), 0))
+        + COALESCE((
+          SELECT SUM((fee->>'amount')::numeric)
+          FROM jsonb_array_elements(COALESCE(custom_fees, '[]'::jsonb)) AS fee
+        ), 0) AS total
+    FROM trips
+  )
+  SELECT jsonb_build_object(
+    'total', count(*),
+    'pending', count(*) FILTER (WHERE status = 'pending'),
+    'accepted', count(*) FILTER (WHERE status = 'accepted'),
+    'in_progress', count(*) FILTER (WHERE status = 'in_progress'),
+    'completed', count(*) FILTER (WHERE status = 'completed'),
+    'cancelled', count(*) FILTER (WHERE status = 'cancelled'),
+    'completed_revenue', round(COALESCE(sum(total) FILTER (WHERE status = 'completed'), 0), 2),
+    'pending_revenue', round(COALESCE(sum(total) FILTER (WHERE status IN ('pending', 'accepted')), 0), 2),
+    'urgent', count(*) FILTER (WHERE priority = 2),
+    'need_attention', count(*) FILTER (
+      WHERE status = 'pending' AND datetime > now() AND datetime < now() + interval '24 hours'
+    )
+  )
+  FROM priced;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.admin_booking_stats() FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.admin_booking_stats() TO service_role;
\ No newline at end of file
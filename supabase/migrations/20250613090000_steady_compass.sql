@@ -0,0 +1,45 @@
+/*
+  # Automatic driver dispatch
+
+  1. Changes
+    - `trips.passengers` - Party size, compared with the seats of a driver's vehicle
+    - `trips.estimated_duration_min` - Expected trip length, used to find overlapping trips
+
+  2. Scheduling
+    - Calls the `auto-dispatch-trips` edge function every minute with pg_cron and pg_net when
+      both are available. The function does nothing unless `platform_settings.booking_auto_assign`
+      is on. The project URL and service role key are read from the `app.settings.supabase_url`
+      and `app.settings.service_role_key` database settings
+
+  3. Indexes
+    - `trips (status, driver_id, datetime)` for finding pending trips without a driver
+*/
+
+ALTER TABLE trips ADD COLUMN IF NOT EXISTS passengers integer CHECK (passengers IS NULL OR passengers > 0);
+ALTER TABLE trips ADD COLUMN IF NOT EXISTS estimated_duration_min integer CHECK (estimated_duration_min IS NULL OR estimated_duration_min > 0);
+
+CREATE INDEX IF NOT EXISTS trips_status_driver_datetime_idx ON trips (status, driver_id, datetime);
+
+-- Dispatch pending trips every minute
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron')
+    AND EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_net') THEN
+    PERFORM cron.schedule(
+      'auto-dispatch-trips',
+      '* * * * *',
+      $cron$
+        SELECT net.http_post(
+          url := current_setting('app.settings.supabase_url') || '/functions/v1/auto-dispatch-trips',
+          headers := jsonb_build_object(
+            'Authorization', 'Bearer ' || current_setting('app.settings.service_role_key'),
+            'Content-Type', 'application/json'
+          ),
+          body := '{}'::jsonb
+        )
+        WHERE current_setting('app.settings.supabase_url', true) IS NOT NULL
+          AND current_setting('app.settings.service_role_key', true) IS NOT NULL
+      $cron$
+    );
+  END IF;
+END $$;
\ No newline at end of file
@@ -0,0 +1,19 @@
+/*
+  # Driver schedule conflict settings
+
+  1. Changes
+    - `platform_settings.schedule_buffer_min` - Minutes kept free after a trip's estimated end for
+      travel to the next pickup when checking a driver's schedule
+    - `platform_settings.schedule_conflict_policy` - `warn` lets admins assign a driver with an
+      overlapping trip after confirming; `block` refuses the assignment
+
+  2. Indexes
+    - `trips (driver_id, datetime)` for looking up a driver's trips around a pickup time
+*/
+
+ALTER TABLE platform_settings ADD COLUMN IF NOT EXISTS schedule_buffer_min integer NOT NULL DEFAULT 30
+  CHECK (schedule_buffer_min >= 0);
+ALTER TABLE platform_settings ADD COLUMN IF NOT EXISTS schedule_conflict_policy text NOT NULL DEFAULT 'warn'
+  CHECK (schedule_conflict_policy IN ('warn', 'block'));
+
+CREATE INDEX IF NOT EXISTS trips_driver_id_datetime_idx ON trips (driver_id, datetime);
\ No newline at end of file
@@ -0,0 +1,299 @@
+/*
+  # Driver trip offers
+
+  1. New Tables
+    - `trip_offers` - A trip offered to drivers one at a time, in `position` order
+      - `status` - `queued` until it is the driver's turn, then `pending` until `expires_at`;
+        `accepted`, `declined`, `expired` or `cancelled` once closed
+      - `response_minutes` - How long the driver has to respond once the offer reaches them
+
+  2. New Functions
+    - `advance_trip_offers` - Sends the next queued offer of a trip when none is open, or marks the
+      trip urgent when every driver has declined or let the offer expire
+    - `respond_to_trip_offer` - Lets a driver accept or decline their open offer. Accepting assigns
+      the trip and withdraws the remaining queued offers; declining moves on to the next driver
+    - `expire_trip_offers` - Expires open offers past `expires_at` and moves on to the next driver
+
+    Every step is recorded in `booking_activity_logs` (`offer_sent`, `offer_accepted`,
+    `offer_declined`, `offer_expired`, `offers_exhausted`).
+
+  3. Scheduling
+    - `expire_trip_offers` runs every minute with pg_cron when available
+
+  4. Security
+    - RLS enabled on `trip_offers`; admins manage all offers, drivers see offers once they are sent
+    - Drivers can read the trips they have an open offer for
+    - `respond_to_trip_offer` is executable by authenticated users and only acts on the caller's
+      own offers; the other functions are only executable by the service role
+*/
+
+CREATE TABLE IF NOT EXISTS trip_offers (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  trip_id uuid NOT NULL REFERENCES trips(id) ON DELETE CASCADE,
+  driver_id uuid NOT NULL REFERENCES drivers(id) ON DELETE CASCADE,
+  driver_user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  position integer NOT NULL,
+  status text NOT NULL DEFAULT 'queued'
+    CHECK (status IN ('queued', 'pending', 'accepted', 'declined', 'expired', 'cancelled')),
+  response_minutes integer NOT NULL CHECK (response_minutes > 0),
+  offered_at timestamptz,
+  expires_at timestamptz,
+  responded_at timestamptz,
+  decline_reason text,
+  created_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS trip_offers_trip_id_idx ON trip_offers (trip_id, position);
+CREATE INDEX IF NOT EXISTS trip_offers_driver_user_id_idx ON trip_offers (driver_user_id, status);
+CREATE INDEX IF NOT EXISTS trip_offers_expiry_idx ON trip_offers (expires_at) WHERE status = 'pending';
+
+-- Only one driver is asked at a time
+CREATE UNIQUE INDEX IF NOT EXISTS trip_offers_one_open_idx ON trip_offers (trip_id) WHERE status = 'pending';
+
+ALTER TABLE trip_offers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage trip offers"
+  ON trip_offers
+  FOR ALL
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND user_role = 'admin'))
+  WITH CHECK (EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND user_role = 'admin'));
+
+CREATE POLICY "Drivers can view their sent offers"
+  ON trip_offers
+  FOR SELECT
+  TO authenticated
+  USING (driver_user_id = auth.uid() AND status <> 'queued');
+
+CREATE POLICY "Drivers can view trips offered to them"
+  ON trips
+  FOR SELECT
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM trip_offers
+    WHERE trip_offers.trip_id = trips.id
+      AND trip_offers.driver_user_id = auth.uid()
+      AND trip_offers.status = 'pending'
+  ));
+
+CREATE OR REPLACE FUNCTION public.advance_trip_offers(p_trip_id uuid)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  trip RECORD;
+  next_offer RECORD;
+  offered_until timestamptz;
+BEGIN
+  SELECT id, status, driver_id, priority INTO trip FROM trips WHERE id = p_trip_id FOR UPDATE;
+
+  -- The trip was assigned or cancelled some other way
+  IF NOT FOUND OR trip.status <> 'pending' OR trip.driver_id IS NOT NULL THEN
+    UPDATE trip_offers
+    SET status = 'cancelled', responded_at = now()
+    WHERE trip_id = p_trip_id AND status IN ('queued', 'pending');
+    RETURN 'closed';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM trip_offers WHERE trip_id = p_trip_id AND status = 'pending') THEN
+    RETURN 'open';
+  END IF;
+
+  SELECT * INTO next_offer
+  FROM trip_offers
+  WHERE trip_id = p_trip_id AND status = 'queued'
+  ORDER BY position
+  LIMIT 1
+  FOR UPDATE;
+
+  IF FOUND THEN
+    offered_until := now() + make_interval(mins => next_offer.response_minutes);
+
+    UPDATE trip_offers
+    SET status = 'pending', offered_at = now(), expires_at = offered_until
+    WHERE id = next_offer.id;
+
+    INSERT INTO booking_activity_logs (booking_id, user_id, action, details, created_at)
+    VALUES (
+      p_trip_id,
+      next_offer.created_by,
+      'offer_sent',
+      jsonb_build_object(
+        'offer_id', next_offer.id,
+        'driver_id', next_offer.driver_id,
+        'driver_user_id', next_offer.driver_user_id,
+        'driver_name', (SELECT name FROM users WHERE id = next_offer.driver_user_id),
+        'position', next_offer.position,
+        'expires_at', offered_until
+      ),
+      now()
+    );
+    RETURN 'offered';
+  END IF;
+
+  -- Every driver declined or let the offer expire
+  IF EXISTS (SELECT 1 FROM trip_offers WHERE trip_id = p_trip_id AND status IN ('declined', 'expired')) THEN
+    UPDATE trips SET priority = 2 WHERE id = p_trip_id;
+
+    INSERT INTO booking_activity_logs (booking_id, user_id, action, details, created_at)
+    VALUES (
+      p_trip_id,
+      NULL,
+      'offers_exhausted',
+      jsonb_build_object(
+        'previous_priority', COALESCE(trip.priority, 0),
+        'declined', (SELECT count(*) FROM trip_offers WHERE trip_id = p_trip_id AND status = 'declined'),
+        'expired', (SELECT count(*) FROM trip_offers WHERE trip_id = p_trip_id AND status = 'expired')
+      ),
+      now()
+    );
+  END IF;
+
+  RETURN 'exhausted';
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.respond_to_trip_offer(p_offer_id uuid, p_accept boolean, p_reason text DEFAULT NULL)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  offer RECORD;
+  driver_name text;
+BEGIN
+  SELECT * INTO offer FROM trip_offers WHERE id = p_offer_id FOR UPDATE;
+
+  IF NOT FOUND OR offer.driver_user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Offer not found';
+  END IF;
+
+  IF offer.status <> 'pending' THEN
+    RAISE EXCEPTION 'This offer is no longer open';
+  END IF;
+
+  IF offer.expires_at <= now() THEN
+    RAISE EXCEPTION 'This offer has expired';
+  END IF;
+
+  SELECT name INTO driver_name FROM users WHERE id = offer.driver_user_id;
+
+  IF p_accept THEN
+    UPDATE trips
+    SET driver_id = offer.driver_user_id,
+        status = 'accepted',
+        internal_tags = array_remove(internal_tags, 'no_driver')
+    WHERE id = offer.trip_id AND status = 'pending' AND driver_id IS NULL;
+
+    IF NOT FOUND THEN
+      UPDATE trip_offers SET status = 'cancelled', responded_at = now() WHERE id = offer.id;
+      RETURN 'cancelled';
+    END IF;
+
+    UPDATE trip_offers SET status = 'accepted', responded_at = now() WHERE id = offer.id;
+
+    UPDATE trip_offers
+    SET status = 'cancelled', responded_at = now()
+    WHERE trip_id = offer.trip_id AND status = 'queued';
+
+    INSERT INTO booking_activity_logs (booking_id, user_id, action, details, created_at)
+    VALUES (
+      offer.trip_id,
+      offer.driver_user_id,
+      'offer_accepted',
+      jsonb_build_object(
+        'offer_id', offer.id,
+        'driver_id', offer.driver_id,
+        'driver_user_id', offer.driver_user_id,
+        'driver_name', driver_name
+      ),
+      now()
+    );
+    RETURN 'accepted';
+  END IF;
+
+  UPDATE trip_offers
+  SET status = 'declined', responded_at = now(), decline_reason = NULLIF(trim(p_reason), '')
+  WHERE id = offer.id;
+
+  INSERT INTO booking_activity_logs (booking_id, user_id, action, details, created_at)
+  VALUES (
+    offer.trip_id,
+    offer.driver_user_id,
+    'offer_declined',
+    jsonb_build_object(
+      'offer_id', offer.id,
+      'driver_id', offer.driver_id,
+      'driver_name', driver_name,
+      'reason', NULLIF(trim(p_reason), '')
+    ),
+    now()
+  );
+
+  PERFORM advance_trip_offers(offer.trip_id);
+  RETURN 'declined';
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.expire_trip_offers()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  offer RECORD;
+  expired integer := 0;
+BEGIN
+  FOR offer IN
+    SELECT * FROM trip_offers
+    WHERE status = 'pending' AND expires_at <= now()
+    ORDER BY expires_at
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    UPDATE trip_offers SET status = 'expired', responded_at = now() WHERE id = offer.id;
+
+    INSERT INTO booking_activity_logs (booking_id, user_id, action, details, created_at)
+    VALUES (
+      offer.trip_id,
+      NULL,
+      'offer_expired',
+      jsonb_build_object(
+        'offer_id', offer.id,
+        'driver_id', offer.driver_id,
+        'driver_name', (SELECT name FROM users WHERE id = offer.driver_user_id),
+        'expires_at', offer.expires_at
+      ),
+      now()
+    );
+
+    PERFORM advance_trip_offers(offer.trip_id);
+    expired := expired + 1;
+  END LOOP;
+
+  RETURN expired;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.advance_trip_offers(uuid) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.respond_to_trip_offer(uuid, boolean, text) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.expire_trip_offers() FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.advance_trip_offers(uuid) TO service_role;
+GRANT EXECUTE ON FUNCTION public.respond_to_trip_offer(uuid, boolean, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.expire_trip_offers() TO service_role;
+
+-- Expire unanswered offers every minute
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule(
+      'expire-trip-offers',
+      '* * * * *',
+      'SELECT public.expire_trip_offers()'
+    );
+  END IF;
+END $$;
\ No newline at end of file
@@ -0,0 +1,237 @@
+/*
+  # Bulk booking actions
+
+  1. New Functions
+    - `admin_bulk_update_bookings` - Applies one action to a batch of bookings in a single
+      transaction. Each booking is tried on its own so every failure can be reported, but
+      if any booking fails the whole batch is rolled back. Returns
+      `{ applied, results: [{ bookingId, bookingReference, success, error }] }`
+      - `assign_driver` (`driver_id`) - Assigns the driver and withdraws open offers. Bookings
+        listed in `schedule_conflicts` fail unless `allow_conflicts` is set
+      - `send_reminder` - Records a reminder and raises the priority to at least high
+      - `set_priority` (`priority`) - Sets the priority
+      - `add_tags` (`tags`) - Adds internal tags the booking does not have yet
+      - `cancel` - Cancels the booking and withdraws open offers
+
+    Each changed booking gets one entry in `booking_activity_logs` with `bulk` set in its
+    details.
+
+  2. Security
+    - Only executable by the service role; admins go through the
+      `admin-bulk-update-bookings` edge function
+*/
+
+CREATE OR REPLACE FUNCTION public.admin_bulk_update_bookings(
+  p_booking_ids uuid[],
+  p_action text,
+  p_params jsonb,
+  p_actor uuid
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  current_id uuid;
+  trip RECORD;
+  driver RECORD;
+  reference text;
+  new_tags text[];
+  added_tags text[];
+  withdrawn integer;
+  conflict jsonb;
+  results jsonb := '[]'::jsonb;
+  failed boolean := false;
+BEGIN
+  IF p_action NOT IN ('assign_driver', 'send_reminder', 'set_priority', 'add_tags', 'cancel') THEN
+    RAISE EXCEPTION 'Unknown bulk action: %', p_action;
+  END IF;
+
+  IF p_action = 'assign_driver' THEN
+    SELECT drivers.id, drivers.user_id, users.name INTO driver
+    FROM drivers
+    LEFT JOIN users ON users.id = drivers.user_id
+    WHERE drivers.id = (p_params->>'driver_id')::uuid;
+
+    IF NOT FOUND OR driver.user_id IS NULL THEN
+      RAISE EXCEPTION 'Driver not found';
+    END IF;
+  END IF;
+
+  IF p_action = 'set_priority' AND COALESCE((p_params->>'priority')::integer, -1) NOT IN (0, 1, 2) THEN
+    RAISE EXCEPTION 'Invalid priority';
+  END IF;
+
+  IF p_action = 'add_tags' THEN
+    SELECT array_agg(DISTINCT tag) INTO new_tags
+    FROM jsonb_array_elements_text(p_params->'tags') AS tag
+    WHERE trim(tag) <> '';
+
+    IF new_tags IS NULL THEN
+      RAISE EXCEPTION 'No tags given';
+    END IF;
+  END IF;
+
+  BEGIN
+    FOREACH current_id IN ARRAY p_booking_ids LOOP
+      reference := NULL;
+
+      -- A failing booking only undoes its own changes here; the batch is undone below
+      BEGIN
+        SELECT id, booking_reference, status, priority, internal_tags, customer_email INTO trip
+        FROM trips
+        WHERE id = current_id
+        FOR UPDATE;
+
+        IF NOT FOUND THEN
+          RAISE EXCEPTION 'Booking not found';
+        END IF;
+
+        reference := trip.booking_reference;
+
+        CASE p_action
+          WHEN 'assign_driver' THEN
+            IF trip.status NOT IN ('pending', 'accepted') THEN
+              RAISE EXCEPTION 'Cannot assign a driver to a % booking', replace(trip.status, '_', ' ');
+            END IF;
+
+            conflict := p_params->'schedule_conflicts'->(current_id::text);
+            IF conflict IS NOT NULL AND NOT COALESCE((p_params->>'allow_conflicts')::boolean, false) THEN
+              RAISE EXCEPTION 'Driver has an overlapping trip: %', conflict->>'description';
+            END IF;
+
+            UPDATE trips
+            SET driver_id = driver.user_id,
+                status = 'accepted',
+                internal_tags = array_remove(internal_tags, 'no_driver')
+            WHERE id = current_id;
+
+            UPDATE trip_offers
+            SET status = 'cancelled', responded_at = now()
+            WHERE trip_id = current_id AND status IN ('queued', 'pending');
+            GET DIAGNOSTICS withdrawn = ROW_COUNT;
+
+            INSERT INTO booking_activity_logs (booking_id, user_id, action, details, created_at)
+            VALUES (
+              current_id,
+              p_actor,
+              'driver_assigned',
+              jsonb_strip_nulls(jsonb_build_object(
+                'driver_id', driver.id,
+                'driver_user_id', driver.user_id,
+                'driver_name', driver.name,
+                'offers_withdrawn', NULLIF(withdrawn, 0),
+                'schedule_conflicts', conflict->'trips',
+                'bulk', true
+              )),
+              now()
+            );
+
+          WHEN 'send_reminder' THEN
+            IF trip.status IN ('completed', 'cancelled') THEN
+              RAISE EXCEPTION 'Cannot send a reminder for a % booking', trip.status;
+            END IF;
+
+            UPDATE trips
+            SET last_reminder_sent = now(),
+                priority = GREATEST(COALESCE(priority, 0), 1)
+            WHERE id = current_id;
+
+            INSERT INTO booking_activity_logs (booking_id, user_id, action, details, created_at)
+            VALUES (
+              current_id,
+              p_actor,
+              'reminder_sent',
+              jsonb_build_object('timestamp', now(), 'recipient', trip.customer_email, 'bulk', true),
+              now()
+            );
+
+          WHEN 'set_priority' THEN
+            UPDATE trips SET priority = (p_params->>'priority')::integer WHERE id = current_id;
+
+            INSERT INTO booking_activity_logs (booking_id, user_id, action, details, created_at)
+            VALUES (
+              current_id,
+              p_actor,
+              'priority_changed',
+              jsonb_build_object(
+                'previous_priority', COALESCE(trip.priority, 0),
+                'new_priority', (p_params->>'priority')::integer,
+                'bulk', true
+              ),
+              now()
+            );
+
+          WHEN 'add_tags' THEN
+            SELECT array_agg(tag) INTO added_tags
+            FROM unnest(new_tags) AS tag
+            WHERE NOT tag = ANY (COALESCE(trip.internal_tags, '{}'));
+
+            -- Bookings that already have every tag are left alone
+            IF added_tags IS NOT NULL THEN
+              UPDATE trips
+              SET internal_tags = COALESCE(internal_tags, '{}') || added_tags
+              WHERE id = current_id;
+
+              INSERT INTO booking_activity_logs (booking_id, user_id, action, details, created_at)
+              VALUES (
+                current_id,
+                p_actor,
+                'tags_added',
+                jsonb_build_object('tags', to_jsonb(added_tags), 'bulk', true),
+                now()
+              );
+            END IF;
+
+          WHEN 'cancel' THEN
+            IF trip.status IN ('completed', 'cancelled') THEN
+              RAISE EXCEPTION 'Booking is already %', trip.status;
+            END IF;
+
+            UPDATE trips SET status = 'cancelled' WHERE id = current_id;
+
+            UPDATE trip_offers
+            SET status = 'cancelled', responded_at = now()
+            WHERE trip_id = current_id AND status IN ('queued', 'pending');
+
+            INSERT INTO booking_activity_logs (booking_id, user_id, action, details, created_at)
+            VALUES (
+              current_id,
+              p_actor,
+              'status_update',
+              jsonb_build_object('previous_status', trip.status, 'new_status', 'cancelled', 'bulk', true),
+              now()
+            );
+        END CASE;
+
+        results := results || jsonb_build_object(
+          'bookingId', current_id,
+          'bookingReference', reference,
+          'success', true
+        );
+      EXCEPTION WHEN OTHERS THEN
+        failed := true;
+        results := results || jsonb_build_object(
+          'bookingId', current_id,
+          'bookingReference', reference,
+          'success', false,
+          'error', SQLERRM
+        );
+      END;
+    END LOOP;
+
+    -- Undo the bookings that succeeded; the results survive the rollback
+    IF failed THEN
+      RAISE EXCEPTION USING ERRCODE = 'RTB01';
+    END IF;
+  EXCEPTION WHEN SQLSTATE 'RTB01' THEN
+    NULL;
+  END;
+
+  RETURN jsonb_build_object('applied', NOT failed, 'results', results);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.admin_bulk_update_bookings(uuid[], text, jsonb, uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.admin_bulk_update_bookings(uuid[], text, jsonb, uuid) TO service_role;
\ No newline at end of file
@@ -0,0 +1,43 @@
+/*
+  # Reminder delivery tracking
+
+  1. New Tables
+    - `notification_deliveries` - One row per email or SMS sent about a booking
+      - `template` - Reminder template the message was rendered from
+      - `recipient_type` - `customer` or `driver`; `recipient` is the address or number used
+      - `status` - `pending` while the provider is called, then `sent` or `failed` with `error`
+      - `provider` / `provider_message_id` - Which provider took the message and its reference
+
+  2. Security
+    - RLS enabled; admins can read deliveries. Rows are written by the reminder edge
+      functions with the service role
+*/
+
+CREATE TABLE IF NOT EXISTS notification_deliveries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  booking_id uuid NOT NULL REFERENCES trips(id) ON DELETE CASCADE,
+  template text NOT NULL,
+  recipient_type text NOT NULL CHECK (recipient_type IN ('customer', 'driver')),
+  channel text NOT NULL CHECK (channel IN ('email', 'sms')),
+  recipient text,
+  subject text,
+  body text NOT NULL,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sent', 'failed')),
+  provider text,
+  provider_message_id text,
+  error text,
+  sent_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  sent_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS notification_deliveries_booking_id_idx ON notification_deliveries (booking_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS notification_deliveries_failed_idx ON notification_deliveries (created_at) WHERE status = 'failed';
+
+ALTER TABLE notification_deliveries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view notification deliveries"
+  ON notification_deliveries
+  FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND user_role = 'admin'));
\ No newline at end of file
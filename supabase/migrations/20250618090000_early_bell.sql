@@ -0,0 +1,56 @@
+/*
+  # Scheduled booking reminders
+
+  1. Changes
+    - `platform_settings.reminder_policies` - Automatic reminders, each with the time before
+      pickup it goes out, the template, recipients and channels. Starts with a 24 hour and a
+      2 hour reminder, both disabled
+    - `trips.reminders_opt_out` - Stops automatic reminders for a booking
+    - `notification_deliveries.policy_id` - The policy an automatic message was sent for, so a
+      policy only runs once per booking
+
+  2. Scheduling
+    - Calls the `send-scheduled-reminders` edge function every 5 minutes with pg_cron and pg_net
+      when both are available, reading the project URL and service role key from the
+      `app.settings.supabase_url` and `app.settings.service_role_key` database settings
+
+  3. Indexes
+    - `notification_deliveries (booking_id, policy_id)` for checking which policies already ran
+*/
+
+ALTER TABLE platform_settings ADD COLUMN IF NOT EXISTS reminder_policies jsonb NOT NULL DEFAULT '[
+  {"id": "24h", "minutes_before": 1440, "template": "trip_reminder", "recipients": ["customer", "driver"], "channels": ["email"], "enabled": false},
+  {"id": "2h", "minutes_before": 120, "template": "trip_reminder", "recipients": ["customer", "driver"], "channels": ["email"], "enabled": false}
+]'::jsonb;
+
+ALTER TABLE trips ADD COLUMN IF NOT EXISTS reminders_opt_out boolean NOT NULL DEFAULT false;
+
+ALTER TABLE notification_deliveries ADD COLUMN IF NOT EXISTS policy_id text;
+
+CREATE INDEX IF NOT EXISTS notification_deliveries_policy_idx
+  ON notification_deliveries (booking_id, policy_id)
+  WHERE policy_id IS NOT NULL;
+
+-- Send due reminders every 5 minutes
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron')
+    AND EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_net') THEN
+    PERFORM cron.schedule(
+      'send-scheduled-reminders',
+      '*/5 * * * *',
+      $cron$
+        SELECT net.http_post(
+          url := current_setting('app.settings.supabase_url') || '/functions/v1/send-scheduled-reminders',
+          headers := jsonb_build_object(
+            'Authorization', 'Bearer ' || current_setting('app.settings.service_role_key'),
+            'Content-Type', 'application/json'
+          ),
+          body := '{}'::jsonb
+        )
+        WHERE current_setting('app.settings.supabase_url', true) IS NOT NULL
+          AND current_setting('app.settings.service_role_key', true) IS NOT NULL
+      $cron$
+    );
+  END IF;
+END $$;
\ No newline at end of file
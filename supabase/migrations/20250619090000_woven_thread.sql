@@ -0,0 +1,82 @@
+/*
+  # Recurring booking series
+
+  1. New Tables
+    - `booking_series` - A trip repeated on the dates of a recurrence rule
+      - `rrule` - Daily or weekly RRULE with COUNT or UNTIL, e.g. `FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR;UNTIL=20251231`
+      - `starts_at` - First pickup; every trip is picked up at its local time of day in `time_zone`
+      - `skip_dates` - Dates of the rule that get no trip
+      - `template` - Trip fields copied onto every new trip of the series
+      - `generated_through` - Last date trips have been created for; trips are created 30 days ahead
+      - `status` - `active`, or `ended` once the last trip exists
+
+  2. Changes
+    - `trips.series_id` / `trips.series_date` - The series a trip belongs to and the local date it
+      was created for; a series has at most one trip per date
+    - `trips.series_detached` - Set when a single trip was edited on its own, so later changes to
+      the series leave it alone
+
+  3. Security
+    - RLS enabled; admins can read series. Series are written by the booking series edge
+      functions with the service role
+
+  4. Scheduling
+    - Calls the `generate-recurring-bookings` edge function daily at 02:00 UTC with pg_cron and
+      pg_net when both are available
+*/
+
+CREATE TABLE IF NOT EXISTS booking_series (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  rrule text NOT NULL,
+  starts_at timestamptz NOT NULL,
+  time_zone text NOT NULL DEFAULT 'UTC',
+  skip_dates date[] NOT NULL DEFAULT '{}',
+  template jsonb NOT NULL,
+  status text NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'ended')),
+  generated_through date,
+  created_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS booking_series_active_idx ON booking_series (generated_through) WHERE status = 'active';
+
+ALTER TABLE trips ADD COLUMN IF NOT EXISTS series_id uuid REFERENCES booking_series(id) ON DELETE SET NULL;
+ALTER TABLE trips ADD COLUMN IF NOT EXISTS series_date date;
+ALTER TABLE trips ADD COLUMN IF NOT EXISTS series_detached boolean NOT NULL DEFAULT false;
+
+-- Not partial, so trip generation can upsert on it; trips outside a series have NULLs
+ALTER TABLE trips DROP CONSTRAINT IF EXISTS trips_series_date_key;
+ALTER TABLE trips ADD CONSTRAINT trips_series_date_key UNIQUE (series_id, series_date);
+
+ALTER TABLE booking_series ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view booking series"
+  ON booking_series
+  FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND user_role = 'admin'));
+
+-- Create the coming trips of every active series once a day
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron')
+    AND EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_net') THEN
+    PERFORM cron.schedule(
+      'generate-recurring-bookings',
+      '0 2 * * *',
+      $cron$
+        SELECT net.http_post(
+          url := current_setting('app.settings.supabase_url') || '/functions/v1/generate-recurring-bookings',
+          headers := jsonb_build_object(
+            'Authorization', 'Bearer ' || current_setting('app.settings.service_role_key'),
+            'Content-Type', 'application/json'
+          ),
+          body := '{}'::jsonb
+        )
+        WHERE current_setting('app.settings.supabase_url', true) IS NOT NULL
+          AND current_setting('app.settings.service_role_key', true) IS NOT NULL
+      $cron$
+    );
+  END IF;
+END $$;
\ No newline at end of file
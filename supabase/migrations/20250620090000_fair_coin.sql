@@ -0,0 +1,322 @@
+/*
+  # Booking cancellation policy and refunds
+
+  1. Changes
+    - `platform_settings.cancellation_policy` - Fee tiers by hours before pickup, e.g. 50% within
+      24 hours and 100% within 2 hours, plus vehicle types charged by their own tiers
+    - `payments.kind` - `charge` for payments taken, `refund` for money returned (stored as a
+      negative amount) or `cancellation_fee` for a fee still owed after a cancellation
+    - `payments.reason` - Why an admin refunded or charged the payment
+
+  2. New Functions
+    - `apply_booking_cancellation` - Cancels a booking with the fee computed by the
+      `admin-cancel-booking` edge function: withdraws open offers, records the refund of what
+      was paid beyond the fee or the part of the fee that was not paid as a pending payment,
+      and logs `booking_cancelled` with the fee details
+    - `admin_bulk_update_bookings` - The `cancel` action now goes through
+      `apply_booking_cancellation` with the fee computed for each booking in
+      `cancellations`, so bulk cancellations get the same refunds and fees
+
+  3. Security
+    - Both functions are only executable by the service role
+*/
+
+ALTER TABLE platform_settings ADD COLUMN IF NOT EXISTS cancellation_policy jsonb NOT NULL DEFAULT '{
+  "tiers": [
+    {"hours_before": 24, "fee_percent": 50},
+    {"hours_before": 2, "fee_percent": 100}
+  ],
+  "vehicle_exceptions": []
+}'::jsonb;
+
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS kind text NOT NULL DEFAULT 'charge'
+  CHECK (kind IN ('charge', 'refund', 'cancellation_fee'));
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS reason text;
+
+CREATE OR REPLACE FUNCTION public.apply_booking_cancellation(
+  p_trip_id uuid,
+  p_cancellation jsonb,
+  p_actor uuid,
+  p_bulk boolean DEFAULT false
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  trip RECORD;
+  method text;
+  withdrawn integer;
+  payment_id uuid;
+  refund numeric := COALESCE((p_cancellation->>'refund')::numeric, 0);
+  outstanding numeric := COALESCE((p_cancellation->>'outstanding')::numeric, 0);
+  details jsonb;
+BEGIN
+  IF p_cancellation IS NULL OR p_cancellation->'fee' IS NULL THEN
+    RAISE EXCEPTION 'Cancellation fee could not be computed';
+  END IF;
+
+  SELECT id, status, user_id INTO trip
+  FROM trips
+  WHERE id = p_trip_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Booking not found';
+  END IF;
+
+  IF trip.status IN ('completed', 'cancelled') THEN
+    RAISE EXCEPTION 'Booking is already %', trip.status;
+  END IF;
+
+  UPDATE trips SET status = 'cancelled' WHERE id = p_trip_id;
+
+  UPDATE trip_offers
+  SET status = 'cancelled', responded_at = now()
+  WHERE trip_id = p_trip_id AND status IN ('queued', 'pending');
+  GET DIAGNOSTICS withdrawn = ROW_COUNT;
+
+  -- Refunds go back the way the customer paid; both are pending until settled
+  IF refund > 0 THEN
+    SELECT payment_method INTO method
+    FROM payments
+    WHERE trip_id = p_trip_id AND kind = 'charge' AND status = 'completed'
+    ORDER BY paid_at DESC NULLS LAST
+    LIMIT 1;
+
+    INSERT INTO payments (trip_id, user_id, amount, status, payment_method, kind, reason, created_at)
+    VALUES (p_trip_id, trip.user_id, -refund, 'pending', COALESCE(method, 'manual'), 'refund', p_cancellation->>'reason', now())
+    RETURNING id INTO payment_id;
+  ELSIF outstanding > 0 THEN
+    INSERT INTO payments (trip_id, user_id, amount, status, payment_method, kind, reason, created_at)
+    VALUES (p_trip_id, trip.user_id, outstanding, 'pending', 'manual', 'cancellation_fee', p_cancellation->>'reason', now())
+    RETURNING id INTO payment_id;
+  END IF;
+
+  details := jsonb_strip_nulls(jsonb_build_object(
+    'previous_status', trip.status,
+    'hours_before_pickup', p_cancellation->'hoursBeforePickup',
+    'tier', p_cancellation->'tier',
+    'vehicle_exception', p_cancellation->'vehicleException',
+    'total', p_cancellation->'total',
+    'fee', p_cancellation->'fee',
+    'fee_percent', p_cancellation->'feePercent',
+    'fee_overridden', CASE WHEN (p_cancellation->>'feeOverridden')::boolean THEN true END,
+    'paid', p_cancellation->'paid',
+    'refund', NULLIF(refund, 0),
+    'outstanding', NULLIF(outstanding, 0),
+    'payment_id', payment_id,
+    'reason', NULLIF(p_cancellation->>'reason', ''),
+    'offers_withdrawn', NULLIF(withdrawn, 0),
+    'bulk', CASE WHEN p_bulk THEN true END
+  ));
+
+  INSERT INTO booking_activity_logs (booking_id, user_id, action, details, created_at)
+  VALUES (p_trip_id, p_actor, 'booking_cancelled', details, now());
+
+  RETURN details;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.apply_booking_cancellation(uuid, jsonb, uuid, boolean) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.apply_booking_cancellation(uuid, jsonb, uuid, boolean) TO service_role;
+
+CREATE OR REPLACE FUNCTION public.admin_bulk_update_bookings(
+  p_booking_ids uuid[],
+  p_action text,
+  p_params jsonb,
+  p_actor uuid
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  current_id uuid;
+  trip RECORD;
+  driver RECORD;
+  reference text;
+  new_tags text[];
+  added_tags text[];
+  withdrawn integer;
+  conflict jsonb;
+  results jsonb := '[]'::jsonb;
+  failed boolean := false;
+BEGIN
+  IF p_action NOT IN ('assign_driver', 'send_reminder', 'set_priority', 'add_tags', 'cancel') THEN
+    RAISE EXCEPTION 'Unknown bulk action: %', p_action;
+  END IF;
+
+  IF p_action = 'assign_driver' THEN
+    SELECT drivers.id, drivers.user_id, users.name INTO driver
+    FROM drivers
+    LEFT JOIN users ON users.id = drivers.user_id
+    WHERE drivers.id = (p_params->>'driver_id')::uuid;
+
+    IF NOT FOUND OR driver.user_id IS NULL THEN
+      RAISE EXCEPTION 'Driver not found';
+    END IF;
+  END IF;
+
+  IF p_action = 'set_priority' AND COALESCE((p_params->>'priority')::integer, -1) NOT IN (0, 1, 2) THEN
+    RAISE EXCEPTION 'Invalid priority';
+  END IF;
+
+  IF p_action = 'add_tags' THEN
+    SELECT array_agg(DISTINCT tag) INTO new_tags
+    FROM jsonb_array_elements_text(p_params->'tags') AS tag
+    WHERE trim(tag) <> '';
+
+    IF new_tags IS NULL THEN
+      RAISE EXCEPTION 'No tags given';
+    END IF;
+  END IF;
+
+  BEGIN
+    FOREACH current_id IN ARRAY p_booking_ids LOOP
+      reference := NULL;
+
+      -- A failing booking only undoes its own changes here; the batch is undone below
+      BEGIN
+        SELECT id, booking_reference, status, priority, internal_tags, customer_email INTO trip
+        FROM trips
+        WHERE id = current_id
+        FOR UPDATE;
+
+        IF NOT FOUND THEN
+          RAISE EXCEPTION 'Booking not found';
+        END IF;
+
+        reference := trip.booking_reference;
+
+        CASE p_action
+          WHEN 'assign_driver' THEN
+            IF trip.status NOT IN ('pending', 'accepted') THEN
+              RAISE EXCEPTION 'Cannot assign a driver to a % booking', replace(trip.status, '_', ' ');
+            END IF;
+
+            conflict := p_params->'schedule_conflicts'->(current_id::text);
+            IF conflict IS NOT NULL AND NOT COALESCE((p_params->>'allow_conflicts')::boolean, false) THEN
+              RAISE EXCEPTION 'Driver has an overlapping trip: %', conflict->>'description';
+            END IF;
+
+            UPDATE trips
+            SET driver_id = driver.user_id,
+                status = 'accepted',
+                internal_tags = array_remove(internal_tags, 'no_driver')
+            WHERE id = current_id;
+
+            UPDATE trip_offers
+            SET status = 'cancelled', responded_at = now()
+            WHERE trip_id = current_id AND status IN ('queued', 'pending');
+            GET DIAGNOSTICS withdrawn = ROW_COUNT;
+
+            INSERT INTO booking_activity_logs (booking_id, user_id, action, details, created_at)
+            VALUES (
+              current_id,
+              p_actor,
+              'driver_assigned',
+              jsonb_strip_nulls(jsonb_build_object(
+                'driver_id', driver.id,
+                'driver_user_id', driver.user_id,
+                'driver_name', driver.name,
+                'offers_withdrawn', NULLIF(withdrawn, 0),
+                'schedule_conflicts', conflict->'trips',
+                'bulk', true
+              )),
+              now()
+            );
+
+          WHEN 'send_reminder' THEN
+            IF trip.status IN ('completed', 'cancelled') THEN
+              RAISE EXCEPTION 'Cannot send a reminder for a % booking', trip.status;
+            END IF;
+
+            UPDATE trips
+            SET last_reminder_sent = now(),
+                priority = GREATEST(COALESCE(priority, 0), 1)
+            WHERE id = current_id;
+
+            INSERT INTO booking_activity_logs (booking_id, user_id, action, details, created_at)
+            VALUES (
+              current_id,
+              p_actor,
+              'reminder_sent',
+              jsonb_build_object('timestamp', now(), 'recipient', trip.customer_email, 'bulk', true),
+              now()
+            );
+
+          WHEN 'set_priority' THEN
+            UPDATE trips SET priority = (p_params->>'priority')::integer WHERE id = current_id;
+
+            INSERT INTO booking_activity_logs (booking_id, user_id, action, details, created_at)
+            VALUES (
+              current_id,
+              p_actor,
+              'priority_changed',
+              jsonb_build_object(
+                'previous_priority', COALESCE(trip.priority, 0),
+                'new_priority', (p_params->>'priority')::integer,
+                'bulk', true
+              ),
+              now()
+            );
+
+          WHEN 'add_tags' THEN
+            SELECT array_agg(tag) INTO added_tags
+            FROM unnest(new_tags) AS tag
+            WHERE NOT tag = ANY (COALESCE(trip.internal_tags, '{}'));
+
+            -- Bookings that already have every tag are left alone
+            IF added_tags IS NOT NULL THEN
+              UPDATE trips
+              SET internal_tags = COALESCE(internal_tags, '{}') || added_tags
+              WHERE id = current_id;
+
+              INSERT INTO booking_activity_logs (booking_id, user_id, action, details, created_at)
+              VALUES (
+                current_id,
+                p_actor,
+                'tags_added',
+                jsonb_build_object('tags', to_jsonb(added_tags), 'bulk', true),
+                now()
+              );
+            END IF;
+
+          WHEN 'cancel' THEN
+            -- Cancels with the fee the edge function computed for this booking
+            PERFORM apply_booking_cancellation(current_id, p_params->'cancellations'->(current_id::text), p_actor, true);
+        END CASE;
+
+        results := results || jsonb_build_object(
+          'bookingId', current_id,
+          'bookingReference', reference,
+          'success', true
+        );
+      EXCEPTION WHEN OTHERS THEN
+        failed := true;
+        results := results || jsonb_build_object(
+          'bookingId', current_id,
+          'bookingReference', reference,
+          'success', false,
+          'error', SQLERRM
+        );
+      END;
+    END LOOP;
+
+    -- Undo the bookings that succeeded; the results survive the rollback
+    IF failed THEN
+      RAISE EXCEPTION USING ERRCODE = 'RTB01';
+    END IF;
+  EXCEPTION WHEN SQLSTATE 'RTB01' THEN
+    NULL;
+  END;
+
+  RETURN jsonb_build_object('applied', NOT failed, 'results', results);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.admin_bulk_update_bookings(uuid[], text, jsonb, uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.admin_bulk_update_bookings(uuid[], text, jsonb, uuid) TO service_role;
\ No newline at end of file
@@ -0,0 +1,567 @@
+/*
+  # Trip status state machine and timeline
+
+  1. New Tables
+    - `trip_status_transitions` - Every status change of a trip: the status it left and
+      entered, who changed it and as what (`admin`, `driver`, `customer` or `system`), an
+      optional reason and when. Existing trips start with a `pending` entry at their creation
+      time; changes before this migration were not recorded
+
+  2. Changes
+    - `trips.accepted_at`, `started_at`, `completed_at` and `cancelled_at` - When the trip last
+      entered each status, set by the database
+    - Status changes are checked against the allowed transitions whoever makes them, so a
+      completed or cancelled trip can no longer change status and only the assigned driver can
+      start or complete a trip
+
+  3. New Functions
+    - `trip_status_transition_allowed` - The allowed transitions for each kind of actor, the
+      same as `TRIP_TRANSITIONS` in `_shared/tripStatus.ts`
+    - `set_trip_status_actor` - Names who makes the status changes in the current transaction,
+      for functions running as the service role. Without it the signed-in user is used, and
+      service role changes count as made by the platform (`system`)
+    - `transition_trip_status` - Changes the status of a trip for the `update-trip-status` and
+      `admin-update-booking` edge functions
+    - `apply_booking_cancellation` and `admin_bulk_update_bookings` - Record the admin making
+      the change
+
+  4. Security
+    - RLS on `trip_status_transitions`: admins can read, nobody can write directly
+    - `set_trip_status_actor` and `transition_trip_status` are only executable by the service role
+*/
+
+CREATE TABLE IF NOT EXISTS trip_status_transitions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  trip_id uuid NOT NULL REFERENCES trips(id) ON DELETE CASCADE,
+  from_status text,
+  to_status text NOT NULL,
+  changed_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  actor_role text CHECK (actor_role IN ('admin', 'driver', 'customer', 'system')),
+  reason text,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS trip_status_transitions_trip_id_idx ON trip_status_transitions (trip_id, created_at);
+
+ALTER TABLE trip_status_transitions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view trip status transitions"
+  ON trip_status_transitions
+  FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND user_role = 'admin'));
+
+ALTER TABLE trips ADD COLUMN IF NOT EXISTS accepted_at timestamptz;
+ALTER TABLE trips ADD COLUMN IF NOT EXISTS started_at timestamptz;
+ALTER TABLE trips ADD COLUMN IF NOT EXISTS completed_at timestamptz;
+ALTER TABLE trips ADD COLUMN IF NOT EXISTS cancelled_at timestamptz;
+
+INSERT INTO trip_status_transitions (trip_id, from_status, to_status, created_at)
+SELECT id, NULL, 'pending', COALESCE(created_at, now())
+FROM trips
+WHERE NOT EXISTS (SELECT 1 FROM trip_status_transitions t WHERE t.trip_id = trips.id);
+
+CREATE OR REPLACE FUNCTION public.trip_status_transition_allowed(p_from text, p_to text, p_role text)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM (VALUES
+      ('pending', 'accepted', 'admin'),
+      ('pending', 'accepted', 'driver'),
+      ('pending', 'accepted', 'system'),
+      ('pending', 'cancelled', 'admin'),
+      ('pending', 'cancelled', 'customer'),
+      ('pending', 'cancelled', 'system'),
+      ('accepted', 'pending', 'admin'),
+      ('accepted', 'pending', 'system'),
+      ('accepted', 'in_progress', 'admin'),
+      ('accepted', 'in_progress', 'driver'),
+      ('accepted', 'cancelled', 'admin'),
+      ('accepted', 'cancelled', 'customer'),
+      ('accepted', 'cancelled', 'system'),
+      ('in_progress', 'completed', 'admin'),
+      ('in_progress', 'completed', 'driver'),
+      ('in_progress', 'cancelled', 'admin')
+    ) AS allowed (from_status, to_status, role)
+    WHERE from_status = p_from AND to_status = p_to AND role = p_role
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.set_trip_status_actor(p_actor uuid, p_role text, p_reason text DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM set_config('app.trip_status_actor_id', COALESCE(p_actor::text, ''), true);
+  PERFORM set_config('app.trip_status_actor_role', COALESCE(p_role, ''), true);
+  PERFORM set_config('app.trip_status_reason', COALESCE(p_reason, ''), true);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.set_trip_status_actor(uuid, text, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.set_trip_status_actor(uuid, text, text) TO service_role;
+
+-- Who is changing a status: the actor named for the transaction, else the signed-in user
+CREATE OR REPLACE FUNCTION public.current_trip_status_actor(OUT actor_id uuid, OUT actor_role text)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  role_name text;
+BEGIN
+  actor_id := COALESCE(NULLIF(current_setting('app.trip_status_actor_id', true), '')::uuid, auth.uid());
+  actor_role := NULLIF(current_setting('app.trip_status_actor_role', true), '');
+
+  IF actor_role IS NULL THEN
+    IF auth.uid() IS NULL THEN
+      actor_role := 'system';
+    ELSE
+      SELECT user_role::text INTO role_name FROM users WHERE id = auth.uid();
+      -- Support staff and unknown users have no transitions
+      actor_role := CASE role_name
+        WHEN 'admin' THEN 'admin'
+        WHEN 'partner' THEN 'driver'
+        WHEN 'customer' THEN 'customer'
+      END;
+    END IF;
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.current_trip_status_actor() FROM PUBLIC;
+
+CREATE OR REPLACE FUNCTION public.check_trip_status_transition()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  actor RECORD;
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+      RETURN NEW;
+    END IF;
+
+    SELECT * INTO actor FROM current_trip_status_actor();
+
+    IF NOT trip_status_transition_allowed(OLD.status::text, NEW.status::text, actor.actor_role) THEN
+      RAISE EXCEPTION '%', format(
+        'A booking cannot be moved from %s to %s%s',
+        replace(OLD.status::text, '_', ' '),
+        replace(NEW.status::text, '_', ' '),
+        CASE actor.actor_role
+          WHEN 'admin' THEN ' by an admin'
+          WHEN 'system' THEN ' by the system'
+          WHEN 'driver' THEN ' by the driver'
+          WHEN 'customer' THEN ' by the customer'
+          ELSE ''
+        END
+      );
+    END IF;
+
+    IF actor.actor_role = 'driver' AND NEW.driver_id IS DISTINCT FROM actor.actor_id THEN
+      RAISE EXCEPTION 'Only the driver assigned to a booking can change its status';
+    END IF;
+  END IF;
+
+  CASE NEW.status::text
+    WHEN 'accepted' THEN NEW.accepted_at := now();
+    WHEN 'in_progress' THEN NEW.started_at := now();
+    WHEN 'completed' THEN NEW.completed_at := now();
+    WHEN 'cancelled' THEN NEW.cancelled_at := now();
+    ELSE NULL;
+  END CASE;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.record_trip_status_transition()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  actor RECORD;
+BEGIN
+  SELECT * INTO actor FROM current_trip_status_actor();
+
+  INSERT INTO trip_status_transitions (trip_id, from_status, to_status, changed_by, actor_role, reason, created_at)
+  VALUES (
+    NEW.id,
+    CASE WHEN TG_OP = 'UPDATE' THEN OLD.status::text END,
+    NEW.status::text,
+    actor.actor_id,
+    actor.actor_role,
+    NULLIF(current_setting('app.trip_status_reason', true), ''),
+    now()
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trips_check_status_transition ON trips;
+CREATE TRIGGER trips_check_status_transition
+  BEFORE INSERT OR UPDATE OF status ON trips
+  FOR EACH ROW
+  EXECUTE FUNCTION check_trip_status_transition();
+
+DROP TRIGGER IF EXISTS trips_record_status_created ON trips;
+CREATE TRIGGER trips_record_status_created
+  AFTER INSERT ON trips
+  FOR EACH ROW
+  EXECUTE FUNCTION record_trip_status_transition();
+
+DROP TRIGGER IF EXISTS trips_record_status_transition ON trips;
+CREATE TRIGGER trips_record_status_transition
+  AFTER UPDATE OF status ON trips
+  FOR EACH ROW
+  WHEN (OLD.status IS DISTINCT FROM NEW.status)
+  EXECUTE FUNCTION record_trip_status_transition();
+
+CREATE OR REPLACE FUNCTION public.transition_trip_status(
+  p_trip_id uuid,
+  p_status text,
+  p_actor uuid,
+  p_role text,
+  p_reason text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  trip RECORD;
+BEGIN
+  IF p_status NOT IN ('pending', 'accepted', 'in_progress', 'completed', 'cancelled') THEN
+    RAISE EXCEPTION 'Unknown status: %', p_status;
+  END IF;
+
+  SELECT id, status INTO trip
+  FROM trips
+  WHERE id = p_trip_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Booking not found';
+  END IF;
+
+  IF trip.status::text = p_status THEN
+    RAISE EXCEPTION 'Booking is already %', replace(p_status, '_', ' ');
+  END IF;
+
+  PERFORM set_trip_status_actor(p_actor, p_role, NULLIF(p_reason, ''));
+
+  -- A quoted literal takes the column's type, whether text or the trip_status enum
+  EXECUTE format('UPDATE trips SET status = %L WHERE id = $1', p_status) USING p_trip_id;
+
+  RETURN jsonb_build_object('previous_status', trip.status::text, 'status', p_status);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.transition_trip_status(uuid, text, uuid, text, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.transition_trip_status(uuid, text, uuid, text, text) TO service_role;
+
+CREATE OR REPLACE FUNCTION public.apply_booking_cancellation(
+  p_trip_id uuid,
+  p_cancellation jsonb,
+  p_actor uuid,
+  p_bulk boolean DEFAULT false
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  trip RECORD;
+  method text;
+  withdrawn integer;
+  payment_id uuid;
+  refund numeric := COALESCE((p_cancellation->>'refund')::numeric, 0);
+  outstanding numeric := COALESCE((p_cancellation->>'outstanding')::numeric, 0);
+  details jsonb;
+BEGIN
+  IF p_cancellation IS NULL OR p_cancellation->'fee' IS NULL THEN
+    RAISE EXCEPTION 'Cancellation fee could not be computed';
+  END IF;
+
+  SELECT id, status, user_id INTO trip
+  FROM trips
+  WHERE id = p_trip_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Booking not found';
+  END IF;
+
+  IF trip.status IN ('completed', 'cancelled') THEN
+    RAISE EXCEPTION 'Booking is already %', trip.status;
+  END IF;
+
+  PERFORM set_trip_status_actor(p_actor, 'admin', NULLIF(p_cancellation->>'reason', ''));
+  UPDATE trips SET status = 'cancelled' WHERE id = p_trip_id;
+
+  UPDATE trip_offers
+  SET status = 'cancelled', responded_at = now()
+  WHERE trip_id = p_trip_id AND status IN ('queued', 'pending');
+  GET DIAGNOSTICS withdrawn = ROW_COUNT;
+
+  -- Refunds go back the way the customer paid; both are pending until settled
+  IF refund > 0 THEN
+    SELECT payment_method INTO method
+    FROM payments
+    WHERE trip_id = p_trip_id AND kind = 'charge' AND status = 'completed'
+    ORDER BY paid_at DESC NULLS LAST
+    LIMIT 1;
+
+    INSERT INTO payments (trip_id, user_id, amount, status, payment_method, kind, reason, created_at)
+    VALUES (p_trip_id, trip.user_id, -refund, 'pending', COALESCE(method, 'manual'), 'refund', p_cancellation->>'reason', now())
+    RETURNING id INTO payment_id;
+  ELSIF outstanding > 0 THEN
+    INSERT INTO payments (trip_id, user_id, amount, status, payment_method, kind, reason, created_at)
+    VALUES (p_trip_id, trip.user_id, outstanding, 'pending', 'manual', 'cancellation_fee', p_cancellation->>'reason', now())
+    RETURNING id INTO payment_id;
+  END IF;
+
+  details := jsonb_strip_nulls(jsonb_build_object(
+    'previous_status', trip.status,
+    'hours_before_pickup', p_cancellation->'hoursBeforePickup',
+    'tier', p_cancellation->'tier',
+    'vehicle_exception', p_cancellation->'vehicleException',
+    'total', p_cancellation->'total',
+    'fee', p_cancellation->'fee',
+    'fee_percent', p_cancellation->'feePercent',
+    'fee_overridden', CASE WHEN (p_cancellation->>'feeOverridden')::boolean THEN true END,
+    'paid', p_cancellation->'paid',
+    'refund', NULLIF(refund, 0),
+    'outstanding', NULLIF(outstanding, 0),
+    'payment_id', payment_id,
+    'reason', NULLIF(p_cancellation->>'reason', ''),
+    'offers_withdrawn', NULLIF(withdrawn, 0),
+    'bulk', CASE WHEN p_bulk THEN true END
+  ));
+
+  INSERT INTO booking_activity_logs (booking_id, user_id, action, details, created_at)
+  VALUES (p_trip_id, p_actor, 'booking_cancelled', details, now());
+
+  RETURN details;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.apply_booking_cancellation(uuid, jsonb, uuid, boolean) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.apply_booking_cancellation(uuid, jsonb, uuid, boolean) TO service_role;
+
+CREATE OR REPLACE FUNCTION public.admin_bulk_update_bookings(
+  p_booking_ids uuid[],
+  p_action text,
+  p_params jsonb,
+  p_actor uuid
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  current_id uuid;
+  trip RECORD;
+  driver RECORD;
+  reference text;
+  new_tags text[];
+  added_tags text[];
+  withdrawn integer;
+  conflict jsonb;
+  results jsonb := '[]'::jsonb;
+  failed boolean := false;
+BEGIN
+  IF p_action NOT IN ('assign_driver', 'send_reminder', 'set_priority', 'add_tags', 'cancel') THEN
+    RAISE EXCEPTION 'Unknown bulk action: %', p_action;
+  END IF;
+
+  IF p_action = 'assign_driver' THEN
+    SELECT drivers.id, drivers.user_id, users.name INTO driver
+    FROM drivers
+    LEFT JOIN users ON users.id = drivers.user_id
+    WHERE drivers.id = (p_params->>'driver_id')::uuid;
+
+    IF NOT FOUND OR driver.user_id IS NULL THEN
+      RAISE EXCEPTION 'Driver not found';
+    END IF;
+  END IF;
+
+  IF p_action = 'set_priority' AND COALESCE((p_params->>'priority')::integer, -1) NOT IN (0, 1, 2) THEN
+    RAISE EXCEPTION 'Invalid priority';
+  END IF;
+
+  IF p_action = 'add_tags' THEN
+    SELECT array_agg(DISTINCT tag) INTO new_tags
+    FROM jsonb_array_elements_text(p_params->'tags') AS tag
+    WHERE trim(tag) <> '';
+
+    IF new_tags IS NULL THEN
+      RAISE EXCEPTION 'No tags given';
+    END IF;
+  END IF;
+
+  -- Drivers assigned here are recorded as accepted by the admin
+  PERFORM set_trip_status_actor(p_actor, 'admin');
+
+  BEGIN
+    FOREACH current_id IN ARRAY p_booking_ids LOOP
+      reference := NULL;
+
+      -- A failing booking only undoes its own changes here; the batch is undone below
+      BEGIN
+        SELECT id, booking_reference, status, priority, internal_tags, customer_email INTO trip
+        FROM trips
+        WHERE id = current_id
+        FOR UPDATE;
+
+        IF NOT FOUND THEN
+          RAISE EXCEPTION 'Booking not found';
+        END IF;
+
+        reference := trip.booking_reference;
+
+        CASE p_action
+          WHEN 'assign_driver' THEN
+            IF trip.status NOT IN ('pending', 'accepted') THEN
+              RAISE EXCEPTION 'Cannot assign a driver to a % booking', replace(trip.status, '_', ' ');
+            END IF;
+
+            conflict := p_params->'schedule_conflicts'->(current_id::text);
+            IF conflict IS NOT NULL AND NOT COALESCE((p_params->>'allow_conflicts')::boolean, false) THEN
+              RAISE EXCEPTION 'Driver has an overlapping trip: %', conflict->>'description';
+            END IF;
+
+            UPDATE trips
+            SET driver_id = driver.user_id,
+                status = 'accepted',
+                internal_tags = array_remove(internal_tags, 'no_driver')
+            WHERE id = current_id;
+
+            UPDATE trip_offers
+            SET status = 'cancelled', responded_at = now()
+            WHERE trip_id = current_id AND status IN ('queued', 'pending');
+            GET DIAGNOSTICS withdrawn = ROW_COUNT;
+
+            INSERT INTO booking_activity_logs (booking_id, user_id, action, details, created_at)
+            VALUES (
+              current_id,
+              p_actor,
+              'driver_assigned',
+              jsonb_strip_nulls(jsonb_build_object(
+                'driver_id', driver.id,
+                'driver_user_id', driver.user_id,
+                'driver_name', driver.name,
+                'offers_withdrawn', NULLIF(withdrawn, 0),
+                'schedule_conflicts', conflict->'trips',
+                'bulk', true
+              )),
+              now()
+            );
+
+          WHEN 'send_reminder' THEN
+            IF trip.status IN ('completed', 'cancelled') THEN
+              RAISE EXCEPTION 'Cannot send a reminder for a % booking', trip.status;
+            END IF;
+
+            UPDATE trips
+            SET last_reminder_sent = now(),
+                priority = GREATEST(COALESCE(priority, 0), 1)
+            WHERE id = current_id;
+
+            INSERT INTO booking_activity_logs (booking_id, user_id, action, details, created_at)
+            VALUES (
+              current_id,
+              p_actor,
+              'reminder_sent',
+              jsonb_build_object('timestamp', now(), 'recipient', trip.customer_email, 'bulk', true),
+              now()
+            );
+
+          WHEN 'set_priority' THEN
+            UPDATE trips SET priority = (p_params->>'priority')::integer WHERE id = current_id;
+
+            INSERT INTO booking_activity_logs (booking_id, user_id, action, details, created_at)
+            VALUES (
+              current_id,
+              p_actor,
+              'priority_changed',
+              jsonb_build_object(
+                'previous_priority', COALESCE(trip.priority, 0),
+                'new_priority', (p_params->>'priority')::integer,
+                'bulk', true
+              ),
+              now()
+            );
+
+          WHEN 'add_tags' THEN
+            SELECT array_agg(tag) INTO added_tags
+            FROM unnest(new_tags) AS tag
+            WHERE NOT tag = ANY (COALESCE(trip.internal_tags, '{}'));
+
+            -- Bookings that already have every tag are left alone
+            IF added_tags IS NOT NULL THEN
+              UPDATE trips
+              SET internal_tags = COALESCE(internal_tags, '{}') || added_tags
+              WHERE id = current_id;
+
+              INSERT INTO booking_activity_logs (booking_id, user_id, action, details, created_at)
+              VALUES (
+                current_id,
+                p_actor,
+                'tags_added',
+                jsonb_build_object('tags', to_jsonb(added_tags), 'bulk', true),
+                now()
+              );
+            END IF;
+
+          WHEN 'cancel' THEN
+            -- Cancels with the fee the edge function computed for this booking
+            PERFORM apply_booking_cancellation(current_id, p_params->'cancellations'->(current_id::text), p_actor, true);
+        END CASE;
+
+        results := results || jsonb_build_object(
+          'bookingId', current_id,
+          'bookingReference', reference,
+          'success', true
+        );
+      EXCEPTION WHEN OTHERS THEN
+        failed := true;
+        results := results || jsonb_build_object(
+          'bookingId', current_id,
+          'bookingReference', reference,
+          'success', false,
+          'error', SQLERRM
+        );
+      END;
+    END LOOP;
+
+    -- Undo the bookings that succeeded; the results survive the rollback
+    IF failed THEN
+      RAISE EXCEPTION USING ERRCODE = 'RTB01';
+    END IF;
+  EXCEPTION WHEN SQLSTATE 'RTB01' THEN
+    NULL;
+  END;
+
+  RETURN jsonb_build_object('applied', NOT failed, 'results', results);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.admin_bulk_update_bookings(uuid[], text, jsonb, uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.admin_bulk_update_bookings(uuid[], text, jsonb, uuid) TO service_role;
\ No newline at end of file
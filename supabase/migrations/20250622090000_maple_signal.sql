@@ -0,0 +1,37 @@
+/*
+  # Saved booking views
+
+  1. New Tables
+    - `booking_views` - Named filters of the admin bookings table saved by each admin: status,
+      date range, driver, priority, tags, search, sort and page size. Names are unique per admin,
+      ignoring case
+
+  2. Security
+    - RLS on `booking_views`: admins can read and change their own views only
+*/
+
+CREATE TABLE IF NOT EXISTS booking_views (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (length(trim(name)) BETWEEN 1 AND 80),
+  filters jsonb NOT NULL DEFAULT '{}'::jsonb,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS booking_views_user_name_key ON booking_views (user_id, lower(name));
+
+ALTER TABLE booking_views ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage their own booking views"
+  ON booking_views
+  FOR ALL
+  TO authenticated
+  USING (
+    user_id = auth.uid()
+    AND EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND user_role = 'admin')
+  )
+  WITH CHECK (
+    user_id = auth.uid()
+    AND EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND user_role = 'admin')
+  );
\ No newline at end of file
@@ -0,0 +1,285 @@
+/*
+  # Customer directory
+
+  1. New Tables
+    - `customers` - One row per customer, de-duplicated from the contact details copied onto
+      trips. Customers are matched by account, then by email address ignoring case, then by
+      phone number digits when a trip has no email. Merged duplicates are kept with
+      `merged_into_id` set so later trips with their details still find the merged customer
+
+  2. Changes
+    - `trips.customer_id` - The customer a trip belongs to, set by a trigger whenever a trip is
+      created or its contact details change. Existing trips are backfilled, newest first so each
+      customer gets their most recent name
+
+  3. Views
+    - `customer_summaries` - Customers that were not merged away, with their lifetime bookings,
+      completed and cancelled bookings, spend (completed payments less refunds) and first and last
+      pickup
+
+  4. Functions
+    - `customer_for_contact` - Finds or creates the customer for a trip's contact details
+    - `merge_customers` - Moves the trips of duplicates to one customer, adds the duplicates'
+      notes to the customer's (cut to the 2000 character limit), keeps their phone and account
+      where the customer has none, and marks the duplicates merged
+
+  5. Security
+    - RLS on `customers`: only admins can read or change customers
+    - The view runs with the caller's permissions; the functions can only be called by the
+      service role
+*/
+
+CREATE TABLE IF NOT EXISTS customers (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL DEFAULT '',
+  email text,
+  phone text,
+  email_key text GENERATED ALWAYS AS (NULLIF(lower(trim(email)), '')) STORED,
+  phone_key text GENERATED ALWAYS AS (NULLIF(regexp_replace(COALESCE(phone, ''), '\D', '', 'g'), '')) STORED,
+  user_id uuid REFERENCES users(id) ON DELETE SET NULL,
+  notes text CHECK (notes IS NULL OR length(notes) <= 2000),
+  merged_into_id uuid REFERENCES customers(id) ON DELETE SET NULL,
+  merged_at timestamptz,
+  merged_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT customers_not_merged_into_self CHECK (merged_into_id IS DISTINCT FROM id)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS customers_email_key ON customers (email_key) WHERE email_key IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS customers_phone_key ON customers (phone_key) WHERE email_key IS NULL AND phone_key IS NOT NULL;
+CREATE INDEX IF NOT EXISTS customers_user_id_idx ON customers (user_id) WHERE user_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS customers_merged_into_idx ON customers (merged_into_id) WHERE merged_into_id IS NOT NULL;
+
+ALTER TABLE trips ADD COLUMN IF NOT EXISTS customer_id uuid REFERENCES customers(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS trips_customer_datetime_idx ON trips (customer_id, datetime);
+
+ALTER TABLE customers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage customers"
+  ON customers
+  FOR ALL
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND user_role = 'admin'))
+  WITH CHECK (EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND user_role = 'admin'));
+
+CREATE OR REPLACE FUNCTION public.customer_for_contact(
+  p_name text,
+  p_email text,
+  p_phone text,
+  p_user_id uuid
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_email text := NULLIF(lower(trim(p_email)), '');
+  v_phone text := NULLIF(regexp_replace(COALESCE(p_phone, ''), '\D', '', 'g'), '');
+  found_id uuid;
+BEGIN
+  -- Trips booked from an account without contact details use the account's email
+  IF v_email IS NULL AND p_user_id IS NOT NULL THEN
+    SELECT NULLIF(lower(trim(email)), '') INTO v_email FROM users WHERE id = p_user_id;
+  END IF;
+
+  IF v_email IS NULL AND v_phone IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  IF p_user_id IS NOT NULL THEN
+    SELECT COALESCE(merged_into_id, id) INTO found_id
+    FROM customers
+    WHERE user_id = p_user_id
+    ORDER BY merged_into_id NULLS FIRST, created_at
+    LIMIT 1;
+  END IF;
+
+  IF found_id IS NULL AND v_email IS NOT NULL THEN
+    SELECT COALESCE(merged_into_id, id) INTO found_id FROM customers WHERE email_key = v_email;
+  ELSIF found_id IS NULL THEN
+    SELECT COALESCE(merged_into_id, id) INTO found_id FROM customers WHERE email_key IS NULL AND phone_key = v_phone;
+  END IF;
+
+  IF found_id IS NULL THEN
+    INSERT INTO customers (name, email, phone, user_id)
+    VALUES (COALESCE(NULLIF(trim(p_name), ''), ''), v_email, NULLIF(trim(p_phone), ''), p_user_id)
+    ON CONFLICT DO NOTHING
+    RETURNING id INTO found_id;
+
+    -- Another trip created the customer first
+    IF found_id IS NULL THEN
+      IF v_email IS NOT NULL THEN
+        SELECT COALESCE(merged_into_id, id) INTO found_id FROM customers WHERE email_key = v_email;
+      ELSE
+        SELECT COALESCE(merged_into_id, id) INTO found_id FROM customers WHERE email_key IS NULL AND phone_key = v_phone;
+      END IF;
+    END IF;
+  ELSE
+    -- Fill in an account or phone number the customer was first seen without
+    UPDATE customers SET
+      user_id = COALESCE(user_id, p_user_id),
+      phone = CASE WHEN phone IS NULL AND email_key IS NOT NULL THEN NULLIF(trim(p_phone), '') ELSE phone END,
+      updated_at = now()
+    WHERE id = found_id
+      AND ((user_id IS NULL AND p_user_id IS NOT NULL)
+        OR (phone IS NULL AND email_key IS NOT NULL AND NULLIF(trim(p_phone), '') IS NOT NULL));
+  END IF;
+
+  RETURN found_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.customer_for_contact(text, text, text, uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.customer_for_contact(text, text, text, uuid) TO service_role;
+
+CREATE OR REPLACE FUNCTION public.assign_trip_customer()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.customer_id IS NULL THEN
+      NEW.customer_id := customer_for_contact(NEW.customer_name, NEW.customer_email, NEW.customer_phone, NEW.user_id);
+    END IF;
+  ELSIF NEW.customer_email IS DISTINCT FROM OLD.customer_email
+    OR NEW.customer_phone IS DISTINCT FROM OLD.customer_phone
+    OR NEW.user_id IS DISTINCT FROM OLD.user_id THEN
+    NEW.customer_id := customer_for_contact(NEW.customer_name, NEW.customer_email, NEW.customer_phone, NEW.user_id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trips_assign_customer ON trips;
+CREATE TRIGGER trips_assign_customer
+  BEFORE INSERT OR UPDATE OF customer_email, customer_phone, user_id ON trips
+  FOR EACH ROW
+  EXECUTE FUNCTION assign_trip_customer();
+
+-- Backfill, newest trips first so customers are named as they last booked
+DO $$
+DECLARE
+  trip RECORD;
+BEGIN
+  FOR trip IN
+    SELECT id, customer_name, customer_email, customer_phone, user_id
+    FROM trips
+    WHERE customer_id IS NULL
+    ORDER BY created_at DESC NULLS LAST
+  LOOP
+    UPDATE trips
+    SET customer_id = customer_for_contact(trip.customer_name, trip.customer_email, trip.customer_phone, trip.user_id)
+    WHERE id = trip.id;
+  END LOOP;
+END $$;
+
+CREATE OR REPLACE VIEW customer_summaries
+WITH (security_invoker = true)
+AS
+SELECT
+  c.id,
+  c.name,
+  c.email,
+  c.phone,
+  c.phone_key,
+  c.user_id,
+  c.notes,
+  c.created_at,
+  c.updated_at,
+  count(t.id)::integer AS bookings,
+  (count(t.id) FILTER (WHERE t.status = 'completed'))::integer AS completed_bookings,
+  (count(t.id) FILTER (WHERE t.status = 'cancelled'))::integer AS cancellations,
+  COALESCE(sum(paid.amount), 0)::numeric AS spend,
+  min(t.datetime) AS first_booking_at,
+  max(t.datetime) AS last_booking_at
+FROM customers c
+LEFT JOIN trips t ON t.customer_id = c.id
+LEFT JOIN LATERAL (
+  SELECT sum(p.amount) AS amount
+  FROM payments p
+  WHERE p.trip_id = t.id AND p.status = 'completed'
+) paid ON true
+WHERE c.merged_into_id IS NULL
+GROUP BY c.id;
+
+CREATE OR REPLACE FUNCTION public.merge_customers(
+  p_target uuid,
+  p_duplicates uuid[],
+  p_actor uuid
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target customers%ROWTYPE;
+  found_count integer;
+  moved_count integer;
+BEGIN
+  IF p_target = ANY(p_duplicates) THEN
+    RAISE EXCEPTION 'A customer cannot be merged into itself';
+  END IF;
+
+  SELECT * INTO target FROM customers WHERE id = p_target FOR UPDATE;
+
+  IF NOT FOUND OR target.merged_into_id IS NOT NULL THEN
+    RAISE EXCEPTION 'Customer not found';
+  END IF;
+
+  SELECT count(*) INTO found_count
+  FROM (
+    SELECT id FROM customers
+    WHERE id = ANY(p_duplicates) AND merged_into_id IS NULL
+    FOR UPDATE
+  ) duplicates;
+
+  IF found_count <> cardinality(p_duplicates) THEN
+    RAISE EXCEPTION 'Some customers were not found or were already merged';
+  END IF;
+
+  UPDATE trips SET customer_id = p_target WHERE customer_id = ANY(p_duplicates);
+  GET DIAGNOSTICS moved_count = ROW_COUNT;
+
+  UPDATE customers SET
+    user_id = COALESCE(target.user_id, (
+      SELECT user_id FROM customers
+      WHERE id = ANY(p_duplicates) AND user_id IS NOT NULL
+      ORDER BY created_at
+      LIMIT 1
+    )),
+    phone = COALESCE(target.phone, (
+      SELECT phone FROM customers
+      WHERE id = ANY(p_duplicates) AND phone IS NOT NULL
+      ORDER BY created_at
+      LIMIT 1
+    )),
+    -- Combined notes are cut to fit; the duplicates keep their own notes in full
+    notes = NULLIF(left(concat_ws(E'\n\n', NULLIF(target.notes, ''), (
+      SELECT string_agg(notes, E'\n\n' ORDER BY created_at)
+      FROM customers
+      WHERE id = ANY(p_duplicates) AND NULLIF(notes, '') IS NOT NULL
+    )), 2000), ''),
+    updated_at = now()
+  WHERE id = p_target;
+
+  -- Customers merged into a duplicate earlier now point at the target directly
+  UPDATE customers SET
+    merged_into_id = p_target,
+    merged_at = COALESCE(merged_at, now()),
+    merged_by = COALESCE(merged_by, p_actor),
+    updated_at = now()
+  WHERE id = ANY(p_duplicates) OR merged_into_id = ANY(p_duplicates);
+
+  RETURN jsonb_build_object('customer_id', p_target, 'merged', found_count, 'trips_moved', moved_count);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.merge_customers(uuid, uuid[], uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.merge_customers(uuid, uuid[], uuid) TO service_role;
\ No newline at end of file
@@ -0,0 +1,109 @@
+/*
+  # Flight tracking for airport pickups
+
+  1. Changes
+    - `trips.flight_number` - The flight the customer arrives on, e.g. `BA123`
+    - `trips.flight_scheduled_arrival` - When the flight is scheduled to land; required with a
+      flight number
+    - `trips.flight_estimated_arrival` - The latest expected landing the pickup was planned
+      around, set by the `track-flights` job
+    - `trips.flight_status` - The flight's latest status: `scheduled`, `delayed`, `landed`,
+      `cancelled` or `diverted`
+    - `trips.flight_checked_at` - When the flight's status was last looked up
+
+  2. New Tables
+    - `driver_notifications` - Messages for a driver about their trips, shown in their jobs until
+      they dismiss them, e.g. a pickup moved because the flight is delayed
+
+  3. Scheduling
+    - Calls the `track-flights` edge function every 10 minutes with pg_cron and pg_net when both
+      are available
+
+  4. Security
+    - RLS on `driver_notifications`: drivers can read and dismiss their own notifications, admins
+      can read all of them. Notifications are created by the service role
+*/
+
+ALTER TABLE trips ADD COLUMN IF NOT EXISTS flight_number text;
+ALTER TABLE trips ADD COLUMN IF NOT EXISTS flight_scheduled_arrival timestamptz;
+ALTER TABLE trips ADD COLUMN IF NOT EXISTS flight_estimated_arrival timestamptz;
+ALTER TABLE trips ADD COLUMN IF NOT EXISTS flight_status text;
+ALTER TABLE trips ADD COLUMN IF NOT EXISTS flight_checked_at timestamptz;
+
+ALTER TABLE trips DROP CONSTRAINT IF EXISTS trips_flight_status_check;
+ALTER TABLE trips ADD CONSTRAINT trips_flight_status_check
+  CHECK (flight_status IS NULL OR flight_status IN ('scheduled', 'delayed', 'landed', 'cancelled', 'diverted'));
+
+ALTER TABLE trips DROP CONSTRAINT IF EXISTS trips_flight_arrival_check;
+ALTER TABLE trips ADD CONSTRAINT trips_flight_arrival_check
+  CHECK (flight_number IS NULL OR flight_scheduled_arrival IS NOT NULL);
+
+-- Open bookings with a flight, for the tracking job
+CREATE INDEX IF NOT EXISTS trips_flight_tracking_idx
+  ON trips (flight_scheduled_arrival)
+  WHERE flight_number IS NOT NULL AND status IN ('pending', 'accepted');
+
+CREATE TABLE IF NOT EXISTS driver_notifications (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  driver_user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  trip_id uuid REFERENCES trips(id) ON DELETE CASCADE,
+  kind text NOT NULL CHECK (kind IN ('pickup_moved', 'flight_disrupted')),
+  title text NOT NULL,
+  body text NOT NULL,
+  details jsonb NOT NULL DEFAULT '{}'::jsonb,
+  read_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS driver_notifications_unread_idx
+  ON driver_notifications (driver_user_id, created_at DESC)
+  WHERE read_at IS NULL;
+
+ALTER TABLE driver_notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view driver notifications"
+  ON driver_notifications
+  FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND user_role = 'admin'));
+
+CREATE POLICY "Drivers can view their notifications"
+  ON driver_notifications
+  FOR SELECT
+  TO authenticated
+  USING (driver_user_id = auth.uid());
+
+CREATE POLICY "Drivers can dismiss their notifications"
+  ON driver_notifications
+  FOR UPDATE
+  TO authenticated
+  USING (driver_user_id = auth.uid())
+  WITH CHECK (driver_user_id = auth.uid());
+
+-- Drivers only mark notifications read
+REVOKE UPDATE ON driver_notifications FROM authenticated;
+GRANT UPDATE (read_at) ON driver_notifications TO authenticated;
+
+-- Check tracked flights every 10 minutes
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron')
+    AND EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_net') THEN
+    PERFORM cron.schedule(
+      'track-flights',
+      '*/10 * * * *',
+      $cron$
+        SELECT net.http_post(
+          url := current_setting('app.settings.supabase_url') || '/functions/v1/track-flights',
+          headers := jsonb_build_object(
+            'Authorization', 'Bearer ' || current_setting('app.settings.service_role_key'),
+            'Content-Type', 'application/json'
+          ),
+          body := '{}'::jsonb
+        )
+        WHERE current_setting('app.settings.supabase_url', true) IS NOT NULL
+          AND current_setting('app.settings.service_role_key', true) IS NOT NULL
+      $cron$
+    );
+  END IF;
+END $$;
\ No newline at end of file